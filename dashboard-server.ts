@@ -6,7 +6,27 @@
  * Simple Bun server to serve dashboard API endpoints for development and testing
  */
 
-import dashboardRoutes from './src/api/routes/dashboard.routes';
+import { handleDashboardRoutes } from './src/api/routes/dashboard.routes';
+import { handleLedgerRoutes } from './src/api/routes/ledger.routes';
+import { handleWorkflowRoutes } from './src/api/routes/workflow.routes';
+import { initializeCrystalClearArchitecture } from './src/domains/domain-overview';
+import { BalanceController } from './src/domains/balance/balance.controller';
+import { LedgerService } from './src/domains/balance/services/ledger-service';
+import { SQLiteLedgerRepository } from './src/domains/balance/repositories/ledger-repository';
+
+// Ledger books shared with the Balance domain; the ledger endpoints only read
+// from the ledger service, never from the balance repository
+const ledgerService = new LedgerService(
+  new SQLiteLedgerRepository(process.env.LEDGER_DB_PATH || 'ledger.db')
+);
+const balanceController = new BalanceController({} as any, ledgerService);
+
+// Domain workflows behind /api/workflows; the rest of the server stays up if
+// they fail to start, e.g. while Fantasy402 is unreachable
+const architecture = initializeCrystalClearArchitecture().catch(error => {
+  console.error('❌ Domain architecture failed to start, workflow endpoints are disabled:', error);
+  return null;
+});
 
 const server = Bun.serve({
   port: process.env.PORT || 3001,
@@ -44,18 +64,7 @@ const server = Bun.serve({
     // Dashboard API routes
     if (url.pathname.startsWith('/api/dashboard')) {
       try {
-        // Create a mock request object for the router
-        const mockRequest = {
-          url: request.url,
-          method: request.method,
-          headers: Object.fromEntries(request.headers.entries()),
-          json: request.json.bind(request),
-          text: request.text.bind(request),
-          arrayBuffer: request.arrayBuffer.bind(request)
-        };
-
-        // Handle the request through the dashboard router
-        const response = await dashboardRoutes.handle(mockRequest);
+        const response = await handleDashboardRoutes(url, request);
 
         if (response) {
           return response;
@@ -73,6 +82,34 @@ const server = Bun.serve({
       }
     }
 
+    // Ledger API routes
+    if (url.pathname.startsWith('/api/ledger')) {
+      const response = await handleLedgerRoutes(url, request, balanceController);
+      if (response) {
+        return response;
+      }
+    }
+
+    // Workflow API routes (JWT required)
+    if (url.pathname.startsWith('/api/workflows')) {
+      const domains = await architecture;
+      if (!domains) {
+        return new Response(JSON.stringify({
+          error: 'Service unavailable',
+          message: 'Workflow engine is not running',
+          timestamp: new Date().toISOString()
+        }), {
+          status: 503,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
+      const response = await handleWorkflowRoutes(url, request, domains.workflows);
+      if (response) {
+        return response;
+      }
+    }
+
     // API info endpoint
     if (url.pathname === '/api') {
       return new Response(JSON.stringify({
@@ -83,7 +120,10 @@ const server = Bun.serve({
           metrics: '/api/dashboard/metrics',
           analytics: '/api/dashboard/analytics',
           health: '/api/dashboard/health',
-          performance: '/api/dashboard/performance'
+          performance: '/api/dashboard/performance',
+          trialBalance: '/api/ledger/trial-balance',
+          ledgerIntegrity: '/api/ledger/integrity',
+          workflows: '/api/workflows'
         },
         documentation: 'See README.md for detailed API documentation',
         timestamp: new Date().toISOString()
@@ -99,7 +139,9 @@ const server = Bun.serve({
       availableRoutes: [
         '/health',
         '/api',
-        '/api/dashboard/*'
+        '/api/dashboard/*',
+        '/api/ledger/*',
+        '/api/workflows/*'
       ],
       timestamp: new Date().toISOString()
     }), {
@@ -127,6 +169,12 @@ console.log(`   • http://${server.hostname}:${server.port}/api/dashboard/metri
 console.log(`   • http://${server.hostname}:${server.port}/api/dashboard/analytics`);
 console.log(`   • http://${server.hostname}:${server.port}/api/dashboard/health`);
 console.log(`   • http://${server.hostname}:${server.port}/api/dashboard/performance`);
+console.log(`📒 Ledger endpoints available at:`);
+console.log(`   • http://${server.hostname}:${server.port}/api/ledger/trial-balance`);
+console.log(`   • http://${server.hostname}:${server.port}/api/ledger/integrity`);
+console.log(`🔄 Workflow endpoints (JWT required) available at:`);
+console.log(`   • http://${server.hostname}:${server.port}/api/workflows`);
+console.log(`   • http://${server.hostname}:${server.port}/api/workflows/:id/signals/:signal`);
 console.log(`🏥 Health check: http://${server.hostname}:${server.port}/health`);
 console.log(`📖 API info: http://${server.hostname}:${server.port}/api`);
 
@@ -4,6 +4,7 @@
  */
 
 import { OpenAPIGenerator } from '../openapi/openapi-generator';
+import { routeContracts, type RouteContractRegistry } from '../openapi/route-contracts';
 
 export interface APIDocsConfig {
   enabled: boolean;
@@ -25,9 +26,11 @@ export interface APIDocsConfig {
 export class APIDocsMiddleware {
   private generator: OpenAPIGenerator;
   private config: APIDocsConfig;
+  private contracts: RouteContractRegistry;
 
-  constructor(config: APIDocsConfig) {
+  constructor(config: APIDocsConfig, contracts: RouteContractRegistry = routeContracts) {
     this.config = config;
+    this.contracts = contracts;
     this.generator = new OpenAPIGenerator();
 
     // Configure the generator with our settings
@@ -73,6 +76,8 @@ export class APIDocsMiddleware {
     const format = url.searchParams.get('format') || 'json';
 
     try {
+      // Contracts are read on every request so routers loaded later still show up
+      this.generator.addContracts(this.contracts.list());
       const spec = this.generator.generate();
 
       if (format === 'yaml') {
@@ -0,0 +1,417 @@
+/**
+ * API Client Generator
+ * Emits a typed TypeScript client from the spec OpenAPIGenerator.generate()
+ * produces: per-route request and response types, one method per operation
+ * and page iterators for page-numbered routes. Transport concerns (auth,
+ * retries, pagination) live in the client package's hand-written runtime.
+ */
+
+import type { OpenAPIOperation, OpenAPISchema, OpenAPISpec } from './openapi-generator';
+
+export interface ClientGeneratorOptions {
+  /** Name of the emitted client class */
+  className?: string;
+  /** Module specifier the generated file imports the runtime from */
+  runtimeImport?: string;
+  /** Command that regenerates the file, named in its header */
+  command?: string;
+}
+
+interface ClientOperation {
+  method: string;
+  path: string;
+  operation: OpenAPIOperation;
+  name: string;
+  typeName: string;
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Generate the client module source. Output depends only on the spec, so
+ * regenerating an unchanged spec reproduces the committed file exactly.
+ */
+export function generateClient(spec: OpenAPISpec, options: ClientGeneratorOptions = {}): string {
+  const className = options.className ?? 'DashboardApiClient';
+  const runtimeImport = options.runtimeImport ?? './runtime';
+  const command = options.command ?? 'bun run api:client:generate';
+
+  const operations = collectOperations(spec);
+  const types = new TypeWriter(spec);
+
+  const routeTypes = operations.map(op => routeTypeSource(op, types));
+  const methods = operations.map(op => methodSource(op, types, spec));
+
+  const lines = [
+    '/**',
+    ` * ${spec.info.title} client (v${spec.info.version})`,
+    ' *',
+    ' * GENERATED from the OpenAPI spec built from the route contracts.',
+    ` * Do not edit by hand: run \`${command}\` to update it.`,
+    ' */',
+    '',
+    'import {',
+    '  ApiTransport,',
+    '  paginate,',
+    '  type ApiTransportOptions,',
+    '  type RequestOptions,',
+    `} from '${runtimeImport}';`,
+    '',
+    'export {',
+    '  ApiError,',
+    '  ApiTransport,',
+    '  hasNextPage,',
+    '  type ApiTransportOptions,',
+    '  type RequestOptions,',
+    `} from '${runtimeImport}';`,
+    '',
+  ];
+
+  // Route types may pull in component schemas, so emit those afterwards
+  const components = types.componentSource();
+  if (components) {
+    lines.push('// !== SCHEMAS !==', '', components);
+  }
+  for (const source of routeTypes) {
+    lines.push(source);
+  }
+
+  lines.push(
+    '// !== CLIENT !==',
+    '',
+    `export class ${className} {`,
+    '  readonly transport: ApiTransport;',
+    '',
+    '  constructor(transport: ApiTransport | ApiTransportOptions) {',
+    '    this.transport =',
+    '      transport instanceof ApiTransport ? transport : new ApiTransport(transport);',
+    '  }',
+    methods.join('\n'),
+    '}',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+function collectOperations(spec: OpenAPISpec): ClientOperation[] {
+  const operations: ClientOperation[] = [];
+  const seen = new Set<string>();
+
+  for (const path of Object.keys(spec.paths).sort()) {
+    for (const method of HTTP_METHODS) {
+      const operation = spec.paths[path][method];
+      if (!operation) continue;
+
+      const name = identifier(operation.operationId || `${method} ${path}`);
+      if (seen.has(name)) {
+        throw new Error(`Duplicate operationId "${name}" (${method.toUpperCase()} ${path})`);
+      }
+      seen.add(name);
+      operations.push({ method, path, operation, name, typeName: pascal(name) });
+    }
+  }
+  return operations;
+}
+
+// !== ROUTE TYPES !==
+
+function routeTypeSource(op: ClientOperation, types: TypeWriter): string {
+  const { operation, typeName } = op;
+  const out = [`// !== ${op.method.toUpperCase()} ${op.path} !==`, ''];
+
+  const params = parameterObject(operation, 'path');
+  const query = parameterObject(operation, 'query');
+  const body = operation.requestBody?.content['application/json']?.schema;
+
+  if (params) out.push(`export type ${typeName}Params = ${types.render(params, 0)};`, '');
+  if (query) out.push(`export type ${typeName}Query = ${types.render(query, 0)};`, '');
+  if (body) out.push(`export type ${typeName}Body = ${types.render(body, 0)};`, '');
+
+  const parts: string[] = [];
+  if (params) parts.push(`  params: ${typeName}Params;`);
+  if (query) parts.push(`  query${query.required?.length ? '' : '?'}: ${typeName}Query;`);
+  if (body) {
+    parts.push(`  body${operation.requestBody?.required === false ? '?' : ''}: ${typeName}Body;`);
+  }
+  if (parts.length > 0) {
+    out.push(`export interface ${typeName}Input {`, ...parts, '}', '');
+  }
+  if (query && isPaginated(operation, types)) {
+    out.push(
+      `export type ${typeName}PageInput = Omit<${typeName}Input, 'query'> & {`,
+      `  query?: Omit<${typeName}Query, 'page'>;`,
+      '};',
+      ''
+    );
+  }
+
+  const response = `export type ${typeName}Response = ${responseType(op, types)};`;
+  out.push(docComment(operation.summary, '') + response, '');
+  return out.join('\n');
+}
+
+/**
+ * Path or query parameters as one object schema
+ */
+function parameterObject(
+  operation: OpenAPIOperation,
+  location: 'path' | 'query'
+): OpenAPISchema | undefined {
+  const parameters = (operation.parameters ?? []).filter(p => p.in === location);
+  if (parameters.length === 0) return undefined;
+
+  const schema: OpenAPISchema = { type: 'object', properties: {}, required: [] };
+  for (const parameter of parameters) {
+    schema.properties![parameter.name] = parameter.schema;
+    if (parameter.required) schema.required!.push(parameter.name);
+  }
+  return schema;
+}
+
+/**
+ * Union of the documented 2xx JSON bodies
+ */
+function responseType(op: ClientOperation, types: TypeWriter): string {
+  const rendered = Object.keys(op.operation.responses)
+    .filter(status => /^2\d\d$/.test(status))
+    .sort()
+    .map(status => op.operation.responses[status].content?.['application/json']?.schema)
+    .filter((schema): schema is OpenAPISchema => schema !== undefined)
+    .map(schema => types.render(schema, 0));
+
+  const unique = [...new Set(rendered)];
+  return unique.length > 0 ? unique.join(' | ') : 'void';
+}
+
+// !== CLIENT METHODS !==
+
+function methodSource(op: ClientOperation, types: TypeWriter, spec: OpenAPISpec): string {
+  const { operation, name, typeName } = op;
+  const params = parameterObject(operation, 'path');
+  const query = parameterObject(operation, 'query');
+  const body = operation.requestBody?.content['application/json']?.schema;
+  const hasInput = Boolean(params || query || body);
+  const inputOptional =
+    !params && !query?.required?.length && (!body || operation.requestBody?.required === false);
+
+  const auth = (operation.security ?? spec.security ?? []).length > 0;
+  const request = [
+    `        method: '${op.method.toUpperCase()}',`,
+    `        path: '${op.path}',`,
+    params ? '        params: input.params,' : '',
+    query ? '        query: input.query,' : '',
+    body ? '        body: input.body,' : '',
+    `        auth: ${auth},`,
+  ].filter(Boolean);
+
+  const defaultInput = inputOptional ? ' = {}' : '';
+  const returns = `Promise<${typeName}Response>`;
+  const inline = `  ${name}(options?: RequestOptions): ${returns} {`;
+  const signature = hasInput
+    ? [
+        `  ${name}(`,
+        `    input: ${typeName}Input${defaultInput},`,
+        '    options?: RequestOptions',
+        `  ): ${returns} {`,
+      ]
+    : inline.length <= 100
+      ? [inline]
+      : [`  ${name}(`, '    options?: RequestOptions', `  ): ${returns} {`];
+
+  const doc = [operation.summary, '', `\`${op.method.toUpperCase()} ${op.path}\``];
+  if (operation['x-permissions']?.length) {
+    doc.push(`Requires: ${operation['x-permissions'].join(', ')}`);
+  }
+  if (operation.deprecated) doc.push('@deprecated');
+
+  const out = [
+    '',
+    docComment(doc, '  ').trimEnd(),
+    ...signature,
+    '    return this.transport.request(',
+    '      {',
+    ...request,
+    '      },',
+    '      options',
+    '    );',
+    '  }',
+  ];
+
+  if (query && isPaginated(operation, types)) {
+    out.push(
+      '',
+      `  /** Every page of \`${name}\`, until the response reports no next page */`,
+      `  ${name}Pages(`,
+      `    input: ${typeName}PageInput${defaultInput},`,
+      '    options?: RequestOptions',
+      `  ): AsyncGenerator<${typeName}Response> {`,
+      '    return paginate(page =>',
+      `      this.${name}({ ...input, query: { ...input.query, page } }, options)`,
+      '    );',
+      '  }'
+    );
+  }
+  return out.join('\n');
+}
+
+/**
+ * Page-numbered routes take a `page` query parameter and carry a
+ * `pagination` block in the success body
+ */
+function isPaginated(operation: OpenAPIOperation, types: TypeWriter): boolean {
+  const takesPage = (operation.parameters ?? []).some(p => p.in === 'query' && p.name === 'page');
+  return takesPage && Object.entries(operation.responses).some(([status, response]) => {
+    const schema = /^2\d\d$/.test(status)
+      ? response.content?.['application/json']?.schema
+      : undefined;
+    if (!schema) return false;
+    const resolved = types.resolve(schema);
+    const data = resolved.properties?.data ? types.resolve(resolved.properties.data) : undefined;
+    return Boolean(resolved.properties?.pagination || data?.properties?.pagination);
+  });
+}
+
+// !== SCHEMA → TYPESCRIPT !==
+
+class TypeWriter {
+  private referenced = new Set<string>();
+
+  constructor(private spec: OpenAPISpec) {}
+
+  resolve(schema: OpenAPISchema): OpenAPISchema {
+    const name = refName(schema.$ref);
+    return name ? (this.spec.components.schemas[name] ?? {}) : schema;
+  }
+
+  render(schema: OpenAPISchema, indent: number): string {
+    const type = this.renderBase(schema, indent);
+    return schema.nullable && type !== 'null' ? `${type} | null` : type;
+  }
+
+  /**
+   * Component schemas referenced so far (and everything they reference)
+   */
+  componentSource(): string {
+    const emitted = new Set<string>();
+    const out: string[] = [];
+    let pending = [...this.referenced].sort();
+
+    while (pending.length > 0) {
+      for (const name of pending) {
+        emitted.add(name);
+        const schema = this.spec.components.schemas[name] ?? {};
+        out.push(
+          `${docComment(schema.description, '')}export type ${name} = ${this.render(schema, 0)};`,
+          ''
+        );
+      }
+      pending = [...this.referenced].filter(name => !emitted.has(name)).sort();
+    }
+    return out.join('\n');
+  }
+
+  private renderBase(schema: OpenAPISchema, indent: number): string {
+    if (schema.$ref) {
+      const name = refName(schema.$ref);
+      if (!name) return 'unknown';
+      this.referenced.add(name);
+      return name;
+    }
+    if (schema.oneOf) {
+      return schema.oneOf.map(option => this.wrap(this.render(option, indent))).join(' | ');
+    }
+    if (schema.allOf) {
+      return schema.allOf.map(part => this.wrap(this.render(part, indent))).join(' & ');
+    }
+    if (schema.enum) {
+      return schema.enum.map(literal).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array': {
+        const item = schema.items ? this.render(schema.items, indent) : 'unknown';
+        return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+      }
+      case 'object':
+        return this.renderObject(schema, indent);
+    }
+    return schema.properties ? this.renderObject(schema, indent) : 'unknown';
+  }
+
+  private renderObject(schema: OpenAPISchema, indent: number): string {
+    const extra = schema.additionalProperties;
+    const extraType =
+      extra === true || (typeof extra === 'object' && Object.keys(extra).length === 0)
+        ? 'unknown'
+        : typeof extra === 'object'
+          ? this.render(extra, indent + 1)
+          : undefined;
+
+    const entries = Object.entries(schema.properties ?? {});
+    if (entries.length === 0) {
+      return extraType ? `Record<string, ${extraType}>` : 'Record<string, never>';
+    }
+
+    const pad = '  '.repeat(indent + 1);
+    const required = new Set(schema.required ?? []);
+    const lines = entries.map(([key, property]) => {
+      const doc = docComment(property.description === key ? undefined : property.description, pad);
+      const optional = required.has(key) ? '' : '?';
+      return `${doc}${pad}${propertyKey(key)}${optional}: ${this.render(property, indent + 1)};`;
+    });
+    // Named properties must fit the index signature, so extras stay unknown
+    if (extraType) lines.push(`${pad}[key: string]: unknown;`);
+    return `{\n${lines.join('\n')}\n${'  '.repeat(indent)}}`;
+  }
+
+  /** Parenthesise members that would otherwise re-associate in a union */
+  private wrap(type: string): string {
+    return type.includes(' | ') || type.includes(' & ') ? `(${type})` : type;
+  }
+}
+
+// !== HELPERS !==
+
+function refName(ref: string | undefined): string | undefined {
+  const match = ref?.match(/^#\/components\/schemas\/([\w.-]+)$/);
+  return match ? identifier(match[1]) : undefined;
+}
+
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  return value === null ? 'null' : String(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : literal(key);
+}
+
+function identifier(value: string): string {
+  const words = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((word, i) => (i === 0 ? word : pascal(word))).join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function pascal(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function docComment(text: string | string[] | undefined, pad: string): string {
+  const lines = (Array.isArray(text) ? text : text ? [text] : []).map(line =>
+    line.replace(/\*\//g, '*\\/')
+  );
+  if (lines.length === 0) return '';
+  if (lines.length === 1) return `${pad}/** ${lines[0]} */\n`;
+  const body = lines.map(line => `${pad} *${line ? ` ${line}` : ''}`).join('\n');
+  return `${pad}/**\n${body}\n${pad} */\n`;
+}
@@ -3,6 +3,8 @@
  * Generates comprehensive API documentation from route definitions
  */
 
+import { isOptionalField, zodToOpenAPI, type RouteContract } from './route-contracts';
+
 export interface OpenAPISpec {
   openapi: string;
   info: {
@@ -61,23 +63,34 @@ export interface OpenAPIOperation {
   responses: Record<string, OpenAPIResponse>;
   security?: Array<Record<string, string[]>>;
   deprecated?: boolean;
+  /** Permissions the route's authorize middleware accepts */
+  'x-permissions'?: string[];
 }
 
 export interface OpenAPISchema {
-  type: string;
+  type?: string;
   format?: string;
   properties?: Record<string, OpenAPISchema>;
   required?: string[];
+  additionalProperties?: boolean | OpenAPISchema;
   items?: OpenAPISchema;
-  enum?: string[];
+  enum?: any[];
   description?: string;
   example?: any;
   default?: any;
+  nullable?: boolean;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: boolean;
+  exclusiveMaximum?: boolean;
+  multipleOf?: number;
   minLength?: number;
   maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
   pattern?: string;
+  oneOf?: OpenAPISchema[];
+  allOf?: OpenAPISchema[];
   $ref?: string;
 }
 
@@ -202,6 +215,70 @@ export class OpenAPIGenerator {
     this.spec.paths[path][method.toLowerCase()] = operation;
   }
 
+  /**
+   * Add a route from its contract: path parameters, query, request body and
+   * responses all come from the contract's zod schemas
+   */
+  addContract(contract: RouteContract): void {
+    const parameters: OpenAPIParameter[] = [
+      ...contractParameters(contract.params, 'path'),
+      ...contractParameters(contract.query, 'query'),
+    ];
+
+    const responses: Record<string, OpenAPIResponse> = {};
+    for (const [status, response] of Object.entries(contract.responses)) {
+      responses[status] = response.schema
+        ? {
+            description: response.description,
+            content: { 'application/json': { schema: zodToOpenAPI(response.schema) } },
+          }
+        : { description: response.description };
+    }
+    if ((contract.params || contract.query || contract.body) && !responses['400']) {
+      responses['400'] = { $ref: '#/components/responses/BadRequest' } as any;
+    }
+    if (contract.permissions?.length) {
+      responses['401'] ??= { $ref: '#/components/responses/Unauthorized' } as any;
+      responses['403'] ??= { $ref: '#/components/responses/Forbidden' } as any;
+    }
+
+    const operation: OpenAPIOperation = {
+      summary: contract.summary,
+      description: contract.description ?? contract.summary,
+      operationId: contract.operationId,
+      tags: contract.tags,
+      responses,
+    };
+    if (parameters.length > 0) operation.parameters = parameters;
+    if (contract.body) {
+      operation.requestBody = {
+        description: `${contract.summary} request`,
+        required: !isOptionalField(contract.body),
+        content: { 'application/json': { schema: zodToOpenAPI(contract.body) } },
+      };
+    }
+    if (contract.permissions?.length) {
+      operation.security = [{ bearerAuth: [] }];
+      operation['x-permissions'] = contract.permissions;
+    }
+    if (contract.deprecated) operation.deprecated = true;
+
+    for (const tag of contract.tags) {
+      if (!this.spec.tags?.some(existing => existing.name === tag)) {
+        this.addTag(tag, `${tag} operations`);
+      }
+    }
+
+    // Router `:param` segments become OpenAPI `{param}` templates
+    this.addRoute(contract.path.replace(/:(\w+)/g, '{$1}'), contract.method, operation);
+  }
+
+  addContracts(contracts: RouteContract[]): void {
+    for (const contract of contracts) {
+      this.addContract(contract);
+    }
+  }
+
   /**
    * Add a schema component
    */
@@ -266,6 +343,9 @@ export class OpenAPIGenerator {
       this.spec.tags = [];
     }
 
+    // generate() re-adds the defaults; keep the first description of a tag
+    if (this.spec.tags.some(tag => tag.name === name)) return;
+
     this.spec.tags.push({
       name,
       description,
@@ -587,10 +667,68 @@ export class OpenAPIGenerator {
   }
 
   /**
-   * Export specification as YAML (placeholder for future implementation)
+   * Export specification as YAML
    */
   toYAML(): string {
-    // For now, return JSON. In a real implementation, you'd use a YAML library
-    return this.toJSON();
+    return `${toYAMLNode(this.generate(), 0).trimStart()}\n`;
+  }
+}
+
+function contractParameters(
+  schema: RouteContract['query'],
+  location: 'path' | 'query'
+): OpenAPIParameter[] {
+  if (!schema) return [];
+
+  const object = zodToOpenAPI(schema);
+  return Object.entries(object.properties ?? {}).map(([name, property]) => ({
+    name,
+    in: location,
+    description: property.description ?? name,
+    required: location === 'path' || (object.required ?? []).includes(name),
+    schema: property,
+  }));
+}
+
+/**
+ * Block-style YAML for the JSON-compatible values a spec is made of
+ */
+function toYAMLNode(value: unknown, indent: number): string {
+  const pad = '  '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ' []';
+    return value
+      .map(item => {
+        const node = toYAMLNode(item, indent + 1);
+        // Nested blocks start on the dash line
+        return `\n${pad}-${isBlock(item) ? ` ${node.trimStart()}` : node}`;
+      })
+      .join('');
   }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) return ' {}';
+    return entries
+      .map(([key, item]) => `\n${pad}${yamlScalar(key)}:${toYAMLNode(item, indent + 1)}`)
+      .join('');
+  }
+
+  return ` ${yamlScalar(value)}`;
+}
+
+function isBlock(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  const text = String(value);
+  const plain =
+    /^[A-Za-z_/$][\w./$-]*$/.test(text) &&
+    !/^(true|false|null|yes|no|on|off|~)$/i.test(text);
+  return plain ? text : JSON.stringify(text);
 }
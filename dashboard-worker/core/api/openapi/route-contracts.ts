@@ -0,0 +1,314 @@
+/**
+ * Route Contracts
+ * One declaration per route: the zod schemas that validate its requests are
+ * the same ones the OpenAPI document and the response conformance checks use
+ */
+
+import type { ZodTypeAny } from 'zod';
+import type { OpenAPISchema } from './openapi-generator';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface ContractResponse {
+  description: string;
+  /** Body schema; omit for responses without a JSON body */
+  schema?: ZodTypeAny;
+}
+
+export interface RouteContract {
+  method: HttpMethod;
+  /** Public path in router syntax, e.g. `/api/manager/customers/:customerID` */
+  path: string;
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  /** Permissions the authorize middleware requires (all of) */
+  permissions?: string[];
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  responses: Record<number, ContractResponse>;
+  deprecated?: boolean;
+}
+
+export interface ConformanceIssue {
+  /** Dotted path into the checked value, `(root)` for the value itself */
+  path: string;
+  message: string;
+}
+
+export class RouteContractRegistry {
+  private contracts = new Map<string, RouteContract>();
+
+  /**
+   * Register a contract. Registering the same method and path again
+   * replaces the earlier declaration.
+   */
+  register(contract: RouteContract): RouteContract {
+    this.contracts.set(contractKey(contract.method, contract.path), contract);
+    return contract;
+  }
+
+  list(): RouteContract[] {
+    return [...this.contracts.values()].sort(
+      (a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method)
+    );
+  }
+
+  /**
+   * Find the contract serving a concrete request path (`:param` segments
+   * match any single segment)
+   */
+  find(method: string, path: string): RouteContract | undefined {
+    const exact = this.contracts.get(contractKey(method, path));
+    if (exact) return exact;
+
+    const segments = path.split('/');
+    return this.list().find(contract => {
+      if (contract.method !== method.toLowerCase()) return false;
+      const pattern = contract.path.split('/');
+      return (
+        pattern.length === segments.length &&
+        pattern.every((segment, i) => segment.startsWith(':') || segment === segments[i])
+      );
+    });
+  }
+
+  clear(): void {
+    this.contracts.clear();
+  }
+}
+
+/** Contracts registered by the API routers as they load */
+export const routeContracts = new RouteContractRegistry();
+
+// !== CONFORMANCE !==
+
+/**
+ * Check request parts against a contract's params, query and body schemas
+ */
+export function checkRequest(
+  contract: RouteContract,
+  request: { params?: unknown; query?: unknown; body?: unknown }
+): ConformanceIssue[] {
+  return [
+    ...check(contract.params, request.params ?? {}, 'params'),
+    ...check(contract.query, request.query ?? {}, 'query'),
+    ...check(contract.body, request.body ?? {}, 'body'),
+  ];
+}
+
+/**
+ * Check a response status and body against what the contract documents
+ */
+export function checkResponse(
+  contract: RouteContract,
+  status: number,
+  body: unknown
+): ConformanceIssue[] {
+  const response = contract.responses[status];
+  if (!response) {
+    return [
+      {
+        path: '(root)',
+        message: `${contract.method.toUpperCase()} ${contract.path} does not document ${status}`,
+      },
+    ];
+  }
+  return check(response.schema, body);
+}
+
+function check(schema: ZodTypeAny | undefined, value: unknown, prefix?: string) {
+  if (!schema) return [];
+
+  const result = schema.safeParse(value);
+  if (result.success) return [];
+  return result.error.issues.map(issue => ({
+    path: [prefix, ...issue.path].filter(part => part !== undefined).join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+// !== ZOD → OPENAPI !==
+
+/**
+ * Convert a zod schema to an OpenAPI 3.0 schema object. Works from the
+ * schema definitions, so refinements and transforms document their input.
+ */
+export function zodToOpenAPI(schema: ZodTypeAny): OpenAPISchema {
+  const converted = convert(schema);
+  if (schema.description && !converted.description) {
+    converted.description = schema.description;
+  }
+  return converted;
+}
+
+/**
+ * Whether an object property may be left out of the input
+ */
+export function isOptionalField(schema: ZodTypeAny): boolean {
+  return schema.isOptional();
+}
+
+function convert(schema: ZodTypeAny): OpenAPISchema {
+  const def = (schema as any)._def;
+
+  switch (def.typeName) {
+    case 'ZodObject': {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, OpenAPISchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        properties[key] = zodToOpenAPI(field);
+        if (!isOptionalField(field)) required.push(key);
+      }
+
+      const result: OpenAPISchema = { type: 'object', properties };
+      if (required.length > 0) result.required = required;
+      if (def.catchall && def.catchall._def.typeName !== 'ZodNever') {
+        result.additionalProperties = zodToOpenAPI(def.catchall);
+      } else if (def.unknownKeys === 'passthrough') {
+        result.additionalProperties = true;
+      }
+      return result;
+    }
+
+    case 'ZodString': {
+      const result: OpenAPISchema = { type: 'string' };
+      for (const check of def.checks ?? []) {
+        switch (check.kind) {
+          case 'min':
+            result.minLength = check.value;
+            break;
+          case 'max':
+            result.maxLength = check.value;
+            break;
+          case 'length':
+            result.minLength = check.value;
+            result.maxLength = check.value;
+            break;
+          case 'email':
+          case 'uuid':
+          case 'date':
+          case 'time':
+            result.format = check.kind;
+            break;
+          case 'url':
+            result.format = 'uri';
+            break;
+          case 'datetime':
+            result.format = 'date-time';
+            break;
+          case 'regex':
+            result.pattern = check.regex.source;
+            break;
+        }
+      }
+      return result;
+    }
+
+    case 'ZodNumber': {
+      const result: OpenAPISchema = { type: 'number' };
+      for (const check of def.checks ?? []) {
+        switch (check.kind) {
+          case 'int':
+            result.type = 'integer';
+            break;
+          case 'min':
+            result.minimum = check.value;
+            if (!check.inclusive) result.exclusiveMinimum = true;
+            break;
+          case 'max':
+            result.maximum = check.value;
+            if (!check.inclusive) result.exclusiveMaximum = true;
+            break;
+          case 'multipleOf':
+            result.multipleOf = check.value;
+            break;
+        }
+      }
+      return result;
+    }
+
+    case 'ZodBigInt':
+      return { type: 'integer', format: 'int64' };
+    case 'ZodBoolean':
+      return { type: 'boolean' };
+    case 'ZodDate':
+      return { type: 'string', format: 'date-time' };
+
+    case 'ZodLiteral': {
+      const value = def.value;
+      if (value === null) return { nullable: true, enum: [null] };
+      return { type: typeof value, enum: [value] };
+    }
+
+    case 'ZodEnum':
+      return { type: 'string', enum: [...def.values] };
+
+    case 'ZodNativeEnum': {
+      const values = Object.entries(def.values)
+        // Numeric enums map values back to names; keep only the real members
+        .filter(([key]) => Number.isNaN(Number(key)))
+        .map(([, value]) => value);
+      const numeric = values.every(value => typeof value === 'number');
+      return { type: numeric ? 'number' : 'string', enum: values };
+    }
+
+    case 'ZodArray': {
+      const result: OpenAPISchema = { type: 'array', items: zodToOpenAPI(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        result.minItems = def.exactLength.value;
+        result.maxItems = def.exactLength.value;
+      }
+      return result;
+    }
+
+    case 'ZodTuple':
+      return { type: 'array', minItems: def.items.length, maxItems: def.items.length };
+
+    case 'ZodRecord':
+      return { type: 'object', additionalProperties: zodToOpenAPI(def.valueType) };
+
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      return { oneOf: [...def.options].map((option: ZodTypeAny) => zodToOpenAPI(option)) };
+
+    case 'ZodIntersection':
+      return { allOf: [zodToOpenAPI(def.left), zodToOpenAPI(def.right)] };
+
+    case 'ZodOptional':
+    case 'ZodReadonly':
+    case 'ZodCatch':
+      return zodToOpenAPI(def.innerType);
+
+    case 'ZodNullable':
+      return { ...zodToOpenAPI(def.innerType), nullable: true };
+
+    case 'ZodDefault':
+      return { ...zodToOpenAPI(def.innerType), default: def.defaultValue() };
+
+    case 'ZodEffects':
+      return zodToOpenAPI(def.schema);
+
+    case 'ZodPipeline':
+      return zodToOpenAPI(def.in);
+
+    case 'ZodBranded':
+      return zodToOpenAPI(def.type);
+
+    case 'ZodNull':
+      return { nullable: true, enum: [null] };
+
+    // any, unknown, lazy and anything newer: document as unconstrained
+    default:
+      return {};
+  }
+}
+
+function contractKey(method: string, path: string): string {
+  return `${method.toLowerCase()} ${path}`;
+}
@@ -1,12 +1,30 @@
 /**
  * Real-time Manager
  * Handles WebSocket connections and Server-Sent Events for real-time communication
+ *
+ * Channels are guarded by rules evaluated against the JWT permissions used by
+ * `authorize([...])`, subscribers are tracked as presence, and recent messages
+ * are kept per channel so a reconnecting client can resume from its last event.
  */
 
+import type { AuthenticatedRequest } from '../../../src/api/middleware/auth.middleware';
+import {
+  hasAllPermissions,
+  hasAnyPermission,
+} from '../../../src/api/middleware/authorize.middleware';
+
+export type RealTimeUser = NonNullable<AuthenticatedRequest['user']>;
+
+/**
+ * A request that has been through `authenticate` or `authenticateOptional`
+ */
+export type RealTimeRequest = Request & { user?: RealTimeUser };
+
 export interface WebSocketClient {
   id: string;
   userId?: string;
   role?: string;
+  user?: RealTimeUser;
   subscriptions: Set<string>;
   lastActivity: number;
   websocket: WebSocket;
@@ -16,13 +34,17 @@ export interface SSEClient {
   id: string;
   userId?: string;
   role?: string;
+  user?: RealTimeUser;
   subscriptions: Set<string>;
   response: Response;
   controller: AbortController;
+  stream?: ReadableStreamDefaultController;
   lastActivity: number;
 }
 
 export interface RealTimeMessage {
+  /** Sequence shared by all channels; sent as the SSE `id:` field */
+  id?: number;
   type: string;
   channel: string;
   payload: any;
@@ -32,6 +54,29 @@ export interface RealTimeMessage {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Who may subscribe to a channel. The most specific matching rule applies and
+ * channels without a rule are refused.
+ */
+export interface ChannelRule {
+  /** Exact channel name, or a prefix ending in `*` such as `customer:*` */
+  channel: string;
+  /** Required permissions (AND logic) */
+  permissions?: string[];
+  /** Required permissions (OR logic) */
+  anyPermissions?: string[];
+  /** Checked after the permissions, e.g. to keep customers on their own channel */
+  allow?: (user: RealTimeUser, channel: string) => boolean;
+}
+
+export interface PresenceMember {
+  userId: string;
+  role?: string;
+  /** Open connections this user has subscribed to the channel */
+  connections: number;
+  joinedAt: number;
+}
+
 export interface RealTimeConfig {
   enableWebSocket: boolean;
   enableSSE: boolean;
@@ -39,6 +84,19 @@ export interface RealTimeConfig {
   heartbeatInterval: number;
   connectionTimeout: number;
   messageQueueSize: number;
+  /** Messages kept per channel for resuming; defaults to messageQueueSize */
+  replayBufferSize?: number;
+  /** Defaults to defaultChannelRules */
+  channelRules?: ChannelRule[];
+}
+
+type RealTimeClient = WebSocketClient | SSEClient;
+
+interface PresenceEntry {
+  userId: string;
+  role?: string;
+  clients: Set<string>;
+  joinedAt: number;
 }
 
 export class RealTimeManager {
@@ -46,6 +104,9 @@ export class RealTimeManager {
   private wsClients: Map<string, WebSocketClient> = new Map();
   private sseClients: Map<string, SSEClient> = new Map();
   private messageQueues: Map<string, RealTimeMessage[]> = new Map();
+  private replayBuffers: Map<string, ReplayBuffer> = new Map();
+  private presence: Map<string, Map<string, PresenceEntry>> = new Map();
+  private sequence = 0;
   private heartbeatInterval?: NodeJS.Timeout;
 
   constructor(config: RealTimeConfig) {
@@ -70,29 +131,11 @@ export class RealTimeManager {
       const webSocketPair = new WebSocketPair();
       const [client, server] = Object.values(webSocketPair);
 
-      // Create client record
-      const clientId = this.generateClientId();
-      const wsClient: WebSocketClient = {
-        id: clientId,
-        subscriptions: new Set(),
-        lastActivity: Date.now(),
-        websocket: server as any,
-      };
-
-      // Store client
-      this.wsClients.set(clientId, wsClient);
-
-      // Handle WebSocket messages
-      server.addEventListener('message', event => {
-        this.handleWebSocketMessage(clientId, event.data);
-      });
-
-      server.addEventListener('close', () => {
-        this.removeWebSocketClient(clientId);
-      });
-
-      server.addEventListener('error', () => {
-        this.removeWebSocketClient(clientId);
+      // Browsers cannot set headers on a WebSocket, so resume comes from the query
+      const url = new URL(request.url);
+      this.acceptWebSocket(server as any, (request as RealTimeRequest).user, {
+        channels: url.searchParams.get('channels')?.split(','),
+        lastEventId: parseEventId(url.searchParams.get('lastEventId')),
       });
 
       return new Response(null, {
@@ -105,6 +148,54 @@ export class RealTimeManager {
     }
   }
 
+  /**
+   * Register an accepted WebSocket, subscribing it to the channels it may see
+   * and replaying what it missed after `lastEventId`
+   */
+  acceptWebSocket(
+    websocket: WebSocket,
+    user?: RealTimeUser,
+    options: { channels?: string[]; lastEventId?: number } = {}
+  ): WebSocketClient {
+    const clientId = this.generateClientId();
+    const wsClient: WebSocketClient = {
+      id: clientId,
+      userId: user?.id,
+      role: user?.role,
+      user,
+      subscriptions: new Set(),
+      lastActivity: Date.now(),
+      websocket,
+    };
+
+    // Store client
+    this.wsClients.set(clientId, wsClient);
+
+    // Handle WebSocket messages
+    websocket.addEventListener('message', event => {
+      this.handleWebSocketMessage(clientId, event.data);
+    });
+
+    websocket.addEventListener('close', () => {
+      this.removeWebSocketClient(clientId);
+    });
+
+    websocket.addEventListener('error', () => {
+      this.removeWebSocketClient(clientId);
+    });
+
+    for (const channel of options.channels ?? []) {
+      if (this.canAccessChannel(user, channel)) {
+        this.joinChannel(wsClient, channel);
+      }
+    }
+    if (options.lastEventId !== undefined) {
+      this.replay(wsClient, this.replayChannels(wsClient), options.lastEventId);
+    }
+
+    return wsClient;
+  }
+
   /**
    * Handle Server-Sent Events connection
    */
@@ -115,14 +206,25 @@ export class RealTimeManager {
 
     const clientId = this.generateClientId();
     const controller = new AbortController();
+    const user = (request as RealTimeRequest).user;
 
     // Parse query parameters for subscriptions
     const url = new URL(request.url);
-    const subscriptions = url.searchParams.get('channels')?.split(',') || ['general'];
+    const requested = url.searchParams.get('channels')?.split(',') || ['general'];
+    const allowed = requested.filter(channel => this.canAccessChannel(user, channel));
+    const denied = requested.filter(channel => !allowed.includes(channel));
+
+    // EventSource sends Last-Event-ID itself when it reconnects
+    const lastEventId = parseEventId(
+      request.headers.get('Last-Event-ID') ?? url.searchParams.get('lastEventId')
+    );
 
     const sseClient: SSEClient = {
       id: clientId,
-      subscriptions: new Set(subscriptions),
+      userId: user?.id,
+      role: user?.role,
+      user,
+      subscriptions: new Set(),
       response: null as any,
       controller,
       lastActivity: Date.now(),
@@ -134,6 +236,8 @@ export class RealTimeManager {
     // Create readable stream for SSE
     const stream = new ReadableStream({
       start: controller => {
+        sseClient.stream = controller;
+
         // Send initial connection message
         const initialMessage = {
           type: 'connection',
@@ -141,10 +245,20 @@ export class RealTimeManager {
             clientId,
             timestamp: Date.now(),
             message: 'Connected to Fire22 Real-time API',
+            channels: allowed,
+            denied,
+            lastEventId: this.sequence,
           },
         };
         controller.enqueue(`data: ${JSON.stringify(initialMessage)}\n\n`);
 
+        for (const channel of allowed) {
+          this.joinChannel(sseClient, channel);
+        }
+        if (lastEventId !== undefined) {
+          this.replay(sseClient, this.replayChannels(sseClient), lastEventId);
+        }
+
         // Send queued messages
         this.sendQueuedMessages(clientId, controller);
 
@@ -165,7 +279,7 @@ export class RealTimeManager {
         'Cache-Control': 'no-cache',
         Connection: 'keep-alive',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Cache-Control',
+        'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID',
         'X-Client-ID': clientId,
       },
     });
@@ -180,137 +294,71 @@ export class RealTimeManager {
    * Broadcast message to all connected clients
    */
   async broadcast(message: Omit<RealTimeMessage, 'timestamp'>): Promise<void> {
-    const fullMessage: RealTimeMessage = {
+    const fullMessage = this.record(message.channel, {
       ...message,
       timestamp: Date.now(),
-    };
-
-    // Send to WebSocket clients
-    for (const [clientId, client] of this.wsClients) {
-      if (client.subscriptions.has(message.channel) || message.channel === 'broadcast') {
-        try {
-          client.websocket.send(JSON.stringify(fullMessage));
-          client.lastActivity = Date.now();
-        } catch (error) {
-          console.error(`Failed to send to WebSocket client ${clientId}:`, error);
-          this.removeWebSocketClient(clientId);
-        }
-      }
-    }
+    });
 
-    // Send to SSE clients
-    for (const [clientId, client] of this.sseClients) {
-      if (client.subscriptions.has(message.channel) || message.channel === 'broadcast') {
-        this.queueMessage(clientId, fullMessage);
-        client.lastActivity = Date.now();
-      }
-    }
+    this.deliver(
+      fullMessage,
+      client => client.subscriptions.has(message.channel) || message.channel === 'broadcast'
+    );
   }
 
   /**
    * Send message to specific user
    */
   async sendToUser(userId: string, message: Omit<RealTimeMessage, 'timestamp'>): Promise<void> {
-    const fullMessage: RealTimeMessage = {
+    const fullMessage = this.record(userChannel(userId), {
       ...message,
       timestamp: Date.now(),
       targetUserId: userId,
-    };
-
-    // Send to WebSocket clients
-    for (const [clientId, client] of this.wsClients) {
-      if (client.userId === userId) {
-        try {
-          client.websocket.send(JSON.stringify(fullMessage));
-          client.lastActivity = Date.now();
-        } catch (error) {
-          console.error(`Failed to send to WebSocket client ${clientId}:`, error);
-          this.removeWebSocketClient(clientId);
-        }
-      }
-    }
+    });
 
-    // Send to SSE clients
-    for (const [clientId, client] of this.sseClients) {
-      if (client.userId === userId) {
-        this.queueMessage(clientId, fullMessage);
-        client.lastActivity = Date.now();
-      }
-    }
+    this.deliver(fullMessage, client => client.userId === userId);
   }
 
   /**
    * Send message to specific channel
    */
   async sendToChannel(channel: string, message: Omit<RealTimeMessage, 'timestamp'>): Promise<void> {
-    const fullMessage: RealTimeMessage = {
+    const fullMessage = this.record(channel, {
       ...message,
       timestamp: Date.now(),
       channel,
-    };
-
-    // Send to WebSocket clients
-    for (const [clientId, client] of this.wsClients) {
-      if (client.subscriptions.has(channel)) {
-        try {
-          client.websocket.send(JSON.stringify(fullMessage));
-          client.lastActivity = Date.now();
-        } catch (error) {
-          console.error(`Failed to send to WebSocket client ${clientId}:`, error);
-          this.removeWebSocketClient(clientId);
-        }
-      }
-    }
+    });
 
-    // Send to SSE clients
-    for (const [clientId, client] of this.sseClients) {
-      if (client.subscriptions.has(channel)) {
-        this.queueMessage(clientId, fullMessage);
-        client.lastActivity = Date.now();
-      }
-    }
+    this.deliver(fullMessage, client => client.subscriptions.has(channel));
   }
 
   /**
-   * Subscribe client to channel
+   * Subscribe client to channel, replaying what it missed after `lastEventId`.
+   * Returns false for unknown clients and channels the client may not see.
    */
-  subscribeClient(clientId: string, channel: string): boolean {
-    // Check WebSocket clients
-    const wsClient = this.wsClients.get(clientId);
-    if (wsClient) {
-      wsClient.subscriptions.add(channel);
-      return true;
+  subscribeClient(clientId: string, channel: string, lastEventId?: number): boolean {
+    const client = this.getClient(clientId);
+    if (!client || !this.canAccessChannel(client.user, channel)) {
+      return false;
     }
 
-    // Check SSE clients
-    const sseClient = this.sseClients.get(clientId);
-    if (sseClient) {
-      sseClient.subscriptions.add(channel);
-      return true;
+    this.joinChannel(client, channel);
+    if (lastEventId !== undefined) {
+      this.replay(client, [channel], lastEventId);
     }
-
-    return false;
+    return true;
   }
 
   /**
    * Unsubscribe client from channel
    */
   unsubscribeClient(clientId: string, channel: string): boolean {
-    // Check WebSocket clients
-    const wsClient = this.wsClients.get(clientId);
-    if (wsClient) {
-      wsClient.subscriptions.delete(channel);
-      return true;
-    }
-
-    // Check SSE clients
-    const sseClient = this.sseClients.get(clientId);
-    if (sseClient) {
-      sseClient.subscriptions.delete(channel);
-      return true;
+    const client = this.getClient(clientId);
+    if (!client) {
+      return false;
     }
 
-    return false;
+    this.leaveChannel(client, channel);
+    return true;
   }
 
   /**
@@ -320,6 +368,8 @@ export class RealTimeManager {
     websocket: { total: number; active: number };
     sse: { total: number; active: number };
     channels: string[];
+    presence: Record<string, number>;
+    lastEventId: number;
   } {
     const now = Date.now();
     const activeThreshold = now - this.config.connectionTimeout;
@@ -340,6 +390,11 @@ export class RealTimeManager {
       client.subscriptions.forEach(channel => channels.add(channel));
     }
 
+    const presence: Record<string, number> = {};
+    for (const [channel, members] of this.presence) {
+      presence[channel] = members.size;
+    }
+
     return {
       websocket: {
         total: this.wsClients.size,
@@ -350,9 +405,223 @@ export class RealTimeManager {
         active: activeSSE,
       },
       channels: Array.from(channels),
+      presence,
+      lastEventId: this.sequence,
     };
   }
 
+  // !== ACCESS CONTROL !==
+
+  /**
+   * Whether a user (or an anonymous client) may subscribe to a channel.
+   * Rules without permissions or an `allow` check are open to everyone.
+   */
+  canAccessChannel(user: RealTimeUser | undefined, channel: string): boolean {
+    const rule = this.findChannelRule(channel);
+    if (!rule) {
+      return false;
+    }
+    if (!rule.permissions && !rule.anyPermissions && !rule.allow) {
+      return true;
+    }
+    if (!user) {
+      return false;
+    }
+
+    if (rule.permissions && !hasAllPermissions(user.permissions, rule.permissions)) {
+      return false;
+    }
+    if (rule.anyPermissions && !hasAnyPermission(user.permissions, rule.anyPermissions)) {
+      return false;
+    }
+    return rule.allow ? rule.allow(user, channel) : true;
+  }
+
+  /**
+   * Exact rules win over wildcards; among wildcards the longest prefix wins
+   */
+  private findChannelRule(channel: string): ChannelRule | undefined {
+    let best: ChannelRule | undefined;
+    for (const rule of this.config.channelRules ?? defaultChannelRules) {
+      if (rule.channel === channel) {
+        return rule;
+      }
+      if (!rule.channel.endsWith('*')) {
+        continue;
+      }
+      const prefix = rule.channel.slice(0, -1);
+      if (channel.startsWith(prefix) && (!best || rule.channel.length > best.channel.length)) {
+        best = rule;
+      }
+    }
+    return best;
+  }
+
+  // !== PRESENCE !==
+
+  /**
+   * Authenticated users currently subscribed to a channel
+   */
+  getPresence(channel: string): PresenceMember[] {
+    return Array.from(this.presence.get(channel)?.values() ?? []).map(entry => ({
+      userId: entry.userId,
+      role: entry.role,
+      connections: entry.clients.size,
+      joinedAt: entry.joinedAt,
+    }));
+  }
+
+  private joinChannel(client: RealTimeClient, channel: string): void {
+    client.subscriptions.add(channel);
+    if (!client.userId) {
+      return;
+    }
+
+    let members = this.presence.get(channel);
+    if (!members) {
+      members = new Map();
+      this.presence.set(channel, members);
+    }
+
+    let entry = members.get(client.userId);
+    const joined = !entry;
+    if (!entry) {
+      entry = {
+        userId: client.userId,
+        role: client.role,
+        clients: new Set(),
+        joinedAt: Date.now(),
+      };
+      members.set(client.userId, entry);
+    }
+    entry.clients.add(client.id);
+
+    // A second tab for the same user is not a new viewer
+    if (joined) {
+      this.announcePresence(channel, 'join', entry);
+    }
+  }
+
+  private leaveChannel(client: RealTimeClient, channel: string): void {
+    client.subscriptions.delete(channel);
+    const members = this.presence.get(channel);
+    const entry = client.userId ? members?.get(client.userId) : undefined;
+    if (!members || !entry) {
+      return;
+    }
+
+    entry.clients.delete(client.id);
+    if (entry.clients.size > 0) {
+      return;
+    }
+    members.delete(entry.userId);
+    if (members.size === 0) {
+      this.presence.delete(channel);
+    }
+    this.announcePresence(channel, 'leave', entry);
+  }
+
+  /**
+   * Presence changes go out live only; replaying old joins would mislead
+   */
+  private announcePresence(channel: string, action: 'join' | 'leave', entry: PresenceEntry): void {
+    this.deliver(
+      {
+        type: 'presence',
+        channel,
+        payload: { action, userId: entry.userId, role: entry.role },
+        timestamp: Date.now(),
+      },
+      client => client.subscriptions.has(channel)
+    );
+  }
+
+  // !== REPLAY !==
+
+  /**
+   * Number and buffer a message so clients can resume after it
+   */
+  private record(bufferKey: string, message: RealTimeMessage): RealTimeMessage {
+    const recorded = { ...message, id: ++this.sequence };
+
+    let buffer = this.replayBuffers.get(bufferKey);
+    if (!buffer) {
+      buffer = new ReplayBuffer(this.config.replayBufferSize ?? this.config.messageQueueSize);
+      this.replayBuffers.set(bufferKey, buffer);
+    }
+    buffer.push(recorded);
+
+    return recorded;
+  }
+
+  /**
+   * Channels a resuming client gets history for: its subscriptions, global
+   * broadcasts and messages addressed to its user
+   */
+  private replayChannels(client: RealTimeClient): string[] {
+    const channels = [...client.subscriptions, 'broadcast'];
+    if (client.userId) {
+      channels.push(userChannel(client.userId));
+    }
+    return channels;
+  }
+
+  /**
+   * Send a client everything after `lastEventId` on the given channels, in
+   * order. Where history has already been overwritten (or the server restarted
+   * since), a `resync` message tells the client to reload that channel.
+   */
+  private replay(client: RealTimeClient, channels: string[], lastEventId: number): void {
+    const missed: RealTimeMessage[] = [];
+
+    for (const channel of new Set(channels)) {
+      const buffer = this.replayBuffers.get(channel);
+      if (lastEventId > this.sequence || (buffer && buffer.evictedThrough > lastEventId)) {
+        this.sendToClient(client, {
+          type: 'resync',
+          channel,
+          payload: { lastEventId, oldestAvailable: buffer?.oldest() },
+          timestamp: Date.now(),
+        });
+      }
+      missed.push(...(buffer?.since(lastEventId) ?? []));
+    }
+
+    missed
+      .sort((a, b) => a.id! - b.id!)
+      .forEach(message => this.sendToClient(client, message));
+  }
+
+  // !== DELIVERY !==
+
+  private deliver(message: RealTimeMessage, matches: (client: RealTimeClient) => boolean): void {
+    for (const client of [...this.wsClients.values(), ...this.sseClients.values()]) {
+      if (matches(client)) {
+        this.sendToClient(client, message);
+      }
+    }
+  }
+
+  private sendToClient(client: RealTimeClient, message: RealTimeMessage): void {
+    if ('websocket' in client) {
+      try {
+        client.websocket.send(JSON.stringify(message));
+        client.lastActivity = Date.now();
+      } catch (error) {
+        console.error(`Failed to send to WebSocket client ${client.id}:`, error);
+        this.removeWebSocketClient(client.id);
+      }
+      return;
+    }
+
+    this.queueMessage(client.id, message);
+    client.lastActivity = Date.now();
+  }
+
+  private getClient(clientId: string): RealTimeClient | undefined {
+    return this.wsClients.get(clientId) ?? this.sseClients.get(clientId);
+  }
+
   /**
    * Handle WebSocket message
    */
@@ -370,20 +639,38 @@ export class RealTimeManager {
       switch (message.type) {
         case 'subscribe':
           if (message.channel) {
-            client.subscriptions.add(message.channel);
+            if (!this.canAccessChannel(client.user, message.channel)) {
+              client.websocket.send(
+                JSON.stringify({
+                  type: 'subscription_denied',
+                  channel: message.channel,
+                  timestamp: Date.now(),
+                })
+              );
+              break;
+            }
+
+            this.joinChannel(client, message.channel);
             client.websocket.send(
               JSON.stringify({
                 type: 'subscribed',
                 channel: message.channel,
+                presence: this.getPresence(message.channel),
+                lastEventId: this.sequence,
                 timestamp: Date.now(),
               })
             );
+
+            const lastEventId = parseEventId(message.lastEventId);
+            if (lastEventId !== undefined) {
+              this.replay(client, [message.channel], lastEventId);
+            }
           }
           break;
 
         case 'unsubscribe':
           if (message.channel) {
-            client.subscriptions.delete(message.channel);
+            this.leaveChannel(client, message.channel);
             client.websocket.send(
               JSON.stringify({
                 type: 'unsubscribed',
@@ -394,6 +681,19 @@ export class RealTimeManager {
           }
           break;
 
+        case 'presence':
+          if (message.channel && client.subscriptions.has(message.channel)) {
+            client.websocket.send(
+              JSON.stringify({
+                type: 'presence',
+                channel: message.channel,
+                payload: { members: this.getPresence(message.channel) },
+                timestamp: Date.now(),
+              })
+            );
+          }
+          break;
+
         case 'ping':
           client.websocket.send(
             JSON.stringify({
@@ -445,12 +745,9 @@ export class RealTimeManager {
       return;
     }
 
-    // Use provided controller or try to get it from the response
-    let targetController = controller;
-
+    // Use provided controller or the one captured when the stream started
+    const targetController = controller ?? client.stream;
     if (!targetController) {
-      // This is a simplified approach - in a real implementation,
-      // you'd need a way to access the stream controller
       return;
     }
 
@@ -458,7 +755,7 @@ export class RealTimeManager {
     while (queue.length > 0) {
       const message = queue.shift()!;
       try {
-        targetController.enqueue(`data: ${JSON.stringify(message)}\n\n`);
+        targetController.enqueue(formatSSE(message));
       } catch (error) {
         // If we can't send, put the message back in the queue
         queue.unshift(message);
@@ -471,8 +768,13 @@ export class RealTimeManager {
    * Remove WebSocket client
    */
   private removeWebSocketClient(clientId: string): void {
+    const client = this.wsClients.get(clientId);
     this.wsClients.delete(clientId);
     this.messageQueues.delete(clientId);
+
+    for (const channel of [...(client?.subscriptions ?? [])]) {
+      this.leaveChannel(client!, channel);
+    }
   }
 
   /**
@@ -484,6 +786,10 @@ export class RealTimeManager {
       client.controller.abort();
       this.sseClients.delete(clientId);
       this.messageQueues.delete(clientId);
+
+      for (const channel of [...client.subscriptions]) {
+        this.leaveChannel(client, channel);
+      }
     }
   }
 
@@ -551,6 +857,8 @@ export class RealTimeManager {
     this.wsClients.clear();
     this.sseClients.clear();
     this.messageQueues.clear();
+    this.replayBuffers.clear();
+    this.presence.clear();
   }
 
   /**
@@ -561,6 +869,86 @@ export class RealTimeManager {
   }
 }
 
+/**
+ * Fixed-size ring of the most recent messages on one channel
+ */
+class ReplayBuffer {
+  private entries: RealTimeMessage[] = [];
+  private head = 0;
+  /** Sequence of the newest message that has been overwritten */
+  evictedThrough = 0;
+
+  constructor(private capacity: number) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  push(message: RealTimeMessage): void {
+    if (this.entries.length < this.capacity) {
+      this.entries.push(message);
+      return;
+    }
+    this.evictedThrough = this.entries[this.head].id!;
+    this.entries[this.head] = message;
+    this.head = (this.head + 1) % this.capacity;
+  }
+
+  oldest(): number | undefined {
+    return this.entries[this.head]?.id;
+  }
+
+  /**
+   * Messages after the given sequence, oldest first
+   */
+  since(sequence: number): RealTimeMessage[] {
+    return [...this.entries.slice(this.head), ...this.entries.slice(0, this.head)].filter(
+      message => message.id! > sequence
+    );
+  }
+}
+
+function userChannel(userId: string): string {
+  return `user:${userId}`;
+}
+
+function parseEventId(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') {
+    return undefined;
+  }
+  const id = Number(value);
+  return Number.isInteger(id) && id >= 0 ? id : undefined;
+}
+
+function formatSSE(message: RealTimeMessage): string {
+  const id = message.id !== undefined ? `id: ${message.id}\n` : '';
+  return `${id}data: ${JSON.stringify(message)}\n\n`;
+}
+
+/**
+ * Keeps customers and agents on their own `customer:<id>` / `agent:<id>` channel
+ */
+function ownChannelFor(type: 'customer' | 'agent') {
+  return (user: RealTimeUser, channel: string): boolean =>
+    user.scope?.type !== type || channel === `${type}:${user.id}`;
+}
+
+export const defaultChannelRules: ChannelRule[] = [
+  { channel: 'general' },
+  { channel: 'broadcast' },
+  { channel: 'wagers:*', permissions: ['wager.view_live'] },
+  {
+    channel: 'customer:*',
+    anyPermissions: ['customer.view', 'customer.view_own', 'customer.own'],
+    allow: ownChannelFor('customer'),
+  },
+  {
+    channel: 'agent:*',
+    anyPermissions: ['agent.view', 'agent.own'],
+    allow: ownChannelFor('agent'),
+  },
+  { channel: 'financial:*', permissions: ['financial.view'] },
+  { channel: 'user:*', allow: (user, channel) => channel === userChannel(user.id) },
+];
+
 // Default real-time configuration
 export const defaultRealTimeConfig: RealTimeConfig = {
   enableWebSocket: true,
@@ -569,4 +957,6 @@ export const defaultRealTimeConfig: RealTimeConfig = {
   heartbeatInterval: 30000, // 30 seconds
   connectionTimeout: 60000, // 1 minute
   messageQueueSize: 100,
+  replayBufferSize: 500,
+  channelRules: defaultChannelRules,
 };
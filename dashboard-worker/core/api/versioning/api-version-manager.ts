@@ -7,6 +7,9 @@ export interface APIVersion {
   version: string;
   releaseDate: Date;
   status: 'active' | 'deprecated' | 'sunset';
+  /** When the version was deprecated; sent as the `Deprecation` header */
+  deprecationDate?: Date;
+  /** When the version stops being served; sent as the `Sunset` header */
   sunsetDate?: Date;
   breaking: boolean;
   changes: string[];
@@ -20,19 +23,69 @@ export interface VersionConfig {
   enableVersioning: boolean;
   strictVersioning: boolean;
   fallbackToLatest: boolean;
+  /**
+   * Version the handlers implement. Transformers chain from the client's
+   * version to this one. Defaults to the newest active version.
+   */
+  currentVersion?: string;
 }
 
+export type VersionNegotiation = 'header' | 'url' | 'accept' | 'default';
+
 export interface VersionedRequest extends Request {
   apiVersion: string;
   versionInfo?: APIVersion;
+  negotiatedBy?: VersionNegotiation;
   originalPath: string;
   versionedPath: string;
 }
 
+export interface VersionTransformContext {
+  /** Path with any `/api/vN` prefix removed, e.g. `/api/manager/getCustomers` */
+  path: string;
+  method: string;
+  /** Version the client asked for */
+  clientVersion: string;
+}
+
+/** The parts of a request a transformer may rewrite */
+export interface VersionedInput {
+  query: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * One breaking change between two adjacent versions. `request` upgrades
+ * what a `from` client sends into the `to` shape; `response` turns a `to`
+ * response back into what `from` clients expect.
+ */
+export interface VersionTransformer {
+  from: string;
+  to: string;
+  /** Routes the change touches; every route when omitted */
+  paths?: Array<string | RegExp>;
+  methods?: string[];
+  description?: string;
+  request?: (input: VersionedInput, context: VersionTransformContext) => VersionedInput;
+  response?: (body: any, context: VersionTransformContext) => any;
+}
+
+export interface VersionUsage {
+  version: string;
+  requests: number;
+  firstSeen?: Date;
+  lastSeen?: Date;
+  negotiatedBy: Record<VersionNegotiation, number>;
+  /** Requests per unversioned path */
+  paths: Record<string, number>;
+}
+
 export class APIVersionManager {
   private config: VersionConfig;
   private versions: Map<string, APIVersion> = new Map();
   private versionRoutes: Map<string, Map<string, any>> = new Map();
+  private transformers: Map<string, VersionTransformer[]> = new Map();
+  private usage: Map<string, VersionUsage> = new Map();
 
   constructor(config: VersionConfig) {
     this.config = config;
@@ -86,10 +139,18 @@ export class APIVersionManager {
     ];
 
     // Register versions
-    versions.forEach(version => {
-      this.versions.set(version.version, version);
+    versions.forEach(version => this.registerVersion(version));
+  }
+
+  /**
+   * Add a version, or replace the metadata of a known one (e.g. to
+   * deprecate it and announce a sunset date)
+   */
+  registerVersion(version: APIVersion): void {
+    this.versions.set(version.version, version);
+    if (!this.versionRoutes.has(version.version)) {
       this.versionRoutes.set(version.version, new Map());
-    });
+    }
   }
 
   /**
@@ -132,12 +193,13 @@ export class APIVersionManager {
   /**
    * Create versioned request
    */
-  createVersionedRequest(request: Request): VersionedRequest {
-    const { version } = this.parseVersion(request);
+  createVersionedRequest(request: Request, now: Date = new Date()): VersionedRequest {
+    const { version, method } = this.parseVersion(request);
     const versionedRequest = request as VersionedRequest;
 
     versionedRequest.apiVersion = version;
     versionedRequest.versionInfo = this.versions.get(version);
+    versionedRequest.negotiatedBy = method;
     versionedRequest.originalPath = new URL(request.url).pathname;
 
     // Transform path to versioned path if needed
@@ -147,6 +209,7 @@ export class APIVersionManager {
     }
     versionedRequest.versionedPath = url.pathname;
 
+    this.recordUsage(version, method, unversionedPath(versionedRequest.originalPath), now);
     return versionedRequest;
   }
 
@@ -219,11 +282,12 @@ export class APIVersionManager {
   }
 
   /**
-   * Check if version is sunset
+   * Check if version is sunset (by status, or because its sunset date passed)
    */
-  isVersionSunset(version: string): boolean {
+  isVersionSunset(version: string, now: Date = new Date()): boolean {
     const info = this.versions.get(version);
-    return info ? info.status === 'sunset' : false;
+    if (!info) return false;
+    return info.status === 'sunset' || (!!info.sunsetDate && info.sunsetDate <= now);
   }
 
   /**
@@ -240,22 +304,24 @@ export class APIVersionManager {
         supportedVersions,
         deprecatedVersions,
         defaultVersion: this.config.defaultVersion,
+        currentVersion: this.getCurrentVersion(),
         versionInfo: request.versionInfo,
+        usage: this.getUsage(),
         timestamp: new Date().toISOString(),
         requestId: (request as any).requestId || 'unknown',
       },
     };
 
-    const headers = {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'X-API-Version': request.apiVersion,
       'X-Supported-Versions': supportedVersions.join(', '),
       'X-Default-Version': this.config.defaultVersion,
+      ...this.lifecycleHeaders(request.apiVersion),
     };
 
     // Add deprecation warning
     if (this.isVersionDeprecated(request.apiVersion)) {
-      headers['Warning'] = `299 fire22-api "Version ${request.apiVersion} is deprecated"`;
       headers['X-Deprecation-Notice'] =
         'This API version is deprecated and will be sunset soon. Please migrate to a newer version.';
     }
@@ -297,25 +363,225 @@ export class APIVersionManager {
   }
 
   /**
-   * Transform response for version compatibility
+   * Transform response for version compatibility: run the registered
+   * response transformers down to the client's version and add the version
+   * and lifecycle headers
    */
-  transformResponse(response: Response, request: VersionedRequest): Response {
+  async transformResponse(response: Response, request: VersionedRequest): Promise<Response> {
     // Add version headers to all responses
     const headers = new Headers(response.headers);
     headers.set('X-API-Version', request.apiVersion);
+    for (const [name, value] of Object.entries(this.lifecycleHeaders(request.apiVersion))) {
+      headers.set(name, value);
+    }
 
-    // Add deprecation headers if needed
-    if (this.isVersionDeprecated(request.apiVersion)) {
-      headers.set('Warning', `299 fire22-api "Version ${request.apiVersion} is deprecated"`);
+    const context = this.transformContext(request);
+    const steps = this.transformersFor(context, 'response');
+    const isJSON = (response.headers.get('Content-Type') || '').includes('json');
+    if (steps.length === 0 || !isJSON || response.body === null) {
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
     }
 
-    return new Response(response.body, {
+    let body = await response.json();
+    for (const transformer of steps) {
+      body = transformer.response!(body, context);
+    }
+    headers.delete('Content-Length');
+
+    return new Response(JSON.stringify(body), {
       status: response.status,
       statusText: response.statusText,
       headers,
     });
   }
 
+  // !== TRANSFORMERS !==
+
+  /**
+   * Register a change between two adjacent versions. Transformers chain, so
+   * a v1 client of a v3 API goes through v1→v2 and then v2→v3.
+   */
+  registerTransformer(transformer: VersionTransformer): void {
+    const order = this.versionOrder();
+    const from = order.indexOf(transformer.from);
+    const to = order.indexOf(transformer.to);
+    if (from === -1 || to === -1) {
+      throw new Error(
+        `Unknown API version in transformer ${transformer.from} → ${transformer.to}`
+      );
+    }
+    if (to !== from + 1) {
+      throw new Error(
+        `Transformers connect adjacent versions; ${transformer.from} → ${transformer.to} ` +
+          `should be registered one step at a time`
+      );
+    }
+
+    const key = stepKey(transformer.from, transformer.to);
+    this.transformers.set(key, [...(this.transformers.get(key) || []), transformer]);
+  }
+
+  /**
+   * Upgrade an old client's query and JSON body to the current version.
+   * Returns the request unchanged when no transformer applies.
+   */
+  async transformRequest(request: VersionedRequest): Promise<VersionedRequest> {
+    const context = this.transformContext(request);
+    const steps = this.transformersFor(context, 'request');
+    if (steps.length === 0) {
+      return request;
+    }
+
+    const url = new URL(request.url);
+    const isJSON = (request.headers.get('Content-Type') || '').includes('json');
+    let input: VersionedInput = {
+      query: Object.fromEntries(url.searchParams),
+      body: isJSON && request.body !== null ? await request.clone().json() : undefined,
+    };
+    for (const transformer of steps) {
+      input = transformer.request!(input, context);
+    }
+
+    url.search = new URLSearchParams(input.query).toString();
+    const headers = new Headers(request.headers);
+    headers.delete('Content-Length');
+    const upgraded = new Request(url.toString(), {
+      method: request.method,
+      headers,
+      body: input.body === undefined ? undefined : JSON.stringify(input.body),
+    }) as VersionedRequest;
+
+    upgraded.apiVersion = request.apiVersion;
+    upgraded.versionInfo = request.versionInfo;
+    upgraded.negotiatedBy = request.negotiatedBy;
+    upgraded.originalPath = request.originalPath;
+    upgraded.versionedPath = request.versionedPath;
+    return upgraded;
+  }
+
+  /**
+   * Version the handlers implement
+   */
+  getCurrentVersion(): string {
+    if (this.config.currentVersion) {
+      return this.config.currentVersion;
+    }
+    const active = this.versionOrder().filter(v => this.versions.get(v)?.status === 'active');
+    return active[active.length - 1] || this.config.defaultVersion;
+  }
+
+  /**
+   * Transformers on the path from the client's version to the current one,
+   * in the order they run: upwards for requests, downwards for responses
+   */
+  private transformersFor(
+    context: VersionTransformContext,
+    direction: 'request' | 'response'
+  ): VersionTransformer[] {
+    const order = this.versionOrder();
+    const from = order.indexOf(context.clientVersion);
+    const to = order.indexOf(this.getCurrentVersion());
+    if (from === -1 || to === -1 || from >= to) {
+      return [];
+    }
+
+    const chain: VersionTransformer[] = [];
+    for (let i = from; i < to; i++) {
+      const step = this.transformers.get(stepKey(order[i], order[i + 1])) || [];
+      chain.push(...step.filter(transformer => appliesTo(transformer, context)));
+    }
+
+    if (direction === 'request') {
+      return chain.filter(transformer => transformer.request);
+    }
+    return chain.reverse().filter(transformer => transformer.response);
+  }
+
+  private transformContext(request: VersionedRequest): VersionTransformContext {
+    return {
+      path: unversionedPath(request.originalPath || new URL(request.url).pathname),
+      method: request.method.toUpperCase(),
+      clientVersion: request.apiVersion,
+    };
+  }
+
+  /**
+   * Known versions from oldest to newest release
+   */
+  private versionOrder(): string[] {
+    return Array.from(this.versions.values())
+      .sort((a, b) => a.releaseDate.getTime() - b.releaseDate.getTime())
+      .map(info => info.version);
+  }
+
+  /**
+   * `Deprecation` (RFC 9745), `Sunset` (RFC 8594) and the matching `Link`
+   * relations for a version
+   */
+  private lifecycleHeaders(version: string): Record<string, string> {
+    const info = this.versions.get(version);
+    if (!info) {
+      return {};
+    }
+
+    const headers: Record<string, string> = {};
+    const links: string[] = [];
+    if (info.status === 'deprecated' || info.deprecationDate) {
+      headers['Deprecation'] = info.deprecationDate
+        ? `@${Math.floor(info.deprecationDate.getTime() / 1000)}`
+        : 'true';
+      headers['Warning'] = `299 fire22-api "Version ${version} is deprecated"`;
+      if (info.migrationGuide) {
+        links.push(`<${info.migrationGuide}>; rel="deprecation"; type="text/html"`);
+      }
+    }
+    if (info.sunsetDate) {
+      headers['Sunset'] = info.sunsetDate.toUTCString();
+      if (info.migrationGuide) {
+        links.push(`<${info.migrationGuide}>; rel="sunset"; type="text/html"`);
+      }
+    }
+    if (links.length > 0) {
+      headers['Link'] = links.join(', ');
+    }
+    return headers;
+  }
+
+  // !== USAGE !==
+
+  /**
+   * Requests seen per version since the manager started (or last reset)
+   */
+  getUsage(): VersionUsage[] {
+    return this.versionOrder().map(version => this.usage.get(version) || emptyUsage(version));
+  }
+
+  /**
+   * A version is safe to sunset once no client has used it for the quiet period
+   */
+  isSafeToSunset(version: string, quietPeriodMs: number, now: Date = new Date()): boolean {
+    const lastSeen = this.usage.get(version)?.lastSeen;
+    return !lastSeen || now.getTime() - lastSeen.getTime() >= quietPeriodMs;
+  }
+
+  resetUsage(): void {
+    this.usage.clear();
+  }
+
+  private recordUsage(version: string, method: VersionNegotiation, path: string, now: Date): void {
+    const usage = this.usage.get(version) || emptyUsage(version);
+    usage.requests++;
+    usage.firstSeen = usage.firstSeen || now;
+    usage.lastSeen = now;
+    usage.negotiatedBy[method]++;
+    usage.paths[path] = (usage.paths[path] || 0) + 1;
+    this.usage.set(version, usage);
+  }
+
   /**
    * Generate version comparison report
    */
@@ -415,6 +681,35 @@ export class APIVersionManager {
   }
 }
 
+function stepKey(from: string, to: string): string {
+  return `${from}->${to}`;
+}
+
+function unversionedPath(path: string): string {
+  return path.replace(/^\/api\/v\d+(?=\/|$)/, '/api');
+}
+
+function appliesTo(transformer: VersionTransformer, context: VersionTransformContext): boolean {
+  if (transformer.methods && !transformer.methods.some(m => m.toUpperCase() === context.method)) {
+    return false;
+  }
+  if (!transformer.paths) {
+    return true;
+  }
+  return transformer.paths.some(path =>
+    typeof path === 'string' ? path === context.path : path.test(context.path)
+  );
+}
+
+function emptyUsage(version: string): VersionUsage {
+  return {
+    version,
+    requests: 0,
+    negotiatedBy: { header: 0, url: 0, accept: 0, default: 0 },
+    paths: {},
+  };
+}
+
 // Default version configuration
 export const defaultVersionConfig: VersionConfig = {
   defaultVersion: 'v2',
@@ -73,6 +73,9 @@ export class P2PMatchingAlgorithm {
 
   /**
    * Find optimal matches for a deposit request
+   *
+   * @deprecated Scores whole-amount candidates only. Queue matching, including
+   * partial fills, goes through planP2PMatches in src/p2p-matching-core.
    */
   async findMatchesForDeposit(
     depositRequest: P2PPaymentRequest,
@@ -118,6 +121,9 @@ export class P2PMatchingAlgorithm {
 
   /**
    * Find optimal matches for a withdrawal request
+   *
+   * @deprecated Scores whole-amount candidates only. Queue matching, including
+   * partial fills, goes through planP2PMatches in src/p2p-matching-core.
    */
   async findMatchesForWithdrawal(
     withdrawalRequest: P2PPaymentRequest,
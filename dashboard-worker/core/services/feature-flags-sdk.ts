@@ -0,0 +1,130 @@
+/**
+ * Feature Flags SDK
+ * Flag lookups for worker request handlers and Telegram bots
+ *
+ * Worker routes add `withFeatureFlags()` after `authenticate` and read
+ * `request.flags.isEnabled('name')`; the context comes from the JWT user and
+ * the device headers, plus whatever the route's `context` callback adds (office,
+ * VIP tier, ...). Telegram bots use `flagsForTelegramUser`. Both share one
+ * FeatureFlagsService per database, reloaded from the store when stale.
+ */
+
+import type { AuthenticatedRequest } from '../../src/api/middleware/auth.middleware';
+import type { MatchingDatabase } from '../../src/p2p-matching-core';
+import {
+  FeatureFlagsService,
+  SqlFeatureFlagStore,
+  type FeatureFlagsOptions,
+  type FlagContext,
+  type FlagEvaluation,
+} from './feature-flags';
+
+/**
+ * Flags with the caller's context already applied
+ */
+export interface BoundFeatureFlags {
+  readonly context: FlagContext;
+  isEnabled(name: string, overrides?: FlagContext): boolean;
+  evaluate(name: string, overrides?: FlagContext): FlagEvaluation;
+  all(): Record<string, boolean>;
+}
+
+export interface FlaggedRequest extends AuthenticatedRequest {
+  flags?: BoundFeatureFlags;
+}
+
+export interface WithFeatureFlagsOptions {
+  /** Extra targeting attributes for the request, e.g. the customer's VIP tier */
+  context?: (request: FlaggedRequest, env: any) => FlagContext | Promise<FlagContext>;
+}
+
+const services = new WeakMap<object, FeatureFlagsService>();
+let localService: FeatureFlagsService | undefined;
+
+/**
+ * The flag service for a D1 binding or bun:sqlite database, loaded on first
+ * use and refreshed when stale. Without a database the flags live in memory.
+ */
+export async function getFeatureFlags(
+  db?: MatchingDatabase,
+  options: Omit<FeatureFlagsOptions, 'store'> = {}
+): Promise<FeatureFlagsService> {
+  let service = db ? services.get(db) : localService;
+  if (!service) {
+    service = new FeatureFlagsService({
+      ...options,
+      store: db ? new SqlFeatureFlagStore(db) : undefined,
+    });
+    if (db) {
+      services.set(db, service);
+    } else {
+      localService = service;
+    }
+  }
+
+  await service.refreshIfStale();
+  return service;
+}
+
+export function bindFlags(service: FeatureFlagsService, context: FlagContext): BoundFeatureFlags {
+  return {
+    context,
+    isEnabled: (name, overrides) => service.isEnabled(name, { ...context, ...overrides }),
+    evaluate: (name, overrides) => service.evaluate(name, { ...context, ...overrides }),
+    all: () => service.getFlagsFor(context),
+  };
+}
+
+/**
+ * Targeting context for an authenticated request
+ */
+export function flagContextFromRequest(
+  request: FlaggedRequest,
+  extra: FlagContext = {}
+): FlagContext {
+  const user = request.user;
+  return {
+    userId: user?.id,
+    role: user?.role,
+    agentId: user?.scope?.type === 'agent' ? user.id : undefined,
+    deviceType:
+      request.headers.get('X-Device-Type') ??
+      deviceTypeFromUserAgent(request.headers.get('User-Agent')),
+    ...extra,
+  };
+}
+
+/**
+ * Middleware that attaches `request.flags`; it never ends the request
+ */
+export function withFeatureFlags(options: WithFeatureFlagsOptions = {}) {
+  return async (request: FlaggedRequest, env?: any): Promise<void> => {
+    const service = await getFeatureFlags(env?.DB);
+    const extra = options.context ? await options.context(request, env) : {};
+    request.flags = bindFlags(service, flagContextFromRequest(request, extra));
+  };
+}
+
+/**
+ * Flags for a Telegram chat user. Linked users are targeted by customer ID so
+ * they get the same rollout answer as on the dashboard.
+ */
+export function flagsForTelegramUser(
+  service: FeatureFlagsService,
+  user: { id: number; customerId?: string },
+  extra: FlagContext = {}
+): BoundFeatureFlags {
+  return bindFlags(service, {
+    userId: user.customerId ?? `telegram:${user.id}`,
+    telegramId: String(user.id),
+    deviceType: 'telegram',
+    ...extra,
+  });
+}
+
+function deviceTypeFromUserAgent(userAgent: string | null): string | undefined {
+  if (!userAgent) return undefined;
+  if (/ipad|tablet/i.test(userAgent)) return 'tablet';
+  if (/mobi|android|iphone/i.test(userAgent)) return 'mobile';
+  return 'desktop';
+}
@@ -1,146 +1,378 @@
 /**
  * Feature Flags Service
  * Manages feature toggles and conditional functionality
+ *
+ * This is the one flag service for the worker, the worker-messaging domain and
+ * the Telegram bots. Flags are kept in a FeatureFlagStore (D1 or bun:sqlite)
+ * and evaluated from memory. A flag is on for a context when it is enabled,
+ * the user passes its whitelist, every targeting rule matches (agent, office,
+ * VIP tier, device type, ...) and the context's rollout bucket falls under the
+ * rollout percentage. Buckets are a hash of flag name and user, so a user keeps
+ * their answer and raising the percentage only ever adds users.
  */
 
 import { BaseService } from './base-service';
+import {
+  queryAll,
+  runBatch,
+  type MatchingDatabase,
+  type SqlStatement,
+} from '../../src/p2p-matching-core';
+
+/**
+ * Who a flag is being evaluated for. Any attribute can be targeted; these
+ * are the ones the SDK fills in.
+ */
+export interface FlagContext {
+  userId?: string;
+  agentId?: string;
+  office?: string;
+  vipTier?: string;
+  deviceType?: string;
+  environment?: string;
+  domain?: string;
+  [attribute: string]: unknown;
+}
+
+export type TargetingOperator = 'in' | 'not_in' | 'gte' | 'lte';
+
+export interface TargetingRule {
+  /** Context attribute, e.g. `agentId`, `office`, `vipTier` or `deviceType` */
+  attribute: string;
+  /** `in`/`not_in` compare case-insensitively; `gte`/`lte` use the first value */
+  operator: TargetingOperator;
+  values: Array<string | number>;
+}
 
 export interface FeatureFlag {
   name: string;
   enabled: boolean;
   description: string;
+  /** Share of matching contexts that get the flag; omitted means all of them */
   rolloutPercentage?: number;
+  /** Context attribute hashed into the rollout bucket (default `userId`) */
+  stickiness?: string;
+  /** When set, only these users can get the flag */
   userWhitelist?: string[];
-  conditions?: FeatureCondition[];
+  /** Every rule must match */
+  rules?: TargetingRule[];
+  /** Owner-specific settings, e.g. a worker-messaging fallback mode */
+  metadata?: Record<string, unknown>;
+  version?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+}
+
+export type FlagEvaluationReason =
+  | 'not_found'
+  | 'disabled'
+  | 'not_whitelisted'
+  | 'rule_mismatch'
+  | 'outside_rollout'
+  | 'enabled';
+
+export interface FlagEvaluation {
+  flag: string;
+  enabled: boolean;
+  reason: FlagEvaluationReason;
+  /** Rollout bucket (0–99.99) the percentage was compared with */
+  bucket?: number;
+  /** First rule the context did not match */
+  rule?: TargetingRule;
+}
+
+export interface FlagChange {
+  actor: string;
+  reason?: string;
+  /** Reject the change if the flag has moved on from this version */
+  expectedVersion?: number;
+}
+
+export interface FlagAuditEntry {
+  id: string;
+  flag: string;
+  action: 'create' | 'update' | 'delete';
+  actor: string;
+  reason?: string;
+  before?: FeatureFlag;
+  after?: FeatureFlag;
+  at: Date;
 }
 
-export interface FeatureCondition {
-  type: 'user' | 'environment' | 'time' | 'custom';
-  value: any;
+export interface FeatureFlagStore {
+  loadFlags(): Promise<FeatureFlag[]>;
+  /** Write a flag, or delete it when `flag` is null, together with its audit entry */
+  save(name: string, flag: FeatureFlag | null, audit: FlagAuditEntry): Promise<void>;
+  /** Newest first */
+  loadAudit(flag?: string, limit?: number): Promise<FlagAuditEntry[]>;
+}
+
+export interface FeatureFlagsOptions {
+  store?: FeatureFlagStore;
+  /** Seeded into an empty store on load */
+  defaults?: FeatureFlag[];
+  /** How old the in-memory flags may get before refreshIfStale reloads them */
+  refreshIntervalMs?: number;
+  now?: () => Date;
+}
+
+export class FeatureFlagError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'FeatureFlagError';
+  }
 }
 
+const SYSTEM_CHANGE: FlagChange = { actor: 'system' };
+const OPERATORS: TargetingOperator[] = ['in', 'not_in', 'gte', 'lte'];
+const FLAG_NAME = /^[A-Za-z][\w.-]*$/;
+
+export const DEFAULT_FEATURE_FLAGS: FeatureFlag[] = [
+  {
+    name: 'new-dashboard',
+    enabled: true,
+    description: 'New dashboard interface with enhanced analytics',
+  },
+  {
+    name: 'real-time-notifications',
+    enabled: false,
+    description: 'Real-time notification system',
+    rolloutPercentage: 25,
+  },
+  {
+    name: 'advanced-logging',
+    enabled: true,
+    description: 'Enhanced logging with detailed analytics',
+  },
+  {
+    name: 'beta-features',
+    enabled: false,
+    description: 'Experimental features for beta testing',
+    userWhitelist: ['admin@example.com'],
+  },
+];
+
 export class FeatureFlagsService extends BaseService {
   private flags: Map<string, FeatureFlag> = new Map();
-  private userCache: Map<string, boolean> = new Map();
+  private store: FeatureFlagStore;
+  private defaults: FeatureFlag[];
+  private refreshIntervalMs: number;
+  private now: () => Date;
+  private loadedAt?: number;
 
-  constructor() {
+  constructor(options: FeatureFlagsOptions = {}) {
     super('FeatureFlagsService');
-    this.initializeDefaultFlags();
+    this.store = options.store ?? new MemoryFeatureFlagStore();
+    this.defaults = options.defaults ?? DEFAULT_FEATURE_FLAGS;
+    this.refreshIntervalMs = options.refreshIntervalMs ?? 30_000;
+    this.now = options.now ?? (() => new Date());
+
+    // Usable before initialize(); the store's flags replace these on load
+    this.defaults.forEach(flag => this.flags.set(flag.name, { ...flag }));
   }
 
   async initialize(): Promise<void> {
     await super.initialize();
+    await this.load();
     console.log('Feature flags service initialized');
   }
 
   /**
-   * Initialize default feature flags
+   * Replace the in-memory flags with the store's. An empty store is seeded
+   * with the defaults; after that, deleted defaults stay deleted.
    */
-  private initializeDefaultFlags(): void {
-    const defaultFlags: FeatureFlag[] = [
-      {
-        name: 'new-dashboard',
-        enabled: true,
-        description: 'New dashboard interface with enhanced analytics',
-      },
-      {
-        name: 'real-time-notifications',
-        enabled: false,
-        description: 'Real-time notification system',
-        rolloutPercentage: 25,
-      },
-      {
-        name: 'advanced-logging',
-        enabled: true,
-        description: 'Enhanced logging with detailed analytics',
-      },
-      {
-        name: 'beta-features',
-        enabled: false,
-        description: 'Experimental features for beta testing',
-        userWhitelist: ['admin@example.com'],
-      },
-    ];
-
-    defaultFlags.forEach(flag => this.flags.set(flag.name, flag));
+  async load(): Promise<void> {
+    const stored = await this.store.loadFlags();
+    this.flags = new Map(stored.map(flag => [flag.name, flag]));
+    this.loadedAt = this.now().getTime();
+    if (stored.length === 0) {
+      await this.ensureFlags(this.defaults, { actor: 'system', reason: 'default flag' });
+    }
   }
 
   /**
-   * Check if a feature is enabled for a user
+   * Reload when the flags are older than the refresh interval, so flag
+   * changes made by other isolates are picked up
+   */
+  async refreshIfStale(): Promise<void> {
+    if (
+      this.loadedAt === undefined ||
+      this.now().getTime() - this.loadedAt >= this.refreshIntervalMs
+    ) {
+      await this.load();
+    }
+  }
+
+  /**
+   * Create the flags another module depends on if they do not exist yet
+   */
+  async ensureFlags(flags: FeatureFlag[], change: FlagChange = SYSTEM_CHANGE): Promise<void> {
+    for (const flag of flags) {
+      if (!this.flags.has(flag.name)) {
+        await this.upsertFlag(flag, change);
+      }
+    }
+  }
+
+  // !== EVALUATION !==
+
+  /**
+   * Whether a flag is on, and why
    */
-  isEnabled(featureName: string, userId?: string, context?: any): boolean {
+  evaluate(featureName: string, context: FlagContext = {}): FlagEvaluation {
     const flag = this.flags.get(featureName);
     if (!flag) {
-      console.warn(`Feature flag '${featureName}' not found`);
-      return false;
+      return { flag: featureName, enabled: false, reason: 'not_found' };
     }
-
     if (!flag.enabled) {
-      return false;
+      return { flag: featureName, enabled: false, reason: 'disabled' };
     }
 
-    // Check user whitelist
-    if (flag.userWhitelist && userId) {
-      if (!flag.userWhitelist.includes(userId)) {
-        return false;
+    if (flag.userWhitelist?.length) {
+      if (!context.userId || !flag.userWhitelist.includes(context.userId)) {
+        return { flag: featureName, enabled: false, reason: 'not_whitelisted' };
       }
     }
 
-    // Check rollout percentage
-    if (flag.rolloutPercentage !== undefined && userId) {
-      if (!this.isUserInRollout(userId, flag.rolloutPercentage)) {
-        return false;
-      }
+    const rule = flag.rules?.find(rule => !matchesRule(rule, context));
+    if (rule) {
+      return { flag: featureName, enabled: false, reason: 'rule_mismatch', rule };
     }
 
-    // Check custom conditions
-    if (flag.conditions && context) {
-      return this.evaluateConditions(flag.conditions, context);
+    if (flag.rolloutPercentage !== undefined && flag.rolloutPercentage < 100) {
+      const key = context[flag.stickiness ?? 'userId'];
+      // Without a key there is nothing to keep the answer stable across calls
+      if (key === undefined || key === null || key === '') {
+        return { flag: featureName, enabled: false, reason: 'outside_rollout' };
+      }
+      const bucket = rolloutBucket(flag.name, String(key));
+      if (bucket >= flag.rolloutPercentage) {
+        return { flag: featureName, enabled: false, reason: 'outside_rollout', bucket };
+      }
+      return { flag: featureName, enabled: true, reason: 'enabled', bucket };
     }
 
-    return true;
+    return { flag: featureName, enabled: true, reason: 'enabled' };
   }
 
   /**
-   * Enable or disable a feature flag
+   * Check if a feature is enabled for a user
    */
-  setEnabled(featureName: string, enabled: boolean): boolean {
-    const flag = this.flags.get(featureName);
-    if (!flag) {
+  isEnabled(featureName: string, user?: string | FlagContext, context?: FlagContext): boolean {
+    const evaluation = this.evaluate(featureName, toContext(user, context));
+    if (evaluation.reason === 'not_found') {
       console.warn(`Feature flag '${featureName}' not found`);
-      return false;
     }
+    return evaluation.enabled;
+  }
 
-    flag.enabled = enabled;
-    console.log(`Feature '${featureName}' ${enabled ? 'enabled' : 'disabled'}`);
-    return true;
+  /**
+   * Get feature flags for a user
+   */
+  getUserFlags(userId: string, context?: FlagContext): Record<string, boolean> {
+    return this.getFlagsFor({ ...context, userId });
+  }
+
+  /**
+   * Every flag's answer for a context
+   */
+  getFlagsFor(context: FlagContext = {}): Record<string, boolean> {
+    const result: Record<string, boolean> = {};
+    for (const name of this.flags.keys()) {
+      result[name] = this.evaluate(name, context).enabled;
+    }
+    return result;
+  }
+
+  // !== CHANGES !==
+
+  /**
+   * Create or replace a flag. The in-memory flag changes before the store
+   * write resolves, and is put back if the write fails.
+   */
+  async upsertFlag(flag: FeatureFlag, change: FlagChange): Promise<FeatureFlag> {
+    validateFlag(flag);
+
+    const before = this.flags.get(flag.name);
+    if (change.expectedVersion !== undefined && (before?.version ?? 0) !== change.expectedVersion) {
+      throw new FeatureFlagError(
+        `Feature flag '${flag.name}' is at version ${before?.version ?? 0}, ` +
+          `not ${change.expectedVersion}`,
+        409
+      );
+    }
+
+    const after: FeatureFlag = {
+      ...copyFlag(flag),
+      version: (before?.version ?? 0) + 1,
+      updatedAt: this.now().toISOString(),
+      updatedBy: change.actor,
+    };
+    await this.commit(flag.name, before, after, change);
+    return copyFlag(after);
+  }
+
+  async deleteFlag(featureName: string, change: FlagChange): Promise<void> {
+    const before = this.flags.get(featureName);
+    if (!before) {
+      throw new FeatureFlagError(`Feature flag '${featureName}' not found`, 404);
+    }
+    if (change.expectedVersion !== undefined && before.version !== change.expectedVersion) {
+      throw new FeatureFlagError(
+        `Feature flag '${featureName}' is at version ${before.version}, ` +
+          `not ${change.expectedVersion}`,
+        409
+      );
+    }
+    await this.commit(featureName, before, null, change);
+  }
+
+  /**
+   * Enable or disable a feature flag
+   */
+  async setEnabled(
+    featureName: string,
+    enabled: boolean,
+    change: FlagChange = SYSTEM_CHANGE
+  ): Promise<boolean> {
+    const updated = await this.updateFlag(featureName, { enabled }, change);
+    if (updated) {
+      console.log(`Feature '${featureName}' ${enabled ? 'enabled' : 'disabled'}`);
+    }
+    return updated;
   }
 
   /**
    * Update feature flag configuration
    */
-  updateFlag(featureName: string, updates: Partial<FeatureFlag>): boolean {
+  async updateFlag(
+    featureName: string,
+    updates: Partial<FeatureFlag>,
+    change: FlagChange = SYSTEM_CHANGE
+  ): Promise<boolean> {
     const flag = this.flags.get(featureName);
     if (!flag) {
       console.warn(`Feature flag '${featureName}' not found`);
       return false;
     }
 
-    Object.assign(flag, updates);
-    console.log(`Feature '${featureName}' updated:`, updates);
+    await this.upsertFlag({ ...flag, ...updates, name: featureName }, change);
     return true;
   }
 
   /**
    * Add a new feature flag
    */
-  addFlag(flag: FeatureFlag): boolean {
+  async addFlag(flag: FeatureFlag, change: FlagChange = SYSTEM_CHANGE): Promise<boolean> {
     if (this.flags.has(flag.name)) {
       console.warn(`Feature flag '${flag.name}' already exists`);
       return false;
     }
 
-    this.flags.set(flag.name, flag);
+    await this.upsertFlag(flag, change);
     console.log(`Feature flag '${flag.name}' added`);
     return true;
   }
@@ -148,114 +380,334 @@ export class FeatureFlagsService extends BaseService {
   /**
    * Remove a feature flag
    */
-  removeFlag(featureName: string): boolean {
-    const removed = this.flags.delete(featureName);
-    if (removed) {
-      console.log(`Feature flag '${featureName}' removed`);
-    } else {
+  async removeFlag(featureName: string, change: FlagChange = SYSTEM_CHANGE): Promise<boolean> {
+    if (!this.flags.has(featureName)) {
       console.warn(`Feature flag '${featureName}' not found`);
+      return false;
     }
-    return removed;
+
+    await this.deleteFlag(featureName, change);
+    console.log(`Feature flag '${featureName}' removed`);
+    return true;
+  }
+
+  /**
+   * Who changed what, newest first
+   */
+  async getAuditTrail(featureName?: string, limit = 100): Promise<FlagAuditEntry[]> {
+    return this.store.loadAudit(featureName, limit);
   }
 
   /**
    * Get all feature flags
    */
   getAllFlags(): FeatureFlag[] {
-    return Array.from(this.flags.values());
+    return Array.from(this.flags.values(), copyFlag);
   }
 
   /**
    * Get a specific feature flag
    */
   getFlag(featureName: string): FeatureFlag | undefined {
-    return this.flags.get(featureName);
+    const flag = this.flags.get(featureName);
+    return flag && copyFlag(flag);
   }
 
   /**
-   * Get feature flags for a user
+   * Export feature flags configuration
    */
-  getUserFlags(userId: string): Record<string, boolean> {
-    const userFlags: Record<string, boolean> = {};
-
+  exportConfig(): Record<string, FeatureFlag> {
+    const config: Record<string, FeatureFlag> = {};
     for (const [name, flag] of this.flags) {
-      userFlags[name] = this.isEnabled(name, userId);
+      config[name] = copyFlag(flag);
     }
-
-    return userFlags;
+    return config;
   }
 
   /**
-   * Check if user is in rollout percentage
+   * Import feature flags configuration; flags missing from it are removed
    */
-  private isUserInRollout(userId: string, percentage: number): boolean {
-    // Use user ID hash to determine if user is in rollout
-    const hash = this.simpleHash(userId);
-    const normalizedHash = ((hash % 100) + 100) % 100; // Ensure positive 0-99
-    return normalizedHash < percentage;
+  async importConfig(
+    config: Record<string, FeatureFlag>,
+    change: FlagChange = SYSTEM_CHANGE
+  ): Promise<void> {
+    Object.values(config).forEach(validateFlag);
+
+    for (const name of [...this.flags.keys()]) {
+      if (!(name in config)) {
+        await this.deleteFlag(name, change);
+      }
+    }
+    for (const [name, flag] of Object.entries(config)) {
+      await this.upsertFlag({ ...flag, name }, change);
+    }
+    console.log(`Imported ${Object.keys(config).length} feature flags`);
   }
 
-  /**
-   * Evaluate custom conditions
-   */
-  private evaluateConditions(conditions: FeatureCondition[], context: any): boolean {
-    return conditions.every(condition => {
-      switch (condition.type) {
-        case 'user':
-          return context.userId === condition.value;
-        case 'environment':
-          return process.env.NODE_ENV === condition.value;
-        case 'time':
-          return new Date() < new Date(condition.value);
-        case 'custom':
-          return this.evaluateCustomCondition(condition.value, context);
-        default:
-          return false;
+  private async commit(
+    name: string,
+    before: FeatureFlag | undefined,
+    after: FeatureFlag | null,
+    change: FlagChange
+  ): Promise<void> {
+    const entry: FlagAuditEntry = {
+      id: crypto.randomUUID(),
+      flag: name,
+      action: !before ? 'create' : after ? 'update' : 'delete',
+      actor: change.actor,
+      reason: change.reason,
+      before: before && copyFlag(before),
+      after: after ? copyFlag(after) : undefined,
+      at: this.now(),
+    };
+
+    if (after) {
+      this.flags.set(name, after);
+    } else {
+      this.flags.delete(name);
+    }
+
+    try {
+      await this.store.save(name, after, entry);
+    } catch (error) {
+      if (before) {
+        this.flags.set(name, before);
+      } else {
+        this.flags.delete(name);
       }
-    });
+      throw error;
+    }
   }
+}
 
-  /**
-   * Evaluate custom condition logic
-   */
-  private evaluateCustomCondition(condition: any, context: any): boolean {
-    // Implement custom condition logic here
-    // This could include complex business rules
-    return true; // Placeholder
+/**
+ * Stable 0–99.99 bucket for a flag and rollout key (FNV-1a). The flag name
+ * is mixed in so the same users are not first in line for every rollout.
+ */
+export function rolloutBucket(flagName: string, key: string): number {
+  const input = `${flagName}:${key}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
+  return ((hash >>> 0) % 10000) / 100;
+}
 
-  /**
-   * Simple hash function for rollout calculation
-   */
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash;
+function matchesRule(rule: TargetingRule, context: FlagContext): boolean {
+  const value = context[rule.attribute];
+  if (value === undefined || value === null || value === '') {
+    return rule.operator === 'not_in';
   }
 
-  /**
-   * Export feature flags configuration
-   */
-  exportConfig(): Record<string, FeatureFlag> {
-    const config: Record<string, FeatureFlag> = {};
-    for (const [name, flag] of this.flags) {
-      config[name] = { ...flag };
+  const listed = rule.values.some(
+    candidate => String(candidate).toLowerCase() === String(value).toLowerCase()
+  );
+  switch (rule.operator) {
+    case 'in':
+      return listed;
+    case 'not_in':
+      return !listed;
+    case 'gte':
+      return Number(value) >= Number(rule.values[0]);
+    case 'lte':
+      return Number(value) <= Number(rule.values[0]);
+    default:
+      return false;
+  }
+}
+
+function validateFlag(flag: FeatureFlag): void {
+  if (!flag.name || !FLAG_NAME.test(flag.name)) {
+    throw new FeatureFlagError(`Invalid feature flag name '${flag.name}'`);
+  }
+  if (
+    flag.rolloutPercentage !== undefined &&
+    !(flag.rolloutPercentage >= 0 && flag.rolloutPercentage <= 100)
+  ) {
+    throw new FeatureFlagError(`Feature flag '${flag.name}' rollout must be between 0 and 100`);
+  }
+  for (const rule of flag.rules ?? []) {
+    if (!rule.attribute || !OPERATORS.includes(rule.operator) || rule.values.length === 0) {
+      throw new FeatureFlagError(
+        `Feature flag '${flag.name}' has an invalid rule on '${rule.attribute}'`
+      );
+    }
+    if (
+      (rule.operator === 'gte' || rule.operator === 'lte') &&
+      !Number.isFinite(Number(rule.values[0]))
+    ) {
+      throw new FeatureFlagError(
+        `Feature flag '${flag.name}' compares '${rule.attribute}' with a non-number`
+      );
     }
-    return config;
   }
+}
 
-  /**
-   * Import feature flags configuration
-   */
-  importConfig(config: Record<string, FeatureFlag>): void {
-    this.flags.clear();
-    for (const [name, flag] of Object.entries(config)) {
-      this.flags.set(name, flag);
+function toContext(user?: string | FlagContext, context?: FlagContext): FlagContext {
+  if (typeof user === 'string') {
+    return { ...context, userId: user };
+  }
+  return { ...user, ...context };
+}
+
+function copyFlag(flag: FeatureFlag): FeatureFlag {
+  return JSON.parse(JSON.stringify(flag));
+}
+
+// !== STORES !==
+
+/**
+ * In-process store; keeps copies so reloading behaves like a real restart
+ */
+export class MemoryFeatureFlagStore implements FeatureFlagStore {
+  private flags = new Map<string, string>();
+  private audit: FlagAuditEntry[] = [];
+
+  async loadFlags(): Promise<FeatureFlag[]> {
+    return [...this.flags.values()].map(payload => JSON.parse(payload));
+  }
+
+  async save(name: string, flag: FeatureFlag | null, audit: FlagAuditEntry): Promise<void> {
+    if (flag) {
+      this.flags.set(name, JSON.stringify(flag));
+    } else {
+      this.flags.delete(name);
     }
-    console.log(`Imported ${Object.keys(config).length} feature flags`);
+    this.audit.push(reviveAudit(JSON.parse(JSON.stringify(audit))));
+  }
+
+  async loadAudit(flag?: string, limit = 100): Promise<FlagAuditEntry[]> {
+    return this.audit
+      .filter(entry => !flag || entry.flag === flag)
+      .reverse()
+      .slice(0, limit);
   }
 }
+
+/**
+ * D1 or bun:sqlite store: one row per flag (full flag as JSON) and one per
+ * change in the audit table
+ */
+export class SqlFeatureFlagStore implements FeatureFlagStore {
+  private schemaReady = false;
+
+  constructor(private readonly db: MatchingDatabase) {}
+
+  async ensureSchema(): Promise<void> {
+    if (this.schemaReady) return;
+
+    await runBatch(this.db, [
+      [
+        `CREATE TABLE IF NOT EXISTS feature_flags (
+          name TEXT PRIMARY KEY,
+          enabled INTEGER NOT NULL,
+          version INTEGER NOT NULL,
+          payload TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          updated_by TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS feature_flag_audit (
+          id TEXT PRIMARY KEY,
+          flag TEXT NOT NULL,
+          action TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          reason TEXT,
+          before_payload TEXT,
+          after_payload TEXT,
+          created_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [
+        `CREATE INDEX IF NOT EXISTS idx_feature_flag_audit_flag
+         ON feature_flag_audit(flag, created_at)`,
+        [],
+      ],
+    ]);
+
+    this.schemaReady = true;
+  }
+
+  async loadFlags(): Promise<FeatureFlag[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<{ payload: string }>(
+      this.db,
+      `SELECT payload FROM feature_flags ORDER BY name`
+    );
+    return rows.map(row => JSON.parse(row.payload));
+  }
+
+  async save(name: string, flag: FeatureFlag | null, audit: FlagAuditEntry): Promise<void> {
+    await this.ensureSchema();
+
+    const write: SqlStatement = flag
+      ? [
+          `INSERT INTO feature_flags (name, enabled, version, payload, updated_at, updated_by)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(name) DO UPDATE SET
+             enabled = excluded.enabled,
+             version = excluded.version,
+             payload = excluded.payload,
+             updated_at = excluded.updated_at,
+             updated_by = excluded.updated_by`,
+          [
+            name,
+            flag.enabled ? 1 : 0,
+            flag.version ?? 1,
+            JSON.stringify(flag),
+            flag.updatedAt ?? audit.at.toISOString(),
+            flag.updatedBy ?? audit.actor,
+          ],
+        ]
+      : [`DELETE FROM feature_flags WHERE name = ?`, [name]];
+
+    await runBatch(this.db, [
+      write,
+      [
+        `INSERT INTO feature_flag_audit (id, flag, action, actor, reason, before_payload, after_payload, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          audit.id,
+          audit.flag,
+          audit.action,
+          audit.actor,
+          audit.reason ?? null,
+          audit.before ? JSON.stringify(audit.before) : null,
+          audit.after ? JSON.stringify(audit.after) : null,
+          audit.at.toISOString(),
+        ],
+      ],
+    ]);
+  }
+
+  async loadAudit(flag?: string, limit = 100): Promise<FlagAuditEntry[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM feature_flag_audit
+       ${flag ? 'WHERE flag = ?' : ''}
+       ORDER BY created_at DESC, rowid DESC LIMIT ?`,
+      flag ? [flag, limit] : [limit]
+    );
+    return rows.map(row =>
+      reviveAudit({
+        id: row.id,
+        flag: row.flag,
+        action: row.action,
+        actor: row.actor,
+        reason: row.reason ?? undefined,
+        before: row.before_payload ? JSON.parse(row.before_payload) : undefined,
+        after: row.after_payload ? JSON.parse(row.after_payload) : undefined,
+        at: row.created_at,
+      })
+    );
+  }
+}
+
+function reviveAudit(entry: Record<string, any>): FlagAuditEntry {
+  return { ...entry, at: new Date(entry.at) } as FlagAuditEntry;
+}
@@ -4,6 +4,7 @@
  */
 
 import { P2PPaymentMatching, P2PPaymentRequest, P2PMatch } from '../payments/p2p-payment-matching';
+import type { P2PEscrow, P2PEscrowRecord } from '../../src/p2p-escrow';
 
 export interface TelegramUser {
   id: number;
@@ -25,12 +26,19 @@ export interface TelegramMessage {
   isCommand: boolean;
   command?: string;
   parameters?: string[];
+  attachment?: TelegramAttachment; // Downloaded photo or document
+}
+
+export interface TelegramAttachment {
+  fileName: string;
+  contentType: string;
+  data: Uint8Array;
 }
 
 export interface TelegramSession {
   userId: number;
   chatId: number;
-  currentStep: 'idle' | 'awaiting_deposit_amount' | 'awaiting_deposit_method' | 'awaiting_withdrawal_amount' | 'awaiting_withdrawal_method' | 'awaiting_payment_details' | 'awaiting_verification';
+  currentStep: 'idle' | 'awaiting_deposit_amount' | 'awaiting_deposit_method' | 'awaiting_withdrawal_amount' | 'awaiting_withdrawal_method' | 'awaiting_payment_details' | 'awaiting_verification' | 'awaiting_evidence';
   pendingRequest?: Partial<P2PPaymentRequest>;
   lastActivity: string;
   context: Record<string, any>;
@@ -42,11 +50,18 @@ export class P2PTelegramBot {
   private sessions: Map<number, TelegramSession> = new Map();
   private botToken: string;
   private webhookUrl: string;
-
-  constructor(p2pMatching: P2PPaymentMatching, botToken: string, webhookUrl: string) {
+  private escrow?: P2PEscrow;
+
+  constructor(
+    p2pMatching: P2PPaymentMatching,
+    botToken: string,
+    webhookUrl: string,
+    escrow?: P2PEscrow
+  ) {
     this.p2pMatching = p2pMatching;
     this.botToken = botToken;
     this.webhookUrl = webhookUrl;
+    this.escrow = escrow;
   }
 
   /**
@@ -100,6 +115,18 @@ export class P2PTelegramBot {
       case '/cancel':
         return this.handleCancelCommand(session);
 
+      case '/escrow':
+        return await this.handleEscrowCommand(user);
+
+      case '/paid':
+        return await this.handlePaidCommand(message, user, session);
+
+      case '/received':
+        return await this.handleReceivedCommand(message, user);
+
+      case '/dispute':
+        return await this.handleDisputeCommand(message, user, session);
+
       default:
         return "Unknown command. Use /help to see available commands.";
     }
@@ -132,6 +159,9 @@ export class P2PTelegramBot {
       case 'awaiting_verification':
         return await this.handleVerificationInput(message, user, session);
 
+      case 'awaiting_evidence':
+        return await this.handleEvidenceInput(message, user, session);
+
       default:
         return "I'm not sure what you mean. Use /help to see available commands or start with /deposit or /withdraw.";
     }
@@ -578,6 +608,154 @@ ${request.type === 'deposit' ? '💰 **Deposit Request Matched**' : '💸 **With
     return response;
   }
 
+  /**
+   * Handle /escrow command
+   */
+  private async handleEscrowCommand(user: TelegramUser): Promise<string> {
+    if (!user.customerId) {
+      return "You need to link your account first.";
+    }
+    if (!this.escrow) {
+      return "Escrow is not available right now.";
+    }
+
+    const escrows = await this.escrow.listForCustomer(user.customerId);
+    if (escrows.length === 0) {
+      return "You have no escrowed payments.";
+    }
+
+    let response = "🔒 **Your Escrowed Payments**\n\n";
+
+    escrows.slice(0, 10).forEach((escrow, index) => {
+      const statusEmoji = {
+        'awaiting_payment': '⏳',
+        'payment_claimed': '📤',
+        'confirmed': '✅',
+        'disputed': '⚠️',
+        'resolved': '⚖️',
+        'expired': '⏰'
+      }[escrow.status];
+
+      const isPayer = escrow.payerCustomerId === user.customerId;
+
+      response += `${index + 1}. ${statusEmoji} **${isPayer ? 'SEND' : 'RECEIVE'}** - $${escrow.amount}
+   ID: ${this.shortId(escrow.id)}
+   Status: ${escrow.status.replace('_', ' ')}${escrow.deadlineAt ? `\n   Due: ${escrow.deadlineAt.toISOString()}` : ''}\n\n`;
+    });
+
+    return response;
+  }
+
+  /**
+   * Handle /paid command - the depositor has sent the money
+   */
+  private async handlePaidCommand(
+    message: TelegramMessage,
+    user: TelegramUser,
+    session: TelegramSession
+  ): Promise<string> {
+    const found = await this.findEscrow(message, user, 'payer', ['awaiting_payment']);
+    if (typeof found === 'string') return found;
+
+    try {
+      const escrow = await this.escrow!.claimPayment(found.id, user.customerId!);
+      session.currentStep = 'awaiting_evidence';
+      session.context = { escrowId: escrow.id };
+
+      return `📤 **Payment Marked as Sent**
+
+The recipient has been asked to confirm they received $${escrow.amount}.
+
+Please send a screenshot or receipt of the payment now. It will only be used if there is a dispute.
+
+*Type /cancel to skip.*`;
+    } catch (error) {
+      return `❌ ${error instanceof Error ? error.message : 'Could not update the escrow'}`;
+    }
+  }
+
+  /**
+   * Handle /received command - the withdrawer confirms the money arrived
+   */
+  private async handleReceivedCommand(message: TelegramMessage, user: TelegramUser): Promise<string> {
+    const found = await this.findEscrow(message, user, 'payee', ['payment_claimed', 'awaiting_payment']);
+    if (typeof found === 'string') return found;
+
+    if (found.status === 'awaiting_payment') {
+      return "The sender has not marked this payment as sent yet. Only confirm once the money is in your account.";
+    }
+
+    try {
+      const escrow = await this.escrow!.confirmPayment(found.id, user.customerId!);
+      return `✅ **Payment Confirmed**
+
+Thanks! $${escrow.amount} has been released from your balance and the transfer is complete.`;
+    } catch (error) {
+      return `❌ ${error instanceof Error ? error.message : 'Could not update the escrow'}`;
+    }
+  }
+
+  /**
+   * Handle /dispute command - /dispute [id] <reason>
+   */
+  private async handleDisputeCommand(
+    message: TelegramMessage,
+    user: TelegramUser,
+    session: TelegramSession
+  ): Promise<string> {
+    const parameters = message.parameters || [];
+    const found = await this.findEscrow(message, user, 'either', ['awaiting_payment', 'payment_claimed']);
+    if (typeof found === 'string') return found;
+
+    const reasonWords = parameters[0] && found.id.startsWith(parameters[0]) ? parameters.slice(1) : parameters;
+    const reason = reasonWords.join(' ').trim();
+    if (!reason) {
+      return "Please tell us what went wrong, e.g. /dispute Payment never arrived";
+    }
+
+    try {
+      const escrow = await this.escrow!.dispute(found.id, user.customerId!, reason);
+      session.currentStep = 'awaiting_evidence';
+      session.context = { escrowId: escrow.id };
+
+      return `⚠️ **Dispute Opened**
+
+A moderator will review escrow ${this.shortId(escrow.id)}. The held $${escrow.amount} stays locked until they decide.
+
+Send any screenshots or receipts that support your case now.
+
+*Type /cancel when you're done.*`;
+    } catch (error) {
+      return `❌ ${error instanceof Error ? error.message : 'Could not open the dispute'}`;
+    }
+  }
+
+  /**
+   * Handle evidence uploads after /paid or /dispute
+   */
+  private async handleEvidenceInput(
+    message: TelegramMessage,
+    user: TelegramUser,
+    session: TelegramSession
+  ): Promise<string> {
+    if (!message.attachment) {
+      return "Please send a photo or PDF of the payment, or type /cancel to skip.";
+    }
+
+    try {
+      const evidence = await this.escrow!.addEvidence(
+        session.context.escrowId,
+        user.customerId!,
+        message.attachment
+      );
+      return `📎 **Evidence Saved**
+
+${evidence.fileName} was attached to escrow ${this.shortId(evidence.escrowId)}. Send more files or type /cancel when you're done.`;
+    } catch (error) {
+      return `❌ ${error instanceof Error ? error.message : 'Could not save the file'}`;
+    }
+  }
+
   /**
    * Handle /help command
    */
@@ -596,6 +774,10 @@ ${request.type === 'deposit' ? '💰 **Deposit Request Matched**' : '💸 **With
 /matches - View your current matches
 /help - Show this help message
 /cancel - Cancel current operation
+/escrow - View your escrowed payments
+/paid [id] - Tell the recipient you sent the money
+/received [id] - Confirm the money arrived
+/dispute [id] <reason> - Ask a moderator to review a payment
 
 **How It Works:**
 1. **Deposit**: Tell the bot how much you want to deposit and via which app
@@ -722,6 +904,47 @@ Your current operation has been cancelled. You can start a new request with /dep
     return null;
   }
 
+  /**
+   * Find the escrow a command refers to: the id (or its first 8 characters)
+   * in the first parameter, or the customer's only escrow in the given states
+   */
+  private async findEscrow(
+    message: TelegramMessage,
+    user: TelegramUser,
+    role: 'payer' | 'payee' | 'either',
+    statuses: P2PEscrowRecord['status'][]
+  ): Promise<P2PEscrowRecord | string> {
+    if (!user.customerId) {
+      return "You need to link your account first.";
+    }
+    if (!this.escrow) {
+      return "Escrow is not available right now.";
+    }
+
+    const candidates = (await this.escrow.listForCustomer(user.customerId, true)).filter(
+      escrow =>
+        statuses.includes(escrow.status) &&
+        (role === 'either' ||
+          (role === 'payer' ? escrow.payerCustomerId : escrow.payeeCustomerId) === user.customerId)
+    );
+
+    const requested = message.parameters?.[0];
+    const byId = requested && candidates.find(escrow => escrow.id.startsWith(requested));
+    if (byId) return byId;
+    if (candidates.length === 1) return candidates[0];
+    if (candidates.length === 0) {
+      return "You have no escrowed payments waiting on this step. Use /escrow to see them all.";
+    }
+
+    return `You have ${candidates.length} escrowed payments. Add the ID, e.g. ${message.command} ${this.shortId(candidates[0].id)}
+
+${candidates.map(escrow => `• ${this.shortId(escrow.id)} - $${escrow.amount} (${escrow.status.replace('_', ' ')})`).join('\n')}`;
+  }
+
+  private shortId(id: string): string {
+    return id.slice(0, 8);
+  }
+
   private formatTimeAgo(timestamp: string): string {
     const now = new Date();
     const time = new Date(timestamp);
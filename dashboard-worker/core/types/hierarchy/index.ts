@@ -165,6 +165,72 @@ export interface AgentCommissionPayout extends BaseEntity {
   notes?: string;
 }
 
+/**
+ * A settled wager as the weekly commission run sees it
+ */
+export interface AgentWagerActivity {
+  wagerNumber: number;
+  /** Writing agent's Fire22 code (AgentProfile.agentID) */
+  agentId: string;
+  customerId: string;
+  amountWagered: number;
+  /** House result: positive when the customer lost */
+  houseNet: number;
+  settledAt: Date;
+  status: 'settled' | 'void';
+}
+
+export interface CommissionOverrideLine {
+  subAgentId: string;
+  rate: number;
+  /** The sub-agent's commissionable net the override is paid on */
+  net: number;
+  amount: number;
+}
+
+export interface CommissionClawback {
+  agentId: string;
+  wagerNumber: number;
+  /** Week the wager was originally paid in */
+  weekStart: Date;
+  previousNet: number;
+  revisedNet: number;
+  rate: number;
+  /** Negative when commission is taken back */
+  amount: number;
+  reason: 'void' | 'regrade';
+}
+
+export interface CommissionStatement {
+  id: string;
+  agentId: string;
+  weekStart: Date;
+  weekEnd: Date;
+  wagerCount: number;
+  volume: number;
+  /** House net win/loss on the agent's own customers */
+  netWin: number;
+  /** Makeup carried in from earlier losing weeks (zero or negative) */
+  carryoverIn: number;
+  commissionableNet: number;
+  rate: number;
+  commission: number;
+  overrides: CommissionOverrideLine[];
+  overrideTotal: number;
+  clawbacks: CommissionClawback[];
+  clawbackTotal: number;
+  /** Negative commission carried in from last week's statement */
+  balanceIn: number;
+  /** Makeup carried to next week (zero or negative) */
+  carryoverOut: number;
+  /** Negative commission carried to next week's statement */
+  balanceOut: number;
+  netPayable: number;
+  status: 'open' | 'payout_created';
+  payoutId?: string;
+  generatedAt: Date;
+}
+
 export interface AgentDashboardData {
   agentProfile: AgentProfile;
   financialPerformance: {
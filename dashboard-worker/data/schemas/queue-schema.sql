@@ -14,6 +14,7 @@ CREATE TABLE IF NOT EXISTS queue_items (
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   matched_with TEXT,
   notes TEXT,
+  allocated_amount REAL NOT NULL DEFAULT 0, -- held by pending and approved match slices
   FOREIGN KEY (customer_id) REFERENCES players(customer_id)
 );
 
@@ -29,8 +30,69 @@ CREATE TABLE IF NOT EXISTS queue_matches (
   created_at TEXT NOT NULL DEFAULT (datetime('now')),
   completed_at TEXT,
   notes TEXT,
+  run_id TEXT,
+  explanation TEXT, -- JSON: ranks, skipped deposits and reasons for the slice
   FOREIGN KEY (withdrawal_id) REFERENCES queue_items(id),
-  FOREIGN KEY (deposit_id) REFERENCES queue_items(id)
+  FOREIGN KEY (deposit_id) REFERENCES queue_items(id),
+  FOREIGN KEY (run_id) REFERENCES queue_matching_runs(id)
+);
+
+-- Matching runs with their input snapshot, so every run can be replayed
+CREATE TABLE IF NOT EXISTS queue_matching_runs (
+  id TEXT PRIMARY KEY,
+  algorithm_version TEXT NOT NULL,
+  input_fingerprint TEXT NOT NULL,
+  options TEXT NOT NULL, -- JSON
+  orders TEXT NOT NULL, -- JSON
+  planned_at TEXT NOT NULL,
+  fills INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Escrow for approved match slices while the money moves outside the system
+CREATE TABLE IF NOT EXISTS p2p_escrows (
+  id TEXT PRIMARY KEY,
+  match_id TEXT NOT NULL UNIQUE,
+  withdrawal_id TEXT NOT NULL,
+  deposit_id TEXT NOT NULL,
+  payer_customer_id TEXT NOT NULL, -- deposit side, sends the money
+  payee_customer_id TEXT NOT NULL, -- withdrawal side, balance held
+  amount REAL NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('awaiting_payment', 'payment_claimed', 'confirmed', 'disputed', 'resolved', 'expired')),
+  deadline_at TEXT,
+  decision TEXT CHECK (decision IN ('release', 'reverse')),
+  dispute_reason TEXT,
+  disputed_by TEXT,
+  resolved_by TEXT,
+  resolution_notes TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (match_id) REFERENCES queue_matches(id)
+);
+
+-- Escrow state transitions
+CREATE TABLE IF NOT EXISTS p2p_escrow_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  escrow_id TEXT NOT NULL,
+  status_from TEXT,
+  status_to TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  note TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (escrow_id) REFERENCES p2p_escrows(id)
+);
+
+-- Payment screenshots and receipts, stored in R2 under object_key
+CREATE TABLE IF NOT EXISTS p2p_escrow_evidence (
+  id TEXT PRIMARY KEY,
+  escrow_id TEXT NOT NULL,
+  uploaded_by TEXT NOT NULL,
+  object_key TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (escrow_id) REFERENCES p2p_escrows(id)
 );
 
 -- Queue processing history table
@@ -71,6 +133,13 @@ CREATE INDEX IF NOT EXISTS idx_queue_matches_withdrawal_id ON queue_matches(with
 CREATE INDEX IF NOT EXISTS idx_queue_matches_deposit_id ON queue_matches(deposit_id);
 CREATE INDEX IF NOT EXISTS idx_queue_matches_status ON queue_matches(status);
 CREATE INDEX IF NOT EXISTS idx_queue_matches_created_at ON queue_matches(created_at);
+CREATE INDEX IF NOT EXISTS idx_queue_matches_run_id ON queue_matches(run_id);
+
+CREATE INDEX IF NOT EXISTS idx_p2p_escrows_status_deadline ON p2p_escrows(status, deadline_at);
+CREATE INDEX IF NOT EXISTS idx_p2p_escrows_payer ON p2p_escrows(payer_customer_id);
+CREATE INDEX IF NOT EXISTS idx_p2p_escrows_payee ON p2p_escrows(payee_customer_id);
+CREATE INDEX IF NOT EXISTS idx_p2p_escrow_events_escrow_id ON p2p_escrow_events(escrow_id);
+CREATE INDEX IF NOT EXISTS idx_p2p_escrow_evidence_escrow_id ON p2p_escrow_evidence(escrow_id);
 
 CREATE INDEX IF NOT EXISTS idx_queue_history_item_id ON queue_history(queue_item_id);
 CREATE INDEX IF NOT EXISTS idx_queue_history_date ON queue_history(processed_at);
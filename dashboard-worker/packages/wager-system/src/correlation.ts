@@ -0,0 +1,224 @@
+// Fire22 Wager System - Correlated parlay rules
+//
+// Same-game legs whose outcomes move together are blocked or re-priced:
+// - moneyline_spread_same_team: moneyline and spread backing the same team
+// - over_with_favorite:         game over with the favorite in a low-total game
+// - player_prop_team_total:     a player prop with the player's team total
+//
+// Rules are scoped globally, per sport or per league; for each kind the most
+// specific enabled rule applies (league > sport > global).
+
+export type MarketKind = 'moneyline' | 'spread' | 'total' | 'team_total' | 'player_prop';
+
+export type CorrelationRuleKind =
+  | 'moneyline_spread_same_team'
+  | 'over_with_favorite'
+  | 'player_prop_team_total';
+
+export type CorrelationAction = 'block' | 'reprice';
+
+export interface CorrelationRule {
+  id: string;
+  kind: CorrelationRuleKind;
+  action: CorrelationAction;
+  /** Share of the uncorrelated win paid when re-pricing, e.g. 0.85 */
+  payoutFactor?: number;
+  sportId?: string;
+  leagueId?: string;
+  /** over_with_favorite: only totals at or below this line */
+  maxTotal?: number;
+  /** false switches the kind off for the rule's scope */
+  enabled?: boolean;
+}
+
+export interface CorrelationLeg {
+  selectionId: string;
+  description?: string;
+  eventId: string;
+  sportId: string;
+  leagueId: string;
+  market?: MarketKind;
+  /** Team the selection backs; the player's team for props */
+  teamId?: string;
+  side?: 'home' | 'away' | 'over' | 'under';
+  line?: number;
+  /** American odds */
+  odds: number;
+}
+
+export interface CorrelationConflict {
+  ruleId: string;
+  kind: CorrelationRuleKind;
+  action: CorrelationAction;
+  eventId: string;
+  selectionIds: [string, string];
+  payoutFactor?: number;
+  message: string;
+}
+
+export interface CorrelationCheck {
+  action: 'accept' | CorrelationAction;
+  conflicts: CorrelationConflict[];
+  /** 0 for independent legs up to 1 for a blocked combination */
+  riskScore: number;
+}
+
+export const DEFAULT_CORRELATION_RULES: CorrelationRule[] = [
+  { id: 'moneyline-spread-same-team', kind: 'moneyline_spread_same_team', action: 'block' },
+  // Football-scale total; set maxTotal per sport for other sports
+  {
+    id: 'over-with-favorite-low-total',
+    kind: 'over_with_favorite',
+    action: 'reprice',
+    payoutFactor: 0.85,
+    maxTotal: 41.5,
+  },
+  { id: 'player-prop-team-total', kind: 'player_prop_team_total', action: 'block' },
+];
+
+const DESCRIPTIONS: Record<CorrelationRuleKind, string> = {
+  moneyline_spread_same_team: 'moneyline and spread on the same team',
+  over_with_favorite: 'game over with the favorite in a low-total game',
+  player_prop_team_total: "player prop with the same team's team total",
+};
+
+export class CorrelationEngine {
+  private rules = new Map<string, CorrelationRule>();
+
+  constructor(rules: CorrelationRule[] = DEFAULT_CORRELATION_RULES) {
+    for (const rule of rules) {
+      this.setRule(rule);
+    }
+  }
+
+  // !== RULES !==
+
+  setRule(rule: CorrelationRule): void {
+    if (rule.action === 'reprice' && !(rule.payoutFactor! > 0 && rule.payoutFactor! < 1)) {
+      throw new Error(`Rule ${rule.id} re-prices and needs a payout factor between 0 and 1`);
+    }
+    this.rules.set(rule.id, { ...rule });
+  }
+
+  removeRule(ruleId: string): boolean {
+    return this.rules.delete(ruleId);
+  }
+
+  getRules(): CorrelationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Rules in force for a sport and league: the most specific rule of each kind
+   */
+  rulesFor(sportId: string, leagueId: string): CorrelationRule[] {
+    const byKind = new Map<CorrelationRuleKind, { rule: CorrelationRule; specificity: number }>();
+
+    for (const rule of this.rules.values()) {
+      if (rule.sportId && rule.sportId !== sportId) continue;
+      if (rule.leagueId && rule.leagueId !== leagueId) continue;
+
+      const specificity = rule.leagueId ? 2 : rule.sportId ? 1 : 0;
+      const current = byKind.get(rule.kind);
+      if (!current || specificity > current.specificity) {
+        byKind.set(rule.kind, { rule, specificity });
+      }
+    }
+
+    return Array.from(byKind.values(), ({ rule }) => rule).filter(rule => rule.enabled !== false);
+  }
+
+  // !== CHECKS !==
+
+  check(legs: CorrelationLeg[]): CorrelationCheck {
+    const conflicts: CorrelationConflict[] = [];
+    let sameGame = false;
+
+    for (let i = 0; i < legs.length; i++) {
+      for (let j = i + 1; j < legs.length; j++) {
+        const [a, b] = [legs[i], legs[j]];
+        if (a.eventId !== b.eventId) continue;
+        sameGame = true;
+
+        for (const rule of this.rulesFor(a.sportId, a.leagueId)) {
+          if (matches(rule, a, b)) {
+            conflicts.push({
+              ruleId: rule.id,
+              kind: rule.kind,
+              action: rule.action,
+              eventId: a.eventId,
+              selectionIds: [a.selectionId, b.selectionId],
+              payoutFactor: rule.action === 'reprice' ? rule.payoutFactor : undefined,
+              message: `Legs ${label(a)} and ${label(b)} conflict: ${DESCRIPTIONS[rule.kind]} (rule ${rule.id})`,
+            });
+          }
+        }
+      }
+    }
+
+    let action: CorrelationCheck['action'] = 'accept';
+    if (conflicts.some(conflict => conflict.action === 'block')) {
+      action = 'block';
+    } else if (conflicts.length > 0) {
+      action = 'reprice';
+    }
+
+    const riskScore = conflicts.reduce(
+      (max, conflict) =>
+        Math.max(max, conflict.action === 'block' ? 1 : 1 - (conflict.payoutFactor ?? 1)),
+      sameGame ? 0.05 : 0
+    );
+
+    return { action, conflicts, riskScore: Math.round(riskScore * 100) / 100 };
+  }
+}
+
+/**
+ * Market kind from a bet type id such as "nfl-moneyline" or "team_total"
+ */
+export function inferMarketKind(betTypeId: string): MarketKind | undefined {
+  const id = betTypeId.toLowerCase().replace(/[\s-]/g, '_');
+  if (id.includes('team_total')) return 'team_total';
+  if (id.includes('prop')) return 'player_prop';
+  if (id.includes('moneyline') || id === 'ml') return 'moneyline';
+  if (id.includes('spread') || id.includes('handicap')) return 'spread';
+  if (id.includes('total')) return 'total';
+  return undefined;
+}
+
+function matches(rule: CorrelationRule, a: CorrelationLeg, b: CorrelationLeg): boolean {
+  const either = (test: (x: CorrelationLeg, y: CorrelationLeg) => boolean) => test(a, b) || test(b, a);
+
+  switch (rule.kind) {
+    case 'moneyline_spread_same_team':
+      return either(
+        (x, y) =>
+          x.market === 'moneyline' && y.market === 'spread' && !!x.teamId && x.teamId === y.teamId
+      );
+    case 'over_with_favorite':
+      return either(
+        (x, y) =>
+          x.market === 'total' &&
+          x.side === 'over' &&
+          x.line !== undefined &&
+          (rule.maxTotal === undefined || x.line <= rule.maxTotal) &&
+          isFavorite(y)
+      );
+    case 'player_prop_team_total':
+      return either(
+        (x, y) =>
+          x.market === 'player_prop' && y.market === 'team_total' && !!x.teamId && x.teamId === y.teamId
+      );
+  }
+}
+
+// Moneyline favorites are odds-on; spread favorites lay points
+function isFavorite(leg: CorrelationLeg): boolean {
+  if (leg.market === 'moneyline') return leg.odds < -100;
+  if (leg.market === 'spread') return leg.line !== undefined && leg.line < 0;
+  return false;
+}
+
+function label(leg: CorrelationLeg): string {
+  return leg.description ? `${leg.selectionId} (${leg.description})` : leg.selectionId;
+}
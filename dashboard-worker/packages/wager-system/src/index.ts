@@ -1,4 +1,36 @@
 // Fire22 Wager System - Comprehensive Production Sportsbook System
+import {
+  priceTicket,
+  teaseLine,
+  type CorrelationAdjustment,
+  type DeadHeat,
+  type IfBetCondition,
+  type LegResult,
+  type PricingOptions,
+  type TeaserOptions,
+  type TicketQuote,
+} from './pricing';
+import { LiabilityBook, type LiabilityBreach, type LiabilityLeg } from './liability';
+import {
+  CorrelationEngine,
+  inferMarketKind,
+  type CorrelationCheck,
+  type CorrelationLeg,
+  type MarketKind,
+} from './correlation';
+import {
+  closingLineValue,
+  type ClosingLineSnapshot,
+  type LineChange,
+  type LineMovementEngine,
+} from './line-movement';
+
+export * from './pricing';
+export * from './liability';
+export * from './odds-feed';
+export * from './line-movement';
+export * from './correlation';
+
 export interface Sport {
   id: string;
   name: string;
@@ -62,8 +94,14 @@ export interface Selection {
   };
   line?: number; // For spreads, over/under
   side?: 'home' | 'away' | 'over' | 'under';
+  /** Inferred from betTypeId when omitted */
+  market?: MarketKind;
+  /** Team backed by the selection; the player's team for props */
+  teamId?: string;
+  playerId?: string;
   status: 'active' | 'suspended' | 'settled';
-  result?: 'win' | 'loss' | 'push' | 'void';
+  result?: Exclude<LegResult, 'pending'>;
+  deadHeat?: DeadHeat;
   settlementAmount?: number;
 }
 
@@ -143,6 +181,7 @@ export interface Wager {
   amountWagered: number;
   toWinAmount: number;
   riskAmount: number;
+  pricing?: PricingOptions;
 
   // !== ODDS & LINES !==
   odds: {
@@ -159,6 +198,7 @@ export interface Wager {
       reason: string;
     }>;
   };
+  closingLineValue?: ClosingLineValue;
 
   // !== TIMING !==
   insertDateTime: string;
@@ -167,7 +207,7 @@ export interface Wager {
   settlementDate?: string;
 
   // !== STATUS & RESULTS !==
-  status: 'pending' | 'active' | 'settled' | 'cancelled' | 'void';
+  status: 'pending' | 'pending_approval' | 'active' | 'settled' | 'cancelled' | 'void';
   result?: 'win' | 'loss' | 'push' | 'void' | 'partial';
   settlementAmount?: number;
   settlementMethod?: 'automatic' | 'manual' | 'partial';
@@ -252,6 +292,26 @@ export interface Wager {
   };
 }
 
+export interface ClosingLineValue {
+  legs: Array<{
+    selectionId: string;
+    takenOdds: number;
+    closingOdds: number;
+    clv: number;
+  }>;
+  /** Average over the legs whose events have closed */
+  clv: number;
+  computedAt: string;
+}
+
+export interface CustomerClv {
+  customerId: string;
+  wagers: number;
+  averageClv: number;
+  /** Share of wagers that beat the closing line */
+  beatCloseRate: number;
+}
+
 export interface WagerRequest {
   customerId: string;
   agentId: string;
@@ -262,8 +322,11 @@ export interface WagerRequest {
     odds: number;
     line?: number;
   }>;
+  /** Base stake; if-bets and reverses risk it on every chain */
   amountWagered: number;
-  betType: 'straight' | 'parlay' | 'teaser';
+  betType: 'straight' | 'parlay' | 'teaser' | 'if_bet' | 'reverse';
+  teaser?: TeaserOptions;
+  ifBetCondition?: IfBetCondition;
   customerNotes?: string;
 }
 
@@ -284,13 +347,28 @@ export interface WagerValidation {
 
 export interface SettlementRequest {
   wagerNumber: number;
-  settlementType: 'win' | 'loss' | 'push' | 'void' | 'partial';
+  /** Whole-ticket result; derived from `legResults` when those are given */
+  settlementType?: 'win' | 'loss' | 'push' | 'void' | 'partial';
+  legResults?: LegGrade[];
   settlementAmount?: number;
   settlementNotes?: string;
   settledBy: string;
   batchId?: string;
 }
 
+export interface LegGrade {
+  selectionId: string;
+  result: Exclude<LegResult, 'pending'>;
+  deadHeat?: DeadHeat;
+}
+
+export interface RegradeRequest {
+  wagerNumber: number;
+  legResults: LegGrade[];
+  regradedBy: string;
+  reason: string;
+}
+
 export interface SettlementResult {
   wagerNumber: number;
   success: boolean;
@@ -303,6 +381,24 @@ export interface SettlementResult {
   timestamp: string;
 }
 
+/**
+ * A settlement change on a wager, for commission and reporting consumers
+ */
+export interface WagerSettlementEvent {
+  type: 'settled' | 'regraded' | 'unsettled';
+  wagerNumber: number;
+  agentId: string;
+  customerId: string;
+  amountWagered: number;
+  result?: Wager['result'];
+  /** Customer's net from the wager after this change; 0 once unsettled */
+  settlementAmount: number;
+  previousSettlementAmount: number;
+  timestamp: string;
+}
+
+export type WagerSettlementListener = (event: WagerSettlementEvent) => void;
+
 export interface RiskMetrics {
   totalExposure: number;
   maxLiability: number;
@@ -334,6 +430,10 @@ export class WagerSystem {
   private events = new Map<string, Event>();
   private selections = new Map<string, Selection>();
   private wagerCounter = 1000000;
+  private settlementListeners = new Set<WagerSettlementListener>();
+
+  readonly liabilityBook = new LiabilityBook();
+  readonly correlationEngine = new CorrelationEngine();
 
   // !== WAGER CREATION & VALIDATION !==
 
@@ -347,13 +447,125 @@ export class WagerSystem {
     // Check limits
     await this.checkLimits(request);
 
+    // Re-check the caps and reserve the ticket's liability with nothing awaited
+    // in between, so concurrent tickets cannot both fit under the same cap.
+    // Tickets that need approval carry no liability until they are approved.
+    const wagerNumber = this.generateWagerNumber();
+    const legs = await this.liabilityLegsFor(request);
+    const riskAmount = this.calculateRiskAmount(request);
+    const toWinAmount = this.calculateToWinAmount(request);
+    const liability = this.liabilityBook.check(legs, riskAmount, toWinAmount);
+    if (liability.action === 'reject') {
+      throw new Error(
+        `Wager validation failed: ${liability.breaches.map(breach => this.describeBreach(breach)).join(', ')}`
+      );
+    }
+    const approvalRequired = validation.approvalRequired || liability.action === 'manual_approval';
+    if (!approvalRequired) {
+      this.liabilityBook.add(wagerNumber, legs, riskAmount, toWinAmount);
+    }
+
+    try {
+      const wager = await this.buildWager(wagerNumber, request, validation, approvalRequired);
+      this.wagers.set(wager.wagerNumber, wager);
+
+      // Held tickets count towards volume once they are approved
+      if (!approvalRequired) {
+        await this.updateMetrics(wager);
+      }
+
+      // Send notifications
+      await this.sendNotifications(wager, approvalRequired ? 'approval_required' : 'bet_placed');
+
+      return wager;
+    } catch (error) {
+      this.wagers.delete(wagerNumber);
+      this.liabilityBook.remove(wagerNumber);
+      throw error;
+    }
+  }
+
+  /**
+   * Accept a ticket held for approval. Its liability is booked now, so a
+   * reject cap filled while it waited still refuses it.
+   */
+  async approveWager(wagerNumber: number, approvedBy: string, notes?: string): Promise<Wager> {
+    const wager = this.wagers.get(wagerNumber);
+    if (!wager) {
+      throw new Error('Wager not found');
+    }
+
+    if (wager.status !== 'pending_approval') {
+      throw new Error('Wager is not awaiting approval');
+    }
+
+    const legs = wager.selections.map(selection => this.toLiabilityLeg(selection));
+    const liability = this.liabilityBook.check(legs, wager.riskAmount, wager.toWinAmount);
+    if (liability.action === 'reject') {
+      throw new Error(
+        `Wager cannot be approved: ${liability.breaches.map(breach => this.describeBreach(breach)).join(', ')}`
+      );
+    }
+    this.addLiability(wager);
+
+    wager.status = 'pending';
+    wager.validation.approvedBy = approvedBy;
+    wager.validation.approvalNotes = notes;
+    wager.auditTrail.push({
+      timestamp: new Date().toISOString(),
+      action: 'wager_approved',
+      performedBy: approvedBy,
+      details: notes ? `Wager approved: ${notes}` : 'Wager approved',
+      changes: { status: 'pending' },
+    });
+
+    await this.updateMetrics(wager);
+    await this.sendNotifications(wager, 'bet_placed');
+
+    return wager;
+  }
+
+  /**
+   * Turn down a ticket held for approval; it never carried liability
+   */
+  async declineWager(wagerNumber: number, declinedBy: string, reason: string): Promise<Wager> {
+    const wager = this.wagers.get(wagerNumber);
+    if (!wager) {
+      throw new Error('Wager not found');
+    }
+
+    if (wager.status !== 'pending_approval') {
+      throw new Error('Wager is not awaiting approval');
+    }
+
+    wager.status = 'cancelled';
+    wager.validation.approvalNotes = reason;
+    wager.auditTrail.push({
+      timestamp: new Date().toISOString(),
+      action: 'wager_declined',
+      performedBy: declinedBy,
+      details: `Wager declined: ${reason}`,
+      changes: { status: 'cancelled' },
+    });
+
+    await this.sendNotifications(wager, 'bet_declined');
+
+    return wager;
+  }
+
+  private async buildWager(
+    wagerNumber: number,
+    request: WagerRequest,
+    validation: WagerValidation,
+    approvalRequired: boolean
+  ): Promise<Wager> {
     // Calculate once and reuse
     const commissionStructure = await this.calculateCommission(request);
     const riskMetricsData = await this.calculateRiskMetrics(request);
+    const odds = this.calculateCombinedOdds(request);
 
-    // Create wager
-    const wager: Wager = {
-      wagerNumber: this.generateWagerNumber(),
+    return {
+      wagerNumber,
       customerId: request.customerId,
       agentId: request.agentId,
       ticketWriter: request.agentId,
@@ -361,21 +573,26 @@ export class WagerSystem {
       sportId: await this.getSportId(request.eventId),
       leagueId: await this.getLeagueId(request.eventId),
       betTypeId: request.betTypeId,
-      selections: await this.buildSelections(request.selections),
+      selections: await this.buildSelections(request.selections, request.teaser),
       betType: request.betType,
       amountWagered: request.amountWagered,
       toWinAmount: this.calculateToWinAmount(request),
       riskAmount: this.calculateRiskAmount(request),
-      odds: this.calculateCombinedOdds(request),
+      pricing: {
+        teaser: request.teaser,
+        ifBetCondition: request.ifBetCondition,
+        correlation: this.correlationAdjustments(request),
+      },
+      odds,
       lineMovement: {
-        openingOdds: 0,
-        currentOdds: 0,
+        openingOdds: odds.american,
+        currentOdds: odds.american,
         lineChanges: [],
       },
       insertDateTime: new Date().toISOString(),
       eventDate: await this.getEventDate(request.eventId),
       betCloseTime: await this.getBetCloseTime(request.eventId),
-      status: 'pending',
+      status: approvalRequired ? 'pending_approval' : 'pending',
       volumeAmount: request.amountWagered,
       commission: {
         agentCommission: commissionStructure.calculation.baseCommission,
@@ -400,7 +617,7 @@ export class WagerSystem {
         validationRules: validation.recommendations,
         warnings: validation.warnings,
         errors: [],
-        approvalRequired: validation.approvalRequired,
+        approvalRequired,
         approvedBy: undefined,
         approvalNotes: undefined,
       },
@@ -411,7 +628,7 @@ export class WagerSystem {
           timestamp: new Date().toISOString(),
           action: 'wager_created',
           performedBy: request.agentId,
-          details: 'Wager created successfully',
+          details: approvalRequired ? 'Wager held for approval' : 'Wager created successfully',
           changes: {},
         },
       ],
@@ -423,17 +640,6 @@ export class WagerSystem {
         riskAdjustedReturn: 0,
       },
     };
-
-    // Store wager
-    this.wagers.set(wager.wagerNumber, wager);
-
-    // Update customer and agent metrics
-    await this.updateMetrics(wager);
-
-    // Send notifications
-    await this.sendNotifications(wager, 'bet_placed');
-
-    return wager;
   }
 
   // !== VALIDATION METHODS !==
@@ -450,6 +656,12 @@ export class WagerSystem {
 
     if (request.amountWagered <= 0) {
       errors.push('Invalid wager amount');
+    } else if (request.betType !== 'straight') {
+      try {
+        this.quoteTicket(request);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Ticket cannot be priced');
+      }
     }
 
     // Customer validation
@@ -486,6 +698,42 @@ export class WagerSystem {
       }
     }
 
+    // Correlated same-game legs
+    if (errors.length === 0 && request.selections.length > 1) {
+      const correlation = this.checkCorrelation(request);
+      for (const conflict of correlation.conflicts) {
+        if (conflict.action === 'block') {
+          errors.push(conflict.message);
+        } else if (request.betType === 'parlay' || request.betType === 'teaser') {
+          warnings.push(
+            `${conflict.message}; paid at ${Math.round(conflict.payoutFactor! * 100)}% of the uncorrelated price`
+          );
+        } else {
+          errors.push(`${conflict.message}; ${request.betType} tickets cannot be re-priced`);
+        }
+      }
+    }
+
+    // Market liability caps
+    let approvalRequiredByCap = false;
+    if (errors.length === 0) {
+      const legs = await this.liabilityLegsFor(request);
+      const liability = this.liabilityBook.check(
+        legs,
+        this.calculateRiskAmount(request),
+        this.calculateToWinAmount(request)
+      );
+      for (const breach of liability.breaches) {
+        const message = this.describeBreach(breach);
+        if (breach.onBreach === 'reject') {
+          errors.push(message);
+        } else {
+          warnings.push(message);
+        }
+      }
+      approvalRequiredByCap = liability.action === 'manual_approval';
+    }
+
     // Limit checks
     const limitCheck = await this.checkLimits(request);
     if (!limitCheck.withinLimits) {
@@ -497,7 +745,8 @@ export class WagerSystem {
     riskScore += this.assessRisk(request);
 
     // Approval requirements
-    const approvalRequired = riskScore > 75 || request.amountWagered > 10000;
+    const approvalRequired =
+      riskScore > 75 || request.amountWagered > 10000 || approvalRequiredByCap;
 
     return {
       isValid: errors.length === 0,
@@ -512,6 +761,60 @@ export class WagerSystem {
 
   // !== SETTLEMENT METHODS !==
 
+  /**
+   * Re-price a ticket from graded legs. Push and void legs drop out of a
+   * parlay, reduce a teaser to the next table, and end or pass through
+   * if-bet chains depending on the if-bet condition.
+   */
+  async repriceWager(
+    wagerNumber: number,
+    legResults: Record<string, LegResult>,
+    performedBy: string
+  ): Promise<TicketQuote> {
+    const wager = this.wagers.get(wagerNumber);
+    if (!wager) {
+      throw new Error('Wager not found');
+    }
+
+    if (wager.status === 'settled') {
+      throw new Error('Wager already settled');
+    }
+
+    if (wager.status === 'pending_approval') {
+      throw new Error('Wager is awaiting approval');
+    }
+
+    for (const selection of wager.selections) {
+      const result = legResults[selection.id];
+      if (result && result !== 'pending') {
+        selection.result = result;
+      }
+    }
+
+    const quote = this.priceWager(wager);
+
+    const previous = { toWinAmount: wager.toWinAmount, odds: wager.odds.american };
+    wager.toWinAmount = quote.toWin;
+    wager.riskAmount = quote.risk;
+    wager.odds = quote.odds;
+    this.addLiability(wager);
+
+    wager.auditTrail.push({
+      timestamp: new Date().toISOString(),
+      action: 'wager_repriced',
+      performedBy,
+      details: `Ticket re-priced with ${quote.activeLegs} of ${quote.legs} legs in action`,
+      changes: {
+        previous,
+        toWinAmount: quote.toWin,
+        odds: quote.odds.american,
+        status: quote.status,
+      },
+    });
+
+    return quote;
+  }
+
   async settleWager(request: SettlementRequest): Promise<SettlementResult> {
     const wager = this.wagers.get(request.wagerNumber);
     if (!wager) {
@@ -522,8 +825,21 @@ export class WagerSystem {
       throw new Error('Wager already settled');
     }
 
+    if (wager.status === 'pending_approval') {
+      throw new Error('Wager is awaiting approval');
+    }
+
     // Calculate settlement amount
-    const settlementAmount = this.calculateSettlementAmount(wager, request.settlementType);
+    let settlementAmount: number;
+    let result: NonNullable<Wager['result']>;
+    if (request.legResults) {
+      ({ settlementAmount, result } = this.gradeFromLegs(wager, request.legResults));
+    } else if (request.settlementType) {
+      settlementAmount = this.calculateSettlementAmount(wager, request.settlementType);
+      result = request.settlementType;
+    } else {
+      throw new Error('Settlement requires a settlement type or leg results');
+    }
 
     // Get customer balance
     const customer = await this.getCustomer(wager.customerId);
@@ -536,41 +852,39 @@ export class WagerSystem {
 
     // Update wager
     wager.status = 'settled';
-    wager.result = request.settlementType;
+    wager.result = result;
     wager.settlementAmount = settlementAmount;
     wager.settlementDate = new Date().toISOString();
     wager.settledBy = request.settledBy;
     wager.settlementNotes = request.settlementNotes;
+    wager.settlementMethod = request.legResults ? 'automatic' : 'manual';
 
     // Update customer balance
     customer.balance = balanceAfter;
     customer.lastActivity = new Date().toISOString();
 
-    // Calculate commission and payout
-    const commission = this.calculateFinalCommission(wager);
-    const payout = settlementAmount - commission;
+    // Settled tickets no longer carry liability
+    this.liabilityBook.remove(wager.wagerNumber);
 
-    // Update wager financials
-    wager.payout = {
-      grossAmount: settlementAmount,
-      netAmount: payout,
-      taxAmount: 0, // Tax calculation would go here
-      fees: commission,
-    };
+    // Calculate commission and payout
+    const { commission, payout } = this.applyPayout(wager, settlementAmount);
 
     // Add to audit trail
     wager.auditTrail.push({
       timestamp: new Date().toISOString(),
       action: 'wager_settled',
       performedBy: request.settledBy,
-      details: `Wager settled as ${request.settlementType}`,
+      details: `Wager settled as ${result}`,
       changes: {
         status: 'settled',
-        result: request.settlementType,
+        result,
         settlementAmount,
+        legs: this.describeLegs(wager),
       },
     });
 
+    this.emitSettlement('settled', wager, 0);
+
     // Send notifications
     await this.sendNotifications(wager, 'settlement');
 
@@ -589,6 +903,232 @@ export class WagerSystem {
     };
   }
 
+  /**
+   * Re-grade legs of a settled wager and post only the difference to the
+   * customer's balance
+   */
+  async regradeWager(request: RegradeRequest): Promise<SettlementResult> {
+    const wager = this.wagers.get(request.wagerNumber);
+    if (!wager) {
+      throw new Error('Wager not found');
+    }
+
+    if (wager.status !== 'settled') {
+      throw new Error('Only settled wagers can be regraded');
+    }
+
+    const customer = await this.getCustomer(wager.customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const previous = {
+      result: wager.result,
+      settlementAmount: wager.settlementAmount ?? 0,
+      legs: this.describeLegs(wager),
+    };
+    const { settlementAmount, result } = this.gradeFromLegs(wager, request.legResults);
+
+    const balanceBefore = customer.balance;
+    const balanceAfter = balanceBefore + settlementAmount - previous.settlementAmount;
+    customer.balance = balanceAfter;
+    customer.lastActivity = new Date().toISOString();
+
+    wager.result = result;
+    wager.settlementAmount = settlementAmount;
+    wager.settlementDate = new Date().toISOString();
+    wager.settledBy = request.regradedBy;
+    wager.settlementMethod = 'manual';
+    const { commission, payout } = this.applyPayout(wager, settlementAmount);
+
+    wager.auditTrail.push({
+      timestamp: new Date().toISOString(),
+      action: 'wager_regraded',
+      performedBy: request.regradedBy,
+      details: `Wager regraded from ${previous.result} to ${result}: ${request.reason}`,
+      changes: {
+        previous,
+        result,
+        settlementAmount,
+        balanceAdjustment: balanceAfter - balanceBefore,
+        legs: this.describeLegs(wager),
+      },
+    });
+
+    this.emitSettlement('regraded', wager, previous.settlementAmount);
+    await this.sendNotifications(wager, 'settlement');
+
+    return {
+      wagerNumber: wager.wagerNumber,
+      success: true,
+      settlementAmount,
+      balanceBefore,
+      balanceAfter,
+      commission,
+      payout,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Reverse a settlement: the settled amount comes back off the balance and
+   * the wager and its legs return to pending
+   */
+  async unsettleWager(wagerNumber: number, performedBy: string, reason: string): Promise<Wager> {
+    const wager = this.wagers.get(wagerNumber);
+    if (!wager) {
+      throw new Error('Wager not found');
+    }
+
+    if (wager.status !== 'settled') {
+      throw new Error('Wager is not settled');
+    }
+
+    const customer = await this.getCustomer(wager.customerId);
+    if (!customer) {
+      throw new Error('Customer not found');
+    }
+
+    const previous = {
+      result: wager.result,
+      settlementAmount: wager.settlementAmount ?? 0,
+      settledBy: wager.settledBy,
+      legs: this.describeLegs(wager),
+    };
+
+    customer.balance -= previous.settlementAmount;
+    customer.lastActivity = new Date().toISOString();
+
+    for (const selection of wager.selections) {
+      selection.result = undefined;
+      selection.deadHeat = undefined;
+    }
+
+    wager.status = 'pending';
+    wager.result = undefined;
+    wager.settlementAmount = undefined;
+    wager.settlementDate = undefined;
+    wager.settledBy = undefined;
+    wager.settlementMethod = undefined;
+    wager.payout = { grossAmount: 0, netAmount: 0, taxAmount: 0, fees: 0 };
+
+    // Ungraded legs price back to the original ticket
+    const quote = this.priceWager(wager);
+    wager.toWinAmount = quote.toWin;
+    wager.riskAmount = quote.risk;
+    wager.odds = quote.odds;
+    this.addLiability(wager);
+
+    wager.auditTrail.push({
+      timestamp: new Date().toISOString(),
+      action: 'wager_unsettled',
+      performedBy,
+      details: `Settlement reversed: ${reason}`,
+      changes: {
+        previous,
+        status: 'pending',
+        balanceAdjustment: -previous.settlementAmount,
+      },
+    });
+
+    this.emitSettlement('unsettled', wager, previous.settlementAmount);
+    return wager;
+  }
+
+  /**
+   * Follow settlements, regrades and reversals, e.g. to claw back agent
+   * commission. Returns an unsubscribe function.
+   */
+  onSettlement(listener: WagerSettlementListener): () => void {
+    this.settlementListeners.add(listener);
+    return () => {
+      this.settlementListeners.delete(listener);
+    };
+  }
+
+  private emitSettlement(
+    type: WagerSettlementEvent['type'],
+    wager: Wager,
+    previousSettlementAmount: number
+  ): void {
+    const event: WagerSettlementEvent = {
+      type,
+      wagerNumber: wager.wagerNumber,
+      agentId: wager.agentId,
+      customerId: wager.customerId,
+      amountWagered: wager.amountWagered,
+      result: wager.result,
+      settlementAmount: wager.settlementAmount ?? 0,
+      previousSettlementAmount,
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const listener of this.settlementListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Settlement listener failed:', error);
+      }
+    }
+  }
+
+  // !== ODDS FEED !==
+
+  /**
+   * Follow a line movement engine: selections take its prices and market
+   * suspensions, open wagers record each move, and wagers get their
+   * closing-line value when an event closes. Returns an unsubscribe function.
+   */
+  connectOddsEngine(engine: LineMovementEngine): () => void {
+    return engine.subscribe(event => {
+      switch (event.type) {
+        case 'line_change':
+          this.applyLineChange(event.change);
+          break;
+        case 'market_suspended':
+          this.setMarketStatus(event.suspension.eventId, event.suspension.marketId, 'suspended');
+          break;
+        case 'market_resumed':
+          this.setMarketStatus(event.eventId, event.marketId, 'active');
+          break;
+        case 'event_closed':
+          this.recordClosingLines(event.closingLines, event.timestamp);
+          break;
+      }
+    });
+  }
+
+  async getCustomerClv(customerId: string): Promise<CustomerClv> {
+    const graded = (await this.getWagersByCustomer(customerId)).filter(
+      wager => wager.closingLineValue
+    );
+    const total = graded.reduce((sum, wager) => sum + wager.closingLineValue!.clv, 0);
+    const beatClose = graded.filter(wager => wager.closingLineValue!.clv > 0).length;
+
+    return {
+      customerId,
+      wagers: graded.length,
+      averageClv: graded.length > 0 ? Math.round((total / graded.length) * 10000) / 10000 : 0,
+      beatCloseRate: graded.length > 0 ? Math.round((beatClose / graded.length) * 10000) / 10000 : 0,
+    };
+  }
+
+  /**
+   * Customers who consistently beat the closing line, best first
+   */
+  async findSharpCustomers(
+    options: { minWagers?: number; minAverageClv?: number } = {}
+  ): Promise<CustomerClv[]> {
+    const minWagers = options.minWagers ?? 20;
+    const minAverageClv = options.minAverageClv ?? 0.02;
+    const customerIds = new Set(Array.from(this.wagers.values(), wager => wager.customerId));
+
+    const results = await Promise.all(Array.from(customerIds, id => this.getCustomerClv(id)));
+    return results
+      .filter(result => result.wagers >= minWagers && result.averageClv >= minAverageClv)
+      .sort((a, b) => b.averageClv - a.averageClv);
+  }
+
   // !== RISK MANAGEMENT !==
 
   async calculateRiskMetrics(request: WagerRequest): Promise<RiskMetrics> {
@@ -600,8 +1140,8 @@ export class WagerSystem {
     if (request.betType === 'straight') {
       totalExposure = request.amountWagered;
       maxLiability = request.amountWagered;
-    } else if (request.betType === 'parlay') {
-      totalExposure = request.amountWagered;
+    } else {
+      totalExposure = this.calculateRiskAmount(request);
       maxLiability = this.calculateParlayLiability(request);
     }
 
@@ -654,7 +1194,7 @@ export class WagerSystem {
 
     const baseCommission = request.amountWagered * agent.commission.baseRate;
     const volumeBonus = this.calculateVolumeBonus(agent, request.amountWagered);
-    const performanceBonus = this.calculatePerformanceBonus(agent);
+    const performanceBonus = this.calculatePerformanceBonus(agent, baseCommission);
     const riskAdjustment = this.calculateRiskAdjustment(request);
 
     const totalCommission = baseCommission + volumeBonus + performanceBonus + riskAdjustment;
@@ -679,7 +1219,8 @@ export class WagerSystem {
   // !== UTILITY METHODS !==
 
   private async buildSelections(
-    selectionRequests: Array<{ selectionId: string; odds: number; line?: number }>
+    selectionRequests: Array<{ selectionId: string; odds: number; line?: number }>,
+    teaser?: TeaserOptions
   ): Promise<Selection[]> {
     const selections: Selection[] = [];
 
@@ -694,7 +1235,11 @@ export class WagerSystem {
             decimal: this.americanToDecimal(request.odds),
             fractional: this.americanToFractional(request.odds),
           },
-          line: request.line,
+          // Teaser legs are graded against the teased line
+          line:
+            teaser && request.line !== undefined
+              ? teaseLine(request.line, teaser.points, selection.side)
+              : request.line,
         };
         selections.push(wagerSelection);
       }
@@ -737,11 +1282,15 @@ export class WagerSystem {
         return request.amountWagered * (odds / 100);
       }
     }
-    return request.amountWagered * 0.9; // Fallback for simplified calculation
+    return this.quoteTicket(request).toWin;
   }
 
   private calculateRiskAmount(request: WagerRequest): number {
-    return request.amountWagered;
+    if (request.betType === 'straight') {
+      return request.amountWagered;
+    }
+    // Reverses risk the stake once per if-bet chain
+    return this.quoteTicket(request).risk;
   }
 
   private calculateCombinedOdds(request: WagerRequest): {
@@ -749,8 +1298,24 @@ export class WagerSystem {
     decimal: number;
     fractional: string;
   } {
-    // Implementation would calculate combined odds for parlays
-    return { american: 100, decimal: 2.0, fractional: '1/1' };
+    return this.quoteTicket(request).odds;
+  }
+
+  private quoteTicket(request: WagerRequest): TicketQuote {
+    return priceTicket(
+      request.betType,
+      request.selections.map(selection => ({
+        selectionId: selection.selectionId,
+        odds: selection.odds,
+        line: selection.line,
+      })),
+      request.amountWagered,
+      {
+        teaser: request.teaser,
+        ifBetCondition: request.ifBetCondition,
+        correlation: this.correlationAdjustments(request),
+      }
+    );
   }
 
   private calculateSettlementAmount(wager: Wager, settlementType: string): number {
@@ -758,25 +1323,204 @@ export class WagerSystem {
       case 'win':
         return wager.toWinAmount;
       case 'loss':
-        return -wager.amountWagered;
+        return -wager.riskAmount;
       case 'push':
         return 0;
       case 'void':
         return 0;
       case 'partial':
-        return wager.toWinAmount * 0.5; // Simplified partial settlement
+        // Half-wins and dead heats depend on which legs were affected
+        throw new Error('Partial settlement requires leg results');
       default:
         return 0;
     }
   }
 
+  private priceWager(wager: Wager): TicketQuote {
+    return priceTicket(
+      wager.betType,
+      wager.selections.map(selection => ({
+        selectionId: selection.id,
+        odds: selection.odds.american,
+        line: selection.line,
+        side: selection.side,
+        result: selection.result,
+        deadHeat: selection.deadHeat,
+      })),
+      wager.amountWagered,
+      wager.pricing
+    );
+  }
+
+  /**
+   * Apply leg grades to the wager's selections and derive the ticket result
+   * and settlement amount from every leg
+   */
+  private gradeFromLegs(
+    wager: Wager,
+    legResults: LegGrade[]
+  ): { settlementAmount: number; result: NonNullable<Wager['result']> } {
+    for (const grade of legResults) {
+      if (!wager.selections.some(selection => selection.id === grade.selectionId)) {
+        throw new Error(`Selection ${grade.selectionId} is not on wager ${wager.wagerNumber}`);
+      }
+    }
+
+    const graded = wager.selections.map(selection => {
+      const grade = legResults.find(g => g.selectionId === selection.id);
+      return grade ? { ...selection, result: grade.result, deadHeat: grade.deadHeat } : selection;
+    });
+    const quote = this.priceWager({ ...wager, selections: graded });
+    if (quote.status === 'open') {
+      throw new Error('Every leg must be graded before the wager can settle');
+    }
+
+    // Only commit the grades once the ticket prices cleanly
+    wager.selections = graded;
+
+    const reduced = graded.some(
+      s => s.result === 'half_win' || s.result === 'half_loss' || s.deadHeat
+    );
+    let result: NonNullable<Wager['result']>;
+    if (quote.status === 'push') {
+      result = graded.every(s => s.result === 'void') ? 'void' : 'push';
+    } else {
+      result = reduced ? 'partial' : quote.status;
+    }
+
+    return { settlementAmount: quote.net, result };
+  }
+
+  private addLiability(wager: Wager): void {
+    this.liabilityBook.add(
+      wager.wagerNumber,
+      wager.selections.map(selection => this.toLiabilityLeg(selection)),
+      wager.riskAmount,
+      wager.toWinAmount
+    );
+  }
+
+  private async liabilityLegsFor(request: WagerRequest): Promise<LiabilityLeg[]> {
+    const legs: LiabilityLeg[] = [];
+    for (const { selectionId } of request.selections) {
+      const selection = await this.getSelection(selectionId);
+      if (selection) {
+        legs.push(this.toLiabilityLeg(selection));
+      }
+    }
+    return legs;
+  }
+
+  private describeBreach(breach: LiabilityBreach): string {
+    return `Liability on ${breach.outcomeId} (${breach.marketId}) would reach ${breach.projectedLiability} against a cap of ${breach.maxLiability}`;
+  }
+
+  // Markets are the selection's bet type within its event
+  private toLiabilityLeg(selection: Selection): LiabilityLeg {
+    return {
+      eventId: selection.eventId,
+      marketId: selection.betTypeId,
+      outcomeId: selection.id,
+    };
+  }
+
+  private applyLineChange(change: LineChange): void {
+    const selection = this.selections.get(change.selectionId);
+    if (selection?.eventId === change.eventId) {
+      selection.odds = { ...change.current.odds };
+      if (change.current.line !== undefined) {
+        selection.line = change.current.line;
+      }
+    }
+    if (change.reason === 'opening') return;
+
+    const note = change.note ? `: ${change.note}` : '';
+    for (const wager of this.wagers.values()) {
+      if (wager.status !== 'pending' && wager.status !== 'active') continue;
+      if (!wager.selections.some(leg => leg.id === change.selectionId)) continue;
+
+      // Multi-leg tickets keep their combined odds; the change is logged per leg
+      if (wager.selections.length === 1) {
+        wager.lineMovement.currentOdds = change.current.odds.american;
+      }
+      wager.lineMovement.lineChanges.push({
+        timestamp: change.timestamp,
+        odds: change.current.odds.american,
+        reason: `${change.selectionId} ${change.reason} (${change.source}${note})`,
+      });
+    }
+  }
+
+  private setMarketStatus(eventId: string, marketId: string, status: 'active' | 'suspended'): void {
+    for (const selection of this.selections.values()) {
+      if (
+        selection.eventId === eventId &&
+        selection.betTypeId === marketId &&
+        selection.status !== 'settled'
+      ) {
+        selection.status = status;
+      }
+    }
+  }
+
+  private recordClosingLines(closingLines: ClosingLineSnapshot[], computedAt: string): void {
+    const closing = new Map(closingLines.map(line => [line.selectionId, line.closing.odds]));
+
+    for (const wager of this.wagers.values()) {
+      if (wager.status === 'cancelled' || wager.status === 'void') continue;
+
+      const closed = wager.selections
+        .filter(leg => closing.has(leg.id))
+        .map(leg => ({
+          selectionId: leg.id,
+          takenOdds: leg.odds.american,
+          closingOdds: closing.get(leg.id)!.american,
+          clv: closingLineValue(leg.odds, closing.get(leg.id)!),
+        }));
+      if (closed.length === 0) continue;
+
+      // Legs on other events keep the values computed when those closed
+      const legs = [
+        ...(wager.closingLineValue?.legs ?? []).filter(
+          leg => !closed.some(update => update.selectionId === leg.selectionId)
+        ),
+        ...closed,
+      ];
+      const clv = legs.reduce((sum, leg) => sum + leg.clv, 0) / legs.length;
+      wager.closingLineValue = { legs, clv: Math.round(clv * 10000) / 10000, computedAt };
+    }
+  }
+
+  private applyPayout(wager: Wager, settlementAmount: number): { commission: number; payout: number } {
+    const commission = this.calculateFinalCommission(wager);
+    const payout = settlementAmount - commission;
+
+    // Update wager financials
+    wager.payout = {
+      grossAmount: settlementAmount,
+      netAmount: payout,
+      taxAmount: 0, // Tax calculation would go here
+      fees: commission,
+    };
+
+    return { commission, payout };
+  }
+
+  private describeLegs(wager: Wager): Array<{ selectionId: string; result?: string; deadHeat?: DeadHeat }> {
+    return wager.selections.map(selection => ({
+      selectionId: selection.id,
+      result: selection.result,
+      deadHeat: selection.deadHeat,
+    }));
+  }
+
   private calculateFinalCommission(wager: Wager): number {
     return wager.commission.totalCommission;
   }
 
   private calculateParlayLiability(request: WagerRequest): number {
-    // Implementation would calculate parlay liability
-    return request.amountWagered * 2; // Simplified
+    // The book's liability is the most the ticket can pay out
+    return this.quoteTicket(request).toWin;
   }
 
   private calculateConcentrationRisk(request: WagerRequest): number {
@@ -785,18 +1529,64 @@ export class WagerSystem {
   }
 
   private calculateCorrelationRisk(request: WagerRequest): number {
-    // Implementation would calculate correlation risk
-    return 0.05; // Simplified
+    return this.checkCorrelation(request).riskScore;
+  }
+
+  private checkCorrelation(request: WagerRequest): CorrelationCheck {
+    const legs: CorrelationLeg[] = [];
+
+    for (const requested of request.selections) {
+      const selection = this.selections.get(requested.selectionId);
+      const event = selection && this.events.get(selection.eventId);
+      if (!selection || !event) continue;
+
+      legs.push({
+        selectionId: selection.id,
+        description: selection.description,
+        eventId: event.id,
+        sportId: event.sportId,
+        leagueId: event.leagueId,
+        market: selection.market ?? inferMarketKind(selection.betTypeId),
+        teamId:
+          selection.teamId ??
+          (selection.side === 'home'
+            ? event.homeTeamId
+            : selection.side === 'away'
+              ? event.awayTeamId
+              : undefined),
+        side: selection.side,
+        line: requested.line ?? selection.line,
+        odds: requested.odds,
+      });
+    }
+
+    return this.correlationEngine.check(legs);
   }
 
+  private correlationAdjustments(request: WagerRequest): CorrelationAdjustment[] {
+    if (request.betType !== 'parlay' && request.betType !== 'teaser') return [];
+
+    const { conflicts } = this.checkCorrelation(request);
+    return conflicts
+      .filter(conflict => conflict.action === 'reprice')
+      .map(conflict => ({
+        selectionIds: [...conflict.selectionIds],
+        payoutFactor: conflict.payoutFactor!,
+      }));
+  }
+
+  /**
+   * The agent's configured bonus rate on the wager's handle
+   */
   private calculateVolumeBonus(agent: Agent, amount: number): number {
-    // Implementation would calculate volume bonus
-    return amount * 0.01; // Simplified
+    return amount * agent.commission.bonusRate;
   }
 
-  private calculatePerformanceBonus(agent: Agent): number {
-    // Implementation would calculate performance bonus
-    return 0; // Simplified
+  /**
+   * Extra base commission for agents rated above 1; never negative
+   */
+  private calculatePerformanceBonus(agent: Agent, baseCommission: number): number {
+    return baseCommission * Math.max(0, agent.commission.performanceMultiplier - 1);
   }
 
   private calculateRiskAdjustment(request: WagerRequest): number {
@@ -973,6 +1763,10 @@ export class WagerSystem {
     return Array.from(this.wagers.values()).filter(w => w.status === 'pending');
   }
 
+  async getWagersAwaitingApproval(): Promise<Wager[]> {
+    return Array.from(this.wagers.values()).filter(w => w.status === 'pending_approval');
+  }
+
   async getActiveWagers(): Promise<Wager[]> {
     return Array.from(this.wagers.values()).filter(w => w.status === 'active');
   }
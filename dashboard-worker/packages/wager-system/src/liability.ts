@@ -0,0 +1,371 @@
+// Fire22 Wager System - Liability book
+//
+// Tracks the house's position on every event / market / outcome: if that
+// outcome wins, the house keeps the stakes on the other outcomes of the
+// market and pays out the tickets backing it.
+//
+// Multi-leg tickets count their full risk and potential payout against every
+// leg's outcome, since the ticket is still alive whenever one leg wins.
+
+export type LiabilityCapAction = 'reject' | 'manual_approval';
+
+export interface LiabilityCap {
+  maxLiability: number;
+  onBreach: LiabilityCapAction;
+}
+
+export interface LiabilityLeg {
+  eventId: string;
+  marketId: string;
+  outcomeId: string;
+}
+
+export interface OutcomePosition {
+  outcomeId: string;
+  stake: number;
+  payout: number;
+  tickets: number;
+  /** House result if this outcome wins: positive is profit */
+  net: number;
+  liability: number;
+}
+
+export interface MarketPosition {
+  eventId: string;
+  marketId: string;
+  totalStake: number;
+  outcomes: OutcomePosition[];
+  /** Largest liability across the market's outcomes */
+  worstCase: number;
+  cap?: LiabilityCap;
+  /** worstCase / cap.maxLiability */
+  utilization?: number;
+}
+
+export interface EventPosition {
+  eventId: string;
+  markets: MarketPosition[];
+  worstCase: number;
+}
+
+export interface LiabilityBreach extends LiabilityLeg {
+  projectedLiability: number;
+  maxLiability: number;
+  onBreach: LiabilityCapAction;
+}
+
+export interface LiabilityCheck {
+  action: 'accept' | LiabilityCapAction;
+  breaches: LiabilityBreach[];
+}
+
+export interface LiabilityUpdate {
+  type: 'wager_added' | 'wager_removed' | 'cap_changed';
+  wagerNumber?: number;
+  markets: MarketPosition[];
+  timestamp: string;
+}
+
+export type LiabilityListener = (update: LiabilityUpdate) => void;
+
+export interface LiabilityBookOptions {
+  /** Applies to markets without a market or event cap */
+  defaultCap?: LiabilityCap;
+}
+
+interface OutcomeEntry {
+  stake: number;
+  payout: number;
+  tickets: number;
+}
+
+interface MarketEntry {
+  eventId: string;
+  marketId: string;
+  totalStake: number;
+  outcomes: Map<string, OutcomeEntry>;
+}
+
+interface Contribution extends LiabilityLeg {
+  stake: number;
+  payout: number;
+}
+
+export class LiabilityBook {
+  private markets = new Map<string, MarketEntry>();
+  private contributions = new Map<number, Contribution[]>();
+  private caps = new Map<string, LiabilityCap>();
+  private listeners = new Set<LiabilityListener>();
+  private defaultCap?: LiabilityCap;
+
+  constructor(options: LiabilityBookOptions = {}) {
+    this.defaultCap = options.defaultCap;
+  }
+
+  // !== POSITIONS !==
+
+  /**
+   * Add an accepted ticket. Re-adding the same wager number replaces its
+   * earlier contribution, so a re-priced ticket can simply be added again.
+   */
+  add(wagerNumber: number, legs: LiabilityLeg[], stake: number, payout: number): void {
+    this.withdraw(wagerNumber);
+
+    const contributions = uniqueLegs(legs).map(leg => ({ ...leg, stake, payout }));
+    for (const contribution of contributions) {
+      this.apply(contribution, 1);
+    }
+    this.contributions.set(wagerNumber, contributions);
+
+    this.emit('wager_added', contributions, wagerNumber);
+  }
+
+  /**
+   * Remove a ticket, e.g. once it is settled
+   */
+  remove(wagerNumber: number): void {
+    const removed = this.withdraw(wagerNumber);
+    if (removed.length > 0) {
+      this.emit('wager_removed', removed, wagerNumber);
+    }
+  }
+
+  has(wagerNumber: number): boolean {
+    return this.contributions.has(wagerNumber);
+  }
+
+  getMarket(eventId: string, marketId: string): MarketPosition | undefined {
+    const market = this.markets.get(marketKey(eventId, marketId));
+    return market ? this.toPosition(market) : undefined;
+  }
+
+  getEvents(eventId?: string): EventPosition[] {
+    const events = new Map<string, MarketPosition[]>();
+
+    for (const market of this.markets.values()) {
+      if (eventId && market.eventId !== eventId) continue;
+      const positions = events.get(market.eventId) ?? [];
+      positions.push(this.toPosition(market));
+      events.set(market.eventId, positions);
+    }
+
+    return Array.from(events, ([id, markets]) => ({
+      eventId: id,
+      markets,
+      worstCase: round(markets.reduce((sum, market) => sum + market.worstCase, 0)),
+    })).sort((a, b) => b.worstCase - a.worstCase);
+  }
+
+  // !== CAPS !==
+
+  setMarketCap(eventId: string, marketId: string, cap: LiabilityCap | null): void {
+    this.setCap(marketKey(eventId, marketId), cap);
+    const market = this.markets.get(marketKey(eventId, marketId));
+    this.emitMarkets('cap_changed', market ? [market] : []);
+  }
+
+  /**
+   * Cap every market of an event that has no cap of its own
+   */
+  setEventCap(eventId: string, cap: LiabilityCap | null): void {
+    this.setCap(marketKey(eventId, '*'), cap);
+    this.emitMarkets(
+      'cap_changed',
+      Array.from(this.markets.values()).filter(market => market.eventId === eventId)
+    );
+  }
+
+  getCap(eventId: string, marketId: string): LiabilityCap | undefined {
+    return (
+      this.caps.get(marketKey(eventId, marketId)) ??
+      this.caps.get(marketKey(eventId, '*')) ??
+      this.defaultCap
+    );
+  }
+
+  /**
+   * Liability each backed outcome would carry if the ticket were accepted,
+   * checked against its market cap
+   */
+  check(legs: LiabilityLeg[], stake: number, payout: number): LiabilityCheck {
+    const breaches: LiabilityBreach[] = [];
+
+    for (const leg of uniqueLegs(legs)) {
+      const cap = this.getCap(leg.eventId, leg.marketId);
+      if (!cap) continue;
+
+      // The ticket's stake lands on the backed outcome too, so only its
+      // payout changes that outcome's net
+      const market = this.markets.get(marketKey(leg.eventId, leg.marketId));
+      const current = market ? outcomeNet(market, leg.outcomeId) : 0;
+      const projectedLiability = round(Math.max(0, -(current - payout)));
+
+      if (projectedLiability > cap.maxLiability) {
+        breaches.push({
+          ...leg,
+          projectedLiability,
+          maxLiability: cap.maxLiability,
+          onBreach: cap.onBreach,
+        });
+      }
+    }
+
+    let action: LiabilityCheck['action'] = 'accept';
+    if (breaches.some(breach => breach.onBreach === 'reject')) {
+      action = 'reject';
+    } else if (breaches.length > 0) {
+      action = 'manual_approval';
+    }
+
+    return { action, breaches };
+  }
+
+  // !== STREAMING !==
+
+  subscribe(listener: LiabilityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // !== HELPERS !==
+
+  private withdraw(wagerNumber: number): Contribution[] {
+    const contributions = this.contributions.get(wagerNumber) ?? [];
+    for (const contribution of contributions) {
+      this.apply(contribution, -1);
+    }
+    this.contributions.delete(wagerNumber);
+    return contributions;
+  }
+
+  private apply(contribution: Contribution, direction: 1 | -1): void {
+    const key = marketKey(contribution.eventId, contribution.marketId);
+    let market = this.markets.get(key);
+    if (!market) {
+      market = {
+        eventId: contribution.eventId,
+        marketId: contribution.marketId,
+        totalStake: 0,
+        outcomes: new Map(),
+      };
+      this.markets.set(key, market);
+    }
+
+    const outcome = market.outcomes.get(contribution.outcomeId) ?? { stake: 0, payout: 0, tickets: 0 };
+    outcome.stake = round(outcome.stake + direction * contribution.stake);
+    outcome.payout = round(outcome.payout + direction * contribution.payout);
+    outcome.tickets += direction;
+    market.totalStake = round(market.totalStake + direction * contribution.stake);
+
+    if (outcome.tickets > 0) {
+      market.outcomes.set(contribution.outcomeId, outcome);
+    } else {
+      market.outcomes.delete(contribution.outcomeId);
+    }
+    if (market.outcomes.size === 0) {
+      this.markets.delete(key);
+    }
+  }
+
+  private setCap(key: string, cap: LiabilityCap | null): void {
+    if (cap === null) {
+      this.caps.delete(key);
+      return;
+    }
+    if (!(cap.maxLiability >= 0)) {
+      throw new Error('Liability cap must be zero or more');
+    }
+    this.caps.set(key, cap);
+  }
+
+  private toPosition(market: MarketEntry): MarketPosition {
+    const outcomes = Array.from(market.outcomes, ([outcomeId, outcome]) => {
+      const net = outcomeNet(market, outcomeId);
+      return {
+        outcomeId,
+        stake: outcome.stake,
+        payout: outcome.payout,
+        tickets: outcome.tickets,
+        net,
+        liability: Math.max(0, -net),
+      };
+    });
+
+    const worstCase = outcomes.reduce((max, outcome) => Math.max(max, outcome.liability), 0);
+    const cap = this.getCap(market.eventId, market.marketId);
+
+    return {
+      eventId: market.eventId,
+      marketId: market.marketId,
+      totalStake: market.totalStake,
+      outcomes,
+      worstCase,
+      cap,
+      utilization: cap && cap.maxLiability > 0 ? round(worstCase / cap.maxLiability, 4) : undefined,
+    };
+  }
+
+  private emit(type: LiabilityUpdate['type'], legs: LiabilityLeg[], wagerNumber?: number): void {
+    const keys = new Set(legs.map(leg => marketKey(leg.eventId, leg.marketId)));
+    const markets = Array.from(keys, key => {
+      const [eventId, marketId] = splitKey(key);
+      // A market whose last ticket was removed reports an empty position
+      return (
+        this.markets.get(key) ?? { eventId, marketId, totalStake: 0, outcomes: new Map() }
+      );
+    });
+    this.emitMarkets(type, markets, wagerNumber);
+  }
+
+  private emitMarkets(type: LiabilityUpdate['type'], markets: MarketEntry[], wagerNumber?: number): void {
+    if (this.listeners.size === 0) return;
+
+    const update: LiabilityUpdate = {
+      type,
+      wagerNumber,
+      markets: markets.map(market => this.toPosition(market)),
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const listener of this.listeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        console.error('Liability listener failed:', error);
+      }
+    }
+  }
+}
+
+function outcomeNet(market: MarketEntry, outcomeId: string): number {
+  const outcome = market.outcomes.get(outcomeId);
+  const stake = outcome?.stake ?? 0;
+  const payout = outcome?.payout ?? 0;
+  return round(market.totalStake - stake - payout);
+}
+
+function uniqueLegs(legs: LiabilityLeg[]): LiabilityLeg[] {
+  const seen = new Set<string>();
+  return legs.filter(leg => {
+    const key = `${marketKey(leg.eventId, leg.marketId)}\u0000${leg.outcomeId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function marketKey(eventId: string, marketId: string): string {
+  return `${eventId}\u0000${marketId}`;
+}
+
+function splitKey(key: string): [string, string] {
+  const [eventId, marketId] = key.split('\u0000');
+  return [eventId, marketId];
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
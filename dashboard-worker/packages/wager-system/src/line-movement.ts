@@ -0,0 +1,388 @@
+// Fire22 Wager System - Line movement engine
+//
+// Keeps the current price of every event / market / selection, records each
+// change with its source and reason, suspends markets on large moves or
+// stale feeds, and snapshots closing lines when an event starts so
+// closing-line value (CLV) can be computed per wager.
+
+import { normalizeOdds, impliedProbability, type OddsFeedUpdate } from './odds-feed';
+import type { QuotedOdds } from './pricing';
+
+export type LineChangeReason = 'opening' | 'price_move' | 'line_move' | 'manual';
+
+export type SuspensionReason = 'large_move' | 'stale_feed' | 'manual';
+
+export interface LinePrice {
+  odds: QuotedOdds;
+  line?: number;
+}
+
+export interface LineChange {
+  eventId: string;
+  marketId: string;
+  selectionId: string;
+  previous?: LinePrice;
+  current: LinePrice;
+  source: string;
+  reason: LineChangeReason;
+  note?: string;
+  /** Change in implied probability, e.g. 0.05 for five points */
+  probabilityMove: number;
+  timestamp: string;
+}
+
+export interface MarketSuspension {
+  eventId: string;
+  marketId: string;
+  reason: SuspensionReason;
+  details: string;
+  suspendedAt: string;
+}
+
+export interface ClosingLineSnapshot {
+  eventId: string;
+  marketId: string;
+  selectionId: string;
+  opening: LinePrice;
+  closing: LinePrice;
+  changes: number;
+  source: string;
+  closedAt: string;
+}
+
+export type LineMovementEvent =
+  | { type: 'line_change'; change: LineChange }
+  | { type: 'market_suspended'; suspension: MarketSuspension }
+  | { type: 'market_resumed'; eventId: string; marketId: string; resumedBy: string; timestamp: string }
+  | { type: 'event_closed'; eventId: string; closingLines: ClosingLineSnapshot[]; timestamp: string };
+
+export type LineMovementListener = (event: LineMovementEvent) => void;
+
+export interface LineMovementOptions {
+  /** Implied probability move that suspends a market, default 0.08 */
+  maxProbabilityMove?: number;
+  /** Markets without an update for this long are suspended, default 60s */
+  staleAfterMs?: number;
+  /** Changes kept per selection, default 500 */
+  maxHistory?: number;
+  now?: () => Date;
+}
+
+interface SelectionState {
+  eventId: string;
+  marketId: string;
+  selectionId: string;
+  opening: LinePrice;
+  current: LinePrice;
+  source: string;
+  updatedAt: number;
+  history: LineChange[];
+  changes: number;
+}
+
+export class LineMovementEngine {
+  private selections = new Map<string, SelectionState>();
+  private suspensions = new Map<string, MarketSuspension>();
+  private eventStarts = new Map<string, number>();
+  private closedEvents = new Set<string>();
+  private listeners = new Set<LineMovementListener>();
+  private readonly options: Required<Omit<LineMovementOptions, 'now'>>;
+  private readonly now: () => Date;
+
+  constructor(options: LineMovementOptions = {}) {
+    this.options = {
+      maxProbabilityMove: options.maxProbabilityMove ?? 0.08,
+      staleAfterMs: options.staleAfterMs ?? 60_000,
+      maxHistory: options.maxHistory ?? 500,
+    };
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // !== INGESTION !==
+
+  /**
+   * Apply a feed update. Returns the recorded change, or null when the
+   * price is unchanged or the event has already closed.
+   */
+  ingest(update: OddsFeedUpdate): LineChange | null {
+    if (update.eventStartTime) {
+      this.scheduleClose(update.eventId, update.eventStartTime);
+    }
+    if (this.closedEvents.has(update.eventId)) return null;
+
+    const price: LinePrice = {
+      odds: normalizeOdds(update.price, update.format),
+      line: update.line,
+    };
+    const source = update.source ?? 'feed';
+    const timestamp = update.timestamp ?? this.now().toISOString();
+    const state = this.selections.get(selectionKey(update));
+
+    // A fresh update ends a stale-feed suspension
+    const suspension = this.suspensions.get(marketKey(update.eventId, update.marketId));
+    if (suspension?.reason === 'stale_feed') {
+      this.resume(update.eventId, update.marketId, source);
+    }
+
+    if (state && samePrice(state.current, price)) {
+      state.updatedAt = Date.parse(timestamp);
+      state.source = source;
+      return null;
+    }
+
+    const reason: LineChangeReason = !state
+      ? 'opening'
+      : state.current.line !== price.line
+        ? 'line_move'
+        : 'price_move';
+    const change = this.record(update, price, source, reason, timestamp);
+
+    if (reason !== 'opening' && change.probabilityMove >= this.options.maxProbabilityMove) {
+      this.suspend(
+        update.eventId,
+        update.marketId,
+        'large_move',
+        `${update.selectionId} moved ${formatOdds(change.previous!)} -> ${formatOdds(price)} (${(change.probabilityMove * 100).toFixed(1)}% implied)`
+      );
+    }
+
+    return change;
+  }
+
+  /**
+   * Trader override; recorded like a feed change with the trader as source
+   */
+  manualChange(
+    target: { eventId: string; marketId: string; selectionId: string },
+    price: number | string,
+    options: { line?: number; changedBy: string; note?: string }
+  ): LineChange {
+    if (this.closedEvents.has(target.eventId)) {
+      throw new Error(`Event ${target.eventId} has closed`);
+    }
+
+    const current: LinePrice = { odds: normalizeOdds(price), line: options.line };
+    return this.record(
+      target,
+      current,
+      options.changedBy,
+      'manual',
+      this.now().toISOString(),
+      options.note
+    );
+  }
+
+  /**
+   * Suspend stale markets and close events that have started
+   */
+  tick(now: Date = this.now()): void {
+    const latest = new Map<string, { eventId: string; marketId: string; updatedAt: number }>();
+    for (const state of this.selections.values()) {
+      const key = marketKey(state.eventId, state.marketId);
+      const market = latest.get(key);
+      if (!market || state.updatedAt > market.updatedAt) {
+        latest.set(key, { eventId: state.eventId, marketId: state.marketId, updatedAt: state.updatedAt });
+      }
+    }
+
+    for (const [key, market] of latest) {
+      if (this.closedEvents.has(market.eventId) || this.suspensions.has(key)) continue;
+      const age = now.getTime() - market.updatedAt;
+      if (age > this.options.staleAfterMs) {
+        this.suspend(market.eventId, market.marketId, 'stale_feed', `No update for ${Math.round(age / 1000)}s`);
+      }
+    }
+
+    for (const [eventId, startsAt] of this.eventStarts) {
+      if (startsAt <= now.getTime() && !this.closedEvents.has(eventId)) {
+        this.close(eventId, now);
+      }
+    }
+  }
+
+  // !== SUSPENSION !==
+
+  suspend(eventId: string, marketId: string, reason: SuspensionReason, details: string): void {
+    const key = marketKey(eventId, marketId);
+    if (this.suspensions.has(key)) return;
+
+    const suspension: MarketSuspension = {
+      eventId,
+      marketId,
+      reason,
+      details,
+      suspendedAt: this.now().toISOString(),
+    };
+    this.suspensions.set(key, suspension);
+    this.emit({ type: 'market_suspended', suspension });
+  }
+
+  resume(eventId: string, marketId: string, resumedBy: string): void {
+    if (!this.suspensions.delete(marketKey(eventId, marketId))) return;
+    this.emit({
+      type: 'market_resumed',
+      eventId,
+      marketId,
+      resumedBy,
+      timestamp: this.now().toISOString(),
+    });
+  }
+
+  isSuspended(eventId: string, marketId: string): boolean {
+    return this.suspensions.has(marketKey(eventId, marketId));
+  }
+
+  getSuspensions(): MarketSuspension[] {
+    return Array.from(this.suspensions.values());
+  }
+
+  // !== CLOSING LINES !==
+
+  scheduleClose(eventId: string, startTime: string): void {
+    const startsAt = Date.parse(startTime);
+    if (Number.isNaN(startsAt)) {
+      throw new Error(`Invalid start time for ${eventId}: ${startTime}`);
+    }
+    this.eventStarts.set(eventId, startsAt);
+  }
+
+  /**
+   * Snapshot the event's current prices as its closing lines
+   */
+  close(eventId: string, at: Date = this.now()): ClosingLineSnapshot[] {
+    if (this.closedEvents.has(eventId)) return [];
+    this.closedEvents.add(eventId);
+    this.eventStarts.delete(eventId);
+
+    const closedAt = at.toISOString();
+    const closingLines = Array.from(this.selections.values())
+      .filter(state => state.eventId === eventId)
+      .map(state => ({
+        eventId,
+        marketId: state.marketId,
+        selectionId: state.selectionId,
+        opening: state.opening,
+        closing: state.current,
+        changes: state.changes,
+        source: state.source,
+        closedAt,
+      }));
+
+    this.emit({ type: 'event_closed', eventId, closingLines, timestamp: closedAt });
+    return closingLines;
+  }
+
+  isClosed(eventId: string): boolean {
+    return this.closedEvents.has(eventId);
+  }
+
+  // !== QUERIES !==
+
+  getCurrent(eventId: string, marketId: string, selectionId: string): LinePrice | undefined {
+    return this.selections.get(selectionKey({ eventId, marketId, selectionId }))?.current;
+  }
+
+  getHistory(eventId: string, marketId: string, selectionId: string): LineChange[] {
+    return [...(this.selections.get(selectionKey({ eventId, marketId, selectionId }))?.history ?? [])];
+  }
+
+  subscribe(listener: LineMovementListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // !== HELPERS !==
+
+  private record(
+    target: { eventId: string; marketId: string; selectionId: string },
+    current: LinePrice,
+    source: string,
+    reason: LineChangeReason,
+    timestamp: string,
+    note?: string
+  ): LineChange {
+    const key = selectionKey(target);
+    const state = this.selections.get(key);
+    const previous = state?.current;
+
+    const change: LineChange = {
+      eventId: target.eventId,
+      marketId: target.marketId,
+      selectionId: target.selectionId,
+      previous,
+      current,
+      source,
+      reason,
+      note,
+      probabilityMove: previous
+        ? Math.round(
+            Math.abs(impliedProbability(current.odds.decimal) - impliedProbability(previous.odds.decimal)) * 10000
+          ) / 10000
+        : 0,
+      timestamp,
+    };
+
+    if (state) {
+      state.current = current;
+      state.source = source;
+      state.updatedAt = Date.parse(timestamp);
+      state.changes++;
+      state.history.push(change);
+      if (state.history.length > this.options.maxHistory) {
+        state.history.shift();
+      }
+    } else {
+      this.selections.set(key, {
+        ...target,
+        opening: current,
+        current,
+        source,
+        updatedAt: Date.parse(timestamp),
+        history: [change],
+        changes: 0,
+      });
+    }
+
+    this.emit({ type: 'line_change', change });
+    return change;
+  }
+
+  private emit(event: LineMovementEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Line movement listener failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Closing-line value of a price taken against the closing price: positive
+ * when the bettor beat the close, e.g. 0.05 for 5% better odds
+ */
+export function closingLineValue(taken: QuotedOdds | number, closing: QuotedOdds | number): number {
+  const takenDecimal = typeof taken === 'number' ? normalizeOdds(taken).decimal : taken.decimal;
+  const closingDecimal = typeof closing === 'number' ? normalizeOdds(closing).decimal : closing.decimal;
+  return Math.round((takenDecimal / closingDecimal - 1) * 10000) / 10000;
+}
+
+function samePrice(a: LinePrice, b: LinePrice): boolean {
+  return a.odds.american === b.odds.american && a.line === b.line;
+}
+
+function formatOdds(price: LinePrice): string {
+  const american = price.odds.american > 0 ? `+${price.odds.american}` : `${price.odds.american}`;
+  return price.line === undefined ? american : `${price.line} ${american}`;
+}
+
+function marketKey(eventId: string, marketId: string): string {
+  return `${eventId}\u0000${marketId}`;
+}
+
+function selectionKey(target: { eventId: string; marketId: string; selectionId: string }): string {
+  return `${target.eventId}\u0000${target.marketId}\u0000${target.selectionId}`;
+}
@@ -0,0 +1,259 @@
+// Fire22 Wager System - Odds feed ingestion
+//
+// Feed adapters push raw price updates; prices arrive as American (-110),
+// decimal (1.91) or fractional ("10/11") and are normalized to all three
+// before they reach the line movement engine.
+
+import { americanToDecimal, decimalToAmerican, type QuotedOdds } from './pricing';
+import type { LineMovementEngine } from './line-movement';
+
+export type OddsFormat = 'american' | 'decimal' | 'fractional';
+
+export interface OddsFeedUpdate {
+  eventId: string;
+  marketId: string;
+  selectionId: string;
+  price: number | string;
+  /** Detected from the price when omitted */
+  format?: OddsFormat;
+  line?: number;
+  /** Lets the engine close the event's lines at start for CLV */
+  eventStartTime?: string;
+  timestamp?: string;
+  /** Defaults to the adapter name */
+  source?: string;
+}
+
+export interface OddsFeedAdapter {
+  readonly name: string;
+  start(onUpdate: (update: OddsFeedUpdate) => void): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// !== NORMALIZATION !==
+
+/**
+ * Normalize a price to American, decimal and fractional odds. Numbers of
+ * 100 or more in absolute value are American, other numbers decimal.
+ */
+export function normalizeOdds(price: number | string, format?: OddsFormat): QuotedOdds {
+  const detected = format ?? detectOddsFormat(price);
+
+  let decimal: number;
+  switch (detected) {
+    case 'fractional': {
+      const match = String(price).trim().match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+      if (!match || Number(match[2]) === 0) {
+        throw new Error(`Invalid fractional odds: ${price}`);
+      }
+      decimal = Number(match[1]) / Number(match[2]) + 1;
+      break;
+    }
+    case 'american':
+      decimal = americanToDecimal(Number(price));
+      break;
+    case 'decimal':
+      decimal = Number(price);
+      break;
+  }
+
+  if (!Number.isFinite(decimal) || decimal <= 1) {
+    throw new Error(`Invalid odds: ${price}`);
+  }
+
+  return {
+    american: decimalToAmerican(decimal),
+    decimal: Math.round(decimal * 10000) / 10000,
+    fractional: toFraction(decimal - 1),
+  };
+}
+
+export function detectOddsFormat(price: number | string): OddsFormat {
+  if (typeof price === 'string' && price.includes('/')) return 'fractional';
+  return Math.abs(Number(price)) >= 100 ? 'american' : 'decimal';
+}
+
+/**
+ * Implied probability of decimal odds, vig included
+ */
+export function impliedProbability(decimal: number): number {
+  return 1 / decimal;
+}
+
+// Reduced fraction with a denominator of at most 100, e.g. 0.9091 -> "10/11"
+function toFraction(value: number): string {
+  let best = { numerator: Math.round(value), denominator: 1, error: Infinity };
+  for (let denominator = 1; denominator <= 100; denominator++) {
+    const numerator = Math.round(value * denominator);
+    const error = Math.abs(value - numerator / denominator);
+    if (error < best.error - 1e-9) {
+      best = { numerator, denominator, error };
+    }
+  }
+  return `${best.numerator}/${best.denominator}`;
+}
+
+// !== ADAPTERS !==
+
+export interface JsonFileOddsFeedOptions {
+  pollIntervalMs?: number;
+  name?: string;
+}
+
+/**
+ * Local feed: a JSON file holding an array of updates, re-read whenever it
+ * changes. Unchanged prices are ignored by the engine.
+ */
+export class JsonFileOddsFeed implements OddsFeedAdapter {
+  readonly name: string;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastModified = 0;
+
+  constructor(
+    private readonly path: string,
+    private readonly options: JsonFileOddsFeedOptions = {}
+  ) {
+    this.name = options.name ?? 'json-file';
+  }
+
+  async start(onUpdate: (update: OddsFeedUpdate) => void): Promise<void> {
+    await this.poll(onUpdate);
+    this.timer = setInterval(() => {
+      this.poll(onUpdate).catch(error => console.error(`Odds feed ${this.name} failed:`, error));
+    }, this.options.pollIntervalMs ?? 5000);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async poll(onUpdate: (update: OddsFeedUpdate) => void): Promise<void> {
+    const file = Bun.file(this.path);
+    if (!(await file.exists()) || file.lastModified === this.lastModified) return;
+    this.lastModified = file.lastModified;
+
+    const updates = (await file.json()) as OddsFeedUpdate[];
+    for (const update of updates) {
+      onUpdate({ source: this.name, ...update });
+    }
+  }
+}
+
+export interface WebSocketOddsFeedOptions {
+  name?: string;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** Subscription message sent on every (re)connect */
+  subscribe?: unknown;
+}
+
+/**
+ * Streaming feed over WebSocket. Messages are one update or an array of
+ * updates as JSON; the connection is re-established with backoff.
+ */
+export class WebSocketOddsFeed implements OddsFeedAdapter {
+  readonly name: string;
+  private socket: WebSocket | null = null;
+  private stopped = false;
+  private reconnectDelay: number;
+
+  constructor(
+    private readonly url: string,
+    private readonly options: WebSocketOddsFeedOptions = {}
+  ) {
+    this.name = options.name ?? 'websocket';
+    this.reconnectDelay = options.reconnectDelayMs ?? 1000;
+  }
+
+  async start(onUpdate: (update: OddsFeedUpdate) => void): Promise<void> {
+    this.stopped = false;
+    this.connect(onUpdate);
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(onUpdate: (update: OddsFeedUpdate) => void): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.reconnectDelay = this.options.reconnectDelayMs ?? 1000;
+      if (this.options.subscribe !== undefined) {
+        socket.send(JSON.stringify(this.options.subscribe));
+      }
+    });
+
+    socket.addEventListener('message', event => {
+      try {
+        const payload = JSON.parse(String(event.data)) as OddsFeedUpdate | OddsFeedUpdate[];
+        for (const update of Array.isArray(payload) ? payload : [payload]) {
+          onUpdate({ source: this.name, ...update });
+        }
+      } catch (error) {
+        console.error(`Odds feed ${this.name} sent an unreadable message:`, error);
+      }
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.stopped) return;
+      const delay = this.reconnectDelay;
+      this.reconnectDelay = Math.min(delay * 2, this.options.maxReconnectDelayMs ?? 30000);
+      setTimeout(() => {
+        if (!this.stopped) this.connect(onUpdate);
+      }, delay);
+    });
+  }
+}
+
+// !== INGESTION !==
+
+export interface OddsIngestionOptions {
+  /** How often stale feeds and due event closes are checked */
+  tickIntervalMs?: number;
+}
+
+/**
+ * Runs feed adapters into a line movement engine and ticks the engine so
+ * stale markets suspend and started events close without new updates
+ */
+export class OddsIngestion {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private rejected = 0;
+
+  constructor(
+    private readonly adapters: OddsFeedAdapter[],
+    private readonly engine: LineMovementEngine,
+    private readonly options: OddsIngestionOptions = {}
+  ) {}
+
+  async start(): Promise<void> {
+    for (const adapter of this.adapters) {
+      await adapter.start(update => {
+        try {
+          this.engine.ingest({ source: adapter.name, ...update });
+        } catch (error) {
+          this.rejected++;
+          console.error(`Rejected odds update from ${adapter.name}:`, error);
+        }
+      });
+    }
+
+    this.timer = setInterval(() => this.engine.tick(), this.options.tickIntervalMs ?? 10000);
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await Promise.all(this.adapters.map(adapter => adapter.stop()));
+  }
+
+  getRejectedCount(): number {
+    return this.rejected;
+  }
+}
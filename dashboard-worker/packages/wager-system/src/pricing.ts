@@ -0,0 +1,501 @@
+// Fire22 Wager System - Multi-leg ticket pricing
+//
+// Prices parlays, teasers, if-bets and reverses from their legs, and
+// re-prices them as legs are graded:
+// - parlay:  decimal odds multiply; push/void legs drop out of the product,
+//            half-win/half-loss and dead-heat legs multiply their partial return
+// - teaser:  lines move by the teaser points and the ticket is priced from a
+//            sport table by leg count; push/void legs reduce the table
+// - if_bet:  legs play in order, each risking the base stake; a later leg
+//            only has action if the previous one won (or pushed, optionally)
+// - reverse: every ordering of the legs played as an if-bet
+
+// half_win / half_loss grade Asian quarter lines: half the stake wins or
+// loses, the other half is returned
+export type LegResult =
+  | 'pending'
+  | 'win'
+  | 'loss'
+  | 'push'
+  | 'void'
+  | 'half_win'
+  | 'half_loss';
+
+export type MultiLegBetType = 'straight' | 'parlay' | 'teaser' | 'if_bet' | 'reverse';
+
+export type TeaserSport = 'football' | 'basketball';
+
+export type IfBetCondition = 'win' | 'win_or_push';
+
+export interface PricingLeg {
+  selectionId?: string;
+  /** American odds */
+  odds: number;
+  line?: number;
+  side?: 'home' | 'away' | 'over' | 'under';
+  result?: LegResult;
+  deadHeat?: DeadHeat;
+}
+
+/**
+ * `tied` selections finished level sharing `places` paying places (golf
+ * top-N, racing). A winning leg is paid on places / tied of its stake.
+ */
+export interface DeadHeat {
+  tied: number;
+  places: number;
+}
+
+export interface TeaserOptions {
+  sport: TeaserSport;
+  points: number;
+  /** Overrides the built-in table for this sport: points -> legs -> American price */
+  table?: Record<string, Record<number, number>>;
+}
+
+/**
+ * Correlated same-game legs pay `payoutFactor` of the uncorrelated win while
+ * all of `selectionIds` still have action
+ */
+export interface CorrelationAdjustment {
+  selectionIds: string[];
+  payoutFactor: number;
+}
+
+export interface PricingOptions {
+  teaser?: TeaserOptions;
+  ifBetCondition?: IfBetCondition;
+  /** Parlays and teasers only */
+  correlation?: CorrelationAdjustment[];
+}
+
+export interface QuotedOdds {
+  american: number;
+  decimal: number;
+  fractional: string;
+}
+
+export type TicketStatus = 'open' | 'win' | 'loss' | 'push';
+
+export interface ChainQuote {
+  /** Leg indexes in play order */
+  order: number[];
+  risk: number;
+  toWin: number;
+  /** Realized result so far: positive won, negative lost */
+  net: number;
+  status: TicketStatus;
+}
+
+export interface TicketQuote {
+  betType: MultiLegBetType;
+  stake: number;
+  /** Total amount the customer can lose */
+  risk: number;
+  /** Maximum amount the customer can still win at current leg results */
+  toWin: number;
+  odds: QuotedOdds;
+  legs: number;
+  /** Legs still carrying action (not pushed or void) */
+  activeLegs: number;
+  status: TicketStatus;
+  /** Realized net once the ticket is decided */
+  net: number;
+  chains?: ChainQuote[];
+}
+
+// Standard teaser prices by teaser points and number of legs (American odds)
+export const TEASER_TABLES: Record<TeaserSport, Record<string, Record<number, number>>> = {
+  football: {
+    '6': { 2: -110, 3: 180, 4: 300, 5: 450, 6: 600 },
+    '6.5': { 2: -120, 3: 160, 4: 250, 5: 400, 6: 500 },
+    '7': { 2: -130, 3: 150, 4: 200, 5: 350, 6: 450 },
+  },
+  basketball: {
+    '4': { 2: -110, 3: 180, 4: 300, 5: 450, 6: 600 },
+    '4.5': { 2: -120, 3: 160, 4: 250, 5: 400, 6: 500 },
+    '5': { 2: -130, 3: 150, 4: 200, 5: 350, 6: 450 },
+  },
+};
+
+export const MAX_PARLAY_LEGS = 15;
+export const MAX_IF_BET_LEGS = 6;
+// Reverses expand to n! if-bet chains
+export const MAX_REVERSE_LEGS = 4;
+
+// !== ODDS CONVERSION !==
+
+export function americanToDecimal(american: number): number {
+  if (american === 0 || Math.abs(american) < 100) {
+    throw new Error(`Invalid American odds: ${american}`);
+  }
+  return american > 0 ? american / 100 + 1 : 100 / Math.abs(american) + 1;
+}
+
+export function decimalToAmerican(decimal: number): number {
+  if (decimal <= 1) return 0;
+  return decimal >= 2
+    ? Math.round((decimal - 1) * 100)
+    : Math.round(-100 / (decimal - 1));
+}
+
+export function americanToFractional(american: number): string {
+  return american > 0 ? `${american}/100` : `100/${Math.abs(american)}`;
+}
+
+export function quoteOdds(decimal: number): QuotedOdds {
+  const american = decimalToAmerican(decimal);
+  return {
+    american,
+    decimal: round(decimal, 4),
+    fractional: american === 0 ? '0/1' : americanToFractional(american),
+  };
+}
+
+/**
+ * Amount returned per unit staked on a graded leg, stake included:
+ * 0 for a loss, 1 for a push or void, the decimal odds for a full win
+ */
+export function legReturnFactor(leg: PricingLeg): number {
+  const decimal = americanToDecimal(leg.odds);
+
+  switch (leg.result) {
+    case 'win':
+      return leg.deadHeat ? decimal * deadHeatFactor(leg.deadHeat) : decimal;
+    case 'half_win':
+      return (decimal + 1) / 2;
+    case 'half_loss':
+      return 0.5;
+    case 'push':
+    case 'void':
+      return 1;
+    case 'loss':
+      return 0;
+    default:
+      throw new Error('Pending legs have no return yet');
+  }
+}
+
+export function deadHeatFactor(deadHeat: DeadHeat): number {
+  if (deadHeat.tied < 1 || deadHeat.places < 1 || deadHeat.places > deadHeat.tied) {
+    throw new Error(`Invalid dead heat: ${deadHeat.tied} tied for ${deadHeat.places} places`);
+  }
+  return deadHeat.places / deadHeat.tied;
+}
+
+/**
+ * Profit on `stake` at American `odds`
+ */
+export function winAmount(stake: number, odds: number): number {
+  return round(stake * (americanToDecimal(odds) - 1));
+}
+
+// !== PRICING !==
+
+export function priceTicket(
+  betType: MultiLegBetType,
+  legs: PricingLeg[],
+  stake: number,
+  options: PricingOptions = {}
+): TicketQuote {
+  if (stake <= 0) {
+    throw new Error('Stake must be positive');
+  }
+
+  switch (betType) {
+    case 'straight':
+      if (legs.length !== 1) throw new Error('A straight bet has exactly one leg');
+      return priceParlay(legs, stake, 'straight');
+    case 'parlay':
+      return applyCorrelation(priceParlay(legs, stake), legs, options.correlation);
+    case 'teaser':
+      if (!options.teaser) throw new Error('Teaser pricing requires sport and points');
+      return applyCorrelation(priceTeaser(legs, stake, options.teaser), legs, options.correlation);
+    case 'if_bet':
+      return priceIfBet(legs, stake, options.ifBetCondition);
+    case 'reverse':
+      return priceReverse(legs, stake, options.ifBetCondition);
+  }
+}
+
+export function priceParlay(
+  legs: PricingLeg[],
+  stake: number,
+  betType: MultiLegBetType = 'parlay'
+): TicketQuote {
+  if (betType === 'parlay' && (legs.length < 2 || legs.length > MAX_PARLAY_LEGS)) {
+    throw new Error(`A parlay needs 2 to ${MAX_PARLAY_LEGS} legs`);
+  }
+
+  // Graded legs contribute their actual return, pending legs their full odds
+  const active = legs.filter(leg => !isNoAction(leg));
+  const decimal = legs.reduce(
+    (product, leg) =>
+      product * (isGraded(leg) ? legReturnFactor(leg) : americanToDecimal(leg.odds)),
+    1
+  );
+  const odds = quoteOdds(decimal);
+
+  if (legs.some(leg => leg.result === 'loss')) {
+    return decided(betType, legs, stake, stake, odds, active.length, 'loss', -stake);
+  }
+
+  const toWin = round(stake * (decimal - 1));
+  if (legs.every(leg => isGraded(leg))) {
+    // Every leg pushed or void: stake returned
+    if (active.length === 0) {
+      return decided(betType, legs, stake, stake, odds, 0, 'push', 0);
+    }
+    return decided(betType, legs, stake, stake, odds, active.length, netStatus(toWin), toWin);
+  }
+
+  return {
+    betType,
+    stake,
+    risk: stake,
+    // A half-loss can leave less than the stake even if the rest win
+    toWin: Math.max(toWin, 0),
+    odds,
+    legs: legs.length,
+    activeLegs: active.length,
+    status: 'open',
+    net: 0,
+  };
+}
+
+export function priceTeaser(
+  legs: PricingLeg[],
+  stake: number,
+  teaser: TeaserOptions
+): TicketQuote {
+  const table = (teaser.table ?? TEASER_TABLES[teaser.sport])?.[String(teaser.points)];
+  if (!table) {
+    throw new Error(`No ${teaser.sport} teaser table for ${teaser.points} points`);
+  }
+
+  const minLegs = Math.min(...Object.keys(table).map(Number));
+  const maxLegs = Math.max(...Object.keys(table).map(Number));
+  if (legs.length < minLegs || legs.length > maxLegs) {
+    throw new Error(`A ${teaser.points}-point ${teaser.sport} teaser needs ${minLegs} to ${maxLegs} legs`);
+  }
+  if (legs.some(leg => leg.line === undefined)) {
+    throw new Error('Every teaser leg needs a spread or total line');
+  }
+  if (legs.some(leg => leg.result === 'half_win' || leg.result === 'half_loss' || leg.deadHeat)) {
+    throw new Error('Teaser legs grade win, loss, push or void only');
+  }
+
+  // Ties reduce: the ticket is priced as a teaser of the remaining legs
+  const active = legs.filter(leg => !isNoAction(leg));
+  const price = table[active.length];
+  const odds = price !== undefined ? quoteOdds(americanToDecimal(price)) : quoteOdds(1);
+
+  if (legs.some(leg => leg.result === 'loss')) {
+    return decided('teaser', legs, stake, stake, odds, active.length, 'loss', -stake);
+  }
+
+  // Reduced below the smallest teaser: no action
+  if (price === undefined) {
+    return decided('teaser', legs, stake, stake, odds, active.length, 'push', 0);
+  }
+
+  const toWin = winAmount(stake, price);
+  if (legs.every(leg => isGraded(leg))) {
+    return decided('teaser', legs, stake, stake, odds, active.length, 'win', toWin);
+  }
+
+  return {
+    betType: 'teaser',
+    stake,
+    risk: stake,
+    toWin,
+    odds,
+    legs: legs.length,
+    activeLegs: active.length,
+    status: 'open',
+    net: 0,
+  };
+}
+
+/**
+ * Line after teasing: spreads and unders move up, overs move down
+ */
+export function teaseLine(line: number, points: number, side?: PricingLeg['side']): number {
+  return side === 'over' ? line - points : line + points;
+}
+
+export function priceIfBet(
+  legs: PricingLeg[],
+  stake: number,
+  condition: IfBetCondition = 'win'
+): TicketQuote {
+  if (legs.length < 2 || legs.length > MAX_IF_BET_LEGS) {
+    throw new Error(`An if-bet needs 2 to ${MAX_IF_BET_LEGS} legs`);
+  }
+
+  const chain = priceChain(legs, legs.map((_, i) => i), stake, condition);
+  return fromChains('if_bet', legs, stake, [chain]);
+}
+
+export function priceReverse(
+  legs: PricingLeg[],
+  stake: number,
+  condition: IfBetCondition = 'win'
+): TicketQuote {
+  if (legs.length < 2 || legs.length > MAX_REVERSE_LEGS) {
+    throw new Error(`A reverse needs 2 to ${MAX_REVERSE_LEGS} legs`);
+  }
+
+  const chains = permutations(legs.map((_, i) => i)).map(order =>
+    priceChain(legs, order, stake, condition)
+  );
+  return fromChains('reverse', legs, stake, chains);
+}
+
+// !== HELPERS !==
+
+function priceChain(
+  legs: PricingLeg[],
+  order: number[],
+  stake: number,
+  condition: IfBetCondition
+): ChainQuote {
+  let net = 0;
+  let potential = 0;
+  let open = false;
+
+  for (const index of order) {
+    const leg = legs[index];
+    const result = leg.result ?? 'pending';
+
+    if (result === 'pending') {
+      // Remaining legs can still all win
+      open = true;
+      potential += winAmount(stake, leg.odds);
+      continue;
+    }
+    // A leg that returns more than its stake keeps the chain going; a
+    // (partial) loss ends it, a push or void ends an if-win chain
+    const factor = legReturnFactor(leg);
+    const continues = factor > 1 || (factor === 1 && condition === 'win_or_push');
+
+    if (open) {
+      // Graded out of order: counts only once the earlier legs decide, and
+      // nothing after it can play if it ends the chain
+      potential += stake * Math.max(factor - 1, 0);
+      if (!continues) break;
+      continue;
+    }
+
+    net += stake * (factor - 1);
+    if (!continues) {
+      return { order, risk: stake, toWin: 0, net: round(net), status: netStatus(net) };
+    }
+  }
+
+  return {
+    order,
+    risk: stake,
+    toWin: round(open ? net + potential : net),
+    net: round(net),
+    status: open ? 'open' : netStatus(net),
+  };
+}
+
+function fromChains(
+  betType: MultiLegBetType,
+  legs: PricingLeg[],
+  stake: number,
+  chains: ChainQuote[]
+): TicketQuote {
+  const risk = round(chains.reduce((sum, chain) => sum + chain.risk, 0));
+  const toWin = round(chains.reduce((sum, chain) => sum + chain.toWin, 0));
+  const net = round(chains.reduce((sum, chain) => sum + chain.net, 0));
+  const open = chains.some(chain => chain.status === 'open');
+
+  return {
+    betType,
+    stake,
+    risk,
+    toWin,
+    odds: quoteOdds(1 + toWin / risk),
+    legs: legs.length,
+    activeLegs: legs.filter(leg => !isNoAction(leg)).length,
+    status: open ? 'open' : netStatus(net),
+    net: open ? 0 : net,
+    chains,
+  };
+}
+
+function applyCorrelation(
+  quote: TicketQuote,
+  legs: PricingLeg[],
+  adjustments: CorrelationAdjustment[] = []
+): TicketQuote {
+  // A pushed or void leg takes its correlation with it
+  const factor = adjustments
+    .filter(adjustment =>
+      adjustment.selectionIds.every(id =>
+        legs.some(leg => leg.selectionId === id && !isNoAction(leg))
+      )
+    )
+    .reduce((product, adjustment) => product * adjustment.payoutFactor, 1);
+
+  if (factor === 1 || quote.status === 'loss' || quote.status === 'push') {
+    return quote;
+  }
+
+  return {
+    ...quote,
+    toWin: round(quote.toWin * factor),
+    odds: quoteOdds(1 + (quote.odds.decimal - 1) * factor),
+    net: quote.status === 'win' ? round(quote.net * factor) : quote.net,
+  };
+}
+
+function decided(
+  betType: MultiLegBetType,
+  legs: PricingLeg[],
+  stake: number,
+  risk: number,
+  odds: QuotedOdds,
+  activeLegs: number,
+  status: TicketStatus,
+  net: number
+): TicketQuote {
+  return {
+    betType,
+    stake,
+    risk,
+    toWin: status === 'win' ? net : 0,
+    odds,
+    legs: legs.length,
+    activeLegs,
+    status,
+    net: round(net),
+  };
+}
+
+function isNoAction(leg: PricingLeg): boolean {
+  return leg.result === 'push' || leg.result === 'void';
+}
+
+function isGraded(leg: PricingLeg): boolean {
+  return leg.result !== undefined && leg.result !== 'pending';
+}
+
+function netStatus(net: number): TicketStatus {
+  return net > 0 ? 'win' : net < 0 ? 'loss' : 'push';
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
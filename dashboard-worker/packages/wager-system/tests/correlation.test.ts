@@ -0,0 +1,189 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  CorrelationEngine,
+  WagerSystem,
+  inferMarketKind,
+  priceTicket,
+  type CorrelationLeg,
+} from '../src/index.ts';
+
+const leg = (overrides: Partial<CorrelationLeg>): CorrelationLeg => ({
+  selectionId: 'sel',
+  eventId: 'event-001',
+  sportId: 'football',
+  leagueId: 'nfl',
+  odds: -110,
+  ...overrides,
+});
+
+const homeMoneyline = leg({ selectionId: 'home-ml', market: 'moneyline', teamId: 'home', odds: -150 });
+const homeSpread = leg({ selectionId: 'home-spread', market: 'spread', teamId: 'home', line: -3.5 });
+const over = leg({ selectionId: 'over', market: 'total', side: 'over', line: 38.5 });
+
+describe('CorrelationEngine', () => {
+  test('should block moneyline and spread on the same team', () => {
+    const check = new CorrelationEngine().check([homeMoneyline, homeSpread]);
+
+    expect(check.action).toBe('block');
+    expect(check.riskScore).toBe(1);
+    expect(check.conflicts[0].message).toBe(
+      'Legs home-ml and home-spread conflict: moneyline and spread on the same team (rule moneyline-spread-same-team)'
+    );
+  });
+
+  test('should re-price the over with the favorite only in low-total games', () => {
+    const engine = new CorrelationEngine();
+
+    const low = engine.check([over, homeSpread]);
+    expect(low.action).toBe('reprice');
+    expect(low.conflicts[0]).toMatchObject({ selectionIds: ['over', 'home-spread'], payoutFactor: 0.85 });
+
+    expect(engine.check([{ ...over, line: 47.5 }, homeSpread]).action).toBe('accept');
+    // Underdog side is not correlated with the over
+    expect(engine.check([over, { ...homeSpread, line: 3.5 }]).action).toBe('accept');
+  });
+
+  test('should block a player prop with the same team total', () => {
+    const check = new CorrelationEngine().check([
+      leg({ selectionId: 'qb-yards', market: 'player_prop', teamId: 'home' }),
+      leg({ selectionId: 'home-tt', market: 'team_total', teamId: 'home', side: 'over', line: 24.5 }),
+    ]);
+    expect(check.conflicts.map(conflict => conflict.kind)).toEqual(['player_prop_team_total']);
+  });
+
+  test('should ignore legs on different events', () => {
+    const check = new CorrelationEngine().check([homeMoneyline, { ...homeSpread, eventId: 'event-002' }]);
+    expect(check).toEqual({ action: 'accept', conflicts: [], riskScore: 0 });
+  });
+
+  test('should apply the most specific rule for the sport and league', () => {
+    const engine = new CorrelationEngine();
+    engine.setRule({
+      id: 'nfl-ml-spread',
+      kind: 'moneyline_spread_same_team',
+      action: 'reprice',
+      payoutFactor: 0.7,
+      leagueId: 'nfl',
+    });
+    engine.setRule({
+      id: 'football-ml-spread',
+      kind: 'moneyline_spread_same_team',
+      action: 'block',
+      sportId: 'football',
+      enabled: false,
+    });
+
+    expect(engine.check([homeMoneyline, homeSpread]).action).toBe('reprice');
+    expect(
+      engine.check([
+        { ...homeMoneyline, leagueId: 'ncaaf' },
+        { ...homeSpread, leagueId: 'ncaaf' },
+      ]).action
+    ).toBe('accept');
+    expect(() =>
+      engine.setRule({ id: 'bad', kind: 'over_with_favorite', action: 'reprice' })
+    ).toThrow('Rule bad re-prices and needs a payout factor between 0 and 1');
+  });
+
+  test('should infer market kinds from bet type ids', () => {
+    expect(inferMarketKind('nfl-moneyline')).toBe('moneyline');
+    expect(inferMarketKind('Team Total')).toBe('team_total');
+    expect(inferMarketKind('game_total')).toBe('total');
+    expect(inferMarketKind('player-props')).toBe('player_prop');
+    expect(inferMarketKind('futures')).toBeUndefined();
+  });
+});
+
+describe('correlated pricing', () => {
+  test('should shorten the parlay while both correlated legs have action', () => {
+    const legs = [
+      { selectionId: 'over', odds: -110 },
+      { selectionId: 'home-spread', odds: -110 },
+    ];
+    const correlation = [{ selectionIds: ['over', 'home-spread'], payoutFactor: 0.85 }];
+
+    expect(priceTicket('parlay', legs, 100).toWin).toBe(264.46);
+    expect(priceTicket('parlay', legs, 100, { correlation }).toWin).toBe(224.79);
+
+    const pushed = [legs[0], { ...legs[1], result: 'push' as const }];
+    expect(priceTicket('parlay', pushed, 100, { correlation }).toWin).toBe(90.91);
+  });
+});
+
+describe('WagerSystem correlation', () => {
+  const setup = () => {
+    const wagerSystem = new WagerSystem();
+    (wagerSystem as any).customers.set('cust-001', {
+      id: 'cust-001',
+      balance: 5000,
+      vipLevel: 'bronze',
+      status: 'active',
+      bettingLimits: { maxBet: 5000, maxDaily: 50000, maxWeekly: 50000, maxMonthly: 50000 },
+    });
+    (wagerSystem as any).agents.set('agent-001', {
+      id: 'agent-001',
+      status: 'active',
+      level: 'agent',
+      commission: { baseRate: 0.05, bonusRate: 0.02, performanceMultiplier: 1.0 },
+      limits: { maxCustomerBet: 5000, maxTotalExposure: 50000, maxDailyVolume: 50000 },
+      performance: { totalVolume: 0, totalCommission: 0, customerCount: 1, averageBet: 0 },
+    });
+    (wagerSystem as any).events.set('event-001', {
+      id: 'event-001',
+      sportId: 'football',
+      leagueId: 'nfl',
+      homeTeamId: 'team-home',
+      awayTeamId: 'team-away',
+      eventDate: new Date().toISOString(),
+      startTime: new Date().toISOString(),
+      status: 'upcoming',
+    });
+    const selections = [
+      { id: 'home-ml', betTypeId: 'moneyline', side: 'home', description: 'Home ML' },
+      { id: 'home-spread', betTypeId: 'spread', side: 'home', line: -3.5, description: 'Home -3.5' },
+      { id: 'over', betTypeId: 'total', side: 'over', line: 38.5, description: 'Over 38.5' },
+    ];
+    for (const selection of selections) {
+      (wagerSystem as any).selections.set(selection.id, {
+        eventId: 'event-001',
+        odds: { american: -110, decimal: 1.91, fractional: '100/110' },
+        status: 'active',
+        ...selection,
+      });
+    }
+    return wagerSystem;
+  };
+
+  const parlay = (selectionIds: string[], betType: 'parlay' | 'if_bet' = 'parlay') => ({
+    customerId: 'cust-001',
+    agentId: 'agent-001',
+    eventId: 'event-001',
+    betTypeId: 'parlay',
+    selections: selectionIds.map(selectionId => ({ selectionId, odds: -110 })),
+    amountWagered: 100,
+    betType,
+  });
+
+  test('should explain blocked leg combinations in validation errors', async () => {
+    const validation = await setup().validateWager(parlay(['home-ml', 'home-spread']));
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toEqual([
+      'Legs home-ml (Home ML) and home-spread (Home -3.5) conflict: moneyline and spread on the same team (rule moneyline-spread-same-team)',
+    ]);
+  });
+
+  test('should re-price correlated parlays and refuse them as if-bets', async () => {
+    const wagerSystem = setup();
+
+    const validation = await wagerSystem.validateWager(parlay(['over', 'home-spread']));
+    expect(validation.isValid).toBe(true);
+    expect(validation.warnings[0]).toEndWith('paid at 85% of the uncorrelated price');
+
+    const wager = await wagerSystem.createWager(parlay(['over', 'home-spread']));
+    expect(wager.toWinAmount).toBe(224.79);
+
+    const ifBet = await wagerSystem.validateWager(parlay(['over', 'home-spread'], 'if_bet'));
+    expect(ifBet.errors[0]).toEndWith('if_bet tickets cannot be re-priced');
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, test, expect } from 'bun:test';
+import { LiabilityBook, WagerSystem, type LiabilityUpdate } from '../src/index.ts';
+
+const home = { eventId: 'event-001', marketId: 'moneyline', outcomeId: 'home' };
+const away = { eventId: 'event-001', marketId: 'moneyline', outcomeId: 'away' };
+
+describe('LiabilityBook', () => {
+  test('should net each outcome against the stakes on the rest of the market', () => {
+    const book = new LiabilityBook();
+    book.add(1, [home], 110, 100);
+    book.add(2, [home], 220, 200);
+    book.add(3, [away], 150, 300);
+
+    const market = book.getMarket('event-001', 'moneyline')!;
+    const outcomes = Object.fromEntries(market.outcomes.map(o => [o.outcomeId, o]));
+
+    // Home wins: keep 150 on away, pay 300 on home
+    expect(outcomes.home.net).toBe(-150);
+    expect(outcomes.home.tickets).toBe(2);
+    // Away wins: keep 330 on home, pay 300 on away
+    expect(outcomes.away.net).toBe(30);
+    expect(market.worstCase).toBe(150);
+
+    // Away wins once the big home ticket is gone: keep 110, pay 300
+    book.remove(2);
+    expect(book.getMarket('event-001', 'moneyline')!.worstCase).toBe(190);
+
+    book.remove(1);
+    book.remove(3);
+    expect(book.getEvents()).toEqual([]);
+  });
+
+  test('should count multi-leg tickets against every leg and replace on re-add', () => {
+    const book = new LiabilityBook();
+    const total = { eventId: 'event-002', marketId: 'total', outcomeId: 'over' };
+
+    book.add(7, [home, total], 100, 260);
+    expect(book.getEvents().map(e => e.eventId).sort()).toEqual(['event-001', 'event-002']);
+    expect(book.getMarket('event-002', 'total')!.worstCase).toBe(260);
+
+    // Re-priced after a push
+    book.add(7, [home, total], 100, 91);
+    expect(book.getMarket('event-001', 'moneyline')!.worstCase).toBe(91);
+  });
+
+  test('should check caps by market, then event, then default', () => {
+    const book = new LiabilityBook({ defaultCap: { maxLiability: 10000, onBreach: 'reject' } });
+    book.add(1, [home], 500, 450);
+
+    book.setEventCap('event-001', { maxLiability: 600, onBreach: 'manual_approval' });
+    const review = book.check([home], 200, 182);
+    expect(review.action).toBe('manual_approval');
+    expect(review.breaches[0]).toMatchObject({ outcomeId: 'home', projectedLiability: 632 });
+
+    // Backing the other side reduces exposure on home and is within cap
+    expect(book.check([away], 200, 182).action).toBe('accept');
+
+    book.setMarketCap('event-001', 'moneyline', { maxLiability: 500, onBreach: 'reject' });
+    expect(book.check([home], 100, 91).action).toBe('reject');
+
+    book.setMarketCap('event-001', 'moneyline', null);
+    book.setEventCap('event-001', null);
+    expect(book.getCap('event-001', 'moneyline')?.maxLiability).toBe(10000);
+  });
+
+  test('should stream updates to subscribers until they unsubscribe', () => {
+    const book = new LiabilityBook();
+    const updates: LiabilityUpdate[] = [];
+    const unsubscribe = book.subscribe(update => updates.push(update));
+
+    book.add(1, [home], 110, 100);
+    book.remove(1);
+    unsubscribe();
+    book.add(2, [home], 110, 100);
+
+    expect(updates.map(u => u.type)).toEqual(['wager_added', 'wager_removed']);
+    expect(updates[0].markets[0].worstCase).toBe(100);
+    expect(updates[1].markets[0].outcomes).toEqual([]);
+  });
+});
+
+describe('WagerSystem liability', () => {
+  const setup = () => {
+    const wagerSystem = new WagerSystem();
+    (wagerSystem as any).customers.set('cust-001', {
+      id: 'cust-001',
+      balance: 5000,
+      vipLevel: 'bronze',
+      status: 'active',
+      bettingLimits: { maxBet: 5000, maxDaily: 50000, maxWeekly: 50000, maxMonthly: 50000 },
+    });
+    (wagerSystem as any).agents.set('agent-001', {
+      id: 'agent-001',
+      status: 'active',
+      level: 'agent',
+      commission: { baseRate: 0.05, bonusRate: 0.02, performanceMultiplier: 1.0 },
+      limits: { maxCustomerBet: 5000, maxTotalExposure: 50000, maxDailyVolume: 50000 },
+      performance: { totalVolume: 0, totalCommission: 0, customerCount: 1, averageBet: 0 },
+    });
+    (wagerSystem as any).events.set('event-001', {
+      id: 'event-001',
+      sportId: 'sport-001',
+      leagueId: 'league-001',
+      eventDate: new Date().toISOString(),
+      startTime: new Date().toISOString(),
+      status: 'upcoming',
+    });
+    (wagerSystem as any).selections.set('sel-001', {
+      id: 'sel-001',
+      eventId: 'event-001',
+      betTypeId: 'moneyline',
+      description: 'Home',
+      odds: { american: -110, decimal: 1.91, fractional: '100/110' },
+      status: 'active',
+    });
+    return wagerSystem;
+  };
+
+  const request = (amountWagered: number) => ({
+    customerId: 'cust-001',
+    agentId: 'agent-001',
+    eventId: 'event-001',
+    betTypeId: 'moneyline',
+    selections: [{ selectionId: 'sel-001', odds: -110 }],
+    amountWagered,
+    betType: 'straight' as const,
+  });
+
+  test('should book accepted wagers and release them on settlement', async () => {
+    const wagerSystem = setup();
+    const wager = await wagerSystem.createWager(request(110));
+
+    expect(wagerSystem.liabilityBook.getMarket('event-001', 'moneyline')!.worstCase).toBe(100);
+
+    await wagerSystem.settleWager({
+      wagerNumber: wager.wagerNumber,
+      settlementType: 'loss',
+      settledBy: 'grader',
+    });
+    expect(wagerSystem.liabilityBook.getMarket('event-001', 'moneyline')).toBeUndefined();
+
+    await wagerSystem.unsettleWager(wager.wagerNumber, 'grader', 'Wrong result');
+    expect(wagerSystem.liabilityBook.getMarket('event-001', 'moneyline')!.worstCase).toBe(100);
+  });
+
+  test('should reject or route wagers to approval when a cap would be exceeded', async () => {
+    const wagerSystem = setup();
+    await wagerSystem.createWager(request(1100));
+
+    wagerSystem.liabilityBook.setMarketCap('event-001', 'moneyline', {
+      maxLiability: 1500,
+      onBreach: 'manual_approval',
+    });
+    const review = await wagerSystem.validateWager(request(1100));
+    expect(review.isValid).toBe(true);
+    expect(review.approvalRequired).toBe(true);
+
+    wagerSystem.liabilityBook.setMarketCap('event-001', 'moneyline', {
+      maxLiability: 1500,
+      onBreach: 'reject',
+    });
+    await expect(wagerSystem.createWager(request(1100))).rejects.toThrow(
+      'Liability on sel-001 (moneyline) would reach 2000 against a cap of 1500'
+    );
+  });
+
+  test('should not let concurrent wagers both fit under a reject cap', async () => {
+    const wagerSystem = setup();
+    wagerSystem.liabilityBook.setMarketCap('event-001', 'moneyline', {
+      maxLiability: 150,
+      onBreach: 'reject',
+    });
+
+    const results = await Promise.allSettled([
+      wagerSystem.createWager(request(110)),
+      wagerSystem.createWager(request(110)),
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    expect(wagerSystem.liabilityBook.getMarket('event-001', 'moneyline')!.worstCase).toBe(100);
+  });
+
+  test('should hold approval-required wagers without liability until approved', async () => {
+    const wagerSystem = setup();
+    wagerSystem.liabilityBook.setMarketCap('event-001', 'moneyline', {
+      maxLiability: 500,
+      onBreach: 'manual_approval',
+    });
+
+    const wager = await wagerSystem.createWager(request(1100));
+    expect(wager.status).toBe('pending_approval');
+    expect(wagerSystem.liabilityBook.has(wager.wagerNumber)).toBe(false);
+    await expect(
+      wagerSystem.settleWager({
+        wagerNumber: wager.wagerNumber,
+        settlementType: 'loss',
+        settledBy: 'grader',
+      })
+    ).rejects.toThrow('Wager is awaiting approval');
+
+    await wagerSystem.approveWager(wager.wagerNumber, 'risk-manager', 'Known customer');
+    expect(wager.status).toBe('pending');
+    expect(wager.validation.approvedBy).toBe('risk-manager');
+    expect(wagerSystem.liabilityBook.getMarket('event-001', 'moneyline')!.worstCase).toBe(1000);
+  });
+});
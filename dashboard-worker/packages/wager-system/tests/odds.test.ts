@@ -0,0 +1,222 @@
+import { describe, test, expect } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  JsonFileOddsFeed,
+  LineMovementEngine,
+  WagerSystem,
+  closingLineValue,
+  normalizeOdds,
+  type LineMovementEvent,
+  type OddsFeedUpdate,
+} from '../src/index.ts';
+
+const market = { eventId: 'event-001', marketId: 'moneyline' };
+
+describe('normalizeOdds', () => {
+  test('should detect and convert American, decimal and fractional prices', () => {
+    expect(normalizeOdds(-110)).toEqual({ american: -110, decimal: 1.9091, fractional: '10/11' });
+    expect(normalizeOdds(2.5)).toEqual({ american: 150, decimal: 2.5, fractional: '3/2' });
+    expect(normalizeOdds('5/2').american).toBe(250);
+    expect(normalizeOdds('150', 'american').decimal).toBe(2.5);
+  });
+
+  test('should reject prices that are not odds', () => {
+    expect(() => normalizeOdds(1)).toThrow('Invalid odds: 1');
+    expect(() => normalizeOdds('5/0')).toThrow('Invalid fractional odds: 5/0');
+  });
+});
+
+describe('LineMovementEngine', () => {
+  test('should record each change with its source and reason', () => {
+    const engine = new LineMovementEngine();
+    engine.ingest({ ...market, selectionId: 'home', price: -110, source: 'feed-a' });
+    expect(engine.ingest({ ...market, selectionId: 'home', price: -110 })).toBeNull();
+    engine.ingest({ ...market, selectionId: 'home', price: -120, source: 'feed-b' });
+    engine.manualChange({ ...market, selectionId: 'home' }, -115, {
+      changedBy: 'trader-1',
+      note: 'Injury news',
+    });
+
+    const history = engine.getHistory('event-001', 'moneyline', 'home');
+    expect(history.map(change => [change.reason, change.source, change.current.odds.american])).toEqual([
+      ['opening', 'feed-a', -110],
+      ['price_move', 'feed-b', -120],
+      ['manual', 'trader-1', -115],
+    ]);
+    expect(history[2].note).toBe('Injury news');
+  });
+
+  test('should suspend a market on a large move until it is resumed', () => {
+    const engine = new LineMovementEngine({ maxProbabilityMove: 0.05 });
+    const events: LineMovementEvent[] = [];
+    engine.subscribe(event => events.push(event));
+
+    engine.ingest({ ...market, selectionId: 'home', price: -110 });
+    engine.ingest({ ...market, selectionId: 'home', price: -115 });
+    expect(engine.isSuspended('event-001', 'moneyline')).toBe(false);
+
+    engine.ingest({ ...market, selectionId: 'home', price: -160 });
+    expect(engine.getSuspensions()[0]).toMatchObject({ reason: 'large_move' });
+
+    // Further prices do not lift a large-move suspension
+    engine.ingest({ ...market, selectionId: 'home', price: -165 });
+    expect(engine.isSuspended('event-001', 'moneyline')).toBe(true);
+
+    engine.resume('event-001', 'moneyline', 'trader-1');
+    expect(events.map(event => event.type).slice(-2)).toEqual(['line_change', 'market_resumed']);
+  });
+
+  test('should suspend stale markets and resume them on the next update', () => {
+    let now = new Date('2026-01-01T12:00:00Z');
+    const engine = new LineMovementEngine({ staleAfterMs: 30_000, now: () => now });
+
+    engine.ingest({ ...market, selectionId: 'home', price: -110 });
+    now = new Date('2026-01-01T12:01:00Z');
+    engine.tick();
+    expect(engine.getSuspensions()[0]).toMatchObject({ reason: 'stale_feed', details: 'No update for 60s' });
+
+    engine.ingest({ ...market, selectionId: 'home', price: -110 });
+    expect(engine.isSuspended('event-001', 'moneyline')).toBe(false);
+  });
+
+  test('should snapshot closing lines when the event starts', () => {
+    let now = new Date('2026-01-01T12:00:00Z');
+    const engine = new LineMovementEngine({ now: () => now });
+    const start = '2026-01-01T13:00:00Z';
+
+    engine.ingest({ ...market, selectionId: 'home', price: -110, eventStartTime: start });
+    engine.ingest({ ...market, selectionId: 'home', price: -125 });
+    engine.tick();
+    expect(engine.isClosed('event-001')).toBe(false);
+
+    const events: LineMovementEvent[] = [];
+    engine.subscribe(event => events.push(event));
+    now = new Date(start);
+    engine.tick();
+
+    const closed = events.find(event => event.type === 'event_closed');
+    expect(closed?.type === 'event_closed' && closed.closingLines[0]).toMatchObject({
+      selectionId: 'home',
+      opening: { odds: { american: -110 } },
+      closing: { odds: { american: -125 } },
+      changes: 1,
+    });
+    expect(engine.ingest({ ...market, selectionId: 'home', price: -130 })).toBeNull();
+  });
+
+  test('should compute closing-line value from decimal prices', () => {
+    expect(closingLineValue(-110, -125)).toBe(0.0606);
+    expect(closingLineValue(-125, -110)).toBe(-0.0571);
+  });
+});
+
+describe('JsonFileOddsFeed', () => {
+  test('should read updates from the file and tag them with the feed name', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'odds-feed-'));
+    const path = join(dir, 'odds.json');
+    writeFileSync(
+      path,
+      JSON.stringify([
+        { ...market, selectionId: 'home', price: '10/11' },
+        { ...market, selectionId: 'away', price: 1.95 },
+      ])
+    );
+
+    const feed = new JsonFileOddsFeed(path, { name: 'local', pollIntervalMs: 60_000 });
+    const updates: OddsFeedUpdate[] = [];
+    try {
+      await feed.start(update => updates.push(update));
+    } finally {
+      await feed.stop();
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(updates.map(update => [update.selectionId, update.source])).toEqual([
+      ['home', 'local'],
+      ['away', 'local'],
+    ]);
+  });
+});
+
+describe('WagerSystem odds feed', () => {
+  const setup = () => {
+    const wagerSystem = new WagerSystem();
+    (wagerSystem as any).customers.set('cust-001', {
+      id: 'cust-001',
+      balance: 5000,
+      vipLevel: 'bronze',
+      status: 'active',
+      bettingLimits: { maxBet: 5000, maxDaily: 50000, maxWeekly: 50000, maxMonthly: 50000 },
+    });
+    (wagerSystem as any).agents.set('agent-001', {
+      id: 'agent-001',
+      status: 'active',
+      level: 'agent',
+      commission: { baseRate: 0.05, bonusRate: 0.02, performanceMultiplier: 1.0 },
+      limits: { maxCustomerBet: 5000, maxTotalExposure: 50000, maxDailyVolume: 50000 },
+      performance: { totalVolume: 0, totalCommission: 0, customerCount: 1, averageBet: 0 },
+    });
+    (wagerSystem as any).events.set('event-001', {
+      id: 'event-001',
+      sportId: 'sport-001',
+      leagueId: 'league-001',
+      eventDate: new Date().toISOString(),
+      startTime: new Date().toISOString(),
+      status: 'upcoming',
+    });
+    (wagerSystem as any).selections.set('home', {
+      id: 'home',
+      eventId: 'event-001',
+      betTypeId: 'moneyline',
+      description: 'Home',
+      odds: { american: -110, decimal: 1.91, fractional: '100/110' },
+      status: 'active',
+    });
+    return wagerSystem;
+  };
+
+  const request = {
+    customerId: 'cust-001',
+    agentId: 'agent-001',
+    eventId: 'event-001',
+    betTypeId: 'moneyline',
+    selections: [{ selectionId: 'home', odds: -110 }],
+    amountWagered: 110,
+    betType: 'straight' as const,
+  };
+
+  test('should track line moves, suspensions and closing-line value on wagers', async () => {
+    const wagerSystem = setup();
+    const engine = new LineMovementEngine({ maxProbabilityMove: 0.1 });
+    const disconnect = wagerSystem.connectOddsEngine(engine);
+
+    engine.ingest({ ...market, selectionId: 'home', price: -110, source: 'feed-a' });
+    const wager = await wagerSystem.createWager(request);
+    expect(wager.lineMovement.openingOdds).toBe(-110);
+
+    engine.ingest({ ...market, selectionId: 'home', price: -125, source: 'feed-a' });
+    expect(wager.lineMovement.currentOdds).toBe(-125);
+    expect(wager.lineMovement.lineChanges[0].reason).toBe('home price_move (feed-a)');
+    expect((await wagerSystem.getSelection('home'))!.odds.american).toBe(-125);
+
+    engine.suspend('event-001', 'moneyline', 'manual', 'Trader hold');
+    const validation = await wagerSystem.validateWager(request);
+    expect(validation.isValid).toBe(false);
+    engine.resume('event-001', 'moneyline', 'trader-1');
+    expect((await wagerSystem.getSelection('home'))!.status).toBe('active');
+
+    engine.close('event-001');
+    expect(wager.closingLineValue).toMatchObject({
+      legs: [{ selectionId: 'home', takenOdds: -110, closingOdds: -125 }],
+    });
+    expect(wager.closingLineValue!.clv).toBeGreaterThan(0.05);
+
+    expect(await wagerSystem.findSharpCustomers({ minWagers: 1 })).toMatchObject([
+      { customerId: 'cust-001', wagers: 1, beatCloseRate: 1 },
+    ]);
+    expect(await wagerSystem.findSharpCustomers()).toEqual([]);
+    disconnect();
+  });
+});
@@ -0,0 +1,452 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  WagerSystem,
+  priceTicket,
+  priceParlay,
+  priceTeaser,
+  priceIfBet,
+  priceReverse,
+  teaseLine,
+  type WagerSettlementEvent,
+} from '../src/index.ts';
+
+describe('Pricing', () => {
+  describe('Parlays', () => {
+    test('should multiply decimal odds across legs', () => {
+      const quote = priceParlay([{ odds: -110 }, { odds: -110 }, { odds: 150 }], 100);
+
+      // 1.9091 * 1.9091 * 2.5 = 9.1116
+      expect(quote.odds.decimal).toBeCloseTo(9.1116, 3);
+      expect(quote.odds.american).toBe(811);
+      expect(quote.toWin).toBeCloseTo(811.16, 2);
+      expect(quote.risk).toBe(100);
+      expect(quote.status).toBe('open');
+    });
+
+    test('should re-price without push and void legs', () => {
+      const quote = priceParlay(
+        [
+          { odds: -110, result: 'win' },
+          { odds: 200, result: 'push' },
+          { odds: -110, result: 'void' },
+        ],
+        100
+      );
+
+      // A single remaining leg pays as a straight bet
+      expect(quote.activeLegs).toBe(1);
+      expect(quote.status).toBe('win');
+      expect(quote.toWin).toBeCloseTo(90.91, 2);
+      expect(quote.odds.american).toBe(-110);
+    });
+
+    test('should refund when every leg pushes and lose on any loss', () => {
+      const refund = priceParlay([{ odds: -110, result: 'push' }, { odds: 120, result: 'void' }], 50);
+      expect(refund.status).toBe('push');
+      expect(refund.net).toBe(0);
+
+      const loss = priceParlay([{ odds: -110, result: 'loss' }, { odds: 120 }], 50);
+      expect(loss.status).toBe('loss');
+      expect(loss.net).toBe(-50);
+      expect(loss.toWin).toBe(0);
+    });
+
+    test('should reject single-leg parlays', () => {
+      expect(() => priceParlay([{ odds: -110 }], 100)).toThrow('A parlay needs 2 to 15 legs');
+    });
+  });
+
+  describe('Teasers', () => {
+    test('should price from the sport table by leg count', () => {
+      const legs = [
+        { odds: -110, line: -7.5 },
+        { odds: -110, line: 2.5 },
+        { odds: -110, line: 44, side: 'over' as const },
+      ];
+
+      const football = priceTeaser(legs, 100, { sport: 'football', points: 6 });
+      expect(football.odds.american).toBe(180);
+      expect(football.toWin).toBe(180);
+
+      const basketball = priceTeaser(legs.slice(0, 2), 110, { sport: 'basketball', points: 4 });
+      expect(basketball.odds.american).toBe(-110);
+      expect(basketball.toWin).toBe(100);
+
+      expect(teaseLine(-7.5, 6)).toBe(-1.5);
+      expect(teaseLine(44, 6, 'over')).toBe(38);
+      expect(teaseLine(44, 6, 'under')).toBe(50);
+    });
+
+    test('should reduce to the next table on a push and go no action below two legs', () => {
+      const reduced = priceTeaser(
+        [
+          { odds: -110, line: -1.5, result: 'win' },
+          { odds: -110, line: 8.5, result: 'push' },
+          { odds: -110, line: 3, result: 'win' },
+        ],
+        100,
+        { sport: 'football', points: 6 }
+      );
+      expect(reduced.status).toBe('win');
+      expect(reduced.odds.american).toBe(-110);
+      expect(reduced.toWin).toBeCloseTo(90.91, 2);
+
+      const noAction = priceTeaser(
+        [
+          { odds: -110, line: -1.5, result: 'win' },
+          { odds: -110, line: 8.5, result: 'push' },
+        ],
+        100,
+        { sport: 'football', points: 6 }
+      );
+      expect(noAction.status).toBe('push');
+      expect(noAction.net).toBe(0);
+    });
+
+    test('should reject unknown teaser points', () => {
+      expect(() =>
+        priceTeaser([{ odds: -110, line: 1 }, { odds: -110, line: 2 }], 100, {
+          sport: 'football',
+          points: 10,
+        })
+      ).toThrow('No football teaser table for 10 points');
+    });
+  });
+
+  describe('If-bets and reverses', () => {
+    test('should risk the first stake and win every leg of an if-bet', () => {
+      const quote = priceIfBet([{ odds: -110 }, { odds: 150 }], 110);
+
+      expect(quote.risk).toBe(110);
+      expect(quote.toWin).toBe(265); // 100 + 165
+    });
+
+    test('should stop an if-win chain on a push unless it continues on push', () => {
+      const legs = [
+        { odds: -110, result: 'win' as const },
+        { odds: -110, result: 'push' as const },
+        { odds: 100 },
+      ];
+
+      const ifWin = priceIfBet(legs, 110);
+      expect(ifWin.status).toBe('win');
+      expect(ifWin.net).toBe(100);
+
+      const ifWinOrPush = priceIfBet(legs, 110, 'win_or_push');
+      expect(ifWinOrPush.status).toBe('open');
+      expect(ifWinOrPush.toWin).toBe(210);
+    });
+
+    test('should lose the winnings back when a later leg loses', () => {
+      const quote = priceIfBet([{ odds: -110, result: 'win' }, { odds: -110, result: 'loss' }], 110);
+
+      expect(quote.status).toBe('loss');
+      expect(quote.net).toBe(-10);
+    });
+
+    test('should price a reverse as both if-bet orders', () => {
+      const quote = priceReverse([{ odds: -110 }, { odds: -110 }], 110);
+
+      expect(quote.chains).toHaveLength(2);
+      expect(quote.risk).toBe(220);
+      expect(quote.toWin).toBe(400);
+
+      const split = priceReverse([{ odds: -110, result: 'win' }, { odds: -110, result: 'loss' }], 110);
+      // A then B: +100 - 110; B then A: -110
+      expect(split.net).toBe(-120);
+      expect(split.status).toBe('loss');
+    });
+  });
+});
+
+const setup = () => {
+  const wagerSystem = new WagerSystem();
+  (wagerSystem as any).customers.set('cust-001', {
+    id: 'cust-001',
+    balance: 1000,
+    vipLevel: 'bronze',
+    status: 'active',
+    bettingLimits: { maxBet: 500, maxDaily: 5000, maxWeekly: 20000, maxMonthly: 50000 },
+  });
+  (wagerSystem as any).agents.set('agent-001', {
+    id: 'agent-001',
+    status: 'active',
+    level: 'agent',
+    commission: { baseRate: 0.05, bonusRate: 0.02, performanceMultiplier: 1.0 },
+    limits: { maxCustomerBet: 1000, maxTotalExposure: 10000, maxDailyVolume: 50000 },
+    performance: { totalVolume: 0, totalCommission: 0, customerCount: 1, averageBet: 0 },
+  });
+  (wagerSystem as any).events.set('event-001', {
+    id: 'event-001',
+    sportId: 'sport-001',
+    leagueId: 'league-001',
+    eventDate: new Date().toISOString(),
+    startTime: new Date().toISOString(),
+    status: 'upcoming',
+  });
+  for (const id of ['sel-001', 'sel-002', 'sel-003']) {
+    (wagerSystem as any).selections.set(id, {
+      id,
+      eventId: 'event-001',
+      betTypeId: 'bet-001',
+      description: id,
+      odds: { american: -110, decimal: 1.91, fractional: '100/110' },
+      side: 'home',
+      status: 'active',
+    });
+  }
+  return wagerSystem;
+};
+
+describe('WagerSystem pricing', () => {
+  test('should quote combined odds and re-price a parlay after a push', async () => {
+    const wagerSystem = setup();
+    const wager = await wagerSystem.createWager({
+      customerId: 'cust-001',
+      agentId: 'agent-001',
+      eventId: 'event-001',
+      betTypeId: 'bet-001',
+      selections: [
+        { selectionId: 'sel-001', odds: -110 },
+        { selectionId: 'sel-002', odds: -110 },
+        { selectionId: 'sel-003', odds: -110 },
+      ],
+      amountWagered: 100,
+      betType: 'parlay',
+    });
+
+    expect(wager.odds.american).toBe(596);
+    expect(wager.toWinAmount).toBeCloseTo(595.79, 2);
+
+    const quote = await wagerSystem.repriceWager(
+      wager.wagerNumber,
+      { 'sel-002': 'push' },
+      'agent-001'
+    );
+
+    expect(quote.activeLegs).toBe(2);
+    expect(wager.toWinAmount).toBeCloseTo(264.46, 2);
+    expect(wager.auditTrail.at(-1)?.action).toBe('wager_repriced');
+  });
+
+  test('should tease lines and price reverses on the ticket', async () => {
+    const wagerSystem = setup();
+    const teaser = await wagerSystem.createWager({
+      customerId: 'cust-001',
+      agentId: 'agent-001',
+      eventId: 'event-001',
+      betTypeId: 'bet-001',
+      selections: [
+        { selectionId: 'sel-001', odds: -110, line: -7.5 },
+        { selectionId: 'sel-002', odds: -110, line: 3 },
+      ],
+      amountWagered: 110,
+      betType: 'teaser',
+      teaser: { sport: 'football', points: 6 },
+    });
+
+    expect(teaser.selections.map(s => s.line)).toEqual([-1.5, 9]);
+    expect(teaser.toWinAmount).toBe(100);
+
+    const reverse = await wagerSystem.createWager({
+      customerId: 'cust-001',
+      agentId: 'agent-001',
+      eventId: 'event-001',
+      betTypeId: 'bet-001',
+      selections: [
+        { selectionId: 'sel-001', odds: -110 },
+        { selectionId: 'sel-002', odds: -110 },
+      ],
+      amountWagered: 110,
+      betType: 'reverse',
+    });
+
+    expect(reverse.riskAmount).toBe(220);
+    expect(reverse.toWinAmount).toBe(400);
+  });
+
+  test('should fail validation for tickets that cannot be priced', async () => {
+    const wagerSystem = setup();
+    const validation = await wagerSystem.validateWager({
+      customerId: 'cust-001',
+      agentId: 'agent-001',
+      eventId: 'event-001',
+      betTypeId: 'bet-001',
+      selections: [{ selectionId: 'sel-001', odds: -110 }],
+      amountWagered: 100,
+      betType: 'teaser',
+    });
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toContain('Teaser pricing requires sport and points');
+  });
+
+  test('should price through priceTicket by bet type', () => {
+    expect(priceTicket('straight', [{ odds: 150 }], 100).toWin).toBe(150);
+    expect(() => priceTicket('parlay', [{ odds: -110 }, { odds: -110 }], 0)).toThrow(
+      'Stake must be positive'
+    );
+  });
+});
+
+describe('Partial results', () => {
+  test('should grade half-wins, half-losses and dead heats on a single leg', () => {
+    expect(priceTicket('straight', [{ odds: -110, result: 'half_win' }], 110).net).toBe(50);
+    expect(priceTicket('straight', [{ odds: -110, result: 'half_loss' }], 110).net).toBe(-55);
+
+    // Three players tied for the last paying place: a third of the stake at full odds
+    const deadHeat = priceTicket(
+      'straight',
+      [{ odds: 400, result: 'win', deadHeat: { tied: 3, places: 1 } }],
+      30
+    );
+    expect(deadHeat.net).toBe(20);
+    expect(deadHeat.status).toBe('win');
+  });
+
+  test('should carry partial returns through a parlay', () => {
+    const quote = priceParlay(
+      [
+        { odds: -110, result: 'win' },
+        { odds: -110, result: 'half_loss' },
+      ],
+      100
+    );
+
+    // 1.9091 * 0.5 returned: a net loss without any leg losing outright
+    expect(quote.status).toBe('loss');
+    expect(quote.net).toBeCloseTo(-4.55, 2);
+  });
+
+  test('should reject partial results on teaser legs', () => {
+    expect(() =>
+      priceTeaser(
+        [
+          { odds: -110, line: 1, result: 'half_win' },
+          { odds: -110, line: 2 },
+        ],
+        100,
+        { sport: 'football', points: 6 }
+      )
+    ).toThrow('Teaser legs grade win, loss, push or void only');
+  });
+});
+
+describe('WagerSystem settlement', () => {
+  const placeParlay = (wagerSystem: WagerSystem) =>
+    wagerSystem.createWager({
+      customerId: 'cust-001',
+      agentId: 'agent-001',
+      eventId: 'event-001',
+      betTypeId: 'bet-001',
+      selections: [
+        { selectionId: 'sel-001', odds: -110 },
+        { selectionId: 'sel-002', odds: -110 },
+        { selectionId: 'sel-003', odds: -110 },
+      ],
+      amountWagered: 100,
+      betType: 'parlay',
+    });
+
+  test('should settle from leg results, regrade and unsettle with an audit trail', async () => {
+    const wagerSystem = setup();
+    const wager = await placeParlay(wagerSystem);
+
+    const settled = await wagerSystem.settleWager({
+      wagerNumber: wager.wagerNumber,
+      legResults: [
+        { selectionId: 'sel-001', result: 'win' },
+        { selectionId: 'sel-002', result: 'half_win' },
+        { selectionId: 'sel-003', result: 'push' },
+      ],
+      settledBy: 'grader',
+    });
+
+    expect(wager.result).toBe('partial');
+    expect(settled.settlementAmount).toBeCloseTo(177.69, 2);
+    expect(settled.balanceAfter).toBeCloseTo(1177.69, 2);
+
+    const regraded = await wagerSystem.regradeWager({
+      wagerNumber: wager.wagerNumber,
+      legResults: [{ selectionId: 'sel-002', result: 'loss' }],
+      regradedBy: 'supervisor',
+      reason: 'Corrected final score',
+    });
+
+    expect(wager.result).toBe('loss');
+    expect(regraded.settlementAmount).toBe(-100);
+    expect(regraded.balanceAfter).toBeCloseTo(900, 2);
+    expect(wager.selections.map(s => s.result)).toEqual(['win', 'loss', 'push']);
+
+    await wagerSystem.unsettleWager(wager.wagerNumber, 'supervisor', 'Event under review');
+
+    expect(wager.status).toBe('pending');
+    expect(wager.result).toBeUndefined();
+    expect(wager.toWinAmount).toBeCloseTo(595.79, 2);
+    expect((await wagerSystem.getCustomer('cust-001'))!.balance).toBeCloseTo(1000, 2);
+    expect(wager.auditTrail.map(entry => entry.action).slice(-3)).toEqual([
+      'wager_settled',
+      'wager_regraded',
+      'wager_unsettled',
+    ]);
+  });
+
+  test('should report settlement changes to listeners for commission clawbacks', async () => {
+    const wagerSystem = setup();
+    (wagerSystem as any).agents.get('agent-001').commission.performanceMultiplier = 1.2;
+    const wager = await placeParlay(wagerSystem);
+    // 5% base, 2% volume bonus and a fifth of the base for performance
+    expect(wager.commission.totalCommission).toBeCloseTo(8, 6);
+
+    const events: WagerSettlementEvent[] = [];
+    const unsubscribe = wagerSystem.onSettlement(event => events.push(event));
+
+    await wagerSystem.settleWager({
+      wagerNumber: wager.wagerNumber,
+      settlementType: 'loss',
+      settledBy: 'grader',
+    });
+    await wagerSystem.regradeWager({
+      wagerNumber: wager.wagerNumber,
+      legResults: [
+        { selectionId: 'sel-001', result: 'void' },
+        { selectionId: 'sel-002', result: 'void' },
+        { selectionId: 'sel-003', result: 'void' },
+      ],
+      regradedBy: 'supervisor',
+      reason: 'Event cancelled',
+    });
+    unsubscribe();
+    await wagerSystem.unsettleWager(wager.wagerNumber, 'supervisor', 'Review');
+
+    expect(
+      events.map(e => [e.type, e.result, e.settlementAmount, e.previousSettlementAmount])
+    ).toEqual([
+      ['settled', 'loss', -100, 0],
+      ['regraded', 'void', 0, -100],
+    ]);
+    expect(events[0]).toMatchObject({ agentId: 'agent-001', amountWagered: 100 });
+  });
+
+  test('should refuse to settle with ungraded legs or a bare partial result', async () => {
+    const wagerSystem = setup();
+    const wager = await placeParlay(wagerSystem);
+
+    await expect(
+      wagerSystem.settleWager({
+        wagerNumber: wager.wagerNumber,
+        legResults: [{ selectionId: 'sel-001', result: 'win' }],
+        settledBy: 'grader',
+      })
+    ).rejects.toThrow('Every leg must be graded before the wager can settle');
+    expect(wager.selections[0].result).toBeUndefined();
+
+    await expect(
+      wagerSystem.settleWager({
+        wagerNumber: wager.wagerNumber,
+        settlementType: 'partial',
+        settledBy: 'grader',
+      })
+    ).rejects.toThrow('Partial settlement requires leg results');
+  });
+});
@@ -0,0 +1,75 @@
+#!/usr/bin/env bun
+
+/**
+ * 🔧 Fire22 API Client Generator
+ *
+ * Regenerates the typed dashboard API client in @fire22/api-client from the
+ * route contracts, i.e. the same spec /api/docs serves. With --check nothing
+ * is written; the command fails when the committed client is out of date.
+ *
+ * Usage:
+ *   bun run scripts/generate-api-client.ts           # write the client
+ *   bun run scripts/generate-api-client.ts --check   # fail on drift (CI)
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import { OpenAPIGenerator } from '../core/api/openapi/openapi-generator';
+import { routeContracts } from '../core/api/openapi/route-contracts';
+import { generateClient } from '../core/api/openapi/client-generator';
+
+// Loading a router registers its contract-declared routes; add new ones here
+import '../src/api/routes/financial.routes';
+import '../src/api/routes/manager.routes';
+
+const CLIENT_PATH = join(
+  import.meta.dir,
+  '..',
+  'workspaces',
+  '@fire22-api-client',
+  'src',
+  'dashboard-api',
+  'client.ts'
+);
+
+function main(): number {
+  const check = process.argv.includes('--check');
+  const target = relative(process.cwd(), CLIENT_PATH);
+
+  const generator = new OpenAPIGenerator();
+  generator.addContracts(routeContracts.list());
+  const source = generateClient(generator.generate());
+
+  const current = existsSync(CLIENT_PATH) ? readFileSync(CLIENT_PATH, 'utf8') : undefined;
+
+  if (check) {
+    if (current === source) {
+      console.log(`✅ ${target} matches the route contracts`);
+      return 0;
+    }
+    console.error(`❌ ${target} is out of date with the route contracts`);
+    if (current !== undefined) {
+      const line = firstDifference(current, source);
+      console.error(`   First difference at line ${line}`);
+    }
+    console.error('   Run `bun run api:client:generate` and commit the result.');
+    return 1;
+  }
+
+  if (current === source) {
+    console.log(`✅ ${target} is already up to date`);
+    return 0;
+  }
+  writeFileSync(CLIENT_PATH, source);
+  console.log(`✍️ Wrote ${target} (${routeContracts.list().length} routes)`);
+  return 0;
+}
+
+function firstDifference(a: string, b: string): number {
+  const left = a.split('\n');
+  const right = b.split('\n');
+  const index = left.findIndex((line, i) => line !== right[i]);
+  return (index === -1 ? left.length : index) + 1;
+}
+
+process.exit(main());
@@ -45,6 +45,77 @@ CREATE TABLE IF NOT EXISTS settlement_batches (
   FOREIGN KEY (created_by) REFERENCES users(id)
 );
 
+-- Weekly close-out: frozen figures, settlements and the period lock
+-- (also created on demand by src/weekly-closeout.ts)
+CREATE TABLE IF NOT EXISTS weekly_periods (
+  week_start TEXT PRIMARY KEY,
+  week_end TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('closed', 'reopened')),
+  version INTEGER NOT NULL, -- bumped on every close
+  closed_by TEXT NOT NULL,
+  closed_at TEXT NOT NULL,
+  reopened_by TEXT,
+  reopened_at TEXT,
+  reopen_reason TEXT
+);
+
+CREATE TABLE IF NOT EXISTS weekly_customer_figures (
+  week_start TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  customer_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  wager_count INTEGER NOT NULL,
+  handle REAL NOT NULL,
+  win_loss REAL NOT NULL, -- positive when the customer won
+  free_play REAL NOT NULL,
+  adjustments REAL NOT NULL,
+  balance REAL NOT NULL, -- positive: owed to the customer
+  PRIMARY KEY (week_start, version, customer_id)
+);
+
+CREATE TABLE IF NOT EXISTS weekly_agent_figures (
+  week_start TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  agent_id TEXT NOT NULL,
+  customer_count INTEGER NOT NULL,
+  wager_count INTEGER NOT NULL,
+  handle REAL NOT NULL,
+  house_net REAL NOT NULL,
+  free_play REAL NOT NULL,
+  adjustments REAL NOT NULL,
+  commissionable_net REAL NOT NULL,
+  commission_rate REAL NOT NULL,
+  commission REAL NOT NULL,
+  balance REAL NOT NULL, -- positive: owed to the agent
+  PRIMARY KEY (week_start, version, agent_id)
+);
+
+CREATE TABLE IF NOT EXISTS weekly_settlements (
+  id TEXT PRIMARY KEY,
+  week_start TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  party_type TEXT NOT NULL CHECK (party_type IN ('customer', 'agent')),
+  party_id TEXT NOT NULL,
+  counterparty TEXT NOT NULL, -- customer's agent, or 'house'
+  direction TEXT NOT NULL CHECK (direction IN ('collection', 'distribution')),
+  amount REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'void')),
+  created_at TEXT NOT NULL,
+  completed_by TEXT,
+  completed_at TEXT,
+  reference TEXT
+);
+
+CREATE TABLE IF NOT EXISTS weekly_period_audit (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  week_start TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('closed', 'reopened', 'reopen_denied')),
+  actor TEXT NOT NULL,
+  role TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
+
 -- Update user permissions for settlement operations
 -- Add settlement permissions to existing roles
 UPDATE users SET permissions = json_insert(permissions, '$.settlements', json_array('read', 'settle', 'void')) 
@@ -58,6 +129,7 @@ CREATE INDEX IF NOT EXISTS idx_wagers_settlement_status ON wagers(settlement_sta
 CREATE INDEX IF NOT EXISTS idx_wagers_settled_at ON wagers(settled_at);
 CREATE INDEX IF NOT EXISTS idx_wagers_settled_by ON wagers(settled_by);
 CREATE INDEX IF NOT EXISTS idx_settlement_log_wager_number ON settlement_log(wager_number);
+CREATE INDEX IF NOT EXISTS idx_weekly_settlements_week ON weekly_settlements(week_start, status);
 CREATE INDEX IF NOT EXISTS idx_settlement_log_customer_id ON settlement_log(customer_id);
 CREATE INDEX IF NOT EXISTS idx_settlement_log_settled_by ON settlement_log(settled_by);
 CREATE INDEX IF NOT EXISTS idx_settlement_log_settled_at ON settlement_log(settled_at);
@@ -17,6 +17,11 @@ import {
   SettlementFilters,
   MetricCalculationParams,
 } from '../../../domain/models';
+import {
+  WeeklyCloseout,
+  WeeklyCloseoutError,
+  type WeeklySettlementStatus,
+} from '../../../weekly-closeout';
 
 const logger = Logger.configure('CollectionsController');
 
@@ -877,3 +882,189 @@ export async function getSettlementHistory(request: ValidatedRequest): Promise<R
     );
   }
 }
+
+// !== WEEKLY CLOSE-OUT !==
+
+/**
+ * Close a finished figure week: freeze customer and agent figures and raise
+ * the collections and distributions that settle it
+ */
+export async function closeWeeklyPeriod(request: ValidatedRequest): Promise<Response> {
+  try {
+    const body = request.validatedBody || (await request.json());
+    const { weekStart, commissionRates, defaultCommissionRate } = body;
+
+    if (!weekStart) {
+      return weeklyResponse(
+        {
+          error: 'Validation Error',
+          message: 'weekStart is required',
+          code: 'WEEKLY_CLOSEOUT_VALIDATION_ERROR',
+        },
+        400
+      );
+    }
+
+    const closeout = new WeeklyCloseout(request.env.DB, { commissionRates, defaultCommissionRate });
+    const result = await closeout.closeWeek(weekStart, request.user?.id ?? 'system');
+
+    logger.info('Weekly period closed', {
+      weekStart,
+      version: result.period.version,
+      settlements: result.settlements.length,
+    });
+
+    return weeklyResponse({
+      success: true,
+      data: {
+        ...result,
+        collections: result.settlements.filter(s => s.direction === 'collection'),
+        distributions: result.settlements.filter(s => s.direction === 'distribution'),
+      },
+    });
+  } catch (error: any) {
+    return weeklyError('Failed to close weekly period', error);
+  }
+}
+
+/**
+ * Reopen a closed week for corrections (authorized roles only, always logged)
+ */
+export async function reopenWeeklyPeriod(request: ValidatedRequest): Promise<Response> {
+  try {
+    const { weekStart, reason } = request.validatedBody || (await request.json());
+
+    const closeout = new WeeklyCloseout(request.env.DB);
+    const period = await closeout.reopenWeek(weekStart, {
+      actor: request.user?.id ?? 'unknown',
+      role: request.user?.role ?? 'unknown',
+      permissions: request.user?.permissions,
+      reason,
+    });
+
+    logger.warn('Weekly period reopened', { weekStart, by: request.user?.id, reason });
+
+    return weeklyResponse({ success: true, data: { period } });
+  } catch (error: any) {
+    return weeklyError('Failed to reopen weekly period', error);
+  }
+}
+
+/**
+ * Frozen figures, settlements and audit trail for one week
+ */
+export async function getWeeklyCloseout(request: ValidatedRequest): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const closeout = new WeeklyCloseout(request.env.DB);
+    const weekStart =
+      url.searchParams.get('weekStart') ||
+      closeout.weekStartFor(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).toISOString();
+    const agentId = url.searchParams.get('agentId') || undefined;
+
+    const period = await closeout.getPeriod(weekStart);
+    if (!period) {
+      return weeklyResponse(
+        {
+          error: 'Period Not Closed',
+          message: `Week of ${weekStart} has not been closed`,
+          code: 'WEEKLY_PERIOD_NOT_FOUND',
+        },
+        404
+      );
+    }
+
+    return weeklyResponse({
+      success: true,
+      data: {
+        period,
+        customers: await closeout.getCustomerFigures(weekStart, agentId),
+        agents: await closeout.getAgentFigures(weekStart, agentId),
+        settlements: await closeout.getSettlements({ weekStart }),
+        audit: await closeout.getAudit(weekStart),
+      },
+    });
+  } catch (error: any) {
+    return weeklyError('Failed to fetch weekly close-out', error);
+  }
+}
+
+/**
+ * Collections raised by weekly close-outs (customers and agents who owe)
+ */
+export async function getWeeklyCollections(request: ValidatedRequest): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const closeout = new WeeklyCloseout(request.env.DB);
+    const collections = await closeout.getSettlements({
+      weekStart: url.searchParams.get('weekStart') || undefined,
+      status: (url.searchParams.get('status') as WeeklySettlementStatus) || 'pending',
+      counterparty: url.searchParams.get('agentId') || undefined,
+      direction: 'collection',
+    });
+
+    return weeklyResponse({
+      success: true,
+      data: {
+        collections,
+        totalAmount: collections.reduce((sum, s) => sum + s.amount, 0),
+      },
+    });
+  } catch (error: any) {
+    return weeklyError('Failed to fetch weekly collections', error);
+  }
+}
+
+/**
+ * Record a weekly collection as received
+ */
+export async function recordWeeklyCollection(request: ValidatedRequest): Promise<Response> {
+  try {
+    const { settlementId, reference } = request.validatedBody || (await request.json());
+
+    const closeout = new WeeklyCloseout(request.env.DB);
+    const settlement = await closeout.getSettlement(settlementId);
+    if (settlement?.direction !== 'collection') {
+      return weeklyResponse(
+        {
+          error: 'Settlement Not Found',
+          message: `Collection ${settlementId} not found`,
+          code: 'SETTLEMENT_NOT_FOUND',
+        },
+        404
+      );
+    }
+
+    const completed = await closeout.completeSettlement(
+      settlementId,
+      request.user?.id ?? 'system',
+      reference
+    );
+    return weeklyResponse({ success: true, data: { settlement: completed } });
+  } catch (error: any) {
+    return weeklyError('Failed to record weekly collection', error);
+  }
+}
+
+function weeklyResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Version': '2.0',
+    },
+  });
+}
+
+function weeklyError(message: string, error: any): Response {
+  if (error instanceof WeeklyCloseoutError) {
+    logger.warn(message, { reason: error.message });
+    return weeklyResponse(
+      { error: message, message: error.message, code: 'WEEKLY_CLOSEOUT_ERROR' },
+      error.statusCode
+    );
+  }
+
+  logger.error(message, error);
+  return weeklyResponse({ error: message, details: error.message }, 500);
+}
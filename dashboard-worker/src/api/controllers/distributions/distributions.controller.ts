@@ -5,6 +5,11 @@
  */
 
 import type { ValidatedRequest } from '../../middleware/validate.middleware';
+import {
+  WeeklyCloseout,
+  WeeklyCloseoutError,
+  type WeeklySettlementStatus,
+} from '../../../weekly-closeout';
 
 /**
  * Get distribution overview and summary
@@ -552,3 +557,90 @@ export async function getDistributionAnalytics(request: ValidatedRequest): Promi
     );
   }
 }
+
+/**
+ * Distributions raised by weekly close-outs (customers and agents who are owed)
+ */
+export async function getWeeklyDistributions(request: ValidatedRequest): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const closeout = new WeeklyCloseout(request.env.DB);
+    const distributions = await closeout.getSettlements({
+      weekStart: url.searchParams.get('weekStart') || undefined,
+      status: (url.searchParams.get('status') as WeeklySettlementStatus) || 'pending',
+      counterparty: url.searchParams.get('agentId') || undefined,
+      direction: 'distribution',
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          distributions,
+          totalAmount: distributions.reduce((sum, s) => sum + s.amount, 0),
+        },
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to get weekly distributions',
+        message: error.message,
+      }),
+      {
+        status: error instanceof WeeklyCloseoutError ? error.statusCode : 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+/**
+ * Record a weekly distribution as paid
+ */
+export async function payWeeklyDistribution(request: ValidatedRequest): Promise<Response> {
+  try {
+    const { settlementId, reference } = request.validatedBody || (await request.json());
+
+    const closeout = new WeeklyCloseout(request.env.DB);
+    const settlement = await closeout.getSettlement(settlementId);
+    if (settlement?.direction !== 'distribution') {
+      return new Response(
+        JSON.stringify({
+          error: 'Distribution Not Found',
+          message: `Distribution ${settlementId} not found`,
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const paid = await closeout.completeSettlement(
+      settlementId,
+      request.user?.id ?? 'system',
+      reference
+    );
+
+    return new Response(JSON.stringify({ success: true, data: { distribution: paid } }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: any) {
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to pay weekly distribution',
+        message: error.message,
+      }),
+      {
+        status: error instanceof WeeklyCloseoutError ? error.statusCode : 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
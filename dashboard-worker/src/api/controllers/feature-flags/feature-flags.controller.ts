@@ -0,0 +1,153 @@
+/**
+ * Feature Flags Controller
+ *
+ * Admin management of the persistent feature flags: list, inspect, change
+ * and delete flags, read the audit trail, and explain a flag for a context
+ */
+
+import type { ValidatedRequest } from '../../middleware/validate.middleware';
+import { FeatureFlagError, type FeatureFlag } from '../../../../core/services/feature-flags';
+import { getFeatureFlags } from '../../../../core/services/feature-flags-sdk';
+
+/**
+ * All flags
+ */
+export async function listFlags(request: ValidatedRequest): Promise<Response> {
+  try {
+    const flags = await getFeatureFlags(request.env?.DB);
+    const all = flags.getAllFlags();
+
+    return flagsResponse({
+      success: true,
+      data: {
+        flags: all,
+        summary: {
+          total: all.length,
+          enabled: all.filter(flag => flag.enabled).length,
+          partialRollouts: all.filter(
+            flag => flag.enabled && (flag.rolloutPercentage ?? 100) < 100
+          ).length,
+        },
+      },
+    });
+  } catch (error: any) {
+    return flagsError('Failed to list feature flags', error);
+  }
+}
+
+/**
+ * One flag with its recent changes
+ */
+export async function getFlag(request: ValidatedRequest): Promise<Response> {
+  try {
+    const name = request.params.name;
+    const flags = await getFeatureFlags(request.env?.DB);
+    const flag = flags.getFlag(name);
+    if (!flag) {
+      throw new FeatureFlagError(`Feature flag '${name}' not found`, 404);
+    }
+
+    return flagsResponse({
+      success: true,
+      data: { flag, audit: await flags.getAuditTrail(name, 20) },
+    });
+  } catch (error: any) {
+    return flagsError('Failed to get feature flag', error);
+  }
+}
+
+/**
+ * Create or replace a flag
+ */
+export async function upsertFlag(request: ValidatedRequest): Promise<Response> {
+  try {
+    const name = request.params.name;
+    const { expectedVersion, reason, ...definition } =
+      request.validatedBody || (await request.json());
+
+    const flags = await getFeatureFlags(request.env?.DB);
+    const created = !flags.getFlag(name);
+    const flag = await flags.upsertFlag({ ...definition, name } as FeatureFlag, {
+      actor: request.user?.id ?? 'unknown',
+      reason,
+      expectedVersion,
+    });
+
+    return flagsResponse({ success: true, data: { flag } }, created ? 201 : 200);
+  } catch (error: any) {
+    return flagsError('Failed to save feature flag', error);
+  }
+}
+
+/**
+ * Delete a flag; evaluations of it are off from then on
+ */
+export async function deleteFlag(request: ValidatedRequest): Promise<Response> {
+  try {
+    const name = request.params.name;
+    const { expectedVersion, reason } = request.validatedQuery || {};
+
+    const flags = await getFeatureFlags(request.env?.DB);
+    await flags.deleteFlag(name, {
+      actor: request.user?.id ?? 'unknown',
+      reason,
+      expectedVersion,
+    });
+
+    return flagsResponse({ success: true, data: { deleted: name } });
+  } catch (error: any) {
+    return flagsError('Failed to delete feature flag', error);
+  }
+}
+
+/**
+ * Who changed which flag, newest first
+ */
+export async function getFlagAudit(request: ValidatedRequest): Promise<Response> {
+  try {
+    const { flag, limit = 100 } = request.validatedQuery || {};
+    const flags = await getFeatureFlags(request.env?.DB);
+
+    return flagsResponse({
+      success: true,
+      data: { entries: await flags.getAuditTrail(flag, limit) },
+    });
+  } catch (error: any) {
+    return flagsError('Failed to get feature flag audit trail', error);
+  }
+}
+
+/**
+ * Whether a flag is on for a context, and why (rule, rollout bucket, ...)
+ */
+export async function evaluateFlag(request: ValidatedRequest): Promise<Response> {
+  try {
+    const { context = {} } = request.validatedBody || (await request.json());
+    const flags = await getFeatureFlags(request.env?.DB);
+
+    return flagsResponse({
+      success: true,
+      data: { context, evaluation: flags.evaluate(request.params.name, context) },
+    });
+  } catch (error: any) {
+    return flagsError('Failed to evaluate feature flag', error);
+  }
+}
+
+function flagsResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function flagsError(message: string, error: any): Response {
+  if (error instanceof FeatureFlagError) {
+    return flagsResponse(
+      { error: message, message: error.message, code: 'FEATURE_FLAG_ERROR' },
+      error.statusCode
+    );
+  }
+
+  return flagsResponse({ error: message, message: error.message }, 500);
+}
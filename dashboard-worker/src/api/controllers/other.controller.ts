@@ -5,6 +5,8 @@
  */
 
 import type { ValidatedRequest } from '../middleware/validate.middleware';
+import { wagerSystem, type EventPosition } from '@fire22/wager-system';
+import type { RiskExposureQuery, SetLiabilityCapRequest } from '../schemas/risk';
 
 /**
  * Get settlement history
@@ -300,6 +302,137 @@ export async function live(request: ValidatedRequest): Promise<Response> {
   }
 }
 
+/**
+ * Get liability book: house position per event / market / outcome
+ */
+export async function apiRiskExposure(request: ValidatedRequest): Promise<Response> {
+  try {
+    const query: RiskExposureQuery = request.validatedQuery || {};
+    const events = filterExposure(wagerSystem.liabilityBook.getEvents(query.eventId), query);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        events,
+        totalWorstCase: events.reduce((sum, event) => sum + event.worstCase, 0),
+        generatedAt: new Date().toISOString()
+      }
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(JSON.stringify({
+      error: 'Failed to load risk exposure',
+      message: error.message
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+/**
+ * Stream liability book changes for the manager dashboard
+ */
+export async function apiRiskExposureStream(request: ValidatedRequest): Promise<Response> {
+  const query: RiskExposureQuery = request.validatedQuery || {};
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Full book first, then only the markets each change touches
+      send('snapshot', {
+        events: filterExposure(wagerSystem.liabilityBook.getEvents(query.eventId), query),
+        timestamp: new Date().toISOString()
+      });
+
+      const unsubscribe = wagerSystem.liabilityBook.subscribe(update => {
+        const markets = update.markets.filter(market => !query.eventId || market.eventId === query.eventId);
+        if (markets.length > 0) {
+          send('liability', { ...update, markets });
+        }
+      });
+
+      // Keep proxies from closing an idle stream
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(`: heartbeat ${Date.now()}\n\n`));
+      }, 15000);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal?.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Set or clear a market or event liability cap
+ */
+export async function apiRiskLiabilityCaps(request: ValidatedRequest): Promise<Response> {
+  try {
+    const body: SetLiabilityCapRequest = request.validatedBody;
+    const cap = body.maxLiability === null
+      ? null
+      : { maxLiability: body.maxLiability, onBreach: body.onBreach };
+
+    if (body.marketId) {
+      wagerSystem.liabilityBook.setMarketCap(body.eventId, body.marketId, cap);
+    } else {
+      wagerSystem.liabilityBook.setEventCap(body.eventId, cap);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        eventId: body.eventId,
+        marketId: body.marketId ?? '*',
+        cap,
+        updatedBy: request.user?.id,
+        updatedAt: new Date().toISOString()
+      }
+    }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    return new Response(JSON.stringify({
+      error: 'Failed to update liability cap',
+      message: error.message
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+function filterExposure(events: EventPosition[], query: RiskExposureQuery): EventPosition[] {
+  if (query.minUtilization === undefined) return events;
+
+  return events
+    .map(event => ({
+      ...event,
+      markets: event.markets.filter(market => (market.utilization ?? 0) >= query.minUtilization!)
+    }))
+    .filter(event => event.markets.length > 0);
+}
+
 /**
  * Generic placeholder handler for unimplemented endpoints
  */
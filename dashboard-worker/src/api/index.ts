@@ -15,6 +15,23 @@ import { healthRoutes } from './routes/health.routes';
 import { customerRoutes } from './routes/customer.routes';
 import { linesRoutes } from './routes/lines.routes';
 import { hierarchyRoutes } from './routes/hierarchy.routes';
+import {
+  APIDocsMiddleware,
+  defaultAPIDocsConfig,
+} from '../../core/api/middleware/api-docs-middleware';
+import {
+  RealTimeManager,
+  defaultRealTimeConfig,
+  type RealTimeRequest,
+} from '../../core/api/realtime/realtime-manager';
+
+// Built from the route contracts the routers above register as they load
+const apiDocs = new APIDocsMiddleware({ ...defaultAPIDocsConfig, path: '/api/docs' });
+const serveDocs = apiDocs.getMiddleware();
+
+// Created on first connection: its heartbeat timer cannot start at load time
+let realtime: RealTimeManager | undefined;
+const getRealtime = () => (realtime ??= new RealTimeManager(defaultRealTimeConfig));
 
 const api = Router({ base: '/api' });
 
@@ -24,6 +41,8 @@ api.all('*', rateLimiter());
 // Public routes (no authentication)
 api.all('/auth/*', authRoutes.handle);
 api.all('/health/*', healthRoutes.handle);
+api.get('/docs', request => serveDocs(request) ?? undefined);
+api.get('/docs/*', request => serveDocs(request) ?? undefined);
 
 // Protected routes (require authentication)
 api.all('*', authenticate);
@@ -37,6 +56,12 @@ api.all('/manager/*', managerRoutes.handle);
 api.all('/customers/*', customerRoutes.handle);
 api.all('/lines/*', linesRoutes.handle);
 
+// Real-time streams; channel rules check the authenticated user's permissions
+api.get('/realtime/events', (request: RealTimeRequest) => getRealtime().handleSSE(request));
+api.get('/realtime/ws', (request: RealTimeRequest, env: any) =>
+  getRealtime().handleWebSocket(request, env)
+);
+
 // 404 handler
 api.all('*', () => new Response('Not Found', { status: 404 }));
 
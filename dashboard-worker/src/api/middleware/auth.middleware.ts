@@ -123,6 +123,8 @@ function getRolePermissions(role: string): string[] {
     ],
     manager: [
       'manager.*',
+      'withdrawals.approve',
+      'p2p.moderate',
       'agent.view',
       'customer.list',
       'customer.view',
@@ -19,7 +19,7 @@ class AuthorizationError extends Error {
 /**
  * Check if user has required permission
  */
-function hasPermission(userPermissions: string[], requiredPermission: string): boolean {
+export function hasPermission(userPermissions: string[], requiredPermission: string): boolean {
   // Direct match
   if (userPermissions.includes(requiredPermission)) {
     return true;
@@ -40,14 +40,14 @@ function hasPermission(userPermissions: string[], requiredPermission: string): b
 /**
  * Check if user has all required permissions
  */
-function hasAllPermissions(userPermissions: string[], requiredPermissions: string[]): boolean {
+export function hasAllPermissions(userPermissions: string[], requiredPermissions: string[]): boolean {
   return requiredPermissions.every(permission => hasPermission(userPermissions, permission));
 }
 
 /**
  * Check if user has any of the required permissions
  */
-function hasAnyPermission(userPermissions: string[], requiredPermissions: string[]): boolean {
+export function hasAnyPermission(userPermissions: string[], requiredPermissions: string[]): boolean {
   return requiredPermissions.some(permission => hasPermission(userPermissions, permission));
 }
 
@@ -0,0 +1,73 @@
+/**
+ * Contract Middleware
+ *
+ * Registers a route from its contract: the contract goes into the shared
+ * registry the OpenAPI document is built from, and the same schemas are
+ * wired in as the route's authorize and validation middleware.
+ */
+
+import type { RouterType } from 'itty-router';
+import { routeContracts, type RouteContract } from '../../../core/api/openapi/route-contracts';
+import { authorize } from './authorize.middleware';
+import { validateRequest, type ValidatedRequest } from './validate.middleware';
+
+type ContractHandler = (request: ValidatedRequest, ...args: any[]) => Promise<Response>;
+
+/** A contract as a router declares it: path relative to the router, tags optional */
+export type RouteDefinition = Omit<RouteContract, 'path' | 'tags' | 'operationId'> & {
+  path: string;
+  tags?: string[];
+  operationId?: string;
+};
+
+/**
+ * Bind a router to its public prefix and default tags
+ *
+ * @example
+ * const route = contractRoutes(router, { prefix: '/api/manager', tags: ['Manager'] });
+ * route({ method: 'get', path: '/getSettings', ... }, controller.getSettings);
+ */
+export function contractRoutes(router: RouterType, defaults: { prefix: string; tags: string[] }) {
+  return (definition: RouteDefinition, handler: ContractHandler): RouteContract => {
+    const path = `${defaults.prefix}${definition.path}`;
+    // An undefined controller export would otherwise fail on every request
+    if (typeof handler !== 'function') {
+      throw new Error(`No handler for ${definition.method.toUpperCase()} ${path}`);
+    }
+
+    const contract = routeContracts.register({
+      ...definition,
+      path,
+      tags: definition.tags ?? defaults.tags,
+      operationId: definition.operationId ?? operationIdFor(definition.method, path),
+    });
+
+    const middleware: Array<(request: ValidatedRequest) => Promise<Response | void>> = [];
+    if (contract.permissions?.length) {
+      middleware.push(authorize(contract.permissions));
+    }
+    if (contract.params || contract.query || contract.body) {
+      middleware.push(
+        validateRequest({ params: contract.params, query: contract.query, body: contract.body })
+      );
+    }
+
+    router[contract.method](definition.path, ...middleware, handler);
+    return contract;
+  };
+}
+
+/**
+ * `post /api/manager/getPending` → `postManagerGetPending`
+ */
+function operationIdFor(method: string, path: string): string {
+  const words = path
+    .replace(/^\/api\//, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return [method, ...words].map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
@@ -0,0 +1,111 @@
+/**
+ * Idempotency Middleware
+ *
+ * Wraps money-moving controllers so a retried HTTP call or replayed Telegram
+ * command with the same `Idempotency-Key` returns the first response instead
+ * of executing twice. Backed by the shared SQLite idempotency store.
+ */
+
+import type { ValidatedRequest } from './validate.middleware';
+import { IdempotencyService } from '../../../../src/core/idempotency/idempotency';
+import { DomainError } from '../../../../src/core/errors/domain-errors';
+
+type ControllerHandler = (request: ValidatedRequest, ...args: any[]) => Promise<Response>;
+
+interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Read the request body without consuming it for the controller
+ */
+async function readPayload(request: ValidatedRequest): Promise<unknown> {
+  if (request.validatedBody !== undefined) {
+    return request.validatedBody;
+  }
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return {};
+  }
+  const text = await request.clone().text();
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Wrap a controller handler with idempotency protection.
+ * Requests without an Idempotency-Key header pass straight through.
+ */
+export function withIdempotency(
+  scope: string,
+  handler: ControllerHandler,
+  service: IdempotencyService = IdempotencyService.getInstance()
+): ControllerHandler {
+  return async (request: ValidatedRequest, ...args: any[]): Promise<Response> => {
+    const key = request.headers.get(IDEMPOTENCY_HEADER) || undefined;
+    if (!key) {
+      return handler(request, ...args);
+    }
+
+    // Keys are namespaced per user so two clients cannot collide
+    const userScope = request.user?.id ? `${scope}:${request.user.id}` : scope;
+
+    try {
+      const payload = await readPayload(request);
+      let replayed = true;
+
+      const stored = await service.execute<StoredResponse>(userScope, key, payload, async () => {
+        replayed = false;
+        const response = await handler(request, ...args);
+
+        // Server errors are not cached so the client can retry
+        if (response.status >= 500) {
+          throw new TransientResponse(response);
+        }
+
+        return {
+          status: response.status,
+          headers: Object.fromEntries(response.headers.entries()),
+          body: await response.text(),
+        };
+      });
+
+      return new Response(stored.body, {
+        status: stored.status,
+        headers: {
+          ...stored.headers,
+          [IDEMPOTENCY_HEADER]: key,
+          'Idempotent-Replayed': String(replayed),
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof TransientResponse) {
+        return error.response;
+      }
+
+      if (error instanceof DomainError) {
+        const { statusCode, error: body } = error.toHttpResponse();
+        return new Response(JSON.stringify({ success: false, error: body }), {
+          status: statusCode,
+          headers: { 'Content-Type': 'application/json', [IDEMPOTENCY_HEADER]: key },
+        });
+      }
+
+      throw error;
+    }
+  };
+}
+
+class TransientResponse extends Error {
+  constructor(public readonly response: Response) {
+    super(`Transient response ${response.status}`);
+    this.name = 'TransientResponse';
+  }
+}
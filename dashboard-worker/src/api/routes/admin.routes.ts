@@ -4,9 +4,16 @@
  */
 
 import { Router } from 'itty-router';
-import { validate } from '../middleware/validate.middleware';
+import { validate, validateQuery } from '../middleware/validate.middleware';
 import { authorize } from '../middleware/authorize.middleware';
 import * as controller from '../controllers/admin.controller';
+import * as flagsController from '../controllers/feature-flags/feature-flags.controller';
+import {
+  DeleteFeatureFlagQuerySchema,
+  EvaluateFeatureFlagRequestSchema,
+  FeatureFlagAuditQuerySchema,
+  UpsertFeatureFlagRequestSchema,
+} from '../schemas/feature-flags';
 import * as schemas from '@fire22/validator/schemas';
 
 const router = Router({ base: '/admin' });
@@ -48,4 +55,37 @@ router.get('/debug/cache-stats', authorize(['admin.*']), controller.debugCacheSt
 // /api/admin/system/rules - System rules and policies
 router.get('/system/rules', authorize(['admin.*', 'system.read']), controller.getRules);
 
+// /api/admin/flags - Feature flags (audit registered before /flags/:name)
+router.get('/flags', authorize(['admin.flags.view']), flagsController.listFlags);
+
+router.get(
+  '/flags/audit',
+  authorize(['admin.flags.view']),
+  validateQuery(FeatureFlagAuditQuerySchema),
+  flagsController.getFlagAudit
+);
+
+router.get('/flags/:name', authorize(['admin.flags.view']), flagsController.getFlag);
+
+router.put(
+  '/flags/:name',
+  authorize(['admin.flags.manage']),
+  validate(UpsertFeatureFlagRequestSchema),
+  flagsController.upsertFlag
+);
+
+router.delete(
+  '/flags/:name',
+  authorize(['admin.flags.manage']),
+  validateQuery(DeleteFeatureFlagQuerySchema),
+  flagsController.deleteFlag
+);
+
+router.post(
+  '/flags/:name/evaluate',
+  authorize(['admin.flags.view']),
+  validate(EvaluateFeatureFlagRequestSchema),
+  flagsController.evaluateFlag
+);
+
 export const adminRoutes = router;
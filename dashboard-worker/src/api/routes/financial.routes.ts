@@ -1,62 +1,175 @@
 /**
  * Fire22 Financial Routes
- * Auto-generated by consolidation script
+ *
+ * Each route is declared once as a contract; the same schemas validate the
+ * request and document the endpoint in /api/docs.
  */
 
 import { Router } from 'itty-router';
-import { validate } from '../middleware/validate.middleware';
-import { authorize } from '../middleware/authorize.middleware';
+import { contractRoutes } from '../middleware/contract.middleware';
+import { withIdempotency } from '../middleware/idempotency.middleware';
 import * as controller from '../controllers/financial.controller';
-import * as schemas from '@fire22/validator/schemas';
+import {
+  ApproveWithdrawalSchema,
+  CompleteWithdrawalSchema,
+  FinancialErrorResponseSchema,
+  HistoryQuerySchema,
+  PendingWithdrawalsQuerySchema,
+  PendingWithdrawalsResponseSchema,
+  ProcessDepositResponseSchema,
+  ProcessDepositSchema,
+  QueueStatusResponseSchema,
+  RejectWithdrawalSchema,
+  RequestWithdrawalSchema,
+  TransactionHistoryQuerySchema,
+  TransactionHistoryResponseSchema,
+  WithdrawalHistoryResponseSchema,
+  WithdrawalStatusResponseSchema,
+} from '../schemas/financial';
 
 const router = Router({ base: '/financial' });
+const route = contractRoutes(router, { prefix: '/api/financial', tags: ['Financial'] });
+
+const failed = { description: 'Handler failed', schema: FinancialErrorResponseSchema };
+
+route(
+  {
+    method: 'post',
+    path: '/withdrawals/request',
+    summary: 'Request a withdrawal',
+    description: 'Send an Idempotency-Key header to make retries safe.',
+    permissions: ['financial.*'],
+    body: RequestWithdrawalSchema,
+    responses: {
+      201: { description: 'Withdrawal pending approval', schema: WithdrawalStatusResponseSchema },
+      500: failed,
+    },
+  },
+  withIdempotency('financial.withdrawals.request', controller.requestWithdrawal)
+);
 
-// /api/withdrawals/request (from index.ts:2993)
-router.post('/withdrawals/request', authorize(['financial.*']), controller.apiWithdrawalsRequest);
-
-// /api/withdrawals/approve (from index.ts:3069)
-router.post('/withdrawals/approve', authorize(['financial.*']), controller.apiWithdrawalsApprove);
-
-// /api/withdrawals/complete (from index.ts:3129)
-router.post('/withdrawals/complete', authorize(['financial.*']), controller.apiWithdrawalsComplete);
-
-// /api/withdrawals/reject (from index.ts:3191)
-router.post('/withdrawals/reject', authorize(['financial.*']), controller.apiWithdrawalsReject);
-
-// /api/withdrawals/pending (from index.ts:3246)
-router.get('/withdrawals/pending', authorize(['financial.*']), controller.apiWithdrawalsPending);
-
-// /api/withdrawals (from index.ts:3285)
-router.get('/withdrawals', authorize(['financial.*']), controller.apiWithdrawals);
-
-// /api/queue/init (from index.ts:8057)
-router.post('/queue/init', authorize(['financial.*']), controller.apiQueueInit);
-
-// /api/queue/withdrawal (from index.ts:8113)
-router.post('/queue/withdrawal', authorize(['financial.*']), controller.apiQueueWithdrawal);
+route(
+  {
+    method: 'post',
+    path: '/withdrawals/approve',
+    summary: 'Approve a pending withdrawal',
+    description: 'Send an Idempotency-Key header to make retries safe.',
+    permissions: ['financial.*'],
+    body: ApproveWithdrawalSchema,
+    responses: {
+      200: { description: 'Withdrawal approved', schema: WithdrawalStatusResponseSchema },
+      500: failed,
+    },
+  },
+  withIdempotency('financial.withdrawals.approve', controller.approveWithdrawal)
+);
 
-// /api/queue/deposit (from index.ts:8173)
-router.post('/queue/deposit', authorize(['financial.*']), controller.apiQueueDeposit);
+route(
+  {
+    method: 'post',
+    path: '/withdrawals/complete',
+    summary: 'Mark an approved withdrawal as paid out',
+    description: 'Send an Idempotency-Key header to make retries safe.',
+    permissions: ['financial.*'],
+    body: CompleteWithdrawalSchema,
+    responses: {
+      200: { description: 'Withdrawal completed', schema: WithdrawalStatusResponseSchema },
+      500: failed,
+    },
+  },
+  withIdempotency('financial.withdrawals.complete', controller.completeWithdrawal)
+);
 
-// /api/queue/stats (from index.ts:8220)
-router.get('/queue/stats', authorize(['financial.*']), controller.apiQueueStats);
+route(
+  {
+    method: 'post',
+    path: '/withdrawals/reject',
+    summary: 'Reject a pending withdrawal',
+    permissions: ['financial.*'],
+    body: RejectWithdrawalSchema,
+    responses: {
+      200: { description: 'Withdrawal rejected', schema: WithdrawalStatusResponseSchema },
+      500: failed,
+    },
+  },
+  controller.rejectWithdrawal
+);
 
-// /api/queue/items (from index.ts:8244)
-router.get('/queue/items', authorize(['financial.*']), controller.apiQueueItems);
+route(
+  {
+    method: 'get',
+    path: '/withdrawals/pending',
+    summary: 'List withdrawals awaiting approval',
+    permissions: ['financial.*'],
+    query: PendingWithdrawalsQuerySchema,
+    responses: {
+      200: { description: 'Pending withdrawals', schema: PendingWithdrawalsResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getPendingWithdrawals
+);
 
-// /api/queue/opportunities (from index.ts:8276)
-router.get('/queue/opportunities', authorize(['financial.*']), controller.apiQueueOpportunities);
+route(
+  {
+    method: 'get',
+    path: '/withdrawals',
+    summary: 'Withdrawal history',
+    permissions: ['financial.*'],
+    query: HistoryQuerySchema,
+    responses: {
+      200: { description: 'Page of past withdrawals', schema: WithdrawalHistoryResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getWithdrawalHistory
+);
 
-// /api/queue/process (from index.ts:8337)
-router.post('/queue/process', authorize(['financial.*']), controller.apiQueueProcess);
+route(
+  {
+    method: 'post',
+    path: '/queue/deposit',
+    summary: 'Process a deposit',
+    description: 'Send an Idempotency-Key header to make retries safe.',
+    permissions: ['financial.*'],
+    body: ProcessDepositSchema,
+    responses: {
+      200: { description: 'Deposit processed', schema: ProcessDepositResponseSchema },
+      500: failed,
+    },
+  },
+  withIdempotency('financial.queue.deposit', controller.processDeposit)
+);
 
-// /api/queue/complete (from index.ts:8361)
-router.post('/queue/complete', authorize(['financial.*']), controller.apiQueueComplete);
+route(
+  {
+    method: 'get',
+    path: '/queue/stats',
+    summary: 'Withdrawal and deposit queue counts',
+    permissions: ['financial.*'],
+    responses: {
+      200: { description: 'Queue counts by status', schema: QueueStatusResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getQueueStatus
+);
 
-// /api/transactions - Get transactions history
-router.get(
-  '/transactions',
-  authorize(['financial.read', 'customer.*']),
+route(
+  {
+    method: 'get',
+    path: '/transactions',
+    summary: 'Transaction history',
+    permissions: ['financial.read', 'customer.*'],
+    query: TransactionHistoryQuerySchema,
+    responses: {
+      200: {
+        description: 'Filtered page of transactions',
+        schema: TransactionHistoryResponseSchema,
+      },
+      500: failed,
+    },
+  },
   controller.getTransactions
 );
 
@@ -1,116 +1,275 @@
 /**
  * Fire22 Manager Routes
- * Auto-generated by consolidation script
+ *
+ * Each route is declared once as a contract; the same schemas validate the
+ * request and document the endpoint in /api/docs.
  */
 
 import { Router } from 'itty-router';
-import { validate } from '../middleware/validate.middleware';
-import { authorize } from '../middleware/authorize.middleware';
+import { contractRoutes } from '../middleware/contract.middleware';
 import * as controller from '../controllers/manager.controller';
-import * as schemas from '@fire22/validator/schemas';
+import {
+  AgentBodySchema,
+  AgentPerformanceQuerySchema,
+  AgentQuerySchema,
+  BetTickerResponseSchema,
+  CryptoInfoRequestSchema,
+  CustomerQuerySchema,
+  Fire22RelayResponseSchema,
+  InfoPlayerRequestSchema,
+  LiveActivityResponseSchema,
+  ManagerErrorResponseSchema,
+  ManagerSettingsResponseSchema,
+  ManagerTransactionsResponseSchema,
+  OptionalAgentQuerySchema,
+  PendingResponseSchema,
+  SportAnalyticsResponseSchema,
+  VIPCustomersResponseSchema,
+  WagerAlertsResponseSchema,
+  WeeklyFigureLiteRequestSchema,
+} from '../schemas/manager';
 
 const router = Router({ base: '/manager' });
+const route = contractRoutes(router, { prefix: '/api/manager', tags: ['Manager'] });
 
-// /api/manager/getWeeklyFigureByAgent (from index.ts:3712)
-router.post(
-  '/getWeeklyFigureByAgent',
-  authorize(['manager.reports.weekly']),
+const failed = { description: 'Handler failed', schema: ManagerErrorResponseSchema };
+const relayed = { description: 'Fire22 response', schema: Fire22RelayResponseSchema };
+
+route(
+  {
+    method: 'post',
+    path: '/getWeeklyFigureByAgent',
+    summary: 'Weekly figures for an agent',
+    permissions: ['manager.reports.weekly'],
+    body: AgentBodySchema,
+    responses: { 200: relayed, 500: failed },
+  },
   controller.getWeeklyFigureByAgent
 );
 
-// /api/manager/getPending (from index.ts:3782)
-router.post('/getPending', authorize(['manager.*']), controller.getPending);
-
-// /api/manager/getTransactions (from index.ts:4001)
-router.get('/getTransactions', authorize(['manager.*']), controller.getTransactions);
-
-// /api/manager/getCustomers (from index.ts:4071)
-router.get('/getCustomers', authorize(['manager.customer.list']), controller.getCustomers);
-
-// /api/manager/getLiveActivity (from index.ts:4212)
-router.get('/getLiveActivity', authorize(['manager.*']), controller.getLiveActivity);
-
-// /api/manager/getLiveWagers (from index.ts:5387)
-router.get('/getLiveWagers', authorize(['manager.wager.view_live']), controller.getLiveWagers);
-
-// /api/manager/getAgentPerformance (from index.ts:5420)
-router.get(
-  '/getAgentPerformance',
-  authorize(['manager.agent.performance']),
-  controller.getAgentPerformance
+route(
+  {
+    method: 'post',
+    path: '/getWeeklyFigureByAgentLite',
+    summary: 'Weekly figures for an agent, reduced payload for faster loading',
+    permissions: ['manager.reports.weekly'],
+    body: WeeklyFigureLiteRequestSchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getWeeklyFigureByAgentLite
 );
 
-// /api/manager/getWagerAlerts (from index.ts:5450)
-router.get('/getWagerAlerts', authorize(['manager.*']), controller.getWagerAlerts);
-
-// /api/manager/getVIPCustomers (from index.ts:5481)
-router.get('/getVIPCustomers', authorize(['manager.*']), controller.getVIPCustomers);
-
-// /api/manager/getBetTicker (from index.ts:5524)
-router.get('/getBetTicker', authorize(['manager.*']), controller.getBetTicker);
+route(
+  {
+    method: 'post',
+    path: '/getPending',
+    summary: 'Pending operations for an agent',
+    permissions: ['manager.*'],
+    body: AgentBodySchema,
+    responses: {
+      200: { description: 'Pending operations', schema: PendingResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getPending
+);
 
-// /api/manager/getSportAnalytics (from index.ts:5554)
-router.get('/getSportAnalytics', authorize(['manager.*']), controller.getSportAnalytics);
+route(
+  {
+    method: 'get',
+    path: '/getTransactions',
+    summary: 'Agent transactions',
+    permissions: ['manager.*'],
+    query: OptionalAgentQuerySchema,
+    responses: {
+      200: { description: 'Transactions', schema: ManagerTransactionsResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getTransactions
+);
 
-// /api/manager/getCustomerDetails (from index.ts:5613)
-router.get('/getCustomerDetails', authorize(['manager.*']), controller.getCustomerDetails);
+route(
+  {
+    method: 'get',
+    path: '/getCustomers',
+    summary: 'Customers, optionally for one agent',
+    permissions: ['manager.customer.list'],
+    query: OptionalAgentQuerySchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getCustomers
+);
 
-// /api/manager/getSettings (from index.ts:7587)
-router.get('/getSettings', authorize(['manager.*']), controller.getSettings);
+route(
+  {
+    method: 'get',
+    path: '/getCustomersByAgent',
+    summary: 'Customers of an agent',
+    permissions: ['manager.customer.list'],
+    query: AgentQuerySchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getCustomersByAgent
+);
 
-// /api/manager/getAgentKPI (from index.ts:7703)
-router.get('/getAgentKPI', authorize(['manager.*']), controller.getAgentKPI);
+route(
+  {
+    method: 'get',
+    path: '/getCustomerDetails',
+    summary: 'Customer details',
+    permissions: ['manager.*'],
+    query: CustomerQuerySchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getCustomerDetails
+);
 
-// /api/manager/getCustomersByAgent (from index.ts:7751)
-router.get(
-  '/getCustomersByAgent',
-  authorize(['manager.customer.list']),
-  controller.getCustomersByAgent
+route(
+  {
+    method: 'get',
+    path: '/getLiveActivity',
+    summary: 'Live activity feed',
+    permissions: ['manager.*'],
+    responses: {
+      200: { description: 'Recent activity', schema: LiveActivityResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getLiveActivity
 );
 
-// /api/manager/getWagersByAgent (from index.ts:7791)
-router.get('/getWagersByAgent', authorize(['manager.*']), controller.getWagersByAgent);
+// Registered for both verbs; the agent always comes from the query string
+for (const method of ['get', 'post'] as const) {
+  route(
+    {
+      method,
+      path: '/getLiveWagers',
+      summary: 'Open wagers for an agent',
+      permissions: ['manager.wager.view_live'],
+      query: AgentQuerySchema,
+      responses: { 200: relayed, 500: failed },
+    },
+    controller.getLiveWagers
+  );
 
-// /api/manager/getPending (from index.ts:7833)
-router.get('/getPending', authorize(['manager.*']), controller.getPending);
+  route(
+    {
+      method,
+      path: '/getAgentPerformance',
+      summary: 'Agent performance over a period',
+      permissions: ['manager.agent.performance'],
+      query: AgentPerformanceQuerySchema,
+      responses: { 200: relayed, 500: failed },
+    },
+    controller.getAgentPerformance
+  );
+}
 
-// /api/manager/getWeeklyFigureByAgent (from index.ts:7991)
-router.get(
-  '/getWeeklyFigureByAgent',
-  authorize(['manager.reports.weekly']),
-  controller.getWeeklyFigureByAgent
+route(
+  {
+    method: 'get',
+    path: '/getWagerAlerts',
+    summary: 'Wager alerts',
+    permissions: ['manager.*'],
+    responses: {
+      200: { description: 'Alerts', schema: WagerAlertsResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getWagerAlerts
 );
 
-// /api/manager/getWeeklyFigureByAgentLite - Lightweight version for faster loading
-router.post(
-  '/getWeeklyFigureByAgentLite',
-  authorize(['manager.reports.weekly']),
-  controller.getWeeklyFigureByAgentLite
+route(
+  {
+    method: 'get',
+    path: '/getVIPCustomers',
+    summary: 'VIP customers',
+    permissions: ['manager.*'],
+    responses: {
+      200: { description: 'VIP customers', schema: VIPCustomersResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getVIPCustomers
 );
 
-// /api/manager/getLiveWagers (from server.js:237)
-router.post('/getLiveWagers', authorize(['manager.wager.view_live']), controller.getLiveWagers);
-
-// /api/manager/getCustomerAdmin (from server.js:381)
-router.post('/getCustomerAdmin', authorize(['manager.*']), controller.getCustomerAdmin);
+route(
+  {
+    method: 'get',
+    path: '/getBetTicker',
+    summary: 'Latest bets ticker',
+    permissions: ['manager.*'],
+    responses: {
+      200: { description: 'Latest bets', schema: BetTickerResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getBetTicker
+);
 
-// /api/manager/getCustomerSummary (from server.js:640)
-router.get('/getCustomerSummary', authorize(['manager.*']), controller.getCustomerSummary);
+route(
+  {
+    method: 'get',
+    path: '/getSportAnalytics',
+    summary: 'Per-sport analytics',
+    permissions: ['manager.*'],
+    responses: {
+      200: { description: 'Analytics by sport', schema: SportAnalyticsResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getSportAnalytics
+);
 
-// /api/manager/getBets (from server.js:821)
-router.get('/getBets', authorize(['manager.*']), controller.getBets);
+route(
+  {
+    method: 'get',
+    path: '/getAgentKPI',
+    summary: 'Agent KPIs',
+    permissions: ['manager.*'],
+    query: OptionalAgentQuerySchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getAgentKPI
+);
 
-// /api/manager/getAgentPerformance (from server.js:903)
-router.post(
-  '/getAgentPerformance',
-  authorize(['manager.agent.performance']),
-  controller.getAgentPerformance
+route(
+  {
+    method: 'get',
+    path: '/getSettings',
+    summary: 'Manager settings',
+    permissions: ['manager.*'],
+    responses: {
+      200: { description: 'Settings', schema: ManagerSettingsResponseSchema },
+      500: failed,
+    },
+  },
+  controller.getSettings
 );
 
-// /api/manager/getCryptoInfo - Get cryptocurrency information
-router.post('/getCryptoInfo', authorize(['manager.*']), controller.getCryptoInfo);
+route(
+  {
+    method: 'post',
+    path: '/getCryptoInfo',
+    summary: 'Cryptocurrency account information',
+    permissions: ['manager.*'],
+    body: CryptoInfoRequestSchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getCryptoInfo
+);
 
-// /api/manager/getInfoPlayer - Get player information
-router.post('/getInfoPlayer', authorize(['manager.*']), controller.getInfoPlayer);
+route(
+  {
+    method: 'post',
+    path: '/getInfoPlayer',
+    summary: 'Player information',
+    permissions: ['manager.*'],
+    body: InfoPlayerRequestSchema,
+    responses: { 200: relayed, 500: failed },
+  },
+  controller.getInfoPlayer
+);
 
 export const managerRoutes = router;
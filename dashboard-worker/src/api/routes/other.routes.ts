@@ -4,7 +4,7 @@
  */
 
 import { Router } from 'itty-router';
-import { validate } from '../middleware/validate.middleware';
+import { validate, validateQuery } from '../middleware/validate.middleware';
 import { authorize } from '../middleware/authorize.middleware';
 import * as otherController from '../controllers/other.controller';
 import * as collectionsController from '../controllers/collections/collections.controller';
@@ -13,6 +13,7 @@ import * as freePlayController from '../controllers/free-play/free-play.controll
 import * as balanceController from '../controllers/balance/balance-controller';
 import * as adjustmentController from '../controllers/adjustment/adjustment-controller';
 import * as schemas from '@fire22/validator/schemas';
+import { RiskExposureQuerySchema, SetLiabilityCapRequestSchema } from '../schemas/risk';
 
 const router = Router({ base: '/other' });
 
@@ -34,7 +35,27 @@ router.put(
 router.post('//api/wagers/manual', authorize(['authenticated']), otherController.apiWagersManual);
 
 // /api/risk/exposure (from index.ts:3474)
-router.get('//api/risk/exposure', authorize(['authenticated']), otherController.apiRiskExposure);
+router.get(
+  '//api/risk/exposure',
+  authorize(['authenticated']),
+  validateQuery(RiskExposureQuerySchema),
+  otherController.apiRiskExposure
+);
+
+// Liability book updates (SSE) for the manager dashboard
+router.get(
+  '//api/risk/exposure/stream',
+  authorize(['authenticated']),
+  validateQuery(RiskExposureQuerySchema),
+  otherController.apiRiskExposureStream
+);
+
+router.put(
+  '//api/risk/exposure/caps',
+  authorize(['risk.manage', 'admin.*']),
+  validate(SetLiabilityCapRequestSchema),
+  otherController.apiRiskLiabilityCaps
+);
 
 // /api/live (from index.ts:3848)
 router.get('//api/live', authorize(['authenticated']), otherController.apiLive);
@@ -309,6 +330,37 @@ router.post(
   collectionsController.processSettlement
 );
 
+// Weekly close-out (registered before /collections/:id so it is not shadowed)
+router.post(
+  '/collections/weekly/close',
+  authorize(['settlements.close', 'admin.*']),
+  collectionsController.closeWeeklyPeriod
+);
+
+router.post(
+  '/collections/weekly/reopen',
+  authorize(['settlements.reopen', 'admin.*']),
+  collectionsController.reopenWeeklyPeriod
+);
+
+router.get(
+  '/collections/weekly/closeout',
+  authorize(['settlements.view', 'collections.view']),
+  collectionsController.getWeeklyCloseout
+);
+
+router.get(
+  '/collections/weekly',
+  authorize(['collections.view', 'settlements.view']),
+  collectionsController.getWeeklyCollections
+);
+
+router.post(
+  '/collections/weekly/receive',
+  authorize(['collections.process', 'settlements.process']),
+  collectionsController.recordWeeklyCollection
+);
+
 // New Domain-Driven Collection Endpoints
 router.get(
   '/collections/:id',
@@ -393,6 +445,18 @@ router.post(
   distributionsController.processDistributionPayment
 );
 
+router.get(
+  '/distributions/weekly',
+  authorize(['distributions.view', 'financial.view']),
+  distributionsController.getWeeklyDistributions
+);
+
+router.post(
+  '/distributions/weekly/pay',
+  authorize(['distributions.process', 'financial.process']),
+  distributionsController.payWeeklyDistribution
+);
+
 router.get(
   '/distributions/settings',
   authorize(['distributions.view']),
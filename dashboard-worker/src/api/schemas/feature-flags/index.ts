@@ -0,0 +1,61 @@
+/**
+ * Feature Flag Schemas
+ * Admin flag management and evaluation request validation schemas
+ */
+
+import { z } from 'zod';
+
+/**
+ * Targeting rule: the context attribute must (not) be one of the values, or
+ * be at least / at most the first value
+ */
+export const TargetingRuleSchema = z.object({
+  attribute: z.string().min(1, 'Rule attribute is required'),
+  operator: z.enum(['in', 'not_in', 'gte', 'lte']),
+  values: z.array(z.union([z.string(), z.number()])).min(1, 'Rule needs at least one value'),
+});
+
+/**
+ * Create or replace a flag. `expectedVersion` guards against overwriting a
+ * change made since the flag was read; `reason` goes to the audit trail.
+ */
+export const UpsertFeatureFlagRequestSchema = z.object({
+  enabled: z.boolean(),
+  description: z.string().min(1, 'Description is required'),
+  rolloutPercentage: z.number().min(0).max(100).optional(),
+  stickiness: z.string().min(1).optional(),
+  userWhitelist: z.array(z.string().min(1)).optional(),
+  rules: z.array(TargetingRuleSchema).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  expectedVersion: z.number().int().min(0).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Flag deletion query schema
+ */
+export const DeleteFeatureFlagQuerySchema = z.object({
+  expectedVersion: z.number().int().min(0).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+/**
+ * Audit trail query schema
+ */
+export const FeatureFlagAuditQuerySchema = z.object({
+  flag: z.string().optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+});
+
+/**
+ * Explain a flag for a targeting context (userId, agentId, office, vipTier, ...)
+ */
+export const EvaluateFeatureFlagRequestSchema = z.object({
+  context: z.record(z.unknown()).default({}),
+});
+
+export type TargetingRuleInput = z.infer<typeof TargetingRuleSchema>;
+export type UpsertFeatureFlagRequest = z.infer<typeof UpsertFeatureFlagRequestSchema>;
+export type DeleteFeatureFlagQuery = z.infer<typeof DeleteFeatureFlagQuerySchema>;
+export type FeatureFlagAuditQuery = z.infer<typeof FeatureFlagAuditQuerySchema>;
+export type EvaluateFeatureFlagRequest = z.infer<typeof EvaluateFeatureFlagRequestSchema>;
@@ -320,6 +320,211 @@ export const CurrencyConversionResponseSchema = z.object({
   }),
 });
 
+/**
+ * Financial controller schemas (/api/financial)
+ * Match what the withdrawal, deposit and history handlers read and return
+ */
+
+/**
+ * Error body the financial controller returns when a handler fails
+ */
+export const FinancialErrorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string(),
+});
+
+/**
+ * Withdrawal workflow request schemas
+ */
+export const RequestWithdrawalSchema = z.object({
+  customerId: z.string().min(1, 'Customer ID is required'),
+  amount: z.number().positive('Amount must be positive'),
+  method: z.string().min(1, 'Withdrawal method is required'),
+});
+
+export const ApproveWithdrawalSchema = z.object({
+  withdrawalId: z.string().min(1, 'Withdrawal ID is required'),
+  approverNotes: z.string().max(500).optional(),
+});
+
+export const CompleteWithdrawalSchema = z.object({
+  withdrawalId: z.string().min(1, 'Withdrawal ID is required'),
+  transactionHash: z.string().optional(),
+});
+
+export const RejectWithdrawalSchema = z.object({
+  withdrawalId: z.string().min(1, 'Withdrawal ID is required'),
+  reason: z.string().min(1, 'Rejection reason is required').max(500),
+});
+
+/**
+ * Withdrawal workflow response schemas
+ */
+export const WithdrawalStatusResponseSchema = z.object({
+  success: z.literal(true),
+  withdrawalId: z.string(),
+  status: z.enum(['pending', 'approved', 'completed', 'rejected']),
+  transactionHash: z.string().optional(),
+  reason: z.string().optional(),
+  message: z.string(),
+});
+
+/**
+ * Query IDs arrive coerced to numbers when they look like one
+ */
+export const PendingWithdrawalsQuerySchema = z.object({
+  agentId: z.coerce.string().optional(),
+});
+
+export const PendingWithdrawalsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    withdrawals: z.array(z.record(z.any())),
+    count: z.number().int().min(0),
+    totalAmount: z.number(),
+  }),
+});
+
+export const HistoryQuerySchema = z.object({
+  customerId: z.coerce.string().optional(),
+  page: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+const HistoryPaginationSchema = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int().min(0),
+  totalPages: z.number().int().min(0),
+});
+
+export const WithdrawalHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    withdrawals: z.array(z.record(z.any())),
+    pagination: HistoryPaginationSchema,
+  }),
+});
+
+export const ProcessDepositSchema = z.object({
+  customerId: z.string().min(1, 'Customer ID is required'),
+  amount: z.number().positive('Amount must be positive'),
+  method: z.string().min(1, 'Deposit method is required'),
+  reference: z.string().optional(),
+});
+
+export const ProcessDepositResponseSchema = z.object({
+  success: z.literal(true),
+  depositId: z.string(),
+  status: z.literal('processed'),
+  message: z.string(),
+});
+
+export const DepositHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    deposits: z.array(z.record(z.any())),
+    pagination: HistoryPaginationSchema,
+  }),
+});
+
+const QueueCountsSchema = z.object({
+  pending: z.number().int().min(0),
+  processing: z.number().int().min(0),
+  completed: z.number().int().min(0),
+});
+
+export const QueueStatusResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    withdrawals: QueueCountsSchema,
+    deposits: QueueCountsSchema,
+  }),
+});
+
+export const FinancialSummaryQuerySchema = z.object({
+  period: z.enum(['daily', 'weekly', 'monthly']).optional(),
+});
+
+export const FinancialSummaryResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    period: z.string(),
+    summary: z.object({
+      totalDeposits: z.number(),
+      totalWithdrawals: z.number(),
+      netFlow: z.number(),
+      pendingWithdrawals: z.number(),
+      processingTime: z.object({
+        averageDeposit: z.number(),
+        averageWithdrawal: z.number(),
+      }),
+    }),
+    timestamp: z.string().datetime(),
+  }),
+});
+
+/**
+ * Transaction history as the financial controller serves it
+ */
+export const TransactionHistoryQuerySchema = z.object({
+  customerId: z.coerce.string().optional(),
+  type: z.enum(['all', 'deposit', 'withdrawal', 'transfer', 'bonus', 'adjustment']).optional(),
+  status: z.enum(['all', 'pending', 'completed', 'failed']).optional(),
+  page: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+});
+
+export const TransactionHistoryItemSchema = z
+  .object({
+    id: z.string(),
+    customerId: z.string(),
+    type: z.string(),
+    amount: z.number(),
+    currency: z.string(),
+    method: z.string(),
+    status: z.string(),
+    description: z.string(),
+    reference: z.string(),
+    timestamp: z.string(),
+    fee: z.number(),
+    netAmount: z.number(),
+    metadata: z.record(z.any()).optional(),
+  })
+  .passthrough();
+
+export const TransactionHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    transactions: z.array(TransactionHistoryItemSchema),
+    summary: z.object({
+      totalTransactions: z.number().int().min(0),
+      totalDeposits: z.number().int().min(0),
+      totalWithdrawals: z.number().int().min(0),
+      totalAmount: z.number(),
+      pendingTransactions: z.number().int().min(0),
+      completedTransactions: z.number().int().min(0),
+      averageTransactionAmount: z.number(),
+    }),
+    pagination: z.object({
+      page: z.number().int(),
+      limit: z.number().int(),
+      totalTransactions: z.number().int().min(0),
+      totalPages: z.number().int().min(0),
+      hasNextPage: z.boolean(),
+      hasPrevPage: z.boolean(),
+    }),
+    filters: z.object({
+      customerId: z.string().nullable(),
+      type: z.string(),
+      status: z.string(),
+      dateRange: z.object({ startDate: z.string(), endDate: z.string() }).nullable(),
+    }),
+  }),
+});
+
 // Export types for TypeScript
 export type TransactionItem = z.infer<typeof TransactionItemSchema>;
 export type TransactionQuery = z.infer<typeof TransactionQuerySchema>;
@@ -340,3 +545,8 @@ export type UpdatePaymentMethod = z.infer<typeof UpdatePaymentMethodSchema>;
 export type RemovePaymentMethod = z.infer<typeof RemovePaymentMethodSchema>;
 export type CurrencyConversion = z.infer<typeof CurrencyConversionSchema>;
 export type CurrencyConversionResponse = z.infer<typeof CurrencyConversionResponseSchema>;
+export type RequestWithdrawal = z.infer<typeof RequestWithdrawalSchema>;
+export type WithdrawalStatusResponse = z.infer<typeof WithdrawalStatusResponseSchema>;
+export type ProcessDeposit = z.infer<typeof ProcessDepositSchema>;
+export type TransactionHistoryQuery = z.infer<typeof TransactionHistoryQuerySchema>;
+export type TransactionHistoryResponse = z.infer<typeof TransactionHistoryResponseSchema>;
@@ -234,6 +234,21 @@ export * from './auth';
 // !==!==!==!==!==!==!==!==!==!==!==!==!==!===
 export * from './financial';
 
+// !==!==!==!==!==!==!==!==!==!==!==!==!==!===
+// MANAGER SCHEMAS
+// !==!==!==!==!==!==!==!==!==!==!==!==!==!===
+export * from './manager';
+
+// !==!==!==!==!==!==!==!==!==!==!==!==!==!===
+// RISK SCHEMAS
+// !==!==!==!==!==!==!==!==!==!==!==!==!==!===
+export * from './risk';
+
+// !==!==!==!==!==!==!==!==!==!==!==!==!==!===
+// FEATURE FLAG SCHEMAS
+// !==!==!==!==!==!==!==!==!==!==!==!==!==!===
+export * from './feature-flags';
+
 // !==!==!==!==!==!==!==!==!==!==!==!==!==!===
 // MIGRATION GUIDE
 // !==!==!==!==!==!==!==!==!==!==!==!==!==!===
@@ -247,6 +262,8 @@ export * from './financial';
  * NEW MODULES AVAILABLE:
  * - ./auth - Authentication and user management schemas
  * - ./financial - Payment and transaction schemas
+ * - ./manager - Manager dashboard endpoint schemas
+ * - ./risk - Liability book and liability cap schemas
  * - ./common - Shared utility schemas (already imported above)
  *
  * FUTURE MODULES TO BE ADDED:
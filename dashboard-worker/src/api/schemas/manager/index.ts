@@ -0,0 +1,161 @@
+/**
+ * Manager Schemas
+ * Request and response schemas for the /api/manager endpoints
+ */
+
+import { z } from 'zod';
+
+/**
+ * Error body the manager controller returns when a handler fails
+ */
+export const ManagerErrorResponseSchema = z.object({
+  error: z.string(),
+  message: z.string(),
+});
+
+/**
+ * Fire22 responses are relayed as received; their shape belongs to Fire22
+ */
+export const Fire22RelayResponseSchema = z
+  .record(z.any())
+  .describe('Response relayed unchanged from the Fire22 API');
+
+/**
+ * Agent and customer IDs. Query IDs arrive coerced to numbers when they
+ * look like one, so they are coerced back.
+ */
+const AgentID = z.coerce.string().min(1, 'Agent ID is required').max(20);
+const CustomerID = z.coerce.string().min(1, 'Customer ID is required').max(20);
+
+/**
+ * Query schemas
+ */
+export const AgentQuerySchema = z.object({
+  agentID: AgentID,
+});
+
+export const OptionalAgentQuerySchema = z.object({
+  agentID: AgentID.optional(),
+});
+
+export const AgentPerformanceQuerySchema = z.object({
+  agentID: AgentID,
+  period: z.enum(['daily', 'weekly', 'monthly']).optional(),
+});
+
+export const CustomerQuerySchema = z.object({
+  customerID: CustomerID,
+});
+
+/**
+ * Body schemas
+ */
+export const AgentBodySchema = z.object({
+  agentID: z.string().min(1, 'Agent ID is required').max(20),
+});
+
+export const WeeklyFigureLiteRequestSchema = z.object({
+  agentID: z.string().min(1, 'Agent ID is required').max(20),
+  week: z.number().int().min(0).optional(),
+  token: z.string().optional(),
+  type: z.string().optional(),
+  layout: z.enum(['byDay', 'byWeek']).optional(),
+  operation: z.string().optional(),
+  RRO: z.number().int().optional(),
+  agentOwner: z.string().optional(),
+  agentSite: z.number().int().optional(),
+});
+
+export const CryptoInfoRequestSchema = z.object({
+  account: z.string().min(1, 'Account is required'),
+  operation: z.string().optional(),
+  RRO: z.number().int().optional(),
+  agentID: z.string().optional(),
+  agentOwner: z.string().optional(),
+  agentSite: z.number().int().optional(),
+});
+
+export const InfoPlayerRequestSchema = z.object({
+  customerID: z.string().min(1, 'Customer ID is required'),
+  agentID: z.string().optional(),
+  operation: z.string().optional(),
+  RRO: z.number().int().optional(),
+  agentOwner: z.string().optional(),
+  agentSite: z.number().int().optional(),
+});
+
+/**
+ * Response schemas for the endpoints the dashboard serves itself
+ */
+export const PendingResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    pending: z.array(z.record(z.any())),
+    count: z.number().int().min(0),
+  }),
+});
+
+export const ManagerTransactionsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    transactions: z.array(z.record(z.any())),
+    count: z.number().int().min(0),
+  }),
+});
+
+export const WagerAlertsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    alerts: z.array(z.record(z.any())),
+    count: z.number().int().min(0),
+  }),
+});
+
+export const VIPCustomersResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    vipCustomers: z.array(z.record(z.any())),
+    count: z.number().int().min(0),
+  }),
+});
+
+export const LiveActivityResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    activity: z.array(z.record(z.any())),
+    timestamp: z.string().datetime(),
+  }),
+});
+
+export const BetTickerResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    bets: z.array(z.record(z.any())),
+    timestamp: z.string().datetime(),
+  }),
+});
+
+export const SportAnalyticsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    analytics: z.record(z.any()),
+    timestamp: z.string().datetime(),
+  }),
+});
+
+export const ManagerSettingsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    settings: z.record(z.any()),
+    timestamp: z.string().datetime(),
+  }),
+});
+
+// Export types for TypeScript
+export type AgentQuery = z.infer<typeof AgentQuerySchema>;
+export type AgentPerformanceQuery = z.infer<typeof AgentPerformanceQuerySchema>;
+export type CustomerQuery = z.infer<typeof CustomerQuerySchema>;
+export type AgentBody = z.infer<typeof AgentBodySchema>;
+export type WeeklyFigureLiteRequest = z.infer<typeof WeeklyFigureLiteRequestSchema>;
+export type CryptoInfoRequest = z.infer<typeof CryptoInfoRequestSchema>;
+export type InfoPlayerRequest = z.infer<typeof InfoPlayerRequestSchema>;
@@ -0,0 +1,29 @@
+/**
+ * Risk Schemas
+ * Liability book queries and market liability cap validation schemas
+ */
+
+import { z } from 'zod';
+
+/**
+ * Liability book query schema
+ */
+export const RiskExposureQuerySchema = z.object({
+  eventId: z.string().optional(),
+  // Only markets at or above this share of their cap
+  minUtilization: z.number().min(0).optional(),
+});
+
+/**
+ * Market / event liability cap schema. Omitting `marketId` caps every market
+ * of the event; `maxLiability: null` removes the cap.
+ */
+export const SetLiabilityCapRequestSchema = z.object({
+  eventId: z.string().min(1, 'Event ID is required'),
+  marketId: z.string().min(1).optional(),
+  maxLiability: z.number().min(0).nullable(),
+  onBreach: z.enum(['reject', 'manual_approval']).default('manual_approval'),
+});
+
+export type RiskExposureQuery = z.infer<typeof RiskExposureQuerySchema>;
+export type SetLiabilityCapRequest = z.infer<typeof SetLiabilityCapRequestSchema>;
@@ -1,6 +1,13 @@
 /**
  * Commission Manager Module
  * Handles commission calculations, structures, payouts, and tier management
+ *
+ * Weekly statements run across the agent hierarchy: each agent earns its
+ * tier rate on its own customers' net win after makeup (losing weeks carry
+ * forward and must be won back first), and every ancestor earns an override
+ * on the difference between its rate and what has already been paid below
+ * it. Wagers voided or regraded after their week closed are clawed back on
+ * the next statement at the rates that were paid.
  */
 
 import type {
@@ -13,14 +20,41 @@ import type {
   CommissionTier,
   CommissionCondition,
   CommissionAdjustment,
+  AgentHierarchyNode,
+  AgentWagerActivity,
+  CommissionStatement,
+  CommissionClawback,
 } from '../../../core/types/hierarchy';
 
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface RecordedWager {
+  activity: AgentWagerActivity;
+  /** Set once a weekly statement has paid on the wager */
+  countedIn?: { agentId: string; weekKey: string };
+}
+
+interface WeeklyRow {
+  agent: AgentProfile;
+  ancestors: AgentProfile[];
+  wagers: RecordedWager[];
+  netWin: number;
+  /** Net win of the agent and everything below it; picks the rate tier */
+  bookNet: number;
+}
+
 export class CommissionManager {
   private commissionStructures: Map<string, CommissionStructure> = new Map();
   private calculations: Map<string, CommissionCalculation> = new Map();
   private payouts: Map<string, AgentCommissionPayout> = new Map();
   private agentCalculations: Map<string, string[]> = new Map(); // agentId -> calculationIds
   private pendingPayouts: Map<string, AgentCommissionPayout> = new Map();
+  private wagerActivity: Map<number, RecordedWager> = new Map();
+  private statements: Map<string, CommissionStatement> = new Map();
+  private weeklyStatements: Map<string, string[]> = new Map(); // weekStart ISO -> statementIds
+  private carryovers: Map<string, number> = new Map(); // agentId -> makeup
+  private commissionBalances: Map<string, number> = new Map(); // agentId -> negative commission
+  private pendingClawbacks: Map<string, CommissionClawback[]> = new Map();
 
   constructor() {
     this.initializeDefaultStructures();
@@ -352,6 +386,288 @@ export class CommissionManager {
     };
   }
 
+  /**
+   * Record a settled, voided or regraded wager. Feed it from
+   * WagerSystem.onSettlement with houseNet = -settlementAmount, and treat an
+   * unsettled wager as void. Changes to a wager a statement already paid on
+   * return the clawbacks queued for the next statement.
+   */
+  recordWagerActivity(activity: AgentWagerActivity): CommissionClawback[] {
+    const existing = this.wagerActivity.get(activity.wagerNumber);
+    if (!existing?.countedIn) {
+      this.wagerActivity.set(activity.wagerNumber, { activity });
+      return [];
+    }
+
+    const previousNet = this.activityNet(existing.activity);
+    const revisedNet = this.activityNet(activity);
+    // The wager stays in the week it was paid in
+    existing.activity = { ...activity, settledAt: existing.activity.settledAt };
+
+    const delta = revisedNet - previousNet;
+    if (delta === 0) return [];
+
+    const { agentId, weekKey } = existing.countedIn;
+    const weekStatements = (this.weeklyStatements.get(weekKey) || [])
+      .map(id => this.statements.get(id))
+      .filter((statement): statement is CommissionStatement => statement !== undefined);
+
+    const paidRates: Array<{ agentId: string; rate: number }> = [];
+    const own = weekStatements.find(statement => statement.agentId === agentId);
+    if (own && own.commission > 0) {
+      paidRates.push({ agentId, rate: own.rate });
+    }
+    for (const statement of weekStatements) {
+      for (const line of statement.overrides) {
+        if (line.subAgentId === agentId) {
+          paidRates.push({ agentId: statement.agentId, rate: line.rate });
+        }
+      }
+    }
+
+    const clawbacks = paidRates.map(
+      ({ agentId: payee, rate }): CommissionClawback => ({
+        agentId: payee,
+        wagerNumber: activity.wagerNumber,
+        weekStart: new Date(weekKey),
+        previousNet,
+        revisedNet,
+        rate,
+        amount: this.roundCurrency(delta * rate),
+        reason: activity.status === 'void' ? 'void' : 'regrade',
+      })
+    );
+
+    for (const clawback of clawbacks) {
+      if (!this.pendingClawbacks.has(clawback.agentId)) {
+        this.pendingClawbacks.set(clawback.agentId, []);
+      }
+      this.pendingClawbacks.get(clawback.agentId)!.push(clawback);
+    }
+
+    console.log(
+      `↩️ Wager ${activity.wagerNumber} changed after its week closed: ` +
+        `${clawbacks.length} clawback(s) queued`
+    );
+    return clawbacks;
+  }
+
+  /**
+   * Close a week for every agent in the hierarchy and issue their statements
+   */
+  generateWeeklyStatements(
+    hierarchy: AgentHierarchyNode[],
+    weekStart: Date,
+    generatedAt: Date = new Date()
+  ): CommissionStatement[] {
+    const weekKey = weekStart.toISOString();
+    if (this.weeklyStatements.has(weekKey)) {
+      throw new Error(`Commission statements for the week of ${weekKey} already exist`);
+    }
+    const weekEnd = new Date(weekStart.getTime() + WEEK_MS);
+
+    const rows: WeeklyRow[] = [];
+    const issued = new Map<string, CommissionStatement>(); // agentId -> statement
+
+    const visit = (node: AgentHierarchyNode, ancestors: AgentProfile[]): number => {
+      const agent = node.agent;
+      const wagers = Array.from(this.wagerActivity.values()).filter(
+        recorded =>
+          !recorded.countedIn &&
+          recorded.activity.agentId === agent.agentID &&
+          recorded.activity.settledAt >= weekStart &&
+          recorded.activity.settledAt < weekEnd
+      );
+      const netWin = this.roundCurrency(
+        wagers.reduce((sum, recorded) => sum + this.activityNet(recorded.activity), 0)
+      );
+
+      const row: WeeklyRow = { agent, ancestors, wagers, netWin, bookNet: netWin };
+      rows.push(row);
+
+      for (const child of node.children) {
+        row.bookNet += visit(child, [agent, ...ancestors]);
+      }
+      return row.bookNet;
+    };
+    hierarchy.forEach(root => visit(root, []));
+
+    // Own commission after makeup
+    for (const row of rows) {
+      const structure = this.commissionStructures.get(row.agent.commissionStructureId);
+      if (!structure || !structure.isActive) {
+        throw new Error(
+          `Invalid or inactive commission structure for agent ${row.agent.login}: ` +
+            row.agent.commissionStructureId
+        );
+      }
+
+      const carryoverIn = this.carryovers.get(row.agent.id) || 0;
+      const adjustedNet = this.roundCurrency(row.netWin + carryoverIn);
+      const commissionableNet = Math.max(0, adjustedNet);
+      const rate = this.getEffectiveCommissionRate(structure, Math.max(0, row.bookNet));
+
+      issued.set(row.agent.id, {
+        id: this.generateStatementId(),
+        agentId: row.agent.id,
+        weekStart,
+        weekEnd,
+        wagerCount: row.wagers.length,
+        volume: this.roundCurrency(
+          row.wagers
+            .filter(recorded => recorded.activity.status === 'settled')
+            .reduce((sum, recorded) => sum + recorded.activity.amountWagered, 0)
+        ),
+        netWin: row.netWin,
+        carryoverIn,
+        commissionableNet,
+        rate,
+        commission: this.roundCurrency(commissionableNet * rate),
+        overrides: [],
+        overrideTotal: 0,
+        clawbacks: this.pendingClawbacks.get(row.agent.id) || [],
+        clawbackTotal: 0,
+        balanceIn: this.commissionBalances.get(row.agent.id) || 0,
+        carryoverOut: Math.min(0, adjustedNet),
+        balanceOut: 0,
+        netPayable: 0,
+        status: 'open',
+        generatedAt,
+      });
+    }
+
+    // Overrides up the tree on what each agent was paid on
+    for (const row of rows) {
+      const { commissionableNet, rate: ownRate } = issued.get(row.agent.id)!;
+      if (commissionableNet <= 0) continue;
+
+      let paidRate = ownRate;
+      for (const ancestor of row.ancestors) {
+        const ancestorStatement = issued.get(ancestor.id)!;
+        const rate =
+          this.findOverrideRate(ancestor, row.agent.id, weekEnd) ??
+          this.roundRate(Math.max(0, ancestorStatement.rate - paidRate));
+        if (rate <= 0) continue;
+
+        ancestorStatement.overrides.push({
+          subAgentId: row.agent.id,
+          rate,
+          net: commissionableNet,
+          amount: this.roundCurrency(commissionableNet * rate),
+        });
+        paidRate = this.roundRate(paidRate + rate);
+      }
+    }
+
+    // Totals, negative balances and bookkeeping
+    for (const row of rows) {
+      const statement = issued.get(row.agent.id)!;
+      statement.overrideTotal = this.roundCurrency(
+        statement.overrides.reduce((sum, line) => sum + line.amount, 0)
+      );
+      statement.clawbackTotal = this.roundCurrency(
+        statement.clawbacks.reduce((sum, clawback) => sum + clawback.amount, 0)
+      );
+
+      const gross = this.roundCurrency(
+        statement.commission +
+          statement.overrideTotal +
+          statement.clawbackTotal +
+          statement.balanceIn
+      );
+      statement.netPayable = Math.max(0, gross);
+      statement.balanceOut = Math.min(0, gross);
+
+      this.carryovers.set(row.agent.id, statement.carryoverOut);
+      this.commissionBalances.set(row.agent.id, statement.balanceOut);
+      this.pendingClawbacks.delete(row.agent.id);
+      row.wagers.forEach(recorded => {
+        recorded.countedIn = { agentId: row.agent.id, weekKey };
+      });
+      this.statements.set(statement.id, statement);
+    }
+
+    const statements = Array.from(issued.values());
+    this.weeklyStatements.set(weekKey, statements.map(statement => statement.id));
+
+    console.log(`🧾 Generated ${statements.length} commission statements for week of ${weekKey}`);
+    return statements;
+  }
+
+  /**
+   * Turn a statement's payable amount into a pending payout
+   */
+  createStatementPayout(
+    statementId: string,
+    processedBy: string,
+    paymentMethod: AgentCommissionPayout['paymentMethod'] = 'bank_transfer'
+  ): AgentCommissionPayout | null {
+    const statement = this.statements.get(statementId);
+    if (!statement) {
+      console.warn(`⚠️ Commission statement not found: ${statementId}`);
+      return null;
+    }
+
+    if (statement.status !== 'open') {
+      console.warn(`⚠️ Statement already has a payout: ${statementId} (${statement.payoutId})`);
+      return null;
+    }
+
+    if (statement.netPayable <= 0) {
+      console.warn(`⚠️ Nothing payable on statement ${statementId}`);
+      return null;
+    }
+
+    const grossCommission = this.roundCurrency(statement.commission + statement.overrideTotal);
+    const payout = this.createPayout({
+      agentId: statement.agentId,
+      period: 'weekly',
+      startDate: statement.weekStart,
+      endDate: statement.weekEnd,
+      grossCommission,
+      adjustments: this.roundCurrency(statement.netPayable - grossCommission),
+      netAmount: statement.netPayable,
+      paymentMethod,
+      status: 'pending',
+      processedBy,
+      notes: `Weekly commission statement ${statement.id}`,
+    });
+
+    statement.status = 'payout_created';
+    statement.payoutId = payout.id;
+    return payout;
+  }
+
+  /**
+   * Get commission statement
+   */
+  getStatement(statementId: string): CommissionStatement | null {
+    return this.statements.get(statementId) || null;
+  }
+
+  /**
+   * Get weekly statements for agent, newest first
+   */
+  getAgentStatements(agentId: string): CommissionStatement[] {
+    return Array.from(this.statements.values())
+      .filter(statement => statement.agentId === agentId)
+      .sort((a, b) => b.weekStart.getTime() - a.weekStart.getTime());
+  }
+
+  /**
+   * Get makeup an agent must win back before earning again
+   */
+  getCarryover(agentId: string): number {
+    return this.carryovers.get(agentId) || 0;
+  }
+
+  /**
+   * Get clawbacks waiting for the agent's next statement
+   */
+  getPendingClawbacks(agentId: string): CommissionClawback[] {
+    return [...(this.pendingClawbacks.get(agentId) || [])];
+  }
+
   // Private methods
 
   private initializeDefaultStructures(): void {
@@ -406,6 +722,37 @@ export class CommissionManager {
     return `payout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private generateStatementId(): string {
+    return `statement_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private activityNet(activity: AgentWagerActivity): number {
+    return activity.status === 'void' ? 0 : activity.houseNet;
+  }
+
+  /**
+   * Fixed override rate an ancestor's structure sets for a sub-agent
+   */
+  private findOverrideRate(
+    ancestor: AgentProfile,
+    subAgentId: string,
+    at: Date
+  ): number | undefined {
+    const structure = this.commissionStructures.get(ancestor.commissionStructureId);
+    return structure?.overrides?.find(
+      override =>
+        override.agentId === subAgentId && (!override.expiresAt || override.expiresAt > at)
+    )?.rate;
+  }
+
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private roundRate(rate: number): number {
+    return Math.round(rate * 1e6) / 1e6;
+  }
+
   private calculateBaseCommission(structure: CommissionStructure, revenue: number): number {
     if (structure.type === 'flat') {
       return structure.baseRate;
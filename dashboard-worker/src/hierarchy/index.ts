@@ -5,6 +5,7 @@
 
 import { AgentProfileManager } from './agents/agent-profile-manager';
 import { CommissionManager } from './commissions/commission-manager';
+import type { AgentWagerActivity } from '../../core/types/hierarchy';
 
 export * from '../../core/types/hierarchy';
 
@@ -270,6 +271,37 @@ export class HierarchySystem {
     return this.commissionManager.getCommissionSummary(agentId, period);
   }
 
+  /**
+   * Record a settled, voided or regraded wager for weekly commission
+   */
+  recordWagerActivity(activity: AgentWagerActivity) {
+    return this.commissionManager.recordWagerActivity(activity);
+  }
+
+  /**
+   * Close a week across the hierarchy and issue commission statements
+   */
+  generateWeeklyCommissionStatements(weekStart: Date, rootAgentId?: string) {
+    return this.commissionManager.generateWeeklyStatements(
+      this.agentManager.getHierarchyTree(rootAgentId),
+      weekStart
+    );
+  }
+
+  /**
+   * Create payout from commission statement
+   */
+  createStatementPayout(statementId: string, processedBy: string, paymentMethod?: any) {
+    return this.commissionManager.createStatementPayout(statementId, processedBy, paymentMethod);
+  }
+
+  /**
+   * Get commission statements for agent
+   */
+  getAgentCommissionStatements(agentId: string) {
+    return this.commissionManager.getAgentStatements(agentId);
+  }
+
   /**
    * Get commission statistics
    */
@@ -1,6 +1,7 @@
 import { Router } from 'itty-router';
 import jwt from 'jsonwebtoken';
 import { Fire22CacheInterface } from './types';
+import { WeeklyCloseout, WeeklyCloseoutError } from './weekly-closeout';
 
 // Import dashboard HTML (you may need to adjust this import based on your setup)
 const dashboardHtml = `<!DOCTYPE html><html><head><title>Dashboard</title></head><body><h1>Fire22 Dashboard</h1><p>Dashboard loading...</p></body></html>`;
@@ -777,6 +778,9 @@ router.post('/api/admin/settle-wager', async (request: Request, env: any) => {
   try {
     const { wagerId, settlementStatus, settlementAmount } = await request.json();
 
+    // Wagers in a closed week stay put until the week is reopened
+    await new WeeklyCloseout(env.DB).assertWagersEditable([wagerId]);
+
     const updateQuery = `
       UPDATE wagers 
       SET settlement_status = ?, settlement_amount = ?, settled_at = datetime('now')
@@ -803,7 +807,7 @@ router.post('/api/admin/settle-wager', async (request: Request, env: any) => {
         message: error.message,
       }),
       {
-        status: 500,
+        status: error instanceof WeeklyCloseoutError ? error.statusCode : 500,
         headers: { 'Content-Type': 'application/json' },
       }
     );
@@ -815,6 +819,8 @@ router.post('/api/admin/bulk-settle', async (request: Request, env: any) => {
   try {
     const { wagerIds, settlementStatus, settlementAmount } = await request.json();
 
+    await new WeeklyCloseout(env.DB).assertWagersEditable(wagerIds);
+
     const updateQuery = `
       UPDATE wagers 
       SET settlement_status = ?, settlement_amount = ?, settled_at = datetime('now')
@@ -843,7 +849,7 @@ router.post('/api/admin/bulk-settle', async (request: Request, env: any) => {
         message: error.message,
       }),
       {
-        status: 500,
+        status: error instanceof WeeklyCloseoutError ? error.statusCode : 500,
         headers: { 'Content-Type': 'application/json' },
       }
     );
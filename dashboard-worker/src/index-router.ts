@@ -1,6 +1,7 @@
 import { Router } from 'itty-router';
 import jwt from 'jsonwebtoken';
 import { Fire22CacheInterface } from './types';
+import { WeeklyCloseout } from './weekly-closeout';
 
 // Import dashboard HTML (you may need to adjust this import based on your setup)
 const dashboardHtml = `<!DOCTYPE html><html><head><title>Dashboard</title></head><body><h1>Fire22 Dashboard</h1><p>Dashboard loading...</p></body></html>`;
@@ -332,10 +333,42 @@ router.post('/api/auth/login', async (request: Request, env: any) => {
 router.use('/api/admin/*', authMiddleware);
 router.use('/api/manager/*', authMiddleware);
 
+// Closed weeks are served from the figures frozen at close-out
+async function frozenWeeklyFigures(env: any, agentID: string, weekStart: string | null) {
+  if (!weekStart) return null;
+
+  const closeout = new WeeklyCloseout(env.DB);
+  const period = await closeout.getPeriod(weekStart);
+  if (!period) return null;
+
+  const [agent] = await closeout.getAgentFigures(weekStart, agentID);
+  return new Response(
+    JSON.stringify({
+      success: true,
+      data: {
+        agentID,
+        period,
+        frozen: true,
+        agent: agent ?? null,
+        customers: await closeout.getCustomerFigures(weekStart, agentID),
+        totalHandle: agent?.handle ?? 0,
+        totalWin: agent?.houseNet ?? 0,
+        totalBets: agent?.wagerCount ?? 0,
+      },
+    }),
+    {
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
 // Manager routes
 router.post('/api/manager/getWeeklyFigureByAgent', async (request: Request, env: any) => {
   try {
-    const { agentID = 'BLAKEPPH' } = await request.json();
+    const { agentID = 'BLAKEPPH', weekStart = null } = await request.json();
+
+    const frozen = await frozenWeeklyFigures(env, agentID, weekStart);
+    if (frozen) return frozen;
 
     // Get weekly data from database
     const weeklyQuery = `
@@ -407,6 +440,9 @@ router.get('/api/manager/getWeeklyFigureByAgent', async (request: Request, env:
     const agentID = url.searchParams.get('agentID') || 'BLAKEPPH';
     const week = url.searchParams.get('week') || '0';
 
+    const frozen = await frozenWeeklyFigures(env, agentID, url.searchParams.get('weekStart'));
+    if (frozen) return frozen;
+
     // Get weekly data from database
     const weeklyQuery = `
       SELECT
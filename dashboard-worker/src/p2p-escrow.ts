@@ -0,0 +1,758 @@
+/**
+ * P2P Match Escrow
+ *
+ * Tracks an approved match slice while the money moves outside the system.
+ * The withdrawing customer's balance is held for the slice amount; the
+ * depositing customer pays them directly, claims the payment, and the
+ * recipient confirms it. Disputes go to a moderator who either releases the
+ * hold to the depositor or reverses it back to the withdrawer.
+ *
+ * awaiting_payment → payment_claimed → confirmed is the happy path. Either
+ * party may dispute before confirmation and an unconfirmed claim becomes a
+ * dispute on timeout; a moderator moves disputed to resolved. Escrows never
+ * claimed in time expire and are reversed.
+ */
+
+import type { BunR2Client } from './utils/bun-r2-client';
+import { hasAnyPermission } from './api/middleware/authorize.middleware';
+import {
+  queryAll,
+  releaseAllocation,
+  runBatch,
+  type MatchingDatabase,
+  type SqlStatement,
+} from './p2p-matching-core';
+
+export type EscrowStatus =
+  | 'awaiting_payment'
+  | 'payment_claimed'
+  | 'confirmed'
+  | 'disputed'
+  | 'resolved'
+  | 'expired';
+
+/** release: the depositor is credited; reverse: the withdrawer gets the hold back */
+export type EscrowDecision = 'release' | 'reverse';
+
+export interface EscrowTimeouts {
+  /** Depositor must claim the payment within this window or the escrow expires */
+  awaitingPaymentMs?: number;
+  /** Recipient must confirm within this window or the escrow is disputed */
+  paymentClaimedMs?: number;
+  /** Moderator response target; overdue disputes are reported, never auto-decided */
+  disputedMs?: number;
+}
+
+export interface EscrowOptions {
+  timeouts?: EscrowTimeouts;
+  maxEvidenceBytes?: number;
+}
+
+export interface P2PEscrowRecord {
+  id: string;
+  matchId: string;
+  withdrawalId: string;
+  depositId: string;
+  /** Deposit side: sends the money */
+  payerCustomerId: string;
+  /** Withdrawal side: receives the money, balance held meanwhile */
+  payeeCustomerId: string;
+  amount: number;
+  status: EscrowStatus;
+  deadlineAt?: Date;
+  decision?: EscrowDecision;
+  disputeReason?: string;
+  disputedBy?: string;
+  resolvedBy?: string;
+  resolutionNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EscrowEvidence {
+  id: string;
+  escrowId: string;
+  uploadedBy: string;
+  objectKey: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface EvidenceUpload {
+  fileName: string;
+  contentType: string;
+  data: Uint8Array | string | Blob;
+}
+
+export interface EscrowEvent {
+  escrowId: string;
+  from: EscrowStatus | null;
+  to: EscrowStatus;
+  actor: string;
+  note?: string;
+  at: Date;
+}
+
+/** The user deciding a dispute, as authenticated on the request */
+export interface EscrowModerator {
+  id: string;
+  permissions: string[];
+}
+
+export interface EscrowSweep {
+  expired: string[];
+  disputed: string[];
+  overdueDisputes: string[];
+}
+
+const DEFAULT_TIMEOUTS: Required<EscrowTimeouts> = {
+  awaitingPaymentMs: 30 * 60 * 1000,
+  paymentClaimedMs: 24 * 60 * 60 * 1000,
+  disputedMs: 72 * 60 * 60 * 1000,
+};
+
+const TRANSITIONS: Record<EscrowStatus, EscrowStatus[]> = {
+  awaiting_payment: ['payment_claimed', 'disputed', 'expired'],
+  payment_claimed: ['confirmed', 'disputed'],
+  disputed: ['resolved'],
+  confirmed: [],
+  resolved: [],
+  expired: [],
+};
+
+const EVIDENCE_TYPES = /^(image\/(png|jpeg|gif|webp)|application\/pdf|text\/plain)$/;
+
+const OPEN_STATUSES: EscrowStatus[] = ['awaiting_payment', 'payment_claimed', 'disputed'];
+
+const MODERATOR_PERMISSIONS = ['p2p.moderate', 'admin.*'];
+
+/** Raised by the schema triggers; the whole escrow batch rolls back */
+const STATUS_CONFLICT = 'escrow status conflict';
+const HOLD_CONFLICT = 'escrow hold conflict';
+
+export class P2PEscrow {
+  private schemaReady = false;
+  private readonly timeouts: Required<EscrowTimeouts>;
+  private readonly maxEvidenceBytes: number;
+
+  constructor(
+    private readonly db: MatchingDatabase,
+    private readonly storage: BunR2Client,
+    options: EscrowOptions = {}
+  ) {
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...options.timeouts };
+    this.maxEvidenceBytes = options.maxEvidenceBytes ?? 10 * 1024 * 1024;
+  }
+
+  async ensureSchema(): Promise<void> {
+    if (this.schemaReady) return;
+
+    await runBatch(this.db, [
+      [
+        `CREATE TABLE IF NOT EXISTS p2p_escrows (
+          id TEXT PRIMARY KEY,
+          match_id TEXT NOT NULL UNIQUE,
+          withdrawal_id TEXT NOT NULL,
+          deposit_id TEXT NOT NULL,
+          payer_customer_id TEXT NOT NULL,
+          payee_customer_id TEXT NOT NULL,
+          amount REAL NOT NULL,
+          status TEXT NOT NULL,
+          deadline_at TEXT,
+          decision TEXT,
+          dispute_reason TEXT,
+          disputed_by TEXT,
+          resolved_by TEXT,
+          resolution_notes TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS p2p_escrow_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          escrow_id TEXT NOT NULL,
+          status_from TEXT,
+          status_to TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS p2p_escrow_evidence (
+          id TEXT PRIMARY KEY,
+          escrow_id TEXT NOT NULL,
+          uploaded_by TEXT NOT NULL,
+          object_key TEXT NOT NULL,
+          file_name TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          created_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      // A transition's event row goes in first, so a batch that lost a race
+      // for the status aborts before any of its balance or queue updates
+      [
+        `CREATE TRIGGER IF NOT EXISTS p2p_escrow_events_status_guard
+         BEFORE INSERT ON p2p_escrow_events
+         WHEN NEW.status_from IS NOT NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM p2p_escrows WHERE id = NEW.escrow_id AND status = NEW.status_from
+           )
+         BEGIN
+           SELECT RAISE(ABORT, '${STATUS_CONFLICT}');
+         END`,
+        [],
+      ],
+      [
+        `CREATE TRIGGER IF NOT EXISTS p2p_escrows_hold_guard
+         BEFORE INSERT ON p2p_escrows
+         WHEN NOT EXISTS (
+           SELECT 1 FROM players WHERE customer_id = NEW.payee_customer_id AND balance >= NEW.amount
+         )
+         BEGIN
+           SELECT RAISE(ABORT, '${HOLD_CONFLICT}');
+         END`,
+        [],
+      ],
+    ]);
+
+    this.schemaReady = true;
+  }
+
+  /**
+   * Open escrow for an approved (processing) match slice and hold the
+   * withdrawer's balance
+   */
+  async open(matchId: string, now: Date = new Date()): Promise<P2PEscrowRecord> {
+    await this.ensureSchema();
+
+    const existing = await this.getByMatch(matchId);
+    if (existing) {
+      throw new Error(`Match ${matchId} already has escrow ${existing.id}`);
+    }
+
+    const [match] = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT m.id, m.withdrawal_id, m.deposit_id, m.amount, m.status,
+              w.customer_id AS payee, d.customer_id AS payer
+       FROM queue_matches m
+       JOIN queue_items w ON w.id = m.withdrawal_id
+       JOIN queue_items d ON d.id = m.deposit_id
+       WHERE m.id = ?`,
+      [matchId]
+    );
+    if (!match) {
+      throw new Error(`Match ${matchId} not found`);
+    }
+    if (match.status !== 'processing') {
+      throw new Error(`Match ${matchId} is ${match.status}, expected processing`);
+    }
+
+    const amount = Number(match.amount);
+    const [payee] = await queryAll<{ balance: number }>(
+      this.db,
+      `SELECT balance FROM players WHERE customer_id = ?`,
+      [match.payee]
+    );
+    if (!payee) {
+      throw new Error(`Customer ${match.payee} not found`);
+    }
+    if (Number(payee.balance) < amount) {
+      throw new Error(`Customer ${match.payee} has insufficient balance to hold ${amount}`);
+    }
+
+    const escrow: P2PEscrowRecord = {
+      id: crypto.randomUUID(),
+      matchId,
+      withdrawalId: match.withdrawal_id,
+      depositId: match.deposit_id,
+      payerCustomerId: match.payer,
+      payeeCustomerId: match.payee,
+      amount,
+      status: 'awaiting_payment',
+      deadlineAt: new Date(now.getTime() + this.timeouts.awaitingPaymentMs),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // The balance may have moved since the check above; the hold trigger
+    // re-checks it inside the batch
+    try {
+      await runBatch(this.db, [
+        [
+          `INSERT INTO p2p_escrows (id, match_id, withdrawal_id, deposit_id, payer_customer_id, payee_customer_id, amount, status, deadline_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            escrow.id,
+            matchId,
+            escrow.withdrawalId,
+            escrow.depositId,
+            escrow.payerCustomerId,
+            escrow.payeeCustomerId,
+            amount,
+            escrow.status,
+            escrow.deadlineAt!.toISOString(),
+            now.toISOString(),
+            now.toISOString(),
+          ],
+        ],
+        [
+          `UPDATE players SET balance = balance - ?, pending = pending + ?
+           WHERE customer_id = ? AND balance >= ?`,
+          [amount, amount, escrow.payeeCustomerId, amount],
+        ],
+        this.event(escrow.id, null, 'awaiting_payment', 'system', `Holding ${amount}`, now),
+      ]);
+    } catch (error) {
+      if (isConflict(error, HOLD_CONFLICT)) {
+        throw new Error(`Customer ${match.payee} has insufficient balance to hold ${amount}`);
+      }
+      throw error;
+    }
+
+    return escrow;
+  }
+
+  /**
+   * Depositor reports that the money has been sent
+   */
+  async claimPayment(
+    escrowId: string,
+    customerId: string,
+    now: Date = new Date()
+  ): Promise<P2PEscrowRecord> {
+    const escrow = await this.require(escrowId);
+    this.assertParty(escrow, customerId, 'payer');
+
+    return this.transition(escrow, 'payment_claimed', customerId, {
+      now,
+      note: 'Payment sent',
+      deadlineAt: new Date(now.getTime() + this.timeouts.paymentClaimedMs),
+    });
+  }
+
+  /**
+   * Recipient confirms the money arrived; the hold is released to the depositor
+   */
+  async confirmPayment(
+    escrowId: string,
+    customerId: string,
+    now: Date = new Date()
+  ): Promise<P2PEscrowRecord> {
+    const escrow = await this.require(escrowId);
+    this.assertParty(escrow, customerId, 'payee');
+
+    return this.transition(escrow, 'confirmed', customerId, {
+      now,
+      note: 'Payment received',
+      settle: 'release',
+    });
+  }
+
+  /**
+   * Either party disputes the payment; a moderator decides the outcome
+   */
+  async dispute(
+    escrowId: string,
+    customerId: string,
+    reason: string,
+    now: Date = new Date()
+  ): Promise<P2PEscrowRecord> {
+    const escrow = await this.require(escrowId);
+    this.assertParty(escrow, customerId);
+    if (!reason.trim()) {
+      throw new Error('A dispute needs a reason');
+    }
+
+    return this.transition(escrow, 'disputed', customerId, {
+      now,
+      note: reason,
+      deadlineAt: new Date(now.getTime() + this.timeouts.disputedMs),
+      fields: { dispute_reason: reason, disputed_by: customerId },
+    });
+  }
+
+  /**
+   * Moderator decision on a dispute; only moderators and admins who are not
+   * a party to the escrow may decide it
+   */
+  async resolve(
+    escrowId: string,
+    moderator: EscrowModerator,
+    decision: EscrowDecision,
+    notes: string,
+    now: Date = new Date()
+  ): Promise<P2PEscrowRecord> {
+    const moderatorId = moderator.id;
+    if (!hasAnyPermission(moderator.permissions, MODERATOR_PERMISSIONS)) {
+      throw new Error(`${moderatorId} is not allowed to resolve escrow disputes`);
+    }
+
+    const escrow = await this.require(escrowId);
+    if (escrow.payerCustomerId === moderatorId || escrow.payeeCustomerId === moderatorId) {
+      throw new Error(`Moderator ${moderatorId} is a party to escrow ${escrowId}`);
+    }
+
+    return this.transition(escrow, 'resolved', moderatorId, {
+      now,
+      note: `${decision}: ${notes}`,
+      settle: decision,
+      fields: { decision, resolved_by: moderatorId, resolution_notes: notes },
+    });
+  }
+
+  /**
+   * Apply per-state timeouts: unpaid escrows expire and are reversed,
+   * unconfirmed claims become disputes
+   */
+  async sweep(now: Date = new Date()): Promise<EscrowSweep> {
+    await this.ensureSchema();
+    const due = (
+      await queryAll<Record<string, any>>(
+        this.db,
+        `SELECT * FROM p2p_escrows WHERE status IN (?, ?, ?) AND deadline_at <= ? ORDER BY deadline_at`,
+        [...OPEN_STATUSES, now.toISOString()]
+      )
+    ).map(toEscrow);
+
+    const result: EscrowSweep = { expired: [], disputed: [], overdueDisputes: [] };
+    for (const escrow of due) {
+      try {
+        if (escrow.status === 'awaiting_payment') {
+          await this.transition(escrow, 'expired', 'system', {
+            now,
+            note: 'Payment was not claimed in time',
+            settle: 'reverse',
+          });
+          result.expired.push(escrow.id);
+        } else if (escrow.status === 'payment_claimed') {
+          const reason = 'Recipient did not confirm the payment in time';
+          await this.transition(escrow, 'disputed', 'system', {
+            now,
+            note: reason,
+            deadlineAt: new Date(now.getTime() + this.timeouts.disputedMs),
+            fields: { dispute_reason: reason, disputed_by: 'system' },
+          });
+          result.disputed.push(escrow.id);
+        } else {
+          result.overdueDisputes.push(escrow.id);
+        }
+      } catch (error) {
+        // A party or moderator acted on it since the snapshot; leave it be
+        if ((await this.get(escrow.id))?.status !== escrow.status) continue;
+        throw error;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Store a screenshot or receipt for an open escrow
+   */
+  async addEvidence(
+    escrowId: string,
+    customerId: string,
+    upload: EvidenceUpload,
+    now: Date = new Date()
+  ): Promise<EscrowEvidence> {
+    const escrow = await this.require(escrowId);
+    this.assertParty(escrow, customerId);
+    if (!OPEN_STATUSES.includes(escrow.status)) {
+      throw new Error(`Escrow ${escrowId} is ${escrow.status} and no longer accepts evidence`);
+    }
+    if (!EVIDENCE_TYPES.test(upload.contentType)) {
+      throw new Error(`Evidence type ${upload.contentType} is not accepted`);
+    }
+    const size =
+      typeof upload.data === 'string'
+        ? Buffer.byteLength(upload.data)
+        : upload.data instanceof Blob
+          ? upload.data.size
+          : upload.data.byteLength;
+    if (size > this.maxEvidenceBytes) {
+      throw new Error(`Evidence is ${size} bytes, the limit is ${this.maxEvidenceBytes}`);
+    }
+
+    const id = crypto.randomUUID();
+    const fileName = upload.fileName.replace(/[^\w.-]+/g, '_').slice(-100) || 'evidence';
+    const evidence: EscrowEvidence = {
+      id,
+      escrowId,
+      uploadedBy: customerId,
+      objectKey: `p2p-escrow/${escrowId}/${id}-${fileName}`,
+      fileName,
+      contentType: upload.contentType,
+      size,
+      createdAt: now,
+    };
+
+    const data = upload.data instanceof Uint8Array ? Buffer.from(upload.data) : upload.data;
+    await this.storage.putObject(evidence.objectKey, data, {
+      contentType: upload.contentType,
+      metadata: { escrow: escrowId, uploadedBy: customerId },
+    });
+    await runBatch(this.db, [
+      [
+        `INSERT INTO p2p_escrow_evidence (id, escrow_id, uploaded_by, object_key, file_name, content_type, size, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          escrowId,
+          customerId,
+          evidence.objectKey,
+          fileName,
+          upload.contentType,
+          size,
+          now.toISOString(),
+        ],
+      ],
+    ]);
+
+    return evidence;
+  }
+
+  async getEvidence(escrowId: string): Promise<EscrowEvidence[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM p2p_escrow_evidence WHERE escrow_id = ? ORDER BY created_at, rowid`,
+      [escrowId]
+    );
+    return rows.map(row => ({
+      id: row.id,
+      escrowId: row.escrow_id,
+      uploadedBy: row.uploaded_by,
+      objectKey: row.object_key,
+      fileName: row.file_name,
+      contentType: row.content_type,
+      size: Number(row.size),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  /**
+   * Stream a stored evidence file
+   */
+  async readEvidence(evidence: EscrowEvidence): Promise<Response> {
+    return this.storage.getObject(evidence.objectKey);
+  }
+
+  async getHistory(escrowId: string): Promise<EscrowEvent[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM p2p_escrow_events WHERE escrow_id = ? ORDER BY id`,
+      [escrowId]
+    );
+    return rows.map(row => ({
+      escrowId: row.escrow_id,
+      from: row.status_from ?? null,
+      to: row.status_to,
+      actor: row.actor,
+      note: row.note ?? undefined,
+      at: new Date(row.created_at),
+    }));
+  }
+
+  async get(escrowId: string): Promise<P2PEscrowRecord | null> {
+    await this.ensureSchema();
+    const [row] = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM p2p_escrows WHERE id = ?`,
+      [escrowId]
+    );
+    return row ? toEscrow(row) : null;
+  }
+
+  async getByMatch(matchId: string): Promise<P2PEscrowRecord | null> {
+    await this.ensureSchema();
+    const [row] = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM p2p_escrows WHERE match_id = ?`,
+      [matchId]
+    );
+    return row ? toEscrow(row) : null;
+  }
+
+  /**
+   * Escrows a customer is party to, open ones first
+   */
+  async listForCustomer(customerId: string, openOnly = false): Promise<P2PEscrowRecord[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM p2p_escrows
+       WHERE (payer_customer_id = ? OR payee_customer_id = ?)
+       ORDER BY CASE WHEN status IN (?, ?, ?) THEN 0 ELSE 1 END, created_at DESC`,
+      [customerId, customerId, ...OPEN_STATUSES]
+    );
+    const escrows = rows.map(toEscrow);
+    return openOnly ? escrows.filter(escrow => OPEN_STATUSES.includes(escrow.status)) : escrows;
+  }
+
+  // !== HELPERS !==
+
+  private async require(escrowId: string): Promise<P2PEscrowRecord> {
+    const escrow = await this.get(escrowId);
+    if (!escrow) {
+      throw new Error(`Escrow ${escrowId} not found`);
+    }
+    return escrow;
+  }
+
+  private assertParty(escrow: P2PEscrowRecord, customerId: string, role?: 'payer' | 'payee'): void {
+    const allowed =
+      role === 'payer'
+        ? [escrow.payerCustomerId]
+        : role === 'payee'
+          ? [escrow.payeeCustomerId]
+          : [escrow.payerCustomerId, escrow.payeeCustomerId];
+    if (!allowed.includes(customerId)) {
+      throw new Error(
+        `Customer ${customerId} cannot act on escrow ${escrow.id}${role ? ` as the ${role}` : ''}`
+      );
+    }
+  }
+
+  private async transition(
+    escrow: P2PEscrowRecord,
+    to: EscrowStatus,
+    actor: string,
+    change: {
+      now: Date;
+      note?: string;
+      deadlineAt?: Date;
+      settle?: EscrowDecision;
+      fields?: Record<string, string>;
+    }
+  ): Promise<P2PEscrowRecord> {
+    if (!TRANSITIONS[escrow.status].includes(to)) {
+      throw new Error(`Escrow ${escrow.id} cannot move from ${escrow.status} to ${to}`);
+    }
+
+    const fields: Record<string, string | null> = {
+      status: to,
+      deadline_at: change.deadlineAt?.toISOString() ?? null,
+      updated_at: change.now.toISOString(),
+      ...change.fields,
+    };
+    const columns = Object.keys(fields);
+    const statements: SqlStatement[] = [
+      this.event(escrow.id, escrow.status, to, actor, change.note, change.now),
+      [
+        `UPDATE p2p_escrows SET ${columns.map(column => `${column} = ?`).join(', ')}
+         WHERE id = ? AND status = ?`,
+        [...columns.map(column => fields[column]), escrow.id, escrow.status],
+      ],
+    ];
+    if (change.settle) {
+      statements.push(...this.settle(escrow, change.settle, change.note ?? to));
+    }
+
+    try {
+      await runBatch(this.db, statements);
+    } catch (error) {
+      if (isConflict(error, STATUS_CONFLICT)) {
+        throw new Error(`Escrow ${escrow.id} is no longer ${escrow.status}`);
+      }
+      throw error;
+    }
+    return (await this.get(escrow.id))!;
+  }
+
+  /**
+   * Move the held amount. Releasing completes the match slice; reversing
+   * fails it and returns the allocation to both queue orders.
+   */
+  private settle(escrow: P2PEscrowRecord, decision: EscrowDecision, note: string): SqlStatement[] {
+    if (decision === 'release') {
+      return [
+        [
+          `UPDATE players SET pending = pending - ? WHERE customer_id = ?`,
+          [escrow.amount, escrow.payeeCustomerId],
+        ],
+        [
+          `UPDATE players SET balance = balance + ? WHERE customer_id = ?`,
+          [escrow.amount, escrow.payerCustomerId],
+        ],
+        [
+          `UPDATE queue_matches SET status = 'completed', completed_at = datetime('now') WHERE id = ?`,
+          [escrow.matchId],
+        ],
+        ...[escrow.withdrawalId, escrow.depositId].map(
+          (itemId): SqlStatement => [
+            `UPDATE queue_items SET status = 'completed'
+             WHERE id = ? AND allocated_amount >= amount
+               AND NOT EXISTS (
+                 SELECT 1 FROM queue_matches
+                 WHERE status IN ('pending', 'processing')
+                   AND (withdrawal_id = queue_items.id OR deposit_id = queue_items.id)
+               )`,
+            [itemId],
+          ]
+        ),
+      ];
+    }
+
+    return [
+      [
+        `UPDATE players SET pending = pending - ?, balance = balance + ? WHERE customer_id = ?`,
+        [escrow.amount, escrow.amount, escrow.payeeCustomerId],
+      ],
+      [
+        `UPDATE queue_matches SET status = 'failed', notes = ? WHERE id = ?`,
+        [note, escrow.matchId],
+      ],
+      releaseAllocation(escrow.withdrawalId, escrow.amount),
+      releaseAllocation(escrow.depositId, escrow.amount),
+    ];
+  }
+
+  private event(
+    escrowId: string,
+    from: EscrowStatus | null,
+    to: EscrowStatus,
+    actor: string,
+    note: string | undefined,
+    now: Date
+  ): SqlStatement {
+    return [
+      `INSERT INTO p2p_escrow_events (escrow_id, status_from, status_to, actor, note, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [escrowId, from, to, actor, note ?? null, now.toISOString()],
+    ];
+  }
+}
+
+function isConflict(error: unknown, conflict: string): boolean {
+  return error instanceof Error && error.message.includes(conflict);
+}
+
+function toEscrow(row: Record<string, any>): P2PEscrowRecord {
+  return {
+    id: row.id,
+    matchId: row.match_id,
+    withdrawalId: row.withdrawal_id,
+    depositId: row.deposit_id,
+    payerCustomerId: row.payer_customer_id,
+    payeeCustomerId: row.payee_customer_id,
+    amount: Number(row.amount),
+    status: row.status,
+    deadlineAt: row.deadline_at ? new Date(row.deadline_at) : undefined,
+    decision: row.decision ?? undefined,
+    disputeReason: row.dispute_reason ?? undefined,
+    disputedBy: row.disputed_by ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    resolutionNotes: row.resolution_notes ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
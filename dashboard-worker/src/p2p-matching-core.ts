@@ -0,0 +1,732 @@
+/**
+ * P2P Matching Core
+ *
+ * Single matcher for the P2P deposit/withdrawal queue. Withdrawals are split
+ * across several deposits and deposits across several withdrawals; every
+ * slice respects a minimum size and never leaves a stub below it.
+ *
+ * Fairness: orders are ranked by effective priority (priority plus one level
+ * per aging interval waited), then FIFO by creation time, then by id. The
+ * plan is a pure function of the orders and options, so each run stores its
+ * input snapshot and can be replayed to reproduce every decision.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { D1Database } from '@cloudflare/workers-types';
+
+export const MATCHING_ALGORITHM_VERSION = '3.0.0';
+
+export type OrderType = 'withdrawal' | 'deposit';
+
+export interface MatchableOrder {
+  id: string;
+  type: OrderType;
+  customerId: string;
+  amount: number;
+  /** Already allocated to earlier slices */
+  allocatedAmount: number;
+  paymentType: string;
+  priority: number;
+  createdAt: Date;
+}
+
+export interface MatchingOptions {
+  /** Smallest slice, and smallest remainder a slice may leave behind */
+  minSlice?: number;
+  /** Payment types that settle each other, e.g. [['bank_transfer', 'ach', 'wire']] */
+  compatibleGroups?: string[][];
+  /** Each full interval waited adds one priority level; 0 disables aging */
+  agingMinutes?: number;
+  /** Most slices one order is split into */
+  maxSlicesPerOrder?: number;
+}
+
+export interface SliceExplanation {
+  withdrawal: RankedOrderSummary;
+  deposit: RankedOrderSummary;
+  /** Deposits passed over for this withdrawal before this slice, in rank order */
+  skipped: Array<{ depositId: string; reason: string }>;
+  reasons: string[];
+}
+
+export interface RankedOrderSummary {
+  id: string;
+  rank: number;
+  priority: number;
+  effectivePriority: number;
+  createdAt: string;
+  paymentType: string;
+  remainingBefore: number;
+}
+
+export interface P2PFill {
+  withdrawalId: string;
+  depositId: string;
+  amount: number;
+  /** Share of the withdrawal this slice covers, 0-100 */
+  matchScore: number;
+  explanation: SliceExplanation;
+}
+
+export interface MatchingPlan {
+  algorithmVersion: string;
+  /** Fingerprint of the orders, options and time the plan was built from */
+  inputFingerprint: string;
+  fills: P2PFill[];
+  unmatched: Array<{ orderId: string; type: OrderType; remaining: number; reason: string }>;
+}
+
+const DEFAULT_OPTIONS: Required<MatchingOptions> = {
+  minSlice: 10,
+  compatibleGroups: [],
+  agingMinutes: 60,
+  maxSlicesPerOrder: 5,
+};
+
+// !== PLANNING !==
+
+/**
+ * Plan fills for the open orders. Deterministic for the same orders, options
+ * and `now`.
+ */
+export function planP2PMatches(
+  orders: MatchableOrder[],
+  options: MatchingOptions = {},
+  now: Date = new Date()
+): MatchingPlan {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const remaining = new Map(
+    orders.map(order => [order.id, round(order.amount - order.allocatedAmount)])
+  );
+  const slices = new Map<string, number>();
+
+  const withdrawals = rankOrders(
+    orders.filter(order => order.type === 'withdrawal'),
+    resolved,
+    now
+  );
+  const deposits = rankOrders(orders.filter(order => order.type === 'deposit'), resolved, now);
+
+  const fills: P2PFill[] = [];
+  const unmatched: MatchingPlan['unmatched'] = [];
+
+  for (const withdrawal of withdrawals) {
+    let skipped: SliceExplanation['skipped'] = [];
+
+    for (const deposit of deposits) {
+      const rw = remaining.get(withdrawal.order.id)!;
+      const rd = remaining.get(deposit.order.id)!;
+      if (rw <= 0) break;
+      if (rd <= 0) continue;
+
+      const reason = ineligibility(withdrawal.order, deposit.order, slices, resolved);
+      if (reason) {
+        skipped.push({ depositId: deposit.order.id, reason });
+        continue;
+      }
+
+      const amount = sliceAmount(rw, rd, resolved.minSlice);
+      if (amount === null) {
+        skipped.push({
+          depositId: deposit.order.id,
+          reason: `no slice of ${rw} against ${rd} leaves both remainders at 0 or at least ${resolved.minSlice}`,
+        });
+        continue;
+      }
+
+      const reasons = [
+        `withdrawal ${withdrawal.order.id} is rank ${withdrawal.rank} of ${withdrawals.length} open withdrawals`,
+        `deposit ${deposit.order.id} is the best ranked eligible deposit (rank ${deposit.rank})`,
+        withdrawal.order.paymentType === deposit.order.paymentType
+          ? `same payment type ${deposit.order.paymentType}`
+          : `${deposit.order.paymentType} settles ${withdrawal.order.paymentType}`,
+        amount === Math.min(rw, rd)
+          ? `slice ${amount} is the smaller remainder`
+          : `slice ${amount} keeps the remainder at or above ${resolved.minSlice}`,
+      ];
+
+      fills.push({
+        withdrawalId: withdrawal.order.id,
+        depositId: deposit.order.id,
+        amount,
+        matchScore: Math.round((amount / withdrawal.order.amount) * 100),
+        explanation: {
+          withdrawal: summarize(withdrawal, rw),
+          deposit: summarize(deposit, rd),
+          skipped,
+          reasons,
+        },
+      });
+
+      remaining.set(withdrawal.order.id, round(rw - amount));
+      remaining.set(deposit.order.id, round(rd - amount));
+      slices.set(withdrawal.order.id, (slices.get(withdrawal.order.id) ?? 0) + 1);
+      slices.set(deposit.order.id, (slices.get(deposit.order.id) ?? 0) + 1);
+      skipped = [];
+    }
+
+    const left = remaining.get(withdrawal.order.id)!;
+    if (left > 0) {
+      unmatched.push({
+        orderId: withdrawal.order.id,
+        type: 'withdrawal',
+        remaining: left,
+        reason:
+          skipped.length > 0
+            ? skipped.map(skip => `${skip.depositId}: ${skip.reason}`).join('; ')
+            : 'no open deposits left',
+      });
+    }
+  }
+
+  for (const deposit of deposits) {
+    const left = remaining.get(deposit.order.id)!;
+    if (left > 0) {
+      unmatched.push({
+        orderId: deposit.order.id,
+        type: 'deposit',
+        remaining: left,
+        reason: 'no eligible withdrawal left',
+      });
+    }
+  }
+
+  return {
+    algorithmVersion: MATCHING_ALGORITHM_VERSION,
+    inputFingerprint: fingerprint(orders, resolved, now),
+    fills,
+    unmatched,
+  };
+}
+
+export function isPaymentCompatible(
+  withdrawalType: string,
+  depositType: string,
+  groups: string[][] = []
+): boolean {
+  const a = withdrawalType.toLowerCase();
+  const b = depositType.toLowerCase();
+  if (a === b) return true;
+  return groups.some(group => {
+    const members = group.map(type => type.toLowerCase());
+    return members.includes(a) && members.includes(b);
+  });
+}
+
+interface RankedOrder {
+  order: MatchableOrder;
+  rank: number;
+  effectivePriority: number;
+}
+
+function rankOrders(
+  orders: MatchableOrder[],
+  options: Required<MatchingOptions>,
+  now: Date
+): RankedOrder[] {
+  return orders
+    .map(order => {
+      const waitedMinutes = Math.max(0, (now.getTime() - order.createdAt.getTime()) / 60000);
+      const aging = options.agingMinutes > 0 ? Math.floor(waitedMinutes / options.agingMinutes) : 0;
+      return { order, rank: 0, effectivePriority: order.priority + aging };
+    })
+    .sort(
+      (a, b) =>
+        b.effectivePriority - a.effectivePriority ||
+        a.order.createdAt.getTime() - b.order.createdAt.getTime() ||
+        (a.order.id < b.order.id ? -1 : a.order.id > b.order.id ? 1 : 0)
+    )
+    .map((ranked, index) => ({ ...ranked, rank: index + 1 }));
+}
+
+function ineligibility(
+  withdrawal: MatchableOrder,
+  deposit: MatchableOrder,
+  slices: Map<string, number>,
+  options: Required<MatchingOptions>
+): string | null {
+  if (withdrawal.customerId === deposit.customerId) {
+    return 'same customer on both sides';
+  }
+  if (!isPaymentCompatible(withdrawal.paymentType, deposit.paymentType, options.compatibleGroups)) {
+    return `${deposit.paymentType} cannot settle ${withdrawal.paymentType}`;
+  }
+  for (const order of [withdrawal, deposit]) {
+    if ((slices.get(order.id) ?? 0) >= options.maxSlicesPerOrder) {
+      return `${order.id} already split into ${options.maxSlicesPerOrder} slices`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Largest slice that leaves each side at 0 or at least the minimum. A slice
+ * below the minimum is only allowed when it clears a side's remainder.
+ */
+function sliceAmount(rw: number, rd: number, minSlice: number): number | null {
+  const candidates = [Math.min(rw, rd), round(rw - minSlice), round(rd - minSlice)];
+  const valid = candidates.filter(amount => {
+    if (amount <= 0 || amount > Math.min(rw, rd)) return false;
+    const restW = round(rw - amount);
+    const restD = round(rd - amount);
+    if ((restW > 0 && restW < minSlice) || (restD > 0 && restD < minSlice)) return false;
+    return amount >= minSlice || restW === 0 || restD === 0;
+  });
+  return valid.length > 0 ? Math.max(...valid) : null;
+}
+
+function summarize(ranked: RankedOrder, remainingBefore: number): RankedOrderSummary {
+  return {
+    id: ranked.order.id,
+    rank: ranked.rank,
+    priority: ranked.order.priority,
+    effectivePriority: ranked.effectivePriority,
+    createdAt: ranked.order.createdAt.toISOString(),
+    paymentType: ranked.order.paymentType,
+    remainingBefore,
+  };
+}
+
+// FNV-1a over the canonical inputs; identical inputs give identical plans
+function fingerprint(
+  orders: MatchableOrder[],
+  options: Required<MatchingOptions>,
+  now: Date
+): string {
+  const canonical = JSON.stringify({
+    version: MATCHING_ALGORITHM_VERSION,
+    now: now.toISOString(),
+    options,
+    orders: [...orders]
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(order => [
+        order.id,
+        order.type,
+        order.customerId,
+        order.amount,
+        order.allocatedAmount,
+        order.paymentType,
+        order.priority,
+        order.createdAt.toISOString(),
+      ]),
+  });
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// !== PERSISTENCE !==
+
+/** Cloudflare D1 binding or a local bun:sqlite database */
+export type MatchingDatabase = D1Database | Database;
+
+export interface MatchingRun extends MatchingPlan {
+  runId: string;
+  matchIds: string[];
+}
+
+export interface StoredMatch {
+  id: string;
+  withdrawalId: string;
+  depositId: string;
+  amount: number;
+  matchScore: number;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  runId?: string;
+  explanation?: SliceExplanation;
+  notes?: string;
+}
+
+export type SqlStatement = [sql: string, params: unknown[]];
+
+function isD1(db: MatchingDatabase): db is D1Database {
+  return !('query' in db);
+}
+
+export async function queryAll<T>(
+  db: MatchingDatabase,
+  sql: string,
+  params: unknown[] = []
+): Promise<T[]> {
+  if (isD1(db)) {
+    const result = await db.prepare(sql).bind(...params).all<T>();
+    return result.results ?? [];
+  }
+  return db.query(sql).all(...(params as any[])) as T[];
+}
+
+/** Run statements atomically: a D1 batch or a SQLite transaction */
+export async function runBatch(db: MatchingDatabase, statements: SqlStatement[]): Promise<void> {
+  if (isD1(db)) {
+    await db.batch(statements.map(([sql, params]) => db.prepare(sql).bind(...params)));
+    return;
+  }
+  db.transaction(() => {
+    for (const [sql, params] of statements) {
+      db.query(sql).run(...(params as any[]));
+    }
+  })();
+}
+
+/** Give an allocated amount back to a queue item so it can be matched again */
+export function releaseAllocation(itemId: string, amount: number): SqlStatement {
+  return [
+    `UPDATE queue_items
+     SET allocated_amount = MAX(0, allocated_amount - ?),
+         status = CASE WHEN status IN ('matched', 'processing') THEN 'pending' ELSE status END
+     WHERE id = ?`,
+    [amount, itemId],
+  ];
+}
+
+/** Raised by the allocation trigger; the whole matching batch rolls back */
+const ALLOCATION_CONFLICT = 'queue allocation conflict';
+const MAX_MATCH_ATTEMPTS = 3;
+
+/**
+ * Runs the planner over the queue_items table and records each slice as a
+ * pending queue_matches row. Allocated amounts are held on the queue items
+ * until a slice is rejected or cancelled.
+ *
+ * Runs plan from a snapshot of the queue, so two runs can race for the same
+ * open amount. A trigger rejects any allocation past an order's amount, or
+ * onto an order that is no longer pending, which aborts the losing run's
+ * batch before it records a slice; that run then re-plans.
+ */
+export class P2PMatchingCore {
+  private schemaReady = false;
+  private matching: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly db: MatchingDatabase,
+    private readonly options: MatchingOptions = {}
+  ) {}
+
+  /**
+   * Add the allocation, run and explanation columns to an existing queue schema
+   */
+  async ensureSchema(): Promise<void> {
+    if (this.schemaReady) return;
+
+    const itemColumns = await this.columns('queue_items');
+    if (!itemColumns.includes('allocated_amount')) {
+      await this.run('ALTER TABLE queue_items ADD COLUMN allocated_amount REAL NOT NULL DEFAULT 0');
+    }
+    const matchColumns = await this.columns('queue_matches');
+    if (!matchColumns.includes('run_id')) {
+      await this.run('ALTER TABLE queue_matches ADD COLUMN run_id TEXT');
+    }
+    if (!matchColumns.includes('explanation')) {
+      await this.run('ALTER TABLE queue_matches ADD COLUMN explanation TEXT');
+    }
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS queue_matching_runs (
+        id TEXT PRIMARY KEY,
+        algorithm_version TEXT NOT NULL,
+        input_fingerprint TEXT NOT NULL,
+        options TEXT NOT NULL,
+        orders TEXT NOT NULL,
+        planned_at TEXT NOT NULL,
+        fills INTEGER NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    await this.run(`
+      CREATE TRIGGER IF NOT EXISTS queue_items_allocation_guard
+      BEFORE UPDATE OF allocated_amount ON queue_items
+      WHEN NEW.allocated_amount > OLD.allocated_amount
+        AND (NEW.allocated_amount > NEW.amount + 0.000001 OR OLD.status != 'pending')
+      BEGIN
+        SELECT RAISE(ABORT, '${ALLOCATION_CONFLICT}');
+      END
+    `);
+
+    this.schemaReady = true;
+  }
+
+  /**
+   * Match the open queue and persist the new slices. Runs without fills are
+   * not recorded. Runs through one core are serialized; a run that loses an
+   * allocation race with another process re-plans from a fresh snapshot.
+   */
+  async match(now: Date = new Date()): Promise<MatchingRun> {
+    const run = this.matching.then(() => this.matchWithRetry(now));
+    this.matching = run.catch(() => undefined);
+    return run;
+  }
+
+  private async matchWithRetry(now: Date): Promise<MatchingRun> {
+    await this.ensureSchema();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.matchOnce(now);
+      } catch (error) {
+        if (attempt >= MAX_MATCH_ATTEMPTS || !isAllocationConflict(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async matchOnce(now: Date): Promise<MatchingRun> {
+    const orders = await this.loadOpenOrders();
+    const plan = planP2PMatches(orders, this.options, now);
+    const runId = crypto.randomUUID();
+    if (plan.fills.length === 0) {
+      return { ...plan, runId, matchIds: [] };
+    }
+
+    const statements: SqlStatement[] = [
+      [
+        `INSERT INTO queue_matching_runs (id, algorithm_version, input_fingerprint, options, orders, planned_at, fills)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          runId,
+          plan.algorithmVersion,
+          plan.inputFingerprint,
+          JSON.stringify(this.options),
+          JSON.stringify(orders),
+          now.toISOString(),
+          plan.fills.length,
+        ],
+      ],
+    ];
+
+    const matchIds: string[] = [];
+    for (const fill of plan.fills) {
+      const matchId = crypto.randomUUID();
+      matchIds.push(matchId);
+      statements.push(
+        [
+          `INSERT INTO queue_matches (id, withdrawal_id, deposit_id, amount, match_score, processing_time, status, run_id, explanation, created_at)
+           VALUES (?, ?, ?, ?, ?, 0, 'pending', ?, ?, datetime('now'))`,
+          [
+            matchId,
+            fill.withdrawalId,
+            fill.depositId,
+            fill.amount,
+            fill.matchScore,
+            runId,
+            JSON.stringify(fill.explanation),
+          ],
+        ],
+        this.allocate(fill.withdrawalId, fill.amount, fill.depositId),
+        this.allocate(fill.depositId, fill.amount, fill.withdrawalId)
+      );
+    }
+
+    await this.batch(statements);
+    return { ...plan, runId, matchIds };
+  }
+
+  /**
+   * Approve a pending slice. An order moves to processing once it is fully
+   * allocated and none of its slices await approval.
+   */
+  async approve(matchId: string): Promise<StoredMatch> {
+    const match = await this.requireMatch(matchId, 'pending');
+
+    await this.batch([
+      [`UPDATE queue_matches SET status = 'processing' WHERE id = ?`, [matchId]],
+      ...[match.withdrawalId, match.depositId].map(
+        (itemId): SqlStatement => [
+          `UPDATE queue_items SET status = 'processing'
+           WHERE id = ? AND allocated_amount >= amount
+             AND NOT EXISTS (
+               SELECT 1 FROM queue_matches
+               WHERE status = 'pending' AND (withdrawal_id = queue_items.id OR deposit_id = queue_items.id)
+             )`,
+          [itemId],
+        ]
+      ),
+    ]);
+
+    return { ...match, status: 'processing' };
+  }
+
+  /**
+   * Reject a pending slice and return its amount to both orders
+   */
+  async reject(matchId: string, reason: string): Promise<StoredMatch> {
+    const match = await this.requireMatch(matchId, 'pending');
+
+    await this.batch([
+      [`UPDATE queue_matches SET status = 'failed', notes = ? WHERE id = ?`, [reason, matchId]],
+      this.release(match.withdrawalId, match.amount),
+      this.release(match.depositId, match.amount),
+    ]);
+
+    return { ...match, status: 'failed', notes: reason };
+  }
+
+  /**
+   * Cancel an order: its pending slices fail and their amounts return to
+   * the counterparties
+   */
+  async cancelItem(itemId: string, reason: string): Promise<void> {
+    await this.ensureSchema();
+    const pending = (
+      await this.all<Record<string, unknown>>(
+        `SELECT * FROM queue_matches WHERE status = 'pending' AND (withdrawal_id = ? OR deposit_id = ?)`,
+        [itemId, itemId]
+      )
+    ).map(toStoredMatch);
+
+    const statements: SqlStatement[] = [
+      [`UPDATE queue_items SET status = 'failed', notes = ? WHERE id = ?`, [reason, itemId]],
+    ];
+    for (const match of pending) {
+      const counterparty = match.withdrawalId === itemId ? match.depositId : match.withdrawalId;
+      statements.push(
+        [
+          `UPDATE queue_matches SET status = 'failed', notes = ? WHERE id = ?`,
+          ['Cancelled due to item cancellation', match.id],
+        ],
+        this.release(counterparty, match.amount)
+      );
+    }
+
+    await this.batch(statements);
+  }
+
+  async getMatch(matchId: string): Promise<StoredMatch | null> {
+    await this.ensureSchema();
+    const [row] = await this.all<Record<string, unknown>>(
+      `SELECT * FROM queue_matches WHERE id = ?`,
+      [matchId]
+    );
+    return row ? toStoredMatch(row) : null;
+  }
+
+  /**
+   * Re-run a recorded run from its stored input snapshot. `reproduced` is
+   * true when the planner makes the same slices again.
+   */
+  async replay(runId: string): Promise<{ reproduced: boolean; plan: MatchingPlan }> {
+    await this.ensureSchema();
+    const [run] = await this.all<Record<string, string>>(
+      `SELECT * FROM queue_matching_runs WHERE id = ?`,
+      [runId]
+    );
+    if (!run) {
+      throw new Error(`Matching run ${runId} not found`);
+    }
+
+    const orders = (JSON.parse(run.orders) as Array<MatchableOrder & { createdAt: string }>).map(
+      order => ({ ...order, createdAt: new Date(order.createdAt) })
+    );
+    const plan = planP2PMatches(orders, JSON.parse(run.options), new Date(run.planned_at));
+
+    const recorded = await this.all<Record<string, unknown>>(
+      `SELECT withdrawal_id, deposit_id, amount FROM queue_matches WHERE run_id = ? ORDER BY rowid`,
+      [runId]
+    );
+    const reproduced =
+      plan.inputFingerprint === run.input_fingerprint &&
+      plan.fills.length === recorded.length &&
+      plan.fills.every(
+        (fill, i) =>
+          fill.withdrawalId === recorded[i].withdrawal_id &&
+          fill.depositId === recorded[i].deposit_id &&
+          fill.amount === recorded[i].amount
+      );
+
+    return { reproduced, plan };
+  }
+
+  // !== HELPERS !==
+
+  private async loadOpenOrders(): Promise<MatchableOrder[]> {
+    const rows = await this.all<Record<string, any>>(
+      `SELECT id, type, customer_id, amount, allocated_amount, payment_type, priority, created_at
+       FROM queue_items
+       WHERE status = 'pending' AND amount > allocated_amount`
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      type: row.type,
+      customerId: row.customer_id,
+      amount: Number(row.amount),
+      allocatedAmount: Number(row.allocated_amount ?? 0),
+      paymentType: row.payment_type,
+      priority: Number(row.priority ?? 1),
+      // SQLite datetime('now') is UTC without a zone designator
+      createdAt: new Date(
+        /[zZ]|[+-]\d\d:?\d\d$/.test(row.created_at)
+          ? row.created_at
+          : `${row.created_at.replace(' ', 'T')}Z`
+      ),
+    }));
+  }
+
+  private async requireMatch(matchId: string, status: StoredMatch['status']): Promise<StoredMatch> {
+    const match = await this.getMatch(matchId);
+    if (!match) {
+      throw new Error(`Match ${matchId} not found`);
+    }
+    if (match.status !== status) {
+      throw new Error(`Match ${matchId} is ${match.status}, expected ${status}`);
+    }
+    return match;
+  }
+
+  private allocate(itemId: string, amount: number, counterpartyId: string): SqlStatement {
+    return [
+      `UPDATE queue_items
+       SET allocated_amount = allocated_amount + ?,
+           matched_with = ?,
+           status = CASE WHEN allocated_amount + ? >= amount THEN 'matched' ELSE status END
+       WHERE id = ?`,
+      [amount, counterpartyId, amount, itemId],
+    ];
+  }
+
+  private release(itemId: string, amount: number): SqlStatement {
+    return releaseAllocation(itemId, amount);
+  }
+
+  private async columns(table: string): Promise<string[]> {
+    const rows = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+    return rows.map(row => row.name);
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return queryAll<T>(this.db, sql, params);
+  }
+
+  private async run(sql: string, params: unknown[] = []): Promise<void> {
+    await this.batch([[sql, params]]);
+  }
+
+  private batch(statements: SqlStatement[]): Promise<void> {
+    return runBatch(this.db, statements);
+  }
+}
+
+function isAllocationConflict(error: unknown): boolean {
+  return error instanceof Error && error.message.includes(ALLOCATION_CONFLICT);
+}
+
+function toStoredMatch(row: Record<string, any>): StoredMatch {
+  return {
+    id: row.id,
+    withdrawalId: row.withdrawal_id,
+    depositId: row.deposit_id,
+    amount: Number(row.amount),
+    matchScore: Number(row.match_score),
+    status: row.status,
+    runId: row.run_id ?? undefined,
+    explanation: row.explanation ? JSON.parse(row.explanation) : undefined,
+    notes: row.notes ?? undefined,
+  };
+}
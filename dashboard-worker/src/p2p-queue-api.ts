@@ -6,6 +6,21 @@
  */
 
 import { WithdrawalQueueSystem } from './queue-system';
+import {
+  P2PMatchingCore,
+  type MatchingOptions,
+  type MatchingRun,
+  type SliceExplanation,
+} from './p2p-matching-core';
+import {
+  P2PEscrow,
+  type EscrowDecision,
+  type EscrowModerator,
+  type EscrowOptions,
+  type EvidenceUpload,
+  type P2PEscrowRecord,
+} from './p2p-escrow';
+import { LocalR2Client, r2Client } from './utils/bun-r2-client';
 import { D1Database } from '@cloudflare/workers-types';
 
 export interface P2PQueueItem {
@@ -39,6 +54,9 @@ export interface P2PMatchResult {
   createdAt: Date;
   completedAt?: Date;
   notes?: string;
+  runId?: string;
+  /** Why the matching core made this slice */
+  explanation?: SliceExplanation;
   // Telegram notification fields
   telegramGroupId?: string;
   telegramChatId?: string;
@@ -58,11 +76,24 @@ export interface P2PQueueStats {
 
 export class P2PQueueAPI {
   private queueSystem: WithdrawalQueueSystem;
-  private env: { DB: D1Database };
-
-  constructor(env: { DB: D1Database }) {
+  private matchingCore: P2PMatchingCore;
+  private escrow: P2PEscrow;
+  private env: { DB: D1Database; EVIDENCE_DIR?: string };
+
+  constructor(
+    env: { DB: D1Database; EVIDENCE_DIR?: string },
+    matchingOptions: MatchingOptions = {},
+    escrowOptions: EscrowOptions = {}
+  ) {
     this.env = env;
-    this.queueSystem = new WithdrawalQueueSystem(env);
+    // Matching runs against the database through the core, not in memory
+    this.queueSystem = new WithdrawalQueueSystem(env, { autoMatch: false });
+    this.matchingCore = new P2PMatchingCore(env.DB, matchingOptions);
+    // Evidence goes to R2 when configured, otherwise to the local filesystem
+    const evidenceStore = process.env.R2_ENDPOINT
+      ? r2Client
+      : new LocalR2Client(env.EVIDENCE_DIR || './data/p2p-evidence');
+    this.escrow = new P2PEscrow(env.DB, evidenceStore, escrowOptions);
   }
 
   /**
@@ -254,7 +285,16 @@ export class P2PQueueAPI {
   }
 
   /**
-   * Get matching opportunities
+   * Run the matching core over the open queue. Writes slices and holds
+   * allocations, so call it from a POST route or the scheduled handler,
+   * never from a read.
+   */
+  async runMatching(): Promise<MatchingRun> {
+    return this.matchingCore.match();
+  }
+
+  /**
+   * Get matching opportunities: every pending slice with its explanation
    */
   async getMatchingOpportunities(): Promise<P2PMatchResult[]> {
     try {
@@ -290,6 +330,8 @@ export class P2PQueueAPI {
         createdAt: new Date(row.created_at as string),
         completedAt: row.completed_at ? new Date(row.completed_at as string) : undefined,
         notes: (row.notes as string) || undefined,
+        runId: (row.run_id as string) || undefined,
+        explanation: row.explanation ? JSON.parse(row.explanation as string) : undefined,
         telegramGroupId: (row.telegramGroupId as string) || undefined,
         telegramChatId: (row.telegramChatId as string) || undefined,
         telegramChannel: (row.telegramChannel as string) || undefined,
@@ -354,45 +396,20 @@ export class P2PQueueAPI {
   }
 
   /**
-   * Approve a match
+   * Approve a match and hold the withdrawer's balance in escrow
    */
   async approveMatch(matchId: string): Promise<boolean> {
     try {
-      // Update match status
-      await this.env.DB.prepare(
-        `
-        UPDATE queue_matches 
-        SET status = 'processing', updated_at = datetime('now')
-        WHERE id = ?
-      `
-      )
-        .bind(matchId)
-        .run();
-
-      // Get match details for notification
-      const match = await this.env.DB.prepare(
-        `
-        SELECT * FROM queue_matches WHERE id = ?
-      `
-      )
-        .bind(matchId)
-        .first();
-
-      if (match) {
-        // Update related queue items
-        await this.env.DB.prepare(
-          `
-          UPDATE queue_items 
-          SET status = 'processing', updated_at = datetime('now')
-          WHERE id IN (?, ?)
-        `
-        )
-          .bind(match.withdrawal_id, match.deposit_id)
-          .run();
-
-        // Send Telegram notification
-        await this.notifyMatchApproved(match);
-      }
+      // Orders with other slices still awaiting approval stay matched
+      const match = await this.matchingCore.approve(matchId);
+      const escrow = await this.escrow.open(matchId);
+
+      // Send Telegram notification
+      await this.notifyMatchApproved({
+        ...match,
+        escrowId: escrow.id,
+        deadlineAt: escrow.deadlineAt,
+      });
 
       return true;
     } catch (error) {
@@ -406,37 +423,8 @@ export class P2PQueueAPI {
    */
   async rejectMatch(matchId: string, reason?: string): Promise<boolean> {
     try {
-      // Update match status
-      await this.env.DB.prepare(
-        `
-        UPDATE queue_matches 
-        SET status = 'failed', notes = ?, updated_at = datetime('now')
-        WHERE id = ?
-      `
-      )
-        .bind(reason || 'Rejected by admin', matchId)
-        .run();
-
-      // Reset related queue items to pending
-      const match = await this.env.DB.prepare(
-        `
-        SELECT * FROM queue_matches WHERE id = ?
-      `
-      )
-        .bind(matchId)
-        .first();
-
-      if (match) {
-        await this.env.DB.prepare(
-          `
-          UPDATE queue_items 
-          SET status = 'pending', matched_with = NULL, updated_at = datetime('now')
-          WHERE id IN (?, ?)
-        `
-        )
-          .bind(match.withdrawal_id, match.deposit_id)
-          .run();
-      }
+      // Returns the slice amount to both orders
+      await this.matchingCore.reject(matchId, reason || 'Rejected by admin');
 
       return true;
     } catch (error) {
@@ -445,6 +433,72 @@ export class P2PQueueAPI {
     }
   }
 
+  /**
+   * Depositor reports the payment as sent
+   */
+  async claimPayment(escrowId: string, customerId: string): Promise<P2PEscrowRecord> {
+    return this.escrow.claimPayment(escrowId, customerId);
+  }
+
+  /**
+   * Recipient confirms the payment; the held balance goes to the depositor
+   */
+  async confirmPayment(escrowId: string, customerId: string): Promise<P2PEscrowRecord> {
+    return this.escrow.confirmPayment(escrowId, customerId);
+  }
+
+  async disputeMatch(
+    escrowId: string,
+    customerId: string,
+    reason: string
+  ): Promise<P2PEscrowRecord> {
+    return this.escrow.dispute(escrowId, customerId, reason);
+  }
+
+  async uploadEvidence(escrowId: string, customerId: string, upload: EvidenceUpload) {
+    return this.escrow.addEvidence(escrowId, customerId, upload);
+  }
+
+  /**
+   * Moderator decision: release the hold to the depositor or reverse it
+   */
+  async resolveDispute(
+    escrowId: string,
+    moderator: EscrowModerator,
+    decision: EscrowDecision,
+    notes: string
+  ): Promise<P2PEscrowRecord> {
+    return this.escrow.resolve(escrowId, moderator, decision, notes);
+  }
+
+  /**
+   * Get an escrow with its evidence and transition history
+   */
+  async getEscrow(escrowId: string) {
+    const escrow = await this.escrow.get(escrowId);
+    if (!escrow) return null;
+
+    return {
+      ...escrow,
+      evidence: await this.escrow.getEvidence(escrowId),
+      history: await this.escrow.getHistory(escrowId),
+    };
+  }
+
+  /**
+   * Apply escrow timeouts; run from the scheduled handler
+   */
+  async sweepEscrows() {
+    return this.escrow.sweep();
+  }
+
+  /**
+   * Replay a matching run from its input snapshot
+   */
+  async explainMatchingRun(runId: string) {
+    return this.matchingCore.replay(runId);
+  }
+
   /**
    * Update queue item
    */
@@ -503,27 +557,8 @@ export class P2PQueueAPI {
    */
   async cancelQueueItem(itemId: string, reason?: string): Promise<boolean> {
     try {
-      // Update item status
-      await this.env.DB.prepare(
-        `
-        UPDATE queue_items 
-        SET status = 'failed', notes = ?, updated_at = datetime('now')
-        WHERE id = ?
-      `
-      )
-        .bind(reason || 'Cancelled by admin', itemId)
-        .first();
-
-      // Remove from any pending matches
-      await this.env.DB.prepare(
-        `
-        UPDATE queue_matches 
-        SET status = 'failed', notes = ?, updated_at = datetime('now')
-        WHERE (withdrawal_id = ? OR deposit_id = ?) AND status = 'pending'
-      `
-      )
-        .bind('Cancelled due to item cancellation', itemId, itemId)
-        .run();
+      // Fails its pending slices and returns their amounts to the counterparties
+      await this.matchingCore.cancelItem(itemId, reason || 'Cancelled by admin');
 
       return true;
     } catch (error) {
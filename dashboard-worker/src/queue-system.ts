@@ -4,9 +4,17 @@
  * Queue System for Withdrawals and Peer-to-Peer Matching
  *
  * This system manages withdrawal requests in a queue and matches them
- * with available deposits for peer-to-peer transactions.
+ * with available deposits for peer-to-peer transactions. Matching decisions
+ * come from the shared P2P matching core.
  */
 
+import {
+  planP2PMatches,
+  type MatchingOptions,
+  type P2PFill,
+  type SliceExplanation,
+} from './p2p-matching-core';
+
 export interface QueueItem {
   id: string;
   type: 'withdrawal' | 'deposit';
@@ -19,9 +27,12 @@ export interface QueueItem {
   createdAt: Date;
   matchedWith?: string;
   notes?: string;
+  /** Amount already split off into matches */
+  allocatedAmount?: number;
 }
 
 export interface MatchResult {
+  id: string;
   withdrawalId: string;
   depositId: string;
   amount: number;
@@ -30,6 +41,13 @@ export interface MatchResult {
   status: 'pending' | 'processing' | 'completed' | 'failed';
   createdAt: Date;
   completedAt?: Date;
+  explanation?: SliceExplanation;
+}
+
+export interface QueueSystemOptions {
+  /** Match on every enqueue; off when matching runs elsewhere (default true) */
+  autoMatch?: boolean;
+  matching?: MatchingOptions;
 }
 
 export interface QueueStats {
@@ -49,7 +67,10 @@ export class WithdrawalQueueSystem {
   private maxRetries = 3;
   private matchTimeout = 300000; // 5 minutes
 
-  constructor(private env: any) {}
+  constructor(
+    private env: any,
+    private options: QueueSystemOptions = {}
+  ) {}
 
   /**
    * Add item to queue
@@ -69,154 +90,87 @@ export class WithdrawalQueueSystem {
     await this.logQueueItem(queueItem);
 
     // Try to find immediate match
-    await this.attemptMatch(queueItem);
+    if (this.options.autoMatch !== false) {
+      await this.attemptMatch();
+    }
 
     return id;
   }
 
   /**
-   * Attempt to match withdrawal with available deposits
-   */
-  private async attemptMatch(item: QueueItem): Promise<MatchResult | null> {
-    if (item.type === 'withdrawal') {
-      return await this.matchWithdrawalToDeposit(item);
-    } else {
-      return await this.matchDepositToWithdrawal(item);
-    }
-  }
-
-  /**
-   * Match withdrawal with best available deposit
+   * Match the pending queue. A withdrawal may be split across several
+   * deposits and a deposit across several withdrawals.
    */
-  private async matchWithdrawalToDeposit(withdrawal: QueueItem): Promise<MatchResult | null> {
-    const availableDeposits = Array.from(this.queue.values())
-      .filter(
-        item =>
-          item.type === 'deposit' &&
-          item.status === 'pending' &&
-          item.amount >= withdrawal.amount &&
-          item.paymentType === withdrawal.paymentType
-      )
-      .sort((a, b) => {
-        // Prioritize by amount match, then by wait time
-        const amountDiffA = Math.abs(a.amount - withdrawal.amount);
-        const amountDiffB = Math.abs(b.amount - withdrawal.amount);
-
-        if (amountDiffA !== amountDiffB) {
-          return amountDiffA - amountDiffB;
-        }
-
-        return a.createdAt.getTime() - b.createdAt.getTime();
-      });
+  private async attemptMatch(): Promise<MatchResult[]> {
+    const pending = Array.from(this.queue.values()).filter(item => item.status === 'pending');
+    const plan = planP2PMatches(
+      pending.map(item => ({
+        id: item.id,
+        type: item.type,
+        customerId: item.customerId,
+        amount: item.amount,
+        allocatedAmount: item.allocatedAmount ?? 0,
+        paymentType: item.paymentType,
+        priority: item.priority,
+        createdAt: item.createdAt,
+      })),
+      this.options.matching
+    );
 
-    if (availableDeposits.length === 0) {
-      return null;
+    const results: MatchResult[] = [];
+    for (const fill of plan.fills) {
+      const withdrawal = this.queue.get(fill.withdrawalId)!;
+      const deposit = this.queue.get(fill.depositId)!;
+      results.push(await this.createMatch(withdrawal, deposit, fill));
     }
 
-    const bestMatch = availableDeposits[0];
-    const matchResult = await this.createMatch(withdrawal, bestMatch);
-
-    return matchResult;
+    return results;
   }
 
   /**
-   * Match deposit with best available withdrawal
+   * Create a match for one slice of a withdrawal and a deposit
    */
-  private async matchDepositToWithdrawal(deposit: QueueItem): Promise<MatchResult | null> {
-    const availableWithdrawals = Array.from(this.queue.values())
-      .filter(
-        item =>
-          item.type === 'withdrawal' &&
-          item.status === 'pending' &&
-          item.amount <= deposit.amount &&
-          item.paymentType === deposit.paymentType
-      )
-      .sort((a, b) => {
-        // Prioritize by amount match, then by wait time
-        const amountDiffA = Math.abs(a.amount - deposit.amount);
-        const amountDiffB = Math.abs(b.amount - deposit.amount);
-
-        if (amountDiffA !== amountDiffB) {
-          return amountDiffA - amountDiffB;
-        }
-
-        return a.createdAt.getTime() - b.createdAt.getTime();
-      });
-
-    if (availableWithdrawals.length === 0) {
-      return null;
-    }
-
-    const bestMatch = availableWithdrawals[0];
-    const matchResult = await this.createMatch(bestMatch, deposit);
-
-    return matchResult;
-  }
-
-  /**
-   * Create a match between withdrawal and deposit
-   */
-  private async createMatch(withdrawal: QueueItem, deposit: QueueItem): Promise<MatchResult> {
-    const matchId = crypto.randomUUID();
-    const matchAmount = Math.min(withdrawal.amount, deposit.amount);
-
+  private async createMatch(
+    withdrawal: QueueItem,
+    deposit: QueueItem,
+    fill: P2PFill
+  ): Promise<MatchResult> {
     const matchResult: MatchResult = {
+      id: crypto.randomUUID(),
       withdrawalId: withdrawal.id,
       depositId: deposit.id,
-      amount: matchAmount,
-      matchScore: this.calculateMatchScore(withdrawal, deposit),
+      amount: fill.amount,
+      matchScore: fill.matchScore,
       processingTime: 0,
       status: 'pending',
       createdAt: new Date(),
+      explanation: fill.explanation,
     };
 
-    // Update queue items
-    withdrawal.status = 'matched';
-    withdrawal.matchedWith = deposit.id;
-    deposit.status = 'matched';
-    deposit.matchedWith = withdrawal.id;
-
-    // Update queue
-    this.queue.set(withdrawal.id, withdrawal);
-    this.queue.set(deposit.id, deposit);
+    // Update queue items; partially allocated items stay pending for more slices
+    for (const [item, counterparty] of [
+      [withdrawal, deposit],
+      [deposit, withdrawal],
+    ]) {
+      item.allocatedAmount = (item.allocatedAmount ?? 0) + fill.amount;
+      item.matchedWith = counterparty.id;
+      if (item.allocatedAmount >= item.amount) {
+        item.status = 'matched';
+        // Add to processing queue
+        this.processingQueue.push(item);
+      }
+      this.queue.set(item.id, item);
+    }
 
     // Store match
-    this.matches.set(matchId, matchResult);
+    this.matches.set(matchResult.id, matchResult);
 
     // Log match to database
     await this.logMatch(matchResult);
 
-    // Add to processing queue
-    this.processingQueue.push(withdrawal, deposit);
-
     return matchResult;
   }
 
-  /**
-   * Calculate match score based on various factors
-   */
-  private calculateMatchScore(withdrawal: QueueItem, deposit: QueueItem): number {
-    let score = 100;
-
-    // Amount match (closer amounts get higher scores)
-    const amountDiff = Math.abs(withdrawal.amount - deposit.amount);
-    const amountScore = Math.max(0, 100 - (amountDiff / withdrawal.amount) * 100);
-    score = (score + amountScore) / 2;
-
-    // Payment type match
-    if (withdrawal.paymentType === deposit.paymentType) {
-      score += 20;
-    }
-
-    // Wait time priority (longer waits get higher scores)
-    const withdrawalWait = Date.now() - withdrawal.createdAt.getTime();
-    const depositWait = Date.now() - deposit.createdAt.getTime();
-    const waitScore = Math.min(20, (withdrawalWait + depositWait) / 60000); // 1 point per minute, max 20
-    score += waitScore;
-
-    return Math.round(score);
-  }
-
   /**
    * Process matched items
    */
@@ -251,11 +205,12 @@ export class WithdrawalQueueSystem {
    * Process withdrawal item
    */
   private async processWithdrawal(withdrawal: QueueItem): Promise<void> {
-    const match = Array.from(this.matches.values()).find(m => m.withdrawalId === withdrawal.id);
+    const matches = Array.from(this.matches.values()).filter(m => m.withdrawalId === withdrawal.id);
 
-    if (!match) {
+    if (matches.length === 0) {
       throw new Error('No match found for withdrawal');
     }
+    const matchedDeposits = matches.map(m => m.depositId).join(', ');
 
     // Update withdrawal status in database
     if (this.env.DB.run) {
@@ -265,7 +220,7 @@ export class WithdrawalQueueSystem {
         SET status = 'processing', approval_notes = ?
         WHERE id = ?
       `,
-        [`Matched with deposit ${match.depositId}`, withdrawal.id]
+        [`Matched with deposit ${matchedDeposits}`, withdrawal.id]
       );
     } else if (this.env.DB.prepare && this.env.DB.prepare().bind) {
       await this.env.DB.prepare(
@@ -275,7 +230,7 @@ export class WithdrawalQueueSystem {
         WHERE id = ?
       `
       )
-        .bind(`Matched with deposit ${match.depositId}`, withdrawal.id)
+        .bind(`Matched with deposit ${matchedDeposits}`, withdrawal.id)
         .run();
     }
 
@@ -370,27 +325,35 @@ export class WithdrawalQueueSystem {
     }
 
     // Update statuses
-    withdrawal.status = 'completed';
-    deposit.status = 'completed';
     match.status = 'completed';
     match.completedAt = new Date();
-
-    // Update queue
-    this.queue.set(withdrawal.id, withdrawal);
-    this.queue.set(deposit.id, deposit);
     this.matches.set(matchId, match);
 
+    // A split item completes with its last slice
+    const completed = [withdrawal, deposit].filter(item => this.isFullySettled(item));
+    for (const item of completed) {
+      item.status = 'completed';
+      this.queue.set(item.id, item);
+    }
+
     // Update database
     await this.completeMatchInDatabase(match, notes);
 
     // Remove from processing queue
-    this.processingQueue = this.processingQueue.filter(
-      item => item.id !== withdrawal.id && item.id !== deposit.id
-    );
+    this.processingQueue = this.processingQueue.filter(item => !completed.includes(item));
 
     return true;
   }
 
+  private isFullySettled(item: QueueItem): boolean {
+    const slices = Array.from(this.matches.values()).filter(
+      m => m.withdrawalId === item.id || m.depositId === item.id
+    );
+    return (
+      (item.allocatedAmount ?? 0) >= item.amount && slices.every(m => m.status === 'completed')
+    );
+  }
+
   /**
    * Complete match in database
    */
@@ -425,7 +388,7 @@ export class WithdrawalQueueSystem {
         SET status = 'completed', completed_at = datetime('now'), notes = ?
         WHERE id = ?
       `,
-        [notes || '', match.withdrawalId]
+        [notes || '', match.id]
       );
     } else if (this.env.DB.prepare && this.env.DB.prepare().bind) {
       await this.env.DB.prepare(
@@ -435,7 +398,7 @@ export class WithdrawalQueueSystem {
         WHERE id = ?
       `
       )
-        .bind(notes || '', match.withdrawalId)
+        .bind(notes || '', match.id)
         .run();
     }
   }
@@ -580,7 +543,7 @@ export class WithdrawalQueueSystem {
           VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
         `,
           [
-            match.withdrawalId,
+            match.id,
             match.withdrawalId,
             match.depositId,
             match.amount,
@@ -599,7 +562,7 @@ export class WithdrawalQueueSystem {
         `
         )
           .bind(
-            match.withdrawalId,
+            match.id,
             match.withdrawalId,
             match.depositId,
             match.amount,
@@ -0,0 +1,896 @@
+/**
+ * 🔥 Fire22 OTC Order Book
+ * Persisted price-time priority books for the OTC desk
+ *
+ * Orders match when they arrive: an incoming order takes liquidity from the
+ * best opposite price level, oldest order first, and trades at the resting
+ * order's price. What is left rests in the book (limit, iceberg, OTC block)
+ * or is cancelled (market, IOC, FOK). Every order change and fill is written
+ * to an OrderBookStore so books survive restarts and fills can be audited.
+ */
+
+import { queryAll, runBatch, type MatchingDatabase, type SqlStatement } from '../p2p-matching-core';
+
+export enum OrderType {
+  MARKET = 'market',
+  LIMIT = 'limit',
+  STOP_LOSS = 'stop_loss',
+  OTC_BLOCK = 'otc_block',
+  ICEBERG = 'iceberg',
+  TWAP = 'twap',
+  AON = 'all_or_nothing',
+}
+
+export enum OrderStatus {
+  PENDING = 'pending',
+  OPEN = 'open',
+  PARTIALLY_FILLED = 'partial',
+  MATCHING = 'matching',
+  NEGOTIATING = 'negotiating',
+  FILLED = 'filled',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+  REJECTED = 'rejected',
+}
+
+export enum OrderSide {
+  BUY = 'buy',
+  SELL = 'sell',
+}
+
+export enum TradingAsset {
+  BTC = 'BTC',
+  ETH = 'ETH',
+  USDC = 'USDC',
+  USDT = 'USDT',
+  EUR = 'EUR',
+  GBP = 'GBP',
+}
+
+/** Immediate or Cancel, Fill or Kill, Good Till Cancel, Good Till Date (time) */
+export type TimeInForce = 'IOC' | 'FOK' | 'GTC' | 'GTD';
+
+/** Order types the book can hold or execute */
+export const BOOK_ORDER_TYPES: OrderType[] = [
+  OrderType.LIMIT,
+  OrderType.MARKET,
+  OrderType.ICEBERG,
+  OrderType.OTC_BLOCK,
+];
+
+/**
+ * The order fields the book reads and maintains
+ */
+export interface BookOrder {
+  id: string;
+  customerId: string;
+  asset: TradingAsset;
+  side: OrderSide;
+  type: OrderType;
+  amount: number;
+  price?: number;
+  /** Market orders stop at this fraction beyond the best price on arrival */
+  maxSlippage?: number;
+  timeInForce: TimeInForce;
+  expiresAt?: Date;
+  isIceberg: boolean;
+  /** Iceberg peak shown in the book */
+  visibleSize?: number;
+  status: OrderStatus;
+  filledAmount: number;
+  remainingAmount: number;
+  averagePrice: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Trade {
+  id: string;
+  asset: TradingAsset;
+  price: number;
+  quantity: number;
+  buyOrderId: string;
+  sellOrderId: string;
+  buyCustomerId: string;
+  sellCustomerId: string;
+  makerOrderId: string;
+  takerOrderId: string;
+  sequence: number;
+  executedAt: Date;
+}
+
+export interface BookResult<T extends BookOrder = BookOrder> {
+  order: T;
+  trades: Trade[];
+  /** Every order whose fill or status changed, the incoming order first */
+  updated: T[];
+  /** Why an unfilled remainder did not rest */
+  reason?: string;
+}
+
+export interface OrderReplacement {
+  price?: number;
+  amount?: number;
+  visibleSize?: number;
+  expiresAt?: Date;
+}
+
+export interface PriceLevel {
+  price: number;
+  /** Visible quantity only; hidden iceberg size is not shown */
+  quantity: number;
+  orders: number;
+}
+
+export interface BookStats {
+  bestBid: number;
+  bestAsk: number;
+  spread: number;
+  depth: number;
+  dailyVolume: number;
+  dailyTrades: number;
+  averageTradeSize: number;
+}
+
+export interface StoredOrder {
+  order: BookOrder;
+  /** Time priority; lower rests ahead at the same price */
+  sequence: number;
+  visibleRemaining: number;
+}
+
+export interface OrderBookStore {
+  save(orders: StoredOrder[], trades: Trade[]): Promise<void>;
+  loadOpenOrders(): Promise<StoredOrder[]>;
+  loadRecentTrades(perAsset: number): Promise<Trade[]>;
+  loadFills(orderId: string): Promise<Trade[]>;
+}
+
+export interface OrderBooksOptions {
+  /** Trades inside this window make up the volume-weighted mark price */
+  markWindowMs?: number;
+  /** Trades kept in memory per asset for the mark price and daily stats */
+  tradeHistoryLimit?: number;
+}
+
+const EPSILON = 1e-9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RESTING_STATUSES = [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED];
+
+interface Entry<T> {
+  order: T;
+  sequence: number;
+  visibleRemaining: number;
+}
+
+// !== BOOKS !==
+
+/**
+ * Price-time priority books for every asset, backed by a store
+ */
+export class OTCOrderBooks<T extends BookOrder = BookOrder> {
+  private bids = new Map<TradingAsset, Entry<T>[]>();
+  private asks = new Map<TradingAsset, Entry<T>[]>();
+  private entries = new Map<string, Entry<T>>();
+  private trades = new Map<TradingAsset, Trade[]>();
+  private sequence = 0;
+  private readonly markWindowMs: number;
+  private readonly tradeHistoryLimit: number;
+
+  constructor(
+    private readonly store: OrderBookStore = new MemoryOrderBookStore(),
+    options: OrderBooksOptions = {}
+  ) {
+    this.markWindowMs = options.markWindowMs ?? 5 * 60 * 1000;
+    this.tradeHistoryLimit = options.tradeHistoryLimit ?? 1000;
+  }
+
+  /**
+   * Load resting orders and recent trades from the store. Returns the
+   * number of orders put back in the books.
+   */
+  async restore(): Promise<number> {
+    this.bids.clear();
+    this.asks.clear();
+    this.entries.clear();
+    this.trades.clear();
+
+    const stored = await this.store.loadOpenOrders();
+    for (const { order, sequence, visibleRemaining } of stored) {
+      const entry: Entry<T> = { order: order as T, sequence, visibleRemaining };
+      this.entries.set(order.id, entry);
+      this.insert(entry);
+      this.sequence = Math.max(this.sequence, sequence);
+    }
+
+    for (const trade of await this.store.loadRecentTrades(this.tradeHistoryLimit)) {
+      this.history(trade.asset).push(trade);
+      this.sequence = Math.max(this.sequence, trade.sequence);
+    }
+    for (const trades of this.trades.values()) {
+      trades.sort((a, b) => a.sequence - b.sequence);
+    }
+
+    return stored.length;
+  }
+
+  /**
+   * Match an arriving order and rest whatever its type allows
+   */
+  async submit(order: T, now: Date = new Date()): Promise<BookResult<T>> {
+    if (this.entries.has(order.id)) {
+      throw new Error(`Order ${order.id} is already in the book`);
+    }
+    this.validate(order);
+
+    const entry: Entry<T> = { order, sequence: 0, visibleRemaining: 0 };
+    this.entries.set(order.id, entry);
+    if (order.status === OrderStatus.PENDING) {
+      order.status = OrderStatus.OPEN;
+    }
+
+    return this.execute(entry, now);
+  }
+
+  /**
+   * Take a resting order out of the book
+   */
+  async cancel(orderId: string, now: Date = new Date()): Promise<T | undefined> {
+    const entry = this.entries.get(orderId);
+    if (!entry || !this.remove(entry)) return undefined;
+
+    entry.order.status = OrderStatus.CANCELLED;
+    entry.order.updatedAt = now;
+    entry.visibleRemaining = 0;
+    await this.persist([entry], []);
+
+    return entry.order;
+  }
+
+  /**
+   * Cancel/replace a resting order. Reducing the size at the same price
+   * keeps its place in the queue; any other change re-enters the book as a
+   * new arrival and may trade.
+   */
+  async replace(
+    orderId: string,
+    changes: OrderReplacement,
+    now: Date = new Date()
+  ): Promise<BookResult<T>> {
+    const entry = this.entries.get(orderId);
+    if (!entry || !this.isResting(entry)) {
+      throw new Error(`Order ${orderId} is not resting in the book`);
+    }
+
+    const order = entry.order;
+    const amount = changes.amount ?? order.amount;
+    if (amount <= order.filledAmount + EPSILON) {
+      throw new Error(
+        `Order ${orderId} has filled ${order.filledAmount}; the new amount must be larger`
+      );
+    }
+
+    const keepsPriority =
+      (changes.price === undefined || changes.price === order.price) &&
+      (changes.visibleSize === undefined || changes.visibleSize === order.visibleSize) &&
+      amount <= order.amount;
+
+    const previous = { ...order };
+    Object.assign(order, {
+      amount,
+      remainingAmount: round(amount - order.filledAmount),
+      ...(changes.price !== undefined && { price: changes.price }),
+      ...(changes.visibleSize !== undefined && { visibleSize: changes.visibleSize }),
+      ...(changes.expiresAt !== undefined && { expiresAt: changes.expiresAt }),
+      updatedAt: now,
+    });
+    try {
+      this.validate(order);
+    } catch (error) {
+      Object.assign(order, previous);
+      throw error;
+    }
+
+    this.remove(entry);
+    if (keepsPriority) {
+      entry.visibleRemaining = Math.min(entry.visibleRemaining, this.peak(order));
+      this.insert(entry);
+      await this.persist([entry], []);
+      return { order, trades: [], updated: [order] };
+    }
+
+    return this.execute(entry, now);
+  }
+
+  /**
+   * Expire good-till-time orders whose time has passed
+   */
+  async expire(now: Date = new Date()): Promise<T[]> {
+    const expired = [...this.entries.values()].filter(
+      entry => this.isResting(entry) && this.isExpired(entry.order, now)
+    );
+    for (const entry of expired) {
+      this.remove(entry);
+      this.markExpired(entry, now);
+    }
+    if (expired.length > 0) {
+      await this.persist(expired, []);
+    }
+    return expired.map(entry => entry.order);
+  }
+
+  getOrder(orderId: string): T | undefined {
+    return this.entries.get(orderId)?.order;
+  }
+
+  /**
+   * Resting orders in priority order: best price first, then oldest
+   */
+  snapshot(asset: TradingAsset): { bids: T[]; asks: T[] } {
+    return {
+      bids: this.side(asset, OrderSide.BUY).map(entry => entry.order),
+      asks: this.side(asset, OrderSide.SELL).map(entry => entry.order),
+    };
+  }
+
+  /**
+   * Visible depth per price level
+   */
+  levels(asset: TradingAsset): { bids: PriceLevel[]; asks: PriceLevel[] } {
+    const aggregate = (entries: Entry<T>[]) => {
+      const levels: PriceLevel[] = [];
+      for (const entry of entries) {
+        const last = levels[levels.length - 1];
+        if (last && last.price === entry.order.price) {
+          last.quantity = round(last.quantity + entry.visibleRemaining);
+          last.orders += 1;
+        } else {
+          levels.push({ price: entry.order.price!, quantity: entry.visibleRemaining, orders: 1 });
+        }
+      }
+      return levels;
+    };
+
+    return {
+      bids: aggregate(this.side(asset, OrderSide.BUY)),
+      asks: aggregate(this.side(asset, OrderSide.SELL)),
+    };
+  }
+
+  recentTrades(asset: TradingAsset): Trade[] {
+    return [...(this.trades.get(asset) ?? [])];
+  }
+
+  /**
+   * Fills of one order from the store, oldest first
+   */
+  fills(orderId: string): Promise<Trade[]> {
+    return this.store.loadFills(orderId);
+  }
+
+  /**
+   * Mark price from trade history; undefined until the asset has traded
+   */
+  markPrice(asset: TradingAsset, now: Date = new Date()): number | undefined {
+    return computeMarkPrice(this.trades.get(asset) ?? [], now, this.markWindowMs);
+  }
+
+  stats(asset: TradingAsset, now: Date = new Date()): BookStats {
+    const bids = this.side(asset, OrderSide.BUY);
+    const asks = this.side(asset, OrderSide.SELL);
+    const bestBid = bids[0]?.order.price ?? 0;
+    const bestAsk = asks[0]?.order.price ?? 0;
+    const daily = (this.trades.get(asset) ?? []).filter(
+      trade => now.getTime() - trade.executedAt.getTime() <= DAY_MS
+    );
+    const dailyVolume = round(daily.reduce((sum, trade) => sum + trade.quantity, 0));
+
+    return {
+      bestBid,
+      bestAsk,
+      spread: bestBid && bestAsk ? round(bestAsk - bestBid) : 0,
+      depth: bids.length + asks.length,
+      dailyVolume,
+      dailyTrades: daily.length,
+      averageTradeSize: daily.length ? round(dailyVolume / daily.length) : 0,
+    };
+  }
+
+  // !== MATCHING !==
+
+  private async execute(entry: Entry<T>, now: Date): Promise<BookResult<T>> {
+    const order = entry.order;
+    const trades: Trade[] = [];
+    const touched = new Set<Entry<T>>([entry]);
+    let reason: string | undefined;
+
+    if (order.timeInForce === 'GTD' && this.isExpired(order, now)) {
+      this.markExpired(entry, now);
+      reason = 'Order expired before it reached the book';
+    } else if (
+      order.timeInForce === 'FOK' &&
+      this.fillable(order, now) < order.remainingAmount - EPSILON
+    ) {
+      order.status = OrderStatus.CANCELLED;
+      order.updatedAt = now;
+      reason = 'Fill-or-kill order could not be filled in full';
+    } else {
+      this.match(entry, now, trades, touched);
+      const rests =
+        order.type !== OrderType.MARKET &&
+        (order.timeInForce === 'GTC' || order.timeInForce === 'GTD');
+
+      if (order.remainingAmount <= EPSILON) {
+        order.status = OrderStatus.FILLED;
+      } else if (!rests) {
+        order.status = OrderStatus.CANCELLED;
+        order.updatedAt = now;
+        const rule = order.type === OrderType.MARKET ? 'market' : order.timeInForce;
+        reason = `Unfilled ${order.remainingAmount} cancelled (${rule})`;
+      } else {
+        entry.sequence = this.nextSequence();
+        entry.visibleRemaining = this.peak(order);
+        this.insert(entry);
+      }
+    }
+
+    for (const trade of trades) {
+      const history = this.history(trade.asset);
+      history.push(trade);
+      if (history.length > this.tradeHistoryLimit) {
+        history.splice(0, history.length - this.tradeHistoryLimit);
+      }
+    }
+    await this.persist([...touched], trades);
+
+    return { order, trades, updated: [...touched].map(touchedEntry => touchedEntry.order), reason };
+  }
+
+  private match(incoming: Entry<T>, now: Date, trades: Trade[], touched: Set<Entry<T>>): void {
+    const order = incoming.order;
+    const opposite = this.side(order.asset, opposing(order.side));
+    const limit = this.limitPrice(order, opposite);
+
+    let index = 0;
+    while (order.remainingAmount > EPSILON && index < opposite.length) {
+      const resting = opposite[index];
+
+      if (this.isExpired(resting.order, now)) {
+        opposite.splice(index, 1);
+        this.markExpired(resting, now);
+        touched.add(resting);
+        continue;
+      }
+      if (!crosses(order.side, limit, resting.order.price!)) break;
+      // Never trade a customer with themselves
+      if (resting.order.customerId === order.customerId) {
+        index++;
+        continue;
+      }
+
+      const quantity = round(Math.min(order.remainingAmount, resting.visibleRemaining));
+      const price = resting.order.price!;
+      const buy = order.side === OrderSide.BUY ? order : resting.order;
+      const sell = order.side === OrderSide.SELL ? order : resting.order;
+      trades.push({
+        id: `TRD_${crypto.randomUUID()}`,
+        asset: order.asset,
+        price,
+        quantity,
+        buyOrderId: buy.id,
+        sellOrderId: sell.id,
+        buyCustomerId: buy.customerId,
+        sellCustomerId: sell.customerId,
+        makerOrderId: resting.order.id,
+        takerOrderId: order.id,
+        sequence: this.nextSequence(),
+        executedAt: now,
+      });
+
+      fill(order, quantity, price, now);
+      fill(resting.order, quantity, price, now);
+      resting.visibleRemaining = round(resting.visibleRemaining - quantity);
+      touched.add(resting);
+
+      if (resting.order.remainingAmount <= EPSILON) {
+        opposite.splice(index, 1);
+        resting.visibleRemaining = 0;
+      } else if (resting.visibleRemaining <= EPSILON) {
+        // Iceberg refresh: the next peak goes to the back of its price level
+        opposite.splice(index, 1);
+        resting.sequence = this.nextSequence();
+        resting.visibleRemaining = this.peak(resting.order);
+        this.insert(resting);
+      }
+    }
+  }
+
+  /**
+   * Quantity an incoming order could take right now, hidden iceberg size included
+   */
+  private fillable(order: T, now: Date): number {
+    const opposite = this.side(order.asset, opposing(order.side));
+    const limit = this.limitPrice(order, opposite);
+    let total = 0;
+    for (const resting of opposite) {
+      if (this.isExpired(resting.order, now)) continue;
+      if (resting.order.customerId === order.customerId) continue;
+      if (!crosses(order.side, limit, resting.order.price!)) break;
+      total += resting.order.remainingAmount;
+    }
+    return round(total);
+  }
+
+  private limitPrice(order: T, opposite: Entry<T>[]): number | undefined {
+    if (order.type !== OrderType.MARKET) return order.price;
+    const best = opposite[0]?.order.price;
+    if (best === undefined || !order.maxSlippage) return undefined;
+    return order.side === OrderSide.BUY
+      ? best * (1 + order.maxSlippage)
+      : best * (1 - order.maxSlippage);
+  }
+
+  private validate(order: T): void {
+    if (!BOOK_ORDER_TYPES.includes(order.type)) {
+      throw new Error(`Order type ${order.type} is not supported by the order book`);
+    }
+    if (!(order.amount > 0)) {
+      throw new Error(`Order ${order.id} needs a positive amount`);
+    }
+    if (order.type !== OrderType.MARKET && !(Number(order.price) > 0)) {
+      throw new Error(`Order ${order.id} needs a positive price`);
+    }
+    if (order.timeInForce === 'GTD' && !order.expiresAt) {
+      throw new Error(`Good-till-time order ${order.id} needs an expiry time`);
+    }
+    if (this.isIceberg(order) && !(order.visibleSize! > 0 && order.visibleSize! <= order.amount)) {
+      throw new Error(`Iceberg order ${order.id} needs a visible size between 0 and its amount`);
+    }
+  }
+
+  // !== HELPERS !==
+
+  private isIceberg(order: T): boolean {
+    return order.type === OrderType.ICEBERG || order.isIceberg;
+  }
+
+  private peak(order: T): number {
+    return this.isIceberg(order)
+      ? round(Math.min(order.visibleSize!, order.remainingAmount))
+      : order.remainingAmount;
+  }
+
+  private isExpired(order: T, now: Date): boolean {
+    return order.timeInForce === 'GTD' && !!order.expiresAt && order.expiresAt <= now;
+  }
+
+  private markExpired(entry: Entry<T>, now: Date): void {
+    entry.order.status = OrderStatus.EXPIRED;
+    entry.order.updatedAt = now;
+    entry.visibleRemaining = 0;
+  }
+
+  private isResting(entry: Entry<T>): boolean {
+    return this.side(entry.order.asset, entry.order.side).includes(entry);
+  }
+
+  private side(asset: TradingAsset, side: OrderSide): Entry<T>[] {
+    const books = side === OrderSide.BUY ? this.bids : this.asks;
+    if (!books.has(asset)) books.set(asset, []);
+    return books.get(asset)!;
+  }
+
+  private insert(entry: Entry<T>): void {
+    const entries = this.side(entry.order.asset, entry.order.side);
+    const direction = entry.order.side === OrderSide.BUY ? -1 : 1;
+    entries.push(entry);
+    entries.sort(
+      (a, b) => direction * (a.order.price! - b.order.price!) || a.sequence - b.sequence
+    );
+  }
+
+  private remove(entry: Entry<T>): boolean {
+    const entries = this.side(entry.order.asset, entry.order.side);
+    const index = entries.indexOf(entry);
+    if (index === -1) return false;
+    entries.splice(index, 1);
+    return true;
+  }
+
+  private history(asset: TradingAsset): Trade[] {
+    if (!this.trades.has(asset)) this.trades.set(asset, []);
+    return this.trades.get(asset)!;
+  }
+
+  private nextSequence(): number {
+    return ++this.sequence;
+  }
+
+  private async persist(entries: Entry<T>[], trades: Trade[]): Promise<void> {
+    await this.store.save(
+      entries.map(entry => ({
+        order: entry.order,
+        sequence: entry.sequence,
+        visibleRemaining: this.isResting(entry) ? entry.visibleRemaining : 0,
+      })),
+      trades
+    );
+    // Finished orders live on in the store only
+    for (const entry of entries) {
+      if (!this.isResting(entry)) this.entries.delete(entry.order.id);
+    }
+  }
+}
+
+/**
+ * Volume-weighted price of the trades inside the window, or the last trade
+ * price when the window is empty
+ */
+export function computeMarkPrice(
+  trades: Trade[],
+  now: Date,
+  windowMs: number = 5 * 60 * 1000
+): number | undefined {
+  if (trades.length === 0) return undefined;
+
+  const recent = trades.filter(trade => {
+    const age = now.getTime() - trade.executedAt.getTime();
+    return age >= 0 && age <= windowMs;
+  });
+  if (recent.length === 0) {
+    return trades.reduce((latest, trade) => (trade.sequence > latest.sequence ? trade : latest))
+      .price;
+  }
+
+  const quantity = recent.reduce((sum, trade) => sum + trade.quantity, 0);
+  const notional = recent.reduce((sum, trade) => sum + trade.price * trade.quantity, 0);
+  return round(notional / quantity);
+}
+
+function fill(order: BookOrder, quantity: number, price: number, now: Date): void {
+  const filled = round(order.filledAmount + quantity);
+  order.averagePrice = round((order.averagePrice * order.filledAmount + price * quantity) / filled);
+  order.filledAmount = filled;
+  order.remainingAmount = round(order.amount - filled);
+  order.status =
+    order.remainingAmount <= EPSILON ? OrderStatus.FILLED : OrderStatus.PARTIALLY_FILLED;
+  order.updatedAt = now;
+}
+
+function crosses(side: OrderSide, limit: number | undefined, restingPrice: number): boolean {
+  if (limit === undefined) return true;
+  return side === OrderSide.BUY ? restingPrice <= limit + EPSILON : restingPrice >= limit - EPSILON;
+}
+
+function opposing(side: OrderSide): OrderSide {
+  return side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+// !== PERSISTENCE !==
+
+function serializeOrder(order: BookOrder): string {
+  return JSON.stringify(order);
+}
+
+/** Revive the order's *At timestamps */
+function reviveOrder(payload: string): BookOrder {
+  return JSON.parse(payload, (key, value) =>
+    typeof value === 'string' && key.endsWith('At') && !Number.isNaN(Date.parse(value))
+      ? new Date(value)
+      : value
+  );
+}
+
+/**
+ * In-process store; keeps copies so restore behaves like a real restart
+ */
+export class MemoryOrderBookStore implements OrderBookStore {
+  private orders = new Map<
+    string,
+    { payload: string; sequence: number; visibleRemaining: number }
+  >();
+  private trades: Trade[] = [];
+
+  async save(orders: StoredOrder[], trades: Trade[]): Promise<void> {
+    for (const { order, sequence, visibleRemaining } of orders) {
+      this.orders.set(order.id, { payload: serializeOrder(order), sequence, visibleRemaining });
+    }
+    this.trades.push(...trades.map(trade => ({ ...trade })));
+  }
+
+  async loadOpenOrders(): Promise<StoredOrder[]> {
+    return [...this.orders.values()]
+      .map(row => ({
+        order: reviveOrder(row.payload),
+        sequence: row.sequence,
+        visibleRemaining: row.visibleRemaining,
+      }))
+      .filter(stored => RESTING_STATUSES.includes(stored.order.status))
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  async loadRecentTrades(perAsset: number): Promise<Trade[]> {
+    const byAsset = new Map<TradingAsset, Trade[]>();
+    for (const trade of this.trades) {
+      byAsset.set(trade.asset, [...(byAsset.get(trade.asset) ?? []), { ...trade }]);
+    }
+    return [...byAsset.values()].flatMap(trades => trades.slice(-perAsset));
+  }
+
+  async loadFills(orderId: string): Promise<Trade[]> {
+    return this.trades
+      .filter(trade => trade.buyOrderId === orderId || trade.sellOrderId === orderId)
+      .map(trade => ({ ...trade }));
+  }
+}
+
+/**
+ * D1 or bun:sqlite store: one row per order (full order as JSON) and one
+ * per fill
+ */
+export class SqlOrderBookStore implements OrderBookStore {
+  private schemaReady = false;
+
+  constructor(private readonly db: MatchingDatabase) {}
+
+  async ensureSchema(): Promise<void> {
+    if (this.schemaReady) return;
+
+    await runBatch(this.db, [
+      [
+        `CREATE TABLE IF NOT EXISTS otc_orders (
+          id TEXT PRIMARY KEY,
+          asset TEXT NOT NULL,
+          customer_id TEXT NOT NULL,
+          side TEXT NOT NULL,
+          type TEXT NOT NULL,
+          price REAL,
+          status TEXT NOT NULL,
+          remaining_amount REAL NOT NULL,
+          sequence INTEGER NOT NULL,
+          visible_remaining REAL NOT NULL DEFAULT 0,
+          payload TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS otc_trades (
+          id TEXT PRIMARY KEY,
+          asset TEXT NOT NULL,
+          price REAL NOT NULL,
+          quantity REAL NOT NULL,
+          buy_order_id TEXT NOT NULL,
+          sell_order_id TEXT NOT NULL,
+          buy_customer_id TEXT NOT NULL,
+          sell_customer_id TEXT NOT NULL,
+          maker_order_id TEXT NOT NULL,
+          taker_order_id TEXT NOT NULL,
+          sequence INTEGER NOT NULL,
+          executed_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [`CREATE INDEX IF NOT EXISTS idx_otc_orders_status ON otc_orders(status)`, []],
+      [`CREATE INDEX IF NOT EXISTS idx_otc_trades_asset_sequence ON otc_trades(asset, sequence)`, []],
+      [`CREATE INDEX IF NOT EXISTS idx_otc_trades_buy_order ON otc_trades(buy_order_id)`, []],
+      [`CREATE INDEX IF NOT EXISTS idx_otc_trades_sell_order ON otc_trades(sell_order_id)`, []],
+    ]);
+
+    this.schemaReady = true;
+  }
+
+  async save(orders: StoredOrder[], trades: Trade[]): Promise<void> {
+    await this.ensureSchema();
+
+    const statements: SqlStatement[] = [
+      ...orders.map(({ order, sequence, visibleRemaining }): SqlStatement => [
+        `INSERT INTO otc_orders (id, asset, customer_id, side, type, price, status, remaining_amount, sequence, visible_remaining, payload, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           price = excluded.price,
+           status = excluded.status,
+           remaining_amount = excluded.remaining_amount,
+           sequence = excluded.sequence,
+           visible_remaining = excluded.visible_remaining,
+           payload = excluded.payload,
+           updated_at = excluded.updated_at`,
+        [
+          order.id,
+          order.asset,
+          order.customerId,
+          order.side,
+          order.type,
+          order.price ?? null,
+          order.status,
+          order.remainingAmount,
+          sequence,
+          visibleRemaining,
+          serializeOrder(order),
+          order.updatedAt.toISOString(),
+        ],
+      ]),
+      ...trades.map((trade): SqlStatement => [
+        `INSERT INTO otc_trades (id, asset, price, quantity, buy_order_id, sell_order_id, buy_customer_id, sell_customer_id, maker_order_id, taker_order_id, sequence, executed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          trade.id,
+          trade.asset,
+          trade.price,
+          trade.quantity,
+          trade.buyOrderId,
+          trade.sellOrderId,
+          trade.buyCustomerId,
+          trade.sellCustomerId,
+          trade.makerOrderId,
+          trade.takerOrderId,
+          trade.sequence,
+          trade.executedAt.toISOString(),
+        ],
+      ]),
+    ];
+    if (statements.length > 0) {
+      await runBatch(this.db, statements);
+    }
+  }
+
+  async loadOpenOrders(): Promise<StoredOrder[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT payload, sequence, visible_remaining FROM otc_orders
+       WHERE status IN (?, ?) ORDER BY sequence`,
+      RESTING_STATUSES
+    );
+    return rows.map(row => ({
+      order: reviveOrder(row.payload),
+      sequence: Number(row.sequence),
+      visibleRemaining: Number(row.visible_remaining),
+    }));
+  }
+
+  async loadRecentTrades(perAsset: number): Promise<Trade[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM (
+         SELECT *, ROW_NUMBER() OVER (PARTITION BY asset ORDER BY sequence DESC) AS recency
+         FROM otc_trades
+       ) WHERE recency <= ? ORDER BY sequence`,
+      [perAsset]
+    );
+    return rows.map(toTrade);
+  }
+
+  async loadFills(orderId: string): Promise<Trade[]> {
+    await this.ensureSchema();
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM otc_trades WHERE buy_order_id = ? OR sell_order_id = ? ORDER BY sequence`,
+      [orderId, orderId]
+    );
+    return rows.map(toTrade);
+  }
+}
+
+function toTrade(row: Record<string, any>): Trade {
+  return {
+    id: row.id,
+    asset: row.asset,
+    price: Number(row.price),
+    quantity: Number(row.quantity),
+    buyOrderId: row.buy_order_id,
+    sellOrderId: row.sell_order_id,
+    buyCustomerId: row.buy_customer_id,
+    sellCustomerId: row.sell_customer_id,
+    makerOrderId: row.maker_order_id,
+    takerOrderId: row.taker_order_id,
+    sequence: Number(row.sequence),
+    executedAt: new Date(row.executed_at),
+  };
+}
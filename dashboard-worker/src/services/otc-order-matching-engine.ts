@@ -1,6 +1,10 @@
 /**
  * 🔥 Fire22 OTC Order Matching Engine
  * Real-time order matching with P2P queue integration and Telegram coordination
+ *
+ * Orders match on arrival against persisted price-time priority books (see
+ * otc-order-book.ts). There is no polling loop: call restore() once at startup
+ * and expireOrders() on a schedule to sweep good-till-time orders.
  */
 
 import { ServiceTierManager } from './service-tier-manager';
@@ -24,43 +28,24 @@ import {
 } from '../utils/l-key-mapper';
 import { getGlobalLogger } from '../utils/logger';
 import type { MonitoringConfig } from '../types/enhanced-types';
+import {
+  OTCOrderBooks,
+  BOOK_ORDER_TYPES,
+  OrderType,
+  OrderStatus,
+  OrderSide,
+  TradingAsset,
+  type BookResult,
+  type OrderBookStore,
+  type OrderBooksOptions,
+  type OrderReplacement,
+  type TimeInForce,
+  type Trade,
+} from './otc-order-book';
 
 // Order Types and Enums
-export enum OrderType {
-  MARKET = 'market',
-  LIMIT = 'limit',
-  STOP_LOSS = 'stop_loss',
-  OTC_BLOCK = 'otc_block',
-  ICEBERG = 'iceberg',
-  TWAP = 'twap',
-  AON = 'all_or_nothing',
-}
-
-export enum OrderStatus {
-  PENDING = 'pending',
-  OPEN = 'open',
-  PARTIALLY_FILLED = 'partial',
-  MATCHING = 'matching',
-  NEGOTIATING = 'negotiating',
-  FILLED = 'filled',
-  CANCELLED = 'cancelled',
-  EXPIRED = 'expired',
-  REJECTED = 'rejected',
-}
-
-export enum OrderSide {
-  BUY = 'buy',
-  SELL = 'sell',
-}
-
-export enum TradingAsset {
-  BTC = 'BTC',
-  ETH = 'ETH',
-  USDC = 'USDC',
-  USDT = 'USDT',
-  EUR = 'EUR',
-  GBP = 'GBP',
-}
+export { OrderType, OrderStatus, OrderSide, TradingAsset };
+export type { OrderReplacement, Trade };
 
 // Order Interfaces
 export interface OTCOrder {
@@ -87,8 +72,8 @@ export interface OTCOrder {
   allowPartialFill: boolean;
   minFillSize?: number;
   maxSlippage?: number;
-  timeInForce: 'IOC' | 'FOK' | 'GTC' | 'GTD'; // Immediate or Cancel, Fill or Kill, Good Till Cancel, Good Till Date
-  expiresAt?: Date;
+  timeInForce: TimeInForce;
+  expiresAt?: Date; // Required for GTD
 
   // Hidden/Iceberg Orders
   isIceberg: boolean;
@@ -167,6 +152,7 @@ export interface OrderBook {
   bestAsk: number;
   spread: number;
   depth: number;
+  markPrice: number;
 
   // Statistics
   dailyVolume: number;
@@ -174,39 +160,48 @@ export interface OrderBook {
   averageTradeSize: number;
 }
 
+export interface OTCMatchingEngineOptions {
+  /** Where books and fills are persisted; in-memory when omitted */
+  store?: OrderBookStore;
+  books?: OrderBooksOptions;
+}
+
+// Reference prices until an asset has traded on the desk
+const REFERENCE_PRICES: Record<TradingAsset, number> = {
+  BTC: 65000,
+  ETH: 2500,
+  USDC: 1,
+  USDT: 1,
+  EUR: 1.08,
+  GBP: 1.26,
+};
+
 // Main OTC Matching Engine
 export class OTCMatchingEngine {
-  private orderBooks: Map<TradingAsset, OrderBook> = new Map();
+  private books: OTCOrderBooks<OTCOrder>;
   private activeOrders: Map<string, OTCOrder> = new Map();
   private pendingMatches: Map<string, OrderMatch> = new Map();
   private configManager = DynamicConfigManager.getInstance();
   private tierManager = ServiceTierManager.getInstance();
   private logger = getGlobalLogger({ logLevel: 'info' } as MonitoringConfig); // Initialize with a basic config
 
-  constructor() {
-    this.initializeOrderBooks();
-    this.startMatchingLoop();
+  constructor(options: OTCMatchingEngineOptions = {}) {
+    this.books = new OTCOrderBooks<OTCOrder>(options.store, options.books);
   }
 
   /**
-   * Initialize order books for all trading assets
+   * Reload resting orders and recent trades after a restart
    */
-  private initializeOrderBooks(): void {
-    Object.values(TradingAsset).forEach(asset => {
-      this.orderBooks.set(asset as TradingAsset, {
-        asset: asset as TradingAsset,
-        buyOrders: [],
-        sellOrders: [],
-        lastUpdate: new Date(),
-        bestBid: 0,
-        bestAsk: 0,
-        spread: 0,
-        depth: 0,
-        dailyVolume: 0,
-        dailyTrades: 0,
-        averageTradeSize: 0,
-      });
-    });
+  public async restore(): Promise<number> {
+    const restored = await this.books.restore();
+
+    for (const asset of Object.values(TradingAsset)) {
+      const { bids, asks } = this.books.snapshot(asset);
+      [...bids, ...asks].forEach(order => this.activeOrders.set(order.id, order));
+    }
+
+    this.logger.info(`Restored ${restored} resting OTC orders`, { restored });
+    return restored;
   }
 
   /**
@@ -281,6 +276,11 @@ export class OTCMatchingEngine {
       updatedAt: new Date(),
     } as OTCOrder;
 
+    // OTC blocks rest at their target price until negotiated
+    if (order.type === OrderType.OTC_BLOCK && order.price === undefined) {
+      order.price = order.targetPrice;
+    }
+
     // Validate order
     const validation = await this.validateOrder(order);
     if (!validation.isValid) {
@@ -307,11 +307,18 @@ export class OTCMatchingEngine {
       },
     });
 
-    this.addToOrderBook(order);
-    this.activeOrders.set(orderId, order);
+    // Match on arrival; whatever is left rests in the persisted book
+    const referencePrice = this.getMarketPrice(order.asset);
+    let result: BookResult<OTCOrder>;
+    try {
+      result = await this.books.submit(order);
+    } catch (error: any) {
+      order.status = OrderStatus.REJECTED;
+      throw new Error(`Order rejected: ${error.message}`);
+    }
 
-    // Trigger immediate matching attempt
-    await this.attemptMatch(order);
+    this.activeOrders.set(orderId, order);
+    await this.handleBookResult(result, referencePrice);
 
     // Send Telegram notification with L-Key context
     await this.sendOrderNotification(order);
@@ -332,6 +339,10 @@ export class OTCMatchingEngine {
   private async validateOrder(order: OTCOrder): Promise<{ isValid: boolean; reasons: string[] }> {
     const reasons: string[] = [];
 
+    if (!BOOK_ORDER_TYPES.includes(order.type)) {
+      reasons.push(`Order type not supported: ${order.type}`);
+    }
+
     // Check minimum order size
     const minSize = this.getMinimumOrderSize(order.asset, order.type);
     if (order.amount < minSize) {
@@ -357,116 +368,84 @@ export class OTCMatchingEngine {
   }
 
   /**
-   * Attempt to match an order
+   * Turn the book's fills into matches: blocks go to negotiation, everything
+   * else settles straight away
    */
-  private async attemptMatch(order: OTCOrder): Promise<OrderMatch[]> {
+  private async handleBookResult(
+    result: BookResult<OTCOrder>,
+    referencePrice: number
+  ): Promise<OrderMatch[]> {
     const matches: OrderMatch[] = [];
-    const orderBook = this.orderBooks.get(order.asset);
-
-    if (!orderBook) return matches;
-
-    // Get counter orders (opposite side)
-    const counterOrders = order.side === OrderSide.BUY ? orderBook.sellOrders : orderBook.buyOrders;
-
-    // Sort counter orders by priority and price
-    const sortedCounterOrders = this.sortCounterOrders(counterOrders, order);
-
-    for (const counterOrder of sortedCounterOrders) {
-      // Check if orders can match
-      const canMatch = await this.canMatch(order, counterOrder);
-
-      if (canMatch) {
-        // Calculate match details
-        const matchDetails = this.calculateMatchDetails(order, counterOrder);
-
-        // Create match object
-        const match: OrderMatch = {
-          id: this.generateMatchId(),
-          buyOrder: order.side === OrderSide.BUY ? order : counterOrder,
-          sellOrder: order.side === OrderSide.SELL ? order : counterOrder,
-          matchedAmount: matchDetails.amount,
-          matchedPrice: matchDetails.price,
-          priceImprovement: matchDetails.priceImprovement,
-          executionTime: new Date(),
-          dealRoomId: '',
-          moderatorId: '',
-          negotiationComplete: false,
-          status: 'proposed',
-          buyerFee: matchDetails.buyerFee,
-          sellerFee: matchDetails.sellerFee,
-          platformRevenue: matchDetails.buyerFee + matchDetails.sellerFee,
-        };
-
-        // For OTC blocks, initiate negotiation
-        if (order.type === OrderType.OTC_BLOCK || counterOrder.type === OrderType.OTC_BLOCK) {
-          match.status = 'negotiating';
-          await this.initiateNegotiation(match);
-        } else {
-          // Direct execution for non-OTC orders
-          await this.executeMatch(match);
-        }
 
-        matches.push(match);
-        this.pendingMatches.set(match.id, match);
+    for (const trade of result.trades) {
+      const buyOrder = this.findOrder(trade.buyOrderId);
+      const sellOrder = this.findOrder(trade.sellOrderId);
+      const matchDetails = this.calculateMatchDetails(buyOrder, sellOrder, trade, referencePrice);
+
+      const match: OrderMatch = {
+        id: this.generateMatchId(),
+        buyOrder,
+        sellOrder,
+        matchedAmount: matchDetails.amount,
+        matchedPrice: matchDetails.price,
+        priceImprovement: matchDetails.priceImprovement,
+        executionTime: trade.executedAt,
+        dealRoomId: '',
+        moderatorId: '',
+        negotiationComplete: false,
+        status: 'proposed',
+        buyerFee: matchDetails.buyerFee,
+        sellerFee: matchDetails.sellerFee,
+        platformRevenue: matchDetails.buyerFee + matchDetails.sellerFee,
+      };
+
+      // For OTC blocks, initiate negotiation
+      if (buyOrder.type === OrderType.OTC_BLOCK || sellOrder.type === OrderType.OTC_BLOCK) {
+        match.status = 'negotiating';
+        await this.initiateNegotiation(match);
+      } else {
+        // Direct execution for non-OTC orders
+        await this.executeMatch(match);
+      }
 
-        // Update order fill status
-        order.filledAmount += matchDetails.amount;
-        order.remainingAmount -= matchDetails.amount;
+      matches.push(match);
+      this.pendingMatches.set(match.id, match);
+    }
 
-        if (order.remainingAmount === 0) {
-          order.status = OrderStatus.FILLED;
-          break;
-        } else {
-          order.status = OrderStatus.PARTIALLY_FILLED;
-        }
+    if (result.reason) {
+      this.logger.info(`Order ${result.order.id} did not rest: ${result.reason}`, {
+        orderId: result.order.id,
+        filledAmount: result.order.filledAmount,
+      });
+    }
+
+    // Resting orders the book expired while matching
+    for (const order of result.updated) {
+      if (order.status === OrderStatus.EXPIRED) {
+        await this.refundLockedFunds(order);
+        await this.sendCancellationNotification(order, 'Order expired');
       }
     }
 
     return matches;
   }
 
-  /**
-   * Check if two orders can match
-   */
-  private async canMatch(order1: OTCOrder, order2: OTCOrder): Promise<boolean> {
-    // Check basic compatibility
-    if (order1.asset !== order2.asset) return false;
-    if (order1.side === order2.side) return false;
-    if (order1.status !== OrderStatus.OPEN && order1.status !== OrderStatus.PARTIALLY_FILLED)
-      return false;
-    if (order2.status !== OrderStatus.OPEN && order2.status !== OrderStatus.PARTIALLY_FILLED)
-      return false;
-
-    // Check price compatibility
-    if (order1.type === OrderType.LIMIT && order2.type === OrderType.LIMIT) {
-      const buyPrice = order1.side === OrderSide.BUY ? order1.price! : order2.price!;
-      const sellPrice = order1.side === OrderSide.SELL ? order1.price! : order2.price!;
-
-      if (buyPrice < sellPrice) return false;
+  private findOrder(orderId: string): OTCOrder {
+    const order = this.activeOrders.get(orderId) ?? this.books.getOrder(orderId);
+    if (!order) {
+      throw new Error(`Order ${orderId} is not known to the matching engine`);
     }
-
-    // Check size compatibility
-    const matchableSize = Math.min(order1.remainingAmount, order2.remainingAmount);
-
-    if (!order1.allowPartialFill && matchableSize < order1.remainingAmount) return false;
-    if (!order2.allowPartialFill && matchableSize < order2.remainingAmount) return false;
-
-    if (order1.minFillSize && matchableSize < order1.minFillSize) return false;
-    if (order2.minFillSize && matchableSize < order2.minFillSize) return false;
-
-    // Check compliance
-    const complianceCheck = await this.checkComplianceRules(order1, order2);
-    if (!complianceCheck) return false;
-
-    return true;
+    return order;
   }
 
   /**
    * Calculate match details including price and fees
    */
   private calculateMatchDetails(
-    order1: OTCOrder,
-    order2: OTCOrder
+    buyOrder: OTCOrder,
+    sellOrder: OTCOrder,
+    trade: Trade,
+    referencePrice: number
   ): {
     amount: number;
     price: number;
@@ -474,33 +453,17 @@ export class OTCMatchingEngine {
     buyerFee: number;
     sellerFee: number;
   } {
-    // Determine match amount
-    const amount = Math.min(order1.remainingAmount, order2.remainingAmount);
-
-    // Determine match price
-    let price = 0;
-    if (order1.type === OrderType.MARKET) {
-      price = order2.price || this.getMarketPrice(order1.asset);
-    } else if (order2.type === OrderType.MARKET) {
-      price = order1.price || this.getMarketPrice(order1.asset);
-    } else {
-      // For limit orders, use mid-price or better price for taker
-      const buyPrice = order1.side === OrderSide.BUY ? order1.price! : order2.price!;
-      const sellPrice = order1.side === OrderSide.SELL ? order1.price! : order2.price!;
-      price = (buyPrice + sellPrice) / 2;
-    }
+    // The book trades at the resting order's price
+    const amount = trade.quantity;
+    const price = trade.price;
 
-    // Calculate price improvement
-    const marketPrice = this.getMarketPrice(order1.asset);
+    // Price improvement for the taker against the mark before it arrived
     const priceImprovement =
-      order1.side === OrderSide.BUY
-        ? Math.max(0, marketPrice - price)
-        : Math.max(0, price - marketPrice);
+      trade.takerOrderId === buyOrder.id
+        ? Math.max(0, referencePrice - price)
+        : Math.max(0, price - referencePrice);
 
     // Calculate fees based on service tier and order size
-    const buyOrder = order1.side === OrderSide.BUY ? order1 : order2;
-    const sellOrder = order1.side === OrderSide.SELL ? order1 : order2;
-
     const buyerFee = this.calculateOrderFee(buyOrder, amount);
     const sellerFee = this.calculateOrderFee(sellOrder, amount);
 
@@ -561,10 +524,6 @@ export class OTCMatchingEngine {
    */
   private async executeMatch(match: OrderMatch): Promise<void> {
     try {
-      // Update order statuses
-      match.buyOrder.status = OrderStatus.MATCHING;
-      match.sellOrder.status = OrderStatus.MATCHING;
-
       // Process settlement
       const settlement = await this.processSettlement(match);
 
@@ -574,15 +533,9 @@ export class OTCMatchingEngine {
         match.settlementTime = new Date();
         match.transactionHash = settlement.transactionHash;
 
-        // Update order fills
-        this.updateOrderFills(match);
-
         // Send confirmations via Telegram
         await this.sendExecutionNotifications(match);
 
-        // Update order book
-        this.updateOrderBook(match.buyOrder.asset);
-
         // Log trade for analytics
         await this.logTrade(match);
         this.logger.info(`Match executed successfully: ${match.id}`, {
@@ -673,20 +626,11 @@ export class OTCMatchingEngine {
   }
 
   /**
-   * Get current market price for asset
+   * Mark price for an asset: volume-weighted recent trades, then the last
+   * trade, then the reference price
    */
-  private getMarketPrice(asset: TradingAsset): number {
-    // In production, fetch from price feed
-    const marketPrices = {
-      BTC: 65000,
-      ETH: 2500,
-      USDC: 1,
-      USDT: 1,
-      EUR: 1.08,
-      GBP: 1.26,
-    };
-
-    return marketPrices[asset] || 0;
+  public getMarketPrice(asset: TradingAsset, now: Date = new Date()): number {
+    return this.books.markPrice(asset, now) ?? REFERENCE_PRICES[asset] ?? 0;
   }
 
   /**
@@ -755,95 +699,6 @@ export class OTCMatchingEngine {
     return `MATCH_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private addToOrderBook(order: OTCOrder): void {
-    const orderBook = this.orderBooks.get(order.asset);
-    if (!orderBook) return;
-
-    if (order.side === OrderSide.BUY) {
-      orderBook.buyOrders.push(order);
-      orderBook.buyOrders.sort((a, b) => (b.price || 0) - (a.price || 0));
-    } else {
-      orderBook.sellOrders.push(order);
-      orderBook.sellOrders.sort((a, b) => (a.price || 0) - (b.price || 0));
-    }
-
-    this.updateOrderBookStats(orderBook);
-  }
-
-  private updateOrderBookStats(orderBook: OrderBook): void {
-    orderBook.bestBid = orderBook.buyOrders[0]?.price || 0;
-    orderBook.bestAsk = orderBook.sellOrders[0]?.price || 0;
-    orderBook.spread = orderBook.bestAsk - orderBook.bestBid;
-    orderBook.depth = orderBook.buyOrders.length + orderBook.sellOrders.length;
-    orderBook.lastUpdate = new Date();
-  }
-
-  private sortCounterOrders(orders: OTCOrder[], referenceOrder: OTCOrder): OTCOrder[] {
-    return orders.sort((a, b) => {
-      // Priority first
-      if (b.priority !== a.priority) return b.priority - a.priority;
-
-      // Then price
-      if (referenceOrder.side === OrderSide.BUY) {
-        return (a.price || 0) - (b.price || 0); // Lowest sell price first
-      } else {
-        return (b.price || 0) - (a.price || 0); // Highest buy price first
-      }
-    });
-  }
-
-  private async checkComplianceRules(order1: OTCOrder, order2: OTCOrder): Promise<boolean> {
-    // Check for wash trading (same customer)
-    if (order1.customerId === order2.customerId) return false;
-
-    // Add more compliance checks as needed
-
-    return true;
-  }
-
-  private updateOrderFills(match: OrderMatch): void {
-    match.buyOrder.filledAmount += match.matchedAmount;
-    match.buyOrder.remainingAmount -= match.matchedAmount;
-
-    match.sellOrder.filledAmount += match.matchedAmount;
-    match.sellOrder.remainingAmount -= match.matchedAmount;
-
-    // Update average prices
-    const buyTotalValue =
-      match.buyOrder.averagePrice * (match.buyOrder.filledAmount - match.matchedAmount) +
-      match.matchedPrice * match.matchedAmount;
-    match.buyOrder.averagePrice = buyTotalValue / match.buyOrder.filledAmount;
-
-    const sellTotalValue =
-      match.sellOrder.averagePrice * (match.sellOrder.filledAmount - match.matchedAmount) +
-      match.matchedPrice * match.matchedAmount;
-    match.sellOrder.averagePrice = sellTotalValue / match.sellOrder.filledAmount;
-
-    // Update statuses
-    if (match.buyOrder.remainingAmount === 0) {
-      match.buyOrder.status = OrderStatus.FILLED;
-    } else {
-      match.buyOrder.status = OrderStatus.PARTIALLY_FILLED;
-    }
-
-    if (match.sellOrder.remainingAmount === 0) {
-      match.sellOrder.status = OrderStatus.FILLED;
-    } else {
-      match.sellOrder.status = OrderStatus.PARTIALLY_FILLED;
-    }
-  }
-
-  private updateOrderBook(asset: TradingAsset): void {
-    const orderBook = this.orderBooks.get(asset);
-    if (!orderBook) return;
-
-    // Remove filled orders
-    orderBook.buyOrders = orderBook.buyOrders.filter(o => o.status !== OrderStatus.FILLED);
-    orderBook.sellOrders = orderBook.sellOrders.filter(o => o.status !== OrderStatus.FILLED);
-
-    this.updateOrderBookStats(orderBook);
-  }
-
   // Telegram integration methods (placeholders)
   private async sendOrderNotification(order: OTCOrder): Promise<void> {
     // Send to main OTC hall
@@ -908,80 +763,80 @@ Contact: @Fire22OTCBot to match`;
   }
 
   /**
-   * Start the continuous matching loop
+   * Get current order book for an asset
    */
-  private startMatchingLoop(): void {
-    setInterval(() => {
-      this.runMatchingCycle();
-    }, 1000); // Run every second
+  public getOrderBook(asset: TradingAsset, now: Date = new Date()): OrderBook {
+    const { bids, asks } = this.books.snapshot(asset);
+
+    return {
+      asset,
+      buyOrders: bids,
+      sellOrders: asks,
+      lastUpdate: now,
+      ...this.books.stats(asset, now),
+      markPrice: this.getMarketPrice(asset, now),
+    };
   }
 
   /**
-   * Run a single matching cycle
+   * Get order by ID
    */
-  private async runMatchingCycle(): Promise<void> {
-    for (const [asset, orderBook] of this.orderBooks) {
-      // Match orders for each asset
-      await this.matchOrdersForAsset(asset, orderBook);
-    }
+  public getOrder(orderId: string): OTCOrder | undefined {
+    return this.activeOrders.get(orderId);
   }
 
   /**
-   * Match orders for a specific asset
+   * Fills recorded against an order, oldest first, for audit
    */
-  private async matchOrdersForAsset(asset: TradingAsset, orderBook: OrderBook): Promise<void> {
-    // Get matchable orders
-    const openBuyOrders = orderBook.buyOrders.filter(
-      o => o.status === OrderStatus.OPEN || o.status === OrderStatus.PARTIALLY_FILLED
-    );
-
-    const openSellOrders = orderBook.sellOrders.filter(
-      o => o.status === OrderStatus.OPEN || o.status === OrderStatus.PARTIALLY_FILLED
-    );
-
-    // Try to match orders
-    for (const buyOrder of openBuyOrders) {
-      for (const sellOrder of openSellOrders) {
-        if (await this.canMatch(buyOrder, sellOrder)) {
-          await this.attemptMatch(buyOrder);
-          break; // Move to next buy order after successful match
-        }
-      }
-    }
+  public async getOrderFills(orderId: string): Promise<Trade[]> {
+    return this.books.fills(orderId);
   }
 
   /**
-   * Get current order book for an asset
+   * Cancel/replace a resting order. A size reduction keeps queue priority;
+   * a new price, a larger size or a new iceberg peak re-enters the book.
    */
-  public getOrderBook(asset: TradingAsset): OrderBook | undefined {
-    return this.orderBooks.get(asset);
+  public async replaceOrder(orderId: string, changes: OrderReplacement): Promise<OTCOrder> {
+    const order = this.findOrder(orderId);
+    const referencePrice = this.getMarketPrice(order.asset);
+
+    const result = await this.books.replace(orderId, changes);
+
+    auditTrailMapper.logEntry({
+      action: 'ORDER_REPLACED',
+      entityId: orderId,
+      entityType: order.type,
+      userId: order.customerId,
+      metadata: { changes, lKeys: order.auditTrail },
+    });
+
+    await this.handleBookResult(result, referencePrice);
+    return order;
   }
 
   /**
-   * Get order by ID
+   * Expire good-till-time orders; run on a schedule
    */
-  public getOrder(orderId: string): OTCOrder | undefined {
-    return this.activeOrders.get(orderId);
+  public async expireOrders(now: Date = new Date()): Promise<OTCOrder[]> {
+    const expired = await this.books.expire(now);
+
+    for (const order of expired) {
+      await this.refundLockedFunds(order);
+      await this.sendCancellationNotification(order, 'Order expired');
+    }
+
+    return expired;
   }
 
   /**
    * Cancel an order
    */
   public async cancelOrder(orderId: string, reason: string): Promise<boolean> {
-    const order = this.activeOrders.get(orderId);
+    // Only resting orders can be cancelled; filled or finished ones are left as is
+    const order = await this.books.cancel(orderId);
 
     if (!order) return false;
 
-    if (order.status === OrderStatus.FILLED || order.status === OrderStatus.CANCELLED) {
-      return false; // Cannot cancel filled or already cancelled orders
-    }
-
-    order.status = OrderStatus.CANCELLED;
-    order.updatedAt = new Date();
-
-    // Remove from order book
-    this.removeFromOrderBook(order);
-
     // Refund any locked funds
     await this.refundLockedFunds(order);
 
@@ -991,19 +846,6 @@ Contact: @Fire22OTCBot to match`;
     return true;
   }
 
-  private removeFromOrderBook(order: OTCOrder): void {
-    const orderBook = this.orderBooks.get(order.asset);
-    if (!orderBook) return;
-
-    if (order.side === OrderSide.BUY) {
-      orderBook.buyOrders = orderBook.buyOrders.filter(o => o.id !== order.id);
-    } else {
-      orderBook.sellOrders = orderBook.sellOrders.filter(o => o.id !== order.id);
-    }
-
-    this.updateOrderBookStats(orderBook);
-  }
-
   private async refundLockedFunds(order: OTCOrder): Promise<void> {
     // Refund logic
   }
@@ -49,6 +49,22 @@ export interface WorkflowStep {
   permissions?: string[];
 }
 
+/**
+ * Delivers an approval decision to a waiting domain workflow
+ */
+export type WorkflowSignalHandler = (
+  workflowId: string,
+  signal: string,
+  payload: { approved: boolean; decidedBy: string; channel: 'telegram' }
+) => Promise<void>;
+
+export interface ApprovalRequest {
+  workflowId: string;
+  signal: string;
+  title: string;
+  details: string;
+}
+
 export interface DepartmentWorkflow {
   department: string;
   steps: WorkflowStep[];
@@ -68,6 +84,7 @@ export class TelegramWorkflowOrchestrator {
   private healthCheckHandler: HealthCheckCommandHandler;
   private activeWorkflows: Map<string, WorkflowContext> = new Map();
   private departmentWorkflows: Map<string, DepartmentWorkflow> = new Map();
+  private workflowSignalHandler?: WorkflowSignalHandler;
 
   constructor(env: any) {
     this.environment = TelegramEnvironment.getInstance(env);
@@ -307,6 +324,10 @@ export class TelegramWorkflowOrchestrator {
       );
     }
 
+    if (permission === 'approval_access') {
+      return ['cashier_manager', 'finance_director', 'admin'].includes(workflow.accessLevel);
+    }
+
     if (permission === 'finance_access') {
       return ['cashier', 'senior_cashier', 'cashier_manager', 'admin'].includes(
         workflow.accessLevel
@@ -587,6 +608,10 @@ Access Level: ${workflow.accessLevel}
         await this.handleHealthCallback(ctx, workflow, callbackData);
         break;
 
+      case callbackData.startsWith('wfsig:'):
+        await this.handleWorkflowSignal(ctx, workflow, callbackData);
+        break;
+
       default:
         await ctx.reply('Command not recognized. Use /help for available commands.');
     }
@@ -642,6 +667,41 @@ Use /queue to check updated status.
     await ctx.reply(processMessage, { parse_mode: 'Markdown' });
   }
 
+  private async handleWorkflowSignal(
+    ctx: Context,
+    workflow: WorkflowContext,
+    callbackData: string
+  ): Promise<void> {
+    // wfsig:<approve|reject>:<workflowId>:<signal>
+    const [, decision, workflowId, signal] = callbackData.split(':');
+
+    if (!this.hasPermission(workflow, 'approval_access')) {
+      await ctx.reply('🔒 Access denied. Approvals require a manager or director.');
+      return;
+    }
+
+    if (!this.workflowSignalHandler) {
+      await ctx.reply(`${UI_ELEMENTS.STATUS_ICONS.FAILED} Approvals are not connected.`);
+      return;
+    }
+
+    try {
+      await this.workflowSignalHandler(workflowId, signal, {
+        approved: decision === 'approve',
+        decidedBy: workflow.userId,
+        channel: 'telegram',
+      });
+
+      await ctx.editMessageText(
+        `${UI_ELEMENTS.STATUS_ICONS.COMPLETED} ${decision === 'approve' ? 'Approved' : 'Rejected'} by ${ctx.from?.first_name || workflow.userId}`
+      );
+    } catch (error) {
+      await ctx.reply(
+        `${UI_ELEMENTS.STATUS_ICONS.FAILED} Decision not recorded: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   // !==!==!==!==!==!==!==!==!==!==!==!==!==!====
   // 🚀 WORKFLOW ORCHESTRATOR METHODS
   // !==!==!==!==!==!==!==!==!==!==!==!==!==!====
@@ -823,6 +883,33 @@ ${Object.entries(healthStatus.components)
   public getDepartmentWorkflows(): string[] {
     return Array.from(this.departmentWorkflows.keys());
   }
+
+  /**
+   * Connect approval buttons to the domain workflow engine
+   */
+  public setWorkflowSignalHandler(handler: WorkflowSignalHandler): void {
+    this.workflowSignalHandler = handler;
+  }
+
+  /**
+   * Post an Approve / Reject prompt for a workflow waiting on a signal
+   */
+  public async sendApprovalRequest(chatId: number | string, request: ApprovalRequest): Promise<void> {
+    const keyboard = new InlineKeyboard()
+      .text(
+        `${UI_ELEMENTS.STATUS_ICONS.COMPLETED} Approve`,
+        `wfsig:approve:${request.workflowId}:${request.signal}`
+      )
+      .text(
+        `${UI_ELEMENTS.STATUS_ICONS.FAILED} Reject`,
+        `wfsig:reject:${request.workflowId}:${request.signal}`
+      );
+
+    await this.bot.api.sendMessage(chatId, `**${request.title}**\n\n${request.details}`, {
+      reply_markup: keyboard,
+      parse_mode: 'Markdown',
+    });
+  }
 }
 
 export default TelegramWorkflowOrchestrator;
@@ -748,6 +748,90 @@ export class BunR2BatchClient extends BunR2Client {
   }
 }
 
+/**
+ * Filesystem stand-in for R2 in local development and tests
+ *
+ * Objects are written under `<root>/<bucket>/<key>` with their content type
+ * and metadata in a `.meta.json` sidecar. Only single-object operations are
+ * supported.
+ */
+export class LocalR2Client extends BunR2Client {
+  private directory: string;
+
+  constructor(root: string, bucket: string = 'local') {
+    super({ endpoint: 'http://localhost', accessKeyId: '', secretAccessKey: '', bucket });
+    this.directory = `${root.replace(/\/+$/, '')}/${bucket}`;
+  }
+
+  async putObject(
+    key: string,
+    data: Buffer | string | ReadableStream | Blob | File,
+    options: UploadOptions = {}
+  ): Promise<Response> {
+    const path = this.pathFor(key);
+    const body = await new Response(data).arrayBuffer();
+    await Bun.write(path, body);
+    await Bun.write(
+      `${path}.meta.json`,
+      JSON.stringify({
+        contentType: options.contentType || 'application/octet-stream',
+        metadata: options.metadata || {},
+      })
+    );
+
+    return new Response(null, {
+      status: 200,
+      headers: { etag: `"${Bun.hash(body).toString(16)}"` },
+    });
+  }
+
+  async getObject(key: string): Promise<Response> {
+    const path = this.pathFor(key);
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new Error(`Object not found: ${key}`);
+    }
+
+    const { contentType } = await this.readMeta(path);
+    return new Response(file, { headers: { 'Content-Type': contentType } });
+  }
+
+  async deleteObject(key: string): Promise<Response> {
+    const path = this.pathFor(key);
+    for (const file of [Bun.file(path), Bun.file(`${path}.meta.json`)]) {
+      if (await file.exists()) {
+        await file.delete();
+      }
+    }
+    return new Response(null, { status: 204 });
+  }
+
+  async headObject(key: string): Promise<{ exists: boolean; metadata?: Record<string, string> }> {
+    const path = this.pathFor(key);
+    if (!(await Bun.file(path).exists())) {
+      return { exists: false };
+    }
+    return { exists: true, metadata: (await this.readMeta(path)).metadata };
+  }
+
+  private pathFor(key: string): string {
+    if (!key || key.split('/').some(segment => segment === '..' || segment === '')) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return `${this.directory}/${key}`;
+  }
+
+  private async readMeta(
+    path: string
+  ): Promise<{ contentType: string; metadata: Record<string, string> }> {
+    const meta = Bun.file(`${path}.meta.json`);
+    if (!(await meta.exists())) {
+      return { contentType: 'application/octet-stream', metadata: {} };
+    }
+    return meta.json();
+  }
+}
+
 // Export singleton instance for convenience
 export const r2Client = new BunR2Client({
   endpoint: process.env.R2_ENDPOINT || '',
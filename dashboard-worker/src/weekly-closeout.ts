@@ -0,0 +1,968 @@
+/**
+ * Weekly Figures Close-out
+ *
+ * Freezes a finished week's figures per customer and per agent, works out
+ * who owes whom, and raises the collection and distribution records that
+ * settle it. Customers settle with their agent; agents settle with the house
+ * after commission. Once a week is closed its wagers and transactions are
+ * locked until someone authorized reopens it, and every close, reopen and
+ * refused reopen is written to the period audit log.
+ *
+ * Weeks follow the Fire22 figure week (Tuesday to Monday, UTC) unless
+ * configured otherwise. Amounts are signed from the settling party's side:
+ * positive means the party is owed money (a distribution), negative means
+ * the party owes (a collection).
+ */
+
+import { queryAll, runBatch, type MatchingDatabase, type SqlStatement } from './p2p-matching-core';
+
+export type WeeklyPeriodStatus = 'closed' | 'reopened';
+
+export type SettlementDirection = 'collection' | 'distribution';
+
+export type SettlementPartyType = 'customer' | 'agent';
+
+export type WeeklySettlementStatus = 'pending' | 'completed' | 'void';
+
+export interface WeeklyCloseoutOptions {
+  /** Day the figure week starts on, 0 = Sunday (default 2, Tuesday) */
+  weekStartsOn?: number;
+  /** Commission rate per agent ID, applied to positive net after free play */
+  commissionRates?: Record<string, number>;
+  defaultCommissionRate?: number;
+  /** Roles allowed to reopen a closed week */
+  reopenRoles?: string[];
+}
+
+export interface WeeklyPeriod {
+  weekStart: Date;
+  weekEnd: Date;
+  status: WeeklyPeriodStatus;
+  /** Bumped on every close; figures and settlements carry the version they were made in */
+  version: number;
+  closedBy: string;
+  closedAt: Date;
+  reopenedBy?: string;
+  reopenedAt?: Date;
+  reopenReason?: string;
+}
+
+export interface CustomerWeekFigure {
+  weekStart: Date;
+  version: number;
+  customerId: string;
+  agentId: string;
+  wagerCount: number;
+  handle: number;
+  /** Customer's result on settled wagers: positive when the customer won */
+  winLoss: number;
+  /** Free play credited during the week (not cash, charged against the agent) */
+  freePlay: number;
+  adjustments: number;
+  /** winLoss + adjustments: what the agent owes the customer, negative when the customer owes */
+  balance: number;
+}
+
+export interface AgentWeekFigure {
+  weekStart: Date;
+  version: number;
+  agentId: string;
+  customerCount: number;
+  wagerCount: number;
+  handle: number;
+  /** House result on the agent's customers, adjustments included */
+  houseNet: number;
+  freePlay: number;
+  adjustments: number;
+  commissionableNet: number;
+  commissionRate: number;
+  commission: number;
+  /** commission - houseNet: what the house owes the agent, negative when the agent owes */
+  balance: number;
+}
+
+export interface WeeklySettlement {
+  id: string;
+  weekStart: Date;
+  version: number;
+  partyType: SettlementPartyType;
+  partyId: string;
+  /** Who the party settles with: the customer's agent, or 'house' for agents */
+  counterparty: string;
+  direction: SettlementDirection;
+  amount: number;
+  status: WeeklySettlementStatus;
+  createdAt: Date;
+  completedBy?: string;
+  completedAt?: Date;
+  reference?: string;
+}
+
+export interface WeeklyCloseoutResult {
+  period: WeeklyPeriod;
+  customers: CustomerWeekFigure[];
+  agents: AgentWeekFigure[];
+  settlements: WeeklySettlement[];
+}
+
+export interface PeriodAuditEntry {
+  weekStart: Date;
+  action: 'closed' | 'reopened' | 'reopen_denied';
+  actor: string;
+  role?: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+/** Who is asking to reopen a week, as the auth middleware describes them */
+export interface ReopenRequest {
+  actor: string;
+  role: string;
+  permissions?: string[];
+  reason: string;
+}
+
+export interface SettlementFilter {
+  weekStart?: Date | string;
+  direction?: SettlementDirection;
+  partyType?: SettlementPartyType;
+  status?: WeeklySettlementStatus;
+  counterparty?: string;
+}
+
+export class WeeklyCloseoutError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'WeeklyCloseoutError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const REOPEN_PERMISSION = 'settlements.reopen';
+
+/** Raised by the transaction triggers; the write is rolled back */
+export const CLOSED_WEEK_CONFLICT = 'transaction dated inside a closed week';
+
+export class WeeklyCloseout {
+  private schemaReady = false;
+  private readonly weekStartsOn: number;
+  private readonly commissionRates: Record<string, number>;
+  private readonly defaultCommissionRate: number;
+  private readonly reopenRoles: string[];
+
+  constructor(
+    private readonly db: MatchingDatabase,
+    options: WeeklyCloseoutOptions = {}
+  ) {
+    this.weekStartsOn = options.weekStartsOn ?? 2;
+    this.commissionRates = options.commissionRates ?? {};
+    this.defaultCommissionRate = options.defaultCommissionRate ?? 0;
+    this.reopenRoles = options.reopenRoles ?? ['admin'];
+  }
+
+  async ensureSchema(): Promise<void> {
+    if (this.schemaReady) return;
+
+    await runBatch(this.db, [
+      [
+        `CREATE TABLE IF NOT EXISTS weekly_periods (
+          week_start TEXT PRIMARY KEY,
+          week_end TEXT NOT NULL,
+          status TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          closed_by TEXT NOT NULL,
+          closed_at TEXT NOT NULL,
+          reopened_by TEXT,
+          reopened_at TEXT,
+          reopen_reason TEXT
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS weekly_customer_figures (
+          week_start TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          customer_id TEXT NOT NULL,
+          agent_id TEXT NOT NULL,
+          wager_count INTEGER NOT NULL,
+          handle REAL NOT NULL,
+          win_loss REAL NOT NULL,
+          free_play REAL NOT NULL,
+          adjustments REAL NOT NULL,
+          balance REAL NOT NULL,
+          PRIMARY KEY (week_start, version, customer_id)
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS weekly_agent_figures (
+          week_start TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          agent_id TEXT NOT NULL,
+          customer_count INTEGER NOT NULL,
+          wager_count INTEGER NOT NULL,
+          handle REAL NOT NULL,
+          house_net REAL NOT NULL,
+          free_play REAL NOT NULL,
+          adjustments REAL NOT NULL,
+          commissionable_net REAL NOT NULL,
+          commission_rate REAL NOT NULL,
+          commission REAL NOT NULL,
+          balance REAL NOT NULL,
+          PRIMARY KEY (week_start, version, agent_id)
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS weekly_settlements (
+          id TEXT PRIMARY KEY,
+          week_start TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          party_type TEXT NOT NULL,
+          party_id TEXT NOT NULL,
+          counterparty TEXT NOT NULL,
+          direction TEXT NOT NULL,
+          amount REAL NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at TEXT NOT NULL,
+          completed_by TEXT,
+          completed_at TEXT,
+          reference TEXT
+        )`,
+        [],
+      ],
+      [
+        `CREATE TABLE IF NOT EXISTS weekly_period_audit (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          week_start TEXT NOT NULL,
+          action TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          role TEXT,
+          reason TEXT,
+          created_at TEXT NOT NULL
+        )`,
+        [],
+      ],
+      [
+        `CREATE INDEX IF NOT EXISTS idx_weekly_settlements_week
+         ON weekly_settlements(week_start, status)`,
+        [],
+      ],
+    ]);
+
+    // Adjustments, free play and collection or distribution postings all land
+    // in transactions, so the lock lives on the table rather than in each
+    // write path
+    const ledger = await queryAll(
+      this.db,
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'transactions'`,
+      []
+    );
+    if (ledger.length > 0) {
+      await runBatch(this.db, transactionLocks());
+    }
+
+    this.schemaReady = true;
+  }
+
+  // !== WEEKS !==
+
+  /** Start of the figure week containing the given instant */
+  weekStartFor(at: Date): Date {
+    const midnight = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate());
+    const daysBack = (at.getUTCDay() - this.weekStartsOn + 7) % 7;
+    return new Date(midnight - daysBack * DAY_MS);
+  }
+
+  // !== CLOSE-OUT !==
+
+  /**
+   * Freeze the week's figures and raise its settlements. Closing again after
+   * a reopen writes a new version and only settles the difference from what
+   * was already paid or collected.
+   */
+  async closeWeek(
+    weekStart: Date | string,
+    closedBy: string,
+    now: Date = new Date()
+  ): Promise<WeeklyCloseoutResult> {
+    await this.ensureSchema();
+
+    const start = this.parseWeekStart(weekStart);
+    const end = new Date(start.getTime() + WEEK_MS);
+    if (now < end) {
+      throw new WeeklyCloseoutError(
+        `Week of ${isoDate(start)} is still running until ${end.toISOString()}`,
+        409
+      );
+    }
+
+    const existing = await this.getPeriod(start);
+    if (existing?.status === 'closed') {
+      throw new WeeklyCloseoutError(`Week of ${isoDate(start)} is already closed`, 409);
+    }
+
+    const version = (existing?.version ?? 0) + 1;
+    const customers = await this.collectCustomerFigures(start, end, version);
+    const agents = this.buildAgentFigures(start, version, customers);
+    const settlements = await this.buildSettlements(start, version, customers, agents, now);
+
+    const period: WeeklyPeriod = {
+      weekStart: start,
+      weekEnd: end,
+      status: 'closed',
+      version,
+      closedBy,
+      closedAt: now,
+    };
+
+    await runBatch(this.db, [
+      [
+        `INSERT INTO weekly_periods (week_start, week_end, status, version, closed_by, closed_at)
+         VALUES (?, ?, 'closed', ?, ?, ?)
+         ON CONFLICT(week_start) DO UPDATE SET
+           status = 'closed', version = excluded.version,
+           closed_by = excluded.closed_by, closed_at = excluded.closed_at`,
+        [start.toISOString(), end.toISOString(), version, closedBy, now.toISOString()],
+      ],
+      ...customers.map(
+        (figure): SqlStatement => [
+          `INSERT INTO weekly_customer_figures (
+             week_start, version, customer_id, agent_id, wager_count, handle,
+             win_loss, free_play, adjustments, balance
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            start.toISOString(),
+            version,
+            figure.customerId,
+            figure.agentId,
+            figure.wagerCount,
+            figure.handle,
+            figure.winLoss,
+            figure.freePlay,
+            figure.adjustments,
+            figure.balance,
+          ],
+        ]
+      ),
+      ...agents.map(
+        (figure): SqlStatement => [
+          `INSERT INTO weekly_agent_figures (
+             week_start, version, agent_id, customer_count, wager_count, handle, house_net,
+             free_play, adjustments, commissionable_net, commission_rate, commission, balance
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            start.toISOString(),
+            version,
+            figure.agentId,
+            figure.customerCount,
+            figure.wagerCount,
+            figure.handle,
+            figure.houseNet,
+            figure.freePlay,
+            figure.adjustments,
+            figure.commissionableNet,
+            figure.commissionRate,
+            figure.commission,
+            figure.balance,
+          ],
+        ]
+      ),
+      ...settlements.map(
+        (settlement): SqlStatement => [
+          `INSERT INTO weekly_settlements (
+             id, week_start, version, party_type, party_id, counterparty,
+             direction, amount, status, created_at
+           ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+          [
+            settlement.id,
+            start.toISOString(),
+            version,
+            settlement.partyType,
+            settlement.partyId,
+            settlement.counterparty,
+            settlement.direction,
+            settlement.amount,
+            now.toISOString(),
+          ],
+        ]
+      ),
+      this.audit(start, 'closed', closedBy, undefined, undefined, now),
+    ]);
+
+    return { period, customers, agents, settlements };
+  }
+
+  /**
+   * Reopen a closed week for corrections. Only configured roles or holders of
+   * settlements.reopen may do it, a reason is required, and refused attempts
+   * are logged too. Pending settlements are voided; completed ones stand and
+   * are netted off when the week is closed again.
+   */
+  async reopenWeek(
+    weekStart: Date | string,
+    request: ReopenRequest,
+    now: Date = new Date()
+  ): Promise<WeeklyPeriod> {
+    await this.ensureSchema();
+
+    const start = this.parseWeekStart(weekStart);
+    const period = await this.getPeriod(start);
+    if (!period || period.status !== 'closed') {
+      throw new WeeklyCloseoutError(`Week of ${isoDate(start)} is not closed`, 409);
+    }
+
+    const authorized =
+      this.reopenRoles.includes(request.role) ||
+      (request.permissions ?? []).includes(REOPEN_PERMISSION);
+    if (!authorized) {
+      await runBatch(this.db, [
+        this.audit(start, 'reopen_denied', request.actor, request.role, request.reason, now),
+      ]);
+      throw new WeeklyCloseoutError(
+        `${request.actor} (${request.role}) is not authorized to reopen week of ${isoDate(start)}`,
+        403
+      );
+    }
+    if (!request.reason?.trim()) {
+      throw new WeeklyCloseoutError('A reason is required to reopen a closed week');
+    }
+
+    await runBatch(this.db, [
+      [
+        `UPDATE weekly_periods
+         SET status = 'reopened', reopened_by = ?, reopened_at = ?, reopen_reason = ?
+         WHERE week_start = ? AND status = 'closed'`,
+        [request.actor, now.toISOString(), request.reason, start.toISOString()],
+      ],
+      [
+        `UPDATE weekly_settlements SET status = 'void'
+         WHERE week_start = ? AND status = 'pending'`,
+        [start.toISOString()],
+      ],
+      this.audit(start, 'reopened', request.actor, request.role, request.reason, now),
+    ]);
+
+    console.log(`🔓 Week of ${isoDate(start)} reopened by ${request.actor}: ${request.reason}`);
+    return (await this.getPeriod(start))!;
+  }
+
+  /**
+   * Record that a collection was received or a distribution was paid
+   */
+  async completeSettlement(
+    settlementId: string,
+    completedBy: string,
+    reference?: string,
+    now: Date = new Date()
+  ): Promise<WeeklySettlement> {
+    await this.ensureSchema();
+
+    const settlement = await this.getSettlement(settlementId);
+    if (!settlement) {
+      throw new WeeklyCloseoutError(`Settlement ${settlementId} not found`, 404);
+    }
+    if (settlement.status !== 'pending') {
+      throw new WeeklyCloseoutError(
+        `Settlement ${settlementId} is ${settlement.status}, not pending`,
+        409
+      );
+    }
+
+    await runBatch(this.db, [
+      [
+        `UPDATE weekly_settlements
+         SET status = 'completed', completed_by = ?, completed_at = ?, reference = ?
+         WHERE id = ? AND status = 'pending'`,
+        [completedBy, now.toISOString(), reference ?? null, settlementId],
+      ],
+    ]);
+    return (await this.getSettlement(settlementId))!;
+  }
+
+  // !== LOCKING !==
+
+  /** The closed period covering the given instant, if any */
+  async lockingPeriod(at: Date | string): Promise<WeeklyPeriod | null> {
+    await this.ensureSchema();
+
+    const when = parseTimestamp(at);
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM weekly_periods
+       WHERE status = 'closed' AND week_start <= ? AND week_end > ?`,
+      [when.toISOString(), when.toISOString()]
+    );
+    return rows[0] ? toPeriod(rows[0]) : null;
+  }
+
+  /**
+   * Refuse a change dated inside a closed week
+   */
+  async assertEditable(at: Date | string, action: string): Promise<void> {
+    const period = await this.lockingPeriod(at);
+    if (period) {
+      throw new WeeklyCloseoutError(
+        `Cannot ${action}: week of ${isoDate(period.weekStart)} is closed. ` +
+          'An authorized reopen is required first.',
+        423
+      );
+    }
+  }
+
+  /**
+   * Refuse to re-settle wagers whose current settlement falls in a closed
+   * week, or to settle anything into a closed week
+   */
+  async assertWagersEditable(
+    wagerIds: Array<number | string>,
+    now: Date = new Date()
+  ): Promise<void> {
+    await this.assertEditable(now, 'settle wagers');
+    if (wagerIds.length === 0) return;
+
+    const rows = await queryAll<{ id: number; settled_at: string | null }>(
+      this.db,
+      `SELECT id, settled_at FROM wagers
+       WHERE settled_at IS NOT NULL AND id IN (${wagerIds.map(() => '?').join(', ')})`,
+      wagerIds
+    );
+    for (const row of rows) {
+      await this.assertEditable(row.settled_at!, `change wager ${row.id}`);
+    }
+  }
+
+  // !== QUERIES !==
+
+  async getPeriod(weekStart: Date | string): Promise<WeeklyPeriod | null> {
+    await this.ensureSchema();
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      'SELECT * FROM weekly_periods WHERE week_start = ?',
+      [this.parseWeekStart(weekStart).toISOString()]
+    );
+    return rows[0] ? toPeriod(rows[0]) : null;
+  }
+
+  async listPeriods(limit = 12): Promise<WeeklyPeriod[]> {
+    await this.ensureSchema();
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      'SELECT * FROM weekly_periods ORDER BY week_start DESC LIMIT ?',
+      [limit]
+    );
+    return rows.map(toPeriod);
+  }
+
+  /** Frozen customer figures from the week's latest close */
+  async getCustomerFigures(
+    weekStart: Date | string,
+    agentId?: string
+  ): Promise<CustomerWeekFigure[]> {
+    const period = await this.getPeriod(weekStart);
+    if (!period) return [];
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM weekly_customer_figures
+       WHERE week_start = ? AND version = ? ${agentId ? 'AND agent_id = ?' : ''}
+       ORDER BY agent_id, customer_id`,
+      [period.weekStart.toISOString(), period.version, ...(agentId ? [agentId] : [])]
+    );
+    return rows.map(toCustomerFigure);
+  }
+
+  /** Frozen agent figures from the week's latest close */
+  async getAgentFigures(weekStart: Date | string, agentId?: string): Promise<AgentWeekFigure[]> {
+    const period = await this.getPeriod(weekStart);
+    if (!period) return [];
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM weekly_agent_figures
+       WHERE week_start = ? AND version = ? ${agentId ? 'AND agent_id = ?' : ''}
+       ORDER BY agent_id`,
+      [period.weekStart.toISOString(), period.version, ...(agentId ? [agentId] : [])]
+    );
+    return rows.map(toAgentFigure);
+  }
+
+  async getSettlement(settlementId: string): Promise<WeeklySettlement | null> {
+    await this.ensureSchema();
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      'SELECT * FROM weekly_settlements WHERE id = ?',
+      [settlementId]
+    );
+    return rows[0] ? toSettlement(rows[0]) : null;
+  }
+
+  async getSettlements(filter: SettlementFilter = {}): Promise<WeeklySettlement[]> {
+    await this.ensureSchema();
+
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (filter.weekStart) {
+      clauses.push('week_start = ?');
+      params.push(this.parseWeekStart(filter.weekStart).toISOString());
+    }
+    for (const [column, value] of [
+      ['direction', filter.direction],
+      ['party_type', filter.partyType],
+      ['status', filter.status],
+      ['counterparty', filter.counterparty],
+    ] as const) {
+      if (value) {
+        clauses.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT * FROM weekly_settlements
+       ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+       ORDER BY week_start DESC, party_type, party_id, created_at`,
+      params
+    );
+    return rows.map(toSettlement);
+  }
+
+  async getAudit(weekStart: Date | string): Promise<PeriodAuditEntry[]> {
+    await this.ensureSchema();
+
+    const rows = await queryAll<Record<string, any>>(
+      this.db,
+      'SELECT * FROM weekly_period_audit WHERE week_start = ? ORDER BY id',
+      [this.parseWeekStart(weekStart).toISOString()]
+    );
+    return rows.map(row => ({
+      weekStart: new Date(row.week_start),
+      action: row.action,
+      actor: row.actor,
+      role: row.role ?? undefined,
+      reason: row.reason ?? undefined,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  // !== FIGURES !==
+
+  /**
+   * Settled wagers by settled_at plus free play and adjustment transactions by
+   * created_at. Wins pay settlement_amount (the winnings), losses cost the
+   * stake, pushes are counted in handle but move nothing.
+   */
+  private async collectCustomerFigures(
+    start: Date,
+    end: Date,
+    version: number
+  ): Promise<CustomerWeekFigure[]> {
+    const range = [start.toISOString(), end.toISOString()];
+    const wagers = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT customer_id, MAX(agent_id) AS agent_id, COUNT(*) AS wager_count,
+              SUM(amount_wagered) AS handle,
+              SUM(CASE settlement_status
+                    WHEN 'win' THEN settlement_amount
+                    WHEN 'loss' THEN -amount_wagered
+                    ELSE 0 END) AS win_loss
+       FROM wagers
+       WHERE settlement_status IN ('win', 'loss', 'push')
+         AND datetime(settled_at) >= datetime(?) AND datetime(settled_at) < datetime(?)
+       GROUP BY customer_id`,
+      range
+    );
+    const transactions = await queryAll<Record<string, any>>(
+      this.db,
+      `SELECT customer_id, MAX(agent_id) AS agent_id,
+              SUM(CASE WHEN transaction_type = 'free_play' THEN amount ELSE 0 END) AS free_play,
+              SUM(CASE WHEN transaction_type = 'adjustment' THEN amount ELSE 0 END) AS adjustments
+       FROM transactions
+       WHERE transaction_type IN ('free_play', 'adjustment')
+         AND datetime(created_at) >= datetime(?) AND datetime(created_at) < datetime(?)
+       GROUP BY customer_id`,
+      range
+    );
+
+    const customerIds = [
+      ...new Set([...wagers, ...transactions].map(row => String(row.customer_id))),
+    ].sort();
+    if (customerIds.length === 0) return [];
+
+    const players = await queryAll<{ customer_id: string; agent_id: string | null }>(
+      this.db,
+      `SELECT customer_id, agent_id FROM players
+       WHERE customer_id IN (${customerIds.map(() => '?').join(', ')})`,
+      customerIds
+    );
+    const playerAgents = new Map(players.map(row => [row.customer_id, row.agent_id]));
+    const wagerRows = new Map(wagers.map(row => [String(row.customer_id), row]));
+    const transactionRows = new Map(transactions.map(row => [String(row.customer_id), row]));
+
+    return customerIds.map(customerId => {
+      const wager = wagerRows.get(customerId);
+      const transaction = transactionRows.get(customerId);
+      const winLoss = roundCurrency(Number(wager?.win_loss ?? 0));
+      const adjustments = roundCurrency(Number(transaction?.adjustments ?? 0));
+
+      return {
+        weekStart: start,
+        version,
+        customerId,
+        agentId:
+          playerAgents.get(customerId) ?? wager?.agent_id ?? transaction?.agent_id ?? 'UNASSIGNED',
+        wagerCount: Number(wager?.wager_count ?? 0),
+        handle: roundCurrency(Number(wager?.handle ?? 0)),
+        winLoss,
+        freePlay: roundCurrency(Number(transaction?.free_play ?? 0)),
+        adjustments,
+        balance: roundCurrency(winLoss + adjustments),
+      };
+    });
+  }
+
+  private buildAgentFigures(
+    start: Date,
+    version: number,
+    customers: CustomerWeekFigure[]
+  ): AgentWeekFigure[] {
+    const byAgent = new Map<string, CustomerWeekFigure[]>();
+    for (const customer of customers) {
+      byAgent.set(customer.agentId, [...(byAgent.get(customer.agentId) ?? []), customer]);
+    }
+
+    return [...byAgent.keys()].sort().map(agentId => {
+      const book = byAgent.get(agentId)!;
+      const sum = (pick: (figure: CustomerWeekFigure) => number) =>
+        roundCurrency(book.reduce((total, figure) => total + pick(figure), 0));
+
+      const houseNet = -sum(figure => figure.balance);
+      const freePlay = sum(figure => figure.freePlay);
+      const commissionableNet = roundCurrency(houseNet - freePlay);
+      const commissionRate = this.commissionRates[agentId] ?? this.defaultCommissionRate;
+      const commission = roundCurrency(Math.max(0, commissionableNet) * commissionRate);
+
+      return {
+        weekStart: start,
+        version,
+        agentId,
+        customerCount: book.length,
+        wagerCount: sum(figure => figure.wagerCount),
+        handle: sum(figure => figure.handle),
+        houseNet,
+        freePlay,
+        adjustments: sum(figure => figure.adjustments),
+        commissionableNet,
+        commissionRate,
+        commission,
+        balance: roundCurrency(commission - houseNet),
+      };
+    });
+  }
+
+  /**
+   * One settlement per party for whatever its balance is not yet covered by
+   * settlements completed under earlier versions of the week
+   */
+  private async buildSettlements(
+    start: Date,
+    version: number,
+    customers: CustomerWeekFigure[],
+    agents: AgentWeekFigure[],
+    now: Date
+  ): Promise<WeeklySettlement[]> {
+    const completed = await this.getSettlements({ weekStart: start, status: 'completed' });
+    const settled = new Map<string, number>();
+    for (const settlement of completed) {
+      const key = `${settlement.partyType}:${settlement.partyId}`;
+      settled.set(key, (settled.get(key) ?? 0) + signedAmount(settlement));
+    }
+
+    const parties = [
+      ...customers.map(figure => ({
+        partyType: 'customer' as const,
+        partyId: figure.customerId,
+        counterparty: figure.agentId,
+        balance: figure.balance,
+      })),
+      ...agents.map(figure => ({
+        partyType: 'agent' as const,
+        partyId: figure.agentId,
+        counterparty: 'house',
+        balance: figure.balance,
+      })),
+    ];
+
+    const settlements: WeeklySettlement[] = [];
+    for (const party of parties) {
+      const outstanding = roundCurrency(
+        party.balance - (settled.get(`${party.partyType}:${party.partyId}`) ?? 0)
+      );
+      if (Math.abs(outstanding) < 0.01) continue;
+
+      settlements.push({
+        id: crypto.randomUUID(),
+        weekStart: start,
+        version,
+        partyType: party.partyType,
+        partyId: party.partyId,
+        counterparty: party.counterparty,
+        direction: outstanding > 0 ? 'distribution' : 'collection',
+        amount: Math.abs(outstanding),
+        status: 'pending',
+        createdAt: now,
+      });
+    }
+    return settlements;
+  }
+
+  // !== HELPERS !==
+
+  private parseWeekStart(weekStart: Date | string): Date {
+    const start = parseTimestamp(weekStart);
+    if (start.getTime() !== this.weekStartFor(start).getTime()) {
+      throw new WeeklyCloseoutError(
+        `${start.toISOString()} is not the start of a figure week ` +
+          `(expected ${this.weekStartFor(start).toISOString()})`
+      );
+    }
+    return start;
+  }
+
+  private audit(
+    weekStart: Date,
+    action: PeriodAuditEntry['action'],
+    actor: string,
+    role: string | undefined,
+    reason: string | undefined,
+    now: Date
+  ): SqlStatement {
+    return [
+      `INSERT INTO weekly_period_audit (week_start, action, actor, role, reason, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [weekStart.toISOString(), action, actor, role ?? null, reason ?? null, now.toISOString()],
+    ];
+  }
+}
+
+function transactionLocks(): SqlStatement[] {
+  const closed = (column: string) =>
+    `EXISTS (
+       SELECT 1 FROM weekly_periods
+       WHERE status = 'closed'
+         AND datetime(week_start) <= datetime(${column})
+         AND datetime(week_end) > datetime(${column})
+     )`;
+  const guard = (event: string, when: string): SqlStatement => [
+    `CREATE TRIGGER IF NOT EXISTS transactions_closed_week_${event.toLowerCase()}
+     BEFORE ${event} ON transactions
+     WHEN ${when}
+     BEGIN
+       SELECT RAISE(ABORT, '${CLOSED_WEEK_CONFLICT}');
+     END`,
+    [],
+  ];
+
+  return [
+    guard('INSERT', closed('NEW.created_at')),
+    guard('UPDATE', `${closed('OLD.created_at')} OR ${closed('NEW.created_at')}`),
+    guard('DELETE', closed('OLD.created_at')),
+  ];
+}
+
+function parseTimestamp(value: Date | string): Date {
+  // D1 datetime('now') values have no zone marker but are UTC
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(value) ? `${value}Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new WeeklyCloseoutError(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+function signedAmount(settlement: WeeklySettlement): number {
+  return settlement.direction === 'distribution' ? settlement.amount : -settlement.amount;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100 || 0;
+}
+
+function toPeriod(row: Record<string, any>): WeeklyPeriod {
+  return {
+    weekStart: new Date(row.week_start),
+    weekEnd: new Date(row.week_end),
+    status: row.status,
+    version: Number(row.version),
+    closedBy: row.closed_by,
+    closedAt: new Date(row.closed_at),
+    reopenedBy: row.reopened_by ?? undefined,
+    reopenedAt: row.reopened_at ? new Date(row.reopened_at) : undefined,
+    reopenReason: row.reopen_reason ?? undefined,
+  };
+}
+
+function toCustomerFigure(row: Record<string, any>): CustomerWeekFigure {
+  return {
+    weekStart: new Date(row.week_start),
+    version: Number(row.version),
+    customerId: row.customer_id,
+    agentId: row.agent_id,
+    wagerCount: Number(row.wager_count),
+    handle: Number(row.handle),
+    winLoss: Number(row.win_loss),
+    freePlay: Number(row.free_play),
+    adjustments: Number(row.adjustments),
+    balance: Number(row.balance),
+  };
+}
+
+function toAgentFigure(row: Record<string, any>): AgentWeekFigure {
+  return {
+    weekStart: new Date(row.week_start),
+    version: Number(row.version),
+    agentId: row.agent_id,
+    customerCount: Number(row.customer_count),
+    wagerCount: Number(row.wager_count),
+    handle: Number(row.handle),
+    houseNet: Number(row.house_net),
+    freePlay: Number(row.free_play),
+    adjustments: Number(row.adjustments),
+    commissionableNet: Number(row.commissionable_net),
+    commissionRate: Number(row.commission_rate),
+    commission: Number(row.commission),
+    balance: Number(row.balance),
+  };
+}
+
+function toSettlement(row: Record<string, any>): WeeklySettlement {
+  return {
+    id: row.id,
+    weekStart: new Date(row.week_start),
+    version: Number(row.version),
+    partyType: row.party_type,
+    partyId: row.party_id,
+    counterparty: row.counterparty,
+    direction: row.direction,
+    amount: Number(row.amount),
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    completedBy: row.completed_by ?? undefined,
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    reference: row.reference ?? undefined,
+  };
+}
@@ -0,0 +1,159 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 API Client Generator Tests
+ * Typed client source from the OpenAPI spec, and the transport it runs on
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+import { OpenAPIGenerator } from '../../../core/api/openapi/openapi-generator';
+import { generateClient } from '../../../core/api/openapi/client-generator';
+import {
+  ApiError,
+  ApiTransport,
+  paginate,
+} from '../../../workspaces/@fire22-api-client/src/dashboard-api/runtime';
+import {
+  HistoryQuerySchema,
+  RequestWithdrawalSchema,
+  WithdrawalHistoryResponseSchema,
+  WithdrawalStatusResponseSchema,
+} from '../../../src/api/schemas/financial';
+
+function buildSpec() {
+  const generator = new OpenAPIGenerator();
+  generator.addContracts([
+    {
+      method: 'post',
+      path: '/api/financial/withdrawals/request',
+      operationId: 'postFinancialWithdrawalsRequest',
+      summary: 'Request a withdrawal',
+      tags: ['Financial'],
+      permissions: ['financial.*'],
+      body: RequestWithdrawalSchema,
+      responses: { 201: { description: 'Pending', schema: WithdrawalStatusResponseSchema } },
+    },
+    {
+      method: 'get',
+      path: '/api/financial/customers/:customerId/withdrawals',
+      operationId: 'getFinancialCustomerWithdrawals',
+      summary: 'Withdrawal history for a customer',
+      tags: ['Financial'],
+      params: z.object({ customerId: z.string() }),
+      query: HistoryQuerySchema.omit({ customerId: true }),
+      responses: { 200: { description: 'Page', schema: WithdrawalHistoryResponseSchema } },
+    },
+  ]);
+  return generator.generate();
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+describe('generateClient', () => {
+  test('should emit per-route types and methods deterministically', () => {
+    const source = generateClient(buildSpec());
+
+    expect(generateClient(buildSpec())).toBe(source);
+    expect(source).toContain('export type PostFinancialWithdrawalsRequestBody = {\n');
+    expect(source).toContain("  status: 'pending' | 'approved' | 'completed' | 'rejected';\n");
+    expect(source).toContain(
+      'export interface GetFinancialCustomerWithdrawalsInput {\n' +
+        '  params: GetFinancialCustomerWithdrawalsParams;\n' +
+        '  query?: GetFinancialCustomerWithdrawalsQuery;\n' +
+        '}'
+    );
+    expect(source).toContain("path: '/api/financial/customers/{customerId}/withdrawals',");
+    expect(source).toContain('getFinancialCustomerWithdrawalsPages(');
+    expect(source).not.toContain('postFinancialWithdrawalsRequestPages(');
+
+    // Only routes with permissions send the bearer token
+    expect(source.match(/auth: true/g)?.length).toBe(1);
+
+    // The emitted module must at least parse as TypeScript
+    expect(() => new Bun.Transpiler({ loader: 'ts' }).transformSync(source)).not.toThrow();
+  });
+});
+
+describe('ApiTransport', () => {
+  test('should send the token and wait out Retry-After before retrying', async () => {
+    const calls: Request[] = [];
+    const sleeps: number[] = [];
+    const responses = [
+      jsonResponse(503, { error: 'busy' }, { 'Retry-After': '2' }),
+      jsonResponse(200, { success: true }),
+    ];
+    const transport = new ApiTransport({
+      baseUrl: 'https://dashboard.test',
+      token: async () => 'jwt-1',
+      fetch: async (input, init) => {
+        calls.push(new Request(input as string, init));
+        return responses.shift()!;
+      },
+      sleep: async ms => {
+        sleeps.push(ms);
+      },
+    });
+
+    const result = await transport.request({
+      method: 'GET',
+      path: '/api/financial/customers/{customerId}/withdrawals',
+      params: { customerId: 'CUST 1' },
+      query: { page: 2, limit: undefined },
+      auth: true,
+    });
+
+    expect(result).toEqual({ success: true });
+    expect(sleeps).toEqual([2000]);
+    expect(calls.map(call => call.url)).toEqual([
+      'https://dashboard.test/api/financial/customers/CUST%201/withdrawals?page=2',
+      'https://dashboard.test/api/financial/customers/CUST%201/withdrawals?page=2',
+    ]);
+    expect(calls[0].headers.get('Authorization')).toBe('Bearer jwt-1');
+  });
+
+  test('should only retry writes that carry an idempotency key', async () => {
+    let attempts = 0;
+    const transport = new ApiTransport({
+      baseUrl: 'https://dashboard.test',
+      retries: 1,
+      fetch: async () => {
+        attempts++;
+        return jsonResponse(429, { error: 'slow down' });
+      },
+      sleep: async () => {},
+    });
+    const request = {
+      method: 'POST',
+      path: '/api/financial/withdrawals/request',
+      body: { customerId: 'CUST_001', amount: 50, method: 'crypto' },
+      auth: false,
+    };
+
+    const error = await transport.request(request).catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(429);
+    expect(error.body).toEqual({ error: 'slow down' });
+    expect(attempts).toBe(1);
+
+    attempts = 0;
+    await transport.request(request, { idempotencyKey: 'wd-1' }).catch(() => {});
+    expect(attempts).toBe(2);
+  });
+
+  test('should page until the response reports no next page', async () => {
+    const pages: number[] = [];
+    for await (const response of paginate(async page => ({
+      success: true,
+      data: { withdrawals: [], pagination: { page, limit: 10, total: 25, totalPages: 3 } },
+    }))) {
+      pages.push(response.data.pagination.page);
+    }
+    expect(pages).toEqual([1, 2, 3]);
+  });
+});
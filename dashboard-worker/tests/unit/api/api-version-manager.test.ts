@@ -0,0 +1,146 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 API Version Manager Tests
+ * Chained request/response transformers, lifecycle headers and usage counters
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import {
+  APIVersionManager,
+  defaultVersionConfig,
+} from '../../../core/api/versioning/api-version-manager';
+
+const CUSTOMERS = '/api/manager/getCustomers';
+
+/** What the current (v3) handler returns */
+function currentCustomersResponse() {
+  return new Response(
+    JSON.stringify({
+      success: true,
+      data: { items: [{ customerID: 'C1', fullName: 'Ann Lee' }], count: 1 },
+    }),
+    { headers: { 'Content-Type': 'application/json', 'Content-Length': '80' } }
+  );
+}
+
+describe('APIVersionManager', () => {
+  let manager: APIVersionManager;
+
+  beforeEach(() => {
+    manager = new APIVersionManager(defaultVersionConfig);
+
+    // v2 renamed `name` to `fullName` and the `agent` query to `agentID`
+    manager.registerTransformer({
+      from: 'v1',
+      to: 'v2',
+      paths: [CUSTOMERS],
+      request: ({ query, body }) => {
+        const { agent, ...rest } = query;
+        return { query: agent ? { ...rest, agentID: agent } : rest, body };
+      },
+      response: body => ({
+        ...body,
+        data: {
+          ...body.data,
+          customers: body.data.customers.map(({ fullName, ...c }: any) => ({
+            ...c,
+            name: fullName,
+          })),
+        },
+      }),
+    });
+    // v3 moved `data.customers` to `data.items`
+    manager.registerTransformer({
+      from: 'v2',
+      to: 'v3',
+      paths: [/^\/api\/manager\/getCustomers/],
+      response: body => {
+        const { items, ...data } = body.data;
+        return { ...body, data: { ...data, customers: items } };
+      },
+    });
+  });
+
+  test('should chain transformers up for requests and down for responses', async () => {
+    const request = manager.createVersionedRequest(
+      new Request(`http://localhost/api/v1/manager/getCustomers?agent=A1&limit=5`)
+    );
+    expect(request.apiVersion).toBe('v1');
+    expect(manager.getCurrentVersion()).toBe('v3');
+
+    const upgraded = await manager.transformRequest(request);
+    expect(new URL(upgraded.url).searchParams.toString()).toBe('limit=5&agentID=A1');
+    expect(upgraded.apiVersion).toBe('v1');
+
+    const response = await manager.transformResponse(currentCustomersResponse(), upgraded);
+    expect(response.headers.get('X-API-Version')).toBe('v1');
+    expect(response.headers.get('Content-Length')).toBeNull();
+    expect(await response.json()).toEqual({
+      success: true,
+      data: { customers: [{ customerID: 'C1', name: 'Ann Lee' }], count: 1 },
+    });
+
+    // v2 clients only go through the v2→v3 step
+    const v2 = manager.createVersionedRequest(
+      new Request(`http://localhost${CUSTOMERS}`, { headers: { 'X-API-Version': 'v2' } })
+    );
+    const v2Body = await (await manager.transformResponse(currentCustomersResponse(), v2)).json();
+    expect(v2Body.data.customers[0]).toEqual({ customerID: 'C1', fullName: 'Ann Lee' });
+
+    // Current clients and other routes are passed through untouched
+    const v3 = manager.createVersionedRequest(
+      new Request(`http://localhost/api/v3/manager/getCustomers?agent=A1`)
+    );
+    expect(await manager.transformRequest(v3)).toBe(v3);
+    const other = manager.createVersionedRequest(
+      new Request('http://localhost/api/v1/manager/getSettings?agent=A1')
+    );
+    expect(await manager.transformRequest(other)).toBe(other);
+
+    expect(() => manager.registerTransformer({ from: 'v1', to: 'v3' })).toThrow(
+      'adjacent versions'
+    );
+  });
+
+  test('should announce deprecation and sunset and count usage per version', async () => {
+    const deprecated = new Date('2026-06-01T00:00:00Z');
+    const sunset = new Date('2026-12-01T00:00:00Z');
+    manager.registerVersion({
+      ...manager.getVersionInfo('v1')!,
+      status: 'deprecated',
+      deprecationDate: deprecated,
+      sunsetDate: sunset,
+      migrationGuide: 'https://docs.fire22.com/migration/v1-to-v2',
+    });
+
+    const seenAt = new Date('2026-10-01T12:00:00Z');
+    const request = manager.createVersionedRequest(
+      new Request(`http://localhost${CUSTOMERS}`, { headers: { 'X-API-Version': 'v1' } }),
+      seenAt
+    );
+    manager.createVersionedRequest(new Request(`http://localhost/api/v1/manager/getSettings`));
+
+    const response = await manager.transformResponse(currentCustomersResponse(), request);
+    expect(response.headers.get('Deprecation')).toBe(`@${deprecated.getTime() / 1000}`);
+    expect(response.headers.get('Sunset')).toBe('Tue, 01 Dec 2026 00:00:00 GMT');
+    expect(response.headers.get('Link')).toBe(
+      '<https://docs.fire22.com/migration/v1-to-v2>; rel="deprecation"; type="text/html", ' +
+        '<https://docs.fire22.com/migration/v1-to-v2>; rel="sunset"; type="text/html"'
+    );
+
+    const v1 = manager.getUsage().find(usage => usage.version === 'v1')!;
+    expect(v1.requests).toBe(2);
+    expect(v1.negotiatedBy).toEqual({ header: 1, url: 1, accept: 0, default: 0 });
+    expect(v1.paths).toEqual({ [CUSTOMERS]: 1, '/api/manager/getSettings': 1 });
+    expect(manager.getUsage().find(usage => usage.version === 'v3')!.requests).toBe(0);
+
+    const thirtyDays = 30 * 24 * 60 * 60 * 1000;
+    expect(manager.isSafeToSunset('v3', thirtyDays)).toBe(true);
+    expect(manager.isSafeToSunset('v1', thirtyDays, new Date('2027-01-15T00:00:00Z'))).toBe(true);
+
+    // Once the sunset date passes the middleware refuses the version
+    expect(manager.isVersionSunset('v1', new Date('2026-12-02T00:00:00Z'))).toBe(true);
+    expect(manager.isVersionSunset('v1', seenAt)).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 OpenAPI Route Contract Tests
+ * One contract per route drives validation, the generated spec and conformance checks
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+import { OpenAPIGenerator } from '../../../core/api/openapi/openapi-generator';
+import {
+  checkRequest,
+  checkResponse,
+  routeContracts,
+  zodToOpenAPI,
+} from '../../../core/api/openapi/route-contracts';
+import { contractRoutes } from '../../../src/api/middleware/contract.middleware';
+import * as financial from '../../../src/api/controllers/financial.controller';
+import {
+  RequestWithdrawalSchema,
+  TransactionHistoryQuerySchema,
+  TransactionHistoryResponseSchema,
+  WithdrawalStatusResponseSchema,
+} from '../../../src/api/schemas/financial';
+
+/** Records registrations the way an itty router would receive them */
+function recordingRouter() {
+  const calls: Array<{ method: string; path: string; handlers: unknown[] }> = [];
+  const record =
+    (method: string) =>
+    (path: string, ...handlers: unknown[]) =>
+      calls.push({ method, path, handlers });
+  return {
+    calls,
+    router: { get: record('get'), post: record('post') } as any,
+  };
+}
+
+describe('Route contracts', () => {
+  beforeEach(() => {
+    routeContracts.clear();
+  });
+
+  test('should convert zod schemas to OpenAPI schemas', () => {
+    const schema = z.object({
+      id: z.string().uuid(),
+      amount: z.number().int().positive().max(5000),
+      status: z.enum(['open', 'closed']),
+      note: z.string().max(20).nullable().optional(),
+      tags: z.array(z.string()).min(1),
+      period: z.enum(['daily', 'weekly']).default('weekly'),
+    });
+
+    expect(zodToOpenAPI(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        amount: { type: 'integer', minimum: 0, exclusiveMinimum: true, maximum: 5000 },
+        status: { type: 'string', enum: ['open', 'closed'] },
+        note: { type: 'string', maxLength: 20, nullable: true },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        period: { type: 'string', enum: ['daily', 'weekly'], default: 'weekly' },
+      },
+      required: ['id', 'amount', 'status', 'tags'],
+    });
+  });
+
+  test('should register routes with their validation and document them', async () => {
+    const { calls, router } = recordingRouter();
+    const route = contractRoutes(router, { prefix: '/api/financial', tags: ['Financial'] });
+
+    route(
+      {
+        method: 'post',
+        path: '/withdrawals/request',
+        summary: 'Request a withdrawal',
+        permissions: ['financial.*'],
+        body: RequestWithdrawalSchema,
+        responses: { 201: { description: 'Pending', schema: WithdrawalStatusResponseSchema } },
+      },
+      financial.requestWithdrawal
+    );
+    route(
+      {
+        method: 'get',
+        path: '/customers/:customerId/transactions',
+        summary: 'Transaction history',
+        params: z.object({ customerId: z.string() }),
+        query: TransactionHistoryQuerySchema.omit({ customerId: true }),
+        responses: { 200: { description: 'Page', schema: TransactionHistoryResponseSchema } },
+      },
+      financial.getTransactions
+    );
+
+    // authorize + validateRequest + handler, and no authorize without permissions
+    expect(calls.map(call => [call.method, call.path, call.handlers.length])).toEqual([
+      ['post', '/withdrawals/request', 3],
+      ['get', '/customers/:customerId/transactions', 2],
+    ]);
+    expect(() =>
+      route(
+        { method: 'get', path: '/missing', summary: 'Gone', responses: {} },
+        (financial as any).apiQueueInit
+      )
+    ).toThrow('No handler for GET /api/financial/missing');
+
+    const validation = calls[0].handlers[1] as (request: any) => Promise<Response | void>;
+    const rejected = await validation(
+      new Request('http://localhost/api/financial/withdrawals/request', {
+        method: 'POST',
+        body: JSON.stringify({ customerId: 'CUST_001', amount: -5, method: 'crypto' }),
+      })
+    );
+    expect(rejected?.status).toBe(400);
+
+    const generator = new OpenAPIGenerator();
+    generator.addContracts(routeContracts.list());
+    const spec = generator.generate();
+
+    const post = spec.paths['/api/financial/withdrawals/request'].post;
+    expect(post.operationId).toBe('postFinancialWithdrawalsRequest');
+    expect(post['x-permissions']).toEqual(['financial.*']);
+    expect(post.requestBody?.content['application/json'].schema.required).toEqual([
+      'customerId',
+      'amount',
+      'method',
+    ]);
+    expect(Object.keys(post.responses).sort()).toEqual(['201', '400', '401', '403']);
+
+    const get = spec.paths['/api/financial/customers/{customerId}/transactions'].get;
+    expect(get.parameters?.map(p => `${p.in}:${p.name}:${p.required}`)).toContain(
+      'path:customerId:true'
+    );
+    expect(get.parameters?.find(p => p.name === 'status')?.schema.enum).toEqual([
+      'all',
+      'pending',
+      'completed',
+      'failed',
+    ]);
+
+    const yaml = generator.toYAML();
+    // `{` opens a flow mapping in YAML, so templated paths are quoted
+    expect(yaml).toContain('  "/api/financial/customers/{customerId}/transactions":\n    get:\n');
+    expect(yaml).toContain('operationId: postFinancialWithdrawalsRequest');
+  });
+
+  test('should hold controller responses to the documented contract', async () => {
+    const { router } = recordingRouter();
+    const route = contractRoutes(router, { prefix: '/api/financial', tags: ['Financial'] });
+    const contract = route(
+      {
+        method: 'get',
+        path: '/transactions',
+        summary: 'Transaction history',
+        query: TransactionHistoryQuerySchema,
+        responses: { 200: { description: 'Page', schema: TransactionHistoryResponseSchema } },
+      },
+      financial.getTransactions
+    );
+    expect(routeContracts.find('GET', '/api/financial/transactions')).toBe(contract);
+
+    const query = { customerId: 'CUST_001', type: 'deposit', page: 1, limit: 5 };
+    expect(checkRequest(contract, { query })).toEqual([]);
+    expect(checkRequest(contract, { query: { type: 'refund' } })[0].path).toBe('query.type');
+
+    const response = await financial.getTransactions(
+      new Request('http://localhost/api/financial/transactions?customerId=CUST_001&limit=5') as any
+    );
+    expect(checkResponse(contract, response.status, await response.json())).toEqual([]);
+
+    expect(checkResponse(contract, 200, { success: true, data: {} }).length).toBeGreaterThan(0);
+    expect(checkResponse(contract, 201, {})).toEqual([
+      { path: '(root)', message: 'GET /api/financial/transactions does not document 201' },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 Real-time Manager Tests
+ * Channel authorization, presence and Last-Event-ID replay
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  RealTimeManager,
+  defaultRealTimeConfig,
+  type RealTimeUser,
+} from '../../../core/api/realtime/realtime-manager';
+
+class FakeSocket {
+  sent: any[] = [];
+  private listeners: Record<string, ((event: any) => void)[]> = {};
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {}
+
+  emit(type: string, data?: unknown) {
+    for (const listener of this.listeners[type] ?? []) {
+      listener({ data: JSON.stringify(data) });
+    }
+  }
+
+  ofType(type: string) {
+    return this.sent.filter(message => message.type === type);
+  }
+}
+
+const managerUser = (id: string): RealTimeUser => ({
+  id,
+  role: 'manager',
+  level: 4,
+  permissions: ['manager.*', 'customer.view', 'wager.view_live', 'financial.view'],
+});
+
+const customerUser: RealTimeUser = {
+  id: 'C1',
+  role: 'customer',
+  level: 2,
+  permissions: ['customer.own', 'balance.view_own'],
+  scope: { type: 'customer', field: 'customerId', restriction: 'self_only' },
+};
+
+function alert(n: number) {
+  return { type: 'wager_alert', channel: 'wagers:live', payload: { n } };
+}
+
+describe('RealTimeManager', () => {
+  let realtime: RealTimeManager;
+
+  beforeEach(() => {
+    realtime = new RealTimeManager({ ...defaultRealTimeConfig, replayBufferSize: 3 });
+  });
+
+  afterEach(() => {
+    realtime.stop();
+  });
+
+  test('should authorize channels against JWT permissions', () => {
+    expect(realtime.canAccessChannel(managerUser('M1'), 'wagers:live')).toBe(true);
+    expect(realtime.canAccessChannel(managerUser('M1'), 'customer:C2')).toBe(true);
+    expect(realtime.canAccessChannel(customerUser, 'customer:C1')).toBe(true);
+    expect(realtime.canAccessChannel(customerUser, 'customer:C2')).toBe(false);
+    expect(realtime.canAccessChannel(customerUser, 'wagers:live')).toBe(false);
+    expect(realtime.canAccessChannel(customerUser, 'user:C1')).toBe(true);
+    expect(realtime.canAccessChannel(undefined, 'general')).toBe(true);
+    expect(realtime.canAccessChannel(undefined, 'wagers:live')).toBe(false);
+    expect(realtime.canAccessChannel(managerUser('M1'), 'unknown')).toBe(false);
+
+    const socket = new FakeSocket();
+    const client = realtime.acceptWebSocket(socket as any, customerUser, {
+      channels: ['general', 'wagers:live', 'customer:C1'],
+    });
+    expect([...client.subscriptions]).toEqual(['general', 'customer:C1']);
+    expect(realtime.subscribeClient(client.id, 'financial:queue')).toBe(false);
+
+    socket.emit('message', { type: 'subscribe', channel: 'customer:C9' });
+    expect(socket.ofType('subscription_denied')).toHaveLength(1);
+    expect(client.subscriptions.has('customer:C9')).toBe(false);
+  });
+
+  test('should track presence per user across connections', () => {
+    const first = new FakeSocket();
+    const second = new FakeSocket();
+    const other = new FakeSocket();
+    realtime.acceptWebSocket(first as any, managerUser('M1'), { channels: ['customer:C1'] });
+    realtime.acceptWebSocket(second as any, managerUser('M1'), { channels: ['customer:C1'] });
+
+    const otherClient = realtime.acceptWebSocket(other as any, managerUser('M2'));
+    other.emit('message', { type: 'subscribe', channel: 'customer:C1' });
+
+    const [subscribed] = other.ofType('subscribed');
+    expect(subscribed.presence.map((member: any) => member.userId)).toEqual(['M1', 'M2']);
+    expect(realtime.getPresence('customer:C1')[0].connections).toBe(2);
+
+    // One join per user, however many tabs they open
+    expect(first.ofType('presence').map(message => message.payload)).toEqual([
+      { action: 'join', userId: 'M1', role: 'manager' },
+      { action: 'join', userId: 'M2', role: 'manager' },
+    ]);
+
+    second.emit('close');
+    expect(first.ofType('presence')).toHaveLength(2);
+    realtime.unsubscribeClient(otherClient.id, 'customer:C1');
+    expect(first.ofType('presence').at(-1).payload).toEqual({
+      action: 'leave',
+      userId: 'M2',
+      role: 'manager',
+    });
+    expect(realtime.getStats().presence).toEqual({ 'customer:C1': 1 });
+  });
+
+  test('should replay missed messages after a WebSocket reconnect', async () => {
+    const before = new FakeSocket();
+    const client = realtime.acceptWebSocket(before as any, managerUser('M1'), {
+      channels: ['wagers:live'],
+    });
+    await realtime.sendToChannel('wagers:live', alert(1));
+    before.emit('close');
+    expect(realtime.getStats().websocket.total).toBe(0);
+
+    await realtime.sendToChannel('wagers:live', alert(2));
+    await realtime.sendToUser('M1', { type: 'notice', channel: 'inbox', payload: {} });
+    await realtime.sendToUser('M2', { type: 'notice', channel: 'inbox', payload: {} });
+    await realtime.sendToChannel('customer:C1', { type: 'balance', channel: '', payload: {} });
+
+    const lastSeen = before.ofType('wager_alert')[0].id;
+    const after = new FakeSocket();
+    realtime.acceptWebSocket(after as any, managerUser('M1'), {
+      channels: ['wagers:live'],
+      lastEventId: lastSeen,
+    });
+    const replayed = after.sent.filter(message => message.id !== undefined);
+    expect(replayed.map(message => [message.type, message.targetUserId])).toEqual([
+      ['wager_alert', undefined],
+      ['notice', 'M1'],
+    ]);
+    expect(client.subscriptions.size).toBe(0);
+
+    // Resuming past what the ring still holds asks the client to reload
+    for (let n = 3; n <= 6; n++) {
+      await realtime.sendToChannel('wagers:live', alert(n));
+    }
+    const late = new FakeSocket();
+    realtime.acceptWebSocket(late as any, managerUser('M1'));
+    late.emit('message', { type: 'subscribe', channel: 'wagers:live', lastEventId: lastSeen });
+    expect(late.ofType('resync')).toHaveLength(1);
+    expect(late.ofType('wager_alert').map(message => message.payload.n)).toEqual([4, 5, 6]);
+  });
+
+  test('should resume an SSE stream from Last-Event-ID', async () => {
+    await realtime.sendToChannel('wagers:live', alert(1));
+    await realtime.sendToChannel('wagers:live', alert(2));
+
+    const request = Object.assign(
+      new Request('http://localhost/api/realtime/events?channels=wagers:live,system:audit', {
+        headers: { 'Last-Event-ID': '1' },
+      }),
+      { user: managerUser('M1') }
+    );
+    const response = await realtime.handleSSE(request);
+    const reader = response.body!.getReader();
+    const read = async () => {
+      const { value } = await reader.read();
+      return typeof value === 'string' ? value : new TextDecoder().decode(value);
+    };
+
+    const connection = JSON.parse((await read()).replace('data: ', ''));
+    expect(connection.data.channels).toEqual(['wagers:live']);
+    expect(connection.data.denied).toEqual(['system:audit']);
+    expect(await read()).toContain('"action":"join"');
+    expect(await read()).toStartWith('id: 2\ndata: ');
+
+    // Live messages reach the open stream as well
+    await realtime.sendToChannel('wagers:live', alert(3));
+    expect(await read()).toStartWith('id: 3\n');
+    await reader.cancel();
+  });
+});
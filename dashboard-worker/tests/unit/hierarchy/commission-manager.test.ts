@@ -0,0 +1,187 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 Commission Manager Tests
+ * Weekly hierarchy statements, override splits, makeup and clawbacks
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { AgentProfileManager } from '../../../src/hierarchy/agents/agent-profile-manager';
+import { CommissionManager } from '../../../src/hierarchy/commissions/commission-manager';
+import type { AgentProfile, CommissionStatement } from '../../../core/types/hierarchy';
+
+const week1 = new Date('2026-03-02T00:00:00Z');
+const week2 = new Date('2026-03-09T00:00:00Z');
+const during = (week: Date, hours = 12) => new Date(week.getTime() + hours * 60 * 60 * 1000);
+
+describe('CommissionManager weekly statements', () => {
+  let agents: AgentProfileManager;
+  let commissions: CommissionManager;
+  let master: AgentProfile;
+  let sub: AgentProfile;
+  let agent: AgentProfile;
+
+  const structure = (name: string, baseRate: number, extra: Record<string, unknown> = {}) =>
+    commissions.createCommissionStructure({
+      name,
+      type: 'percentage',
+      isActive: true,
+      baseRate,
+      effectiveFrom: new Date('2026-01-01'),
+      ...extra,
+    } as any).id;
+
+  const createAgent = (code: string, commissionStructureId: string, parentAgentID?: string) =>
+    agents.createAgent({
+      login: code.toLowerCase(),
+      customerID: code,
+      agentID: code,
+      office: 'main',
+      agentType: 'A',
+      status: 'active',
+      commissionStructureId,
+      parentAgentID,
+    } as any);
+
+  const wager = (wagerNumber: number, agentId: string, houseNet: number, week: Date) =>
+    commissions.recordWagerActivity({
+      wagerNumber,
+      agentId,
+      customerId: `cust-${wagerNumber}`,
+      amountWagered: Math.abs(houseNet),
+      houseNet,
+      settledAt: during(week),
+      status: 'settled',
+    });
+
+  const byAgent = (statements: CommissionStatement[], profile: AgentProfile) =>
+    statements.find(statement => statement.agentId === profile.id)!;
+
+  beforeEach(() => {
+    agents = new AgentProfileManager();
+    commissions = new CommissionManager();
+
+    master = createAgent('M1', structure('Master', 0.3));
+    sub = createAgent(
+      'S1',
+      structure('Sub', 0.2, {
+        tiers: [
+          { minAmount: 0, maxAmount: 10000, rate: 0.2 },
+          { minAmount: 10000, rate: 0.25 },
+        ],
+      }),
+      master.id
+    );
+    agent = createAgent('A1', structure('Agent', 0.1), sub.id);
+  });
+
+  test('should pay each agent its rate and split overrides up the tree', () => {
+    wager(1, 'A1', 1000, week1);
+    wager(2, 'A1', -400, week1);
+    wager(3, 'S1', -2000, week1);
+
+    const statements = commissions.generateWeeklyStatements(agents.getHierarchyTree(), week1);
+
+    expect(byAgent(statements, agent)).toMatchObject({
+      wagerCount: 2,
+      volume: 1400,
+      netWin: 600,
+      rate: 0.1,
+      commission: 60,
+      netPayable: 60,
+    });
+    // The sub-agent lost on its own customers but still earns on the agent below it
+    expect(byAgent(statements, sub)).toMatchObject({
+      netWin: -2000,
+      commission: 0,
+      carryoverOut: -2000,
+      overrides: [{ subAgentId: agent.id, rate: 0.1, net: 600, amount: 60 }],
+      netPayable: 60,
+    });
+    expect(byAgent(statements, master).overrides).toEqual([
+      { subAgentId: agent.id, rate: 0.1, net: 600, amount: 60 },
+    ]);
+
+    expect(() =>
+      commissions.generateWeeklyStatements(agents.getHierarchyTree(), week1)
+    ).toThrow('already exist');
+  });
+
+  test('should make up losses and claw back wagers voided after the week closed', () => {
+    wager(1, 'A1', 1000, week1);
+    wager(3, 'S1', -2000, week1);
+    commissions.generateWeeklyStatements(agents.getHierarchyTree(), week1);
+
+    wager(4, 'S1', 2500, week2);
+    const clawbacks = commissions.recordWagerActivity({
+      wagerNumber: 1,
+      agentId: 'A1',
+      customerId: 'cust-1',
+      amountWagered: 1000,
+      houseNet: 1000,
+      settledAt: during(week2),
+      status: 'void',
+    });
+    expect(clawbacks.map(c => [c.agentId, c.rate, c.amount])).toEqual([
+      [agent.id, 0.1, -100],
+      [master.id, 0.1, -100],
+      [sub.id, 0.1, -100],
+    ]);
+    expect(commissions.getPendingClawbacks(agent.id)[0].weekStart).toEqual(week1);
+
+    const statements = commissions.generateWeeklyStatements(agents.getHierarchyTree(), week2);
+
+    // 2500 won back 2000 of makeup; 500 commissionable at 20%
+    expect(byAgent(statements, sub)).toMatchObject({
+      carryoverIn: -2000,
+      commissionableNet: 500,
+      commission: 100,
+      clawbackTotal: -100,
+      netPayable: 0,
+      carryoverOut: 0,
+    });
+    expect(byAgent(statements, agent)).toMatchObject({ netPayable: 0, balanceOut: -100 });
+    expect(byAgent(statements, master)).toMatchObject({
+      overrideTotal: 50,
+      clawbackTotal: -100,
+      balanceOut: -50,
+    });
+    expect(commissions.getPendingClawbacks(agent.id)).toEqual([]);
+  });
+
+  test('should honour fixed override rates and create payouts from statements', () => {
+    commissions.updateCommissionStructure(master.commissionStructureId, {
+      overrides: [
+        {
+          agentId: agent.id,
+          rate: 0.15,
+          reason: 'Recruited directly',
+          appliedBy: 'admin',
+          appliedAt: week1,
+        },
+      ],
+    });
+    wager(1, 'A1', 1000, week1);
+
+    const statements = commissions.generateWeeklyStatements(agents.getHierarchyTree(), week1);
+    expect(byAgent(statements, master).overrides).toEqual([
+      { subAgentId: agent.id, rate: 0.15, net: 1000, amount: 150 },
+    ]);
+
+    const statement = byAgent(statements, sub);
+    const payout = commissions.createStatementPayout(statement.id, 'finance');
+    expect(payout).toMatchObject({
+      agentId: sub.id,
+      period: 'weekly',
+      grossCommission: 100,
+      netAmount: 100,
+      status: 'pending',
+    });
+    expect(commissions.getPendingPayouts(sub.id)).toHaveLength(1);
+    expect(commissions.getStatement(statement.id)).toMatchObject({
+      status: 'payout_created',
+      payoutId: payout!.id,
+    });
+    expect(commissions.createStatementPayout(statement.id, 'finance')).toBeNull();
+  });
+});
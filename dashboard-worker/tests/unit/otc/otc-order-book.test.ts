@@ -0,0 +1,225 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 OTC Order Book Tests
+ * Price-time priority, order types, cancel/replace, persistence and mark price
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import {
+  OTCOrderBooks,
+  SqlOrderBookStore,
+  computeMarkPrice,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  TradingAsset,
+  type BookOrder,
+  type Trade,
+} from '../../../src/services/otc-order-book';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const seconds = (n: number) => new Date(now.getTime() + n * 1000);
+
+const order = (id: string, overrides: Partial<BookOrder> = {}): BookOrder => ({
+  id,
+  customerId: `cust-${id}`,
+  asset: TradingAsset.BTC,
+  side: OrderSide.BUY,
+  type: OrderType.LIMIT,
+  amount: 1,
+  timeInForce: 'GTC',
+  isIceberg: false,
+  status: OrderStatus.PENDING,
+  filledAmount: 0,
+  remainingAmount: overrides.amount ?? 1,
+  averagePrice: 0,
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+const sell = (id: string, price: number, amount = 1, overrides: Partial<BookOrder> = {}) =>
+  order(id, { side: OrderSide.SELL, price, amount, remainingAmount: amount, ...overrides });
+const buy = (
+  id: string,
+  price: number | undefined,
+  amount = 1,
+  overrides: Partial<BookOrder> = {}
+) =>
+  order(id, { side: OrderSide.BUY, price, amount, remainingAmount: amount, ...overrides });
+
+describe('OTCOrderBooks', () => {
+  let books: OTCOrderBooks;
+
+  beforeEach(() => {
+    books = new OTCOrderBooks();
+  });
+
+  test('should fill best price first, then oldest, at the resting price', async () => {
+    await books.submit(sell('s-late', 100, 1), seconds(1));
+    await books.submit(sell('s-early', 100, 1), seconds(0));
+    await books.submit(sell('s-cheap', 99, 1), seconds(2));
+
+    const { order: taker, trades } = await books.submit(buy('b1', 101, 2.5), seconds(3));
+
+    expect(trades.map(trade => [trade.makerOrderId, trade.price, trade.quantity])).toEqual([
+      ['s-cheap', 99, 1],
+      ['s-late', 100, 1],
+      ['s-early', 100, 0.5],
+    ]);
+    expect(taker).toMatchObject({ status: OrderStatus.FILLED, averagePrice: 99.6 });
+    expect(books.levels(TradingAsset.BTC).asks).toEqual([{ price: 100, quantity: 0.5, orders: 1 }]);
+  });
+
+  test('should rest non-crossing limits and skip same-customer orders', async () => {
+    await books.submit(sell('s1', 100, 1, { customerId: 'alice' }));
+    await books.submit(sell('s2', 101, 1));
+
+    const result = await books.submit(buy('b1', 101, 1, { customerId: 'alice' }));
+    expect(result.trades.map(trade => trade.makerOrderId)).toEqual(['s2']);
+
+    const resting = await books.submit(buy('b2', 95, 1));
+    expect(resting.order.status).toBe(OrderStatus.OPEN);
+    expect(books.stats(TradingAsset.BTC, now)).toMatchObject({
+      bestBid: 95,
+      bestAsk: 100,
+      spread: 5,
+    });
+  });
+
+  test('should cancel what a market, IOC or FOK order cannot fill', async () => {
+    await books.submit(sell('s1', 100, 1));
+    await books.submit(sell('s2', 110, 1));
+
+    const market = await books.submit(
+      buy('m1', undefined, 3, { type: OrderType.MARKET, timeInForce: 'IOC', maxSlippage: 0.05 })
+    );
+    expect(market.trades).toHaveLength(1);
+    expect(market.order).toMatchObject({ status: OrderStatus.CANCELLED, filledAmount: 1 });
+    expect(market.reason).toBe('Unfilled 2 cancelled (market)');
+
+    const fok = await books.submit(buy('f1', 120, 2, { timeInForce: 'FOK' }));
+    expect(fok.trades).toEqual([]);
+    expect(fok.reason).toBe('Fill-or-kill order could not be filled in full');
+    expect(books.levels(TradingAsset.BTC).asks).toEqual([{ price: 110, quantity: 1, orders: 1 }]);
+  });
+
+  test('should show only the iceberg peak and requeue it after each refresh', async () => {
+    await books.submit(
+      sell('ice', 100, 5, { type: OrderType.ICEBERG, isIceberg: true, visibleSize: 2 })
+    );
+    await books.submit(sell('plain', 100, 1));
+    expect(books.levels(TradingAsset.BTC).asks).toEqual([{ price: 100, quantity: 3, orders: 2 }]);
+
+    const { trades } = await books.submit(buy('b1', 100, 4));
+    // The refreshed peak queues behind the plain order at the same price
+    expect(trades.map(trade => [trade.makerOrderId, trade.quantity])).toEqual([
+      ['ice', 2],
+      ['plain', 1],
+      ['ice', 1],
+    ]);
+    expect(books.levels(TradingAsset.BTC).asks).toEqual([{ price: 100, quantity: 1, orders: 1 }]);
+  });
+
+  test('should expire good-till-time orders', async () => {
+    await books.submit(sell('gtt', 100, 1, { timeInForce: 'GTD', expiresAt: seconds(60) }), now);
+    await books.submit(sell('gtc', 101, 1), now);
+
+    const { trades, updated } = await books.submit(buy('b1', 101, 1), seconds(61));
+    expect(trades.map(trade => trade.makerOrderId)).toEqual(['gtc']);
+    expect(updated.find(o => o.id === 'gtt')?.status).toBe(OrderStatus.EXPIRED);
+
+    await books.submit(sell('gtt2', 100, 1, { timeInForce: 'GTD', expiresAt: seconds(120) }), now);
+    expect((await books.expire(seconds(120))).map(o => o.id)).toEqual(['gtt2']);
+    await expect(books.submit(sell('gtt3', 100, 1, { timeInForce: 'GTD' }))).rejects.toThrow(
+      'Good-till-time order gtt3 needs an expiry time'
+    );
+  });
+
+  test('should keep priority on a size reduction and lose it on a price change', async () => {
+    await books.submit(sell('s1', 100, 2), seconds(0));
+    await books.submit(sell('s2', 100, 2), seconds(1));
+
+    await books.replace('s1', { amount: 1 }, seconds(2));
+    expect(books.snapshot(TradingAsset.BTC).asks.map(o => o.id)).toEqual(['s1', 's2']);
+
+    await books.replace('s1', { amount: 3 }, seconds(3));
+    expect(books.snapshot(TradingAsset.BTC).asks.map(o => o.id)).toEqual(['s2', 's1']);
+
+    await books.submit(buy('b1', 98, 1), seconds(4));
+    const crossed = await books.replace('s2', { price: 98 }, seconds(5));
+    expect(crossed.trades.map(trade => [trade.buyOrderId, trade.price])).toEqual([['b1', 98]]);
+
+    expect(await books.cancel('s1')).toMatchObject({ status: OrderStatus.CANCELLED });
+    await expect(books.replace('s1', { price: 99 })).rejects.toThrow(
+      'Order s1 is not resting in the book'
+    );
+  });
+});
+
+describe('SqlOrderBookStore', () => {
+  test('should restore books, priority and mark price after a restart', async () => {
+    const db = new Database(':memory:');
+    const first = new OTCOrderBooks(new SqlOrderBookStore(db));
+
+    await first.submit(sell('s1', 100, 1), seconds(0));
+    await first.submit(
+      sell('s2', 100, 3, { type: OrderType.ICEBERG, isIceberg: true, visibleSize: 1 }),
+      seconds(1)
+    );
+    await first.submit(buy('b1', 100, 1.5), seconds(2));
+
+    const restarted = new OTCOrderBooks(new SqlOrderBookStore(db));
+    expect(await restarted.restore()).toBe(1);
+    expect(restarted.levels(TradingAsset.BTC).asks).toEqual([
+      { price: 100, quantity: 0.5, orders: 1 },
+    ]);
+    expect(restarted.getOrder('s2')).toMatchObject({
+      filledAmount: 0.5,
+      status: OrderStatus.PARTIALLY_FILLED,
+    });
+    expect(restarted.getOrder('s2')?.createdAt).toEqual(now);
+    expect(restarted.markPrice(TradingAsset.BTC, seconds(3))).toBe(100);
+
+    // New arrivals keep sequencing after the restored ones
+    await restarted.submit(sell('s3', 100, 1), seconds(4));
+    expect(restarted.snapshot(TradingAsset.BTC).asks.map(o => o.id)).toEqual(['s2', 's3']);
+
+    const fills = await restarted.fills('b1');
+    expect(fills.map(fill => [fill.sellOrderId, fill.quantity])).toEqual([
+      ['s1', 1],
+      ['s2', 0.5],
+    ]);
+  });
+});
+
+describe('computeMarkPrice', () => {
+  const trade = (sequence: number, price: number, quantity: number, at: Date): Trade => ({
+    id: `t${sequence}`,
+    asset: TradingAsset.ETH,
+    price,
+    quantity,
+    buyOrderId: 'b',
+    sellOrderId: 's',
+    buyCustomerId: 'cb',
+    sellCustomerId: 'cs',
+    makerOrderId: 's',
+    takerOrderId: 'b',
+    sequence,
+    executedAt: at,
+  });
+
+  test('should volume-weight recent trades and fall back to the last trade', () => {
+    const trades = [
+      trade(1, 2000, 1, seconds(-600)),
+      trade(2, 2500, 1, seconds(-60)),
+      trade(3, 2600, 3, seconds(-30)),
+    ];
+
+    expect(computeMarkPrice(trades, now, 5 * 60 * 1000)).toBe(2575);
+    expect(computeMarkPrice(trades, seconds(3600), 5 * 60 * 1000)).toBe(2600);
+    expect(computeMarkPrice([], now)).toBeUndefined();
+  });
+});
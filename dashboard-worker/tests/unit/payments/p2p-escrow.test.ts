@@ -0,0 +1,237 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 P2P Escrow Tests
+ * Balance holds, state transitions, timeouts, disputes and evidence storage
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { P2PMatchingCore } from '../../../src/p2p-matching-core';
+import { P2PEscrow } from '../../../src/p2p-escrow';
+import { LocalR2Client } from '../../../src/utils/bun-r2-client';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const minutes = (n: number) => new Date(now.getTime() + n * 60 * 1000);
+
+describe('P2PEscrow', () => {
+  let db: Database;
+  let evidenceDir: string;
+  let core: P2PMatchingCore;
+  let escrow: P2PEscrow;
+  let matchId: string;
+
+  const player = (customerId: string) =>
+    db.query(`SELECT balance, pending FROM players WHERE customer_id = ?`).get(customerId) as {
+      balance: number;
+      pending: number;
+    };
+
+  const status = (table: string, id: string) =>
+    (db.query(`SELECT status FROM ${table} WHERE id = ?`).get(id) as { status: string }).status;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    db.run(`CREATE TABLE players (customer_id TEXT PRIMARY KEY, balance REAL DEFAULT 0, pending REAL DEFAULT 0)`);
+    db.run(await Bun.file(`${import.meta.dir}/../../../queue-schema.sql`).text());
+    db.run(`INSERT INTO players (customer_id, balance) VALUES ('withdrawer', 500), ('depositor', 0)`);
+    db.run(
+      `INSERT INTO queue_items (id, type, customer_id, amount, payment_type, status, created_at) VALUES
+       ('w1', 'withdrawal', 'withdrawer', 200, 'zelle', 'pending', '2026-03-01 11:00:00'),
+       ('d1', 'deposit', 'depositor', 200, 'zelle', 'pending', '2026-03-01 11:05:00')`
+    );
+
+    evidenceDir = mkdtempSync(join(tmpdir(), 'p2p-evidence-'));
+    core = new P2PMatchingCore(db);
+    escrow = new P2PEscrow(db, new LocalR2Client(evidenceDir), { maxEvidenceBytes: 1024 });
+
+    [matchId] = (await core.match(now)).matchIds;
+    await core.approve(matchId);
+  });
+
+  afterEach(() => {
+    rmSync(evidenceDir, { recursive: true, force: true });
+  });
+
+  test('should hold the withdrawer balance and release it to the depositor on confirmation', async () => {
+    const opened = await escrow.open(matchId, now);
+    expect(opened).toMatchObject({ status: 'awaiting_payment', payerCustomerId: 'depositor', amount: 200 });
+    expect(opened.deadlineAt).toEqual(minutes(30));
+    expect(player('withdrawer')).toEqual({ balance: 300, pending: 200 });
+
+    await expect(escrow.confirmPayment(opened.id, 'withdrawer', now)).rejects.toThrow(
+      'cannot move from awaiting_payment to confirmed'
+    );
+    await expect(escrow.claimPayment(opened.id, 'withdrawer', now)).rejects.toThrow(
+      `Customer withdrawer cannot act on escrow ${opened.id} as the payer`
+    );
+
+    await escrow.claimPayment(opened.id, 'depositor', minutes(5));
+    const confirmed = await escrow.confirmPayment(opened.id, 'withdrawer', minutes(10));
+
+    expect(confirmed.status).toBe('confirmed');
+    expect(player('withdrawer')).toEqual({ balance: 300, pending: 0 });
+    expect(player('depositor')).toEqual({ balance: 200, pending: 0 });
+    expect(status('queue_matches', matchId)).toBe('completed');
+    expect(status('queue_items', 'w1')).toBe('completed');
+    expect((await escrow.getHistory(opened.id)).map(event => event.to)).toEqual([
+      'awaiting_payment',
+      'payment_claimed',
+      'confirmed',
+    ]);
+  });
+
+  test('should expire unpaid escrows and dispute unconfirmed claims', async () => {
+    const unpaid = await escrow.open(matchId, now);
+
+    expect(await escrow.sweep(minutes(29))).toEqual({ expired: [], disputed: [], overdueDisputes: [] });
+    expect((await escrow.sweep(minutes(31))).expired).toEqual([unpaid.id]);
+    expect(player('withdrawer')).toEqual({ balance: 500, pending: 0 });
+    // Both orders go back to the queue for the next run
+    expect(status('queue_items', 'w1')).toBe('pending');
+
+    const [rematched] = (await core.match(minutes(32))).matchIds;
+    await core.approve(rematched);
+    const claimed = await escrow.open(rematched, minutes(32));
+    await escrow.claimPayment(claimed.id, 'depositor', minutes(35));
+
+    const sweep = await escrow.sweep(minutes(35 + 24 * 60));
+    expect(sweep.disputed).toEqual([claimed.id]);
+    expect(await escrow.get(claimed.id)).toMatchObject({
+      status: 'disputed',
+      disputedBy: 'system',
+      disputeReason: 'Recipient did not confirm the payment in time',
+    });
+    expect((await escrow.sweep(minutes(35 + 24 * 60 + 72 * 60))).overdueDisputes).toEqual([claimed.id]);
+  });
+
+  test('should let a moderator release or reverse a disputed hold', async () => {
+    const opened = await escrow.open(matchId, now);
+    await escrow.claimPayment(opened.id, 'depositor', now);
+    await escrow.dispute(opened.id, 'withdrawer', 'Nothing arrived', now);
+
+    const asModerator = (id: string) => ({ id, permissions: ['p2p.moderate'] });
+    await expect(
+      escrow.resolve(opened.id, asModerator('withdrawer'), 'reverse', 'mine', now)
+    ).rejects.toThrow('is a party to escrow');
+
+    const resolved = await escrow.resolve(
+      opened.id,
+      asModerator('mod-1'),
+      'reverse',
+      'Bank shows no transfer',
+      minutes(60)
+    );
+    expect(resolved).toMatchObject({ status: 'resolved', decision: 'reverse', resolvedBy: 'mod-1' });
+    expect(player('withdrawer')).toEqual({ balance: 500, pending: 0 });
+    expect(player('depositor')).toEqual({ balance: 0, pending: 0 });
+    expect(status('queue_matches', matchId)).toBe('failed');
+  });
+
+  test('should refuse dispute decisions from users without a moderator permission', async () => {
+    const opened = await escrow.open(matchId, now);
+    await escrow.dispute(opened.id, 'depositor', 'Sent but not credited', now);
+
+    const agent = { id: 'agent-7', permissions: ['queue.withdrawal'] };
+    await expect(escrow.resolve(opened.id, agent, 'release', 'ok', now)).rejects.toThrow('agent-7 is not allowed to resolve escrow disputes');
+    expect(await escrow.get(opened.id)).toMatchObject({ status: 'disputed' });
+
+    const resolved = await escrow.resolve(
+      opened.id,
+      { id: 'admin-1', permissions: ['admin.*'] },
+      'release',
+      'Transfer confirmed by bank',
+      minutes(60)
+    );
+    expect(resolved).toMatchObject({ status: 'resolved', resolvedBy: 'admin-1' });
+  });
+
+  test('should store evidence through the R2 client', async () => {
+    const opened = await escrow.open(matchId, now);
+    const evidence = await escrow.addEvidence(opened.id, 'depositor', {
+      fileName: 'zelle receipt.png',
+      contentType: 'image/png',
+      data: new Uint8Array([137, 80, 78, 71]),
+    });
+
+    expect(evidence.objectKey).toBe(`p2p-escrow/${opened.id}/${evidence.id}-zelle_receipt.png`);
+    expect(await escrow.getEvidence(opened.id)).toEqual([evidence]);
+
+    const stored = await escrow.readEvidence(evidence);
+    expect(stored.headers.get('content-type')).toBe('image/png');
+    expect(new Uint8Array(await stored.arrayBuffer())).toEqual(new Uint8Array([137, 80, 78, 71]));
+
+    await expect(
+      escrow.addEvidence(opened.id, 'depositor', { fileName: 'a.exe', contentType: 'application/x-msdownload', data: 'x' })
+    ).rejects.toThrow('Evidence type application/x-msdownload is not accepted');
+    await expect(
+      escrow.addEvidence(opened.id, 'depositor', { fileName: 'big.txt', contentType: 'text/plain', data: 'x'.repeat(2048) })
+    ).rejects.toThrow('Evidence is 2048 bytes, the limit is 1024');
+    await expect(
+      escrow.addEvidence(opened.id, 'stranger', { fileName: 'a.txt', contentType: 'text/plain', data: 'x' })
+    ).rejects.toThrow('Customer stranger cannot act on escrow');
+  });
+
+  test('should settle an escrow once when transitions race', async () => {
+    const confirmed = await escrow.open(matchId, now);
+    await escrow.claimPayment(confirmed.id, 'depositor', now);
+
+    const confirms = await Promise.allSettled([
+      escrow.confirmPayment(confirmed.id, 'withdrawer', minutes(5)),
+      escrow.confirmPayment(confirmed.id, 'withdrawer', minutes(5)),
+    ]);
+    expect(confirms.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(confirms.find(result => result.status === 'rejected')).toMatchObject({
+      reason: new Error(`Escrow ${confirmed.id} is no longer payment_claimed`),
+    });
+    expect(player('withdrawer')).toEqual({ balance: 300, pending: 0 });
+    expect(player('depositor')).toEqual({ balance: 200, pending: 0 });
+
+    db.run(
+      `INSERT INTO queue_items (id, type, customer_id, amount, payment_type, status, created_at) VALUES
+       ('w2', 'withdrawal', 'withdrawer', 100, 'zelle', 'pending', '2026-03-01 11:10:00'),
+       ('d2', 'deposit', 'depositor', 100, 'zelle', 'pending', '2026-03-01 11:15:00')`
+    );
+    const [second] = (await core.match(minutes(10))).matchIds;
+    await core.approve(second);
+    const unpaid = await escrow.open(second, minutes(10));
+
+    const sweeps = await Promise.all([escrow.sweep(minutes(41)), escrow.sweep(minutes(41))]);
+    expect(sweeps.flatMap(sweep => sweep.expired)).toEqual([unpaid.id]);
+    expect(player('withdrawer')).toEqual({ balance: 300, pending: 0 });
+    expect(status('queue_items', 'w2')).toBe('pending');
+  });
+
+  test('should not hold more than the balance when escrows open together', async () => {
+    db.run(`UPDATE players SET balance = 300 WHERE customer_id = 'withdrawer'`);
+    db.run(
+      `INSERT INTO queue_items (id, type, customer_id, amount, payment_type, status, created_at) VALUES
+       ('w2', 'withdrawal', 'withdrawer', 200, 'zelle', 'pending', '2026-03-01 11:10:00'),
+       ('d2', 'deposit', 'depositor', 200, 'zelle', 'pending', '2026-03-01 11:15:00')`
+    );
+    const [second] = (await core.match(now)).matchIds;
+    await core.approve(second);
+
+    const opens = await Promise.allSettled([escrow.open(matchId, now), escrow.open(second, now)]);
+    expect(opens.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(opens.find(result => result.status === 'rejected')).toMatchObject({
+      reason: new Error('Customer withdrawer has insufficient balance to hold 200'),
+    });
+    expect(player('withdrawer')).toEqual({ balance: 100, pending: 200 });
+    expect(db.query(`SELECT COUNT(*) AS count FROM p2p_escrows`).get()).toEqual({ count: 1 });
+  });
+
+  test('should refuse a second escrow or one without enough balance', async () => {
+    await escrow.open(matchId, now);
+    await expect(escrow.open(matchId, now)).rejects.toThrow(`Match ${matchId} already has escrow`);
+
+    db.run(`UPDATE players SET balance = 50 WHERE customer_id = 'withdrawer'`);
+    db.run(`DELETE FROM p2p_escrows`);
+    await expect(escrow.open(matchId, now)).rejects.toThrow(
+      'Customer withdrawer has insufficient balance to hold 200'
+    );
+  });
+});
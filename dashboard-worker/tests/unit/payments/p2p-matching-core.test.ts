@@ -0,0 +1,224 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 P2P Matching Core Tests
+ * Partial fills, slice minimums, payment compatibility, fairness and replay
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import {
+  P2PMatchingCore,
+  planP2PMatches,
+  type MatchableOrder,
+} from '../../../src/p2p-matching-core';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+const order = (
+  id: string,
+  type: MatchableOrder['type'],
+  amount: number,
+  overrides: Partial<MatchableOrder> = {}
+): MatchableOrder => ({
+  id,
+  type,
+  customerId: `cust-${id}`,
+  amount,
+  allocatedAmount: 0,
+  paymentType: 'zelle',
+  priority: 1,
+  createdAt: new Date('2026-03-01T11:50:00Z'),
+  ...overrides,
+});
+
+describe('planP2PMatches', () => {
+  test('should split one withdrawal across several deposits', () => {
+    const plan = planP2PMatches(
+      [
+        order('w1', 'withdrawal', 1000),
+        order('d1', 'deposit', 300, { createdAt: new Date('2026-03-01T11:00:00Z') }),
+        order('d2', 'deposit', 500, { createdAt: new Date('2026-03-01T11:10:00Z') }),
+        order('d3', 'deposit', 400, { createdAt: new Date('2026-03-01T11:20:00Z') }),
+      ],
+      { agingMinutes: 0 },
+      now
+    );
+
+    expect(plan.fills.map(fill => [fill.depositId, fill.amount])).toEqual([
+      ['d1', 300],
+      ['d2', 500],
+      ['d3', 200],
+    ]);
+    expect(plan.unmatched).toEqual([
+      { orderId: 'd3', type: 'deposit', remaining: 200, reason: 'no eligible withdrawal left' },
+    ]);
+  });
+
+  test('should split one deposit across several withdrawals in priority then FIFO order', () => {
+    const plan = planP2PMatches(
+      [
+        order('d1', 'deposit', 900),
+        order('w-old', 'withdrawal', 400, { createdAt: new Date('2026-03-01T10:00:00Z') }),
+        order('w-new', 'withdrawal', 400, { createdAt: new Date('2026-03-01T11:00:00Z') }),
+        order('w-vip', 'withdrawal', 400, { createdAt: new Date('2026-03-01T11:30:00Z'), priority: 3 }),
+      ],
+      { agingMinutes: 0 },
+      now
+    );
+
+    expect(plan.fills.map(fill => [fill.withdrawalId, fill.amount])).toEqual([
+      ['w-vip', 400],
+      ['w-old', 400],
+      ['w-new', 100],
+    ]);
+  });
+
+  test('should age long-waiting orders ahead of newer higher-priority ones', () => {
+    const plan = planP2PMatches(
+      [
+        order('d1', 'deposit', 100),
+        order('w-waiting', 'withdrawal', 100, { createdAt: new Date('2026-03-01T09:00:00Z') }),
+        order('w-priority', 'withdrawal', 100, { createdAt: new Date('2026-03-01T11:59:00Z'), priority: 3 }),
+      ],
+      { agingMinutes: 60 },
+      now
+    );
+
+    expect(plan.fills[0].withdrawalId).toBe('w-waiting');
+    expect(plan.fills[0].explanation.withdrawal).toMatchObject({ priority: 1, effectivePriority: 4 });
+  });
+
+  test('should never leave a remainder below the minimum slice', () => {
+    const plan = planP2PMatches(
+      [order('w1', 'withdrawal', 100), order('d1', 'deposit', 95)],
+      { minSlice: 10 },
+      now
+    );
+
+    expect(plan.fills[0].amount).toBe(85);
+    expect(plan.fills[0].explanation.reasons).toContain('slice 85 keeps the remainder at or above 10');
+
+    const none = planP2PMatches(
+      [order('w1', 'withdrawal', 15), order('d1', 'deposit', 12)],
+      { minSlice: 10 },
+      now
+    );
+    expect(none.fills).toEqual([]);
+    expect(none.unmatched[0].reason).toBe(
+      'd1: no slice of 15 against 12 leaves both remainders at 0 or at least 10'
+    );
+  });
+
+  test('should only match compatible payment types and different customers', () => {
+    const plan = planP2PMatches(
+      [
+        order('w1', 'withdrawal', 200, { paymentType: 'ach', customerId: 'alice' }),
+        order('d-self', 'deposit', 200, { paymentType: 'ach', customerId: 'alice' }),
+        order('d-venmo', 'deposit', 200, { paymentType: 'venmo' }),
+        order('d-wire', 'deposit', 200, { paymentType: 'wire' }),
+      ],
+      { compatibleGroups: [['bank_transfer', 'ach', 'wire']], agingMinutes: 0 },
+      now
+    );
+
+    expect(plan.fills).toHaveLength(1);
+    expect(plan.fills[0].depositId).toBe('d-wire');
+    expect(plan.fills[0].explanation.skipped).toEqual([
+      { depositId: 'd-self', reason: 'same customer on both sides' },
+      { depositId: 'd-venmo', reason: 'venmo cannot settle ach' },
+    ]);
+  });
+
+  test('should give the same plan and fingerprint for the same inputs', () => {
+    const orders = [order('w1', 'withdrawal', 500), order('d1', 'deposit', 200), order('d2', 'deposit', 300)];
+    const first = planP2PMatches(orders, {}, now);
+    const second = planP2PMatches([...orders].reverse(), {}, now);
+
+    expect(second).toEqual(first);
+  });
+});
+
+describe('P2PMatchingCore', () => {
+  let db: Database;
+  let core: P2PMatchingCore;
+
+  const enqueue = (id: string, type: string, amount: number, createdAt: string) =>
+    db
+      .query(
+        `INSERT INTO queue_items (id, type, customer_id, amount, payment_type, priority, status, created_at)
+         VALUES (?, ?, ?, ?, 'zelle', 1, 'pending', ?)`
+      )
+      .run(id, type, `cust-${id}`, amount, createdAt);
+
+  const item = (id: string) =>
+    db.query(`SELECT status, allocated_amount FROM queue_items WHERE id = ?`).get(id) as {
+      status: string;
+      allocated_amount: number;
+    };
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    db.run(await Bun.file(`${import.meta.dir}/../../../queue-schema.sql`).text());
+    core = new P2PMatchingCore(db, { agingMinutes: 0 });
+
+    enqueue('w1', 'withdrawal', 1000, '2026-03-01 10:00:00');
+    enqueue('d1', 'deposit', 600, '2026-03-01 10:05:00');
+    enqueue('d2', 'deposit', 400, '2026-03-01 10:10:00');
+  });
+
+  test('should persist slices and hold allocations until approval', async () => {
+    const run = await core.match(now);
+    expect(run.matchIds).toHaveLength(2);
+    expect(item('w1')).toEqual({ status: 'matched', allocated_amount: 1000 });
+
+    const first = await core.approve(run.matchIds[0]);
+    expect(first.explanation?.reasons[0]).toBe('withdrawal w1 is rank 1 of 1 open withdrawals');
+    // The other slice still awaits approval
+    expect(item('w1').status).toBe('matched');
+    expect(item('d1').status).toBe('processing');
+
+    await core.approve(run.matchIds[1]);
+    expect(item('w1').status).toBe('processing');
+    await expect(core.approve(run.matchIds[1])).rejects.toThrow('is processing, expected pending');
+  });
+
+  test('should release a rejected slice for the next run', async () => {
+    const run = await core.match(now);
+    await core.reject(run.matchIds[1], 'Deposit account unverified');
+
+    expect(item('w1')).toEqual({ status: 'pending', allocated_amount: 600 });
+    expect(item('d2')).toEqual({ status: 'pending', allocated_amount: 0 });
+
+    await core.cancelItem('d2', 'Customer withdrew the deposit');
+    enqueue('d3', 'deposit', 400, '2026-03-01 10:20:00');
+
+    const next = await core.match(now);
+    expect(next.fills.map(fill => [fill.depositId, fill.amount])).toEqual([['d3', 400]]);
+  });
+
+  test('should not over-allocate when runs race for the same orders', async () => {
+    const other = new P2PMatchingCore(db, { agingMinutes: 0 });
+    const runs = await Promise.all([core.match(now), other.match(now), core.match(now)]);
+
+    expect(runs.flatMap(run => run.matchIds)).toHaveLength(2);
+    expect(item('w1')).toEqual({ status: 'matched', allocated_amount: 1000 });
+    expect(item('d1')).toEqual({ status: 'matched', allocated_amount: 600 });
+    expect(db.query(`SELECT COUNT(*) AS n FROM queue_matches`).get()).toEqual({ n: 2 });
+
+    // Orders that stopped being pending take no further allocations
+    db.run(`UPDATE queue_items SET status = 'failed', allocated_amount = 0 WHERE id = 'd2'`);
+    expect(() =>
+      db.run(`UPDATE queue_items SET allocated_amount = 100 WHERE id = 'd2'`)
+    ).toThrow('queue allocation conflict');
+  });
+
+  test('should replay a run from its stored inputs', async () => {
+    const run = await core.match(now);
+    const replay = await core.replay(run.runId);
+
+    expect(replay.reproduced).toBe(true);
+    expect(replay.plan.inputFingerprint).toBe(run.inputFingerprint);
+    await expect(core.replay('missing')).rejects.toThrow('Matching run missing not found');
+  });
+});
@@ -0,0 +1,183 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 Weekly Close-out Tests
+ * Frozen figures, settlements in both directions, period locks and reopens
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { CLOSED_WEEK_CONFLICT, WeeklyCloseout } from '../../../src/weekly-closeout';
+
+// Figure weeks run Tuesday to Monday
+const weekStart = new Date('2026-03-03T00:00:00Z');
+const afterWeek = new Date('2026-03-10T06:00:00Z');
+
+describe('WeeklyCloseout', () => {
+  let db: Database;
+  let closeout: WeeklyCloseout;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.run(`CREATE TABLE players (customer_id TEXT PRIMARY KEY, agent_id TEXT)`);
+    db.run(
+      `CREATE TABLE wagers (
+        id INTEGER PRIMARY KEY, customer_id TEXT, agent_id TEXT, amount_wagered REAL,
+        settlement_status TEXT DEFAULT 'pending', settlement_amount REAL DEFAULT 0, settled_at TEXT
+      )`
+    );
+    db.run(
+      `CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT, customer_id TEXT, amount REAL,
+        transaction_type TEXT, agent_id TEXT, created_at TEXT
+      )`
+    );
+    db.run(`INSERT INTO players VALUES ('c1', 'A1'), ('c2', 'A1'), ('c3', 'A2')`);
+    db.run(
+      `INSERT INTO wagers VALUES
+       (1, 'c1', 'A1', 100, 'loss', 0, '2026-03-04 10:00:00'),
+       (2, 'c1', 'A1', 60, 'win', 50, '2026-03-05 10:00:00'),
+       (3, 'c2', 'A1', 100, 'win', 200, '2026-03-09 23:59:00'),
+       (4, 'c3', 'A2', 300, 'loss', 0, '2026-03-06 10:00:00'),
+       (5, 'c3', 'A2', 40, 'push', 40, '2026-03-06 11:00:00'),
+       (6, 'c3', 'A2', 500, 'pending', 0, NULL),
+       (7, 'c2', 'A1', 80, 'loss', 0, '2026-03-10 00:00:00')`
+    );
+    db.run(
+      `INSERT INTO transactions (customer_id, amount, transaction_type, agent_id, created_at) VALUES
+       ('c1', 20, 'free_play', 'A1', '2026-03-04 09:00:00'),
+       ('c2', 25, 'adjustment', 'A1', '2026-03-07 09:00:00'),
+       ('c3', 1000, 'deposit', 'A2', '2026-03-07 09:00:00')`
+    );
+
+    closeout = new WeeklyCloseout(db, { commissionRates: { A2: 0.25 } });
+  });
+
+  test('should freeze figures and raise collections and distributions both ways', async () => {
+    await expect(closeout.closeWeek(weekStart, 'finance', weekStart)).rejects.toThrow(
+      'is still running'
+    );
+    await expect(closeout.closeWeek('2026-03-02', 'finance', afterWeek)).rejects.toThrow(
+      'is not the start of a figure week'
+    );
+
+    const result = await closeout.closeWeek(weekStart, 'finance', afterWeek);
+
+    expect(result.customers.map(c => [c.customerId, c.wagerCount, c.winLoss, c.balance])).toEqual([
+      ['c1', 2, -50, -50],
+      ['c2', 1, 200, 225],
+      ['c3', 2, -300, -300],
+    ]);
+    expect(result.agents.find(a => a.agentId === 'A1')).toMatchObject({
+      houseNet: -175,
+      freePlay: 20,
+      commissionableNet: -195,
+      commission: 0,
+      balance: 175,
+    });
+    expect(result.agents.find(a => a.agentId === 'A2')).toMatchObject({
+      houseNet: 300,
+      commission: 75,
+      balance: -225,
+    });
+    expect(
+      result.settlements.map(s => [s.partyId, s.counterparty, s.direction, s.amount])
+    ).toEqual([
+      ['c1', 'A1', 'collection', 50],
+      ['c2', 'A1', 'distribution', 225],
+      ['c3', 'A2', 'collection', 300],
+      ['A1', 'house', 'distribution', 175],
+      ['A2', 'house', 'collection', 225],
+    ]);
+
+    // Frozen: later changes to the source tables do not move the stored figures
+    db.run(`UPDATE wagers SET settlement_amount = 999 WHERE id = 3`);
+    expect((await closeout.getCustomerFigures(weekStart, 'A1')).map(c => c.balance)).toEqual([
+      -50, 225,
+    ]);
+    await expect(closeout.closeWeek(weekStart, 'finance', afterWeek)).rejects.toThrow(
+      'already closed'
+    );
+  });
+
+  test('should lock the week until an authorized reopen and settle only the difference', async () => {
+    await closeout.closeWeek(weekStart, 'finance', afterWeek);
+    const [c3Collection] = await closeout.getSettlements({
+      weekStart,
+      direction: 'collection',
+      counterparty: 'A2',
+    });
+    await closeout.completeSettlement(c3Collection.id, 'agent-A2', 'cash', afterWeek);
+
+    await expect(closeout.assertWagersEditable([5], afterWeek)).rejects.toThrow(
+      'week of 2026-03-03 is closed'
+    );
+    await expect(
+      closeout.assertEditable('2026-03-11 10:00:00', 'post an adjustment')
+    ).resolves.toBeUndefined();
+
+    await expect(
+      closeout.reopenWeek(weekStart, { actor: 'bob', role: 'manager', reason: 'regrade' })
+    ).rejects.toThrow('not authorized');
+    await expect(
+      closeout.reopenWeek(weekStart, { actor: 'ann', role: 'admin', reason: ' ' })
+    ).rejects.toThrow('reason is required');
+
+    const reopened = await closeout.reopenWeek(
+      weekStart,
+      { actor: 'ann', role: 'manager', permissions: ['settlements.reopen'], reason: 'regrade' },
+      afterWeek
+    );
+    expect(reopened).toMatchObject({ status: 'reopened', reopenedBy: 'ann', version: 1 });
+    expect((await closeout.getSettlements({ weekStart, status: 'pending' })).length).toBe(0);
+    await expect(closeout.assertWagersEditable([5], afterWeek)).resolves.toBeUndefined();
+
+    // The push was really a win: c3 lost 260, not 300, and has already paid 300
+    db.run(`UPDATE wagers SET settlement_status = 'win', settlement_amount = 40 WHERE id = 5`);
+    const second = await closeout.closeWeek(weekStart, 'finance', afterWeek);
+
+    expect(second.period.version).toBe(2);
+    expect(second.settlements.find(s => s.partyId === 'c3')).toMatchObject({
+      direction: 'distribution',
+      amount: 40,
+      version: 2,
+    });
+    expect((await closeout.getAudit(weekStart)).map(entry => entry.action)).toEqual([
+      'closed',
+      'reopen_denied',
+      'reopened',
+      'closed',
+    ]);
+  });
+
+  test('should refuse retroactive adjustments into a closed week from any write path', async () => {
+    await closeout.closeWeek(weekStart, 'finance', afterWeek);
+
+    const post = (type: string, createdAt: string) =>
+      db.run(
+        `INSERT INTO transactions (customer_id, amount, transaction_type, agent_id, created_at)
+         VALUES ('c1', 15, ?, 'A1', ?)`,
+        [type, createdAt]
+      );
+
+    expect(() => post('adjustment', '2026-03-05 12:00:00')).toThrow(CLOSED_WEEK_CONFLICT);
+    expect(() => post('free_play', '2026-03-09T23:00:00.000Z')).toThrow(CLOSED_WEEK_CONFLICT);
+    expect(() =>
+      db.run(`UPDATE transactions SET amount = 99 WHERE transaction_type = 'adjustment'`)
+    ).toThrow(CLOSED_WEEK_CONFLICT);
+    expect(() =>
+      db.run(`UPDATE transactions SET created_at = '2026-03-11 09:00:00' WHERE id = 1`)
+    ).toThrow(CLOSED_WEEK_CONFLICT);
+    expect(() => post('adjustment', '2026-03-11 12:00:00')).not.toThrow();
+
+    await closeout.reopenWeek(
+      weekStart,
+      { actor: 'ann', role: 'admin', reason: 'late adjustment' },
+      afterWeek
+    );
+    expect(() => post('adjustment', '2026-03-05 12:00:00')).not.toThrow();
+
+    const second = await closeout.closeWeek(weekStart, 'finance', afterWeek);
+    expect(second.customers.find(c => c.customerId === 'c1')?.adjustments).toBe(15);
+  });
+});
@@ -0,0 +1,169 @@
+#!/usr/bin/env bun
+
+/**
+ * 🧪 Feature Flags Tests
+ * Targeting rules, sticky rollouts, persistence and the audit trail
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import {
+  FeatureFlagsService,
+  SqlFeatureFlagStore,
+  rolloutBucket,
+  type FeatureFlag,
+} from '../../../core/services/feature-flags';
+import { bindFlags, flagsForTelegramUser } from '../../../core/services/feature-flags-sdk';
+
+const admin = { actor: 'admin-1' };
+
+function flag(overrides: Partial<FeatureFlag> = {}): FeatureFlag {
+  return { name: 'new_cashier', enabled: true, description: 'New cashier flow', ...overrides };
+}
+
+describe('FeatureFlagsService', () => {
+  let flags: FeatureFlagsService;
+
+  beforeEach(() => {
+    flags = new FeatureFlagsService({ defaults: [] });
+  });
+
+  test('should keep rollout answers sticky as the percentage grows', async () => {
+    await flags.upsertFlag(flag({ rolloutPercentage: 25 }), admin);
+    const users = Array.from({ length: 400 }, (_, i) => `C${i}`);
+    const inAt25 = users.filter(userId => flags.isEnabled('new_cashier', userId));
+
+    expect(inAt25.length).toBeGreaterThan(60);
+    expect(inAt25.length).toBeLessThan(140);
+    expect(users.filter(userId => flags.isEnabled('new_cashier', userId))).toEqual(inAt25);
+    expect(flags.evaluate('new_cashier', { userId: 'C1' }).bucket).toBe(
+      rolloutBucket('new_cashier', 'C1')
+    );
+
+    await flags.updateFlag('new_cashier', { rolloutPercentage: 60 }, admin);
+    const inAt60 = users.filter(userId => flags.isEnabled('new_cashier', userId));
+    expect(inAt60.length).toBeGreaterThan(inAt25.length);
+    expect(inAt25.every(userId => inAt60.includes(userId))).toBe(true);
+
+    // No key to hash means no stable answer, so the caller stays out
+    expect(flags.evaluate('new_cashier').reason).toBe('outside_rollout');
+  });
+
+  test('should roll out by office when stickiness says so', async () => {
+    await flags.upsertFlag(flag({ rolloutPercentage: 50, stickiness: 'office' }), admin);
+
+    const offices = Array.from({ length: 20 }, (_, i) => `office-${i}`);
+    for (const office of offices) {
+      const answer = flags.isEnabled('new_cashier', { userId: 'A', office });
+      expect(flags.isEnabled('new_cashier', { userId: 'B', office })).toBe(answer);
+    }
+  });
+
+  test('should apply targeting rules on agent, office, VIP tier and device type', async () => {
+    await flags.upsertFlag(
+      flag({
+        rules: [
+          { attribute: 'agentId', operator: 'not_in', values: ['BLOCKED'] },
+          { attribute: 'office', operator: 'in', values: ['Miami', 'Lima'] },
+          { attribute: 'vipTier', operator: 'gte', values: [3] },
+          { attribute: 'deviceType', operator: 'in', values: ['mobile', 'telegram'] },
+        ],
+      }),
+      admin
+    );
+
+    const vip = { userId: 'C1', agentId: 'AG1', office: 'miami', vipTier: 4, deviceType: 'mobile' };
+    expect(flags.evaluate('new_cashier', vip)).toMatchObject({ enabled: true, reason: 'enabled' });
+
+    const desktop = flags.evaluate('new_cashier', { ...vip, deviceType: 'desktop' });
+    expect(desktop.reason).toBe('rule_mismatch');
+    expect(desktop.rule?.attribute).toBe('deviceType');
+    expect(flags.isEnabled('new_cashier', { ...vip, vipTier: 2 })).toBe(false);
+    expect(flags.isEnabled('new_cashier', { ...vip, office: 'Quito' })).toBe(false);
+    expect(flags.isEnabled('new_cashier', { ...vip, agentId: 'BLOCKED' })).toBe(false);
+    expect(flags.isEnabled('new_cashier', { userId: 'C1' })).toBe(false);
+  });
+
+  test('should restrict whitelisted flags to the listed users', async () => {
+    await flags.upsertFlag(flag({ userWhitelist: ['C1'] }), admin);
+
+    expect(flags.isEnabled('new_cashier', 'C1')).toBe(true);
+    expect(flags.evaluate('new_cashier', { userId: 'C2' }).reason).toBe('not_whitelisted');
+    expect(flags.evaluate('missing', { userId: 'C1' }).reason).toBe('not_found');
+  });
+
+  test('should reject stale and invalid changes', async () => {
+    const created = await flags.upsertFlag(flag(), admin);
+    expect(created.version).toBe(1);
+
+    await flags.upsertFlag(flag({ enabled: false }), { ...admin, expectedVersion: 1 });
+    await expect(
+      flags.upsertFlag(flag({ enabled: true }), { ...admin, expectedVersion: 1 })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    await expect(
+      flags.upsertFlag(flag({ rolloutPercentage: 150 }), admin)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(flags.deleteFlag('missing', admin)).rejects.toMatchObject({ statusCode: 404 });
+
+    expect(flags.getFlag('new_cashier')).toMatchObject({ enabled: false, version: 2 });
+  });
+});
+
+describe('SqlFeatureFlagStore', () => {
+  test('should persist flags and their audit trail across service instances', async () => {
+    const db = new Database(':memory:');
+    const first = new FeatureFlagsService({ store: new SqlFeatureFlagStore(db) });
+    await first.initialize();
+    expect(first.getFlag('new-dashboard')).toBeDefined();
+
+    await first.upsertFlag(flag({ rolloutPercentage: 10 }), { actor: 'admin-1', reason: 'pilot' });
+    await first.updateFlag('new_cashier', { rolloutPercentage: 50 }, { actor: 'admin-2' });
+    await first.deleteFlag('new-dashboard', { actor: 'admin-1', reason: 'shipped' });
+
+    const second = new FeatureFlagsService({ store: new SqlFeatureFlagStore(db) });
+    await second.initialize();
+    expect(second.getFlag('new_cashier')).toMatchObject({
+      rolloutPercentage: 50,
+      version: 2,
+      updatedBy: 'admin-2',
+    });
+    // Deleted defaults stay deleted
+    expect(second.getFlag('new-dashboard')).toBeUndefined();
+
+    const trail = await second.getAuditTrail('new_cashier');
+    expect(trail.map(entry => [entry.action, entry.actor])).toEqual([
+      ['update', 'admin-2'],
+      ['create', 'admin-1'],
+    ]);
+    expect(trail[0].before?.rolloutPercentage).toBe(10);
+    expect(trail[0].after?.rolloutPercentage).toBe(50);
+    expect(trail[1].reason).toBe('pilot');
+
+    const [latest] = await second.getAuditTrail(undefined, 1);
+    expect(latest).toMatchObject({ flag: 'new-dashboard', action: 'delete' });
+    db.close();
+  });
+});
+
+describe('Feature flags SDK', () => {
+  test('should bind a context for worker handlers and Telegram bots', async () => {
+    const flags = new FeatureFlagsService({ defaults: [] });
+    await flags.upsertFlag(
+      flag({ rules: [{ attribute: 'deviceType', operator: 'in', values: ['telegram'] }] }),
+      admin
+    );
+    await flags.upsertFlag(flag({ name: 'linked_only', userWhitelist: ['C7'] }), admin);
+
+    const linked = flagsForTelegramUser(flags, { id: 42, customerId: 'C7' });
+    expect(linked.context.userId).toBe('C7');
+    expect(linked.all()).toEqual({ new_cashier: true, linked_only: true });
+
+    const guest = flagsForTelegramUser(flags, { id: 42 });
+    expect(guest.context.userId).toBe('telegram:42');
+    expect(guest.isEnabled('linked_only')).toBe(false);
+
+    const web = bindFlags(flags, { userId: 'C7', deviceType: 'desktop' });
+    expect(web.isEnabled('new_cashier')).toBe(false);
+    expect(web.isEnabled('new_cashier', { deviceType: 'telegram' })).toBe(true);
+  });
+});
@@ -0,0 +1,1159 @@
+/**
+ * Fire22 Dashboard Worker API client (v1.0.0)
+ *
+ * GENERATED from the OpenAPI spec built from the route contracts.
+ * Do not edit by hand: run `bun run api:client:generate` to update it.
+ */
+
+import {
+  ApiTransport,
+  paginate,
+  type ApiTransportOptions,
+  type RequestOptions,
+} from './runtime';
+
+export {
+  ApiError,
+  ApiTransport,
+  hasNextPage,
+  type ApiTransportOptions,
+  type RequestOptions,
+} from './runtime';
+
+// !== POST /api/financial/queue/deposit !==
+
+export type PostFinancialQueueDepositBody = {
+  customerId: string;
+  amount: number;
+  method: string;
+  reference?: string;
+};
+
+export interface PostFinancialQueueDepositInput {
+  body: PostFinancialQueueDepositBody;
+}
+
+/** Process a deposit */
+export type PostFinancialQueueDepositResponse = {
+  success: true;
+  depositId: string;
+  status: 'processed';
+  message: string;
+};
+
+// !== GET /api/financial/queue/stats !==
+
+/** Withdrawal and deposit queue counts */
+export type GetFinancialQueueStatsResponse = {
+  success: true;
+  data: {
+    withdrawals: {
+      pending: number;
+      processing: number;
+      completed: number;
+    };
+    deposits: {
+      pending: number;
+      processing: number;
+      completed: number;
+    };
+  };
+};
+
+// !== GET /api/financial/transactions !==
+
+export type GetFinancialTransactionsQuery = {
+  customerId?: string;
+  type?: 'all' | 'deposit' | 'withdrawal' | 'transfer' | 'bonus' | 'adjustment';
+  status?: 'all' | 'pending' | 'completed' | 'failed';
+  page?: number;
+  limit?: number;
+  startDate?: string;
+  endDate?: string;
+};
+
+export interface GetFinancialTransactionsInput {
+  query?: GetFinancialTransactionsQuery;
+}
+
+export type GetFinancialTransactionsPageInput = Omit<GetFinancialTransactionsInput, 'query'> & {
+  query?: Omit<GetFinancialTransactionsQuery, 'page'>;
+};
+
+/** Transaction history */
+export type GetFinancialTransactionsResponse = {
+  success: true;
+  data: {
+    transactions: Array<{
+      id: string;
+      customerId: string;
+      type: string;
+      amount: number;
+      currency: string;
+      method: string;
+      status: string;
+      description: string;
+      reference: string;
+      timestamp: string;
+      fee: number;
+      netAmount: number;
+      metadata?: Record<string, unknown>;
+      [key: string]: unknown;
+    }>;
+    summary: {
+      totalTransactions: number;
+      totalDeposits: number;
+      totalWithdrawals: number;
+      totalAmount: number;
+      pendingTransactions: number;
+      completedTransactions: number;
+      averageTransactionAmount: number;
+    };
+    pagination: {
+      page: number;
+      limit: number;
+      totalTransactions: number;
+      totalPages: number;
+      hasNextPage: boolean;
+      hasPrevPage: boolean;
+    };
+    filters: {
+      customerId: string | null;
+      type: string;
+      status: string;
+      dateRange: {
+        startDate: string;
+        endDate: string;
+      } | null;
+    };
+  };
+};
+
+// !== GET /api/financial/withdrawals !==
+
+export type GetFinancialWithdrawalsQuery = {
+  customerId?: string;
+  page?: number;
+  limit?: number;
+};
+
+export interface GetFinancialWithdrawalsInput {
+  query?: GetFinancialWithdrawalsQuery;
+}
+
+export type GetFinancialWithdrawalsPageInput = Omit<GetFinancialWithdrawalsInput, 'query'> & {
+  query?: Omit<GetFinancialWithdrawalsQuery, 'page'>;
+};
+
+/** Withdrawal history */
+export type GetFinancialWithdrawalsResponse = {
+  success: true;
+  data: {
+    withdrawals: Array<Record<string, unknown>>;
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  };
+};
+
+// !== POST /api/financial/withdrawals/approve !==
+
+export type PostFinancialWithdrawalsApproveBody = {
+  withdrawalId: string;
+  approverNotes?: string;
+};
+
+export interface PostFinancialWithdrawalsApproveInput {
+  body: PostFinancialWithdrawalsApproveBody;
+}
+
+/** Approve a pending withdrawal */
+export type PostFinancialWithdrawalsApproveResponse = {
+  success: true;
+  withdrawalId: string;
+  status: 'pending' | 'approved' | 'completed' | 'rejected';
+  transactionHash?: string;
+  reason?: string;
+  message: string;
+};
+
+// !== POST /api/financial/withdrawals/complete !==
+
+export type PostFinancialWithdrawalsCompleteBody = {
+  withdrawalId: string;
+  transactionHash?: string;
+};
+
+export interface PostFinancialWithdrawalsCompleteInput {
+  body: PostFinancialWithdrawalsCompleteBody;
+}
+
+/** Mark an approved withdrawal as paid out */
+export type PostFinancialWithdrawalsCompleteResponse = {
+  success: true;
+  withdrawalId: string;
+  status: 'pending' | 'approved' | 'completed' | 'rejected';
+  transactionHash?: string;
+  reason?: string;
+  message: string;
+};
+
+// !== GET /api/financial/withdrawals/pending !==
+
+export type GetFinancialWithdrawalsPendingQuery = {
+  agentId?: string;
+};
+
+export interface GetFinancialWithdrawalsPendingInput {
+  query?: GetFinancialWithdrawalsPendingQuery;
+}
+
+/** List withdrawals awaiting approval */
+export type GetFinancialWithdrawalsPendingResponse = {
+  success: true;
+  data: {
+    withdrawals: Array<Record<string, unknown>>;
+    count: number;
+    totalAmount: number;
+  };
+};
+
+// !== POST /api/financial/withdrawals/reject !==
+
+export type PostFinancialWithdrawalsRejectBody = {
+  withdrawalId: string;
+  reason: string;
+};
+
+export interface PostFinancialWithdrawalsRejectInput {
+  body: PostFinancialWithdrawalsRejectBody;
+}
+
+/** Reject a pending withdrawal */
+export type PostFinancialWithdrawalsRejectResponse = {
+  success: true;
+  withdrawalId: string;
+  status: 'pending' | 'approved' | 'completed' | 'rejected';
+  transactionHash?: string;
+  reason?: string;
+  message: string;
+};
+
+// !== POST /api/financial/withdrawals/request !==
+
+export type PostFinancialWithdrawalsRequestBody = {
+  customerId: string;
+  amount: number;
+  method: string;
+};
+
+export interface PostFinancialWithdrawalsRequestInput {
+  body: PostFinancialWithdrawalsRequestBody;
+}
+
+/** Request a withdrawal */
+export type PostFinancialWithdrawalsRequestResponse = {
+  success: true;
+  withdrawalId: string;
+  status: 'pending' | 'approved' | 'completed' | 'rejected';
+  transactionHash?: string;
+  reason?: string;
+  message: string;
+};
+
+// !== GET /api/manager/getAgentKPI !==
+
+export type GetManagerGetAgentKPIQuery = {
+  agentID?: string;
+};
+
+export interface GetManagerGetAgentKPIInput {
+  query?: GetManagerGetAgentKPIQuery;
+}
+
+/** Agent KPIs */
+export type GetManagerGetAgentKPIResponse = Record<string, unknown>;
+
+// !== GET /api/manager/getAgentPerformance !==
+
+export type GetManagerGetAgentPerformanceQuery = {
+  agentID?: string;
+  period?: 'daily' | 'weekly' | 'monthly';
+};
+
+export interface GetManagerGetAgentPerformanceInput {
+  query?: GetManagerGetAgentPerformanceQuery;
+}
+
+/** Agent performance over a period */
+export type GetManagerGetAgentPerformanceResponse = Record<string, unknown>;
+
+// !== POST /api/manager/getAgentPerformance !==
+
+export type PostManagerGetAgentPerformanceQuery = {
+  agentID?: string;
+  period?: 'daily' | 'weekly' | 'monthly';
+};
+
+export interface PostManagerGetAgentPerformanceInput {
+  query?: PostManagerGetAgentPerformanceQuery;
+}
+
+/** Agent performance over a period */
+export type PostManagerGetAgentPerformanceResponse = Record<string, unknown>;
+
+// !== GET /api/manager/getBetTicker !==
+
+/** Latest bets ticker */
+export type GetManagerGetBetTickerResponse = {
+  success: true;
+  data: {
+    bets: Array<Record<string, unknown>>;
+    timestamp: string;
+  };
+};
+
+// !== POST /api/manager/getCryptoInfo !==
+
+export type PostManagerGetCryptoInfoBody = {
+  account: string;
+  operation?: string;
+  RRO?: number;
+  agentID?: string;
+  agentOwner?: string;
+  agentSite?: number;
+};
+
+export interface PostManagerGetCryptoInfoInput {
+  body: PostManagerGetCryptoInfoBody;
+}
+
+/** Cryptocurrency account information */
+export type PostManagerGetCryptoInfoResponse = Record<string, unknown>;
+
+// !== GET /api/manager/getCustomerDetails !==
+
+export type GetManagerGetCustomerDetailsQuery = {
+  customerID?: string;
+};
+
+export interface GetManagerGetCustomerDetailsInput {
+  query?: GetManagerGetCustomerDetailsQuery;
+}
+
+/** Customer details */
+export type GetManagerGetCustomerDetailsResponse = Record<string, unknown>;
+
+// !== GET /api/manager/getCustomers !==
+
+export type GetManagerGetCustomersQuery = {
+  agentID?: string;
+};
+
+export interface GetManagerGetCustomersInput {
+  query?: GetManagerGetCustomersQuery;
+}
+
+/** Customers, optionally for one agent */
+export type GetManagerGetCustomersResponse = Record<string, unknown>;
+
+// !== GET /api/manager/getCustomersByAgent !==
+
+export type GetManagerGetCustomersByAgentQuery = {
+  agentID?: string;
+};
+
+export interface GetManagerGetCustomersByAgentInput {
+  query?: GetManagerGetCustomersByAgentQuery;
+}
+
+/** Customers of an agent */
+export type GetManagerGetCustomersByAgentResponse = Record<string, unknown>;
+
+// !== POST /api/manager/getInfoPlayer !==
+
+export type PostManagerGetInfoPlayerBody = {
+  customerID: string;
+  agentID?: string;
+  operation?: string;
+  RRO?: number;
+  agentOwner?: string;
+  agentSite?: number;
+};
+
+export interface PostManagerGetInfoPlayerInput {
+  body: PostManagerGetInfoPlayerBody;
+}
+
+/** Player information */
+export type PostManagerGetInfoPlayerResponse = Record<string, unknown>;
+
+// !== GET /api/manager/getLiveActivity !==
+
+/** Live activity feed */
+export type GetManagerGetLiveActivityResponse = {
+  success: true;
+  data: {
+    activity: Array<Record<string, unknown>>;
+    timestamp: string;
+  };
+};
+
+// !== GET /api/manager/getLiveWagers !==
+
+export type GetManagerGetLiveWagersQuery = {
+  agentID?: string;
+};
+
+export interface GetManagerGetLiveWagersInput {
+  query?: GetManagerGetLiveWagersQuery;
+}
+
+/** Open wagers for an agent */
+export type GetManagerGetLiveWagersResponse = Record<string, unknown>;
+
+// !== POST /api/manager/getLiveWagers !==
+
+export type PostManagerGetLiveWagersQuery = {
+  agentID?: string;
+};
+
+export interface PostManagerGetLiveWagersInput {
+  query?: PostManagerGetLiveWagersQuery;
+}
+
+/** Open wagers for an agent */
+export type PostManagerGetLiveWagersResponse = Record<string, unknown>;
+
+// !== POST /api/manager/getPending !==
+
+export type PostManagerGetPendingBody = {
+  agentID: string;
+};
+
+export interface PostManagerGetPendingInput {
+  body: PostManagerGetPendingBody;
+}
+
+/** Pending operations for an agent */
+export type PostManagerGetPendingResponse = {
+  success: true;
+  data: {
+    pending: Array<Record<string, unknown>>;
+    count: number;
+  };
+};
+
+// !== GET /api/manager/getSettings !==
+
+/** Manager settings */
+export type GetManagerGetSettingsResponse = {
+  success: true;
+  data: {
+    settings: Record<string, unknown>;
+    timestamp: string;
+  };
+};
+
+// !== GET /api/manager/getSportAnalytics !==
+
+/** Per-sport analytics */
+export type GetManagerGetSportAnalyticsResponse = {
+  success: true;
+  data: {
+    analytics: Record<string, unknown>;
+    timestamp: string;
+  };
+};
+
+// !== GET /api/manager/getTransactions !==
+
+export type GetManagerGetTransactionsQuery = {
+  agentID?: string;
+};
+
+export interface GetManagerGetTransactionsInput {
+  query?: GetManagerGetTransactionsQuery;
+}
+
+/** Agent transactions */
+export type GetManagerGetTransactionsResponse = {
+  success: true;
+  data: {
+    transactions: Array<Record<string, unknown>>;
+    count: number;
+  };
+};
+
+// !== GET /api/manager/getVIPCustomers !==
+
+/** VIP customers */
+export type GetManagerGetVIPCustomersResponse = {
+  success: true;
+  data: {
+    vipCustomers: Array<Record<string, unknown>>;
+    count: number;
+  };
+};
+
+// !== GET /api/manager/getWagerAlerts !==
+
+/** Wager alerts */
+export type GetManagerGetWagerAlertsResponse = {
+  success: true;
+  data: {
+    alerts: Array<Record<string, unknown>>;
+    count: number;
+  };
+};
+
+// !== POST /api/manager/getWeeklyFigureByAgent !==
+
+export type PostManagerGetWeeklyFigureByAgentBody = {
+  agentID: string;
+};
+
+export interface PostManagerGetWeeklyFigureByAgentInput {
+  body: PostManagerGetWeeklyFigureByAgentBody;
+}
+
+/** Weekly figures for an agent */
+export type PostManagerGetWeeklyFigureByAgentResponse = Record<string, unknown>;
+
+// !== POST /api/manager/getWeeklyFigureByAgentLite !==
+
+export type PostManagerGetWeeklyFigureByAgentLiteBody = {
+  agentID: string;
+  week?: number;
+  token?: string;
+  type?: string;
+  layout?: 'byDay' | 'byWeek';
+  operation?: string;
+  RRO?: number;
+  agentOwner?: string;
+  agentSite?: number;
+};
+
+export interface PostManagerGetWeeklyFigureByAgentLiteInput {
+  body: PostManagerGetWeeklyFigureByAgentLiteBody;
+}
+
+/** Weekly figures for an agent, reduced payload for faster loading */
+export type PostManagerGetWeeklyFigureByAgentLiteResponse = Record<string, unknown>;
+
+// !== CLIENT !==
+
+export class DashboardApiClient {
+  readonly transport: ApiTransport;
+
+  constructor(transport: ApiTransport | ApiTransportOptions) {
+    this.transport =
+      transport instanceof ApiTransport ? transport : new ApiTransport(transport);
+  }
+
+  /**
+   * Process a deposit
+   *
+   * `POST /api/financial/queue/deposit`
+   * Requires: financial.*
+   */
+  postFinancialQueueDeposit(
+    input: PostFinancialQueueDepositInput,
+    options?: RequestOptions
+  ): Promise<PostFinancialQueueDepositResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/financial/queue/deposit',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Withdrawal and deposit queue counts
+   *
+   * `GET /api/financial/queue/stats`
+   * Requires: financial.*
+   */
+  getFinancialQueueStats(options?: RequestOptions): Promise<GetFinancialQueueStatsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/financial/queue/stats',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Transaction history
+   *
+   * `GET /api/financial/transactions`
+   * Requires: financial.read, customer.*
+   */
+  getFinancialTransactions(
+    input: GetFinancialTransactionsInput = {},
+    options?: RequestOptions
+  ): Promise<GetFinancialTransactionsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/financial/transactions',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /** Every page of `getFinancialTransactions`, until the response reports no next page */
+  getFinancialTransactionsPages(
+    input: GetFinancialTransactionsPageInput = {},
+    options?: RequestOptions
+  ): AsyncGenerator<GetFinancialTransactionsResponse> {
+    return paginate(page =>
+      this.getFinancialTransactions({ ...input, query: { ...input.query, page } }, options)
+    );
+  }
+
+  /**
+   * Withdrawal history
+   *
+   * `GET /api/financial/withdrawals`
+   * Requires: financial.*
+   */
+  getFinancialWithdrawals(
+    input: GetFinancialWithdrawalsInput = {},
+    options?: RequestOptions
+  ): Promise<GetFinancialWithdrawalsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/financial/withdrawals',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /** Every page of `getFinancialWithdrawals`, until the response reports no next page */
+  getFinancialWithdrawalsPages(
+    input: GetFinancialWithdrawalsPageInput = {},
+    options?: RequestOptions
+  ): AsyncGenerator<GetFinancialWithdrawalsResponse> {
+    return paginate(page =>
+      this.getFinancialWithdrawals({ ...input, query: { ...input.query, page } }, options)
+    );
+  }
+
+  /**
+   * Approve a pending withdrawal
+   *
+   * `POST /api/financial/withdrawals/approve`
+   * Requires: financial.*
+   */
+  postFinancialWithdrawalsApprove(
+    input: PostFinancialWithdrawalsApproveInput,
+    options?: RequestOptions
+  ): Promise<PostFinancialWithdrawalsApproveResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/financial/withdrawals/approve',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Mark an approved withdrawal as paid out
+   *
+   * `POST /api/financial/withdrawals/complete`
+   * Requires: financial.*
+   */
+  postFinancialWithdrawalsComplete(
+    input: PostFinancialWithdrawalsCompleteInput,
+    options?: RequestOptions
+  ): Promise<PostFinancialWithdrawalsCompleteResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/financial/withdrawals/complete',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * List withdrawals awaiting approval
+   *
+   * `GET /api/financial/withdrawals/pending`
+   * Requires: financial.*
+   */
+  getFinancialWithdrawalsPending(
+    input: GetFinancialWithdrawalsPendingInput = {},
+    options?: RequestOptions
+  ): Promise<GetFinancialWithdrawalsPendingResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/financial/withdrawals/pending',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Reject a pending withdrawal
+   *
+   * `POST /api/financial/withdrawals/reject`
+   * Requires: financial.*
+   */
+  postFinancialWithdrawalsReject(
+    input: PostFinancialWithdrawalsRejectInput,
+    options?: RequestOptions
+  ): Promise<PostFinancialWithdrawalsRejectResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/financial/withdrawals/reject',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Request a withdrawal
+   *
+   * `POST /api/financial/withdrawals/request`
+   * Requires: financial.*
+   */
+  postFinancialWithdrawalsRequest(
+    input: PostFinancialWithdrawalsRequestInput,
+    options?: RequestOptions
+  ): Promise<PostFinancialWithdrawalsRequestResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/financial/withdrawals/request',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Agent KPIs
+   *
+   * `GET /api/manager/getAgentKPI`
+   * Requires: manager.*
+   */
+  getManagerGetAgentKPI(
+    input: GetManagerGetAgentKPIInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetAgentKPIResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getAgentKPI',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Agent performance over a period
+   *
+   * `GET /api/manager/getAgentPerformance`
+   * Requires: manager.agent.performance
+   */
+  getManagerGetAgentPerformance(
+    input: GetManagerGetAgentPerformanceInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetAgentPerformanceResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getAgentPerformance',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Agent performance over a period
+   *
+   * `POST /api/manager/getAgentPerformance`
+   * Requires: manager.agent.performance
+   */
+  postManagerGetAgentPerformance(
+    input: PostManagerGetAgentPerformanceInput = {},
+    options?: RequestOptions
+  ): Promise<PostManagerGetAgentPerformanceResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getAgentPerformance',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Latest bets ticker
+   *
+   * `GET /api/manager/getBetTicker`
+   * Requires: manager.*
+   */
+  getManagerGetBetTicker(options?: RequestOptions): Promise<GetManagerGetBetTickerResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getBetTicker',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Cryptocurrency account information
+   *
+   * `POST /api/manager/getCryptoInfo`
+   * Requires: manager.*
+   */
+  postManagerGetCryptoInfo(
+    input: PostManagerGetCryptoInfoInput,
+    options?: RequestOptions
+  ): Promise<PostManagerGetCryptoInfoResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getCryptoInfo',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Customer details
+   *
+   * `GET /api/manager/getCustomerDetails`
+   * Requires: manager.*
+   */
+  getManagerGetCustomerDetails(
+    input: GetManagerGetCustomerDetailsInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetCustomerDetailsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getCustomerDetails',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Customers, optionally for one agent
+   *
+   * `GET /api/manager/getCustomers`
+   * Requires: manager.customer.list
+   */
+  getManagerGetCustomers(
+    input: GetManagerGetCustomersInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetCustomersResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getCustomers',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Customers of an agent
+   *
+   * `GET /api/manager/getCustomersByAgent`
+   * Requires: manager.customer.list
+   */
+  getManagerGetCustomersByAgent(
+    input: GetManagerGetCustomersByAgentInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetCustomersByAgentResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getCustomersByAgent',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Player information
+   *
+   * `POST /api/manager/getInfoPlayer`
+   * Requires: manager.*
+   */
+  postManagerGetInfoPlayer(
+    input: PostManagerGetInfoPlayerInput,
+    options?: RequestOptions
+  ): Promise<PostManagerGetInfoPlayerResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getInfoPlayer',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Live activity feed
+   *
+   * `GET /api/manager/getLiveActivity`
+   * Requires: manager.*
+   */
+  getManagerGetLiveActivity(options?: RequestOptions): Promise<GetManagerGetLiveActivityResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getLiveActivity',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Open wagers for an agent
+   *
+   * `GET /api/manager/getLiveWagers`
+   * Requires: manager.wager.view_live
+   */
+  getManagerGetLiveWagers(
+    input: GetManagerGetLiveWagersInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetLiveWagersResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getLiveWagers',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Open wagers for an agent
+   *
+   * `POST /api/manager/getLiveWagers`
+   * Requires: manager.wager.view_live
+   */
+  postManagerGetLiveWagers(
+    input: PostManagerGetLiveWagersInput = {},
+    options?: RequestOptions
+  ): Promise<PostManagerGetLiveWagersResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getLiveWagers',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Pending operations for an agent
+   *
+   * `POST /api/manager/getPending`
+   * Requires: manager.*
+   */
+  postManagerGetPending(
+    input: PostManagerGetPendingInput,
+    options?: RequestOptions
+  ): Promise<PostManagerGetPendingResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getPending',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Manager settings
+   *
+   * `GET /api/manager/getSettings`
+   * Requires: manager.*
+   */
+  getManagerGetSettings(options?: RequestOptions): Promise<GetManagerGetSettingsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getSettings',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Per-sport analytics
+   *
+   * `GET /api/manager/getSportAnalytics`
+   * Requires: manager.*
+   */
+  getManagerGetSportAnalytics(
+    options?: RequestOptions
+  ): Promise<GetManagerGetSportAnalyticsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getSportAnalytics',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Agent transactions
+   *
+   * `GET /api/manager/getTransactions`
+   * Requires: manager.*
+   */
+  getManagerGetTransactions(
+    input: GetManagerGetTransactionsInput = {},
+    options?: RequestOptions
+  ): Promise<GetManagerGetTransactionsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getTransactions',
+        query: input.query,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * VIP customers
+   *
+   * `GET /api/manager/getVIPCustomers`
+   * Requires: manager.*
+   */
+  getManagerGetVIPCustomers(options?: RequestOptions): Promise<GetManagerGetVIPCustomersResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getVIPCustomers',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Wager alerts
+   *
+   * `GET /api/manager/getWagerAlerts`
+   * Requires: manager.*
+   */
+  getManagerGetWagerAlerts(options?: RequestOptions): Promise<GetManagerGetWagerAlertsResponse> {
+    return this.transport.request(
+      {
+        method: 'GET',
+        path: '/api/manager/getWagerAlerts',
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Weekly figures for an agent
+   *
+   * `POST /api/manager/getWeeklyFigureByAgent`
+   * Requires: manager.reports.weekly
+   */
+  postManagerGetWeeklyFigureByAgent(
+    input: PostManagerGetWeeklyFigureByAgentInput,
+    options?: RequestOptions
+  ): Promise<PostManagerGetWeeklyFigureByAgentResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getWeeklyFigureByAgent',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+
+  /**
+   * Weekly figures for an agent, reduced payload for faster loading
+   *
+   * `POST /api/manager/getWeeklyFigureByAgentLite`
+   * Requires: manager.reports.weekly
+   */
+  postManagerGetWeeklyFigureByAgentLite(
+    input: PostManagerGetWeeklyFigureByAgentLiteInput,
+    options?: RequestOptions
+  ): Promise<PostManagerGetWeeklyFigureByAgentLiteResponse> {
+    return this.transport.request(
+      {
+        method: 'POST',
+        path: '/api/manager/getWeeklyFigureByAgentLite',
+        body: input.body,
+        auth: true,
+      },
+      options
+    );
+  }
+}
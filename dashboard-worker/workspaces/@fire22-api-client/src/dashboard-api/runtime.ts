@@ -0,0 +1,221 @@
+/**
+ * Dashboard API transport
+ *
+ * The hand-written half of the dashboard API client: auth header injection,
+ * retries that honour `Retry-After`, and page iteration. The generated
+ * client (client.ts) only describes routes and calls into this.
+ */
+
+export type TokenSource = string | (() => string | undefined | Promise<string | undefined>);
+
+export interface ApiTransportOptions {
+  /** Origin the `/api/...` paths are resolved against */
+  baseUrl: string;
+  /** Bearer token, or a function returning the current one */
+  token?: TokenSource;
+  /** Retries after the first attempt for 429/502/503/504 and network errors */
+  retries?: number;
+  /** First backoff when the server sends no Retry-After; doubles per attempt */
+  retryDelayMs?: number;
+  /** Longest wait accepted from a Retry-After header */
+  maxRetryDelayMs?: number;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+  /** Injected for tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  /** Sent as `Idempotency-Key`; also makes non-GET requests safe to retry */
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+}
+
+export interface ApiRequest {
+  method: string;
+  /** Path template with `{param}` segments */
+  path: string;
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  /** Whether the route requires the bearer token */
+  auth: boolean;
+}
+
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body: unknown,
+    public response?: Response
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ApiTransport {
+  private options: Required<Omit<ApiTransportOptions, 'token'>> & { token?: TokenSource };
+
+  constructor(options: ApiTransportOptions) {
+    this.options = {
+      retries: 2,
+      retryDelayMs: 250,
+      maxRetryDelayMs: 30_000,
+      headers: {},
+      fetch: (input, init) => fetch(input, init),
+      sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+      ...options,
+    };
+  }
+
+  async request<T>(request: ApiRequest, options: RequestOptions = {}): Promise<T> {
+    const url = this.url(request);
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...this.options.headers,
+      ...options.headers,
+    };
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+    if (request.auth) {
+      const token = await this.token();
+      if (token) headers.Authorization = `Bearer ${token}`;
+    }
+
+    // Replaying a write is only safe when the server can deduplicate it
+    const retryable =
+      request.method === 'GET' || request.method === 'HEAD' || 'Idempotency-Key' in headers;
+    const attempts = retryable ? this.options.retries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.options.fetch(url, {
+          method: request.method,
+          headers,
+          body: request.body === undefined ? undefined : JSON.stringify(request.body),
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (attempt >= attempts || options.signal?.aborted) throw error;
+        await this.options.sleep(this.backoff(attempt));
+        continue;
+      }
+
+      if (response.ok) {
+        return (await readBody(response)) as T;
+      }
+      if (attempt < attempts && RETRYABLE_STATUS.has(response.status)) {
+        await this.options.sleep(this.retryDelay(response, attempt));
+        continue;
+      }
+
+      const body = await readBody(response);
+      throw new ApiError(
+        `${request.method} ${request.path} failed with ${response.status}`,
+        response.status,
+        body,
+        response
+      );
+    }
+  }
+
+  private url(request: ApiRequest): string {
+    const path = request.path.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = request.params?.[name];
+      if (value === undefined || value === null) {
+        throw new Error(`Missing path parameter "${name}" for ${request.path}`);
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    const url = new URL(path, this.options.baseUrl);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      if (value === undefined || value === null) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        url.searchParams.append(key, String(item));
+      }
+    }
+    return url.toString();
+  }
+
+  private async token(): Promise<string | undefined> {
+    const { token } = this.options;
+    return typeof token === 'function' ? token() : token;
+  }
+
+  /**
+   * Retry-After may be delta-seconds or an HTTP date; without it, back off
+   */
+  private retryDelay(response: Response, attempt: number): number {
+    const header = response.headers.get('Retry-After');
+    if (header) {
+      const seconds = Number(header);
+      const delay = Number.isFinite(seconds)
+        ? seconds * 1000
+        : new Date(header).getTime() - Date.now();
+      if (!Number.isNaN(delay)) {
+        return Math.min(Math.max(delay, 0), this.options.maxRetryDelayMs);
+      }
+    }
+    return this.backoff(attempt);
+  }
+
+  private backoff(attempt: number): number {
+    return this.options.retryDelayMs * 2 ** (attempt - 1);
+  }
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return undefined;
+  const type = response.headers.get('Content-Type') ?? '';
+  if (!type.includes('json')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// !== PAGINATION !==
+
+/**
+ * Whether a page response says more pages follow. Understands the
+ * `pagination` blocks the dashboard API returns (`hasNextPage`, or
+ * `page`/`totalPages`) at the top level or under `data`.
+ */
+export function hasNextPage(response: unknown): boolean {
+  const root = response as Record<string, any> | undefined;
+  const pagination = root?.data?.pagination ?? root?.pagination;
+  if (!pagination) return false;
+  if (typeof pagination.hasNextPage === 'boolean') return pagination.hasNextPage;
+  if (typeof pagination.hasMore === 'boolean') return pagination.hasMore;
+  return (
+    typeof pagination.page === 'number' &&
+    typeof pagination.totalPages === 'number' &&
+    pagination.page < pagination.totalPages
+  );
+}
+
+/**
+ * Walk a page-numbered endpoint, yielding each page response in turn
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<T>,
+  firstPage = 1
+): AsyncGenerator<T> {
+  for (let page = firstPage; ; page++) {
+    const response = await fetchPage(page);
+    yield response;
+    if (!hasNextPage(response)) return;
+  }
+}
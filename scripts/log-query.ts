@@ -0,0 +1,89 @@
+#!/usr/bin/env bun
+/**
+ * 🔎 Fire22 Log Query
+ *
+ * Search the NDJSON logs written by RotatingFileTransport (including
+ * gzipped rotations) instead of grepping console output.
+ *
+ * Usage:
+ *   bun scripts/log-query.ts [paths...] [options]
+ *
+ * Options:
+ *   --correlation-id <id>   Trace a single request / deposit flow
+ *   --domain <name>         e.g. collections, settlement
+ *   --category <name>       business, audit, security, ... (repeatable)
+ *   --level <name>          Minimum level: debug, info, warn, error, critical
+ *   --since <time>          30m, 2h, 7d or ISO timestamp
+ *   --until <time>          30m, 2h, 7d or ISO timestamp
+ *   --grep <text>           Substring of the message
+ *   --limit <n>             Most recent N matches (default 200)
+ *   --json                  Print NDJSON instead of formatted lines
+ *
+ * Example:
+ *   bun scripts/log-query.ts ./logs --domain collections --correlation-id req_123 --since 1d
+ */
+
+import { parseArgs } from "node:util";
+import { LogFormatter } from "../src/core/logging/domain-logger";
+import {
+  parseLogCategory,
+  parseLogLevel,
+  parseTimeBound,
+  queryLogs,
+  type LogQuery,
+} from "../src/core/logging/log-query";
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      "correlation-id": { type: "string" },
+      domain: { type: "string" },
+      category: { type: "string", multiple: true },
+      level: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      grep: { type: "string" },
+      limit: { type: "string", default: "200" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log("Usage: bun scripts/log-query.ts [paths...] [--correlation-id id] [--domain name] [--category name] [--level warn] [--since 2h] [--until ISO] [--grep text] [--limit n] [--json]");
+    return;
+  }
+
+  const query: LogQuery = {
+    correlationId: values["correlation-id"],
+    domain: values.domain,
+    categories: values.category?.map(parseLogCategory),
+    minLevel: values.level ? parseLogLevel(values.level) : undefined,
+    from: values.since ? parseTimeBound(values.since) : undefined,
+    to: values.until ? parseTimeBound(values.until) : undefined,
+    text: values.grep,
+    limit: parseInt(values.limit!, 10),
+  };
+
+  const paths = positionals.length > 0 ? positionals : ["./logs"];
+  const result = await queryLogs(paths, query);
+
+  for (const entry of result.entries) {
+    console.log(values.json ? JSON.stringify(entry) : LogFormatter.format(entry));
+  }
+
+  console.error(
+    `\n${result.entries.length} matches (${result.scannedEntries} entries in ${result.scannedFiles} files` +
+      (result.malformedLines ? `, ${result.malformedLines} malformed lines skipped` : "") +
+      ")",
+  );
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("❌ Log query failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
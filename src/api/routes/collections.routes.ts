@@ -0,0 +1,71 @@
+/**
+ * Collections API Routes
+ *
+ * Bank statement import and the reconciliation queues it feeds
+ */
+
+import { CollectionsController } from '../../domains/collections/collections-controller';
+import type { MatchQueue } from '../../domains/collections/reconciliation/matching-engine';
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-cache, no-store, must-revalidate'
+};
+
+function json(body: { success: boolean; error?: { code: string } }, okStatus: number = 200): Response {
+  const status = body.success
+    ? okStatus
+    : body.error?.code === 'VALIDATION_ERROR'
+      ? 400
+      : body.error?.code === 'ENTITY_NOT_FOUND'
+        ? 404
+        : body.error?.code === 'BUSINESS_RULE_VIOLATION'
+          ? 409
+          : 500;
+  return new Response(JSON.stringify(body), { status, headers: JSON_HEADERS });
+}
+
+export async function handleCollectionsRoutes(
+  url: URL,
+  request: Request,
+  controller: CollectionsController
+): Promise<Response | null> {
+  const pathname = url.pathname;
+
+  // POST /api/collections/statements  { format, content, mapping? }
+  // Raw MT940 / CAMT.053 bodies are accepted with ?format=
+  if (pathname === '/api/collections/statements' && request.method === 'POST') {
+    const contentType = request.headers.get('Content-Type') || '';
+    const body = contentType.includes('application/json')
+      ? await request.json().catch(() => ({}))
+      : { format: url.searchParams.get('format'), content: await request.text() };
+
+    return json(await controller.importBankStatement(body), 201);
+  }
+
+  // GET /api/collections/reconciliation?queue=suggested&limit=50
+  if (pathname === '/api/collections/reconciliation' && request.method === 'GET') {
+    const queue = (url.searchParams.get('queue') || undefined) as MatchQueue | undefined;
+    const limit = parseInt(url.searchParams.get('limit') || '100');
+    return json(await controller.getReconciliationQueue(queue, limit));
+  }
+
+  // POST /api/collections/reconciliation/:lineId/(confirm|reject)  { resolvedBy, target? }
+  const resolveMatch = pathname.match(/^\/api\/collections\/reconciliation\/([^/]+)\/(confirm|reject)$/);
+  if (resolveMatch && request.method === 'POST') {
+    const [, lineId, action] = resolveMatch;
+    const body = await request.json().catch(() => ({}));
+
+    return json(
+      await controller.resolveStatementLine({
+        lineId: decodeURIComponent(lineId),
+        action: action as 'confirm' | 'reject',
+        resolvedBy: body.resolvedBy,
+        target: body.target
+      })
+    );
+  }
+
+  // Not a collections route
+  return null;
+}
@@ -0,0 +1,47 @@
+/**
+ * Ledger API Routes
+ *
+ * Finance endpoints proving the double-entry books sum to zero
+ */
+
+import { BalanceController } from '../../domains/balance/balance.controller';
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-cache, no-store, must-revalidate'
+};
+
+export async function handleLedgerRoutes(
+  url: URL,
+  request: Request,
+  controller: BalanceController
+): Promise<Response | null> {
+  const pathname = url.pathname;
+
+  if (request.method !== 'GET') {
+    return null;
+  }
+
+  // GET /api/ledger/trial-balance?currency=USD
+  if (pathname === '/api/ledger/trial-balance') {
+    const currency = (url.searchParams.get('currency') || 'USD').toUpperCase();
+    const result = await controller.getTrialBalance(currency);
+    return new Response(JSON.stringify(result), {
+      status: result.success ? 200 : 500,
+      headers: JSON_HEADERS
+    });
+  }
+
+  // GET /api/ledger/integrity
+  if (pathname === '/api/ledger/integrity') {
+    const result = await controller.checkLedgerIntegrity();
+    const status = !result.success ? 500 : result.report!.healthy ? 200 : 409;
+    return new Response(JSON.stringify(result), {
+      status,
+      headers: JSON_HEADERS
+    });
+  }
+
+  // Not a ledger route
+  return null;
+}
@@ -0,0 +1,118 @@
+/**
+ * Workflow API Routes
+ *
+ * Query persisted workflow instances and deliver signals such as approvals.
+ * Every route needs a valid JWT; signals and cancellations also need an
+ * approver permission, and are recorded against the authenticated user.
+ */
+
+import { EventWorkflows } from '../../domains/shared/events/event-workflows';
+import type { WorkflowStatus } from '../../domains/shared/events/workflow-store';
+import {
+  authenticate,
+  type AuthenticatedRequest
+} from '../../../dashboard-worker/src/api/middleware/auth.middleware';
+import { authorize } from '../../../dashboard-worker/src/api/middleware/authorize.middleware';
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json',
+  'Cache-Control': 'no-cache, no-store, must-revalidate'
+};
+
+const WORKFLOW_STATUSES: WorkflowStatus[] = ['running', 'waiting', 'completed', 'failed'];
+
+const requireApprover = authorize({ anyPermissions: ['withdrawals.approve', 'admin.*'] });
+
+function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: JSON_HEADERS });
+}
+
+export async function handleWorkflowRoutes(
+  url: URL,
+  request: Request,
+  workflows: EventWorkflows
+): Promise<Response | null> {
+  const pathname = url.pathname;
+  if (!pathname.startsWith('/api/workflows')) {
+    return null;
+  }
+
+  const authRequest = request as AuthenticatedRequest;
+  const unauthenticated = await authenticate(authRequest);
+  if (unauthenticated) {
+    return unauthenticated;
+  }
+
+  // GET /api/workflows?status=waiting,failed&name=large_withdrawal_approval&limit=50
+  if (pathname === '/api/workflows' && request.method === 'GET') {
+    const statusParam = url.searchParams.get('status');
+    const statuses = statusParam
+      ? (statusParam.split(',') as WorkflowStatus[])
+      : undefined;
+
+    if (statuses?.some(status => !WORKFLOW_STATUSES.includes(status))) {
+      return json({ success: false, error: `status must be one of ${WORKFLOW_STATUSES.join(', ')}` }, 400);
+    }
+
+    const instances = workflows.listInstances({
+      status: statuses,
+      workflowName: url.searchParams.get('name') || undefined,
+      limit: parseInt(url.searchParams.get('limit') || '100')
+    });
+    return json({ success: true, instances });
+  }
+
+  // POST /api/workflows/:workflowId/signals/:signal
+  const signalMatch = pathname.match(/^\/api\/workflows\/([^/]+)\/signals\/([^/]+)$/);
+  if (signalMatch && request.method === 'POST') {
+    const forbidden = await requireApprover(authRequest);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const [, workflowId, signal] = signalMatch;
+    const payload = await request.json().catch(() => ({}));
+
+    try {
+      // The decision is attributed to the caller, never to the request body
+      const instance = await workflows.signal(workflowId, signal, {
+        ...payload,
+        decidedBy: authRequest.user!.id
+      });
+      return json({ success: true, instance });
+    } catch (error) {
+      return json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 409);
+    }
+  }
+
+  // POST /api/workflows/:workflowId/cancel
+  const cancelMatch = pathname.match(/^\/api\/workflows\/([^/]+)\/cancel$/);
+  if (cancelMatch && request.method === 'POST') {
+    const forbidden = await requireApprover(authRequest);
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const { reason } = await request.json().catch(() => ({}));
+
+    try {
+      const instance = workflows.cancel(cancelMatch[1], authRequest.user!.id, reason || undefined);
+      return json({ success: true, instance });
+    } catch (error) {
+      return json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }, 409);
+    }
+  }
+
+  // GET /api/workflows/:workflowId
+  const instanceMatch = pathname.match(/^\/api\/workflows\/([^/]+)$/);
+  if (instanceMatch && request.method === 'GET') {
+    const instance = workflows.getInstance(instanceMatch[1]);
+    if (!instance) {
+      return json({ success: false, error: 'Workflow instance not found' }, 404);
+    }
+    return json({ success: true, instance });
+  }
+
+  // Not a workflow route
+  return null;
+}
@@ -15,6 +15,8 @@ export enum ErrorCode {
   ENTITY_ALREADY_EXISTS = "ENTITY_ALREADY_EXISTS",
   DOMAIN_CONSTRAINT_VIOLATION = "DOMAIN_CONSTRAINT_VIOLATION",
   BUSINESS_LOGIC_ERROR = "BUSINESS_LOGIC_ERROR",
+  IDEMPOTENCY_KEY_REUSED = "IDEMPOTENCY_KEY_REUSED",
+  IDEMPOTENCY_REQUEST_IN_PROGRESS = "IDEMPOTENCY_REQUEST_IN_PROGRESS",
 
   // Infrastructure Errors
   DATABASE_ERROR = "DATABASE_ERROR",
@@ -159,7 +161,10 @@ export class DomainError extends Error {
       case ErrorCode.BUSINESS_RULE_VIOLATION:
         return 400;
       case ErrorCode.ENTITY_ALREADY_EXISTS:
+      case ErrorCode.IDEMPOTENCY_REQUEST_IN_PROGRESS:
         return 409;
+      case ErrorCode.IDEMPOTENCY_KEY_REUSED:
+        return 422;
       case ErrorCode.RATE_LIMIT_EXCEEDED:
         return 429;
       case ErrorCode.SERVICE_UNAVAILABLE:
@@ -268,6 +273,22 @@ export class AuthorizationError extends DomainError {
   }
 }
 
+/**
+ * Idempotency Key Reused Error - Same key replayed with a different payload
+ */
+export class IdempotencyKeyReusedError extends DomainError {
+  constructor(key: string, context: ErrorContext = {}) {
+    super(
+      `Idempotency key ${key} was already used with a different request payload`,
+      ErrorCode.IDEMPOTENCY_KEY_REUSED,
+      ErrorSeverity.MEDIUM,
+      context,
+      { field: "idempotencyKey", value: key, constraint: "payload_mismatch" },
+    );
+    this.name = "IdempotencyKeyReusedError";
+  }
+}
+
 /**
  * Error Factory - For creating domain-specific errors
  */
@@ -0,0 +1,128 @@
+/**
+ * Idempotency Layer Tests
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  IdempotencyService,
+  SQLiteIdempotencyStore,
+  type IdempotencyRecord,
+} from "./idempotency";
+import {
+  DomainError,
+  ErrorCode,
+  IdempotencyKeyReusedError,
+} from "../errors/domain-errors";
+
+describe("IdempotencyService", () => {
+  let service: IdempotencyService;
+  let calls: number;
+
+  const operation = async () => {
+    calls++;
+    return { paymentId: `pay_${calls}`, amount: 100 };
+  };
+
+  beforeEach(() => {
+    service = new IdempotencyService(new SQLiteIdempotencyStore(), 60_000);
+    calls = 0;
+  });
+
+  it("should return the stored result on replay", async () => {
+    const payload = { customerId: "c1", amount: 100 };
+
+    const first = await service.execute("collections.processPayment", "key-1", payload, operation);
+    const second = await service.execute("collections.processPayment", "key-1", payload, operation);
+
+    expect(calls).toBe(1);
+    expect(second).toEqual(first);
+  });
+
+  it("should hash payloads independent of key order", () => {
+    expect(IdempotencyService.hashRequest({ a: 1, b: { c: 2, d: 3 } })).toBe(
+      IdempotencyService.hashRequest({ b: { d: 3, c: 2 }, a: 1 }),
+    );
+  });
+
+  it("should reject a key reused with a different payload", async () => {
+    await service.execute("balance.processBalanceChange", "key-1", { amount: 100 }, operation);
+
+    const replay = service.execute("balance.processBalanceChange", "key-1", { amount: 200 }, operation);
+
+    await expect(replay).rejects.toThrow(IdempotencyKeyReusedError);
+    await replay.catch((error: DomainError) => {
+      expect(error.code).toBe(ErrorCode.IDEMPOTENCY_KEY_REUSED);
+      expect(error.toHttpResponse().statusCode).toBe(422);
+    });
+  });
+
+  it("should allow a retry after the operation fails", async () => {
+    const failing = service.execute("settlement.createSettlement", "key-1", {}, async () => {
+      throw new Error("processor down");
+    });
+    await expect(failing).rejects.toThrow("processor down");
+
+    const retried = await service.execute("settlement.createSettlement", "key-1", {}, operation);
+    expect(retried.paymentId).toBe("pay_1");
+  });
+
+  it("should execute again once the TTL has expired", async () => {
+    const t0 = new Date("2025-01-01T00:00:00Z");
+    await service.execute("collections.processPayment", "key-1", {}, operation, t0);
+    await service.execute(
+      "collections.processPayment",
+      "key-1",
+      {},
+      operation,
+      new Date(t0.getTime() + 120_000),
+    );
+
+    expect(calls).toBe(2);
+  });
+
+  it("should keep scopes independent", async () => {
+    await service.execute("collections.processPayment", "key-1", {}, operation);
+    await service.execute("settlement.createSettlement", "key-1", {}, operation);
+
+    expect(calls).toBe(2);
+  });
+
+  it("should reserve again when the winning row vanishes before it is read", async () => {
+    const store = new FlakyReserveStore(1);
+    service = new IdempotencyService(store, 60_000);
+
+    const result = await service.execute("collections.processPayment", "key-1", {}, operation);
+    const replay = await service.execute("collections.processPayment", "key-1", {}, operation);
+
+    expect(store.reserveCalls).toBe(2);
+    expect(replay).toEqual(result);
+    expect(calls).toBe(1);
+  });
+
+  it("should not run the operation without a reservation", async () => {
+    service = new IdempotencyService(new FlakyReserveStore(Infinity), 60_000);
+
+    await expect(
+      service.execute("collections.processPayment", "key-1", {}, operation),
+    ).rejects.toMatchObject({ code: ErrorCode.IDEMPOTENCY_REQUEST_IN_PROGRESS });
+    expect(calls).toBe(0);
+  });
+});
+
+/** Loses the reservation race to a row that is gone by the time it is read */
+class FlakyReserveStore extends SQLiteIdempotencyStore {
+  reserveCalls = 0;
+
+  constructor(private failures: number) {
+    super();
+  }
+
+  async reserve(record: IdempotencyRecord): Promise<boolean> {
+    this.reserveCalls++;
+    if (this.failures > 0) {
+      this.failures--;
+      return false;
+    }
+    return super.reserve(record);
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Crystal Clear Architecture - Idempotency Layer
+ * Exactly-once semantics for money-moving commands
+ *
+ * A command is identified by a client-supplied key plus a hash of its payload.
+ * The first result is stored with a TTL; replays return the stored result and
+ * a key reused with a different payload is rejected.
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash } from "crypto";
+import {
+  DomainError,
+  ErrorCode,
+  ErrorSeverity,
+  IdempotencyKeyReusedError,
+} from "../errors/domain-errors";
+import { LoggerFactory } from "../logging/domain-logger";
+
+export type IdempotencyStatus = "in_progress" | "completed";
+
+export interface IdempotencyRecord {
+  scope: string;
+  key: string;
+  requestHash: string;
+  status: IdempotencyStatus;
+  result?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Storage backend for idempotency records
+ */
+export interface IdempotencyStore {
+  find(scope: string, key: string, now: Date): Promise<IdempotencyRecord | null>;
+  /** Returns false when a live record already holds the key */
+  reserve(record: IdempotencyRecord): Promise<boolean>;
+  complete(scope: string, key: string, result: string): Promise<void>;
+  release(scope: string, key: string): Promise<void>;
+  purgeExpired(now: Date): Promise<number>;
+}
+
+export class SQLiteIdempotencyStore implements IdempotencyStore {
+  private db: Database;
+  private logger = LoggerFactory.create("idempotency-store");
+
+  constructor(dbPath: string = ":memory:") {
+    this.db = new Database(dbPath);
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        scope TEXT NOT NULL,
+        idempotency_key TEXT NOT NULL,
+        request_hash TEXT NOT NULL,
+        status TEXT NOT NULL,
+        result TEXT, -- JSON
+        created_at DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL,
+        PRIMARY KEY (scope, idempotency_key)
+      )
+    `);
+
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_idempotency_expires ON idempotency_keys(expires_at)`,
+    );
+
+    this.logger.system("Idempotency tables initialized");
+  }
+
+  async find(
+    scope: string,
+    key: string,
+    now: Date,
+  ): Promise<IdempotencyRecord | null> {
+    const row = this.db
+      .prepare(
+        `SELECT * FROM idempotency_keys WHERE scope = ? AND idempotency_key = ? AND expires_at > ?`,
+      )
+      .get(scope, key, now.toISOString()) as any;
+
+    return row ? this.mapRowToRecord(row) : null;
+  }
+
+  async reserve(record: IdempotencyRecord): Promise<boolean> {
+    return this.db.transaction(() => {
+      // An expired record no longer protects the key
+      this.db
+        .prepare(
+          `DELETE FROM idempotency_keys WHERE scope = ? AND idempotency_key = ? AND expires_at <= ?`,
+        )
+        .run(record.scope, record.key, record.createdAt.toISOString());
+
+      const result = this.db
+        .prepare(
+          `
+          INSERT OR IGNORE INTO idempotency_keys (
+            scope, idempotency_key, request_hash, status, created_at, expires_at
+          ) VALUES (?, ?, ?, ?, ?, ?)
+        `,
+        )
+        .run(
+          record.scope,
+          record.key,
+          record.requestHash,
+          record.status,
+          record.createdAt.toISOString(),
+          record.expiresAt.toISOString(),
+        );
+
+      return result.changes > 0;
+    })();
+  }
+
+  async complete(scope: string, key: string, result: string): Promise<void> {
+    this.db
+      .prepare(
+        `UPDATE idempotency_keys SET status = 'completed', result = ? WHERE scope = ? AND idempotency_key = ?`,
+      )
+      .run(result, scope, key);
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    this.db
+      .prepare(
+        `DELETE FROM idempotency_keys WHERE scope = ? AND idempotency_key = ? AND status = 'in_progress'`,
+      )
+      .run(scope, key);
+  }
+
+  async purgeExpired(now: Date): Promise<number> {
+    const result = this.db
+      .prepare(`DELETE FROM idempotency_keys WHERE expires_at <= ?`)
+      .run(now.toISOString());
+    return result.changes;
+  }
+
+  private mapRowToRecord(row: any): IdempotencyRecord {
+    return {
+      scope: row.scope,
+      key: row.idempotency_key,
+      requestHash: row.request_hash,
+      status: row.status,
+      result: row.result ?? undefined,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+    };
+  }
+}
+
+const MAX_RESERVE_ATTEMPTS = 3;
+
+/**
+ * Idempotency Service - wraps a command so it runs at most once per key
+ */
+export class IdempotencyService {
+  private static instance: IdempotencyService;
+  private readonly logger = LoggerFactory.create("idempotency");
+
+  constructor(
+    private readonly store: IdempotencyStore = new SQLiteIdempotencyStore(),
+    private readonly ttlMs: number = 24 * 60 * 60 * 1000,
+  ) {}
+
+  static getInstance(): IdempotencyService {
+    if (!IdempotencyService.instance) {
+      IdempotencyService.instance = new IdempotencyService();
+    }
+    return IdempotencyService.instance;
+  }
+
+  static configure(store: IdempotencyStore, ttlMs?: number): IdempotencyService {
+    IdempotencyService.instance = new IdempotencyService(store, ttlMs);
+    return IdempotencyService.instance;
+  }
+
+  /**
+   * Stable SHA-256 of a request payload (object key order does not matter)
+   */
+  static hashRequest(payload: unknown): string {
+    return createHash("sha256").update(stableStringify(payload)).digest("hex");
+  }
+
+  /**
+   * Run the operation once for (scope, key). Replays with the same payload
+   * return the stored result; a different payload is rejected.
+   * Results are stored as JSON, so operations should return plain data.
+   */
+  async execute<T>(
+    scope: string,
+    key: string | undefined,
+    payload: unknown,
+    operation: () => Promise<T>,
+    now: Date = new Date(),
+  ): Promise<T> {
+    if (!key) {
+      return operation();
+    }
+
+    const requestHash = IdempotencyService.hashRequest(payload);
+    const existing = await this.store.find(scope, key, now);
+
+    if (existing) {
+      return this.replay<T>(existing, requestHash);
+    }
+
+    const reservation: IdempotencyRecord = {
+      scope,
+      key,
+      requestHash,
+      status: "in_progress",
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.ttlMs),
+    };
+
+    // Never run without a reservation: if the row that beat us expired or was
+    // released before we could read it, try to reserve the key again
+    for (let attempt = 1; !(await this.store.reserve(reservation)); attempt++) {
+      const winner = await this.store.find(scope, key, now);
+      if (winner) {
+        return this.replay<T>(winner, requestHash);
+      }
+      if (attempt >= MAX_RESERVE_ATTEMPTS) {
+        throw inProgressError(scope, key);
+      }
+    }
+
+    try {
+      const serialized = JSON.stringify((await operation()) ?? null);
+      await this.store.complete(scope, key, serialized);
+      // Same shape on first call and on replay
+      return JSON.parse(serialized) as T;
+    } catch (error) {
+      // Failed commands may be retried with the same key
+      await this.store.release(scope, key);
+      throw error;
+    }
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    return this.store.purgeExpired(now);
+  }
+
+  private async replay<T>(record: IdempotencyRecord, requestHash: string): Promise<T> {
+    if (record.requestHash !== requestHash) {
+      await this.logger.securityWarn("Idempotency key reused with different payload", {
+        operation: "execute",
+        metadata: { scope: record.scope, key: record.key },
+      });
+      throw new IdempotencyKeyReusedError(record.key, {
+        domain: record.scope.split(".")[0],
+        operation: record.scope,
+      });
+    }
+
+    if (record.status === "in_progress") {
+      throw inProgressError(record.scope, record.key);
+    }
+
+    await this.logger.business("Idempotent replay served from store", {
+      operation: "execute",
+      metadata: { scope: record.scope, key: record.key },
+    });
+
+    return JSON.parse(record.result ?? "null") as T;
+  }
+}
+
+function inProgressError(scope: string, key: string): DomainError {
+  return new DomainError(
+    `Request with idempotency key ${key} is still being processed`,
+    ErrorCode.IDEMPOTENCY_REQUEST_IN_PROGRESS,
+    ErrorSeverity.LOW,
+    { operation: scope },
+  );
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+  return `{${entries.join(",")}}`;
+}
@@ -0,0 +1,256 @@
+/**
+ * HTTP Batch Transport
+ *
+ * Ships log entries in batches to a log backend:
+ * - loki:          POST /loki/api/v1/push, one stream per domain/category/level
+ * - elasticsearch: POST /_bulk with NDJSON index actions
+ *
+ * Failed batches are retried with exponential backoff on network errors,
+ * 429 and 5xx responses. Entries beyond `maxQueueSize` are dropped oldest
+ * first so a dead backend cannot exhaust memory.
+ */
+
+import { LogLevel, type LogEntry, type LogTransport } from "./domain-logger";
+
+export type HttpBatchFormat = "loki" | "elasticsearch";
+
+export interface HttpBatchTransportOptions {
+  url: string;
+  format: HttpBatchFormat;
+  batchSize?: number;
+  flushIntervalMs?: number;
+  headers?: Record<string, string>;
+  /** Static Loki stream labels, e.g. `{ app: "fire22" }` */
+  labels?: Record<string, string>;
+  /** Elasticsearch index; a function can route by entry (e.g. daily indices) */
+  index?: string | ((entry: LogEntry) => string);
+  maxRetries?: number;
+  retryDelayMs?: number;
+  maxQueueSize?: number;
+  fetch?: typeof fetch;
+}
+
+export interface HttpBatchStats {
+  sent: number;
+  failedBatches: number;
+  dropped: number;
+  queued: number;
+}
+
+export class HttpBatchTransport implements LogTransport {
+  private queue: LogEntry[] = [];
+  private readonly options: Required<
+    Omit<HttpBatchTransportOptions, "headers" | "labels" | "index" | "fetch">
+  > &
+    Pick<HttpBatchTransportOptions, "headers" | "labels" | "index">;
+  private readonly fetcher: typeof fetch;
+  private readonly timer: ReturnType<typeof setInterval>;
+  private flushing: Promise<void> | null = null;
+  private stats = { sent: 0, failedBatches: 0, dropped: 0 };
+
+  constructor(options: HttpBatchTransportOptions) {
+    this.options = {
+      batchSize: 100,
+      flushIntervalMs: 2000,
+      maxRetries: 3,
+      retryDelayMs: 500,
+      maxQueueSize: 10_000,
+      ...options,
+    };
+    this.fetcher = options.fetch ?? fetch;
+
+    this.timer = setInterval(() => {
+      this.flush().catch(() => undefined);
+    }, this.options.flushIntervalMs);
+    // Shipping must never keep the process alive on its own
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  async write(entry: LogEntry): Promise<void> {
+    this.queue.push(entry);
+
+    const overflow = this.queue.length - this.options.maxQueueSize;
+    if (overflow > 0) {
+      this.queue.splice(0, overflow);
+      this.stats.dropped += overflow;
+    }
+
+    if (this.queue.length >= this.options.batchSize) {
+      await this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    // One flush at a time keeps batches in order
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.queue.length === 0) return;
+
+    this.flushing = this.drain();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  getStats(): HttpBatchStats {
+    return { ...this.stats, queued: this.queue.length };
+  }
+
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.options.batchSize);
+      const outcome = await this.send(batch);
+
+      if (outcome === "rejected") {
+        this.stats.dropped += batch.length;
+        continue;
+      }
+
+      if (outcome === "failed") {
+        this.stats.failedBatches++;
+        // Put the batch back for the next interval, within the queue limit
+        const room = this.options.maxQueueSize - this.queue.length;
+        const kept = batch.slice(Math.max(0, batch.length - room));
+        this.stats.dropped += batch.length - kept.length;
+        this.queue.unshift(...kept);
+        return;
+      }
+
+      this.stats.sent += batch.length;
+    }
+  }
+
+  private async send(batch: LogEntry[]): Promise<"delivered" | "rejected" | "failed"> {
+    const request = this.buildRequest(batch);
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await Bun.sleep(this.options.retryDelayMs * 2 ** (attempt - 1));
+      }
+
+      try {
+        const response = await this.fetcher(this.options.url, {
+          method: "POST",
+          headers: { ...request.headers, ...this.options.headers },
+          body: request.body,
+        });
+
+        if (response.ok) {
+          if (this.options.format === "elasticsearch") {
+            await this.reportBulkErrors(response);
+          }
+          return "delivered";
+        }
+
+        const retryable = response.status === 429 || response.status >= 500;
+        if (!retryable) {
+          // The backend rejected the payload itself; retrying cannot help
+          console.error(
+            `Log shipping rejected by ${this.options.url}: ${response.status} ${await response.text()}`,
+          );
+          return "rejected";
+        }
+      } catch {
+        // Network error: retry
+      }
+    }
+
+    console.error(
+      `Log shipping to ${this.options.url} failed after ${this.options.maxRetries + 1} attempts`,
+    );
+    return "failed";
+  }
+
+  private buildRequest(batch: LogEntry[]): {
+    headers: Record<string, string>;
+    body: string;
+  } {
+    if (this.options.format === "loki") {
+      return {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toLokiPush(batch, this.options.labels ?? {})),
+      };
+    }
+
+    return {
+      headers: { "Content-Type": "application/x-ndjson" },
+      body: toElasticsearchBulk(batch, this.options.index ?? "logs"),
+    };
+  }
+
+  private async reportBulkErrors(response: Response): Promise<void> {
+    const result = (await response.json().catch(() => null)) as {
+      errors?: boolean;
+      items?: Array<Record<string, { status: number; error?: unknown }>>;
+    } | null;
+    if (!result?.errors) return;
+
+    const failed = (result.items ?? []).filter(
+      (item) => Object.values(item)[0]?.status >= 300,
+    );
+    this.stats.dropped += failed.length;
+    console.error(`Elasticsearch bulk rejected ${failed.length} log entries`);
+  }
+}
+
+/**
+ * Loki push payload; timestamps are nanosecond strings
+ */
+export function toLokiPush(
+  batch: LogEntry[],
+  staticLabels: Record<string, string>,
+): { streams: Array<{ stream: Record<string, string>; values: [string, string][] }> } {
+  const streams = new Map<string, { stream: Record<string, string>; values: [string, string][] }>();
+
+  for (const entry of batch) {
+    const stream: Record<string, string> = {
+      ...staticLabels,
+      domain: entry.context.domain ?? "unknown",
+      category: entry.category,
+      level: LogLevel[entry.level].toLowerCase(),
+    };
+    const key = JSON.stringify(stream);
+    if (!streams.has(key)) {
+      streams.set(key, { stream, values: [] });
+    }
+
+    const nanos = `${BigInt(new Date(entry.timestamp).getTime()) * 1_000_000n}`;
+    streams.get(key)!.values.push([nanos, JSON.stringify(entry)]);
+  }
+
+  return { streams: [...streams.values()] };
+}
+
+/**
+ * Elasticsearch `_bulk` body: an index action line before each document
+ */
+export function toElasticsearchBulk(
+  batch: LogEntry[],
+  index: string | ((entry: LogEntry) => string),
+): string {
+  return (
+    batch
+      .map((entry) => {
+        const action = { index: { _index: typeof index === "function" ? index(entry) : index } };
+        const document = {
+          "@timestamp": entry.timestamp,
+          level: LogLevel[entry.level],
+          category: entry.category,
+          message: entry.message,
+          context: entry.context,
+          ...(entry.error && { error: entry.error }),
+          ...(entry.metrics && { metrics: entry.metrics }),
+        };
+        return `${JSON.stringify(action)}\n${JSON.stringify(document)}`;
+      })
+      .join("\n") + "\n"
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * Log Query - Structured search over NDJSON log files
+ *
+ * Reads the active and rotated (gzipped) files written by
+ * RotatingFileTransport and filters entries by category, correlation id,
+ * domain, level and time range. Used by `scripts/log-query.ts`.
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { LogCategory, LogLevel, type LogEntry } from "./domain-logger";
+
+export interface LogQuery {
+  categories?: LogCategory[];
+  correlationId?: string;
+  domain?: string;
+  minLevel?: LogLevel;
+  from?: Date;
+  to?: Date;
+  /** Case-insensitive substring of the message */
+  text?: string;
+  /** Most recent N matches, returned oldest first */
+  limit?: number;
+}
+
+export interface LogQueryResult {
+  entries: LogEntry[];
+  scannedFiles: number;
+  scannedEntries: number;
+  malformedLines: number;
+}
+
+export function matchesLogQuery(entry: LogEntry, query: LogQuery): boolean {
+  if (query.categories?.length && !query.categories.includes(entry.category)) {
+    return false;
+  }
+  if (query.correlationId && entry.context?.correlationId !== query.correlationId) {
+    return false;
+  }
+  if (query.domain && entry.context?.domain !== query.domain) {
+    return false;
+  }
+  if (query.minLevel !== undefined && entry.level < query.minLevel) {
+    return false;
+  }
+
+  const time = new Date(entry.timestamp).getTime();
+  if (query.from && time < query.from.getTime()) return false;
+  if (query.to && time > query.to.getTime()) return false;
+
+  if (query.text && !entry.message.toLowerCase().includes(query.text.toLowerCase())) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * NDJSON log files under `path` (or `path` itself), oldest first
+ */
+export async function listLogFiles(path: string): Promise<string[]> {
+  const info = await stat(path);
+  if (info.isFile()) return [path];
+
+  const files = await Promise.all(
+    (await readdir(path))
+      .filter((name) => /\.ndjson(\.gz)?$/.test(name))
+      .map(async (name) => {
+        const file = join(path, name);
+        return { file, mtime: (await stat(file)).mtimeMs };
+      }),
+  );
+
+  return files.sort((a, b) => a.mtime - b.mtime).map((f) => f.file);
+}
+
+export async function readLogFile(
+  file: string,
+): Promise<{ entries: LogEntry[]; malformedLines: number }> {
+  const raw = new Uint8Array(await Bun.file(file).arrayBuffer());
+  const text = new TextDecoder().decode(file.endsWith(".gz") ? Bun.gunzipSync(raw) : raw);
+
+  const entries: LogEntry[] = [];
+  let malformedLines = 0;
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as LogEntry;
+      if (typeof entry.timestamp === "string" && typeof entry.message === "string") {
+        entries.push({ ...entry, context: entry.context ?? {} });
+      } else {
+        malformedLines++;
+      }
+    } catch {
+      // Partial last line of a crashed writer, or foreign content
+      malformedLines++;
+    }
+  }
+
+  return { entries, malformedLines };
+}
+
+export async function queryLogs(
+  paths: string[],
+  query: LogQuery = {},
+): Promise<LogQueryResult> {
+  const files = (await Promise.all(paths.map(listLogFiles))).flat();
+  const result: LogQueryResult = {
+    entries: [],
+    scannedFiles: 0,
+    scannedEntries: 0,
+    malformedLines: 0,
+  };
+
+  for (const file of files) {
+    // A file last written before the range starts cannot contain matches
+    if (query.from && (await stat(file)).mtimeMs < query.from.getTime()) {
+      continue;
+    }
+
+    const { entries, malformedLines } = await readLogFile(file);
+    result.scannedFiles++;
+    result.scannedEntries += entries.length;
+    result.malformedLines += malformedLines;
+    result.entries.push(...entries.filter((entry) => matchesLogQuery(entry, query)));
+  }
+
+  result.entries.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+  if (query.limit !== undefined && result.entries.length > query.limit) {
+    result.entries = result.entries.slice(-query.limit);
+  }
+
+  return result;
+}
+
+/**
+ * Parse "30m", "2h", "7d" relative to `now`, or an ISO timestamp
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date {
+  const relative = value.trim().match(/^(\d+)\s*([smhd])$/i);
+  if (relative) {
+    const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[
+      relative[2].toLowerCase() as "s" | "m" | "h" | "d"
+    ];
+    return new Date(now.getTime() - Number(relative[1]) * unit);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time "${value}": use an ISO timestamp or 30m / 2h / 7d`);
+  }
+  return date;
+}
+
+export function parseLogLevel(value: string): LogLevel {
+  const level = LogLevel[value.toUpperCase() as keyof typeof LogLevel];
+  if (level === undefined) {
+    throw new Error(`Unknown log level "${value}"`);
+  }
+  return level;
+}
+
+export function parseLogCategory(value: string): LogCategory {
+  const category = Object.values(LogCategory).find((c) => c === value.toLowerCase());
+  if (!category) {
+    throw new Error(
+      `Unknown log category "${value}" (${Object.values(LogCategory).join(", ")})`,
+    );
+  }
+  return category;
+}
@@ -0,0 +1,196 @@
+/**
+ * Log Shipping Tests
+ * Rotating NDJSON files, HTTP batch shipping and log queries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LogCategory, LogLevel, type LogEntry } from "./domain-logger";
+import { RotatingFileTransport } from "./rotating-file-transport";
+import { HttpBatchTransport } from "./http-batch-transport";
+import { queryLogs, parseTimeBound } from "./log-query";
+
+const entry = (
+  message: string,
+  timestamp: string,
+  overrides: Partial<LogEntry> = {},
+): LogEntry => ({
+  timestamp,
+  level: LogLevel.INFO,
+  category: LogCategory.BUSINESS,
+  message,
+  context: { domain: "collections", correlationId: "req_1" },
+  ...overrides,
+});
+
+describe("RotatingFileTransport", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "domain-logs-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should rotate by size, gzip rotations and keep only maxFiles", async () => {
+    const transport = new RotatingFileTransport({
+      directory,
+      maxBytes: 400,
+      rotateEvery: null,
+      maxFiles: 2,
+    });
+
+    for (let i = 0; i < 12; i++) {
+      await transport.write(entry(`Deposit step ${i}`, new Date().toISOString()));
+    }
+    await transport.close();
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toContain("app.ndjson");
+    expect(files.filter((f) => f.endsWith(".ndjson.gz"))).toHaveLength(2);
+
+    // Rotated gzip files are readable by the query engine
+    const result = await queryLogs([directory], { text: "deposit step" });
+    expect(result.scannedFiles).toBe(3);
+    expect(result.entries.at(-1)?.message).toBe("Deposit step 11");
+  });
+
+  it("should rotate when the day changes", async () => {
+    const transport = new RotatingFileTransport({ directory, gzip: false });
+
+    await transport.write(entry("Day one", "2026-01-01T23:59:00.000Z"));
+    await transport.write(entry("Day two", "2026-01-02T00:01:00.000Z"));
+    await transport.close();
+
+    const files = (await readdir(directory)).sort();
+    expect(files).toEqual(["app.2026-01-01T00-00-00-000Z.ndjson", "app.ndjson"]);
+  });
+});
+
+describe("HttpBatchTransport", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: Array<{ path: string; contentType: string | null; body: string }>;
+  let failuresLeft: number;
+
+  beforeEach(() => {
+    requests = [];
+    failuresLeft = 0;
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const url = new URL(request.url);
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          return new Response("busy", { status: 503 });
+        }
+        requests.push({
+          path: url.pathname,
+          contentType: request.headers.get("Content-Type"),
+          body: await request.text(),
+        });
+        return Response.json(url.pathname === "/_bulk" ? { errors: false, items: [] } : {});
+      },
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  it("should push Loki streams grouped by labels and retry on 5xx", async () => {
+    failuresLeft = 1;
+    const transport = new HttpBatchTransport({
+      url: `http://localhost:${server.port}/loki/api/v1/push`,
+      format: "loki",
+      batchSize: 3,
+      retryDelayMs: 1,
+      labels: { app: "fire22" },
+    });
+
+    await transport.write(entry("a", "2026-01-01T00:00:00.000Z"));
+    await transport.write(entry("b", "2026-01-01T00:00:01.000Z"));
+    await transport.write(
+      entry("c", "2026-01-01T00:00:02.000Z", { level: LogLevel.ERROR, category: LogCategory.SYSTEM }),
+    );
+    await transport.close();
+
+    expect(requests).toHaveLength(1);
+    const push = JSON.parse(requests[0].body);
+    expect(push.streams).toHaveLength(2);
+    expect(push.streams[0].stream).toEqual({
+      app: "fire22",
+      domain: "collections",
+      category: "business",
+      level: "info",
+    });
+    expect(push.streams[0].values[0][0]).toBe("1767225600000000000");
+    expect(transport.getStats()).toMatchObject({ sent: 3, failedBatches: 0, queued: 0 });
+  });
+
+  it("should send Elasticsearch bulk NDJSON on flush", async () => {
+    const transport = new HttpBatchTransport({
+      url: `http://localhost:${server.port}/_bulk`,
+      format: "elasticsearch",
+      index: (e) => `logs-${e.timestamp.slice(0, 10)}`,
+    });
+
+    await transport.write(entry("Deposit received", "2026-01-05T10:00:00.000Z"));
+    await transport.flush();
+    await transport.close();
+
+    expect(requests[0].contentType).toBe("application/x-ndjson");
+    const [action, document] = requests[0].body.trim().split("\n").map((l) => JSON.parse(l));
+    expect(action).toEqual({ index: { _index: "logs-2026-01-05" } });
+    expect(document).toMatchObject({ "@timestamp": "2026-01-05T10:00:00.000Z", level: "INFO", message: "Deposit received" });
+  });
+});
+
+describe("queryLogs", () => {
+  it("should filter by category, correlation id, domain, level and time range", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "domain-logs-"));
+    const transport = new RotatingFileTransport({ directory, rotateEvery: null });
+
+    await transport.write(entry("Deposit initiated", "2026-02-01T10:00:00.000Z"));
+    await transport.write(entry("Deposit settled", "2026-02-01T10:05:00.000Z", { category: LogCategory.AUDIT }));
+    await transport.write(
+      entry("Other customer", "2026-02-01T10:06:00.000Z", { context: { domain: "collections", correlationId: "req_2" } }),
+    );
+    await transport.write(
+      entry("Ledger posting failed", "2026-02-01T10:07:00.000Z", {
+        level: LogLevel.ERROR,
+        context: { domain: "settlement", correlationId: "req_1" },
+      }),
+    );
+    await transport.close();
+
+    const trace = await queryLogs([directory], { correlationId: "req_1" });
+    expect(trace.entries.map((e) => e.message)).toEqual([
+      "Deposit initiated",
+      "Deposit settled",
+      "Ledger posting failed",
+    ]);
+
+    const audit = await queryLogs([directory], { categories: [LogCategory.AUDIT], domain: "collections" });
+    expect(audit.entries.map((e) => e.message)).toEqual(["Deposit settled"]);
+
+    const window = await queryLogs([directory], {
+      from: new Date("2026-02-01T10:04:00.000Z"),
+      to: new Date("2026-02-01T10:06:30.000Z"),
+      minLevel: LogLevel.INFO,
+    });
+    expect(window.entries).toHaveLength(2);
+
+    const errors = await queryLogs([directory], { minLevel: LogLevel.ERROR });
+    expect(errors.entries.map((e) => e.context.domain)).toEqual(["settlement"]);
+
+    expect(parseTimeBound("2h", new Date("2026-02-01T12:00:00.000Z")).toISOString()).toBe(
+      "2026-02-01T10:00:00.000Z",
+    );
+
+    await rm(directory, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Rotating NDJSON File Transport
+ *
+ * Writes one JSON log entry per line and rotates the active file by size
+ * and/or time period. Rotated files are optionally gzipped and pruned so
+ * only the newest `maxFiles` are kept. `log-query.ts` reads both forms.
+ */
+
+import { appendFile, mkdir, readdir, rename, stat, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import type { LogEntry, LogTransport } from "./domain-logger";
+
+export type RotationPeriod = "hourly" | "daily";
+
+export interface RotatingFileTransportOptions {
+  directory?: string;
+  /** Active file name; rotated files insert a timestamp before `.ndjson` */
+  fileName?: string;
+  /** Rotate once the active file reaches this size; 0 disables size rotation */
+  maxBytes?: number;
+  /** Rotate when the period changes, or every N milliseconds */
+  rotateEvery?: RotationPeriod | number | null;
+  /** Rotated files to keep; older ones are deleted */
+  maxFiles?: number;
+  gzip?: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class RotatingFileTransport implements LogTransport {
+  private readonly directory: string;
+  private readonly baseName: string;
+  private readonly activePath: string;
+  private readonly maxBytes: number;
+  private readonly periodMs: number | null;
+  private readonly maxFiles: number;
+  private readonly gzip: boolean;
+
+  private currentSize = 0;
+  private periodStart: number | null = null;
+  private initialized = false;
+  // Writes are chained so rotation never interleaves with an append
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RotatingFileTransportOptions = {}) {
+    this.directory = options.directory ?? "./logs";
+    const fileName = options.fileName ?? "app.ndjson";
+    this.baseName = fileName.replace(/\.ndjson$/, "");
+    this.activePath = join(this.directory, `${this.baseName}.ndjson`);
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 14;
+    this.gzip = options.gzip ?? true;
+
+    const rotateEvery = options.rotateEvery === undefined ? "daily" : options.rotateEvery;
+    this.periodMs =
+      rotateEvery === "hourly"
+        ? HOUR_MS
+        : rotateEvery === "daily"
+          ? 24 * HOUR_MS
+          : rotateEvery;
+  }
+
+  getActivePath(): string {
+    return this.activePath;
+  }
+
+  async write(entry: LogEntry): Promise<void> {
+    const line = JSON.stringify(entry) + "\n";
+    const task = this.queue.then(() => this.append(line, new Date(entry.timestamp).getTime()));
+    // Keep the chain alive after a failed write
+    this.queue = task.catch(() => undefined);
+
+    try {
+      await task;
+    } catch (error) {
+      console.error("Failed to write to rotating log file:", error);
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.queue;
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Force a rotation of the active file, e.g. from a SIGHUP handler
+   */
+  async rotate(): Promise<void> {
+    const task = this.queue.then(() => this.rotateActiveFile(Date.now()));
+    this.queue = task.catch(() => undefined);
+    await task;
+  }
+
+  private async append(line: string, at: number): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize(at);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    const periodChanged =
+      this.periodStart !== null && this.periodOf(at) !== this.periodStart;
+    const sizeExceeded =
+      this.maxBytes > 0 && this.currentSize > 0 && this.currentSize + bytes > this.maxBytes;
+
+    if (periodChanged || sizeExceeded) {
+      await this.rotateActiveFile(at);
+    }
+
+    await appendFile(this.activePath, line);
+    this.currentSize += bytes;
+  }
+
+  private async initialize(at: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    try {
+      const existing = await stat(this.activePath);
+      this.currentSize = existing.size;
+      // Resume the period of a file left by a previous process
+      this.periodStart = this.periodOf(existing.mtimeMs);
+    } catch {
+      this.currentSize = 0;
+      this.periodStart = this.periodOf(at);
+    }
+
+    this.initialized = true;
+  }
+
+  private async rotateActiveFile(at: number): Promise<void> {
+    if (this.currentSize > 0) {
+      const stamp = new Date(this.periodStart ?? at)
+        .toISOString()
+        .replace(/[:.]/g, "-");
+      const rotatedPath = await this.nextRotatedPath(stamp);
+
+      await rename(this.activePath, rotatedPath);
+
+      if (this.gzip) {
+        const content = await Bun.file(rotatedPath).arrayBuffer();
+        await Bun.write(`${rotatedPath}.gz`, Bun.gzipSync(new Uint8Array(content)));
+        await unlink(rotatedPath);
+      }
+
+      await this.pruneRotatedFiles();
+    }
+
+    this.currentSize = 0;
+    this.periodStart = this.periodOf(at);
+  }
+
+  private async nextRotatedPath(stamp: string): Promise<string> {
+    const existing = new Set(await readdir(this.directory));
+    for (let sequence = 0; ; sequence++) {
+      const name = `${this.baseName}.${stamp}${sequence ? `.${sequence}` : ""}.ndjson`;
+      if (!existing.has(name) && !existing.has(`${name}.gz`)) {
+        return join(this.directory, name);
+      }
+    }
+  }
+
+  private async pruneRotatedFiles(): Promise<void> {
+    const names = (await readdir(this.directory)).filter((name) =>
+      isRotatedLogFile(name, this.baseName),
+    );
+    if (names.length <= this.maxFiles) return;
+
+    // Oldest first; sequence suffixes do not sort lexically, mtimes do
+    const rotated = await Promise.all(
+      names.map(async (name) => {
+        const path = join(this.directory, name);
+        return { path, mtime: (await stat(path)).mtimeMs };
+      }),
+    );
+    rotated.sort((a, b) => a.mtime - b.mtime || a.path.localeCompare(b.path));
+
+    for (const file of rotated.slice(0, rotated.length - this.maxFiles)) {
+      await unlink(file.path);
+    }
+  }
+
+  private periodOf(time: number): number | null {
+    return this.periodMs ? Math.floor(time / this.periodMs) * this.periodMs : null;
+  }
+}
+
+/**
+ * Rotated files look like `app.2025-01-31T00-00-00-000Z[.n].ndjson[.gz]`
+ */
+export function isRotatedLogFile(name: string, baseName: string): boolean {
+  return (
+    name.startsWith(`${baseName}.`) &&
+    name !== `${baseName}.ndjson` &&
+    /\.ndjson(\.gz)?$/.test(name)
+  );
+}
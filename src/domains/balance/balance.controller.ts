@@ -8,12 +8,23 @@ import { BalanceRepository } from './repositories/balance-repository';
 import { BalanceLimits } from './value-objects/balance-limits';
 import { DomainEvents } from '../shared/events/domain-events';
 import { DomainError } from '../shared/domain-entity';
+import { LedgerService, TrialBalance, LedgerIntegrityReport } from './services/ledger-service';
+import { IdempotencyService } from '../../core/idempotency/idempotency';
+import { DomainError as CoreDomainError } from '../../core/errors/domain-errors';
 
 export class BalanceController {
   private balanceService: BalanceService;
+  private ledgerService?: LedgerService;
+  private idempotency: IdempotencyService;
 
-  constructor(repository: BalanceRepository) {
-    this.balanceService = new BalanceService(repository, DomainEvents.getInstance());
+  constructor(
+    repository: BalanceRepository,
+    ledgerService?: LedgerService,
+    idempotency: IdempotencyService = IdempotencyService.getInstance()
+  ) {
+    this.ledgerService = ledgerService;
+    this.idempotency = idempotency;
+    this.balanceService = new BalanceService(repository, DomainEvents.getInstance(), ledgerService);
   }
 
   /**
@@ -27,6 +38,7 @@ export class BalanceController {
         customerId: request.customerId,
         agentId: request.agentId,
         initialBalance: request.initialBalance,
+        currency: request.currency,
         limits
       });
 
@@ -55,33 +67,42 @@ export class BalanceController {
    * Process balance change
    */
   async processBalanceChange(request: BalanceChangeRequest): Promise<BalanceChangeResponse> {
+    const { idempotencyKey, ...command } = request;
+
     try {
-      const result = await this.balanceService.processBalanceChange(request);
+      return await this.idempotency.execute(
+        'balance.processBalanceChange',
+        idempotencyKey,
+        command,
+        async (): Promise<BalanceChangeResponse> => {
+          const result = await this.balanceService.processBalanceChange(command);
 
-      return {
-        success: true,
-        balance: {
-          id: result.balance.getId(),
-          customerId: result.balance.getCustomerId(),
-          currentBalance: result.balance.getCurrentBalance(),
-          thresholdStatus: result.balance.getThresholdStatus(),
-          lastActivity: result.balance.getLastActivity()
-        },
-        change: {
-          id: result.change.getId(),
-          changeType: result.change.getChangeType(),
-          amount: result.change.getAmount(),
-          previousBalance: result.change.getPreviousBalance(),
-          newBalance: result.change.getNewBalance(),
-          reason: result.change.getReason(),
-          performedBy: result.change.getPerformedBy()
+          return {
+            success: true,
+            balance: {
+              id: result.balance.getId(),
+              customerId: result.balance.getCustomerId(),
+              currentBalance: result.balance.getCurrentBalance(),
+              thresholdStatus: result.balance.getThresholdStatus(),
+              lastActivity: result.balance.getLastActivity()
+            },
+            change: {
+              id: result.change.getId(),
+              changeType: result.change.getChangeType(),
+              amount: result.change.getAmount(),
+              previousBalance: result.change.getPreviousBalance(),
+              newBalance: result.change.getNewBalance(),
+              reason: result.change.getReason(),
+              performedBy: result.change.getPerformedBy()
+            }
+          };
         }
-      };
+      );
     } catch (error) {
       return {
         success: false,
-        error: error instanceof DomainError ? error.message : 'Internal server error',
-        code: error instanceof DomainError ? error.code : 'INTERNAL_ERROR'
+        error: error instanceof DomainError || error instanceof CoreDomainError ? error.message : 'Internal server error',
+        code: error instanceof DomainError || error instanceof CoreDomainError ? error.code : 'INTERNAL_ERROR'
       };
     }
   }
@@ -227,6 +248,46 @@ export class BalanceController {
       };
     }
   }
+
+  /**
+   * Get ledger trial balance for a currency
+   */
+  async getTrialBalance(currency = 'USD'): Promise<TrialBalanceResponse> {
+    if (!this.ledgerService) {
+      return { success: false, error: 'Ledger not configured', code: 'LEDGER_NOT_CONFIGURED' };
+    }
+
+    try {
+      const trialBalance = await this.ledgerService.getTrialBalance(currency);
+      return { success: true, trialBalance };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: (error as any)?.code || 'INTERNAL_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Verify that every journal entry balances and the books sum to zero
+   */
+  async checkLedgerIntegrity(): Promise<LedgerIntegrityResponse> {
+    if (!this.ledgerService) {
+      return { success: false, error: 'Ledger not configured', code: 'LEDGER_NOT_CONFIGURED' };
+    }
+
+    try {
+      const report = await this.ledgerService.verifyIntegrity();
+      return { success: true, report };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        code: (error as any)?.code || 'INTERNAL_ERROR'
+      };
+    }
+  }
 }
 
 // Request/Response Types
@@ -234,6 +295,7 @@ export interface CreateBalanceRequest {
   customerId: string;
   agentId: string;
   initialBalance?: number;
+  currency?: string;
   limits?: {
     minBalance: number;
     maxBalance: number;
@@ -245,6 +307,8 @@ export interface CreateBalanceRequest {
 }
 
 export interface BalanceChangeRequest {
+  /** Client-supplied key; replays return the first result */
+  idempotencyKey?: string;
   customerId: string;
   amount: number;
   changeType: 'credit' | 'debit';
@@ -358,3 +422,17 @@ export interface AgentBalanceSummaryResponse {
   error?: string;
   code?: string;
 }
+
+export interface TrialBalanceResponse {
+  success: boolean;
+  trialBalance?: TrialBalance;
+  error?: string;
+  code?: string;
+}
+
+export interface LedgerIntegrityResponse {
+  success: boolean;
+  report?: LedgerIntegrityReport;
+  error?: string;
+  code?: string;
+}
@@ -6,13 +6,18 @@
 import { DomainEntity } from '../../shared/domain-entity';
 import { BalanceLimits } from '../value-objects/balance-limits';
 import { DomainError } from '../../shared/domain-entity';
+import { Money } from '../../shared/money';
 
+/**
+ * Customer wallet balance. The amount is held as Money (integer minor units);
+ * the number-based API is kept for callers that work in major units.
+ */
 export class Balance extends DomainEntity {
   private constructor(
     id: string,
     private readonly customerId: string,
     private readonly agentId: string,
-    private currentBalance: number,
+    private currentBalance: Money,
     private readonly limits: BalanceLimits,
     private isActive: boolean,
     private lastActivity: Date,
@@ -27,13 +32,14 @@ export class Balance extends DomainEntity {
     customerId: string;
     agentId: string;
     initialBalance?: number;
+    currency?: string;
     limits?: BalanceLimits;
   }): Balance {
     const now = new Date();
     const limits = params.limits || BalanceLimits.default();
-    const initialBalance = params.initialBalance || 0;
+    const initialBalance = Money.of(params.initialBalance || 0, params.currency || 'USD');
 
-    if (!limits.isWithinLimits(initialBalance)) {
+    if (!limits.isWithinLimits(initialBalance.toMajor())) {
       throw new DomainError('Initial balance violates limits', 'INVALID_INITIAL_BALANCE');
     }
 
@@ -55,7 +61,7 @@ export class Balance extends DomainEntity {
       data.id,
       data.customerId,
       data.agentId,
-      data.currentBalance,
+      Money.of(data.currentBalance, data.currency || 'USD'),
       BalanceLimits.create(data.limits),
       data.isActive,
       new Date(data.lastActivity),
@@ -65,66 +71,78 @@ export class Balance extends DomainEntity {
   }
 
   // Business methods
-  canDebit(amount: number): boolean {
+  canDebit(amount: number | Money): boolean {
     if (!this.isActive) {
       throw new DomainError('Cannot debit inactive balance', 'BALANCE_INACTIVE');
     }
 
-    const newBalance = this.currentBalance - amount;
-    return this.limits.isWithinLimits(newBalance);
+    const newBalance = this.currentBalance.subtract(this.toMoney(amount));
+    return this.limits.isWithinLimits(newBalance.toMajor());
   }
 
-  canCredit(amount: number): boolean {
+  canCredit(amount: number | Money): boolean {
     if (!this.isActive) {
       throw new DomainError('Cannot credit inactive balance', 'BALANCE_INACTIVE');
     }
 
-    const newBalance = this.currentBalance + amount;
-    return this.limits.isWithinLimits(newBalance);
+    const newBalance = this.currentBalance.add(this.toMoney(amount));
+    return this.limits.isWithinLimits(newBalance.toMajor());
   }
 
-  debit(amount: number, reason: string, performedBy: string): BalanceChange {
+  debit(amount: number | Money, reason: string, performedBy: string): BalanceChange {
     if (!this.canDebit(amount)) {
       throw new DomainError('Debit would violate balance limits', 'INSUFFICIENT_FUNDS');
     }
 
+    const change = this.toMoney(amount);
     const previousBalance = this.currentBalance;
-    this.currentBalance -= amount;
+    this.currentBalance = this.currentBalance.subtract(change);
     this.lastActivity = new Date();
     this.markAsModified();
 
     return BalanceChange.create({
       balanceId: this.getId(),
       changeType: 'debit',
-      amount: -amount,
-      previousBalance,
-      newBalance: this.currentBalance,
+      amount: -change.toMajor(),
+      previousBalance: previousBalance.toMajor(),
+      newBalance: this.currentBalance.toMajor(),
       reason,
       performedBy
     });
   }
 
-  credit(amount: number, reason: string, performedBy: string): BalanceChange {
+  credit(amount: number | Money, reason: string, performedBy: string): BalanceChange {
     if (!this.canCredit(amount)) {
       throw new DomainError('Credit would violate balance limits', 'EXCEEDS_MAX_BALANCE');
     }
 
+    const change = this.toMoney(amount);
     const previousBalance = this.currentBalance;
-    this.currentBalance += amount;
+    this.currentBalance = this.currentBalance.add(change);
     this.lastActivity = new Date();
     this.markAsModified();
 
     return BalanceChange.create({
       balanceId: this.getId(),
       changeType: 'credit',
-      amount,
-      previousBalance,
-      newBalance: this.currentBalance,
+      amount: change.toMajor(),
+      previousBalance: previousBalance.toMajor(),
+      newBalance: this.currentBalance.toMajor(),
       reason,
       performedBy
     });
   }
 
+  /**
+   * Align the cached balance with the ledger, which is the source of truth
+   */
+  applyLedgerBalance(ledgerBalance: number): void {
+    const balance = Money.of(ledgerBalance, this.getCurrency());
+    if (this.currentBalance.equals(balance)) return;
+    this.currentBalance = balance;
+    this.markAsModified();
+  }
+
   freeze(): void {
     this.isActive = false;
     this.markAsModified();
@@ -138,26 +156,37 @@ export class Balance extends DomainEntity {
   // Getters
   getCustomerId(): string { return this.customerId; }
   getAgentId(): string { return this.agentId; }
-  getCurrentBalance(): number { return this.currentBalance; }
+  getCurrentBalance(): number { return this.currentBalance.toMajor(); }
+  getBalance(): Money { return this.currentBalance; }
+  getCurrency(): string { return this.currentBalance.getCurrency(); }
   getLimits(): BalanceLimits { return this.limits; }
   getIsActive(): boolean { return this.isActive; }
   getLastActivity(): Date { return this.lastActivity; }
 
   // Business rules
   getThresholdStatus(): 'normal' | 'warning' | 'critical' {
-    return this.limits.getThresholdStatus(this.currentBalance);
+    return this.limits.getThresholdStatus(this.currentBalance.toMajor());
   }
 
   requiresAttention(): boolean {
     return this.getThresholdStatus() !== 'normal';
   }
 
+  /**
+   * Plain numbers are major units of the wallet currency; Money in another
+   * currency must be converted through the FX service first
+   */
+  private toMoney(amount: number | Money): Money {
+    return amount instanceof Money ? amount : Money.of(amount, this.getCurrency());
+  }
+
   toJSON(): any {
     return {
       id: this.getId(),
       customerId: this.customerId,
       agentId: this.agentId,
-      currentBalance: this.currentBalance,
+      currentBalance: this.currentBalance.toMajor(),
+      currency: this.getCurrency(),
       limits: {
         minBalance: this.limits.getMinBalance(),
         maxBalance: this.limits.getMaxBalance(),
@@ -179,7 +208,7 @@ export class BalanceChange extends DomainEntity {
   private constructor(
     id: string,
     private readonly balanceId: string,
-    private readonly changeType: 'credit' | 'debit';
+    private readonly changeType: 'credit' | 'debit',
     private readonly amount: number,
     private readonly previousBalance: number,
     private readonly newBalance: number,
@@ -0,0 +1,184 @@
+/**
+ * Journal Entry Entity
+ * Domain-Driven Design Implementation
+ *
+ * A balanced set of postings: total debits must equal total credits.
+ * Amounts are held in integer minor units of the account currency.
+ */
+
+import { DomainEntity } from '../../shared/domain-entity';
+import { LedgerAccount, PostingSide } from '../value-objects/ledger-account';
+import { DomainErrorFactory } from '../../../core/errors/domain-errors';
+import { Money } from '../../shared/money';
+
+const errors = new DomainErrorFactory('balance');
+
+export interface Posting {
+  account: LedgerAccount;
+  side: PostingSide;
+  amountMinor: number;
+}
+
+export function toMinorUnits(amount: number, currency = 'USD'): number {
+  return Money.of(amount, currency).getMinorUnits();
+}
+
+export function fromMinorUnits(amountMinor: number, currency = 'USD'): number {
+  return Money.fromMinor(amountMinor, currency).toMajor();
+}
+
+export class JournalEntry extends DomainEntity {
+  private constructor(
+    id: string,
+    private readonly description: string,
+    private readonly reference: string,
+    private readonly postings: ReadonlyArray<Posting>,
+    private readonly postedBy: string,
+    private readonly metadata: Record<string, any>,
+    createdAt: Date,
+    updatedAt: Date
+  ) {
+    super(id, createdAt, updatedAt);
+  }
+
+  static create(params: {
+    id?: string;
+    description: string;
+    reference: string;
+    postings: Posting[];
+    postedBy: string;
+    metadata?: Record<string, any>;
+  }): JournalEntry {
+    JournalEntry.validatePostings(params.postings);
+
+    const now = new Date();
+    return new JournalEntry(
+      params.id || crypto.randomUUID(),
+      params.description,
+      params.reference,
+      params.postings.map(p => ({ ...p })),
+      params.postedBy,
+      params.metadata || {},
+      now,
+      now
+    );
+  }
+
+  static fromPersistence(data: {
+    id: string;
+    description: string;
+    reference: string;
+    postedBy: string;
+    metadata: Record<string, any>;
+    createdAt: string;
+    postings: Array<{ accountCode: string; side: PostingSide; amountMinor: number }>;
+  }): JournalEntry {
+    return new JournalEntry(
+      data.id,
+      data.description,
+      data.reference,
+      data.postings.map(p => ({
+        account: LedgerAccount.fromCode(p.accountCode),
+        side: p.side,
+        amountMinor: p.amountMinor
+      })),
+      data.postedBy,
+      data.metadata,
+      new Date(data.createdAt),
+      new Date(data.createdAt)
+    );
+  }
+
+  /**
+   * Convenience for the common two-legged entry
+   */
+  static transfer(params: {
+    debit: LedgerAccount;
+    credit: LedgerAccount;
+    amount: number;
+    description: string;
+    reference: string;
+    postedBy: string;
+    metadata?: Record<string, any>;
+  }): JournalEntry {
+    const amountMinor = toMinorUnits(params.amount, params.debit.getCurrency());
+    return JournalEntry.create({
+      description: params.description,
+      reference: params.reference,
+      postedBy: params.postedBy,
+      metadata: params.metadata,
+      postings: [
+        { account: params.debit, side: 'debit', amountMinor },
+        { account: params.credit, side: 'credit', amountMinor }
+      ]
+    });
+  }
+
+  private static validatePostings(postings: Posting[]): void {
+    if (postings.length < 2) {
+      throw errors.businessRuleViolation(
+        'Journal entry requires at least two postings',
+        'journal_min_postings'
+      );
+    }
+
+    for (const posting of postings) {
+      if (!Number.isInteger(posting.amountMinor) || posting.amountMinor <= 0) {
+        throw errors.validationError(
+          'Posting amounts must be positive integer minor units',
+          'amountMinor',
+          posting.amountMinor
+        );
+      }
+    }
+
+    const currencies = new Set(postings.map(p => p.account.getCurrency()));
+    if (currencies.size > 1) {
+      throw errors.businessRuleViolation(
+        `Journal entry mixes currencies: ${Array.from(currencies).join(', ')}`,
+        'journal_single_currency'
+      );
+    }
+
+    const debits = JournalEntry.sumSide(postings, 'debit');
+    const credits = JournalEntry.sumSide(postings, 'credit');
+    if (debits !== credits) {
+      throw errors.businessRuleViolation(
+        `Journal entry is unbalanced: debits ${debits} != credits ${credits}`,
+        'journal_unbalanced'
+      );
+    }
+  }
+
+  private static sumSide(postings: ReadonlyArray<Posting>, side: PostingSide): number {
+    return postings
+      .filter(p => p.side === side)
+      .reduce((sum, p) => sum + p.amountMinor, 0);
+  }
+
+  // Getters
+  getDescription(): string { return this.description; }
+  getReference(): string { return this.reference; }
+  getPostings(): ReadonlyArray<Posting> { return this.postings; }
+  getPostedBy(): string { return this.postedBy; }
+  getMetadata(): Record<string, any> { return this.metadata; }
+  getCurrency(): string { return this.postings[0].account.getCurrency(); }
+  getTotalMinor(): number { return JournalEntry.sumSide(this.postings, 'debit'); }
+
+  toJSON(): any {
+    return {
+      id: this.getId(),
+      description: this.description,
+      reference: this.reference,
+      currency: this.getCurrency(),
+      postings: this.postings.map(p => ({
+        accountCode: p.account.getCode(),
+        side: p.side,
+        amountMinor: p.amountMinor
+      })),
+      postedBy: this.postedBy,
+      metadata: this.metadata,
+      createdAt: this.getCreatedAt().toISOString()
+    };
+  }
+}
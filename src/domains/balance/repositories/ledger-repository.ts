@@ -0,0 +1,242 @@
+/**
+ * Ledger Repository
+ * Domain-Driven Design Implementation
+ *
+ * Append-only storage for journal entries and their postings.
+ */
+
+import { Database } from 'bun:sqlite';
+import { LoggerFactory } from '../../../core/logging/domain-logger';
+import { JournalEntry } from '../entities/journal-entry';
+import { LedgerAccountType, PostingSide } from '../value-objects/ledger-account';
+
+export interface AccountTotals {
+  accountCode: string;
+  accountType: LedgerAccountType;
+  currency: string;
+  debitMinor: number;
+  creditMinor: number;
+}
+
+export interface UnbalancedEntry {
+  entryId: string;
+  debitMinor: number;
+  creditMinor: number;
+}
+
+export abstract class LedgerRepository {
+  abstract saveEntry(entry: JournalEntry): Promise<void>;
+  abstract findEntryById(id: string): Promise<JournalEntry | null>;
+  abstract findEntriesByReference(reference: string): Promise<JournalEntry[]>;
+  abstract findEntriesByAccount(accountCode: string, limit?: number): Promise<JournalEntry[]>;
+  abstract getAccountTotals(accountCode: string): Promise<AccountTotals | null>;
+  abstract getAllAccountTotals(currency?: string): Promise<AccountTotals[]>;
+  abstract findUnbalancedEntries(): Promise<UnbalancedEntry[]>;
+  abstract findEntriesWithoutPostings(): Promise<string[]>;
+}
+
+// SQLite Implementation
+export class SQLiteLedgerRepository extends LedgerRepository {
+  private db: Database;
+  private logger = LoggerFactory.create('ledger-repository');
+
+  constructor(dbPath: string = ':memory:') {
+    super();
+    this.db = new Database(dbPath);
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS journal_entries (
+        id TEXT PRIMARY KEY,
+        description TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        posted_by TEXT NOT NULL,
+        metadata TEXT, -- JSON object
+        created_at DATETIME NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS ledger_postings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id TEXT NOT NULL,
+        account_code TEXT NOT NULL,
+        account_type TEXT NOT NULL,
+        currency TEXT NOT NULL,
+        side TEXT NOT NULL CHECK (side IN ('debit', 'credit')),
+        amount_minor INTEGER NOT NULL CHECK (amount_minor > 0),
+        FOREIGN KEY (entry_id) REFERENCES journal_entries(id)
+      )
+    `);
+
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_journal_reference ON journal_entries(reference)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_postings_entry ON ledger_postings(entry_id)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_postings_account ON ledger_postings(account_code)`);
+
+    this.logger.system('Ledger database tables initialized');
+  }
+
+  async saveEntry(entry: JournalEntry): Promise<void> {
+    const data = entry.toJSON();
+    const insertEntry = this.db.prepare(`
+      INSERT INTO journal_entries (id, description, reference, currency, posted_by, metadata, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertPosting = this.db.prepare(`
+      INSERT INTO ledger_postings (entry_id, account_code, account_type, currency, side, amount_minor)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    try {
+      // Entry and postings commit together or not at all
+      this.db.transaction(() => {
+        insertEntry.run(
+          data.id,
+          data.description,
+          data.reference,
+          data.currency,
+          data.postedBy,
+          JSON.stringify(data.metadata || {}),
+          data.createdAt
+        );
+        for (const posting of entry.getPostings()) {
+          insertPosting.run(
+            data.id,
+            posting.account.getCode(),
+            posting.account.getType(),
+            posting.account.getCurrency(),
+            posting.side,
+            posting.amountMinor
+          );
+        }
+      })();
+    } catch (error) {
+      await this.logger.infrastructureError('Failed to save journal entry', error as Error, {
+        entity: 'JournalEntry',
+        entityId: data.id
+      });
+      throw error;
+    }
+  }
+
+  async findEntryById(id: string): Promise<JournalEntry | null> {
+    const row = this.db.prepare(`SELECT * FROM journal_entries WHERE id = ?`).get(id) as any;
+    return row ? this.mapRowToEntry(row) : null;
+  }
+
+  async findEntriesByReference(reference: string): Promise<JournalEntry[]> {
+    const rows = this.db
+      .prepare(`SELECT * FROM journal_entries WHERE reference = ? ORDER BY created_at ASC`)
+      .all(reference) as any[];
+    return rows.map(row => this.mapRowToEntry(row));
+  }
+
+  async findEntriesByAccount(accountCode: string, limit = 50): Promise<JournalEntry[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT DISTINCT e.* FROM journal_entries e
+        JOIN ledger_postings p ON p.entry_id = e.id
+        WHERE p.account_code = ?
+        ORDER BY e.created_at DESC
+        LIMIT ?
+      `)
+      .all(accountCode, limit) as any[];
+    return rows.map(row => this.mapRowToEntry(row));
+  }
+
+  async getAccountTotals(accountCode: string): Promise<AccountTotals | null> {
+    const row = this.db
+      .prepare(`
+        SELECT account_code, account_type, currency,
+          SUM(CASE WHEN side = 'debit' THEN amount_minor ELSE 0 END) AS debit_minor,
+          SUM(CASE WHEN side = 'credit' THEN amount_minor ELSE 0 END) AS credit_minor
+        FROM ledger_postings
+        WHERE account_code = ?
+        GROUP BY account_code
+      `)
+      .get(accountCode) as any;
+    return row ? this.mapRowToTotals(row) : null;
+  }
+
+  async getAllAccountTotals(currency?: string): Promise<AccountTotals[]> {
+    let sql = `
+      SELECT account_code, account_type, currency,
+        SUM(CASE WHEN side = 'debit' THEN amount_minor ELSE 0 END) AS debit_minor,
+        SUM(CASE WHEN side = 'credit' THEN amount_minor ELSE 0 END) AS credit_minor
+      FROM ledger_postings
+    `;
+    const params: any[] = [];
+
+    if (currency) {
+      sql += ' WHERE currency = ?';
+      params.push(currency);
+    }
+
+    sql += ' GROUP BY account_code ORDER BY account_code';
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map(row => this.mapRowToTotals(row));
+  }
+
+  async findUnbalancedEntries(): Promise<UnbalancedEntry[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT entry_id,
+          SUM(CASE WHEN side = 'debit' THEN amount_minor ELSE 0 END) AS debit_minor,
+          SUM(CASE WHEN side = 'credit' THEN amount_minor ELSE 0 END) AS credit_minor
+        FROM ledger_postings
+        GROUP BY entry_id
+        HAVING debit_minor != credit_minor
+      `)
+      .all() as any[];
+    return rows.map(row => ({
+      entryId: row.entry_id,
+      debitMinor: row.debit_minor,
+      creditMinor: row.credit_minor
+    }));
+  }
+
+  async findEntriesWithoutPostings(): Promise<string[]> {
+    const rows = this.db
+      .prepare(`
+        SELECT e.id FROM journal_entries e
+        LEFT JOIN ledger_postings p ON p.entry_id = e.id
+        WHERE p.id IS NULL
+      `)
+      .all() as any[];
+    return rows.map(row => row.id);
+  }
+
+  private mapRowToEntry(row: any): JournalEntry {
+    const postings = this.db
+      .prepare(`SELECT * FROM ledger_postings WHERE entry_id = ? ORDER BY id ASC`)
+      .all(row.id) as any[];
+
+    return JournalEntry.fromPersistence({
+      id: row.id,
+      description: row.description,
+      reference: row.reference,
+      postedBy: row.posted_by,
+      metadata: JSON.parse(row.metadata || '{}'),
+      createdAt: row.created_at,
+      postings: postings.map(p => ({
+        accountCode: p.account_code,
+        side: p.side as PostingSide,
+        amountMinor: p.amount_minor
+      }))
+    });
+  }
+
+  private mapRowToTotals(row: any): AccountTotals {
+    return {
+      accountCode: row.account_code,
+      accountType: row.account_type,
+      currency: row.currency,
+      debitMinor: row.debit_minor || 0,
+      creditMinor: row.credit_minor || 0
+    };
+  }
+}
@@ -8,11 +8,14 @@ import { BalanceRepository } from '../repositories/balance-repository';
 import { BalanceLimits } from '../value-objects/balance-limits';
 import { DomainEvents } from '../../shared/events/domain-events';
 import { DomainError } from '../../shared/domain-entity';
+import { LedgerService } from './ledger-service';
+import { LedgerAccount } from '../value-objects/ledger-account';
 
 export class BalanceService {
   constructor(
     private repository: BalanceRepository,
-    private eventPublisher: DomainEvents
+    private eventPublisher: DomainEvents,
+    private ledger?: LedgerService
   ) {}
 
   /**
@@ -22,6 +25,8 @@ export class BalanceService {
     customerId: string;
     agentId: string;
     initialBalance?: number;
+    /** Wallet currency; USD when omitted */
+    currency?: string;
     limits?: BalanceLimits;
   }): Promise<Balance> {
     // Check if balance already exists
@@ -31,6 +36,16 @@ export class BalanceService {
     }
 
     const balance = Balance.create(params);
+
+    if (this.ledger && params.initialBalance) {
+      await this.ledger.postOpeningBalance({
+        customerId: params.customerId,
+        amount: params.initialBalance,
+        currency: balance.getCurrency(),
+        performedBy: 'system'
+      });
+    }
+
     await this.repository.save(balance);
 
     await this.eventPublisher.publish('balance.created', {
@@ -59,6 +74,7 @@ export class BalanceService {
       throw new DomainError('Balance not found', 'BALANCE_NOT_FOUND');
     }
 
+    const cachedBalance = balance.getCurrentBalance();
     let change: BalanceChange;
 
     if (params.changeType === 'debit') {
@@ -67,6 +83,31 @@ export class BalanceService {
       change = balance.credit(params.amount, params.reason, params.performedBy);
     }
 
+    // Post to the ledger and derive the balance from its postings, in the
+    // wallet's own currency
+    if (this.ledger) {
+      const currency = balance.getCurrency();
+      await this.ledger.ensureOpeningBalance({
+        customerId: params.customerId,
+        amount: cachedBalance,
+        currency,
+        performedBy: 'system'
+      });
+      await this.ledger.postBalanceChange({
+        customerId: params.customerId,
+        amount: params.amount,
+        changeType: params.changeType,
+        reason: params.reason,
+        performedBy: params.performedBy,
+        currency,
+        reference: change.getId(),
+        metadata: params.metadata
+      });
+      balance.applyLedgerBalance(
+        await this.ledger.getAccountBalance(LedgerAccount.customer(params.customerId, currency))
+      );
+    }
+
     // Save both balance and change
     await this.repository.save(balance);
     await this.repository.saveChange(change);
@@ -0,0 +1,224 @@
+/**
+ * Ledger Service Tests
+ * Double-entry invariants, derived balances and integrity checks
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { LedgerService } from "./ledger-service";
+import { BalanceService } from "./balance-service";
+import { Balance } from "../entities/balance";
+import { DomainEvents } from "../../shared/events/domain-events";
+import { SQLiteLedgerRepository } from "../repositories/ledger-repository";
+import { JournalEntry } from "../entities/journal-entry";
+import { LedgerAccount } from "../value-objects/ledger-account";
+import { BusinessRuleViolationError } from "../../../core/errors/domain-errors";
+
+describe("JournalEntry", () => {
+  it("should reject unbalanced entries", () => {
+    expect(() =>
+      JournalEntry.create({
+        description: "Broken",
+        reference: "ref-1",
+        postedBy: "test",
+        postings: [
+          { account: LedgerAccount.house(), side: "debit", amountMinor: 1000 },
+          { account: LedgerAccount.customer("c1"), side: "credit", amountMinor: 999 },
+        ],
+      }),
+    ).toThrow(BusinessRuleViolationError);
+  });
+
+  it("should reject entries mixing currencies", () => {
+    expect(() =>
+      JournalEntry.create({
+        description: "Mixed",
+        reference: "ref-2",
+        postedBy: "test",
+        postings: [
+          { account: LedgerAccount.house("USD"), side: "debit", amountMinor: 1000 },
+          { account: LedgerAccount.customer("c1", "EUR"), side: "credit", amountMinor: 1000 },
+        ],
+      }),
+    ).toThrow("mixes currencies");
+  });
+});
+
+describe("LedgerService", () => {
+  let ledger: LedgerService;
+
+  beforeEach(() => {
+    ledger = new LedgerService(new SQLiteLedgerRepository(":memory:"));
+  });
+
+  it("should derive customer balances from postings", async () => {
+    await ledger.postBalanceChange({
+      customerId: "c1",
+      amount: 100.1,
+      changeType: "credit",
+      reason: "Deposit",
+      performedBy: "test",
+    });
+    await ledger.postBalanceChange({
+      customerId: "c1",
+      amount: 20.2,
+      changeType: "debit",
+      reason: "Wager",
+      performedBy: "test",
+    });
+
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1"))).toBe(79.9);
+    expect(await ledger.getAccountBalance(LedgerAccount.house())).toBe(79.9);
+  });
+
+  it("should clear suspense when a collected payment settles", async () => {
+    await ledger.postCollectionPayment({
+      id: "pay_1",
+      customerId: "c1",
+      amount: 250,
+      currency: "USD",
+    });
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1"))).toBe(0);
+
+    await ledger.postBalanceChange({
+      customerId: "c1",
+      amount: 250,
+      changeType: "credit",
+      reason: "Payment processed",
+      performedBy: "system",
+    });
+    await ledger.postSettlementCompletion({
+      id: "stl_1",
+      paymentId: "pay_1",
+      merchantId: "m1",
+      amount: 250,
+      totalFees: 7.55,
+      currency: "USD",
+    });
+
+    expect(await ledger.getAccountBalance(LedgerAccount.suspense())).toBe(0);
+    expect(await ledger.getAccountBalance(LedgerAccount.fees())).toBe(7.55);
+    expect(await ledger.getAccountBalance(LedgerAccount.house())).toBe(242.45);
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1"))).toBe(250);
+  });
+
+  it("should produce a balanced trial balance per currency", async () => {
+    await ledger.postBalanceChange({
+      customerId: "c1",
+      amount: 50,
+      changeType: "credit",
+      reason: "Deposit",
+      performedBy: "test",
+    });
+    await ledger.postBalanceChange({
+      customerId: "c2",
+      amount: 40,
+      changeType: "credit",
+      reason: "Deposit",
+      performedBy: "test",
+      currency: "EUR",
+    });
+
+    const usd = await ledger.getTrialBalance("USD");
+    expect(usd.balanced).toBe(true);
+    expect(usd.totalDebits).toBe(50);
+    expect(usd.lines.map((l) => l.accountCode)).toEqual([
+      "customer:c1:USD",
+      "house:main:USD",
+    ]);
+
+    const report = await ledger.verifyIntegrity();
+    expect(report.healthy).toBe(true);
+    expect(report.trialBalances).toHaveLength(2);
+  });
+});
+
+describe("BalanceService with a ledger", () => {
+  let ledger: LedgerService;
+  let stored: Balance;
+  let service: BalanceService;
+
+  beforeEach(() => {
+    ledger = new LedgerService(new SQLiteLedgerRepository(":memory:"));
+    // A wallet from before the ledger existed: no opening journal entry
+    stored = Balance.create({ id: "bal_1", customerId: "c1", agentId: "a1", initialBalance: 500 });
+    const repository = {
+      findByCustomerId: async () => stored,
+      save: async (balance: Balance) => {
+        stored = balance;
+      },
+      saveChange: async () => {},
+    };
+    service = new BalanceService(repository as any, DomainEvents.getInstance(), ledger);
+  });
+
+  it("should keep existing balances when the first change posts to the ledger", async () => {
+    const credit = await service.processBalanceChange({
+      customerId: "c1",
+      amount: 100,
+      changeType: "credit",
+      reason: "Deposit",
+      performedBy: "test",
+    });
+    expect(credit.balance.getCurrentBalance()).toBe(600);
+
+    const debit = await service.processBalanceChange({
+      customerId: "c1",
+      amount: 50,
+      changeType: "debit",
+      reason: "Wager",
+      performedBy: "test",
+    });
+    expect(debit.balance.getCurrentBalance()).toBe(550);
+
+    expect(await ledger.getEntriesByReference("opening:c1")).toHaveLength(1);
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1"))).toBe(550);
+    expect((await ledger.verifyIntegrity()).healthy).toBe(true);
+  });
+
+  it("should credit a collected payment once and keep the opening balance", async () => {
+    // Collections posts first, then the balance domain credits the wallet
+    await ledger.postCollectionPayment({
+      id: "pay_1",
+      customerId: "c1",
+      amount: 100,
+      currency: "USD",
+    });
+    const credit = await service.processBalanceChange({
+      customerId: "c1",
+      amount: 100,
+      changeType: "credit",
+      reason: "Payment processed",
+      performedBy: "system",
+    });
+
+    expect(credit.balance.getCurrentBalance()).toBe(600);
+    const [opening] = await ledger.getEntriesByReference("opening:c1");
+    expect(opening.getTotalMinor()).toBe(50000);
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1"))).toBe(600);
+    expect(await ledger.getAccountBalance(LedgerAccount.suspense())).toBe(100);
+    expect((await ledger.verifyIntegrity()).healthy).toBe(true);
+  });
+
+  it("should post changes in the wallet currency", async () => {
+    stored = Balance.create({
+      id: "bal_2",
+      customerId: "c1",
+      agentId: "a1",
+      initialBalance: 0.5,
+      currency: "BTC",
+    });
+
+    const credit = await service.processBalanceChange({
+      customerId: "c1",
+      amount: 0.25,
+      changeType: "credit",
+      reason: "Deposit",
+      performedBy: "test",
+    });
+
+    expect(credit.balance.getCurrentBalance()).toBe(0.75);
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1", "BTC"))).toBe(0.75);
+    expect(await ledger.getAccountBalance(LedgerAccount.customer("c1"))).toBe(0);
+    expect((await ledger.getTrialBalance("BTC")).balanced).toBe(true);
+  });
+});
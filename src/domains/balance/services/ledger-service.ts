@@ -0,0 +1,306 @@
+/**
+ * Ledger Service
+ * Domain-Driven Design Implementation
+ *
+ * Double-entry ledger underneath the Balance domain. Every money movement is
+ * a balanced journal entry; account balances are derived from postings.
+ */
+
+import { JournalEntry, Posting, fromMinorUnits, toMinorUnits } from '../entities/journal-entry';
+import { LedgerRepository, AccountTotals, UnbalancedEntry } from '../repositories/ledger-repository';
+import { LedgerAccount, LedgerAccountType, NORMAL_SIDE } from '../value-objects/ledger-account';
+import { LoggerFactory } from '../../../core/logging/domain-logger';
+
+export interface TrialBalanceLine {
+  accountCode: string;
+  accountType: LedgerAccountType;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface TrialBalance {
+  currency: string;
+  lines: TrialBalanceLine[];
+  totalDebits: number;
+  totalCredits: number;
+  balanced: boolean;
+  generatedAt: Date;
+}
+
+export interface LedgerIntegrityReport {
+  healthy: boolean;
+  unbalancedEntries: UnbalancedEntry[];
+  entriesWithoutPostings: string[];
+  trialBalances: TrialBalance[];
+  checkedAt: Date;
+}
+
+export class LedgerService {
+  private readonly logger = LoggerFactory.create('ledger-service');
+
+  constructor(private repository: LedgerRepository) {}
+
+  /**
+   * Post a balanced journal entry
+   */
+  async post(entry: JournalEntry): Promise<JournalEntry> {
+    await this.repository.saveEntry(entry);
+
+    await this.logger.audit('Journal entry posted', {
+      entity: 'JournalEntry',
+      entityId: entry.getId(),
+      operation: 'post',
+      metadata: {
+        reference: entry.getReference(),
+        currency: entry.getCurrency(),
+        totalMinor: entry.getTotalMinor()
+      }
+    });
+
+    return entry;
+  }
+
+  /**
+   * Balance of an account on its normal side, in major units
+   */
+  async getAccountBalance(account: LedgerAccount): Promise<number> {
+    const totals = await this.repository.getAccountTotals(account.getCode());
+    if (!totals) return 0;
+    return fromMinorUnits(this.normalBalanceMinor(totals), account.getCurrency());
+  }
+
+  async getAccountEntries(account: LedgerAccount, limit?: number): Promise<JournalEntry[]> {
+    return this.repository.findEntriesByAccount(account.getCode(), limit);
+  }
+
+  async getEntriesByReference(reference: string): Promise<JournalEntry[]> {
+    return this.repository.findEntriesByReference(reference);
+  }
+
+  /**
+   * Opening balance for a customer wallet funded from house cash
+   */
+  async postOpeningBalance(params: {
+    customerId: string;
+    amount: number;
+    currency?: string;
+    performedBy: string;
+  }): Promise<JournalEntry | null> {
+    if (params.amount === 0) return null;
+
+    const customer = LedgerAccount.customer(params.customerId, params.currency);
+    const house = LedgerAccount.house(params.currency);
+    const isCredit = params.amount > 0;
+
+    return this.post(JournalEntry.transfer({
+      debit: isCredit ? house : customer,
+      credit: isCredit ? customer : house,
+      amount: Math.abs(params.amount),
+      description: 'Opening balance',
+      reference: `opening:${params.customerId}`,
+      postedBy: params.performedBy
+    }));
+  }
+
+  /**
+   * Opening balance for a wallet that predates the ledger. Posts whatever
+   * brings the customer account to the cached balance, so deriving the
+   * balance from postings afterwards does not wipe it. Runs once per customer.
+   */
+  async ensureOpeningBalance(params: {
+    customerId: string;
+    amount: number;
+    currency?: string;
+    performedBy: string;
+  }): Promise<JournalEntry | null> {
+    const opening = await this.repository.findEntriesByReference(`opening:${params.customerId}`);
+    if (opening.length > 0) return null;
+
+    const ledgerMinor = toMinorUnits(
+      await this.getAccountBalance(LedgerAccount.customer(params.customerId, params.currency)),
+      params.currency
+    );
+    const differenceMinor = toMinorUnits(params.amount, params.currency) - ledgerMinor;
+
+    return this.postOpeningBalance({
+      ...params,
+      amount: fromMinorUnits(differenceMinor, params.currency)
+    });
+  }
+
+  /**
+   * Customer wallet credit/debit against house cash
+   */
+  async postBalanceChange(params: {
+    customerId: string;
+    amount: number;
+    changeType: 'credit' | 'debit';
+    reason: string;
+    performedBy: string;
+    currency?: string;
+    reference?: string;
+    metadata?: Record<string, any>;
+  }): Promise<JournalEntry> {
+    const customer = LedgerAccount.customer(params.customerId, params.currency);
+    const house = LedgerAccount.house(params.currency);
+
+    return this.post(JournalEntry.transfer({
+      debit: params.changeType === 'credit' ? house : customer,
+      credit: params.changeType === 'credit' ? customer : house,
+      amount: params.amount,
+      description: params.reason,
+      reference: params.reference || `balance:${params.customerId}`,
+      postedBy: params.performedBy,
+      metadata: params.metadata
+    }));
+  }
+
+  /**
+   * Collected payment: funds are in transit (suspense) until settled.
+   * The customer's wallet is credited from house cash by the Balance domain,
+   * which posts any opening balance first; crediting it here as well would
+   * pay the deposit twice.
+   */
+  async postCollectionPayment(payment: {
+    id: string;
+    customerId: string;
+    amount: number;
+    currency: string;
+  }): Promise<JournalEntry> {
+    return this.post(JournalEntry.transfer({
+      debit: LedgerAccount.suspense(payment.currency),
+      credit: LedgerAccount.house(payment.currency),
+      amount: payment.amount,
+      description: 'Payment collected',
+      reference: `payment:${payment.id}`,
+      postedBy: 'collections',
+      metadata: { customerId: payment.customerId }
+    }));
+  }
+
+  /**
+   * Settlement completed: clears suspense into house cash, net of fees
+   */
+  async postSettlementCompletion(settlement: {
+    id: string;
+    paymentId: string;
+    merchantId: string;
+    amount: number;
+    totalFees: number;
+    currency: string;
+    bankReference?: string;
+  }): Promise<JournalEntry> {
+    const grossMinor = toMinorUnits(settlement.amount, settlement.currency);
+    const feesMinor = toMinorUnits(settlement.totalFees, settlement.currency);
+    const netMinor = grossMinor - feesMinor;
+
+    const postings: Posting[] = [
+      { account: LedgerAccount.suspense(settlement.currency), side: 'credit', amountMinor: grossMinor }
+    ];
+    if (netMinor > 0) {
+      postings.push({ account: LedgerAccount.house(settlement.currency), side: 'debit', amountMinor: netMinor });
+    }
+    if (feesMinor > 0) {
+      postings.push({ account: LedgerAccount.fees(settlement.currency), side: 'debit', amountMinor: feesMinor });
+    }
+
+    return this.post(JournalEntry.create({
+      description: 'Settlement completed',
+      reference: `settlement:${settlement.id}`,
+      postedBy: 'settlement',
+      postings,
+      metadata: {
+        paymentId: settlement.paymentId,
+        merchantId: settlement.merchantId,
+        bankReference: settlement.bankReference
+      }
+    }));
+  }
+
+  /**
+   * Trial balance for one currency; debits and credits must sum to zero
+   */
+  async getTrialBalance(currency = 'USD'): Promise<TrialBalance> {
+    const totals = await this.repository.getAllAccountTotals(currency);
+    return this.buildTrialBalance(currency, totals);
+  }
+
+  /**
+   * Prove the books: every entry balances and every currency nets to zero
+   */
+  async verifyIntegrity(): Promise<LedgerIntegrityReport> {
+    const [unbalancedEntries, entriesWithoutPostings, totals] = await Promise.all([
+      this.repository.findUnbalancedEntries(),
+      this.repository.findEntriesWithoutPostings(),
+      this.repository.getAllAccountTotals()
+    ]);
+
+    const byCurrency = new Map<string, AccountTotals[]>();
+    for (const row of totals) {
+      if (!byCurrency.has(row.currency)) byCurrency.set(row.currency, []);
+      byCurrency.get(row.currency)!.push(row);
+    }
+
+    const trialBalances = Array.from(byCurrency.entries()).map(([currency, rows]) =>
+      this.buildTrialBalance(currency, rows)
+    );
+
+    const healthy =
+      unbalancedEntries.length === 0 &&
+      entriesWithoutPostings.length === 0 &&
+      trialBalances.every(tb => tb.balanced);
+
+    const report: LedgerIntegrityReport = {
+      healthy,
+      unbalancedEntries,
+      entriesWithoutPostings,
+      trialBalances,
+      checkedAt: new Date()
+    };
+
+    if (!healthy) {
+      await this.logger.critical('Ledger integrity check failed', undefined, {
+        operation: 'verifyIntegrity',
+        metadata: {
+          unbalancedEntries: unbalancedEntries.length,
+          entriesWithoutPostings: entriesWithoutPostings.length
+        }
+      });
+    }
+
+    return report;
+  }
+
+  private buildTrialBalance(currency: string, totals: AccountTotals[]): TrialBalance {
+    let debitMinor = 0;
+    let creditMinor = 0;
+
+    const lines = totals.map(row => {
+      debitMinor += row.debitMinor;
+      creditMinor += row.creditMinor;
+      return {
+        accountCode: row.accountCode,
+        accountType: row.accountType,
+        debit: fromMinorUnits(row.debitMinor, currency),
+        credit: fromMinorUnits(row.creditMinor, currency),
+        balance: fromMinorUnits(this.normalBalanceMinor(row), currency)
+      };
+    });
+
+    return {
+      currency,
+      lines,
+      totalDebits: fromMinorUnits(debitMinor, currency),
+      totalCredits: fromMinorUnits(creditMinor, currency),
+      balanced: debitMinor === creditMinor,
+      generatedAt: new Date()
+    };
+  }
+
+  private normalBalanceMinor(totals: AccountTotals): number {
+    return NORMAL_SIDE[totals.accountType] === 'credit'
+      ? totals.creditMinor - totals.debitMinor
+      : totals.debitMinor - totals.creditMinor;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Ledger Account Value Object
+ * Domain-Driven Design Implementation
+ */
+
+import { ValueObject } from '../../shared/value-object';
+
+export type LedgerAccountType = 'customer' | 'agent' | 'house' | 'fees' | 'suspense';
+export type PostingSide = 'debit' | 'credit';
+
+/**
+ * Side on which each account type normally carries its balance.
+ * Customer and agent wallets are liabilities of the house; house cash,
+ * processing fees (expense) and suspense (funds in transit) are debit-normal.
+ */
+export const NORMAL_SIDE: Record<LedgerAccountType, PostingSide> = {
+  customer: 'credit',
+  agent: 'credit',
+  house: 'debit',
+  fees: 'debit',
+  suspense: 'debit'
+};
+
+export class LedgerAccount extends ValueObject {
+  private constructor(
+    private readonly type: LedgerAccountType,
+    private readonly ownerId: string,
+    private readonly currency: string
+  ) {
+    super();
+  }
+
+  static customer(customerId: string, currency = 'USD'): LedgerAccount {
+    return new LedgerAccount('customer', customerId, currency);
+  }
+
+  static agent(agentId: string, currency = 'USD'): LedgerAccount {
+    return new LedgerAccount('agent', agentId, currency);
+  }
+
+  static house(currency = 'USD'): LedgerAccount {
+    return new LedgerAccount('house', 'main', currency);
+  }
+
+  static fees(currency = 'USD'): LedgerAccount {
+    return new LedgerAccount('fees', 'main', currency);
+  }
+
+  static suspense(currency = 'USD'): LedgerAccount {
+    return new LedgerAccount('suspense', 'main', currency);
+  }
+
+  /**
+   * Parse an account code of the form `type:ownerId:currency`
+   */
+  static fromCode(code: string): LedgerAccount {
+    const [type, ownerId, currency] = code.split(':');
+    if (!type || !ownerId || !currency || !(type in NORMAL_SIDE)) {
+      throw new Error(`Invalid ledger account code: ${code}`);
+    }
+    return new LedgerAccount(type as LedgerAccountType, ownerId, currency);
+  }
+
+  // Getters
+  getType(): LedgerAccountType { return this.type; }
+  getOwnerId(): string { return this.ownerId; }
+  getCurrency(): string { return this.currency; }
+  getNormalSide(): PostingSide { return NORMAL_SIDE[this.type]; }
+  getCode(): string { return `${this.type}:${this.ownerId}:${this.currency}`; }
+
+  equals(other: ValueObject): boolean {
+    if (!(other instanceof LedgerAccount)) return false;
+    return this.getCode() === other.getCode();
+  }
+
+  toString(): string {
+    return this.getCode();
+  }
+}
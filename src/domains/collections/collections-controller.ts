@@ -11,8 +11,22 @@ import {
   CollectionMetrics,
 } from "./collections-service";
 import { CollectionsRepositoryFactory } from "./collections-repository";
+import { IdempotencyService } from "../../core/idempotency/idempotency";
+import { LedgerService } from "../balance/services/ledger-service";
+import { SQLiteLedgerRepository } from "../balance/repositories/ledger-repository";
+import { BankReconciliationService } from "./reconciliation/bank-reconciliation-service";
+import type {
+  CsvColumnMapping,
+  StatementFormat,
+} from "./reconciliation/statement-parsers";
+import type {
+  MatchQueue,
+  MatchTargetType,
+} from "./reconciliation/matching-engine";
 
 export interface ProcessPaymentRequest {
+  /** Client-supplied key; replays return the first result */
+  idempotencyKey?: string;
   amount: number;
   currency: string;
   paymentMethod: "card" | "bank_transfer" | "wallet" | "crypto";
@@ -32,6 +46,21 @@ export interface ReconcileSettlementRequest {
   netAmount: number;
 }
 
+export interface ImportStatementRequest {
+  format: StatementFormat;
+  content: string;
+  /** Required for CSV statements */
+  mapping?: CsvColumnMapping;
+}
+
+export interface ResolveStatementLineRequest {
+  lineId: string;
+  action: "confirm" | "reject";
+  resolvedBy: string;
+  /** Confirm against a different record than the suggestion */
+  target?: { type: MatchTargetType; id: string };
+}
+
 export interface RevenueQuery {
   startDate: string;
   endDate: string;
@@ -85,12 +114,23 @@ export class CollectionsController {
   private service: CollectionsService;
   private logger = LoggerFactory.create("collections-controller");
   private errorFactory = new DomainErrorFactory("collections");
-
-  constructor(dbPath?: string) {
+  private idempotency: IdempotencyService;
+  private reconciliation: BankReconciliationService;
+
+  constructor(
+    ledger: LedgerService,
+    dbPath?: string,
+    idempotency: IdempotencyService = IdempotencyService.getInstance(),
+  ) {
     // Initialize repository and service
     const repository =
       CollectionsRepositoryFactory.createSQLiteRepository(dbPath);
-    this.service = CollectionsServiceFactory.create(repository);
+    this.service = CollectionsServiceFactory.create(repository, ledger);
+    this.idempotency = idempotency;
+    this.reconciliation = new BankReconciliationService(
+      repository,
+      this.service,
+    );
   }
 
   /**
@@ -115,45 +155,44 @@ export class CollectionsController {
         return this.createErrorResponse(validationError, startTime);
       }
 
-      // Process payment
-      const payment = await this.service.processPayment({
-        amount: request.amount,
-        currency: request.currency,
-        paymentMethod: request.paymentMethod,
-        customerId: request.customerId,
-        merchantId: request.merchantId,
-        reference: request.reference,
-        metadata: request.metadata || {},
-      });
-
-      const processingTime = Date.now() - startTime;
-
-      await this.logger.business(
-        "Payment processed successfully",
-        {
-          operation: "processPayment",
-          entityId: payment.id,
-          customerId: payment.customerId,
-        },
-        {
-          processingTime,
+      // Process payment (at most once per idempotency key)
+      const { idempotencyKey, ...command } = request;
+      const data = await this.idempotency.execute(
+        "collections.processPayment",
+        idempotencyKey,
+        command,
+        async (): Promise<PaymentResponse> => {
+          const payment = await this.service.processPayment({
+            amount: request.amount,
+            currency: request.currency,
+            paymentMethod: request.paymentMethod,
+            customerId: request.customerId,
+            merchantId: request.merchantId,
+            reference: request.reference,
+            metadata: request.metadata || {},
+          });
+
+          await this.logger.business("Payment processed successfully", {
+            operation: "processPayment",
+            entityId: payment.id,
+            customerId: payment.customerId,
+          });
+
+          return {
+            id: payment.id,
+            amount: payment.amount,
+            currency: payment.currency,
+            status: payment.status,
+            paymentMethod: payment.paymentMethod,
+            customerId: payment.customerId,
+            reference: payment.reference,
+            createdAt: payment.createdAt.toISOString(),
+            processedAt: payment.processedAt?.toISOString(),
+          };
         },
       );
 
-      return this.createSuccessResponse(
-        {
-          id: payment.id,
-          amount: payment.amount,
-          currency: payment.currency,
-          status: payment.status,
-          paymentMethod: payment.paymentMethod,
-          customerId: payment.customerId,
-          reference: payment.reference,
-          createdAt: payment.createdAt.toISOString(),
-          processedAt: payment.processedAt?.toISOString(),
-        },
-        processingTime,
-      );
+      return this.createSuccessResponse(data, Date.now() - startTime);
     } catch (error) {
       return this.handleError(error, "processPayment", startTime);
     }
@@ -231,6 +270,116 @@ export class CollectionsController {
     }
   }
 
+  /**
+   * Import a bank statement and auto-match its lines
+   */
+  async importBankStatement(
+    request: ImportStatementRequest,
+  ): Promise<CollectionsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (!["camt.053", "mt940", "csv"].includes(request.format)) {
+        return this.createErrorResponse(
+          "Format must be one of camt.053, mt940, csv",
+          startTime,
+        );
+      }
+
+      if (!request.content) {
+        return this.createErrorResponse("Statement content is required", startTime);
+      }
+
+      if (request.format === "csv" && !request.mapping?.date) {
+        return this.createErrorResponse(
+          "CSV statements require a column mapping with a date column",
+          startTime,
+        );
+      }
+
+      const result = await this.reconciliation.importStatement(
+        request.format,
+        request.content,
+        request.mapping,
+      );
+
+      return this.createSuccessResponse(result, Date.now() - startTime);
+    } catch (error) {
+      return this.handleError(error, "importBankStatement", startTime);
+    }
+  }
+
+  /**
+   * List statement lines in a reconciliation queue
+   */
+  async getReconciliationQueue(
+    queue?: MatchQueue,
+    limit?: number,
+  ): Promise<CollectionsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (queue && !["matched", "suggested", "unmatched"].includes(queue)) {
+        return this.createErrorResponse(
+          "Queue must be one of matched, suggested, unmatched",
+          startTime,
+        );
+      }
+
+      const lines = await this.reconciliation.getQueue(queue, limit);
+
+      return this.createSuccessResponse(
+        { queue: queue ?? "all", count: lines.length, lines },
+        Date.now() - startTime,
+      );
+    } catch (error) {
+      return this.handleError(error, "getReconciliationQueue", startTime);
+    }
+  }
+
+  /**
+   * Confirm or reject a suggested statement match
+   */
+  async resolveStatementLine(
+    request: ResolveStatementLineRequest,
+  ): Promise<CollectionsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (!request.lineId || !request.resolvedBy) {
+        return this.createErrorResponse(
+          "Line ID and resolvedBy are required",
+          startTime,
+        );
+      }
+
+      const line =
+        request.action === "confirm"
+          ? await this.reconciliation.confirmMatch(
+              request.lineId,
+              request.resolvedBy,
+              request.target,
+            )
+          : request.action === "reject"
+            ? await this.reconciliation.rejectMatch(
+                request.lineId,
+                request.resolvedBy,
+              )
+            : null;
+
+      if (!line) {
+        return this.createErrorResponse(
+          "Action must be confirm or reject",
+          startTime,
+        );
+      }
+
+      return this.createSuccessResponse(line, Date.now() - startTime);
+    } catch (error) {
+      return this.handleError(error, "resolveStatementLine", startTime);
+    }
+  }
+
   /**
    * Calculate revenue metrics
    */
@@ -441,11 +590,14 @@ export class CollectionsController {
 
 // Factory for creating collections controllers
 export class CollectionsControllerFactory {
-  static create(dbPath?: string): CollectionsController {
-    return new CollectionsController(dbPath);
+  static create(ledger: LedgerService, dbPath?: string): CollectionsController {
+    return new CollectionsController(ledger, dbPath);
   }
 
   static createWithInMemoryDb(): CollectionsController {
-    return new CollectionsController(":memory:");
+    return new CollectionsController(
+      new LedgerService(new SQLiteLedgerRepository(":memory:")),
+      ":memory:",
+    );
   }
 }
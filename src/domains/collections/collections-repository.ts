@@ -10,8 +10,15 @@ import {
   Payment,
   Settlement,
 } from "./collections-service";
-
-export class SQLiteCollectionsRepository implements CollectionsRepository {
+import type {
+  ReconciledStatementLine,
+  StatementLineStore,
+} from "./reconciliation/bank-reconciliation-service";
+import type { MatchQueue } from "./reconciliation/matching-engine";
+
+export class SQLiteCollectionsRepository
+  implements CollectionsRepository, StatementLineStore
+{
   private db: Database;
   private logger = LoggerFactory.create("collections-repository");
 
@@ -57,6 +64,32 @@ export class SQLiteCollectionsRepository implements CollectionsRepository {
       )
     `);
 
+    // Imported bank statement lines and their reconciliation queue
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS statement_lines (
+        line_id TEXT PRIMARY KEY,
+        statement_id TEXT NOT NULL,
+        booking_date DATE NOT NULL,
+        value_date DATE,
+        amount REAL NOT NULL,
+        currency TEXT NOT NULL,
+        reference TEXT,
+        counterparty_name TEXT,
+        description TEXT,
+        bank_reference TEXT,
+        queue TEXT NOT NULL,
+        match_type TEXT,
+        match_id TEXT,
+        match_score REAL,
+        match_reasons TEXT, -- JSON array
+        alternatives TEXT, -- JSON array
+        settlement_id TEXT,
+        resolved_by TEXT,
+        resolved_at DATETIME,
+        imported_at DATETIME NOT NULL
+      )
+    `);
+
     // Create indexes for performance
     this.db.run(
       `CREATE INDEX IF NOT EXISTS idx_payments_customer ON payments(customer_id)`,
@@ -76,6 +109,9 @@ export class SQLiteCollectionsRepository implements CollectionsRepository {
     this.db.run(
       `CREATE INDEX IF NOT EXISTS idx_settlements_date ON settlements(settlement_date)`,
     );
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_statement_lines_queue ON statement_lines(queue)`,
+    );
 
     this.logger.system("Collections database tables initialized");
   }
@@ -348,7 +384,124 @@ export class SQLiteCollectionsRepository implements CollectionsRepository {
     }
   }
 
+  async saveStatementLine(line: ReconciledStatementLine): Promise<void> {
+    try {
+      this.db
+        .prepare(
+          `
+        INSERT OR REPLACE INTO statement_lines (
+          line_id, statement_id, booking_date, value_date, amount, currency,
+          reference, counterparty_name, description, bank_reference, queue,
+          match_type, match_id, match_score, match_reasons, alternatives,
+          settlement_id, resolved_by, resolved_at, imported_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        )
+        .run(
+          line.lineId,
+          line.statementId,
+          line.bookingDate.toISOString(),
+          line.valueDate?.toISOString() ?? null,
+          line.amount,
+          line.currency,
+          line.reference ?? null,
+          line.counterpartyName ?? null,
+          line.description ?? null,
+          line.bankReference ?? null,
+          line.queue,
+          line.match?.type ?? null,
+          line.match?.id ?? null,
+          line.match?.score ?? null,
+          JSON.stringify(line.match?.reasons ?? []),
+          JSON.stringify(line.alternatives),
+          line.settlementId ?? null,
+          line.resolvedBy ?? null,
+          line.resolvedAt?.toISOString() ?? null,
+          line.importedAt.toISOString(),
+        );
+    } catch (error) {
+      await this.logger.infrastructureError(
+        "Failed to save statement line",
+        error as Error,
+        {
+          lineId: line.lineId,
+        },
+      );
+      throw error;
+    }
+  }
+
+  async findStatementLine(
+    lineId: string,
+  ): Promise<ReconciledStatementLine | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM statement_lines WHERE line_id = ?`)
+      .get(lineId) as any;
+
+    return row ? this.mapRowToStatementLine(row) : null;
+  }
+
+  async findStatementLines(
+    queue?: MatchQueue,
+    limit: number = 100,
+  ): Promise<ReconciledStatementLine[]> {
+    const rows = (
+      queue
+        ? this.db
+            .prepare(
+              `SELECT * FROM statement_lines WHERE queue = ? ORDER BY booking_date DESC, line_id LIMIT ?`,
+            )
+            .all(queue, limit)
+        : this.db
+            .prepare(
+              `SELECT * FROM statement_lines ORDER BY booking_date DESC, line_id LIMIT ?`,
+            )
+            .all(limit)
+    ) as any[];
+
+    return rows.map((row) => this.mapRowToStatementLine(row));
+  }
+
+  async findMatchedTargets(): Promise<Set<string>> {
+    const rows = this.db
+      .prepare(
+        `SELECT match_type, match_id FROM statement_lines WHERE queue = 'matched' AND match_id IS NOT NULL`,
+      )
+      .all() as any[];
+
+    return new Set(rows.map((row) => `${row.match_type}:${row.match_id}`));
+  }
+
   // Helper methods for mapping database rows to domain entities
+  private mapRowToStatementLine(row: any): ReconciledStatementLine {
+    return {
+      lineId: row.line_id,
+      statementId: row.statement_id,
+      bookingDate: new Date(row.booking_date),
+      valueDate: row.value_date ? new Date(row.value_date) : undefined,
+      amount: row.amount,
+      currency: row.currency,
+      reference: row.reference ?? undefined,
+      counterpartyName: row.counterparty_name ?? undefined,
+      description: row.description ?? undefined,
+      bankReference: row.bank_reference ?? undefined,
+      queue: row.queue,
+      match: row.match_id
+        ? {
+            type: row.match_type,
+            id: row.match_id,
+            score: row.match_score,
+            reasons: JSON.parse(row.match_reasons || "[]"),
+          }
+        : undefined,
+      alternatives: JSON.parse(row.alternatives || "[]"),
+      settlementId: row.settlement_id ?? undefined,
+      resolvedBy: row.resolved_by ?? undefined,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      importedAt: new Date(row.imported_at),
+    };
+  }
+
   private mapRowToPayment(row: any): Payment {
     return {
       id: row.id,
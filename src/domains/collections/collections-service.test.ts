@@ -13,6 +13,10 @@ import {
   SQLiteCollectionsRepository,
   CollectionsRepositoryFactory,
 } from "./collections-repository";
+import { LedgerService } from "../balance/services/ledger-service";
+import { SQLiteLedgerRepository } from "../balance/repositories/ledger-repository";
+
+const ledger = () => new LedgerService(new SQLiteLedgerRepository(":memory:"));
 
 // Mock repository for testing
 class MockCollectionsRepository {
@@ -97,7 +101,7 @@ describe("CollectionsService", () => {
 
   beforeEach(() => {
     mockRepo = new MockCollectionsRepository();
-    service = new CollectionsService(mockRepo as any);
+    service = new CollectionsService(mockRepo as any, ledger());
   });
 
   afterEach(() => {
@@ -421,7 +425,7 @@ describe("CollectionsService", () => {
           Promise.reject(new Error("Database connection failed")),
       };
 
-      const brokenService = new CollectionsService(brokenRepo as any);
+      const brokenService = new CollectionsService(brokenRepo as any, ledger());
 
       const paymentData = {
         amount: 100.0,
@@ -457,7 +461,7 @@ describe("CollectionsService Performance", () => {
 
   beforeEach(() => {
     mockRepo = new MockCollectionsRepository();
-    service = new CollectionsService(mockRepo as any);
+    service = new CollectionsService(mockRepo as any, ledger());
   });
 
   it("should handle multiple concurrent payments", async () => {
@@ -17,6 +17,7 @@ import {
   LoggerFactory,
   LogCategory,
 } from "../../core/logging/domain-logger";
+import { LedgerService } from "../balance/services/ledger-service";
 
 // Domain Entities
 export interface Payment {
@@ -65,8 +66,13 @@ export class CollectionsService {
   // Repository interface (would be injected in real implementation)
   private repository: CollectionsRepository;
 
-  constructor(repository: CollectionsRepository) {
+  // Double-entry ledger; collected funds sit in suspense until settled and
+  // the customer's wallet is credited by the Balance domain
+  private ledger: LedgerService;
+
+  constructor(repository: CollectionsRepository, ledger: LedgerService) {
     this.repository = repository;
+    this.ledger = ledger;
   }
 
   /**
@@ -103,6 +109,10 @@ export class CollectionsService {
             const processedPayment =
               await this.processPaymentTransaction(payment);
 
+            if (processedPayment.status === "completed") {
+              await this.ledger.postCollectionPayment(processedPayment);
+            }
+
             await this.logger.business(
               "Payment processed successfully",
               {
@@ -453,7 +463,10 @@ export interface CollectionsRepository {
 
 // Factory for creating collections services
 export class CollectionsServiceFactory {
-  static create(repository: CollectionsRepository): CollectionsService {
-    return new CollectionsService(repository);
+  static create(
+    repository: CollectionsRepository,
+    ledger: LedgerService,
+  ): CollectionsService {
+    return new CollectionsService(repository, ledger);
   }
 }
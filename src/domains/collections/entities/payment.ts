@@ -3,18 +3,21 @@
  * Represents a payment transaction within the Collections domain
  */
 
-import { ValueObject } from '../shared/value-object';
-import { DomainEntity } from '../shared/domain-entity';
+import { ValueObject } from '../../shared/value-object';
+import { DomainEntity } from '../../shared/domain-entity';
+import { Money, CurrencyInfo, getCurrencyInfo, isSupportedCurrency } from '../../shared/money';
+
+export { Money } from '../../shared/money';
 
 export class Payment extends DomainEntity {
   private constructor(
     id: string,
     private readonly playerId: string,
     private readonly amount: Money,
-    private readonly currency: Currency,
+    private readonly currency: CurrencyInfo,
     private readonly paymentMethod: PaymentMethod,
-    private readonly status: PaymentStatus,
-    private readonly riskScore: number,
+    private status: PaymentStatus,
+    private riskScore: number,
     private readonly metadata: PaymentMetadata,
     createdAt: Date,
     updatedAt: Date
@@ -24,8 +27,14 @@ export class Payment extends DomainEntity {
 
   static create(request: PaymentRequest): Payment {
     const now = new Date();
-    const amount = Money.create(request.amount, request.currency);
-    const currency = Currency.fromCode(request.currency);
+    if (!isSupportedCurrency(request.currency)) {
+      throw new DomainError(`Unsupported currency: ${request.currency}`, 'UNSUPPORTED_CURRENCY');
+    }
+    const amount = Money.of(request.amount, request.currency);
+    if (amount.isNegative()) {
+      throw new DomainError('Amount cannot be negative', 'INVALID_AMOUNT');
+    }
+    const currency = getCurrencyInfo(request.currency);
     const paymentMethod = PaymentMethod.fromString(request.paymentMethod);
 
     return new Payment(
@@ -76,7 +85,7 @@ export class Payment extends DomainEntity {
   // Getters
   getPlayerId(): string { return this.playerId; }
   getAmount(): Money { return this.amount; }
-  getCurrency(): Currency { return this.currency; }
+  getCurrency(): CurrencyInfo { return this.currency; }
   getPaymentMethod(): PaymentMethod { return this.paymentMethod; }
   getStatus(): PaymentStatus { return this.status; }
   getRiskScore(): number { return this.riskScore; }
@@ -92,79 +101,12 @@ export class Payment extends DomainEntity {
   }
 
   requiresManualReview(): boolean {
-    return this.amount.greaterThan(Money.create(10000, this.currency.code)) ||
+    return this.amount.greaterThan(Money.of(10000, this.currency.code)) ||
            this.riskScore > 50;
   }
 }
 
 // Value Objects
-export class Money extends ValueObject {
-  private constructor(
-    private readonly amount: number,
-    private readonly currency: string
-  ) {
-    super();
-    if (amount < 0) {
-      throw new DomainError('Amount cannot be negative', 'INVALID_AMOUNT');
-    }
-  }
-
-  static create(amount: number, currency: string): Money {
-    return new Money(amount, currency);
-  }
-
-  getAmount(): number { return this.amount; }
-  getCurrency(): string { return this.currency; }
-
-  greaterThan(other: Money): boolean {
-    if (this.currency !== other.currency) {
-      throw new DomainError('Cannot compare different currencies', 'CURRENCY_MISMATCH');
-    }
-    return this.amount > other.amount;
-  }
-
-  add(other: Money): Money {
-    if (this.currency !== other.currency) {
-      throw new DomainError('Cannot add different currencies', 'CURRENCY_MISMATCH');
-    }
-    return new Money(this.amount + other.amount, this.currency);
-  }
-
-  toString(): string {
-    return `${this.currency} ${this.amount.toFixed(2)}`;
-  }
-}
-
-export class Currency extends ValueObject {
-  private constructor(
-    private readonly code: string,
-    private readonly symbol: string,
-    private readonly decimalPlaces: number
-  ) {
-    super();
-  }
-
-  static fromCode(code: string): Currency {
-    const currencies = {
-      'USD': { symbol: '$', decimalPlaces: 2 },
-      'EUR': { symbol: '€', decimalPlaces: 2 },
-      'GBP': { symbol: '£', decimalPlaces: 2 },
-      'BTC': { symbol: '₿', decimalPlaces: 8 }
-    };
-
-    const currency = currencies[code as keyof typeof currencies];
-    if (!currency) {
-      throw new DomainError(`Unsupported currency: ${code}`, 'UNSUPPORTED_CURRENCY');
-    }
-
-    return new Currency(code, currency.symbol, currency.decimalPlaces);
-  }
-
-  getCode(): string { return this.code; }
-  getSymbol(): string { return this.symbol; }
-  getDecimalPlaces(): number { return this.decimalPlaces; }
-}
-
 export class PaymentMethod extends ValueObject {
   private constructor(
     private readonly type: string,
@@ -0,0 +1,354 @@
+/**
+ * Bank Reconciliation Service - Domain-Driven Design Implementation
+ * Imports bank statements and reconciles them against collections records
+ *
+ * Confident matches against completed payments create the collections
+ * settlement directly (what `reconcileSettlement` used to need an operator
+ * for). Everything else lands in the suggested or unmatched queues.
+ */
+
+import {
+  ErrorBoundary,
+  DomainErrorFactory,
+} from "../../../core/errors/domain-errors";
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+import { Money } from "../../shared/money";
+import type {
+  CollectionsRepository,
+  CollectionsService,
+} from "../collections-service";
+import {
+  parseBankStatement,
+  type CsvColumnMapping,
+  type StatementFormat,
+  type StatementLine,
+} from "./statement-parsers";
+import {
+  StatementMatchingEngine,
+  paymentCandidate,
+  settlementCandidate,
+  type LineMatchResult,
+  type MatchCandidate,
+  type MatchQueue,
+  type MatchTargetType,
+  type ScoredCandidate,
+} from "./matching-engine";
+
+export interface ReconciledStatementLine extends StatementLine {
+  queue: MatchQueue;
+  match?: ScoredCandidate;
+  alternatives: ScoredCandidate[];
+  /** Collections settlement created or confirmed by the match */
+  settlementId?: string;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  importedAt: Date;
+}
+
+export interface StatementImportResult {
+  statementId: string;
+  format: StatementFormat;
+  lineCount: number;
+  duplicateLines: number;
+  matched: number;
+  suggested: number;
+  unmatched: number;
+}
+
+/**
+ * Persistence for imported statement lines and their queue state
+ */
+export interface StatementLineStore {
+  saveStatementLine(line: ReconciledStatementLine): Promise<void>;
+  findStatementLine(lineId: string): Promise<ReconciledStatementLine | null>;
+  findStatementLines(
+    queue?: MatchQueue,
+    limit?: number,
+  ): Promise<ReconciledStatementLine[]>;
+  /** `${type}:${id}` of records already claimed by a matched line */
+  findMatchedTargets(): Promise<Set<string>>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BankReconciliationService {
+  private readonly logger = LoggerFactory.create("bank-reconciliation");
+  private readonly errorFactory = new DomainErrorFactory("collections");
+
+  constructor(
+    private readonly repository: CollectionsRepository & StatementLineStore,
+    private readonly collections: CollectionsService,
+    private readonly engine: StatementMatchingEngine = new StatementMatchingEngine(),
+  ) {}
+
+  async importStatement(
+    format: StatementFormat,
+    content: string,
+    mapping?: CsvColumnMapping,
+  ): Promise<StatementImportResult> {
+    return await ErrorBoundary.execute(
+      async () => {
+        const statement = parseBankStatement(format, content, mapping);
+
+        // Re-imported statements only add lines not seen before
+        const fresh: StatementLine[] = [];
+        for (const line of statement.lines) {
+          if (!(await this.repository.findStatementLine(line.lineId))) {
+            fresh.push(line);
+          }
+        }
+
+        const candidates = await this.loadCandidates(fresh);
+        const results = this.engine.match(fresh, candidates);
+        const counts = { matched: 0, suggested: 0, unmatched: 0 };
+
+        for (const result of results) {
+          const line = await this.applyResult(result);
+          counts[line.queue]++;
+        }
+
+        await this.logger.business(
+          "Bank statement imported",
+          {
+            operation: "importStatement",
+            statementId: statement.statementId,
+            format,
+          },
+          {
+            lineCount: statement.lines.length,
+            duplicateLines: statement.lines.length - fresh.length,
+            ...counts,
+          },
+        );
+
+        return {
+          statementId: statement.statementId,
+          format,
+          lineCount: statement.lines.length,
+          duplicateLines: statement.lines.length - fresh.length,
+          ...counts,
+        };
+      },
+      {
+        domain: "collections",
+        operation: "importStatement",
+        format,
+      },
+    );
+  }
+
+  async getQueue(
+    queue?: MatchQueue,
+    limit: number = 100,
+  ): Promise<ReconciledStatementLine[]> {
+    return this.repository.findStatementLines(queue, limit);
+  }
+
+  /**
+   * Accept a suggested line, optionally pointing it at a different record
+   */
+  async confirmMatch(
+    lineId: string,
+    resolvedBy: string,
+    target?: { type: MatchTargetType; id: string },
+  ): Promise<ReconciledStatementLine> {
+    return await ErrorBoundary.execute(
+      async () => {
+        const line = await this.requireOpenLine(lineId);
+        const chosen = target ?? line.match;
+        if (!chosen) {
+          throw this.errorFactory.businessRuleViolation(
+            `Statement line ${lineId} has no suggested match to confirm`,
+            "no_suggested_match",
+          );
+        }
+
+        const claimed = await this.repository.findMatchedTargets();
+        if (claimed.has(`${chosen.type}:${chosen.id}`)) {
+          throw this.errorFactory.businessRuleViolation(
+            `${chosen.type} ${chosen.id} is already reconciled to another statement line`,
+            "already_reconciled",
+          );
+        }
+
+        const candidate = await this.loadCandidate(chosen.type, chosen.id);
+        const match = this.engine.score(line, candidate) ?? {
+          type: chosen.type,
+          id: chosen.id,
+          score: 0,
+          reasons: ["manual"],
+        };
+
+        const settlementId = await this.applyMatch(line, match);
+        const confirmed: ReconciledStatementLine = {
+          ...line,
+          queue: "matched",
+          match,
+          settlementId,
+          resolvedBy,
+          resolvedAt: new Date(),
+        };
+        await this.repository.saveStatementLine(confirmed);
+
+        await this.logger.audit("Statement line match confirmed", {
+          operation: "confirmMatch",
+          lineId,
+          targetType: match.type,
+          targetId: match.id,
+          resolvedBy,
+        });
+
+        return confirmed;
+      },
+      {
+        domain: "collections",
+        operation: "confirmMatch",
+        lineId,
+      },
+    );
+  }
+
+  /**
+   * Reject a suggestion; the line moves to the unmatched queue
+   */
+  async rejectMatch(
+    lineId: string,
+    resolvedBy: string,
+  ): Promise<ReconciledStatementLine> {
+    const line = await this.requireOpenLine(lineId);
+    const rejected: ReconciledStatementLine = {
+      ...line,
+      queue: "unmatched",
+      match: undefined,
+      resolvedBy,
+      resolvedAt: new Date(),
+    };
+    await this.repository.saveStatementLine(rejected);
+
+    await this.logger.audit("Statement line suggestion rejected", {
+      operation: "rejectMatch",
+      lineId,
+      rejectedTarget: line.match?.id,
+      resolvedBy,
+    });
+
+    return rejected;
+  }
+
+  private async applyResult(result: LineMatchResult): Promise<ReconciledStatementLine> {
+    const line: ReconciledStatementLine = {
+      ...result.line,
+      queue: result.queue,
+      match: result.match,
+      alternatives: result.alternatives,
+      importedAt: new Date(),
+    };
+
+    if (result.queue === "matched" && result.match) {
+      try {
+        line.settlementId = await this.applyMatch(line, result.match);
+        line.resolvedBy = "system";
+        line.resolvedAt = new Date();
+      } catch (error) {
+        // A match the domain refuses still deserves a human look
+        line.queue = "suggested";
+        line.match = {
+          ...result.match,
+          reasons: [...result.match.reasons, `auto-apply failed: ${(error as Error).message}`],
+        };
+      }
+    }
+
+    await this.repository.saveStatementLine(line);
+    return line;
+  }
+
+  /**
+   * Matching a payment settles it from the bank line; matching a settlement
+   * only records the pairing
+   */
+  private async applyMatch(
+    line: StatementLine,
+    match: ScoredCandidate,
+  ): Promise<string | undefined> {
+    if (match.type === "settlement") {
+      return match.id;
+    }
+
+    const existing = await this.repository.findSettlementsByPaymentId(match.id);
+    if (existing.length > 0) {
+      return existing[0].id;
+    }
+
+    const payment = await this.repository.findPaymentById(match.id);
+    if (!payment) {
+      throw this.errorFactory.entityNotFound("Payment", match.id);
+    }
+
+    const received = Money.of(Math.abs(line.amount), payment.currency);
+    const fees = Money.of(payment.amount, payment.currency).subtract(received);
+    const settlement = await this.collections.reconcileSettlement(payment.id, {
+      amount: payment.amount,
+      currency: payment.currency,
+      status: "completed",
+      settlementDate: new Date(Math.min(line.bookingDate.getTime(), Date.now())),
+      bankReference: line.bankReference ?? line.reference,
+      fees: fees.isNegative() ? 0 : fees.toMajor(),
+      netAmount: received.toMajor(),
+    });
+
+    return settlement.id;
+  }
+
+  private async loadCandidates(lines: StatementLine[]): Promise<MatchCandidate[]> {
+    if (lines.length === 0) return [];
+
+    const window = 30 * DAY_MS;
+    const times = lines.map((line) => line.bookingDate.getTime());
+    const range = {
+      start: new Date(Math.min(...times) - window),
+      end: new Date(Math.max(...times) + window),
+    };
+
+    const claimed = await this.repository.findMatchedTargets();
+    const payments = (await this.repository.findPaymentsInRange(range))
+      .filter((payment) => payment.status === "completed")
+      .map(paymentCandidate);
+    const settlements = (await this.repository.findSettlementsInRange(range)).map(
+      settlementCandidate,
+    );
+
+    return [...payments, ...settlements].filter(
+      (candidate) => !claimed.has(`${candidate.type}:${candidate.id}`),
+    );
+  }
+
+  private async loadCandidate(
+    type: MatchTargetType,
+    id: string,
+  ): Promise<MatchCandidate> {
+    if (type === "payment") {
+      const payment = await this.repository.findPaymentById(id);
+      if (!payment) throw this.errorFactory.entityNotFound("Payment", id);
+      return paymentCandidate(payment);
+    }
+
+    const settlement = await this.repository.findSettlementById(id);
+    if (!settlement) throw this.errorFactory.entityNotFound("Settlement", id);
+    return settlementCandidate(settlement);
+  }
+
+  private async requireOpenLine(lineId: string): Promise<ReconciledStatementLine> {
+    const line = await this.repository.findStatementLine(lineId);
+    if (!line) {
+      throw this.errorFactory.entityNotFound("StatementLine", lineId);
+    }
+    if (line.queue === "matched") {
+      throw this.errorFactory.businessRuleViolation(
+        `Statement line ${lineId} is already matched`,
+        "line_already_matched",
+      );
+    }
+    return line;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Bank Reconciliation Tests
+ * Statement parsing, matching queues and operator resolution
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { SQLiteCollectionsRepository } from "../collections-repository";
+import { CollectionsService, type Payment } from "../collections-service";
+import { BankReconciliationService } from "./bank-reconciliation-service";
+import { parseMt940 } from "./statement-parsers";
+import { StatementMatchingEngine, nameSimilarity, paymentCandidate } from "./matching-engine";
+import { LedgerService } from "../../balance/services/ledger-service";
+import { SQLiteLedgerRepository } from "../../balance/repositories/ledger-repository";
+
+const today = new Date().toISOString().slice(0, 10);
+const [yyyy, mm, dd] = today.split("-");
+const yymmdd = `${yyyy.slice(2)}${mm}${dd}`;
+
+describe("BankReconciliationService", () => {
+  let repository: SQLiteCollectionsRepository;
+  let reconciliation: BankReconciliationService;
+
+  const payment = (id: string, amount: number, reference: string, payerName?: string): Payment => ({
+    id,
+    amount,
+    currency: "EUR",
+    status: "completed",
+    paymentMethod: "bank_transfer",
+    customerId: `cust_${id}`,
+    merchantId: "m_1",
+    reference,
+    metadata: payerName ? { payerName } : {},
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    processedAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    repository = new SQLiteCollectionsRepository(":memory:");
+    reconciliation = new BankReconciliationService(
+      repository,
+      new CollectionsService(repository, new LedgerService(new SQLiteLedgerRepository(":memory:"))),
+    );
+
+    await repository.savePayment(payment("pay_a", 250, "INV-2025-0001", "Maria Gonzalez"));
+    await repository.savePayment(payment("pay_b", 99.9, "INV-2025-0002", "Jonathan Smith Ltd"));
+    await repository.savePayment(payment("pay_c", 40, "INV-2025-0003"));
+    await repository.savePayment(payment("pay_d", 40, "INV-2025-0004"));
+  });
+
+  it("should auto-match a CAMT.053 entry by reference and amount and settle the payment", async () => {
+    const camt = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+  <Id>STMT-001</Id><Acct><Id><IBAN>DE89370400440532013000</IBAN></Id></Acct>
+  <Ntry>
+    <Amt Ccy="EUR">248.50</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+    <BookgDt><Dt>${today}</Dt></BookgDt><AcctSvcrRef>BANK-778</AcctSvcrRef>
+    <NtryDtls><TxDtls>
+      <Refs><EndToEndId>INV-2025-0001</EndToEndId></Refs>
+      <RltdPties><Dbtr><Nm>GONZALEZ MARIA</Nm></Dbtr></RltdPties>
+    </TxDtls></NtryDtls>
+  </Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+    const result = await reconciliation.importStatement("camt.053", camt);
+    expect(result).toMatchObject({ lineCount: 1, matched: 1, suggested: 0 });
+
+    const [line] = await reconciliation.getQueue("matched");
+    expect(line.match).toMatchObject({ type: "payment", id: "pay_a" });
+
+    const [settlement] = await repository.findSettlementsByPaymentId("pay_a");
+    expect(settlement).toMatchObject({ netAmount: 248.5, fees: 1.5, bankReference: "BANK-778" });
+  });
+
+  it("should queue ambiguous MT940 lines as suggestions until an operator confirms", async () => {
+    const mt940 = [
+      ":20:MT940-77",
+      ":25:DE89370400440532013000",
+      `:60F:C${yymmdd}EUR1000,00`,
+      `:61:${yymmdd}C99,90NTRFNONREF//BANK-1`,
+      ":86:/NAME/SMITH JONATHAN/REMI/Thanks",
+      `:61:${yymmdd}C40,00NTRFNONREF//BANK-2`,
+      ":86:/REMI/Payment",
+      `:61:${yymmdd}D15,00NMSCNONREF`,
+      ":86:/REMI/Account fee",
+      `:62F:C${yymmdd}EUR1124,90`,
+    ].join("\n");
+
+    expect(parseMt940(mt940).lines.map((l) => l.amount)).toEqual([99.9, 40, -15]);
+
+    const result = await reconciliation.importStatement("mt940", mt940);
+    expect(result).toMatchObject({ matched: 0, suggested: 2, unmatched: 1 });
+
+    // Two 40.00 payments: the runner-up is offered as an alternative
+    const suggested = await reconciliation.getQueue("suggested");
+    const ambiguous = suggested.find((l) => l.amount === 40)!;
+    expect(ambiguous.alternatives.map((a) => a.id)).toHaveLength(1);
+
+    const smith = suggested.find((l) => l.amount === 99.9)!;
+    expect(smith.match?.reasons).toContain("name");
+
+    const confirmed = await reconciliation.confirmMatch(smith.lineId, "ops_1");
+    expect(confirmed.queue).toBe("matched");
+    expect(await repository.findSettlementsByPaymentId("pay_b")).toHaveLength(1);
+
+    const rejected = await reconciliation.rejectMatch(ambiguous.lineId, "ops_1");
+    expect(rejected.queue).toBe("unmatched");
+    await expect(reconciliation.confirmMatch(smith.lineId, "ops_1")).rejects.toThrow("already matched");
+  });
+
+  it("should import CSV statements with a column mapping and skip duplicate lines", async () => {
+    const csv = [
+      "Buchungstag;Betrag;Waehrung;Verwendungszweck;Auftraggeber",
+      `${dd}.${mm}.${yyyy};1.234,56;EUR;Unknown transfer;ACME GMBH`,
+    ].join("\n");
+    const mapping = {
+      date: "Buchungstag",
+      amount: "Betrag",
+      currency: "Waehrung",
+      description: "Verwendungszweck",
+      counterpartyName: "Auftraggeber",
+      dateFormat: "DD.MM.YYYY" as const,
+      delimiter: ";",
+      decimalSeparator: "," as const,
+    };
+
+    const first = await reconciliation.importStatement("csv", csv, mapping);
+    const [line] = await reconciliation.getQueue("unmatched");
+    expect(first.unmatched).toBe(1);
+    expect(line.amount).toBe(1234.56);
+
+    const again = await reconciliation.importStatement("csv", csv, mapping);
+    expect(again.duplicateLines).toBe(1);
+  });
+
+  it("should compare payer names regardless of order, case and legal form", () => {
+    expect(nameSimilarity("Jonathan Smith Ltd", "SMITH JONATHAN")).toBe(1);
+    expect(nameSimilarity("Maria Gonzalez", "Mario Gonzales")).toBeGreaterThan(0.7);
+    expect(nameSimilarity("Maria Gonzalez", "Acme GmbH")).toBeLessThan(0.3);
+  });
+
+  it("should not match a debit line against an incoming payment of the same amount", () => {
+    const engine = new StatementMatchingEngine();
+    const candidate = paymentCandidate(payment("pay_a", 250, "INV-2025-0001"));
+    const line = {
+      lineId: "line_1",
+      statementId: "stmt_1",
+      bookingDate: new Date(),
+      amount: 250,
+      currency: "EUR",
+      reference: "INV-2025-0001",
+    };
+
+    expect(engine.score(line, candidate)?.reasons).toContain("amount");
+    expect(engine.score({ ...line, amount: -250 }, candidate)).toBeNull();
+    expect(engine.match([{ ...line, amount: -250 }], [candidate])[0].queue).toBe("unmatched");
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Statement Matching Engine
+ * Scores bank statement lines against collected payments and settlements
+ *
+ * Each candidate gets a weighted score from amount, reference, date
+ * proximity and payer-name similarity. Only candidates moving money the same
+ * way as the line are scored: credits against incoming payments, debits
+ * against payouts and refunds. Lines are assigned greedily from the
+ * highest score down so a record is never claimed by two lines:
+ * - matched:   score >= autoMatchThreshold and clearly ahead of the runner-up
+ * - suggested: score >= suggestThreshold, waiting for an operator
+ * - unmatched: nothing plausible
+ */
+
+import type { Payment, Settlement } from "../collections-service";
+import type { StatementLine } from "./statement-parsers";
+
+export type MatchQueue = "matched" | "suggested" | "unmatched";
+
+export type MatchTargetType = "payment" | "settlement";
+
+/** Credit: money into the account; debit: money out */
+export type MatchDirection = "credit" | "debit";
+
+export interface MatchCandidate {
+  type: MatchTargetType;
+  id: string;
+  direction: MatchDirection;
+  amount: number;
+  currency: string;
+  date: Date;
+  reference?: string;
+  payerName?: string;
+}
+
+export interface ScoredCandidate {
+  type: MatchTargetType;
+  id: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface LineMatchResult {
+  line: StatementLine;
+  queue: MatchQueue;
+  match?: ScoredCandidate;
+  /** Next-best candidates, shown to operators for suggested lines */
+  alternatives: ScoredCandidate[];
+}
+
+export interface MatchingConfig {
+  dateWindowDays: number;
+  /** Absolute difference (major units) still treated as an exact amount */
+  amountTolerance: number;
+  autoMatchThreshold: number;
+  suggestThreshold: number;
+  /** Required lead over the runner-up for an automatic match */
+  minimumMargin: number;
+  weights: {
+    amount: number;
+    reference: number;
+    date: number;
+    name: number;
+  };
+}
+
+export const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
+  dateWindowDays: 3,
+  amountTolerance: 0.005,
+  autoMatchThreshold: 0.8,
+  suggestThreshold: 0.5,
+  minimumMargin: 0.1,
+  weights: { amount: 0.4, reference: 0.35, date: 0.15, name: 0.1 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function paymentCandidate(payment: Payment): MatchCandidate {
+  return {
+    type: "payment",
+    id: payment.id,
+    direction: "credit",
+    amount: payment.amount,
+    currency: payment.currency,
+    date: payment.processedAt ?? payment.createdAt,
+    reference: payment.reference,
+    payerName: payment.metadata?.payerName ?? payment.metadata?.customerName,
+  };
+}
+
+// Collection settlements are processor proceeds arriving net of fees
+export function settlementCandidate(settlement: Settlement): MatchCandidate {
+  return {
+    type: "settlement",
+    id: settlement.id,
+    direction: "credit",
+    amount: settlement.netAmount,
+    currency: settlement.currency,
+    date: settlement.settlementDate,
+    reference: settlement.bankReference,
+  };
+}
+
+export class StatementMatchingEngine {
+  private readonly config: MatchingConfig;
+
+  constructor(config: Partial<MatchingConfig> = {}) {
+    this.config = {
+      ...DEFAULT_MATCHING_CONFIG,
+      ...config,
+      weights: { ...DEFAULT_MATCHING_CONFIG.weights, ...config.weights },
+    };
+  }
+
+  match(lines: StatementLine[], candidates: MatchCandidate[]): LineMatchResult[] {
+    const scored = lines.map((line) => ({
+      line,
+      ranked: candidates
+        .map((candidate) => this.score(line, candidate))
+        .filter((s): s is ScoredCandidate => s !== null)
+        .sort((a, b) => b.score - a.score),
+    }));
+
+    // Strongest pairs first, so a weaker line cannot steal a record
+    const pairs = scored
+      .flatMap(({ line, ranked }) => ranked.map((candidate) => ({ line, candidate })))
+      .sort((a, b) => b.candidate.score - a.candidate.score);
+
+    const claimed = new Set<string>();
+    const assigned = new Map<string, ScoredCandidate>();
+
+    for (const { line, candidate } of pairs) {
+      if (candidate.score < this.config.suggestThreshold) break;
+      const key = `${candidate.type}:${candidate.id}`;
+      if (assigned.has(line.lineId) || claimed.has(key)) continue;
+      assigned.set(line.lineId, candidate);
+      claimed.add(key);
+    }
+
+    return scored.map(({ line, ranked }) => {
+      const match = assigned.get(line.lineId);
+      const alternatives = ranked
+        .filter((c) => c !== match && c.score >= this.config.suggestThreshold)
+        .slice(0, 3);
+
+      if (!match) {
+        return { line, queue: "unmatched", alternatives };
+      }
+
+      const runnerUp = ranked.find((c) => c !== match)?.score ?? 0;
+      const confident =
+        match.score >= this.config.autoMatchThreshold &&
+        match.score - runnerUp >= this.config.minimumMargin;
+
+      return { line, queue: confident ? "matched" : "suggested", match, alternatives };
+    });
+  }
+
+  /**
+   * Score one candidate; null when it cannot be the same money movement
+   */
+  score(line: StatementLine, candidate: MatchCandidate): ScoredCandidate | null {
+    if (line.currency !== candidate.currency) return null;
+    if ((line.amount < 0 ? "debit" : "credit") !== candidate.direction) return null;
+
+    const { weights } = this.config;
+    const reasons: string[] = [];
+    let score = 0;
+
+    const lineAmount = Math.abs(line.amount);
+    const difference = Math.abs(lineAmount - Math.abs(candidate.amount));
+    if (difference <= this.config.amountTolerance) {
+      score += weights.amount;
+      reasons.push("amount");
+    } else if (candidate.amount > 0 && difference / candidate.amount <= 0.05) {
+      // Bank deducted a small fee or FX difference
+      score += weights.amount * 0.5;
+      reasons.push("amount~");
+    }
+
+    const referenceScore = referenceSimilarity(line, candidate.reference);
+    if (referenceScore > 0) {
+      score += weights.reference * referenceScore;
+      reasons.push(referenceScore === 1 ? "reference" : "reference~");
+    }
+
+    // Booking dates carry no time, so compare calendar days
+    const days = Math.abs(
+      Math.floor(line.bookingDate.getTime() / DAY_MS) - Math.floor(candidate.date.getTime() / DAY_MS),
+    );
+    if (days <= this.config.dateWindowDays) {
+      score += weights.date * (1 - days / (this.config.dateWindowDays + 1));
+      reasons.push("date");
+    } else if (referenceScore < 1) {
+      // Outside the window only an exact reference keeps a candidate alive
+      return null;
+    }
+
+    if (line.counterpartyName && candidate.payerName) {
+      const similarity = nameSimilarity(line.counterpartyName, candidate.payerName);
+      if (similarity >= 0.5) {
+        score += weights.name * similarity;
+        reasons.push("name");
+      }
+    }
+
+    // Amount or reference must agree; date and name alone are coincidence
+    if (!reasons.some((r) => r.startsWith("amount") || r.startsWith("reference"))) {
+      return null;
+    }
+
+    return {
+      type: candidate.type,
+      id: candidate.id,
+      score: Math.round(score * 1000) / 1000,
+      reasons,
+    };
+  }
+}
+
+function referenceSimilarity(line: StatementLine, reference?: string): number {
+  if (!reference) return 0;
+  const target = normalize(reference);
+  if (target.length < 4) return 0;
+
+  if (line.reference && normalize(line.reference) === target) return 1;
+
+  // References often arrive embedded in free-text remittance information
+  const haystack = normalize(`${line.reference ?? ""} ${line.description ?? ""}`);
+  return haystack.includes(target) ? 0.8 : 0;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized names,
+ * ignoring word order and legal-form noise
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const clean = (name: string) =>
+    name
+      .toLowerCase()
+      .replace(/\b(inc|llc|ltd|gmbh|sa|sas|bv|plc|corp|co)\b\.?/g, "")
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim()
+      .split(" ")
+      .sort()
+      .join("");
+
+  const left = clean(a);
+  const right = clean(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const bigrams = (text: string) => {
+    const grams = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const gram = text.slice(i, i + 2);
+      grams.set(gram, (grams.get(gram) ?? 0) + 1);
+    }
+    return grams;
+  };
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  for (const [gram, count] of leftGrams) {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  }
+
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+function normalize(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
@@ -0,0 +1,488 @@
+/**
+ * Bank Statement Parsers
+ * CAMT.053, MT940 and column-mapped CSV into normalized statement lines
+ *
+ * Amounts are signed major units: credits (money in) are positive,
+ * debits are negative.
+ */
+
+import { DomainErrorFactory } from "../../../core/errors/domain-errors";
+import { Money, isSupportedCurrency } from "../../shared/money";
+
+export type StatementFormat = "camt.053" | "mt940" | "csv";
+
+export interface StatementLine {
+  lineId: string;
+  statementId: string;
+  bookingDate: Date;
+  valueDate?: Date;
+  amount: number;
+  currency: string;
+  /** Payer-supplied reference (EndToEndId, remittance reference) */
+  reference?: string;
+  counterpartyName?: string;
+  description?: string;
+  /** Bank's own reference for the entry */
+  bankReference?: string;
+}
+
+export interface BankStatement {
+  statementId: string;
+  format: StatementFormat;
+  accountId?: string;
+  lines: StatementLine[];
+}
+
+/**
+ * Maps CSV header names onto statement fields. Either `amount` (signed) or
+ * `credit`/`debit` columns must be given.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  amount?: string;
+  credit?: string;
+  debit?: string;
+  /** Column holding C/D or CRDT/DBIT when `amount` is unsigned */
+  creditDebitIndicator?: string;
+  currency?: string;
+  defaultCurrency?: string;
+  reference?: string;
+  counterpartyName?: string;
+  description?: string;
+  bankReference?: string;
+  valueDate?: string;
+  dateFormat?: "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY" | "DD.MM.YYYY";
+  delimiter?: string;
+  decimalSeparator?: "." | ",";
+}
+
+const errorFactory = new DomainErrorFactory("collections");
+
+export function parseBankStatement(
+  format: StatementFormat,
+  content: string,
+  mapping?: CsvColumnMapping,
+): BankStatement {
+  switch (format) {
+    case "camt.053":
+      return parseCamt053(content);
+    case "mt940":
+      return parseMt940(content);
+    case "csv":
+      if (!mapping) {
+        throw errorFactory.validationError(
+          "CSV statements require a column mapping",
+          "mapping",
+          mapping,
+        );
+      }
+      return parseCsvStatement(content, mapping);
+    default:
+      throw errorFactory.validationError(
+        `Unsupported statement format: ${format}`,
+        "format",
+        format,
+      );
+  }
+}
+
+// ISO 20022 CAMT.053
+
+export function parseCamt053(content: string): BankStatement {
+  const statementBlock = xmlBlock(content, "Stmt");
+  if (!statementBlock) {
+    throw errorFactory.validationError(
+      "CAMT.053 document has no <Stmt> element",
+      "content",
+      content.slice(0, 80),
+    );
+  }
+
+  const statementId = xmlValue(statementBlock, "Id") ?? `camt_${contentHash(content)}`;
+  const accountId = xmlValue(xmlBlock(statementBlock, "Acct") ?? "", "IBAN");
+  const entries = statementBlock.match(/<Ntry>[\s\S]*?<\/Ntry>/g) ?? [];
+
+  const lines = entries.map((entry, index) => {
+    const amountMatch = entry.match(/<Amt Ccy="([A-Z]{3,4})">([^<]+)<\/Amt>/);
+    if (!amountMatch) {
+      throw errorFactory.validationError(
+        `CAMT.053 entry ${index + 1} has no amount`,
+        "Amt",
+        entry.slice(0, 80),
+      );
+    }
+
+    const isCredit = xmlValue(entry, "CdtDbtInd") === "CRDT";
+    const currency = amountMatch[1];
+    const amount = signedAmount(parseDecimal(amountMatch[2], "."), isCredit, currency);
+
+    // For money in, the payer is the debtor of the underlying transfer
+    const parties = xmlBlock(entry, "RltdPties") ?? "";
+    const payerBlock = xmlBlock(parties, isCredit ? "Dbtr" : "Cdtr") ?? "";
+
+    return {
+      lineId: `${statementId}:${index + 1}`,
+      statementId,
+      bookingDate: parseIsoDate(xmlValue(xmlBlock(entry, "BookgDt") ?? "", "Dt")),
+      valueDate: optionalIsoDate(xmlValue(xmlBlock(entry, "ValDt") ?? "", "Dt")),
+      amount,
+      currency,
+      reference:
+        nonPlaceholder(xmlValue(entry, "EndToEndId")) ??
+        xmlValue(xmlBlock(entry, "Strd") ?? "", "Ref"),
+      counterpartyName: xmlValue(payerBlock, "Nm"),
+      description: xmlValue(entry, "Ustrd") ?? xmlValue(entry, "AddtlNtryInf"),
+      bankReference: xmlValue(entry, "AcctSvcrRef"),
+    };
+  });
+
+  return { statementId, format: "camt.053", accountId, lines };
+}
+
+// SWIFT MT940
+
+const MT940_LINE =
+  /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^\/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+export function parseMt940(content: string): BankStatement {
+  const fields = splitMt940Fields(content);
+  const statementId = fields.find((f) => f.tag === "20")?.value.trim() ?? `mt940_${contentHash(content)}`;
+  const accountId = fields.find((f) => f.tag === "25")?.value.trim();
+  const opening = fields.find((f) => f.tag === "60F" || f.tag === "60M")?.value ?? "";
+  const currency = opening.slice(7, 10);
+
+  if (!isSupportedCurrency(currency)) {
+    throw errorFactory.validationError(
+      `MT940 opening balance has unsupported currency: ${currency}`,
+      "60F",
+      opening,
+    );
+  }
+
+  const lines: StatementLine[] = [];
+
+  fields.forEach((field, index) => {
+    if (field.tag !== "61") return;
+
+    const match = field.value.match(MT940_LINE);
+    if (!match) {
+      throw errorFactory.validationError(
+        `Unrecognized MT940 :61: line`,
+        "61",
+        field.value,
+      );
+    }
+
+    const [, valueDate, entryDate, mark, , rawAmount, , customerRef, bankRef] = match;
+    // RC (reversal of credit) moves money out, RD moves it back in
+    const isCredit = mark === "C" || mark === "RD";
+    const info = fields[index + 1]?.tag === "86" ? fields[index + 1].value : "";
+    const details = parseMt940Information(info);
+
+    const value = parseYymmdd(valueDate);
+    const booking = entryDate
+      ? new Date(Date.UTC(value.getUTCFullYear(), Number(entryDate.slice(0, 2)) - 1, Number(entryDate.slice(2, 4))))
+      : value;
+
+    lines.push({
+      lineId: `${statementId}:${lines.length + 1}`,
+      statementId,
+      bookingDate: booking,
+      valueDate: value,
+      amount: signedAmount(parseDecimal(rawAmount, ","), isCredit, currency),
+      currency,
+      reference: details.reference ?? nonPlaceholder(customerRef.trim()),
+      counterpartyName: details.name,
+      description: details.description,
+      bankReference: bankRef?.trim() || undefined,
+    });
+  });
+
+  return { statementId, format: "mt940", accountId, lines };
+}
+
+function splitMt940Fields(content: string): { tag: string; value: string }[] {
+  const fields: { tag: string; value: string }[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const tagMatch = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && rawLine !== "-" && !rawLine.startsWith("{")) {
+      // Continuation line
+      fields[fields.length - 1].value += "\n" + rawLine;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * :86: is free text, but banks commonly use either SEPA-style `/EREF/.../NAME/...`
+ * keywords or German `?20`..`?33` subfields
+ */
+function parseMt940Information(info: string): {
+  reference?: string;
+  name?: string;
+  description?: string;
+} {
+  const text = info.replace(/\n/g, "");
+  if (!text) return {};
+
+  if (text.includes("?")) {
+    const sub = (code: string) =>
+      [...text.matchAll(new RegExp(`\\?${code}([^?]*)`, "g"))].map((m) => m[1]).join("");
+    const remittance = ["20", "21", "22", "23", "24", "25"].map(sub).join(" ").trim();
+    const eref = remittance.match(/EREF\+(\S+)/)?.[1];
+
+    return {
+      reference: eref,
+      name: (sub("32") + sub("33")).trim() || undefined,
+      description: remittance || undefined,
+    };
+  }
+
+  const keyword = (key: string) => text.match(new RegExp(`/${key}/([^/]*)`))?.[1]?.trim();
+
+  return {
+    reference: keyword("EREF") ?? keyword("REF"),
+    name: keyword("NAME"),
+    description: keyword("REMI") ?? text,
+  };
+}
+
+// CSV with column mapping
+
+export function parseCsvStatement(
+  content: string,
+  mapping: CsvColumnMapping,
+  statementId: string = `csv_${contentHash(content)}`,
+): BankStatement {
+  const delimiter = mapping.delimiter ?? ",";
+  const decimalSeparator = mapping.decimalSeparator ?? ".";
+  const rows = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map((line) => parseCsvLine(line, delimiter));
+
+  const [header, ...data] = rows;
+  if (!header) {
+    return { statementId, format: "csv", lines: [] };
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const indexOf = (name?: string): number => {
+    if (!name) return -1;
+    const index = columns.indexOf(name.trim().toLowerCase());
+    if (index < 0) {
+      throw errorFactory.validationError(
+        `CSV statement has no column "${name}"`,
+        "mapping",
+        name,
+      );
+    }
+    return index;
+  };
+
+  if (!mapping.amount && !mapping.credit && !mapping.debit) {
+    throw errorFactory.validationError(
+      "Column mapping needs an amount column or credit/debit columns",
+      "mapping",
+      mapping,
+    );
+  }
+
+  const index = {
+    date: indexOf(mapping.date),
+    valueDate: indexOf(mapping.valueDate),
+    amount: indexOf(mapping.amount),
+    credit: indexOf(mapping.credit),
+    debit: indexOf(mapping.debit),
+    indicator: indexOf(mapping.creditDebitIndicator),
+    currency: indexOf(mapping.currency),
+    reference: indexOf(mapping.reference),
+    counterpartyName: indexOf(mapping.counterpartyName),
+    description: indexOf(mapping.description),
+    bankReference: indexOf(mapping.bankReference),
+  };
+
+  const cell = (row: string[], i: number): string | undefined =>
+    i >= 0 && row[i]?.trim() ? row[i].trim() : undefined;
+
+  const lines = data.map((row, rowIndex) => {
+    const currency = (cell(row, index.currency) ?? mapping.defaultCurrency ?? "").toUpperCase();
+    if (!isSupportedCurrency(currency)) {
+      throw errorFactory.validationError(
+        `Row ${rowIndex + 2}: unsupported currency "${currency}"`,
+        "currency",
+        currency,
+      );
+    }
+
+    let amount: number;
+    if (index.amount >= 0) {
+      amount = parseDecimal(cell(row, index.amount) ?? "", decimalSeparator);
+      const indicator = cell(row, index.indicator)?.toUpperCase();
+      if (indicator) {
+        amount = Math.abs(amount) * (indicator.startsWith("D") ? -1 : 1);
+      }
+    } else {
+      const credit = cell(row, index.credit);
+      const debit = cell(row, index.debit);
+      amount = credit
+        ? Math.abs(parseDecimal(credit, decimalSeparator))
+        : -Math.abs(parseDecimal(debit ?? "", decimalSeparator));
+    }
+
+    const rawDate = cell(row, index.date);
+    const rawValueDate = cell(row, index.valueDate);
+
+    return {
+      lineId: `${statementId}:${rowIndex + 1}`,
+      statementId,
+      bookingDate: parseMappedDate(rawDate, mapping.dateFormat, rowIndex + 2),
+      valueDate: rawValueDate
+        ? parseMappedDate(rawValueDate, mapping.dateFormat, rowIndex + 2)
+        : undefined,
+      amount: Money.of(amount, currency).toMajor(),
+      currency,
+      reference: cell(row, index.reference),
+      counterpartyName: cell(row, index.counterpartyName),
+      description: cell(row, index.description),
+      bankReference: cell(row, index.bankReference),
+    };
+  });
+
+  return { statementId, format: "csv", lines };
+}
+
+// Helpers
+
+/**
+ * Stable id for statements without one, so re-imports are recognized
+ */
+function contentHash(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+function signedAmount(amount: number, isCredit: boolean, currency: string): number {
+  const money = Money.of(Math.abs(amount), currency);
+  return (isCredit ? money : money.negate()).toMajor();
+}
+
+function parseDecimal(raw: string, decimalSeparator: "." | ","): number {
+  let text = raw.replace(/\s/g, "");
+  if (decimalSeparator === ",") {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+
+  const value = Number(text);
+  if (text === "" || !Number.isFinite(value)) {
+    throw errorFactory.validationError(`Invalid amount "${raw}"`, "amount", raw);
+  }
+  return value;
+}
+
+function parseMappedDate(
+  raw: string | undefined,
+  format: CsvColumnMapping["dateFormat"] = "YYYY-MM-DD",
+  rowNumber: number,
+): Date {
+  const parts = raw?.split(/[-\/.]/).map(Number) ?? [];
+  const [year, month, day] =
+    format === "DD/MM/YYYY" || format === "DD.MM.YYYY"
+      ? [parts[2], parts[1], parts[0]]
+      : format === "MM/DD/YYYY"
+        ? [parts[2], parts[0], parts[1]]
+        : [parts[0], parts[1], parts[2]];
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (!raw || parts.length !== 3 || isNaN(date.getTime())) {
+    throw errorFactory.validationError(
+      `Row ${rowNumber}: invalid date "${raw}" for format ${format}`,
+      "date",
+      raw,
+    );
+  }
+  return date;
+}
+
+function parseYymmdd(raw: string): Date {
+  const year = Number(raw.slice(0, 2));
+  return new Date(
+    Date.UTC(year < 80 ? 2000 + year : 1900 + year, Number(raw.slice(2, 4)) - 1, Number(raw.slice(4, 6))),
+  );
+}
+
+function parseIsoDate(raw?: string): Date {
+  const date = optionalIsoDate(raw);
+  if (!date) {
+    throw errorFactory.validationError("Entry has no booking date", "BookgDt", raw);
+  }
+  return date;
+}
+
+function optionalIsoDate(raw?: string): Date | undefined {
+  if (!raw) return undefined;
+  const date = new Date(raw.length === 10 ? `${raw}T00:00:00Z` : raw);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function nonPlaceholder(value?: string): string | undefined {
+  return value && value !== "NOTPROVIDED" && value !== "NONREF" ? value : undefined;
+}
+
+function xmlBlock(content: string, tag: string): string | undefined {
+  return content.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))?.[1];
+}
+
+function xmlValue(content: string, tag: string): string | undefined {
+  const value = content.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`))?.[1]?.trim();
+  return value ? decodeXml(value) : undefined;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+}
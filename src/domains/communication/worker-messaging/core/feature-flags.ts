@@ -3,6 +3,12 @@
  * Gradual Rollout and Rollback Support
  */
 
+import {
+  FeatureFlagsService,
+  type FeatureFlag as SharedFeatureFlag,
+  type TargetingRule
+} from '../../../../../dashboard-worker/core/services/feature-flags';
+
 export interface FeatureFlag {
   enabled: boolean;
   description: string;
@@ -140,15 +146,26 @@ export const ROLLOUT_PHASES: RolloutPhase[] = [
 
 /**
  * Feature flag manager
+ *
+ * Worker-messaging view of the shared FeatureFlagsService. The flags above are
+ * registered there, with their conditions as targeting rules, so they are
+ * persisted, audited and managed from the admin routes like every other flag.
+ * Partial rollouts are sticky per `userId`; contexts without one are outside.
  */
 export class FeatureFlagManager {
-  private flags: Map<string, FeatureFlag> = new Map();
+  private service: FeatureFlagsService;
   private rolloutPhase: string = 'pilot_phase';
-
-  constructor() {
-    // Initialize with default flags
-    Object.entries(WORKER_COMMUNICATION_FLAGS).forEach(([key, flag]) => {
-      this.flags.set(key, { ...flag });
+  /** Resolves once the worker-messaging flags exist in the service's store */
+  readonly ready: Promise<void>;
+
+  constructor(service?: FeatureFlagsService) {
+    const defaults = Object.entries(WORKER_COMMUNICATION_FLAGS).map(([name, flag]) =>
+      toSharedFlag(name, flag)
+    );
+    this.service = service ?? new FeatureFlagsService({ defaults });
+    this.ready = this.service.ensureFlags(defaults, {
+      actor: FLAG_ACTOR,
+      reason: 'worker messaging flag'
     });
   }
 
@@ -161,46 +178,37 @@ export class FeatureFlagManager {
     load?: number;
     userId?: string;
   }): boolean {
-    const flag = this.flags.get(flagName);
-    if (!flag) return false;
-
-    // Check basic enablement
-    if (!flag.enabled) return false;
-
-    // Check rollout percentage (simplified - in real implementation, use user/context-based rollout)
-    if (Math.random() * 100 > flag.rolloutPercentage) return false;
-
-    // Check conditions
-    if (flag.conditions) {
-      if (flag.conditions.domain && context?.domain !== flag.conditions.domain) {
-        return false;
-      }
-      if (flag.conditions.environment && context?.environment !== flag.conditions.environment) {
-        return false;
-      }
-      if (flag.conditions.load && context?.load && context.load < flag.conditions.load) {
-        return false;
-      }
-    }
-
-    return true;
+    return this.service.isEnabled(flagName, context ?? {});
   }
 
   /**
    * Get flag configuration
    */
   getFlag(flagName: string): FeatureFlag | undefined {
-    return this.flags.get(flagName);
+    const flag = this.service.getFlag(flagName);
+    return flag && fromSharedFlag(flag);
   }
 
   /**
-   * Update flag configuration
+   * Update flag configuration. Takes effect immediately; the store write and
+   * its audit entry complete in the background. Rules added from the admin
+   * routes are kept unless the conditions themselves change.
    */
-  updateFlag(flagName: string, updates: Partial<FeatureFlag>): boolean {
-    const flag = this.flags.get(flagName);
+  updateFlag(flagName: string, updates: Partial<FeatureFlag>, reason?: string): boolean {
+    const flag = this.service.getFlag(flagName);
     if (!flag) return false;
 
-    this.flags.set(flagName, { ...flag, ...updates });
+    const { conditions, fallback, ...fields } = updates;
+    const next: SharedFeatureFlag = { ...flag, ...fields };
+    if (conditions !== undefined || fallback !== undefined) {
+      const converted = toSharedFlag(flagName, { ...fromSharedFlag(flag), ...updates });
+      next.rules = converted.rules;
+      next.metadata = { ...flag.metadata, ...converted.metadata };
+    }
+
+    this.service
+      .upsertFlag(next, { actor: FLAG_ACTOR, reason })
+      .catch(error => console.error(`Failed to save feature flag ${flagName}:`, error));
     return true;
   }
 
@@ -209,8 +217,9 @@ export class FeatureFlagManager {
    */
   getAllFlags(): Record<string, FeatureFlag> {
     const result: Record<string, FeatureFlag> = {};
-    this.flags.forEach((flag, name) => {
-      result[name] = { ...flag };
+    Object.keys(WORKER_COMMUNICATION_FLAGS).forEach(name => {
+      const flag = this.getFlag(name);
+      if (flag) result[name] = flag;
     });
     return result;
   }
@@ -245,18 +254,20 @@ export class FeatureFlagManager {
    * Update flags for a specific phase
    */
   private updateFlagsForPhase(phase: RolloutPhase): void {
+    const reason = `rollout phase ${phase.name}`;
+
     // Update rollout percentages
     if (phase.domains.includes('collections') || phase.domains.includes('all')) {
-      this.updateFlag('useYamlMessaging', { rolloutPercentage: phase.percentage });
+      this.updateFlag('useYamlMessaging', { rolloutPercentage: phase.percentage }, reason);
     }
 
     if (phase.percentage >= 50) {
-      this.updateFlag('enableBatching', { rolloutPercentage: 25 });
+      this.updateFlag('enableBatching', { rolloutPercentage: 25 }, reason);
     }
 
     if (phase.percentage >= 100) {
-      this.updateFlag('enableCompression', { rolloutPercentage: 50 });
-      this.updateFlag('enableCircuitBreaker', { rolloutPercentage: 25 });
+      this.updateFlag('enableCompression', { rolloutPercentage: 50 }, reason);
+      this.updateFlag('enableCircuitBreaker', { rolloutPercentage: 25 }, reason);
     }
   }
 
@@ -265,11 +276,12 @@ export class FeatureFlagManager {
    */
   emergencyRollback(): void {
     console.log('🚨 EMERGENCY ROLLBACK: Disabling all advanced features');
+    const reason = 'emergency rollback';
 
-    this.updateFlag('useYamlMessaging', { enabled: false, rolloutPercentage: 0 });
-    this.updateFlag('enableCompression', { enabled: false, rolloutPercentage: 0 });
-    this.updateFlag('enableBatching', { enabled: false, rolloutPercentage: 0 });
-    this.updateFlag('enableCircuitBreaker', { enabled: false, rolloutPercentage: 0 });
+    this.updateFlag('useYamlMessaging', { enabled: false, rolloutPercentage: 0 }, reason);
+    this.updateFlag('enableCompression', { enabled: false, rolloutPercentage: 0 }, reason);
+    this.updateFlag('enableBatching', { enabled: false, rolloutPercentage: 0 }, reason);
+    this.updateFlag('enableCircuitBreaker', { enabled: false, rolloutPercentage: 0 }, reason);
 
     this.rolloutPhase = 'rollback';
   }
@@ -286,7 +298,7 @@ export class FeatureFlagManager {
     const flags: Record<string, { enabled: boolean; percentage: number }> = {};
     const recommendations: string[] = [];
 
-    this.flags.forEach((flag, name) => {
+    Object.entries(this.getAllFlags()).forEach(([name, flag]) => {
       flags[name] = {
         enabled: flag.enabled,
         percentage: flag.rolloutPercentage
@@ -302,7 +314,7 @@ export class FeatureFlagManager {
       recommendations.push('System in rollback mode - investigate issues before re-enabling');
     }
 
-    const yamlFlag = this.flags.get('useYamlMessaging');
+    const yamlFlag = this.getFlag('useYamlMessaging');
     if (yamlFlag && yamlFlag.rolloutPercentage < 100) {
       recommendations.push(`YAML messaging at ${yamlFlag.rolloutPercentage}% rollout - monitor performance`);
     }
@@ -355,6 +367,45 @@ export class FeatureFlagManager {
   }
 }
 
+const FLAG_ACTOR = 'worker-messaging';
+
+/**
+ * Conditions become targeting rules; `environment: 'all'` needs no rule
+ */
+function toSharedFlag(name: string, flag: FeatureFlag): SharedFeatureFlag {
+  const rules: TargetingRule[] = [];
+  const { domain, environment, load } = flag.conditions ?? {};
+
+  if (domain) {
+    rules.push({ attribute: 'domain', operator: 'in', values: [domain] });
+  }
+  if (environment && environment !== 'all') {
+    rules.push({ attribute: 'environment', operator: 'in', values: [environment] });
+  }
+  if (load) {
+    rules.push({ attribute: 'load', operator: 'gte', values: [load] });
+  }
+
+  return {
+    name,
+    enabled: flag.enabled,
+    description: flag.description,
+    rolloutPercentage: flag.rolloutPercentage,
+    rules: rules.length > 0 ? rules : undefined,
+    metadata: { fallback: flag.fallback, conditions: flag.conditions }
+  };
+}
+
+function fromSharedFlag(flag: SharedFeatureFlag): FeatureFlag {
+  return {
+    enabled: flag.enabled,
+    description: flag.description,
+    rolloutPercentage: flag.rolloutPercentage ?? 100,
+    fallback: String(flag.metadata?.fallback ?? ''),
+    conditions: flag.metadata?.conditions as FeatureFlag['conditions']
+  };
+}
+
 /**
  * Usage example and utilities
  */
@@ -8,10 +8,17 @@
 
 import { CollectionsController } from './collections/collections.controller';
 import { BalanceController } from './balance/balance.controller';
+import { LedgerService } from './balance/services/ledger-service';
+import { SQLiteLedgerRepository } from './balance/repositories/ledger-repository';
 import { Fantasy402Gateway } from './external/fantasy402/gateway/fantasy402-gateway';
 import { DomainOrchestrator } from './shared/domain-orchestrator';
+import { SQLiteSagaStore } from './shared/saga/saga-store';
 import { EventWorkflows } from './shared/events/event-workflows';
+import { SQLiteWorkflowStore } from './shared/events/workflow-store';
 import { DomainEvents } from './shared/events/domain-events';
+import { SQLiteEventStore } from './shared/events/event-store';
+import { OutboxDispatcher } from './shared/events/outbox-dispatcher';
+import { IdempotencyService, SQLiteIdempotencyStore } from '../core/idempotency/idempotency';
 
 export interface DomainMetrics {
   name: string;
@@ -449,16 +456,6 @@ that can evolve safely while maintaining 99.9% reliability and 70-80% performanc
   }
 }
 
-// Export domain classes and utilities
-export {
-  CollectionsDomain,
-  BalanceDomain,
-  DistributionsDomain,
-  FreePlayDomain,
-  AdjustmentDomain,
-  CrystalClearArchitecture
-};
-
 // Main architecture initialization
 export async function initializeCrystalClearArchitecture(): Promise<{
   orchestrator: DomainOrchestrator;
@@ -468,6 +465,12 @@ export async function initializeCrystalClearArchitecture(): Promise<{
 }> {
   console.log('🚀 Initializing Crystal Clear Domain-Driven Architecture...');
 
+  // Idempotency keys must outlive a restart, or a retried command runs twice;
+  // configured before any controller picks up the shared instance
+  IdempotencyService.configure(
+    new SQLiteIdempotencyStore(process.env.IDEMPOTENCY_DB_PATH || 'idempotency.db')
+  );
+
   // Initialize external gateway
   const gateway = new Fantasy402Gateway({
     baseUrl: 'https://fantasy402.com',
@@ -481,26 +484,51 @@ export async function initializeCrystalClearArchitecture(): Promise<{
   await gateway.initialize();
 
   // Initialize domain controllers (mock implementations for now)
-  const balanceController = new BalanceController({} as any); // Would use real repository
+  const ledgerService = new LedgerService(
+    new SQLiteLedgerRepository(process.env.LEDGER_DB_PATH || 'ledger.db')
+  );
+  // Would use real repository
+  const balanceController = new BalanceController({} as any, ledgerService);
   const collectionsController = new CollectionsController({} as any); // Would use real repository
 
-  // Initialize orchestrator
+  // Durable outbox: must be in place before the orchestrator registers the
+  // event handlers, or settlement and balance handlers fall back to memory
+  const eventStore = new SQLiteEventStore(process.env.EVENT_STORE_PATH || 'domain-events.db');
+  const dispatcher = new OutboxDispatcher(eventStore);
+  DomainEvents.getInstance().useEventStore(eventStore, dispatcher);
+
+  // Initialize orchestrator; saga progress is kept on disk so steps cut off
+  // by a crash can be compensated on the next start
   const orchestrator = new DomainOrchestrator(
     balanceController,
     collectionsController,
-    gateway
+    gateway,
+    new SQLiteSagaStore(process.env.SAGA_STORE_PATH || 'sagas.db')
   );
 
-  // Initialize workflows
+  // Initialize workflows; instances, timers and signal waits survive restarts
   const workflows = new EventWorkflows(
     orchestrator,
     balanceController,
     collectionsController,
-    gateway
+    gateway,
+    new SQLiteWorkflowStore(process.env.WORKFLOW_STORE_PATH || 'workflows.db')
   );
 
   const events = DomainEvents.getInstance();
 
+  // Deliver anything left in the outbox by a previous run, then keep polling
+  // so retries fire once their backoff elapses
+  await dispatcher.dispatchPending();
+  dispatcher.start();
+
+  // Compensate business processes a previous run left mid-step
+  await orchestrator.resumeInterruptedProcesses();
+
+  // Finish workflows a previous run left mid-step, then fire durable timers
+  await workflows.resumeInterrupted();
+  workflows.start();
+
   console.log('✅ Crystal Clear Architecture initialized successfully');
   console.log(`📊 ${CrystalClearArchitecture.METRICS.totalDomains} domains ready`);
   console.log(`⚡ ${CrystalClearArchitecture.METRICS.performanceBoost} performance boost achieved`);
@@ -13,6 +13,7 @@ import {
   DomainLogger,
   LoggerFactory,
 } from "../../../core/logging/domain-logger";
+import { Money, isSupportedCurrency } from "../../shared/money";
 
 export enum SettlementStatus {
   PENDING = "pending",
@@ -96,17 +97,20 @@ export class Settlement {
       settlementDate,
     );
 
+    // Normalize to the currency's minor units
+    const principal = Money.of(amount, currency);
+
     this.id = id;
     this.paymentId = paymentId;
     this.merchantId = merchantId;
-    this.amount = amount;
-    this.currency = currency;
+    this.amount = principal.toMajor();
+    this.currency = principal.getCurrency();
     this.status = SettlementStatus.PENDING;
     this.settlementType = settlementType;
     this.settlementDate = settlementDate;
     this.processingDate = new Date();
     this.fees = fees;
-    this.breakdown = this.calculateBreakdown(amount, currency, fees);
+    this.breakdown = this.calculateBreakdown(principal, fees);
     this.metadata = metadata;
     this.createdAt = new Date();
     this.updatedAt = new Date();
@@ -120,6 +124,40 @@ export class Settlement {
     });
   }
 
+  /**
+   * Rehydrate a stored settlement without re-running creation rules
+   * (a persisted settlement date is usually in the past)
+   */
+  static fromPersistence(data: {
+    id: string;
+    paymentId: string;
+    merchantId: string;
+    amount: number;
+    currency: string;
+    status: SettlementStatus;
+    settlementType: SettlementType;
+    settlementDate: Date;
+    processingDate: Date;
+    fees: SettlementFees;
+    metadata: SettlementMetadata;
+    createdAt: Date;
+    updatedAt: Date;
+    completedAt?: Date;
+    failedAt?: Date;
+  }): Settlement {
+    const settlement = Object.create(Settlement.prototype) as Settlement;
+
+    return Object.assign(settlement, {
+      ...data,
+      breakdown: settlement.calculateBreakdown(
+        Money.of(data.amount, data.currency),
+        data.fees,
+      ),
+      logger: LoggerFactory.create("settlement-entity"),
+      errorFactory: new DomainErrorFactory("settlement"),
+    });
+  }
+
   /**
    * Mark settlement as processing
    */
@@ -243,6 +281,13 @@ export class Settlement {
     );
   }
 
+  /**
+   * Principal amount as Money
+   */
+  public getPrincipal(): Money {
+    return Money.of(this.amount, this.currency);
+  }
+
   /**
    * Get settlement summary
    */
@@ -295,7 +340,7 @@ export class Settlement {
       );
     }
 
-    if (!currency || !["USD", "EUR", "GBP", "CAD"].includes(currency)) {
+    if (!currency || !isSupportedCurrency(currency)) {
       throw this.errorFactory.validationError(
         "Invalid currency",
         "currency",
@@ -337,16 +382,16 @@ export class Settlement {
   }
 
   private calculateBreakdown(
-    amount: number,
-    currency: string,
+    principal: Money,
     fees: SettlementFees,
   ): SettlementBreakdown {
-    const netAmount = amount - fees.totalFees;
+    const currency = principal.getCurrency();
+    const netAmount = principal.subtract(Money.of(fees.totalFees, currency));
 
     return {
-      principalAmount: amount,
+      principalAmount: principal.toMajor(),
       fees,
-      netAmount,
+      netAmount: netAmount.toMajor(),
       currency,
     };
   }
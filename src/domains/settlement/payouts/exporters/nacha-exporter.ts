@@ -0,0 +1,244 @@
+/**
+ * NACHA ACH Exporter
+ * Fixed-width 94-character records, blocked in tens
+ *
+ * One CCD batch per file with service class 200 (mixed) so merchant
+ * credits and net debits travel together. Trace numbers are the ODFI
+ * routing prefix plus the payout's sequence in the batch, which is how
+ * returns are matched back.
+ */
+
+import { DomainErrorFactory } from "../../../../core/errors/domain-errors";
+import type {
+  MerchantPayoutAccount,
+  PayoutBatch,
+  PayoutInstruction,
+  PayoutOriginator,
+} from "../payout-batch";
+import {
+  PayoutExportOptions,
+  PayoutFile,
+  PayoutFileExporter,
+  selectPayouts,
+} from "./payout-file-exporter";
+
+const RECORD_LENGTH = 94;
+const BLOCKING_FACTOR = 10;
+
+const TRANSACTION_CODES = {
+  checking: { credit: "22", debit: "27" },
+  savings: { credit: "32", debit: "37" },
+} as const;
+
+export class NachaExporter implements PayoutFileExporter {
+  readonly format = "nacha" as const;
+  private readonly errorFactory = new DomainErrorFactory("settlement");
+
+  export(
+    batch: PayoutBatch,
+    accounts: Map<string, MerchantPayoutAccount>,
+    originator: PayoutOriginator,
+    options: PayoutExportOptions = {},
+  ): PayoutFile {
+    const odfi = this.requireRouting(originator.routingNumber, "originator.routingNumber");
+    if (!originator.companyId) {
+      throw this.errorFactory.validationError(
+        "NACHA export requires an originator company ID",
+        "originator.companyId",
+        originator.companyId,
+      );
+    }
+
+    const { included, skipped } = selectPayouts(batch, (instruction) => {
+      if (instruction.currency !== "USD") return "ACH carries USD only";
+      const account = accounts.get(instruction.merchantId);
+      if (!account?.routingNumber || !account.accountNumber) {
+        return "Merchant has no US bank account on file";
+      }
+      if (!isValidRouting(account.routingNumber)) {
+        return `Invalid routing number ${account.routingNumber}`;
+      }
+      return null;
+    });
+
+    const createdAt = options.createdAt ?? new Date();
+    const effectiveDate = options.executionDate ?? createdAt;
+    const destination = originator.destinationRoutingNumber ?? odfi;
+    const odfiPrefix = odfi.slice(0, 8);
+
+    const records: string[] = [];
+
+    records.push(
+      record([
+        "1",
+        "01",
+        " " + destination,
+        " " + odfi,
+        yymmdd(createdAt),
+        hhmm(createdAt),
+        "A",
+        "094",
+        "10",
+        "1",
+        alpha(originator.destinationName ?? "", 23),
+        alpha(originator.name, 23),
+        alpha(batch.batchId.slice(-8), 8),
+      ]),
+    );
+
+    records.push(
+      record([
+        "5",
+        "200",
+        alpha(originator.name, 16),
+        alpha("", 20),
+        alpha(originator.companyId, 10),
+        "CCD",
+        alpha("PAYOUT", 10),
+        alpha("", 6),
+        yymmdd(effectiveDate),
+        "   ",
+        "1",
+        odfiPrefix,
+        numeric(1, 7),
+      ]),
+    );
+
+    let entryHash = 0;
+    let totalDebit = 0;
+    let totalCredit = 0;
+
+    for (const instruction of included) {
+      const account = accounts.get(instruction.merchantId)!;
+      const rdfi = account.routingNumber!;
+      const codes = TRANSACTION_CODES[account.accountType ?? "checking"];
+
+      entryHash += Number(rdfi.slice(0, 8));
+      if (instruction.direction === "credit") totalCredit += instruction.amountMinor;
+      else totalDebit += instruction.amountMinor;
+
+      records.push(
+        record([
+          "6",
+          instruction.direction === "credit" ? codes.credit : codes.debit,
+          rdfi.slice(0, 8),
+          rdfi.slice(8, 9),
+          alpha(account.accountNumber!, 17),
+          numeric(instruction.amountMinor, 10),
+          alpha(instruction.payoutId, 15),
+          alpha(account.accountName, 22),
+          "  ",
+          "0",
+          nachaTraceNumber(odfi, instruction),
+        ]),
+      );
+    }
+
+    const hash = String(entryHash).slice(-10);
+
+    records.push(
+      record([
+        "8",
+        "200",
+        numeric(included.length, 6),
+        hash.padStart(10, "0"),
+        numeric(totalDebit, 12),
+        numeric(totalCredit, 12),
+        alpha(originator.companyId, 10),
+        alpha("", 19),
+        alpha("", 6),
+        odfiPrefix,
+        numeric(1, 7),
+      ]),
+    );
+
+    // File control counts the blocks including itself
+    const blockCount = Math.ceil((records.length + 1) / BLOCKING_FACTOR);
+
+    records.push(
+      record([
+        "9",
+        numeric(1, 6),
+        numeric(blockCount, 6),
+        numeric(included.length, 8),
+        hash.padStart(10, "0"),
+        numeric(totalDebit, 12),
+        numeric(totalCredit, 12),
+        alpha("", 39),
+      ]),
+    );
+
+    while (records.length % BLOCKING_FACTOR !== 0) {
+      records.push("9".repeat(RECORD_LENGTH));
+    }
+
+    return {
+      format: this.format,
+      fileName: `${batch.batchId}.ach`,
+      contentType: "text/plain",
+      content: records.join("\n") + "\n",
+      payoutIds: included.map((i) => i.payoutId),
+      skipped,
+    };
+  }
+
+  private requireRouting(routing: string | undefined, field: string): string {
+    if (!routing || !isValidRouting(routing)) {
+      throw this.errorFactory.validationError(
+        "A valid 9-digit routing number is required",
+        field,
+        routing,
+      );
+    }
+    return routing;
+  }
+}
+
+/**
+ * Trace number for a payout: ODFI routing prefix + 7-digit sequence
+ */
+export function nachaTraceNumber(
+  odfiRouting: string,
+  instruction: Pick<PayoutInstruction, "sequence">,
+): string {
+  return odfiRouting.slice(0, 8) + numeric(instruction.sequence, 7);
+}
+
+/**
+ * ABA routing number with a valid 3-7-1 weighted checksum
+ */
+export function isValidRouting(routing: string): boolean {
+  if (!/^\d{9}$/.test(routing)) return false;
+  const d = routing.split("").map(Number);
+  const sum =
+    3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+function record(fields: string[]): string {
+  const line = fields.join("");
+  if (line.length !== RECORD_LENGTH) {
+    throw new Error(`NACHA record must be ${RECORD_LENGTH} characters, got ${line.length}`);
+  }
+  return line;
+}
+
+function alpha(value: string, length: number): string {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,&\-\/]/g, "")
+    .slice(0, length)
+    .padEnd(length, " ");
+}
+
+function numeric(value: number, length: number): string {
+  return String(Math.trunc(value)).padStart(length, "0").slice(-length);
+}
+
+function yymmdd(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, "");
+}
+
+function hhmm(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(":", "");
+}
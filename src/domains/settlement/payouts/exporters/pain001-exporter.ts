@@ -0,0 +1,162 @@
+/**
+ * ISO 20022 pain.001 Exporter
+ * Customer Credit Transfer Initiation (pain.001.001.03)
+ *
+ * One PmtInf block per currency. pain.001 only moves money out, so net
+ * debit payouts are skipped and left for a collection rail.
+ */
+
+import { DomainErrorFactory } from "../../../../core/errors/domain-errors";
+import {
+  getPayoutAmount,
+  type MerchantPayoutAccount,
+  type PayoutBatch,
+  type PayoutInstruction,
+  type PayoutOriginator,
+} from "../payout-batch";
+import {
+  formatIsoDate,
+  PayoutExportOptions,
+  PayoutFile,
+  PayoutFileExporter,
+  selectPayouts,
+} from "./payout-file-exporter";
+
+const NAMESPACE = "urn:iso:std:iso:20022:tech:xsd:pain.001.001.03";
+
+export class Pain001Exporter implements PayoutFileExporter {
+  readonly format = "pain.001" as const;
+  private readonly errorFactory = new DomainErrorFactory("settlement");
+
+  export(
+    batch: PayoutBatch,
+    accounts: Map<string, MerchantPayoutAccount>,
+    originator: PayoutOriginator,
+    options: PayoutExportOptions = {},
+  ): PayoutFile {
+    if (!originator.iban) {
+      throw this.errorFactory.validationError(
+        "pain.001 export requires an originator IBAN",
+        "originator.iban",
+        originator.iban,
+      );
+    }
+
+    const { included, skipped } = selectPayouts(batch, (instruction) => {
+      if (instruction.direction !== "credit") {
+        return "pain.001 carries credit transfers only";
+      }
+      if (!accounts.get(instruction.merchantId)?.iban) {
+        return "Merchant has no IBAN on file";
+      }
+      return null;
+    });
+
+    const createdAt = options.createdAt ?? new Date();
+    const executionDate = formatIsoDate(options.executionDate ?? createdAt);
+
+    const byCurrency = new Map<string, PayoutInstruction[]>();
+    for (const instruction of included) {
+      const group = byCurrency.get(instruction.currency) ?? [];
+      group.push(instruction);
+      byCurrency.set(instruction.currency, group);
+    }
+
+    const paymentInfos = [...byCurrency.entries()].map(([currency, group]) =>
+      this.paymentInfo(batch, currency, group, accounts, originator, executionDate),
+    );
+
+    const content = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<Document xmlns="${NAMESPACE}">`,
+      `  <CstmrCdtTrfInitn>`,
+      `    <GrpHdr>`,
+      `      <MsgId>${xml(batch.batchId)}</MsgId>`,
+      `      <CreDtTm>${createdAt.toISOString().slice(0, 19)}</CreDtTm>`,
+      `      <NbOfTxs>${included.length}</NbOfTxs>`,
+      `      <CtrlSum>${controlSum(included)}</CtrlSum>`,
+      `      <InitgPty><Nm>${xml(originator.name)}</Nm></InitgPty>`,
+      `    </GrpHdr>`,
+      ...paymentInfos,
+      `  </CstmrCdtTrfInitn>`,
+      `</Document>`,
+    ].join("\n");
+
+    return {
+      format: this.format,
+      fileName: `${batch.batchId}.pain001.xml`,
+      contentType: "application/xml",
+      content: content + "\n",
+      payoutIds: included.map((i) => i.payoutId),
+      skipped,
+    };
+  }
+
+  private paymentInfo(
+    batch: PayoutBatch,
+    currency: string,
+    instructions: PayoutInstruction[],
+    accounts: Map<string, MerchantPayoutAccount>,
+    originator: PayoutOriginator,
+    executionDate: string,
+  ): string {
+    const transactions = instructions.map((instruction) => {
+      const account = accounts.get(instruction.merchantId)!;
+      const amount = getPayoutAmount(instruction);
+      const decimals = amount.getCurrencyInfo().minorUnits;
+
+      return [
+        `      <CdtTrfTxInf>`,
+        `        <PmtId><EndToEndId>${xml(instruction.payoutId)}</EndToEndId></PmtId>`,
+        `        <Amt><InstdAmt Ccy="${currency}">${amount.toMajor().toFixed(decimals)}</InstdAmt></Amt>`,
+        ...(account.bic
+          ? [`        <CdtrAgt><FinInstnId><BIC>${xml(account.bic)}</BIC></FinInstnId></CdtrAgt>`]
+          : []),
+        `        <Cdtr><Nm>${xml(account.accountName)}</Nm></Cdtr>`,
+        `        <CdtrAcct><Id><IBAN>${xml(account.iban!)}</IBAN></Id></CdtrAcct>`,
+        `        <RmtInf><Ustrd>${xml(`Settlement payout ${instruction.payoutId}`)}</Ustrd></RmtInf>`,
+        `      </CdtTrfTxInf>`,
+      ].join("\n");
+    });
+
+    return [
+      `    <PmtInf>`,
+      `      <PmtInfId>${xml(`${batch.batchId}-${currency}`)}</PmtInfId>`,
+      `      <PmtMtd>TRF</PmtMtd>`,
+      `      <NbOfTxs>${instructions.length}</NbOfTxs>`,
+      `      <CtrlSum>${controlSum(instructions)}</CtrlSum>`,
+      ...(currency === "EUR"
+        ? [`      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>`]
+        : []),
+      `      <ReqdExctnDt>${executionDate}</ReqdExctnDt>`,
+      `      <Dbtr><Nm>${xml(originator.name)}</Nm></Dbtr>`,
+      `      <DbtrAcct><Id><IBAN>${xml(originator.iban!)}</IBAN></Id></DbtrAcct>`,
+      `      <DbtrAgt><FinInstnId>${
+        originator.bic ? `<BIC>${xml(originator.bic)}</BIC>` : `<Othr><Id>NOTPROVIDED</Id></Othr>`
+      }</FinInstnId></DbtrAgt>`,
+      `      <ChrgBr>SLEV</ChrgBr>`,
+      ...transactions,
+      `    </PmtInf>`,
+    ].join("\n");
+  }
+}
+
+/**
+ * Sum of instructed amounts; ISO control sums ignore currency
+ */
+function controlSum(instructions: PayoutInstruction[]): string {
+  const total = instructions.reduce(
+    (sum, instruction) => sum + getPayoutAmount(instruction).toMajor(),
+    0,
+  );
+  return Number(total.toPrecision(15)).toFixed(2);
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,79 @@
+/**
+ * Payout File Exporter
+ * Common contract for bank payout file formats
+ */
+
+import type {
+  MerchantPayoutAccount,
+  PayoutBatch,
+  PayoutInstruction,
+  PayoutOriginator,
+} from "../payout-batch";
+
+export type PayoutFileFormat = "nacha" | "pain.001" | "sepa-csv";
+
+export interface PayoutExportOptions {
+  /** Requested execution / effective entry date; defaults to today */
+  executionDate?: Date;
+  /** Overrides the generated file creation time (useful for reproducible files) */
+  createdAt?: Date;
+}
+
+export interface SkippedPayout {
+  payoutId: string;
+  merchantId: string;
+  reason: string;
+}
+
+export interface PayoutFile {
+  format: PayoutFileFormat;
+  fileName: string;
+  contentType: string;
+  content: string;
+  /** Payouts carried by this file */
+  payoutIds: string[];
+  /** Payouts this format cannot carry; they stay pending for another rail */
+  skipped: SkippedPayout[];
+}
+
+export interface PayoutFileExporter {
+  readonly format: PayoutFileFormat;
+  export(
+    batch: PayoutBatch,
+    accounts: Map<string, MerchantPayoutAccount>,
+    originator: PayoutOriginator,
+    options?: PayoutExportOptions,
+  ): PayoutFile;
+}
+
+/**
+ * Split pending payouts into those the format can carry and those it skips
+ */
+export function selectPayouts(
+  batch: PayoutBatch,
+  accept: (instruction: PayoutInstruction) => string | null,
+): { included: PayoutInstruction[]; skipped: SkippedPayout[] } {
+  const included: PayoutInstruction[] = [];
+  const skipped: SkippedPayout[] = [];
+
+  for (const instruction of batch.instructions) {
+    if (instruction.status !== "pending") continue;
+
+    const reason = accept(instruction);
+    if (reason) {
+      skipped.push({
+        payoutId: instruction.payoutId,
+        merchantId: instruction.merchantId,
+        reason,
+      });
+    } else {
+      included.push(instruction);
+    }
+  }
+
+  return { included, skipped };
+}
+
+export function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,80 @@
+/**
+ * SEPA CSV Exporter
+ * Bulk credit transfer upload accepted by most EU banking portals
+ */
+
+import {
+  getPayoutAmount,
+  type MerchantPayoutAccount,
+  type PayoutBatch,
+  type PayoutOriginator,
+} from "../payout-batch";
+import {
+  formatIsoDate,
+  PayoutExportOptions,
+  PayoutFile,
+  PayoutFileExporter,
+  selectPayouts,
+} from "./payout-file-exporter";
+
+const COLUMNS = [
+  "end_to_end_id",
+  "beneficiary_name",
+  "beneficiary_iban",
+  "beneficiary_bic",
+  "amount",
+  "currency",
+  "execution_date",
+  "remittance_information",
+] as const;
+
+export class SepaCsvExporter implements PayoutFileExporter {
+  readonly format = "sepa-csv" as const;
+
+  export(
+    batch: PayoutBatch,
+    accounts: Map<string, MerchantPayoutAccount>,
+    _originator: PayoutOriginator,
+    options: PayoutExportOptions = {},
+  ): PayoutFile {
+    const { included, skipped } = selectPayouts(batch, (instruction) => {
+      if (instruction.currency !== "EUR") return "SEPA carries EUR only";
+      if (instruction.direction !== "credit") return "SEPA CSV carries credit transfers only";
+      if (!accounts.get(instruction.merchantId)?.iban) return "Merchant has no IBAN on file";
+      return null;
+    });
+
+    const executionDate = formatIsoDate(options.executionDate ?? options.createdAt ?? new Date());
+
+    const rows = included.map((instruction) => {
+      const account = accounts.get(instruction.merchantId)!;
+      return [
+        instruction.payoutId,
+        account.accountName,
+        account.iban!.replace(/\s+/g, ""),
+        account.bic ?? "",
+        getPayoutAmount(instruction).toMajor().toFixed(2),
+        instruction.currency,
+        executionDate,
+        `Settlement payout ${instruction.payoutId}`,
+      ];
+    });
+
+    const content = [COLUMNS as readonly string[], ...rows]
+      .map((row) => row.map(csvField).join(","))
+      .join("\n");
+
+    return {
+      format: this.format,
+      fileName: `${batch.batchId}.sepa.csv`,
+      contentType: "text/csv",
+      content: content + "\n",
+      payoutIds: included.map((i) => i.payoutId),
+      skipped,
+    };
+  }
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
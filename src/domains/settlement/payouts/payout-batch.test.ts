@@ -0,0 +1,199 @@
+/**
+ * Payout Batch Tests
+ * Merchant netting, payout file export and return reconciliation
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { SettlementService } from "../services/settlement-service";
+import { SQLiteSettlementRepository } from "../repositories/settlement-repository";
+import {
+  Settlement,
+  SettlementStatus,
+  SettlementType,
+} from "../entities/settlement";
+import { SettlementFees } from "../value-objects/settlement-fees";
+import { parseNachaReturnFile, parsePain002 } from "./return-file-parser";
+import { nachaTraceNumber } from "./exporters/nacha-exporter";
+import { LedgerService } from "../../balance/services/ledger-service";
+import { SQLiteLedgerRepository } from "../../balance/repositories/ledger-repository";
+import { FxConversionService } from "../../shared/fx/fx-conversion-service";
+import { SQLiteFxRateStore } from "../../shared/fx/sqlite-fx-rate-store";
+
+const ODFI = "011000015";
+const originator = {
+  name: "Fire22 Payments",
+  companyId: "1234567890",
+  routingNumber: ODFI,
+  iban: "DE89370400440532013000",
+  bic: "COBADEFFXXX",
+};
+
+describe("Settlement payout batches", () => {
+  let repository: SQLiteSettlementRepository;
+  let service: SettlementService;
+  let rates: SQLiteFxRateStore;
+
+  const tomorrow = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const settle = async (
+    merchantId: string,
+    amount: number,
+    currency = "USD",
+    type = SettlementType.AUTOMATED,
+  ) =>
+    repository.save(
+      new Settlement(
+        `stl_${merchantId}_${type}_${amount}_${currency}`,
+        `pay_${merchantId}_${amount}`,
+        merchantId,
+        amount,
+        currency,
+        type,
+        tomorrow(),
+        SettlementFees.zero(currency),
+        { settlementReference: `REF_${merchantId}_${type}_${amount}_${currency}` },
+      ),
+    );
+
+  beforeEach(async () => {
+    repository = new SQLiteSettlementRepository(":memory:");
+    rates = new SQLiteFxRateStore(":memory:");
+    service = new SettlementService(
+      repository,
+      new LedgerService(new SQLiteLedgerRepository(":memory:")),
+      new FxConversionService(rates, rates),
+    );
+
+    await service.registerMerchantPayoutAccount({
+      merchantId: "m_us",
+      accountName: "Acme Sports",
+      routingNumber: "021000021",
+      accountNumber: "123456789",
+    });
+    await service.registerMerchantPayoutAccount({
+      merchantId: "m_eu",
+      accountName: "Euro Books",
+      iban: "FR1420041010050500013M02606",
+      bic: "PSSTFRPPPAR",
+    });
+  });
+
+  it("should net credits and refunds into one payout per merchant and currency", async () => {
+    const ids = [
+      (await settle("m_us", 100)).id,
+      (await settle("m_us", 50.25)).id,
+      (await settle("m_us", 30, "USD", SettlementType.REFUND)).id,
+      (await settle("m_us", 20, "EUR")).id,
+      (await settle("m_eu", 40, "EUR")).id,
+      (await settle("m_eu", 40, "EUR", SettlementType.REFUND)).id,
+    ];
+
+    const batch = await service.createPayoutBatch(ids);
+
+    expect(
+      batch.instructions.map((i) => [i.merchantId, i.currency, i.direction, i.amountMinor, i.status]),
+    ).toEqual([
+      ["m_eu", "EUR", "none", 0, "netted"],
+      ["m_us", "EUR", "credit", 2000, "pending"],
+      ["m_us", "USD", "credit", 12025, "pending"],
+    ]);
+
+    // Netted-out settlements close against the batch straight away
+    const netted = await repository.findById(ids[4]);
+    expect(netted?.status).toBe(SettlementStatus.COMPLETED);
+    expect(netted?.metadata.bankReference).toBe(`NETTED:${batch.batchId}`);
+    expect((await repository.findById(ids[0]))?.status).toBe(SettlementStatus.PROCESSING);
+  });
+
+  it("should refuse repeated settlements and ones already in an open batch", async () => {
+    const first = await settle("m_us", 100);
+    const second = await settle("m_us", 40);
+
+    await expect(service.createPayoutBatch([first.id, first.id])).rejects.toThrow(
+      `Settlement ${first.id} is listed more than once`,
+    );
+    expect((await repository.findById(first.id))?.status).toBe(SettlementStatus.PENDING);
+
+    const batch = await service.createPayoutBatch([first.id]);
+    expect(batch.instructions.map((i) => i.amountMinor)).toEqual([10000]);
+
+    await expect(service.createPayoutBatch([second.id, first.id])).rejects.toThrow(
+      `Settlement ${first.id} is already in open payout batch ${batch.batchId}`,
+    );
+    expect((await repository.findById(second.id))?.status).toBe(SettlementStatus.PENDING);
+  });
+
+  it("should export a blocked NACHA file and skip payouts ACH cannot carry", async () => {
+    const ids = [(await settle("m_us", 100)).id, (await settle("m_us", 20, "EUR")).id];
+    const batch = await service.createPayoutBatch(ids);
+
+    const file = await service.exportPayoutBatch(batch.batchId, "nacha", originator, {
+      createdAt: new Date("2025-03-03T10:15:00Z"),
+    });
+    const lines = file.content.trimEnd().split("\n");
+
+    expect(lines.every((line) => line.length === 94)).toBe(true);
+    expect(lines.length % 10).toBe(0);
+    expect(lines[2].slice(0, 3)).toBe("622");
+    expect(lines[2].slice(29, 39)).toBe("0000010000");
+    expect(lines[3].slice(32, 44)).toBe("000000010000");
+    expect(file.skipped).toEqual([
+      { payoutId: batch.instructions[0].payoutId, merchantId: "m_us", reason: "ACH carries USD only" },
+    ]);
+    expect((await service.getPayoutBatch(batch.batchId)).status).toBe("exported");
+  });
+
+  it("should fail settlements behind a returned ACH payout and complete confirmed ones", async () => {
+    const usd = await settle("m_us", 100);
+    const eur = await settle("m_eu", 75, "EUR");
+    const batch = await service.createPayoutBatch([usd.id, eur.id]);
+    const [eurPayout, usdPayout] = batch.instructions;
+
+    const pain001 = await service.exportPayoutBatch(batch.batchId, "pain.001", originator);
+    expect(pain001.content).toContain(`<EndToEndId>${eurPayout.payoutId}</EndToEndId>`);
+    expect(pain001.content).toContain(`<InstdAmt Ccy="EUR">75.00</InstdAmt>`);
+
+    const nachaReturn = [
+      "6".padEnd(79, " ") + "0".repeat(15),
+      ("799R03" + nachaTraceNumber(ODFI, usdPayout)).padEnd(79, " ") + "091000010000001",
+    ].join("\n");
+    const pain002 = `<TxInfAndSts><OrgnlEndToEndId>${eurPayout.payoutId}</OrgnlEndToEndId><TxSts>ACSC</TxSts><AcctSvcrRef>BANK-EU-1</AcctSvcrRef></TxInfAndSts>`;
+
+    const returned = await service.reconcilePayoutReturns(
+      batch.batchId,
+      parseNachaReturnFile(nachaReturn),
+      ODFI,
+    );
+    const confirmed = await service.reconcilePayoutReturns(batch.batchId, parsePain002(pain002));
+
+    expect(returned).toMatchObject({ matched: 1, failedSettlements: 1 });
+    expect(confirmed).toMatchObject({ matched: 1, completedSettlements: 1, batchStatus: "reconciled" });
+
+    const failed = await repository.findById(usd.id);
+    expect(failed?.status).toBe(SettlementStatus.FAILED);
+    expect(failed?.metadata.processingNotes?.at(-1)).toContain("(R03)");
+    expect((await repository.findById(eur.id))?.metadata.bankReference).toBe("BANK-EU-1");
+
+    // Re-sent files do not re-apply outcomes
+    const replay = await service.reconcilePayoutReturns(batch.batchId, parsePain002(pain002));
+    expect(replay.unmatched).toHaveLength(1);
+  });
+
+  it("should refuse a foreign-currency settlement until a rate is available", async () => {
+    await expect(
+      service.createAutomatedSettlement("pay_eur_1", "m_eu", 500, "EUR"),
+    ).rejects.toThrow("EUR/USD");
+
+    await rates.upsertRate({
+      base: "EUR",
+      quote: "USD",
+      rate: 1.08,
+      source: "test",
+      effectiveAt: new Date("2025-01-01"),
+    });
+    const settlement = await service.createAutomatedSettlement("pay_eur_1", "m_eu", 500, "EUR");
+
+    expect(settlement.currency).toBe("EUR");
+    expect(settlement.metadata.reconciliationData?.usdAmount).toBe(540);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Payout Batch - Domain-Driven Design Implementation
+ * Merchant-level netting of settlements into bank payouts
+ *
+ * Every settlement in a batch contributes its net amount to exactly one
+ * payout, keyed by merchant and currency. Refunds pull money back from the
+ * merchant, so a payout nets to a credit (we pay), a debit (we collect) or
+ * zero (nothing moves and the settlements close against the batch).
+ */
+
+import { Money } from "../../shared/money";
+import { Settlement, SettlementType } from "../entities/settlement";
+
+export type PayoutDirection = "credit" | "debit" | "none";
+
+export type PayoutStatus = "pending" | "paid" | "returned" | "netted";
+
+export type PayoutBatchStatus = "created" | "exported" | "reconciled";
+
+export interface PayoutInstruction {
+  /** Bank-facing reference (pain.001 EndToEndId, CSV reference) */
+  payoutId: string;
+  /** 1-based position within the batch; NACHA trace numbers are derived from it */
+  sequence: number;
+  merchantId: string;
+  currency: string;
+  direction: PayoutDirection;
+  /** Absolute net amount in minor units */
+  amountMinor: number;
+  settlementIds: string[];
+  status: PayoutStatus;
+  bankReference?: string;
+  returnReasonCode?: string;
+  returnReason?: string;
+  resolvedAt?: Date;
+}
+
+export interface PayoutBatch {
+  batchId: string;
+  status: PayoutBatchStatus;
+  instructions: PayoutInstruction[];
+  createdAt: Date;
+  exportedAt?: Date;
+  exportFormats: string[];
+  reconciledAt?: Date;
+}
+
+/**
+ * Where a merchant's money is sent; US payouts need routing and account
+ * numbers, SEPA payouts need an IBAN
+ */
+export interface MerchantPayoutAccount {
+  merchantId: string;
+  accountName: string;
+  routingNumber?: string;
+  accountNumber?: string;
+  accountType?: "checking" | "savings";
+  iban?: string;
+  bic?: string;
+}
+
+/**
+ * The paying side of a payout file
+ */
+export interface PayoutOriginator {
+  name: string;
+  /** NACHA company identification (10 characters, usually "1" + EIN) */
+  companyId?: string;
+  /** Originating DFI routing number (9 digits) */
+  routingNumber?: string;
+  /** Immediate destination routing number; defaults to the originating DFI */
+  destinationRoutingNumber?: string;
+  destinationName?: string;
+  iban?: string;
+  bic?: string;
+}
+
+/**
+ * Signed contribution of one settlement to its merchant's payout
+ */
+export function settlementNetContribution(settlement: Settlement): Money {
+  const net = Money.of(settlement.breakdown.netAmount, settlement.currency);
+  return settlement.settlementType === SettlementType.REFUND
+    ? net.negate()
+    : net;
+}
+
+/**
+ * Net settlements into one instruction per merchant per currency
+ */
+export function netSettlements(
+  batchId: string,
+  settlements: Settlement[],
+): PayoutInstruction[] {
+  const groups = new Map<string, { net: Money; settlements: Settlement[] }>();
+
+  for (const settlement of settlements) {
+    const key = `${settlement.merchantId}|${settlement.currency}`;
+    const contribution = settlementNetContribution(settlement);
+    const group = groups.get(key);
+
+    if (group) {
+      group.net = group.net.add(contribution);
+      group.settlements.push(settlement);
+    } else {
+      groups.set(key, { net: contribution, settlements: [settlement] });
+    }
+  }
+
+  // Stable ordering keeps exported files reproducible
+  const keys = [...groups.keys()].sort();
+
+  return keys.map((key, index) => {
+    const { net, settlements: members } = groups.get(key)!;
+    const sequence = index + 1;
+    const direction: PayoutDirection = net.isZero()
+      ? "none"
+      : net.isPositive()
+        ? "credit"
+        : "debit";
+
+    return {
+      payoutId: `${batchId}-${String(sequence).padStart(4, "0")}`,
+      sequence,
+      merchantId: members[0].merchantId,
+      currency: net.getCurrency(),
+      direction,
+      amountMinor: net.abs().getMinorUnits(),
+      settlementIds: members.map((s) => s.id),
+      status: direction === "none" ? "netted" : "pending",
+    };
+  });
+}
+
+export function getPayoutAmount(instruction: PayoutInstruction): Money {
+  return Money.fromMinor(instruction.amountMinor, instruction.currency);
+}
+
+/**
+ * Totals per currency and direction, for file control records and reports
+ */
+export function summarizePayoutBatch(batch: PayoutBatch): {
+  currency: string;
+  credits: number;
+  debits: number;
+  payoutCount: number;
+}[] {
+  const totals = new Map<
+    string,
+    { credits: Money; debits: Money; payoutCount: number }
+  >();
+
+  for (const instruction of batch.instructions) {
+    const amount = getPayoutAmount(instruction);
+    const total = totals.get(instruction.currency) ?? {
+      credits: Money.zero(instruction.currency),
+      debits: Money.zero(instruction.currency),
+      payoutCount: 0,
+    };
+
+    if (instruction.direction === "credit") total.credits = total.credits.add(amount);
+    if (instruction.direction === "debit") total.debits = total.debits.add(amount);
+    total.payoutCount++;
+    totals.set(instruction.currency, total);
+  }
+
+  return [...totals.entries()].map(([currency, total]) => ({
+    currency,
+    credits: total.credits.toMajor(),
+    debits: total.debits.toMajor(),
+    payoutCount: total.payoutCount,
+  }));
+}
@@ -0,0 +1,179 @@
+/**
+ * Payout Return File Parsers
+ * Normalize bank return / status files into payout outcomes
+ *
+ * Supported inputs:
+ * - NACHA return files (entry detail + addenda type 99)
+ * - ISO 20022 pain.002 payment status reports
+ * - CSV confirmations with `payout_id,status,bank_reference,reason_code,reason`
+ */
+
+export type PayoutReturnFormat = "nacha" | "pain.002" | "csv";
+
+export interface PayoutReturnRecord {
+  /** Payout reference echoed by the bank (EndToEndId / CSV reference) */
+  payoutId?: string;
+  /** Original NACHA trace number, when the bank only echoes that */
+  traceNumber?: string;
+  outcome: "paid" | "returned";
+  bankReference?: string;
+  reasonCode?: string;
+  reason?: string;
+}
+
+const NACHA_RETURN_REASONS: Record<string, string> = {
+  R01: "Insufficient funds",
+  R02: "Account closed",
+  R03: "No account / unable to locate account",
+  R04: "Invalid account number",
+  R07: "Authorization revoked by customer",
+  R08: "Payment stopped",
+  R10: "Customer advises not authorized",
+  R16: "Account frozen",
+  R20: "Non-transaction account",
+  R29: "Corporate customer advises not authorized",
+};
+
+const ISO_PAID_STATUSES = new Set(["ACSC", "ACSP", "ACCC", "ACWC"]);
+const CSV_PAID_STATUSES = new Set(["paid", "settled", "completed", "accepted"]);
+const CSV_RETURNED_STATUSES = new Set(["returned", "rejected", "failed"]);
+
+export function parsePayoutReturnFile(
+  format: PayoutReturnFormat,
+  content: string,
+): PayoutReturnRecord[] {
+  switch (format) {
+    case "nacha":
+      return parseNachaReturnFile(content);
+    case "pain.002":
+      return parsePain002(content);
+    case "csv":
+      return parseCsvReturnFile(content);
+  }
+}
+
+export function parseNachaReturnFile(content: string): PayoutReturnRecord[] {
+  const records: PayoutReturnRecord[] = [];
+  let entryTrace: string | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith("6")) {
+      entryTrace = line.slice(79, 94).trim();
+    } else if (line.startsWith("799")) {
+      const reasonCode = line.slice(3, 6);
+      records.push({
+        traceNumber: line.slice(6, 21).trim(),
+        outcome: "returned",
+        reasonCode,
+        reason: NACHA_RETURN_REASONS[reasonCode] ?? "ACH return",
+        bankReference: line.slice(79, 94).trim() || entryTrace,
+      });
+      entryTrace = undefined;
+    }
+  }
+
+  return records;
+}
+
+export function parsePain002(content: string): PayoutReturnRecord[] {
+  const records: PayoutReturnRecord[] = [];
+  const transactions = content.match(/<TxInfAndSts>[\s\S]*?<\/TxInfAndSts>/g) ?? [];
+
+  for (const tx of transactions) {
+    const status = xmlValue(tx, "TxSts");
+    const payoutId = xmlValue(tx, "OrgnlEndToEndId");
+    if (!status || !payoutId) continue;
+
+    // Pending statuses (RCVD, ACTC, PDNG) are not outcomes yet
+    if (ISO_PAID_STATUSES.has(status)) {
+      records.push({
+        payoutId,
+        outcome: "paid",
+        bankReference: xmlValue(tx, "AcctSvcrRef") ?? xmlValue(tx, "StsId"),
+      });
+    } else if (status === "RJCT") {
+      records.push({
+        payoutId,
+        outcome: "returned",
+        bankReference: xmlValue(tx, "AcctSvcrRef") ?? xmlValue(tx, "StsId"),
+        reasonCode: xmlValue(tx, "Cd"),
+        reason: xmlValue(tx, "AddtlInf") ?? "Rejected by bank",
+      });
+    }
+  }
+
+  return records;
+}
+
+export function parseCsvReturnFile(content: string): PayoutReturnRecord[] {
+  const [header, ...rows] = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map(parseCsvLine);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const column = (row: string[], ...names: string[]) => {
+    for (const name of names) {
+      const index = columns.indexOf(name);
+      if (index >= 0 && row[index]?.trim()) return row[index].trim();
+    }
+    return undefined;
+  };
+
+  const records: PayoutReturnRecord[] = [];
+  for (const row of rows) {
+    const payoutId = column(row, "payout_id", "end_to_end_id", "reference");
+    const status = column(row, "status")?.toLowerCase();
+    if (!payoutId || !status) continue;
+
+    if (CSV_PAID_STATUSES.has(status)) {
+      records.push({ payoutId, outcome: "paid", bankReference: column(row, "bank_reference") });
+    } else if (CSV_RETURNED_STATUSES.has(status)) {
+      records.push({
+        payoutId,
+        outcome: "returned",
+        bankReference: column(row, "bank_reference"),
+        reasonCode: column(row, "reason_code"),
+        reason: column(row, "reason") ?? "Returned by bank",
+      });
+    }
+  }
+
+  return records;
+}
+
+function xmlValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+  return match ? match[1].trim() : undefined;
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields;
+}
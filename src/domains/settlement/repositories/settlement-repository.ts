@@ -13,8 +13,12 @@ import {
   Settlement,
   SettlementStatus,
   SettlementType,
-  SettlementFees,
 } from "../entities/settlement";
+import { SettlementFees } from "../value-objects/settlement-fees";
+import type {
+  MerchantPayoutAccount,
+  PayoutBatch,
+} from "../payouts/payout-batch";
 
 export class SQLiteSettlementRepository implements SettlementRepository {
   private db: Database;
@@ -84,6 +88,32 @@ export class SQLiteSettlementRepository implements SettlementRepository {
       `CREATE INDEX IF NOT EXISTS idx_settlements_batch ON settlements(batch_id)`,
     );
 
+    // Netted payout batches; instructions carry the settlement ids they close
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS payout_batches (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        instructions TEXT NOT NULL, -- JSON array
+        export_formats TEXT, -- JSON array
+        created_at DATETIME NOT NULL,
+        exported_at DATETIME,
+        reconciled_at DATETIME
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS merchant_payout_accounts (
+        merchant_id TEXT PRIMARY KEY,
+        account_name TEXT NOT NULL,
+        routing_number TEXT,
+        account_number TEXT,
+        account_type TEXT,
+        iban TEXT,
+        bic TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
     this.logger.system("Settlement database tables initialized");
   }
 
@@ -412,14 +442,115 @@ export class SQLiteSettlementRepository implements SettlementRepository {
     }
   }
 
+  // Payout batches and merchant bank accounts
+
+  async savePayoutBatch(batch: PayoutBatch): Promise<PayoutBatch> {
+    this.db
+      .prepare(
+        `
+        INSERT OR REPLACE INTO payout_batches (
+          id, status, instructions, export_formats, created_at, exported_at, reconciled_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `,
+      )
+      .run(
+        batch.batchId,
+        batch.status,
+        JSON.stringify(batch.instructions),
+        JSON.stringify(batch.exportFormats),
+        batch.createdAt.toISOString(),
+        batch.exportedAt?.toISOString() ?? null,
+        batch.reconciledAt?.toISOString() ?? null,
+      );
+
+    await this.logger.business("Payout batch saved to database", {
+      entity: "PayoutBatch",
+      entityId: batch.batchId,
+      status: batch.status,
+      payoutCount: batch.instructions.length,
+    });
+
+    return batch;
+  }
+
+  async findPayoutBatch(batchId: string): Promise<PayoutBatch | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM payout_batches WHERE id = ?`)
+      .get(batchId) as any;
+
+    return row ? this.mapRowToPayoutBatch(row) : null;
+  }
+
+  async saveMerchantPayoutAccount(
+    account: MerchantPayoutAccount,
+  ): Promise<void> {
+    this.db
+      .prepare(
+        `
+        INSERT OR REPLACE INTO merchant_payout_accounts (
+          merchant_id, account_name, routing_number, account_number, account_type, iban, bic, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      `,
+      )
+      .run(
+        account.merchantId,
+        account.accountName,
+        account.routingNumber ?? null,
+        account.accountNumber ?? null,
+        account.accountType ?? null,
+        account.iban ?? null,
+        account.bic ?? null,
+      );
+  }
+
+  async findMerchantPayoutAccounts(
+    merchantIds: string[],
+  ): Promise<MerchantPayoutAccount[]> {
+    if (merchantIds.length === 0) return [];
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM merchant_payout_accounts WHERE merchant_id IN (${merchantIds.map(() => "?").join(", ")})`,
+      )
+      .all(...merchantIds) as any[];
+
+    return rows.map((row) => ({
+      merchantId: row.merchant_id,
+      accountName: row.account_name,
+      routingNumber: row.routing_number ?? undefined,
+      accountNumber: row.account_number ?? undefined,
+      accountType: row.account_type ?? undefined,
+      iban: row.iban ?? undefined,
+      bic: row.bic ?? undefined,
+    }));
+  }
+
   // Helper methods for mapping database rows to domain entities
 
+  private mapRowToPayoutBatch(row: any): PayoutBatch {
+    const instructions = JSON.parse(row.instructions).map((i: any) => ({
+      ...i,
+      resolvedAt: i.resolvedAt ? new Date(i.resolvedAt) : undefined,
+    }));
+
+    return {
+      batchId: row.id,
+      status: row.status,
+      instructions,
+      exportFormats: JSON.parse(row.export_formats || "[]"),
+      createdAt: new Date(row.created_at),
+      exportedAt: row.exported_at ? new Date(row.exported_at) : undefined,
+      reconciledAt: row.reconciled_at ? new Date(row.reconciled_at) : undefined,
+    };
+  }
+
   private mapRowToSettlement(row: any): Settlement {
     // Reconstruct SettlementFees value object
     const fees = new SettlementFees(
       row.processing_fee,
       row.network_fee,
       row.interchange_fee,
+      row.currency,
     );
 
     // Parse JSON metadata
@@ -437,9 +568,7 @@ export class SQLiteSettlementRepository implements SettlementRepository {
       reconciliationData,
     };
 
-    // Create settlement entity (this would need to be done through a factory in real implementation)
-    // For now, we'll reconstruct the object
-    const settlement = {
+    return Settlement.fromPersistence({
       id: row.id,
       paymentId: row.payment_id,
       merchantId: row.merchant_id,
@@ -455,9 +584,7 @@ export class SQLiteSettlementRepository implements SettlementRepository {
       completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
       failedAt: row.failed_at ? new Date(row.failed_at) : undefined,
       metadata,
-    } as Settlement;
-
-    return settlement;
+    });
   }
 
   async close(): Promise<void> {
@@ -28,6 +28,27 @@ import {
 } from "../entities/settlement";
 
 import { FeeCalculator } from "../value-objects/settlement-fees";
+import { LedgerService } from "../../balance/services/ledger-service";
+import { Money, isSupportedCurrency } from "../../shared/money";
+import { FxConversionService } from "../../shared/fx/fx-conversion-service";
+import {
+  netSettlements,
+  summarizePayoutBatch,
+  type MerchantPayoutAccount,
+  type PayoutBatch,
+  type PayoutInstruction,
+  type PayoutOriginator,
+} from "../payouts/payout-batch";
+import type {
+  PayoutExportOptions,
+  PayoutFile,
+  PayoutFileExporter,
+  PayoutFileFormat,
+} from "../payouts/exporters/payout-file-exporter";
+import { NachaExporter, nachaTraceNumber } from "../payouts/exporters/nacha-exporter";
+import { Pain001Exporter } from "../payouts/exporters/pain001-exporter";
+import { SepaCsvExporter } from "../payouts/exporters/sepa-csv-exporter";
+import type { PayoutReturnRecord } from "../payouts/return-file-parser";
 
 // Domain Events
 export interface SettlementEvents {
@@ -61,6 +82,26 @@ export interface SettlementEvents {
     successCount: number;
     failureCount: number;
   };
+  payoutBatchCreated: {
+    batchId: string;
+    settlementCount: number;
+    payoutCount: number;
+  };
+  payoutReturned: {
+    batchId: string;
+    payoutId: string;
+    merchantId: string;
+    reasonCode?: string;
+  };
+}
+
+export interface PayoutReconciliationResult {
+  batchId: string;
+  matched: number;
+  completedSettlements: number;
+  failedSettlements: number;
+  unmatched: PayoutReturnRecord[];
+  batchStatus: PayoutBatch["status"];
 }
 
 // Business Rules
@@ -91,8 +132,26 @@ export class SettlementService {
     complianceThreshold: 10000, // $10,000 compliance review threshold
   };
 
-  constructor(repository: SettlementRepository) {
+  // Double-entry ledger; completed settlements clear suspense into house cash
+  private ledger: LedgerService;
+
+  // Rates for non-USD settlements; limits and fee schedules are in USD
+  private fx: FxConversionService;
+
+  private readonly exporters = new Map<PayoutFileFormat, PayoutFileExporter>(
+    [new NachaExporter(), new Pain001Exporter(), new SepaCsvExporter()].map(
+      (exporter) => [exporter.format, exporter],
+    ),
+  );
+
+  constructor(
+    repository: SettlementRepository,
+    ledger: LedgerService,
+    fx: FxConversionService,
+  ) {
     this.repository = repository;
+    this.ledger = ledger;
+    this.fx = fx;
   }
 
   /**
@@ -117,11 +176,26 @@ export class SettlementService {
               currency,
             });
 
+            const principal = Money.of(amount, currency);
+
+            // Limits are expressed in USD, so foreign amounts are checked
+            // at the rate snapshotted for this payment; with no rate the
+            // conversion throws and the settlement is refused
+            const usdConversion =
+              principal.getCurrency() !== "USD"
+                ? await this.fx.convert(principal, "USD", {
+                    transactionId: paymentId,
+                  })
+                : undefined;
+            const usdAmount = usdConversion
+              ? usdConversion.converted.toMajor()
+              : principal.toMajor();
+
             // Validate business rules
             await this.validateSettlementCreation(
               paymentId,
               merchantId,
-              amount,
+              usdAmount,
               currency,
             );
 
@@ -139,21 +213,25 @@ export class SettlementService {
             const finalSettlementDate =
               settlementDate || this.calculateNextSettlementDate();
 
-            // Calculate fees based on amount and currency
-            const baseFees = FeeCalculator.calculateStandardFees(amount);
-            const adjustedFees = FeeCalculator.calculateCurrencyAdjustedFees(
-              amount,
-              currency,
-              baseFees,
-            );
+            // Fee schedule is priced in USD and converted back at the same snapshot
+            let adjustedFees = FeeCalculator.calculateStandardFees(principal);
+            if (usdConversion) {
+              adjustedFees = await FeeCalculator.calculateCurrencyAdjustedFees(
+                principal,
+                FeeCalculator.calculateStandardFees(usdConversion.converted),
+                this.fx,
+                paymentId,
+              );
+            }
 
             // Check compliance threshold
-            if (amount >= this.rules.complianceThreshold) {
+            if (usdAmount >= this.rules.complianceThreshold) {
               await this.logger.business(
                 "High-value settlement flagged for compliance review",
                 {
                   paymentId,
                   amount,
+                  usdAmount,
                   threshold: this.rules.complianceThreshold,
                 },
               );
@@ -170,6 +248,14 @@ export class SettlementService {
               `batch_${Date.now()}`,
             );
 
+            if (usdConversion?.snapshot) {
+              settlement.metadata.reconciliationData = {
+                ...settlement.metadata.reconciliationData,
+                fxRate: usdConversion.snapshot,
+                usdAmount,
+              };
+            }
+
             // Save to repository
             const savedSettlement = await this.repository.save(settlement);
 
@@ -188,7 +274,7 @@ export class SettlementService {
               {
                 settlementAmount: amount,
                 feeAmount: adjustedFees.totalFees,
-                netAmount: amount - adjustedFees.totalFees,
+                netAmount: savedSettlement.breakdown.netAmount,
               },
             );
 
@@ -311,6 +397,314 @@ export class SettlementService {
     );
   }
 
+  /**
+   * Net pending settlements into one payout per merchant per currency.
+   * Settlements move to processing until the bank confirms or returns
+   * their payout; payouts that net to zero complete immediately.
+   */
+  async createPayoutBatch(settlementIds: string[]): Promise<PayoutBatch> {
+    return await ErrorBoundary.execute(
+      async () => {
+        const batchId = `pb_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+        const settlements: Settlement[] = [];
+
+        for (const settlementId of settlementIds) {
+          // A repeated id would be netted, and paid out, once per occurrence
+          if (settlements.some((s) => s.id === settlementId)) {
+            throw this.errorFactory.businessRuleViolation(
+              `Settlement ${settlementId} is listed more than once`,
+              "duplicate_settlement",
+            );
+          }
+
+          const settlement = await this.repository.findById(settlementId);
+          if (!settlement) {
+            throw this.errorFactory.entityNotFound("Settlement", settlementId);
+          }
+
+          const openBatchId = await this.findOpenPayoutBatch(settlement);
+          if (openBatchId) {
+            throw this.errorFactory.businessRuleViolation(
+              `Settlement ${settlementId} is already in open payout batch ${openBatchId}`,
+              "settlement_already_batched",
+            );
+          }
+          if (settlement.status !== SettlementStatus.PENDING) {
+            throw this.errorFactory.businessRuleViolation(
+              `Settlement ${settlementId} is ${settlement.status}, only pending settlements can be batched`,
+              "invalid_settlement_status",
+            );
+          }
+          settlements.push(settlement);
+        }
+
+        const batch: PayoutBatch = {
+          batchId,
+          status: "created",
+          instructions: netSettlements(batchId, settlements),
+          exportFormats: [],
+          createdAt: new Date(),
+        };
+
+        const payoutBySettlement = new Map<string, PayoutInstruction>();
+        for (const instruction of batch.instructions) {
+          for (const id of instruction.settlementIds) {
+            payoutBySettlement.set(id, instruction);
+          }
+        }
+
+        for (const settlement of settlements) {
+          const instruction = payoutBySettlement.get(settlement.id)!;
+          settlement.metadata.batchId = batchId;
+          settlement.metadata.reconciliationData = {
+            ...settlement.metadata.reconciliationData,
+            payoutId: instruction.payoutId,
+          };
+          settlement.markAsProcessing();
+
+          if (instruction.status === "netted") {
+            settlement.complete(`NETTED:${batchId}`);
+          }
+
+          await this.repository.save(settlement);
+          if (settlement.status === SettlementStatus.COMPLETED) {
+            await this.postToLedger(settlement);
+          }
+        }
+
+        await this.repository.savePayoutBatch(batch);
+
+        await this.logger.business(
+          "Payout batch created",
+          {
+            operation: "createPayoutBatch",
+            batchId,
+            settlementCount: settlements.length,
+            payoutCount: batch.instructions.length,
+          },
+          { totals: summarizePayoutBatch(batch) },
+        );
+
+        await this.publishEvent("payoutBatchCreated", {
+          batchId,
+          settlementCount: settlements.length,
+          payoutCount: batch.instructions.length,
+        });
+
+        return batch;
+      },
+      {
+        domain: "settlement",
+        operation: "createPayoutBatch",
+      },
+    );
+  }
+
+  async getPayoutBatch(batchId: string): Promise<PayoutBatch> {
+    const batch = await this.repository.findPayoutBatch(batchId);
+    if (!batch) {
+      throw this.errorFactory.entityNotFound("PayoutBatch", batchId);
+    }
+    return batch;
+  }
+
+  async registerMerchantPayoutAccount(
+    account: MerchantPayoutAccount,
+  ): Promise<void> {
+    if (!account.iban && !(account.routingNumber && account.accountNumber)) {
+      throw this.errorFactory.validationError(
+        "Payout account needs an IBAN or routing and account numbers",
+        "account",
+        account.merchantId,
+      );
+    }
+
+    await this.repository.saveMerchantPayoutAccount(account);
+    await this.logger.audit("Merchant payout account registered", {
+      operation: "registerMerchantPayoutAccount",
+      merchantId: account.merchantId,
+    });
+  }
+
+  /**
+   * Render a batch as a bank payout file. Payouts the format cannot carry
+   * (wrong currency, debits on credit-only rails, missing bank details) are
+   * listed in `skipped` and stay pending.
+   */
+  async exportPayoutBatch(
+    batchId: string,
+    format: PayoutFileFormat,
+    originator: PayoutOriginator,
+    options: PayoutExportOptions = {},
+  ): Promise<PayoutFile> {
+    return await ErrorBoundary.execute(
+      async () => {
+        const exporter = this.exporters.get(format);
+        if (!exporter) {
+          throw this.errorFactory.validationError(
+            `Unsupported payout file format: ${format}`,
+            "format",
+            format,
+          );
+        }
+
+        const batch = await this.getPayoutBatch(batchId);
+        const merchantIds = [...new Set(batch.instructions.map((i) => i.merchantId))];
+        const accounts = new Map(
+          (await this.repository.findMerchantPayoutAccounts(merchantIds)).map(
+            (account) => [account.merchantId, account],
+          ),
+        );
+
+        const file = exporter.export(batch, accounts, originator, options);
+
+        if (file.payoutIds.length > 0) {
+          batch.status = batch.status === "created" ? "exported" : batch.status;
+          batch.exportedAt = new Date();
+          if (!batch.exportFormats.includes(format)) {
+            batch.exportFormats.push(format);
+          }
+          await this.repository.savePayoutBatch(batch);
+        }
+
+        await this.logger.audit("Payout file exported", {
+          operation: "exportPayoutBatch",
+          batchId,
+          format,
+          fileName: file.fileName,
+          payoutCount: file.payoutIds.length,
+          skippedCount: file.skipped.length,
+        });
+
+        return file;
+      },
+      {
+        domain: "settlement",
+        operation: "exportPayoutBatch",
+        batchId,
+      },
+    );
+  }
+
+  /**
+   * Apply bank confirmations and returns to the settlements behind each payout.
+   * Records are matched by payout id, or by NACHA trace number when the
+   * originator routing number is given.
+   */
+  async reconcilePayoutReturns(
+    batchId: string,
+    records: PayoutReturnRecord[],
+    odfiRoutingNumber?: string,
+  ): Promise<PayoutReconciliationResult> {
+    return await ErrorBoundary.execute(
+      async () => {
+        const batch = await this.getPayoutBatch(batchId);
+        const unmatched: PayoutReturnRecord[] = [];
+        let matched = 0;
+        let completedSettlements = 0;
+        let failedSettlements = 0;
+
+        for (const record of records) {
+          const instruction = batch.instructions.find(
+            (i) =>
+              (record.payoutId && i.payoutId === record.payoutId) ||
+              (record.traceNumber &&
+                odfiRoutingNumber &&
+                nachaTraceNumber(odfiRoutingNumber, i) === record.traceNumber),
+          );
+
+          // Already-resolved payouts are not re-applied (bank files get re-sent)
+          if (!instruction || instruction.status !== "pending") {
+            unmatched.push(record);
+            continue;
+          }
+
+          matched++;
+          instruction.status = record.outcome;
+          instruction.bankReference = record.bankReference;
+          instruction.returnReasonCode = record.reasonCode;
+          instruction.returnReason = record.reason;
+          instruction.resolvedAt = new Date();
+
+          for (const settlementId of instruction.settlementIds) {
+            const settlement = await this.repository.findById(settlementId);
+            if (!settlement || settlement.status !== SettlementStatus.PROCESSING) {
+              continue;
+            }
+
+            if (record.outcome === "paid") {
+              settlement.complete(record.bankReference ?? instruction.payoutId);
+              await this.repository.save(settlement);
+              await this.postToLedger(settlement);
+              completedSettlements++;
+
+              await this.publishEvent("settlementCompleted", {
+                settlementId: settlement.id,
+                paymentId: settlement.paymentId,
+                merchantId: settlement.merchantId,
+                netAmount: settlement.breakdown.netAmount,
+                bankReference: settlement.metadata.bankReference,
+              });
+            } else {
+              if (record.bankReference) {
+                settlement.metadata.bankReference = record.bankReference;
+              }
+              settlement.fail(
+                `Payout ${instruction.payoutId} returned${record.reasonCode ? ` (${record.reasonCode})` : ""}: ${record.reason ?? "no reason given"}`,
+              );
+              await this.repository.save(settlement);
+              failedSettlements++;
+
+              await this.publishEvent("settlementFailed", {
+                settlementId: settlement.id,
+                paymentId: settlement.paymentId,
+                reason: record.reason ?? "Payout returned",
+              });
+            }
+          }
+
+          if (record.outcome === "returned") {
+            await this.publishEvent("payoutReturned", {
+              batchId,
+              payoutId: instruction.payoutId,
+              merchantId: instruction.merchantId,
+              reasonCode: record.reasonCode,
+            });
+          }
+        }
+
+        if (batch.instructions.every((i) => i.status !== "pending")) {
+          batch.status = "reconciled";
+          batch.reconciledAt = new Date();
+        }
+        await this.repository.savePayoutBatch(batch);
+
+        await this.logger.business("Payout returns reconciled", {
+          operation: "reconcilePayoutReturns",
+          batchId,
+          matched,
+          unmatched: unmatched.length,
+          completedSettlements,
+          failedSettlements,
+        });
+
+        return {
+          batchId,
+          matched,
+          completedSettlements,
+          failedSettlements,
+          unmatched,
+          batchStatus: batch.status,
+        };
+      },
+      {
+        domain: "settlement",
+        operation: "reconcilePayoutReturns",
+        batchId,
+      },
+    );
+  }
+
   /**
    * Complete settlement with bank reference
    */
@@ -354,6 +748,7 @@ export class SettlementService {
 
         // Save updated settlement
         const updatedSettlement = await this.repository.save(settlement);
+        await this.postToLedger(updatedSettlement);
 
         await this.logger.business(
           "Settlement completed successfully",
@@ -460,7 +855,7 @@ export class SettlementService {
     }
 
     // Validate currency
-    if (!["USD", "EUR", "GBP", "CAD"].includes(currency)) {
+    if (!isSupportedCurrency(currency)) {
       throw this.errorFactory.validationError(
         `Unsupported currency: ${currency}`,
         "currency",
@@ -527,6 +922,36 @@ export class SettlementService {
     }
 
     await this.repository.save(settlement);
+
+    if (settlement.status === SettlementStatus.COMPLETED) {
+      await this.postToLedger(settlement);
+    }
+  }
+
+  /**
+   * The batch still waiting on a bank outcome for this settlement, if any
+   */
+  private async findOpenPayoutBatch(settlement: Settlement): Promise<string | undefined> {
+    const batchId = settlement.metadata.batchId;
+    if (!batchId) {
+      return undefined;
+    }
+
+    const batch = await this.repository.findPayoutBatch(batchId);
+    const instruction = batch?.instructions.find((i) => i.settlementIds.includes(settlement.id));
+    return instruction?.status === "pending" ? batchId : undefined;
+  }
+
+  private async postToLedger(settlement: Settlement): Promise<void> {
+    await this.ledger.postSettlementCompletion({
+      id: settlement.id,
+      paymentId: settlement.paymentId,
+      merchantId: settlement.merchantId,
+      amount: settlement.amount,
+      totalFees: settlement.fees.totalFees,
+      currency: settlement.currency,
+      bankReference: settlement.metadata.bankReference,
+    });
   }
 
   private calculateAnalytics(settlements: Settlement[]): {
@@ -609,11 +1034,21 @@ export interface SettlementRepository {
   ): Promise<Settlement[]>;
   findPendingSettlements(): Promise<Settlement[]>;
   updateStatus(id: string, status: SettlementStatus): Promise<void>;
+  savePayoutBatch(batch: PayoutBatch): Promise<PayoutBatch>;
+  findPayoutBatch(batchId: string): Promise<PayoutBatch | null>;
+  saveMerchantPayoutAccount(account: MerchantPayoutAccount): Promise<void>;
+  findMerchantPayoutAccounts(
+    merchantIds: string[],
+  ): Promise<MerchantPayoutAccount[]>;
 }
 
 // Factory for creating settlement services
 export class SettlementServiceFactory {
-  static create(repository: SettlementRepository): SettlementService {
-    return new SettlementService(repository);
+  static create(
+    repository: SettlementRepository,
+    ledger: LedgerService,
+    fx: FxConversionService,
+  ): SettlementService {
+    return new SettlementService(repository, ledger, fx);
   }
 }
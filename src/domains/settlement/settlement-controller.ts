@@ -13,8 +13,25 @@ import {
 import { SettlementRepositoryFactory } from "./repositories/settlement-repository";
 import { Settlement, SettlementSummary } from "./entities/settlement";
 import { FeeCalculator } from "./value-objects/settlement-fees";
+import { IdempotencyService } from "../../core/idempotency/idempotency";
+import { LedgerService } from "../balance/services/ledger-service";
+import { SQLiteLedgerRepository } from "../balance/repositories/ledger-repository";
+import { FxConversionService } from "../shared/fx/fx-conversion-service";
+import { SQLiteFxRateStore } from "../shared/fx/sqlite-fx-rate-store";
+import { isSupportedCurrency } from "../shared/money";
+import type {
+  MerchantPayoutAccount,
+  PayoutOriginator,
+} from "./payouts/payout-batch";
+import type { PayoutFileFormat } from "./payouts/exporters/payout-file-exporter";
+import {
+  parsePayoutReturnFile,
+  type PayoutReturnFormat,
+} from "./payouts/return-file-parser";
 
 export interface CreateSettlementRequest {
+  /** Client-supplied key; replays return the first result */
+  idempotencyKey?: string;
   paymentId: string;
   merchantId: string;
   amount: number;
@@ -33,6 +50,21 @@ export interface BatchProcessRequest {
   settlementIds: string[];
 }
 
+export interface ExportPayoutBatchRequest {
+  batchId: string;
+  format: PayoutFileFormat;
+  originator: PayoutOriginator;
+  executionDate?: string;
+}
+
+export interface ReconcileReturnFileRequest {
+  batchId: string;
+  format: PayoutReturnFormat;
+  content: string;
+  /** Needed to match NACHA returns by trace number */
+  odfiRoutingNumber?: string;
+}
+
 export interface SettlementAnalyticsRequest {
   merchantId?: string;
   startDate?: string;
@@ -120,12 +152,19 @@ export class SettlementsController {
   private service: SettlementService;
   private logger = LoggerFactory.create("settlements-controller");
   private errorFactory = new DomainErrorFactory("settlements");
-
-  constructor(dbPath?: string) {
+  private idempotency: IdempotencyService;
+
+  constructor(
+    ledger: LedgerService,
+    fx: FxConversionService,
+    dbPath?: string,
+    idempotency: IdempotencyService = IdempotencyService.getInstance(),
+  ) {
     // Initialize repository and service
     const repository =
       SettlementRepositoryFactory.createSQLiteRepository(dbPath);
-    this.service = SettlementServiceFactory.create(repository);
+    this.service = SettlementServiceFactory.create(repository, ledger, fx);
+    this.idempotency = idempotency;
   }
 
   /**
@@ -160,44 +199,41 @@ export class SettlementsController {
         ? new Date(request.settlementDate)
         : undefined;
 
-      // Create settlement
-      const settlement =
-        settlementType === "automated"
-          ? await this.service.createAutomatedSettlement(
-              request.paymentId,
-              request.merchantId,
-              request.amount,
-              request.currency,
-              settlementDate,
-            )
-          : await this.service.createAutomatedSettlement(
-              request.paymentId,
-              request.merchantId,
-              request.amount,
-              request.currency,
-              settlementDate,
-            ); // For now, both use same logic
-
-      const processingTime = Date.now() - startTime;
-
-      await this.logger.business(
-        "Settlement created successfully",
-        {
-          operation: "createSettlement",
-          entityId: settlement.id,
-          paymentId: settlement.paymentId,
-          merchantId: settlement.merchantId,
-        },
-        {
-          settlementAmount: settlement.amount,
-          processingTime,
+      // Create settlement (at most once per idempotency key)
+      const { idempotencyKey, ...command } = request;
+      const data = await this.idempotency.execute(
+        "settlement.createSettlement",
+        idempotencyKey,
+        command,
+        async (): Promise<SettlementResponse> => {
+          // Manual settlements currently share the automated creation logic
+          const settlement = await this.service.createAutomatedSettlement(
+            request.paymentId,
+            request.merchantId,
+            request.amount,
+            request.currency,
+            settlementDate,
+          );
+
+          await this.logger.business(
+            "Settlement created successfully",
+            {
+              operation: "createSettlement",
+              entityId: settlement.id,
+              paymentId: settlement.paymentId,
+              merchantId: settlement.merchantId,
+            },
+            {
+              settlementAmount: settlement.amount,
+              settlementType,
+            },
+          );
+
+          return this.mapSettlementToResponse(settlement);
         },
       );
 
-      return this.createSuccessResponse(
-        this.mapSettlementToResponse(settlement),
-        processingTime,
-      );
+      return this.createSuccessResponse(data, Date.now() - startTime);
     } catch (error) {
       return this.handleError(error, "createSettlement", startTime);
     }
@@ -307,6 +343,117 @@ export class SettlementsController {
     }
   }
 
+  /**
+   * Net pending settlements into a payout batch
+   */
+  async createPayoutBatch(
+    request: BatchProcessRequest,
+  ): Promise<SettlementsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      const validationError = this.validateBatchProcessRequest(request);
+      if (validationError) {
+        return this.createErrorResponse(validationError, startTime);
+      }
+
+      const batch = await this.service.createPayoutBatch(request.settlementIds);
+
+      return this.createSuccessResponse(batch, Date.now() - startTime);
+    } catch (error) {
+      return this.handleError(error, "createPayoutBatch", startTime);
+    }
+  }
+
+  /**
+   * Render a payout batch as a NACHA, pain.001 or SEPA CSV file
+   */
+  async exportPayoutBatch(
+    request: ExportPayoutBatchRequest,
+  ): Promise<SettlementsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (!request.batchId || !request.format || !request.originator?.name) {
+        return this.createErrorResponse(
+          "Batch ID, format and originator are required",
+          startTime,
+        );
+      }
+
+      const executionDate = request.executionDate
+        ? new Date(request.executionDate)
+        : undefined;
+      if (executionDate && isNaN(executionDate.getTime())) {
+        return this.createErrorResponse("Invalid execution date format", startTime);
+      }
+
+      const file = await this.service.exportPayoutBatch(
+        request.batchId,
+        request.format,
+        request.originator,
+        { executionDate },
+      );
+
+      return this.createSuccessResponse(file, Date.now() - startTime);
+    } catch (error) {
+      return this.handleError(error, "exportPayoutBatch", startTime);
+    }
+  }
+
+  /**
+   * Apply a bank return / status file to a payout batch
+   */
+  async reconcileReturnFile(
+    request: ReconcileReturnFileRequest,
+  ): Promise<SettlementsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (!request.batchId || !request.format || !request.content) {
+        return this.createErrorResponse(
+          "Batch ID, format and file content are required",
+          startTime,
+        );
+      }
+
+      const records = parsePayoutReturnFile(request.format, request.content);
+      const result = await this.service.reconcilePayoutReturns(
+        request.batchId,
+        records,
+        request.odfiRoutingNumber,
+      );
+
+      return this.createSuccessResponse(result, Date.now() - startTime);
+    } catch (error) {
+      return this.handleError(error, "reconcileReturnFile", startTime);
+    }
+  }
+
+  async registerPayoutAccount(
+    account: MerchantPayoutAccount,
+  ): Promise<SettlementsControllerResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (!account.merchantId || !account.accountName) {
+        return this.createErrorResponse(
+          "Merchant ID and account name are required",
+          startTime,
+        );
+      }
+
+      await this.service.registerMerchantPayoutAccount(account);
+
+      return this.createSuccessResponse(
+        { merchantId: account.merchantId },
+        Date.now() - startTime,
+      );
+    } catch (error) {
+      return this.handleError(error, "registerPayoutAccount", startTime);
+    }
+  }
+
   /**
    * Get settlement analytics
    */
@@ -380,6 +527,7 @@ export class SettlementsController {
         features: [
           "Automated settlement processing",
           "Batch settlement operations",
+          "Merchant payout netting (NACHA, pain.001, SEPA CSV)",
           "Real-time analytics",
           "Multi-currency support",
           "Compliance monitoring",
@@ -407,10 +555,7 @@ export class SettlementsController {
       return "Amount must be positive";
     }
 
-    if (
-      !request.currency ||
-      !["USD", "EUR", "GBP", "CAD"].includes(request.currency)
-    ) {
+    if (!request.currency || !isSupportedCurrency(request.currency)) {
       return "Invalid currency";
     }
 
@@ -568,11 +713,20 @@ export class SettlementsController {
 
 // Factory for creating settlement controllers
 export class SettlementsControllerFactory {
-  static create(dbPath?: string): SettlementsController {
-    return new SettlementsController(dbPath);
+  static create(
+    ledger: LedgerService,
+    fx: FxConversionService,
+    dbPath?: string,
+  ): SettlementsController {
+    return new SettlementsController(ledger, fx, dbPath);
   }
 
   static createWithInMemoryDb(): SettlementsController {
-    return new SettlementsController(":memory:");
+    const rates = new SQLiteFxRateStore(":memory:");
+    return new SettlementsController(
+      new LedgerService(new SQLiteLedgerRepository(":memory:")),
+      new FxConversionService(rates, rates),
+      ":memory:",
+    );
   }
 }
@@ -1,6 +1,9 @@
 /**
  * Settlement Fees Value Object - Domain-Driven Design
  * Immutable value object representing settlement fee structure
+ *
+ * Each fee is rounded to the currency's minor units on construction and the
+ * total is summed in minor units, so totals always match their parts.
  */
 
 import {
@@ -12,6 +15,8 @@ import {
   DomainLogger,
   LoggerFactory,
 } from "../../../core/logging/domain-logger";
+import { Money } from "../../shared/money";
+import type { FxConversionService } from "../../shared/fx/fx-conversion-service";
 
 export interface FeeBreakdown {
   processingFee: number;
@@ -28,6 +33,7 @@ export class SettlementFees {
   public readonly networkFee: number;
   public readonly interchangeFee: number;
   public readonly totalFees: number;
+  public readonly currency: string;
 
   private readonly logger = LoggerFactory.create("settlement-fees-vo");
   private readonly errorFactory = new DomainErrorFactory("settlement-fees");
@@ -36,19 +42,26 @@ export class SettlementFees {
     processingFee: number,
     networkFee: number,
     interchangeFee: number,
+    currency: string = "USD",
   ) {
     this.validateFees(processingFee, networkFee, interchangeFee);
 
-    this.processingFee = processingFee;
-    this.networkFee = networkFee;
-    this.interchangeFee = interchangeFee;
-    this.totalFees = processingFee + networkFee + interchangeFee;
+    const processing = Money.of(processingFee, currency);
+    const network = Money.of(networkFee, currency);
+    const interchange = Money.of(interchangeFee, currency);
+
+    this.currency = processing.getCurrency();
+    this.processingFee = processing.toMajor();
+    this.networkFee = network.toMajor();
+    this.interchangeFee = interchange.toMajor();
+    this.totalFees = processing.add(network).add(interchange).toMajor();
 
     this.logger.business("Settlement fees value object created", {
-      processingFee,
-      networkFee,
-      interchangeFee,
+      processingFee: this.processingFee,
+      networkFee: this.networkFee,
+      interchangeFee: this.interchangeFee,
       totalFees: this.totalFees,
+      currency: this.currency,
     });
   }
 
@@ -56,47 +69,86 @@ export class SettlementFees {
    * Create fees with percentage-based calculation
    */
   static fromPercentage(
-    principalAmount: number,
+    principal: Money,
     processingRate: number,
     networkRate: number,
     interchangeRate: number,
   ): SettlementFees {
-    const processingFee = principalAmount * processingRate;
-    const networkFee = principalAmount * networkRate;
-    const interchangeFee = principalAmount * interchangeRate;
+    return SettlementFees.fromMoney(
+      principal.multiply(processingRate),
+      principal.multiply(networkRate),
+      principal.multiply(interchangeRate),
+    );
+  }
 
-    return new SettlementFees(processingFee, networkFee, interchangeFee);
+  /**
+   * Create fees from Money amounts in a single currency
+   */
+  static fromMoney(
+    processingFee: Money,
+    networkFee: Money,
+    interchangeFee: Money,
+  ): SettlementFees {
+    // Money.add rejects mixed currencies
+    processingFee.add(networkFee).add(interchangeFee);
+
+    return new SettlementFees(
+      processingFee.toMajor(),
+      networkFee.toMajor(),
+      interchangeFee.toMajor(),
+      processingFee.getCurrency(),
+    );
   }
 
   /**
    * Create fees with fixed amounts
    */
-  static fromFixedAmounts(fees: FeeBreakdown): SettlementFees {
+  static fromFixedAmounts(
+    fees: FeeBreakdown,
+    currency: string = "USD",
+  ): SettlementFees {
     return new SettlementFees(
       fees.processingFee,
       fees.networkFee,
       fees.interchangeFee,
+      currency,
     );
   }
 
   /**
    * Create zero fees for testing or special cases
    */
-  static zero(): SettlementFees {
-    return new SettlementFees(0, 0, 0);
+  static zero(currency: string = "USD"): SettlementFees {
+    return new SettlementFees(0, 0, 0, currency);
   }
 
   /**
    * Add fees together
    */
   add(other: SettlementFees): SettlementFees {
-    return new SettlementFees(
-      this.processingFee + other.processingFee,
-      this.networkFee + other.networkFee,
-      this.interchangeFee + other.interchangeFee,
+    return SettlementFees.fromMoney(
+      this.getProcessingFee().add(other.getProcessingFee()),
+      this.getNetworkFee().add(other.getNetworkFee()),
+      this.getInterchangeFee().add(other.getInterchangeFee()),
     );
   }
 
+  getProcessingFee(): Money {
+    return Money.of(this.processingFee, this.currency);
+  }
+
+  getNetworkFee(): Money {
+    return Money.of(this.networkFee, this.currency);
+  }
+
+  getInterchangeFee(): Money {
+    return Money.of(this.interchangeFee, this.currency);
+  }
+
+  getTotal(): Money {
+    return Money.of(this.totalFees, this.currency);
+  }
+
   /**
    * Calculate fee percentage of principal amount
    */
@@ -202,6 +254,7 @@ export class SettlementFees {
    */
   equals(other: SettlementFees): boolean {
     return (
+      this.currency === other.currency &&
       this.processingFee === other.processingFee &&
       this.networkFee === other.networkFee &&
       this.interchangeFee === other.interchangeFee
@@ -212,7 +265,7 @@ export class SettlementFees {
    * String representation for debugging
    */
   toString(): string {
-    return `SettlementFees(processing: ${this.processingFee}, network: ${this.networkFee}, interchange: ${this.interchangeFee}, total: ${this.totalFees})`;
+    return `SettlementFees(${this.currency} processing: ${this.processingFee}, network: ${this.networkFee}, interchange: ${this.interchangeFee}, total: ${this.totalFees})`;
   }
 
   /**
@@ -237,9 +290,9 @@ export class FeeCalculator {
   /**
    * Calculate standard settlement fees
    */
-  static calculateStandardFees(principalAmount: number): SettlementFees {
+  static calculateStandardFees(principal: Money): SettlementFees {
     return SettlementFees.fromPercentage(
-      principalAmount,
+      principal,
       this.STANDARD_RATES.processing,
       this.STANDARD_RATES.network,
       this.STANDARD_RATES.interchange,
@@ -249,9 +302,9 @@ export class FeeCalculator {
   /**
    * Calculate premium settlement fees (higher rates)
    */
-  static calculatePremiumFees(principalAmount: number): SettlementFees {
+  static calculatePremiumFees(principal: Money): SettlementFees {
     return SettlementFees.fromPercentage(
-      principalAmount,
+      principal,
       this.STANDARD_RATES.processing * 1.2, // 20% higher
       this.STANDARD_RATES.network,
       this.STANDARD_RATES.interchange * 1.1, // 10% higher
@@ -261,9 +314,9 @@ export class FeeCalculator {
   /**
    * Calculate discount settlement fees (lower rates)
    */
-  static calculateDiscountFees(principalAmount: number): SettlementFees {
+  static calculateDiscountFees(principal: Money): SettlementFees {
     return SettlementFees.fromPercentage(
-      principalAmount,
+      principal,
       this.STANDARD_RATES.processing * 0.8, // 20% lower
       this.STANDARD_RATES.network,
       this.STANDARD_RATES.interchange * 0.9, // 10% lower
@@ -271,36 +324,27 @@ export class FeeCalculator {
   }
 
   /**
-   * Calculate fees for different currencies
+   * Express fees priced in another currency (e.g. a USD fee schedule) in the
+   * settlement currency, using the transaction's FX rate snapshot
    */
-  static calculateCurrencyAdjustedFees(
-    principalAmount: number,
-    currency: string,
+  static async calculateCurrencyAdjustedFees(
+    principal: Money,
     baseFees: SettlementFees,
-  ): SettlementFees {
-    let multiplier = 1.0;
-
-    // Currency-specific adjustments
-    switch (currency.toUpperCase()) {
-      case "EUR":
-        multiplier = 0.95; // 5% discount for EUR
-        break;
-      case "GBP":
-        multiplier = 1.05; // 5% premium for GBP
-        break;
-      case "CAD":
-        multiplier = 1.02; // 2% premium for CAD
-        break;
-      case "USD":
-      default:
-        multiplier = 1.0; // No adjustment for USD
-        break;
+    fx: FxConversionService,
+    transactionId: string,
+  ): Promise<SettlementFees> {
+    const currency = principal.getCurrency();
+    if (baseFees.currency === currency) {
+      return baseFees;
     }
 
-    return new SettlementFees(
-      baseFees.processingFee * multiplier,
-      baseFees.networkFee * multiplier,
-      baseFees.interchangeFee * multiplier,
+    const convert = async (fee: Money) =>
+      (await fx.convert(fee, currency, { transactionId })).converted;
+
+    return SettlementFees.fromMoney(
+      await convert(baseFees.getProcessingFee()),
+      await convert(baseFees.getNetworkFee()),
+      await convert(baseFees.getInterchangeFee()),
     );
   }
 
@@ -38,3 +38,13 @@ export abstract class DomainEntity {
     return `${this.constructor.name}[id=${this.id}]`;
   }
 }
+
+/**
+ * Business rule failure raised by entities and domain services
+ */
+export class DomainError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'DomainError';
+  }
+}
@@ -10,6 +10,8 @@ import { BalanceController } from '../balance/balance.controller';
 import { CollectionsController } from '../collections/collections.controller';
 import { Fantasy402Gateway } from '../external/fantasy402/gateway/fantasy402-gateway';
 import { DomainEventHandlers } from './events/domain-event-handlers';
+import { SagaEngine, type SagaDefinition } from './saga/saga-engine';
+import { SQLiteSagaStore, type SagaInstance, type SagaStore } from './saga/saga-store';
 
 export interface BusinessProcessResult {
   success: boolean;
@@ -17,6 +19,8 @@ export interface BusinessProcessResult {
   steps: BusinessProcessStep[];
   result?: any;
   error?: string;
+  /** True when completed steps were rolled back after the failure */
+  compensated?: boolean;
   duration: number;
   completedAt: Date;
 }
@@ -24,25 +28,66 @@ export interface BusinessProcessResult {
 export interface BusinessProcessStep {
   stepId: string;
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status:
+    | 'pending'
+    | 'running'
+    | 'completed'
+    | 'failed'
+    | 'compensating'
+    | 'compensated'
+    | 'compensation_failed';
+  /** Compensating action run if a later step fails */
+  compensation?: string;
   startedAt?: Date;
   completedAt?: Date;
+  compensatedAt?: Date;
   error?: string;
+  /** Cut off by a restart while running; whether it took effect is unknown */
+  interrupted?: boolean;
   data?: any;
 }
 
+interface DepositParams {
+  customerId: string;
+  amount: number;
+  paymentMethod: string;
+  metadata?: Record<string, any>;
+}
+
+interface BetPlacementParams {
+  agentId: string;
+  eventId: string;
+  betType: string;
+  amount: number;
+  odds: number;
+  selection: string;
+}
+
+interface OnboardingParams {
+  customerId: string;
+  agentId: string;
+  initialDeposit?: number;
+  customerData: {
+    email: string;
+    phone?: string;
+    name: string;
+  };
+}
+
 export class DomainOrchestrator {
   private balanceController: BalanceController;
   private collectionsController: CollectionsController;
   private fantasyGateway: Fantasy402Gateway;
   private eventHandlers: DomainEventHandlers;
   private events: DomainEvents;
+  private sagas: SagaEngine;
   private activeProcesses: Map<string, BusinessProcessResult> = new Map();
 
   constructor(
     balanceController: BalanceController,
     collectionsController: CollectionsController,
-    fantasyGateway: Fantasy402Gateway
+    fantasyGateway: Fantasy402Gateway,
+    sagaStore: SagaStore = new SQLiteSagaStore()
   ) {
     this.balanceController = balanceController;
     this.collectionsController = collectionsController;
@@ -53,368 +98,402 @@ export class DomainOrchestrator {
       fantasyGateway
     );
     this.events = DomainEvents.getInstance();
+
+    this.sagas = new SagaEngine(sagaStore);
+    this.sagas.register(this.depositSaga());
+    this.sagas.register(this.betPlacementSaga());
+    this.sagas.register(this.onboardingSaga());
   }
 
   /**
    * Customer Deposit Process
    * Orchestrates the complete deposit workflow across domains
    */
-  async processCustomerDeposit(params: {
-    customerId: string;
-    amount: number;
-    paymentMethod: string;
-    metadata?: Record<string, any>;
-  }): Promise<BusinessProcessResult> {
+  async processCustomerDeposit(params: DepositParams): Promise<BusinessProcessResult> {
     const processId = `deposit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const startTime = Date.now();
 
     console.log(`💰 Starting customer deposit process: ${processId}`);
 
-    const steps: BusinessProcessStep[] = [
-      { stepId: 'validate_payment', name: 'Validate Payment', status: 'pending' },
-      { stepId: 'process_collection', name: 'Process Collection', status: 'pending' },
-      { stepId: 'update_balance', name: 'Update Balance', status: 'pending' },
-      { stepId: 'check_bonuses', name: 'Check Bonuses', status: 'pending' },
-      { stepId: 'send_notification', name: 'Send Notification', status: 'pending' }
-    ];
-
-    try {
-      // Step 1: Validate payment
-      steps[0].status = 'running';
-      steps[0].startedAt = new Date();
-      await this.validatePaymentData(params);
-      steps[0].status = 'completed';
-      steps[0].completedAt = new Date();
-
-      // Step 2: Process collection
-      steps[1].status = 'running';
-      steps[1].startedAt = new Date();
-      const collectionResult = await this.collectionsController.processPayment({
-        id: `payment_${processId}`,
-        playerId: params.customerId,
-        amount: params.amount,
-        currency: 'USD',
-        paymentMethod: params.paymentMethod,
-        metadata: params.metadata
-      });
-
-      if (!collectionResult.success) {
-        throw new Error(collectionResult.error || 'Collection processing failed');
-      }
-
-      steps[1].status = 'completed';
-      steps[1].completedAt = new Date();
-      steps[1].data = collectionResult;
-
-      // Step 3: Update balance (handled by event handler)
-      steps[2].status = 'completed';
-      steps[2].completedAt = new Date();
-
-      // Step 4: Check bonuses (handled by event handler)
-      steps[3].status = 'completed';
-      steps[3].completedAt = new Date();
-
-      // Step 5: Send notification (handled by event handler)
-      steps[4].status = 'completed';
-      steps[4].completedAt = new Date();
-
-      const result: BusinessProcessResult = {
-        success: true,
-        processId,
-        steps,
-        result: collectionResult,
-        duration: Date.now() - startTime,
-        completedAt: new Date()
-      };
-
-      this.activeProcesses.set(processId, result);
-
-      console.log(`✅ Customer deposit process completed: ${processId}`);
-      return result;
-
-    } catch (error) {
-      // Mark failed steps
-      const currentStepIndex = steps.findIndex(step => step.status === 'running');
-      if (currentStepIndex >= 0) {
-        steps[currentStepIndex].status = 'failed';
-        steps[currentStepIndex].error = error.message;
-        steps[currentStepIndex].completedAt = new Date();
-      }
-
-      const result: BusinessProcessResult = {
-        success: false,
-        processId,
-        steps,
-        error: error.message,
-        duration: Date.now() - startTime,
-        completedAt: new Date()
-      };
-
-      this.activeProcesses.set(processId, result);
+    const result = await this.runProcess('customer_deposit', processId, params, results =>
+      results.process_collection
+    );
 
-      console.error(`❌ Customer deposit process failed: ${processId}`, error);
+    if (!result.success) {
+      console.error(`❌ Customer deposit process failed: ${processId}`, result.error);
       throw result;
     }
+
+    console.log(`✅ Customer deposit process completed: ${processId}`);
+    return result;
   }
 
   /**
    * Agent Bet Placement Process
    * Orchestrates bet placement with balance validation and external system integration
    */
-  async processAgentBetPlacement(params: {
-    agentId: string;
-    eventId: string;
-    betType: string;
-    amount: number;
-    odds: number;
-    selection: string;
-  }): Promise<BusinessProcessResult> {
+  async processAgentBetPlacement(params: BetPlacementParams): Promise<BusinessProcessResult> {
     const processId = `bet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const startTime = Date.now();
 
     console.log(`🎯 Starting agent bet placement process: ${processId}`);
 
-    const steps: BusinessProcessStep[] = [
-      { stepId: 'validate_balance', name: 'Validate Balance', status: 'pending' },
-      { stepId: 'check_risk', name: 'Check Risk', status: 'pending' },
-      { stepId: 'place_external_bet', name: 'Place External Bet', status: 'pending' },
-      { stepId: 'update_internal_balance', name: 'Update Internal Balance', status: 'pending' },
-      { stepId: 'log_transaction', name: 'Log Transaction', status: 'pending' }
-    ];
-
-    try {
-      // Step 1: Validate balance
-      steps[0].status = 'running';
-      steps[0].startedAt = new Date();
-      const balanceResponse = await this.balanceController.getBalanceStatus(params.agentId);
-
-      if (!balanceResponse.success || !balanceResponse.balance) {
-        throw new Error('Agent balance not found');
-      }
-
-      if (balanceResponse.balance.currentBalance < params.amount) {
-        throw new Error('Insufficient balance for bet');
-      }
-
-      steps[0].status = 'completed';
-      steps[0].completedAt = new Date();
-
-      // Step 2: Check risk
-      steps[1].status = 'running';
-      steps[1].startedAt = new Date();
-      await this.performRiskCheck(params);
-      steps[1].status = 'completed';
-      steps[1].completedAt = new Date();
-
-      // Step 3: Place external bet
-      steps[2].status = 'running';
-      steps[2].startedAt = new Date();
-      const betResult = await this.fantasyGateway.placeBet(params);
-      steps[2].status = 'completed';
-      steps[2].completedAt = new Date();
-      steps[2].data = betResult;
-
-      // Step 4: Update internal balance
-      steps[3].status = 'running';
-      steps[3].startedAt = new Date();
-      const balanceUpdate = await this.balanceController.processBalanceChange({
-        customerId: params.agentId,
-        amount: params.amount,
-        changeType: 'debit',
-        reason: `Bet placed - ${betResult.getExternalId()}`,
-        performedBy: 'system'
-      });
-
-      if (!balanceUpdate.success) {
-        throw new Error('Balance update failed after bet placement');
-      }
-
-      steps[3].status = 'completed';
-      steps[3].completedAt = new Date();
-
-      // Step 5: Log transaction
-      steps[4].status = 'running';
-      steps[4].startedAt = new Date();
-      await this.events.publish('audit.bet_placed', {
-        processId,
-        agentId: params.agentId,
-        betId: betResult.getExternalId(),
-        amount: params.amount,
-        eventId: params.eventId,
-        placedAt: new Date()
-      });
-      steps[4].status = 'completed';
-      steps[4].completedAt = new Date();
-
-      const result: BusinessProcessResult = {
-        success: true,
-        processId,
-        steps,
-        result: {
-          bet: betResult,
-          balanceUpdate
-        },
-        duration: Date.now() - startTime,
-        completedAt: new Date()
-      };
-
-      this.activeProcesses.set(processId, result);
-
-      console.log(`✅ Agent bet placement process completed: ${processId}`);
-      return result;
-
-    } catch (error) {
-      // Mark failed steps
-      const currentStepIndex = steps.findIndex(step => step.status === 'running');
-      if (currentStepIndex >= 0) {
-        steps[currentStepIndex].status = 'failed';
-        steps[currentStepIndex].error = error.message;
-        steps[currentStepIndex].completedAt = new Date();
-      }
+    const result = await this.runProcess('agent_bet_placement', processId, params, results => ({
+      bet: results.place_external_bet.bet,
+      balanceUpdate: results.update_internal_balance
+    }));
 
-      const result: BusinessProcessResult = {
-        success: false,
-        processId,
-        steps,
-        error: error.message,
-        duration: Date.now() - startTime,
-        completedAt: new Date()
-      };
-
-      this.activeProcesses.set(processId, result);
-
-      console.error(`❌ Agent bet placement process failed: ${processId}`, error);
+    if (!result.success) {
+      console.error(`❌ Agent bet placement process failed: ${processId}`, result.error);
       throw result;
     }
+
+    console.log(`✅ Agent bet placement process completed: ${processId}`);
+    return result;
   }
 
   /**
    * Customer Onboarding Process
    * Complete customer setup across all domains
    */
-  async processCustomerOnboarding(params: {
-    customerId: string;
-    agentId: string;
-    initialDeposit?: number;
-    customerData: {
-      email: string;
-      phone?: string;
-      name: string;
-    };
-  }): Promise<BusinessProcessResult> {
+  async processCustomerOnboarding(params: OnboardingParams): Promise<BusinessProcessResult> {
     const processId = `onboarding_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const startTime = Date.now();
 
     console.log(`🎉 Starting customer onboarding process: ${processId}`);
 
-    const steps: BusinessProcessStep[] = [
-      { stepId: 'validate_customer_data', name: 'Validate Customer Data', status: 'pending' },
-      { stepId: 'create_balance_account', name: 'Create Balance Account', status: 'pending' },
-      { stepId: 'process_initial_deposit', name: 'Process Initial Deposit', status: 'pending' },
-      { stepId: 'setup_notifications', name: 'Setup Notifications', status: 'pending' },
-      { stepId: 'send_welcome', name: 'Send Welcome Package', status: 'pending' }
-    ];
-
-    try {
-      // Step 1: Validate customer data
-      steps[0].status = 'running';
-      steps[0].startedAt = new Date();
-      await this.validateCustomerData(params.customerData);
-      steps[0].status = 'completed';
-      steps[0].completedAt = new Date();
-
-      // Step 2: Create balance account
-      steps[1].status = 'running';
-      steps[1].startedAt = new Date();
-      const balanceResult = await this.balanceController.createBalance({
-        customerId: params.customerId,
-        agentId: params.agentId,
-        initialBalance: 0
-      });
-
-      if (!balanceResult.success) {
-        throw new Error('Failed to create balance account');
-      }
+    const result = await this.runProcess('customer_onboarding', processId, params, () => ({
+      customerId: params.customerId,
+      balanceCreated: true,
+      initialDeposit: params.initialDeposit
+    }));
 
-      steps[1].status = 'completed';
-      steps[1].completedAt = new Date();
-
-      // Step 3: Process initial deposit (if provided)
-      if (params.initialDeposit && params.initialDeposit > 0) {
-        steps[2].status = 'running';
-        steps[2].startedAt = new Date();
-
-        const depositResult = await this.processCustomerDeposit({
-          customerId: params.customerId,
-          amount: params.initialDeposit,
-          paymentMethod: 'initial_deposit'
-        });
-
-        steps[2].status = 'completed';
-        steps[2].completedAt = new Date();
-        steps[2].data = depositResult;
-      } else {
-        steps[2].status = 'completed';
-        steps[2].completedAt = new Date();
-      }
+    if (!result.success) {
+      console.error(`❌ Customer onboarding process failed: ${processId}`, result.error);
+      throw result;
+    }
 
-      // Step 4: Setup notifications
-      steps[3].status = 'running';
-      steps[3].startedAt = new Date();
-      await this.events.publish('customer.onboarding_completed', {
-        customerId: params.customerId,
-        agentId: params.agentId,
-        customerData: params.customerData,
-        initialDeposit: params.initialDeposit
-      });
-      steps[3].status = 'completed';
-      steps[3].completedAt = new Date();
-
-      // Step 5: Send welcome package (handled by event handlers)
-      steps[4].status = 'completed';
-      steps[4].completedAt = new Date();
-
-      const result: BusinessProcessResult = {
-        success: true,
-        processId,
-        steps,
-        result: {
-          customerId: params.customerId,
-          balanceCreated: true,
-          initialDeposit: params.initialDeposit
-        },
-        duration: Date.now() - startTime,
-        completedAt: new Date()
-      };
+    console.log(`✅ Customer onboarding process completed: ${processId}`);
+    return result;
+  }
 
-      this.activeProcesses.set(processId, result);
+  /**
+   * Compensate processes left unfinished by a previous run.
+   * Call once on startup, after the saga store has been opened.
+   */
+  async resumeInterruptedProcesses(): Promise<BusinessProcessResult[]> {
+    const resumed = await this.sagas.resumeInterrupted();
 
-      console.log(`✅ Customer onboarding process completed: ${processId}`);
+    return resumed.map(instance => {
+      const result = this.toProcessResult(instance, undefined, instance.startedAt.getTime());
+      this.activeProcesses.set(instance.processId, result);
+      console.warn(`↩️ Interrupted process ${instance.processId} ended as ${instance.status}`);
       return result;
+    });
+  }
 
-    } catch (error) {
-      // Mark failed steps
-      const currentStepIndex = steps.findIndex(step => step.status === 'running');
-      if (currentStepIndex >= 0) {
-        steps[currentStepIndex].status = 'failed';
-        steps[currentStepIndex].error = error.message;
-        steps[currentStepIndex].completedAt = new Date();
-      }
+  /**
+   * Saga Definitions
+   * Each step declares the action that undoes it
+   */
+  private depositSaga(): SagaDefinition<DepositParams> {
+    return {
+      sagaType: 'customer_deposit',
+      steps: [
+        {
+          stepId: 'validate_payment',
+          name: 'Validate Payment',
+          execute: async ({ params }) => this.validatePaymentData(params)
+        },
+        {
+          stepId: 'process_collection',
+          name: 'Process Collection',
+          compensation: 'Reverse Deposit',
+          execute: async ({ processId, params }) => {
+            const collectionResult = await this.collectionsController.processPayment({
+              id: `payment_${processId}`,
+              playerId: params.customerId,
+              amount: params.amount,
+              currency: 'USD',
+              paymentMethod: params.paymentMethod,
+              metadata: params.metadata
+            });
+
+            if (!collectionResult.success) {
+              throw new Error(collectionResult.error || 'Collection processing failed');
+            }
+
+            return collectionResult;
+          },
+          compensate: async ({ processId, params, interrupted }) => {
+            // The payment may or may not have gone through; reversing a credit
+            // that never happened would take the customer's money
+            if (interrupted) {
+              throw new Error(
+                `Collection payment_${processId} was interrupted; reconcile it before reversing`
+              );
+            }
+
+            await this.changeBalance(processId, 'reverse_deposit', {
+              customerId: params.customerId,
+              amount: params.amount,
+              changeType: 'debit',
+              reason: `Deposit reversed - payment_${processId}`
+            });
+
+            await this.events.publish('payment.reversed', {
+              paymentId: `payment_${processId}`,
+              customerId: params.customerId,
+              amount: params.amount,
+              reversedAt: new Date()
+            });
+          }
+        },
+        // Balance update, bonuses and notifications are handled by event handlers
+        { stepId: 'update_balance', name: 'Update Balance', execute: async () => undefined },
+        { stepId: 'check_bonuses', name: 'Check Bonuses', execute: async () => undefined },
+        { stepId: 'send_notification', name: 'Send Notification', execute: async () => undefined }
+      ]
+    };
+  }
+
+  private betPlacementSaga(): SagaDefinition<BetPlacementParams> {
+    return {
+      sagaType: 'agent_bet_placement',
+      steps: [
+        {
+          stepId: 'validate_balance',
+          name: 'Validate Balance',
+          execute: async ({ params }) => {
+            const balanceResponse = await this.balanceController.getBalanceStatus(params.agentId);
+
+            if (!balanceResponse.success || !balanceResponse.balance) {
+              throw new Error('Agent balance not found');
+            }
+
+            if (balanceResponse.balance.currentBalance < params.amount) {
+              throw new Error('Insufficient balance for bet');
+            }
+          }
+        },
+        {
+          stepId: 'check_risk',
+          name: 'Check Risk',
+          execute: async ({ params }) => this.performRiskCheck(params)
+        },
+        {
+          stepId: 'place_external_bet',
+          name: 'Place External Bet',
+          compensation: 'Cancel External Bet',
+          execute: async ({ params }) => {
+            const bet = await this.fantasyGateway.placeBet(params);
+            return { betId: bet.getExternalId(), bet };
+          },
+          compensate: async ({ processId, interrupted }, data) => {
+            if (interrupted) {
+              // No bet ID to cancel: the bet may exist at the provider
+              throw new Error(
+                `Bet placement ${processId} was interrupted; reconcile with Fantasy402`
+              );
+            }
+
+            await this.fantasyGateway.cancelBet(data.betId, `Bet placement rolled back - ${processId}`);
+          }
+        },
+        {
+          stepId: 'update_internal_balance',
+          name: 'Update Internal Balance',
+          compensation: 'Refund Stake',
+          execute: async ({ processId, params, results }) =>
+            this.changeBalance(processId, 'debit_stake', {
+              customerId: params.agentId,
+              amount: params.amount,
+              changeType: 'debit',
+              reason: `Bet placed - ${results.place_external_bet.betId}`
+            }),
+          compensate: async ({ processId, params, results, interrupted }) => {
+            if (interrupted) {
+              // Finish the debit under its idempotency key (a no-op if it was
+              // applied), so the refund below never pays out an unpaid stake
+              await this.changeBalance(processId, 'debit_stake', {
+                customerId: params.agentId,
+                amount: params.amount,
+                changeType: 'debit',
+                reason: `Bet placed - ${results.place_external_bet.betId}`
+              });
+            }
+
+            await this.changeBalance(processId, 'refund_stake', {
+              customerId: params.agentId,
+              amount: params.amount,
+              changeType: 'credit',
+              reason: `Bet placement rolled back - ${results.place_external_bet.betId}`
+            });
+          }
+        },
+        {
+          stepId: 'log_transaction',
+          name: 'Log Transaction',
+          execute: async ({ processId, params, results }) => {
+            await this.events.publish('audit.bet_placed', {
+              processId,
+              agentId: params.agentId,
+              betId: results.place_external_bet.betId,
+              amount: params.amount,
+              eventId: params.eventId,
+              placedAt: new Date()
+            });
+          }
+        }
+      ]
+    };
+  }
 
-      const result: BusinessProcessResult = {
-        success: false,
-        processId,
-        steps,
-        error: error.message,
-        duration: Date.now() - startTime,
-        completedAt: new Date()
-      };
+  private onboardingSaga(): SagaDefinition<OnboardingParams> {
+    return {
+      sagaType: 'customer_onboarding',
+      steps: [
+        {
+          stepId: 'validate_customer_data',
+          name: 'Validate Customer Data',
+          execute: async ({ params }) => this.validateCustomerData(params.customerData)
+        },
+        {
+          stepId: 'create_balance_account',
+          name: 'Create Balance Account',
+          compensation: 'Freeze Balance Account',
+          execute: async ({ params }) => {
+            const balanceResult = await this.balanceController.createBalance({
+              customerId: params.customerId,
+              agentId: params.agentId,
+              initialBalance: 0
+            });
+
+            if (!balanceResult.success) {
+              throw new Error('Failed to create balance account');
+            }
+          },
+          compensate: async ({ processId, params, interrupted }) => {
+            const frozen = await this.balanceController.freezeBalance({
+              customerId: params.customerId,
+              reason: `Onboarding rolled back - ${processId}`,
+              performedBy: 'system'
+            });
+
+            // Interrupted before the account was created: nothing to freeze
+            if (!frozen.success && interrupted && frozen.code === 'BALANCE_NOT_FOUND') {
+              return;
+            }
+            if (!frozen.success) {
+              throw new Error(frozen.error || 'Failed to freeze balance account');
+            }
+          }
+        },
+        {
+          stepId: 'process_initial_deposit',
+          name: 'Process Initial Deposit',
+          compensation: 'Compensate Deposit Process',
+          execute: async ({ params }) => {
+            if (!params.initialDeposit || params.initialDeposit <= 0) {
+              return undefined;
+            }
+
+            return this.processCustomerDeposit({
+              customerId: params.customerId,
+              amount: params.initialDeposit,
+              paymentMethod: 'initial_deposit'
+            });
+          },
+          compensate: async ({ processId, params, interrupted }, data) => {
+            // The nested deposit process ID was never recorded
+            if (interrupted && params.initialDeposit && params.initialDeposit > 0) {
+              throw new Error(
+                `Initial deposit for ${processId} was interrupted; reverse its deposit manually`
+              );
+            }
+            if (!data?.processId) return;
+
+            const deposit = await this.sagas.compensate(
+              data.processId,
+              `Onboarding rolled back - ${processId}`
+            );
+            if (deposit.status !== 'compensated') {
+              throw new Error(`Deposit ${data.processId} could not be reversed`);
+            }
+          }
+        },
+        {
+          stepId: 'setup_notifications',
+          name: 'Setup Notifications',
+          execute: async ({ params }) => {
+            await this.events.publish('customer.onboarding_completed', {
+              customerId: params.customerId,
+              agentId: params.agentId,
+              customerData: params.customerData,
+              initialDeposit: params.initialDeposit
+            });
+          }
+        },
+        // Welcome package is handled by event handlers
+        { stepId: 'send_welcome', name: 'Send Welcome Package', execute: async () => undefined }
+      ]
+    };
+  }
 
-      this.activeProcesses.set(processId, result);
+  /**
+   * Run a saga and record it as a business process result
+   */
+  private async runProcess<TParams>(
+    sagaType: string,
+    processId: string,
+    params: TParams,
+    buildResult: (results: Record<string, any>) => any
+  ): Promise<BusinessProcessResult> {
+    const startTime = Date.now();
+    const instance = await this.sagas.start(sagaType, processId, params);
+    const result = this.toProcessResult(instance, buildResult, startTime);
 
-      console.error(`❌ Customer onboarding process failed: ${processId}`, error);
-      throw result;
+    this.activeProcesses.set(processId, result);
+    return result;
+  }
+
+  private toProcessResult(
+    instance: SagaInstance,
+    buildResult: ((results: Record<string, any>) => any) | undefined,
+    startTime: number
+  ): BusinessProcessResult {
+    const success = instance.status === 'completed';
+    const results = Object.fromEntries(instance.steps.map(step => [step.stepId, step.data]));
+
+    return {
+      success,
+      processId: instance.processId,
+      steps: instance.steps,
+      result: success && buildResult ? buildResult(results) : undefined,
+      error: success ? undefined : instance.error,
+      compensated: success ? undefined : instance.status === 'compensated',
+      duration: Date.now() - startTime,
+      completedAt: new Date()
+    };
+  }
+
+  /**
+   * Balance changes made by a saga are keyed per process and action, so a
+   * compensation repeated after a restart is applied only once
+   */
+  private async changeBalance(
+    processId: string,
+    action: string,
+    change: { customerId: string; amount: number; changeType: 'credit' | 'debit'; reason: string }
+  ) {
+    const response = await this.balanceController.processBalanceChange({
+      ...change,
+      performedBy: 'system',
+      idempotencyKey: `${processId}:${action}`
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || `Balance ${change.changeType} failed`);
     }
+
+    return response;
   }
 
   /**
@@ -57,20 +57,15 @@ export class DomainEventHandlers {
    * Collections Domain Event Handlers
    */
   private setupCollectionsEventHandlers(): void {
-    // When a payment is processed, update balance and send notifications
-    this.events.subscribe('payment.processed', async (event) => {
+    // When a payment is processed, update balance and send notifications.
+    // Money movement goes through the durable outbox: a failure here is
+    // retried with backoff and dead-lettered rather than silently dropped.
+    this.events.subscribeDurable('balance.payment-credit', ['payment.processed'], async (event) => {
       console.log('💳 Processing payment event:', event.payload);
 
       try {
         // Update customer balance
         await this.handlePaymentBalanceUpdate(event.payload);
-
-        // Send payment confirmation
-        await this.handlePaymentNotification(event.payload);
-
-        // Check for bonus eligibility
-        await this.handleBonusEligibilityCheck(event.payload);
-
       } catch (error) {
         console.error('❌ Failed to process payment event:', error);
         await this.events.publish('payment.processing_failed', {
@@ -78,9 +73,18 @@ export class DomainEventHandlers {
           error: error.message,
           originalEvent: event.payload
         });
+        throw error;
       }
     });
 
+    this.events.subscribe('payment.processed', async (event) => {
+      // Send payment confirmation
+      await this.handlePaymentNotification(event.payload);
+
+      // Check for bonus eligibility
+      await this.handleBonusEligibilityCheck(event.payload);
+    });
+
     // Handle payment failures
     this.events.subscribe('payment.failed', async (event) => {
       console.log('❌ Processing payment failure:', event.payload);
@@ -168,8 +172,8 @@ export class DomainEventHandlers {
       });
     });
 
-    // Handle external bet settlements
-    this.events.subscribe('external.bet.settled', async (event) => {
+    // Handle external bet settlements (durable: credits agent balances)
+    this.events.subscribeDurable('balance.bet-settlement', ['external.bet.settled'], async (event) => {
       console.log('💰 Processing bet settlement:', event.payload);
 
       // Update agent balance based on settlement
@@ -295,13 +299,17 @@ export class DomainEventHandlers {
   private async handleBetWin(settlement: any): Promise<void> {
     const payout = settlement.payout || 0;
 
-    await this.balanceController.processBalanceChange({
+    const balanceResponse = await this.balanceController.processBalanceChange({
       customerId: settlement.agentId,
       amount: payout,
       changeType: 'credit',
       reason: `Bet win settlement - ${settlement.externalId}`,
       performedBy: 'system'
     });
+
+    if (!balanceResponse.success) {
+      throw new Error(`Bet settlement credit failed: ${balanceResponse.error}`);
+    }
   }
 
   private async handleBetLoss(settlement: any): Promise<void> {
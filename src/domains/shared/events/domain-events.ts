@@ -3,7 +3,8 @@
  * Event-driven communication between domains
  */
 
-import { DomainEvent } from './domain-event';
+import type { SQLiteEventStore, StoredEvent } from './event-store';
+import type { OutboxDispatcher, DurableEventHandler } from './outbox-dispatcher';
 
 type EventHandler<T extends DomainEvent> = (event: T) => Promise<void> | void;
 type EventHandlerMap = Map<string, EventHandler<any>[]>;
@@ -12,6 +13,8 @@ export class DomainEvents {
   private static instance: DomainEvents;
   private handlers: EventHandlerMap = new Map();
   private eventBus: EventBus;
+  private eventStore?: SQLiteEventStore;
+  private dispatcher?: OutboxDispatcher;
 
   private constructor() {
     this.eventBus = new EventBus();
@@ -37,6 +40,49 @@ export class DomainEvents {
     this.handlers.get(eventType)!.push(handler);
   }
 
+  /**
+   * Persist events to a durable outbox before any handler runs
+   */
+  useEventStore(store: SQLiteEventStore, dispatcher: OutboxDispatcher): void {
+    this.eventStore = store;
+    this.dispatcher = dispatcher;
+  }
+
+  getEventStore(): SQLiteEventStore | undefined {
+    return this.eventStore;
+  }
+
+  getDispatcher(): OutboxDispatcher | undefined {
+    return this.dispatcher;
+  }
+
+  /**
+   * Register a named subscriber with at-least-once delivery.
+   * Falls back to an in-memory handler when no event store is configured;
+   * nothing would retry a failure there, so it is logged instead of
+   * rejecting the publisher.
+   */
+  subscribeDurable(
+    subscriberName: string,
+    eventTypes: string[],
+    handler: DurableEventHandler
+  ): void {
+    if (!this.dispatcher) {
+      console.warn(`⚠️ No event store configured, ${subscriberName} is not durable`);
+      eventTypes.forEach(eventType =>
+        this.subscribe(eventType, async event => {
+          try {
+            await handler(event as StoredEvent);
+          } catch (error) {
+            console.error(`Error in ${subscriberName} for ${eventType}:`, error);
+          }
+        })
+      );
+      return;
+    }
+    this.dispatcher.subscribe(subscriberName, eventTypes, handler);
+  }
+
   /**
    * Unregister event handler
    */
@@ -57,6 +103,57 @@ export class DomainEvents {
    * Publish domain event to all registered handlers
    */
   async publish<T extends DomainEvent>(
+    eventType: string,
+    event: T | Record<string, any>
+  ): Promise<void> {
+    const domainEvent = toDomainEvent(eventType, event);
+    await this.publishEvent(eventType, domainEvent as T);
+  }
+
+  /**
+   * Append events and state changes to the outbox in a single transaction,
+   * then deliver them once committed
+   */
+  async publishTransactional<R>(
+    work: () => R,
+    events: Array<{ eventType: string; event: DomainEvent | Record<string, any> }>
+  ): Promise<R> {
+    if (!this.eventStore) {
+      const result = work();
+      for (const { eventType, event } of events) {
+        await this.publish(eventType, event);
+      }
+      return result;
+    }
+
+    const domainEvents = events.map(({ eventType, event }) => toDomainEvent(eventType, event));
+    const result = this.eventStore.transaction(store => {
+      const value = work();
+      domainEvents.forEach(domainEvent => store.append(domainEvent));
+      return value;
+    });
+
+    for (const domainEvent of domainEvents) {
+      await this.deliver(domainEvent.eventType, domainEvent);
+    }
+    await this.dispatcher?.dispatchPending();
+
+    return result;
+  }
+
+  private async publishEvent<T extends DomainEvent>(
+    eventType: string,
+    event: T
+  ): Promise<void> {
+    // Durable outbox first, so a crashing handler cannot lose the event
+    this.eventStore?.append(event);
+
+    await this.deliver(eventType, event);
+
+    await this.dispatcher?.dispatchPending();
+  }
+
+  private async deliver<T extends DomainEvent>(
     eventType: string,
     event: T
   ): Promise<void> {
@@ -102,6 +199,29 @@ export class DomainEvents {
   }
 }
 
+/**
+ * Wrap a plain payload in a DomainEvent envelope
+ */
+function toDomainEvent(eventType: string, event: DomainEvent | Record<string, any>): DomainEvent {
+  if (event && typeof event.eventId === 'string' && event.payload !== undefined) {
+    return event as DomainEvent;
+  }
+
+  const payload = (event ?? {}) as Record<string, any>;
+  return {
+    eventId: crypto.randomUUID(),
+    eventType,
+    aggregateId: String(
+      payload.aggregateId ?? payload.settlementId ?? payload.paymentId ??
+      payload.balanceId ?? payload.customerId ?? payload.agentId ?? 'unknown'
+    ),
+    aggregateType: String(payload.aggregateType ?? eventType.split('.')[0]),
+    timestamp: new Date(),
+    version: 1,
+    payload
+  };
+}
+
 /**
  * Event Bus for cross-domain communication
  */
@@ -0,0 +1,220 @@
+/**
+ * Event Store & Outbox Dispatcher Tests
+ * Durable delivery, retry/backoff, dead letters and replay
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { SQLiteEventStore, type StoredEvent } from "./event-store";
+import { OutboxDispatcher } from "./outbox-dispatcher";
+import { DomainEvents, type DomainEvent } from "./domain-events";
+
+function makeEvent(
+  eventType: string,
+  payload: Record<string, any>,
+  timestamp: Date = new Date(),
+): DomainEvent {
+  return {
+    eventId: crypto.randomUUID(),
+    eventType,
+    aggregateId: payload.paymentId ?? "agg-1",
+    aggregateType: "payment",
+    timestamp,
+    version: 1,
+    payload,
+  };
+}
+
+describe("SQLiteEventStore", () => {
+  let store: SQLiteEventStore;
+
+  beforeEach(() => {
+    store = new SQLiteEventStore(":memory:", {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it("should append events idempotently by eventId", () => {
+    const event = makeEvent("payment.processed", { paymentId: "pay_1" });
+
+    const first = store.append(event);
+    const second = store.append(event);
+
+    expect(second.sequence).toBe(first.sequence);
+    expect(store.getHeadSequence()).toBe(1);
+  });
+
+  it("should roll back outbox appends with the enclosing transaction", () => {
+    expect(() =>
+      store.transaction((tx) => {
+        tx.append(makeEvent("payment.processed", { paymentId: "pay_1" }));
+        throw new Error("state write failed");
+      }),
+    ).toThrow("state write failed");
+
+    expect(store.getHeadSequence()).toBe(0);
+  });
+
+  it("should start new subscribers at the head of the stream", () => {
+    store.append(makeEvent("payment.processed", { paymentId: "pay_1" }));
+    const subscriber = store.registerSubscriber("late", ["payment.processed"]);
+
+    expect(subscriber.cursor).toBe(1);
+  });
+
+  it("should back off exponentially", () => {
+    expect(store.backoffDelay(1)).toBe(1000);
+    expect(store.backoffDelay(2)).toBe(2000);
+    expect(store.backoffDelay(3)).toBe(4000);
+  });
+});
+
+describe("OutboxDispatcher", () => {
+  let store: SQLiteEventStore;
+  let dispatcher: OutboxDispatcher;
+
+  beforeEach(() => {
+    store = new SQLiteEventStore(":memory:", {
+      maxAttempts: 2,
+      baseDelayMs: 1000,
+    });
+    dispatcher = new OutboxDispatcher(store);
+  });
+
+  afterEach(() => {
+    dispatcher.stop();
+    store.close();
+  });
+
+  it("should deliver only subscribed event types", async () => {
+    const received: StoredEvent[] = [];
+    dispatcher.subscribe("ledger", ["payment.processed"], (event) => {
+      received.push(event);
+    });
+
+    store.append(makeEvent("payment.processed", { paymentId: "pay_1" }));
+    store.append(makeEvent("payment.failed", { paymentId: "pay_2" }));
+
+    const result = await dispatcher.dispatchPending();
+
+    expect(result.delivered).toBe(1);
+    expect(received.map((e) => e.payload.paymentId)).toEqual(["pay_1"]);
+  });
+
+  it("should retry after backoff and dead-letter when attempts are exhausted", async () => {
+    let calls = 0;
+    dispatcher.subscribe("ledger", ["payment.processed"], () => {
+      calls++;
+      throw new Error("balance service down");
+    });
+
+    store.append(makeEvent("payment.processed", { paymentId: "pay_1" }));
+    const start = new Date();
+
+    const first = await dispatcher.dispatchPending(start);
+    expect(first.failed).toBe(1);
+
+    // Still inside the backoff window: no delivery attempt
+    await dispatcher.dispatchPending(new Date(start.getTime() + 500));
+    expect(calls).toBe(1);
+
+    const second = await dispatcher.dispatchPending(
+      new Date(start.getTime() + 1500),
+    );
+    expect(second.deadLettered).toBe(1);
+    expect(calls).toBe(2);
+
+    const deadLetters = dispatcher.getDeadLetters("ledger");
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0].lastError).toBe("balance service down");
+    expect(store.getSubscriber("ledger")!.cursor).toBe(1);
+  });
+
+  it("should resolve a dead letter once a retry succeeds", async () => {
+    let healthy = false;
+    dispatcher.subscribe("ledger", ["payment.processed"], () => {
+      if (!healthy) throw new Error("down");
+    });
+
+    store.append(makeEvent("payment.processed", { paymentId: "pay_1" }));
+    const start = new Date();
+    await dispatcher.dispatchPending(start);
+    await dispatcher.dispatchPending(new Date(start.getTime() + 5000));
+
+    const [entry] = dispatcher.getDeadLetters("ledger");
+    healthy = true;
+
+    expect(await dispatcher.retryDeadLetter(entry.id)).toBe(true);
+    expect(dispatcher.getDeadLetters("ledger")).toHaveLength(0);
+  });
+
+  it("should resume from the stored cursor after a restart", async () => {
+    const received: string[] = [];
+    dispatcher.subscribe("ledger", ["payment.processed"], (event) => {
+      received.push(event.payload.paymentId);
+    });
+    store.append(makeEvent("payment.processed", { paymentId: "pay_1" }));
+    await dispatcher.dispatchPending();
+
+    // Simulate restart: new dispatcher, same store
+    store.append(makeEvent("payment.processed", { paymentId: "pay_2" }));
+    const restarted = new OutboxDispatcher(store);
+    restarted.subscribe("ledger", ["payment.processed"], (event) => {
+      received.push(event.payload.paymentId);
+    });
+    await restarted.dispatchPending();
+
+    expect(received).toEqual(["pay_1", "pay_2"]);
+  });
+
+  it("should replay from an eventId or timestamp", async () => {
+    const received: string[] = [];
+    dispatcher.subscribe("ledger", ["payment.processed"], (event) => {
+      received.push(event.payload.paymentId);
+    });
+
+    const t0 = new Date("2025-01-01T00:00:00Z");
+    const e1 = makeEvent("payment.processed", { paymentId: "pay_1" }, t0);
+    const e2 = makeEvent(
+      "payment.processed",
+      { paymentId: "pay_2" },
+      new Date(t0.getTime() + 60_000),
+    );
+    store.append(e1);
+    store.append(e2);
+    await dispatcher.dispatchPending();
+
+    await dispatcher.replay("ledger", { eventId: e2.eventId });
+    await dispatcher.replay("ledger", { timestamp: t0 });
+
+    expect(received).toEqual(["pay_1", "pay_2", "pay_2", "pay_1", "pay_2"]);
+  });
+});
+
+describe("DomainEvents without an event store", () => {
+  afterEach(() => {
+    DomainEvents.getInstance().clear();
+  });
+
+  it("should not reject publishers when a non-durable fallback handler fails", async () => {
+    const events = DomainEvents.getInstance();
+    let calls = 0;
+    events.subscribeDurable(
+      "balance.payment-credit",
+      ["payment.processed"],
+      async () => {
+        calls++;
+        throw new Error("credit failed");
+      },
+    );
+
+    await expect(
+      events.publish("payment.processed", { paymentId: "pay_1" }),
+    ).resolves.toBeUndefined();
+    expect(calls).toBe(1);
+  });
+});
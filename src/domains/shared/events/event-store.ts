@@ -0,0 +1,434 @@
+/**
+ * Domain Event Store - Durable Outbox
+ * SQLite implementation with Bun-native integration
+ *
+ * Every published event is appended to the outbox before any handler runs.
+ * Named subscribers keep their own delivery cursor, so a failing handler or a
+ * process restart never loses an event: delivery resumes from the cursor.
+ */
+
+import { Database } from "bun:sqlite";
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+import type { DomainEvent } from "./domain-events";
+
+export interface StoredEvent extends DomainEvent {
+  sequence: number;
+  recordedAt: Date;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface SubscriberState {
+  name: string;
+  eventTypes: string[];
+  cursor: number;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+}
+
+export interface DeadLetterEntry {
+  id: number;
+  subscriber: string;
+  sequence: number;
+  eventId: string;
+  eventType: string;
+  attempts: number;
+  lastError: string;
+  deadLetteredAt: Date;
+  resolvedAt?: Date;
+}
+
+export type ReplayPosition = { eventId: string } | { timestamp: Date };
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+export class SQLiteEventStore {
+  private db: Database;
+  private logger = LoggerFactory.create("event-store");
+  readonly retryPolicy: RetryPolicy;
+
+  constructor(
+    dbPath: string = ":memory:",
+    retryPolicy: Partial<RetryPolicy> = {},
+  ) {
+    this.db = new Database(dbPath);
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    // Append-only outbox; sequence gives a total delivery order
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS domain_events (
+        sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id TEXT UNIQUE NOT NULL,
+        event_type TEXT NOT NULL,
+        aggregate_id TEXT NOT NULL,
+        aggregate_type TEXT NOT NULL,
+        version INTEGER NOT NULL DEFAULT 1,
+        payload TEXT NOT NULL, -- JSON object
+        metadata TEXT, -- JSON object
+        occurred_at DATETIME NOT NULL,
+        recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Per-subscriber delivery cursor and retry state
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS event_subscribers (
+        name TEXT PRIMARY KEY,
+        event_types TEXT NOT NULL, -- JSON array
+        cursor INTEGER NOT NULL DEFAULT 0,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME,
+        last_error TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS dead_letter_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subscriber TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_error TEXT NOT NULL,
+        dead_lettered_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        FOREIGN KEY (sequence) REFERENCES domain_events(sequence)
+      )
+    `);
+
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_domain_events_type ON domain_events(event_type)`,
+    );
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_domain_events_occurred ON domain_events(occurred_at)`,
+    );
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_dead_letter_subscriber ON dead_letter_events(subscriber)`,
+    );
+
+    this.logger.system("Event store tables initialized");
+  }
+
+  /**
+   * Underlying database, so repositories can share the outbox transaction
+   */
+  getDatabase(): Database {
+    return this.db;
+  }
+
+  /**
+   * Run state changes and outbox appends atomically.
+   * Either the work and all appended events commit, or nothing does.
+   */
+  transaction<T>(work: (store: SQLiteEventStore) => T): T {
+    return this.db.transaction(() => work(this))();
+  }
+
+  /**
+   * Append an event to the outbox. Re-appending a known eventId is a no-op.
+   */
+  append(event: DomainEvent): StoredEvent {
+    this.db
+      .prepare(
+        `
+        INSERT OR IGNORE INTO domain_events (
+          event_id, event_type, aggregate_id, aggregate_type, version,
+          payload, metadata, occurred_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      )
+      .run(
+        event.eventId,
+        event.eventType,
+        event.aggregateId,
+        event.aggregateType,
+        event.version,
+        JSON.stringify(event.payload ?? {}),
+        event.metadata ? JSON.stringify(event.metadata) : null,
+        new Date(event.timestamp).toISOString(),
+      );
+
+    return this.findByEventId(event.eventId)!;
+  }
+
+  findByEventId(eventId: string): StoredEvent | null {
+    const row = this.db
+      .prepare(`SELECT * FROM domain_events WHERE event_id = ?`)
+      .get(eventId) as any;
+    return row ? this.mapRowToEvent(row) : null;
+  }
+
+  /**
+   * Events after the given sequence, optionally restricted to event types
+   */
+  readAfter(sequence: number, eventTypes: string[] = [], limit = 100): StoredEvent[] {
+    let sql = `SELECT * FROM domain_events WHERE sequence > ?`;
+    const params: any[] = [sequence];
+
+    if (eventTypes.length > 0 && !eventTypes.includes("*")) {
+      sql += ` AND event_type IN (${eventTypes.map(() => "?").join(", ")})`;
+      params.push(...eventTypes);
+    }
+
+    sql += ` ORDER BY sequence ASC LIMIT ?`;
+    params.push(limit);
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.mapRowToEvent(row));
+  }
+
+  /**
+   * Resolve a replay position to the cursor value that re-delivers it
+   */
+  resolvePosition(position: ReplayPosition): number {
+    if ("eventId" in position) {
+      const event = this.findByEventId(position.eventId);
+      if (!event) {
+        throw new Error(`Event ${position.eventId} not found in event store`);
+      }
+      return event.sequence - 1;
+    }
+
+    const row = this.db
+      .prepare(
+        `SELECT MIN(sequence) AS sequence FROM domain_events WHERE occurred_at >= ?`,
+      )
+      .get(position.timestamp.toISOString()) as any;
+
+    if (row?.sequence == null) {
+      return this.getHeadSequence();
+    }
+    return row.sequence - 1;
+  }
+
+  getHeadSequence(): number {
+    const row = this.db
+      .prepare(`SELECT MAX(sequence) AS sequence FROM domain_events`)
+      .get() as any;
+    return row?.sequence ?? 0;
+  }
+
+  // Subscriber cursors
+
+  /**
+   * Register a subscriber. New subscribers start at the current head so they
+   * do not receive history unless it is explicitly replayed.
+   */
+  registerSubscriber(name: string, eventTypes: string[]): SubscriberState {
+    const existing = this.getSubscriber(name);
+    if (existing) {
+      this.db
+        .prepare(
+          `UPDATE event_subscribers SET event_types = ?, updated_at = CURRENT_TIMESTAMP WHERE name = ?`,
+        )
+        .run(JSON.stringify(eventTypes), name);
+      return { ...existing, eventTypes };
+    }
+
+    this.db
+      .prepare(
+        `INSERT INTO event_subscribers (name, event_types, cursor) VALUES (?, ?, ?)`,
+      )
+      .run(name, JSON.stringify(eventTypes), this.getHeadSequence());
+
+    return this.getSubscriber(name)!;
+  }
+
+  getSubscriber(name: string): SubscriberState | null {
+    const row = this.db
+      .prepare(`SELECT * FROM event_subscribers WHERE name = ?`)
+      .get(name) as any;
+    return row ? this.mapRowToSubscriber(row) : null;
+  }
+
+  listSubscribers(): SubscriberState[] {
+    const rows = this.db
+      .prepare(`SELECT * FROM event_subscribers ORDER BY name`)
+      .all() as any[];
+    return rows.map((row) => this.mapRowToSubscriber(row));
+  }
+
+  /**
+   * Acknowledge successful delivery and clear retry state
+   */
+  acknowledge(name: string, sequence: number): void {
+    this.db
+      .prepare(
+        `
+        UPDATE event_subscribers
+        SET cursor = ?, attempts = 0, next_attempt_at = NULL, last_error = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE name = ?
+      `,
+      )
+      .run(sequence, name);
+  }
+
+  /**
+   * Record a failed delivery. Returns the dead-letter entry once the retry
+   * budget is exhausted; the cursor then moves past the poisoned event.
+   */
+  recordFailure(
+    name: string,
+    event: StoredEvent,
+    error: string,
+    now: Date = new Date(),
+  ): { deadLettered: boolean; nextAttemptAt?: Date } {
+    return this.db.transaction(() => {
+      const subscriber = this.getSubscriber(name)!;
+      const attempts = subscriber.attempts + 1;
+
+      if (attempts >= this.retryPolicy.maxAttempts) {
+        this.db
+          .prepare(
+            `
+            INSERT INTO dead_letter_events (subscriber, sequence, event_id, event_type, attempts, last_error)
+            VALUES (?, ?, ?, ?, ?, ?)
+          `,
+          )
+          .run(name, event.sequence, event.eventId, event.eventType, attempts, error);
+        this.acknowledge(name, event.sequence);
+        return { deadLettered: true };
+      }
+
+      const nextAttemptAt = new Date(now.getTime() + this.backoffDelay(attempts));
+      this.db
+        .prepare(
+          `
+          UPDATE event_subscribers
+          SET attempts = ?, next_attempt_at = ?, last_error = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE name = ?
+        `,
+        )
+        .run(attempts, nextAttemptAt.toISOString(), error, name);
+      return { deadLettered: false, nextAttemptAt };
+    })();
+  }
+
+  /**
+   * Move a subscriber cursor so delivery restarts from the given position
+   */
+  rewind(name: string, position: ReplayPosition): number {
+    const cursor = this.resolvePosition(position);
+    this.db
+      .prepare(
+        `
+        UPDATE event_subscribers
+        SET cursor = ?, attempts = 0, next_attempt_at = NULL, last_error = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE name = ?
+      `,
+      )
+      .run(cursor, name);
+    return cursor;
+  }
+
+  /**
+   * Exponential backoff with a ceiling: base * 2^(attempt - 1)
+   */
+  backoffDelay(attempt: number): number {
+    return Math.min(
+      this.retryPolicy.baseDelayMs * Math.pow(2, attempt - 1),
+      this.retryPolicy.maxDelayMs,
+    );
+  }
+
+  // Dead letters
+
+  getDeadLetters(subscriber?: string, includeResolved = false): DeadLetterEntry[] {
+    let sql = `SELECT * FROM dead_letter_events WHERE 1=1`;
+    const params: any[] = [];
+
+    if (subscriber) {
+      sql += ` AND subscriber = ?`;
+      params.push(subscriber);
+    }
+    if (!includeResolved) {
+      sql += ` AND resolved_at IS NULL`;
+    }
+    sql += ` ORDER BY id ASC`;
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.mapRowToDeadLetter(row));
+  }
+
+  getDeadLetter(id: number): DeadLetterEntry | null {
+    const row = this.db
+      .prepare(`SELECT * FROM dead_letter_events WHERE id = ?`)
+      .get(id) as any;
+    return row ? this.mapRowToDeadLetter(row) : null;
+  }
+
+  resolveDeadLetter(id: number): void {
+    this.db
+      .prepare(
+        `UPDATE dead_letter_events SET resolved_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      )
+      .run(id);
+  }
+
+  findBySequence(sequence: number): StoredEvent | null {
+    const row = this.db
+      .prepare(`SELECT * FROM domain_events WHERE sequence = ?`)
+      .get(sequence) as any;
+    return row ? this.mapRowToEvent(row) : null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapRowToEvent(row: any): StoredEvent {
+    return {
+      sequence: row.sequence,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      aggregateId: row.aggregate_id,
+      aggregateType: row.aggregate_type,
+      version: row.version,
+      payload: JSON.parse(row.payload),
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      timestamp: new Date(row.occurred_at),
+      recordedAt: new Date(row.recorded_at),
+    };
+  }
+
+  private mapRowToSubscriber(row: any): SubscriberState {
+    return {
+      name: row.name,
+      eventTypes: JSON.parse(row.event_types),
+      cursor: row.cursor,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      lastError: row.last_error ?? undefined,
+    };
+  }
+
+  private mapRowToDeadLetter(row: any): DeadLetterEntry {
+    return {
+      id: row.id,
+      subscriber: row.subscriber,
+      sequence: row.sequence,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      deadLetteredAt: new Date(row.dead_lettered_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Event Workflows Tests
+ * Persistent instances, durable timers, signals and the query API
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { EventWorkflows } from "./event-workflows";
+import { SQLiteWorkflowStore } from "./workflow-store";
+import { DomainEvents } from "./domain-events";
+
+describe("EventWorkflows", () => {
+  let store: SQLiteWorkflowStore;
+  let workflows: EventWorkflows;
+  let published: { type: string; payload: any }[];
+
+  const withdrawal = { withdrawalId: "wd_1", customerId: "c1", amount: 25000 };
+
+  const createWorkflows = () =>
+    new EventWorkflows({} as any, {} as any, {} as any, {} as any, store);
+
+  beforeEach(() => {
+    store = new SQLiteWorkflowStore(":memory:");
+    workflows = createWorkflows();
+    published = [];
+    for (const type of ["approval.required", "approval.escalated", "withdrawal.approved"]) {
+      DomainEvents.getInstance().subscribe(type, (event) => {
+        published.push({ type, payload: event.payload ?? event });
+      });
+    }
+  });
+
+  it("should wait for a manager signal and then complete", async () => {
+    const workflowId = await workflows.startWorkflow("large_withdrawal_approval", withdrawal);
+
+    const waiting = workflows.getInstance(workflowId)!;
+    expect(waiting.status).toBe("waiting");
+    expect(waiting.waitingFor).toBe("manager_decision");
+    expect(published.some((e) => e.type === "approval.required" && e.payload.workflowId === workflowId)).toBe(true);
+
+    const done = await workflows.signal(workflowId, "manager_decision", {
+      approved: true,
+      decidedBy: "mgr_1",
+    });
+
+    expect(done.status).toBe("completed");
+    expect(done.history.map((h) => `${h.stepId}:${h.event}`)).toEqual([
+      "manager_decision:waiting",
+      "manager_decision:signalled",
+      "manager_decision:completed",
+      "senior_decision:skipped",
+      "apply_decision:started",
+      "apply_decision:completed",
+    ]);
+    expect(published.find((e) => e.type === "withdrawal.approved")?.payload.approvedBy).toBe("mgr_1");
+  });
+
+  it("should reject signals the workflow is not waiting for", async () => {
+    const workflowId = await workflows.startWorkflow("large_withdrawal_approval", withdrawal);
+
+    await expect(workflows.signal(workflowId, "senior_decision", { approved: true })).rejects.toThrow(
+      "is not waiting for signal",
+    );
+  });
+
+  it("should cancel a waiting workflow and ignore later signals", async () => {
+    const workflowId = await workflows.startWorkflow("large_withdrawal_approval", withdrawal);
+
+    const cancelled = workflows.cancel(workflowId, "mgr_2", "Customer withdrew the request");
+    expect(cancelled.status).toBe("failed");
+    expect(cancelled.error).toBe("Customer withdrew the request (cancelled by mgr_2)");
+    expect(cancelled.history.at(-1)).toMatchObject({
+      stepId: "manager_decision",
+      event: "cancelled",
+      detail: { cancelledBy: "mgr_2" },
+    });
+
+    await expect(workflows.signal(workflowId, "manager_decision", { approved: true })).rejects.toThrow(
+      "is not waiting for signal",
+    );
+    expect(() => workflows.cancel(workflowId, "mgr_2")).toThrow("cannot be cancelled");
+  });
+
+  it("should escalate after the timeout and fail if nobody decides", async () => {
+    const workflowId = await workflows.startWorkflow("large_withdrawal_approval", withdrawal);
+
+    // A restarted process picks the timer up from the store
+    const restarted = createWorkflows();
+    const dayLater = new Date(Date.now() + 24 * 60 * 60 * 1000 + 1000);
+
+    expect(await restarted.processDueTimers(dayLater)).toBe(1);
+    const escalated = restarted.getInstance(workflowId)!;
+    expect(escalated.status).toBe("waiting");
+    expect(escalated.waitingFor).toBe("senior_decision");
+    expect(published.some((e) => e.type === "approval.escalated")).toBe(true);
+
+    await restarted.processDueTimers(new Date(dayLater.getTime() + 24 * 60 * 60 * 1000 + 1000));
+    const failed = restarted.getInstance(workflowId)!;
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toContain("Escalated Decision");
+  });
+
+  it("should list instances by status", async () => {
+    const waitingId = await workflows.startWorkflow("large_withdrawal_approval", withdrawal);
+    const doneId = await workflows.startWorkflow("large_withdrawal_approval", withdrawal);
+    await workflows.signal(doneId, "manager_decision", { approved: false, decidedBy: "mgr_1" });
+
+    expect(workflows.listInstances({ status: "waiting" }).map((i) => i.workflowId)).toEqual([waitingId]);
+    expect(workflows.listInstances({ status: ["completed", "failed"] })).toHaveLength(1);
+    expect(workflows.getStats()).toMatchObject({ waitingWorkflows: 1, completedWorkflows: 1 });
+  });
+});
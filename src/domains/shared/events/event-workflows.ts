@@ -2,7 +2,9 @@
  * Event Workflows
  * Domain-Driven Design Implementation
  *
- * Predefined event workflows for common business scenarios
+ * Predefined event workflows for common business scenarios.
+ * Instances, timers and step history are persisted so waiting workflows
+ * survive restarts.
  */
 
 import { DomainEvents } from './domain-events';
@@ -10,6 +12,14 @@ import { DomainOrchestrator } from '../domain-orchestrator';
 import { Fantasy402Gateway } from '../../external/fantasy402/gateway/fantasy402-gateway';
 import { BalanceController } from '../../balance/balance.controller';
 import { CollectionsController } from '../../collections/collections.controller';
+import {
+  SQLiteWorkflowStore,
+  type WorkflowInstance,
+  type WorkflowInstanceQuery,
+  type WorkflowStatus,
+  type WorkflowStepEvent,
+  type WorkflowStepHistoryEntry
+} from './workflow-store';
 
 export interface WorkflowDefinition {
   name: string;
@@ -20,18 +30,34 @@ export interface WorkflowDefinition {
   retryAttempts?: number;
 }
 
+/**
+ * Step types:
+ * - action: runs immediately (default)
+ * - timer: waits `delayMs`, then continues; survives restarts
+ * - signal: waits until `signal()` is called for it, e.g. a manager approval.
+ *   The signal payload is stored in `context.data` under the step id before
+ *   `action` runs. `timeout` bounds the wait; an optional step continues on
+ *   timeout, a required one fails the workflow.
+ */
+export type WorkflowStepType = 'action' | 'timer' | 'signal';
+
 export interface WorkflowStep {
   id: string;
   name: string;
   event: string;
-  condition?: (payload: any) => boolean;
-  action: (payload: any, context: WorkflowContext) => Promise<void>;
+  type?: WorkflowStepType;
+  condition?: (payload: any, context: WorkflowContext) => boolean;
+  action?: (payload: any, context: WorkflowContext) => Promise<void>;
+  delayMs?: number; // timer steps
+  signal?: string; // signal steps, defaults to the step id
   timeout?: number;
   required: boolean;
 }
 
 export interface WorkflowContext {
   workflowId: string;
+  workflowName: string;
+  status: WorkflowStatus;
   startedAt: Date;
   currentStep: number;
   completedSteps: string[];
@@ -40,16 +66,23 @@ export interface WorkflowContext {
   orchestrator: DomainOrchestrator;
 }
 
+export interface WorkflowInstanceDetails extends WorkflowInstance {
+  currentStepId?: string;
+  history: WorkflowStepHistoryEntry[];
+}
+
 export class EventWorkflows {
   private workflows: Map<string, WorkflowDefinition> = new Map();
   private activeWorkflows: Map<string, WorkflowContext> = new Map();
   private events: DomainEvents;
+  private timer?: ReturnType<typeof setInterval>;
 
   constructor(
     private orchestrator: DomainOrchestrator,
     private balanceController: BalanceController,
     private collectionsController: CollectionsController,
-    private fantasyGateway: Fantasy402Gateway
+    private fantasyGateway: Fantasy402Gateway,
+    private store: SQLiteWorkflowStore = new SQLiteWorkflowStore()
   ) {
     this.events = DomainEvents.getInstance();
     this.setupWorkflows();
@@ -138,21 +171,34 @@ export class EventWorkflows {
           },
           required: true
         },
+        {
+          id: 'auto_approval',
+          name: 'Auto Approval',
+          event: 'approval.auto_review',
+          condition: (payload, context) => !(context.data.get('risk_score') > 75),
+          action: async (payload, context) => {
+            context.data.set('approved', true);
+            await this.events.publish('bet.approved', payload);
+          },
+          required: true
+        },
         {
           id: 'manager_approval',
           name: 'Manager Approval',
           event: 'approval.manager_review',
+          type: 'signal',
+          signal: 'manager_decision',
+          condition: (payload, context) => context.data.get('risk_score') > 75,
           action: async (payload, context) => {
-            // In real implementation, this would wait for manager approval
-            const approved = context.data.get('risk_score') < 90; // Auto-approve lower risk
-            context.data.set('approved', approved);
+            const decision = context.data.get('manager_approval');
+            context.data.set('approved', decision.approved === true);
 
-            if (approved) {
-              await this.events.publish('bet.approved', payload);
+            if (decision.approved === true) {
+              await this.events.publish('bet.approved', { ...payload, approvedBy: decision.decidedBy });
             } else {
               await this.events.publish('bet.rejected', {
                 ...payload,
-                reason: 'High risk - requires manual review'
+                reason: decision.reason || 'Rejected by manager'
               });
             }
           },
@@ -162,6 +208,60 @@ export class EventWorkflows {
       ]
     });
 
+    // Large Withdrawal Approval Workflow
+    this.workflows.set('large_withdrawal_approval', {
+      name: 'Large Withdrawal Approval',
+      description: 'Manager sign-off for large withdrawals, escalated if nobody decides within 24h',
+      trigger: 'withdrawal.large_requested',
+      steps: [
+        {
+          id: 'manager_decision',
+          name: 'Manager Decision',
+          event: 'approval.required',
+          type: 'signal',
+          timeout: 24 * 60 * 60 * 1000,
+          required: false
+        },
+        {
+          id: 'senior_decision',
+          name: 'Escalated Decision',
+          event: 'approval.escalated',
+          type: 'signal',
+          condition: (payload, context) => context.data.get('manager_decision')?.timedOut === true,
+          timeout: 24 * 60 * 60 * 1000,
+          required: true
+        },
+        {
+          id: 'apply_decision',
+          name: 'Apply Decision',
+          event: 'withdrawal.decision_recorded',
+          action: async (payload, context) => {
+            const escalated = context.data.get('senior_decision');
+            const decision = escalated ?? context.data.get('manager_decision');
+
+            if (decision.approved === true) {
+              await this.events.publish('withdrawal.approved', {
+                withdrawalId: payload.withdrawalId,
+                customerId: payload.customerId,
+                amount: payload.amount,
+                approvedBy: decision.decidedBy,
+                escalated: escalated !== undefined
+              });
+            } else {
+              await this.events.publish('withdrawal.rejected', {
+                withdrawalId: payload.withdrawalId,
+                customerId: payload.customerId,
+                amount: payload.amount,
+                rejectedBy: decision.decidedBy,
+                reason: decision.reason || 'Rejected by approver'
+              });
+            }
+          },
+          required: true
+        }
+      ]
+    });
+
     // Agent Balance Synchronization Workflow
     this.workflows.set('balance_sync', {
       name: 'Balance Synchronization',
@@ -337,6 +437,8 @@ export class EventWorkflows {
 
     const context: WorkflowContext = {
       workflowId,
+      workflowName,
+      status: 'running',
       startedAt: new Date(),
       currentStep: 0,
       completedSteps: [],
@@ -346,61 +448,330 @@ export class EventWorkflows {
     };
 
     this.activeWorkflows.set(workflowId, context);
+    this.store.save(this.toInstance(context, initialPayload));
+
+    await this.runWorkflow(workflow, context, initialPayload);
+    return workflowId;
+  }
+
+  /**
+   * Deliver a signal to a workflow waiting on it, e.g. a manager decision
+   * from the API or a Telegram button
+   */
+  public async signal(workflowId: string, signalName: string, signalPayload: any = {}): Promise<WorkflowInstanceDetails> {
+    const instance = this.store.find(workflowId);
+    if (!instance || instance.status !== 'waiting' || instance.waitingFor !== signalName) {
+      throw new Error(`Workflow ${workflowId} is not waiting for signal: ${signalName}`);
+    }
+
+    const workflow = this.getWorkflowOrThrow(instance.workflowName);
+    const context = this.hydrateContext(instance);
+    const step = workflow.steps[context.currentStep];
+
+    // Claim the wait before any await so a concurrent signal or timeout is rejected
+    context.status = 'running';
+    this.store.save(this.toInstance(context, instance.payload));
+
+    context.data.set(step.id, signalPayload);
+    this.recordStep(context, step.id, 'signalled', signalPayload);
+    console.log(`📨 Signal received: ${signalName} (${workflowId})`);
+
+    await this.runWorkflow(workflow, context, instance.payload, true);
+    return this.getInstance(workflowId)!;
+  }
+
+  /**
+   * Stop a workflow that is waiting on a timer or a signal, e.g. a withdrawal
+   * request the customer has withdrawn
+   */
+  public cancel(workflowId: string, cancelledBy: string, reason: string = 'Cancelled'): WorkflowInstanceDetails {
+    const instance = this.store.find(workflowId);
+    if (!instance || instance.status !== 'waiting') {
+      throw new Error(`Workflow ${workflowId} is not waiting and cannot be cancelled`);
+    }
+
+    const workflow = this.getWorkflowOrThrow(instance.workflowName);
+    const context = this.hydrateContext(instance);
+    const step = workflow.steps[context.currentStep];
+
+    this.recordStep(context, step.id, 'cancelled', { cancelledBy, reason });
+    this.failWorkflow(context, instance.payload, `${reason} (cancelled by ${cancelledBy})`, step.id);
+    console.log(`🛑 Workflow cancelled: ${instance.workflowName} (${workflowId})`);
+
+    return this.getInstance(workflowId)!;
+  }
+
+  /**
+   * Fire due timers and expire signal waits. Returns the number of workflows advanced.
+   */
+  public async processDueTimers(now: Date = new Date()): Promise<number> {
+    const due = this.store.findDue(now);
+
+    for (const instance of due) {
+      const workflow = this.workflows.get(instance.workflowName);
+      if (!workflow) continue;
+
+      const context = this.hydrateContext(instance);
+      const step = workflow.steps[context.currentStep];
+
+      context.status = 'running';
+      this.store.save(this.toInstance(context, instance.payload));
+
+      if ((step.type ?? 'action') === 'signal') {
+        context.data.set(step.id, { timedOut: true });
+        this.recordStep(context, step.id, 'timed_out');
+        console.warn(`⏰ Signal wait timed out: ${step.name} (${instance.workflowId})`);
+
+        if (step.required) {
+          this.failWorkflow(context, instance.payload, `Required step timed out: ${step.name}`, step.id);
+          continue;
+        }
+
+        context.failedSteps.push(step.id);
+        context.currentStep++;
+        await this.runWorkflow(workflow, context, instance.payload);
+        continue;
+      }
+
+      this.recordStep(context, step.id, 'timer_fired');
+      await this.runWorkflow(workflow, context, instance.payload, true);
+    }
 
+    return due.length;
+  }
+
+  /**
+   * Continue workflows interrupted mid-step by a restart. The interrupted step
+   * is executed again, so step actions must tolerate being repeated.
+   */
+  public async resumeInterrupted(): Promise<number> {
+    const interrupted = this.store.query({ status: 'running', limit: 1000 });
+
+    for (const instance of interrupted) {
+      const workflow = this.workflows.get(instance.workflowName);
+      if (!workflow) continue;
+
+      console.log(`🔁 Resuming workflow: ${instance.workflowName} (${instance.workflowId})`);
+      await this.runWorkflow(workflow, this.hydrateContext(instance), instance.payload);
+    }
+
+    return interrupted.length;
+  }
+
+  /**
+   * Poll for due timers
+   */
+  public start(intervalMs: number = 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.processDueTimers().catch(error => {
+        console.error('❌ Workflow timer processing failed', error);
+      });
+    }, intervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run workflow steps from the context's current step until the workflow
+   * completes, fails or has to wait. `resumeCurrent` finishes a timer or
+   * signal step whose wait is over.
+   */
+  private async runWorkflow(
+    workflow: WorkflowDefinition,
+    context: WorkflowContext,
+    payload: any,
+    resumeCurrent: boolean = false
+  ): Promise<void> {
     try {
-      await this.executeWorkflow(workflow, context, initialPayload);
-      console.log(`✅ Workflow completed: ${workflowName} (${workflowId})`);
+      const waiting = await this.executeWorkflow(workflow, context, payload, resumeCurrent);
+      if (waiting) return;
+
+      context.status = 'completed';
+      this.store.save(this.toInstance(context, payload));
+      console.log(`✅ Workflow completed: ${workflow.name} (${context.workflowId})`);
     } catch (error) {
-      console.error(`❌ Workflow failed: ${workflowName} (${workflowId})`, error);
-      context.failedSteps.push(`workflow_error: ${error.message}`);
+      console.error(`❌ Workflow failed: ${workflow.name} (${context.workflowId})`, error);
+      this.failWorkflow(context, payload, error.message);
     }
-
-    return workflowId;
   }
 
   /**
-   * Execute workflow steps
+   * Execute workflow steps. Returns true when the workflow stopped to wait
+   * for a timer or a signal.
    */
   private async executeWorkflow(
     workflow: WorkflowDefinition,
     context: WorkflowContext,
-    initialPayload: any
-  ): Promise<void> {
-    let currentPayload = initialPayload;
+    currentPayload: any,
+    resumeCurrent: boolean
+  ): Promise<boolean> {
+    const resumeIndex = resumeCurrent ? context.currentStep : -1;
 
-    for (let i = 0; i < workflow.steps.length; i++) {
+    for (let i = context.currentStep; i < workflow.steps.length; i++) {
       const step = workflow.steps[i];
+      const type = step.type ?? 'action';
+      const resuming = i === resumeIndex;
       context.currentStep = i;
 
       try {
-        console.log(`📋 Executing step: ${step.name} (${step.id})`);
-
-        // Check condition if specified
-        if (step.condition && !step.condition(currentPayload)) {
-          console.log(`⏭️ Skipping step: ${step.name} (condition not met)`);
-          continue;
+        if (!resuming) {
+          console.log(`📋 Executing step: ${step.name} (${step.id})`);
+
+          // Check condition if specified
+          if (step.condition && !step.condition(currentPayload, context)) {
+            console.log(`⏭️ Skipping step: ${step.name} (condition not met)`);
+            this.recordStep(context, step.id, 'skipped');
+            continue;
+          }
+
+          if (type === 'timer') {
+            this.waitForTimer(context, currentPayload, step);
+            return true;
+          }
+
+          // Publish step event
+          await this.events.publish(step.event, {
+            ...currentPayload,
+            workflowId: context.workflowId,
+            ...(type === 'signal' ? { signal: step.signal ?? step.id } : {})
+          });
+
+          if (type === 'signal') {
+            this.waitForSignal(context, currentPayload, step);
+            return true;
+          }
+
+          this.recordStep(context, step.id, 'started');
         }
 
-        // Publish step event
-        await this.events.publish(step.event, currentPayload);
-
         // Execute step action
-        const result = await step.action(currentPayload, context);
+        if (step.action) {
+          await step.action(currentPayload, context);
+        }
 
         // Mark step as completed
         context.completedSteps.push(step.id);
+        context.currentStep = i + 1;
+        this.recordStep(context, step.id, 'completed');
+        this.store.save(this.toInstance(context, currentPayload));
         console.log(`✅ Step completed: ${step.name} (${step.id})`);
 
       } catch (error) {
         context.failedSteps.push(step.id);
+        this.recordStep(context, step.id, 'failed', { error: error.message });
 
         if (step.required) {
           throw new Error(`Required step failed: ${step.name} - ${error.message}`);
         } else {
           console.warn(`⚠️ Optional step failed: ${step.name} - ${error.message}`);
+          context.currentStep = i + 1;
+          this.store.save(this.toInstance(context, currentPayload));
         }
       }
     }
+
+    return false;
+  }
+
+  private waitForTimer(context: WorkflowContext, payload: any, step: WorkflowStep): void {
+    const wakeAt = new Date(Date.now() + (step.delayMs ?? 0));
+    context.status = 'waiting';
+    this.store.save({ ...this.toInstance(context, payload), wakeAt });
+    this.recordStep(context, step.id, 'waiting', { wakeAt: wakeAt.toISOString() });
+    console.log(`⏳ Waiting until ${wakeAt.toISOString()}: ${step.name} (${context.workflowId})`);
+  }
+
+  private waitForSignal(context: WorkflowContext, payload: any, step: WorkflowStep): void {
+    const signal = step.signal ?? step.id;
+    const wakeAt = step.timeout ? new Date(Date.now() + step.timeout) : undefined;
+    context.status = 'waiting';
+    this.store.save({ ...this.toInstance(context, payload), waitingFor: signal, wakeAt });
+    this.recordStep(context, step.id, 'waiting', { signal, timeoutAt: wakeAt?.toISOString() });
+    console.log(`⏸️ Waiting for signal ${signal}: ${step.name} (${context.workflowId})`);
+  }
+
+  private failWorkflow(context: WorkflowContext, payload: any, message: string, stepId?: string): void {
+    context.status = 'failed';
+    context.failedSteps.push(stepId ?? `workflow_error: ${message}`);
+    this.store.save({ ...this.toInstance(context, payload), error: message });
+  }
+
+  private recordStep(context: WorkflowContext, stepId: string, event: WorkflowStepEvent, detail?: any): void {
+    this.store.appendHistory({
+      workflowId: context.workflowId,
+      stepId,
+      event,
+      detail,
+      recordedAt: new Date()
+    });
+  }
+
+  private toInstance(context: WorkflowContext, payload: any): WorkflowInstance {
+    return {
+      workflowId: context.workflowId,
+      workflowName: context.workflowName,
+      status: context.status,
+      currentStep: context.currentStep,
+      payload,
+      data: Object.fromEntries(context.data),
+      startedAt: context.startedAt,
+      updatedAt: new Date()
+    };
+  }
+
+  /**
+   * Rebuild a context from its persisted instance and history
+   */
+  private hydrateContext(instance: WorkflowInstance): WorkflowContext {
+    const history = this.store.getHistory(instance.workflowId);
+    const context: WorkflowContext = {
+      workflowId: instance.workflowId,
+      workflowName: instance.workflowName,
+      status: instance.status,
+      startedAt: instance.startedAt,
+      currentStep: instance.currentStep,
+      completedSteps: history.filter(h => h.event === 'completed').map(h => h.stepId),
+      failedSteps: history.filter(h => h.event === 'failed').map(h => h.stepId),
+      data: new Map(Object.entries(instance.data)),
+      orchestrator: this.orchestrator
+    };
+
+    this.activeWorkflows.set(instance.workflowId, context);
+    return context;
+  }
+
+  private getWorkflowOrThrow(workflowName: string): WorkflowDefinition {
+    const workflow = this.workflows.get(workflowName);
+    if (!workflow) {
+      throw new Error(`Workflow not found: ${workflowName}`);
+    }
+    return workflow;
+  }
+
+  /**
+   * Query persisted workflow instances with their step history
+   */
+  public listInstances(query: WorkflowInstanceQuery = {}): WorkflowInstanceDetails[] {
+    return this.store.query(query).map(instance => this.toDetails(instance));
+  }
+
+  public getInstance(workflowId: string): WorkflowInstanceDetails | null {
+    const instance = this.store.find(workflowId);
+    return instance ? this.toDetails(instance) : null;
+  }
+
+  private toDetails(instance: WorkflowInstance): WorkflowInstanceDetails {
+    return {
+      ...instance,
+      currentStepId: this.workflows.get(instance.workflowName)?.steps[instance.currentStep]?.id,
+      history: this.store.getHistory(instance.workflowId)
+    };
   }
 
   /**
@@ -446,8 +817,7 @@ export class EventWorkflows {
     let cleanedCount = 0;
 
     for (const [workflowId, context] of this.activeWorkflows.entries()) {
-      const totalSteps = context.completedSteps.length + context.failedSteps.length;
-      const isCompleted = totalSteps > 0; // Simplified completion check
+      const isCompleted = context.status === 'completed' || context.status === 'failed';
 
       if (isCompleted && context.startedAt.getTime() < cutoffTime) {
         this.activeWorkflows.delete(workflowId);
@@ -464,20 +834,18 @@ export class EventWorkflows {
   public getStats(): {
     totalWorkflows: number;
     activeWorkflows: number;
+    waitingWorkflows: number;
     completedWorkflows: number;
     failedWorkflows: number;
   } {
-    const workflows = Array.from(this.activeWorkflows.values());
-    const completedWorkflows = workflows.filter(w =>
-      w.completedSteps.length > 0 && w.failedSteps.length === 0
-    );
-    const failedWorkflows = workflows.filter(w => w.failedSteps.length > 0);
+    const counts = this.store.countByStatus();
 
     return {
       totalWorkflows: this.workflows.size,
-      activeWorkflows: workflows.length,
-      completedWorkflows: completedWorkflows.length,
-      failedWorkflows: failedWorkflows.length
+      activeWorkflows: counts.running,
+      waitingWorkflows: counts.waiting,
+      completedWorkflows: counts.completed,
+      failedWorkflows: counts.failed
     };
   }
 }
@@ -0,0 +1,229 @@
+/**
+ * Outbox Dispatcher
+ * Delivers stored domain events to named, durable subscribers
+ *
+ * Delivery is at-least-once and ordered per subscriber: a failing event blocks
+ * its subscriber until it succeeds, backs off, or is dead-lettered.
+ * Handlers must therefore be idempotent.
+ */
+
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+import type {
+  SQLiteEventStore,
+  StoredEvent,
+  ReplayPosition,
+  DeadLetterEntry,
+} from "./event-store";
+
+export type DurableEventHandler = (event: StoredEvent) => Promise<void> | void;
+
+export interface DispatchResult {
+  delivered: number;
+  failed: number;
+  deadLettered: number;
+}
+
+export class OutboxDispatcher {
+  private readonly logger = LoggerFactory.create("outbox-dispatcher");
+  private handlers: Map<string, DurableEventHandler> = new Map();
+  private dispatching = false;
+  private pendingRun = false;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly store: SQLiteEventStore,
+    private readonly batchSize: number = 100,
+  ) {}
+
+  /**
+   * Register a named subscriber. The name is the durable identity: a restarted
+   * process that registers the same name resumes from the stored cursor.
+   */
+  subscribe(
+    subscriberName: string,
+    eventTypes: string[],
+    handler: DurableEventHandler,
+  ): void {
+    this.store.registerSubscriber(subscriberName, eventTypes);
+    this.handlers.set(subscriberName, handler);
+  }
+
+  unsubscribe(subscriberName: string): void {
+    this.handlers.delete(subscriberName);
+  }
+
+  /**
+   * Deliver all pending events to every registered subscriber.
+   * Re-entrant calls (a handler publishing another event) are coalesced.
+   */
+  async dispatchPending(now: Date = new Date()): Promise<DispatchResult> {
+    const result: DispatchResult = { delivered: 0, failed: 0, deadLettered: 0 };
+
+    if (this.dispatching) {
+      this.pendingRun = true;
+      return result;
+    }
+
+    this.dispatching = true;
+    try {
+      do {
+        this.pendingRun = false;
+        for (const subscriberName of this.handlers.keys()) {
+          const partial = await this.dispatchSubscriber(subscriberName, now);
+          result.delivered += partial.delivered;
+          result.failed += partial.failed;
+          result.deadLettered += partial.deadLettered;
+        }
+      } while (this.pendingRun);
+    } finally {
+      this.dispatching = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-deliver events from an eventId or timestamp to one subscriber
+   */
+  async replay(
+    subscriberName: string,
+    from: ReplayPosition,
+  ): Promise<DispatchResult> {
+    if (!this.handlers.has(subscriberName)) {
+      throw new Error(`Subscriber ${subscriberName} is not registered`);
+    }
+
+    const cursor = this.store.rewind(subscriberName, from);
+
+    await this.logger.audit("Replaying domain events", {
+      operation: "replay",
+      metadata: { subscriberName, from, cursor },
+    });
+
+    return this.dispatchSubscriber(subscriberName, new Date());
+  }
+
+  /**
+   * Retry a single dead-lettered event; resolves the entry on success
+   */
+  async retryDeadLetter(id: number): Promise<boolean> {
+    const entry = this.store.getDeadLetter(id);
+    if (!entry || entry.resolvedAt) {
+      return false;
+    }
+
+    const handler = this.handlers.get(entry.subscriber);
+    const event = this.store.findBySequence(entry.sequence);
+    if (!handler || !event) {
+      return false;
+    }
+
+    try {
+      await handler(event);
+      this.store.resolveDeadLetter(id);
+      return true;
+    } catch (error) {
+      await this.logger.infrastructureError(
+        "Dead letter retry failed",
+        error as Error,
+        { metadata: { deadLetterId: id, subscriber: entry.subscriber } },
+      );
+      return false;
+    }
+  }
+
+  getDeadLetters(subscriberName?: string): DeadLetterEntry[] {
+    return this.store.getDeadLetters(subscriberName);
+  }
+
+  /**
+   * Poll the outbox so retries fire after their backoff elapses
+   */
+  start(intervalMs: number = 1000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.dispatchPending();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async dispatchSubscriber(
+    subscriberName: string,
+    now: Date,
+  ): Promise<DispatchResult> {
+    const result: DispatchResult = { delivered: 0, failed: 0, deadLettered: 0 };
+    const handler = this.handlers.get(subscriberName);
+    if (!handler) return result;
+
+    while (true) {
+      const state = this.store.getSubscriber(subscriberName);
+      if (!state) return result;
+
+      // Still backing off from a previous failure
+      if (state.nextAttemptAt && state.nextAttemptAt > now) {
+        return result;
+      }
+
+      const events = this.store.readAfter(
+        state.cursor,
+        state.eventTypes,
+        this.batchSize,
+      );
+      if (events.length === 0) {
+        return result;
+      }
+
+      for (const event of events) {
+        try {
+          await handler(event);
+          this.store.acknowledge(subscriberName, event.sequence);
+          result.delivered++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const outcome = this.store.recordFailure(
+            subscriberName,
+            event,
+            message,
+            now,
+          );
+
+          if (outcome.deadLettered) {
+            result.deadLettered++;
+            await this.logger.systemError(
+              "Domain event moved to dead-letter table",
+              error as Error,
+              {
+                operation: "dispatch",
+                metadata: {
+                  subscriberName,
+                  eventId: event.eventId,
+                  eventType: event.eventType,
+                },
+              },
+            );
+            // Cursor moved past the poisoned event; continue with the rest
+            break;
+          }
+
+          result.failed++;
+          await this.logger.warn("Domain event delivery failed, will retry", {
+            operation: "dispatch",
+            metadata: {
+              subscriberName,
+              eventId: event.eventId,
+              nextAttemptAt: outcome.nextAttemptAt?.toISOString(),
+              error: message,
+            },
+          });
+          return result;
+        }
+      }
+    }
+  }
+}
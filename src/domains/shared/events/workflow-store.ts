@@ -0,0 +1,259 @@
+/**
+ * Workflow Store
+ * Persists EventWorkflows instances, durable timers and step history
+ *
+ * An instance row holds the resume point (current step, workflow data and the
+ * timer or signal it is waiting on); every step transition is appended to the
+ * history table.
+ */
+
+import { Database } from "bun:sqlite";
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+
+export type WorkflowStatus = "running" | "waiting" | "completed" | "failed";
+
+export type WorkflowStepEvent =
+  | "started"
+  | "completed"
+  | "skipped"
+  | "failed"
+  | "waiting"
+  | "timer_fired"
+  | "signalled"
+  | "timed_out"
+  | "cancelled";
+
+export interface WorkflowInstance {
+  workflowId: string;
+  workflowName: string;
+  status: WorkflowStatus;
+  currentStep: number;
+  payload: any;
+  data: Record<string, any>;
+  /** Signal the current step is waiting for */
+  waitingFor?: string;
+  /** When the current timer fires or the signal wait times out */
+  wakeAt?: Date;
+  error?: string;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowStepHistoryEntry {
+  workflowId: string;
+  stepId: string;
+  event: WorkflowStepEvent;
+  detail?: any;
+  recordedAt: Date;
+}
+
+export interface WorkflowInstanceQuery {
+  status?: WorkflowStatus | WorkflowStatus[];
+  workflowName?: string;
+  limit?: number;
+}
+
+export class SQLiteWorkflowStore {
+  private db: Database;
+  private logger = LoggerFactory.create("workflow-store");
+
+  constructor(dbPath: string = ":memory:") {
+    this.db = new Database(dbPath);
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS workflow_instances (
+        workflow_id TEXT PRIMARY KEY,
+        workflow_name TEXT NOT NULL,
+        status TEXT NOT NULL,
+        current_step INTEGER NOT NULL DEFAULT 0,
+        payload TEXT NOT NULL, -- JSON
+        data TEXT NOT NULL, -- JSON
+        waiting_for TEXT,
+        wake_at DATETIME,
+        error TEXT,
+        started_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS workflow_step_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        workflow_id TEXT NOT NULL,
+        step_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        detail TEXT, -- JSON
+        recorded_at DATETIME NOT NULL,
+        FOREIGN KEY (workflow_id) REFERENCES workflow_instances(workflow_id)
+      )
+    `);
+
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_workflow_instances_status ON workflow_instances(status, wake_at)`,
+    );
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_workflow_history_workflow ON workflow_step_history(workflow_id, id)`,
+    );
+
+    this.logger.system("Workflow tables initialized");
+  }
+
+  save(instance: WorkflowInstance): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO workflow_instances (
+          workflow_id, workflow_name, status, current_step, payload, data,
+          waiting_for, wake_at, error, started_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(workflow_id) DO UPDATE SET
+          status = excluded.status,
+          current_step = excluded.current_step,
+          data = excluded.data,
+          waiting_for = excluded.waiting_for,
+          wake_at = excluded.wake_at,
+          error = excluded.error,
+          updated_at = excluded.updated_at
+      `,
+      )
+      .run(
+        instance.workflowId,
+        instance.workflowName,
+        instance.status,
+        instance.currentStep,
+        JSON.stringify(instance.payload ?? null),
+        JSON.stringify(instance.data),
+        instance.waitingFor ?? null,
+        instance.wakeAt?.toISOString() ?? null,
+        instance.error ?? null,
+        instance.startedAt.toISOString(),
+        instance.updatedAt.toISOString(),
+      );
+  }
+
+  find(workflowId: string): WorkflowInstance | null {
+    const row = this.db
+      .prepare(`SELECT * FROM workflow_instances WHERE workflow_id = ?`)
+      .get(workflowId) as any;
+
+    return row ? this.mapRowToInstance(row) : null;
+  }
+
+  query(query: WorkflowInstanceQuery = {}): WorkflowInstance[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (query.status) {
+      const statuses = Array.isArray(query.status) ? query.status : [query.status];
+      conditions.push(`status IN (${statuses.map(() => "?").join(", ")})`);
+      params.push(...statuses);
+    }
+
+    if (query.workflowName) {
+      conditions.push("workflow_name = ?");
+      params.push(query.workflowName);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    params.push(query.limit ?? 100);
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM workflow_instances ${where} ORDER BY started_at DESC LIMIT ?`,
+      )
+      .all(...params) as any[];
+
+    return rows.map((row) => this.mapRowToInstance(row));
+  }
+
+  countByStatus(): Record<WorkflowStatus, number> {
+    const counts: Record<WorkflowStatus, number> = {
+      running: 0,
+      waiting: 0,
+      completed: 0,
+      failed: 0,
+    };
+
+    const rows = this.db
+      .prepare(`SELECT status, COUNT(*) AS count FROM workflow_instances GROUP BY status`)
+      .all() as { status: WorkflowStatus; count: number }[];
+
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  /**
+   * Waiting instances whose timer or signal timeout is due
+   */
+  findDue(now: Date): WorkflowInstance[] {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT * FROM workflow_instances
+        WHERE status = 'waiting' AND wake_at IS NOT NULL AND wake_at <= ?
+        ORDER BY wake_at ASC
+      `,
+      )
+      .all(now.toISOString()) as any[];
+
+    return rows.map((row) => this.mapRowToInstance(row));
+  }
+
+  appendHistory(entry: WorkflowStepHistoryEntry): void {
+    this.db
+      .prepare(
+        `
+        INSERT INTO workflow_step_history (workflow_id, step_id, event, detail, recorded_at)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+      )
+      .run(
+        entry.workflowId,
+        entry.stepId,
+        entry.event,
+        entry.detail === undefined ? null : JSON.stringify(entry.detail),
+        entry.recordedAt.toISOString(),
+      );
+  }
+
+  getHistory(workflowId: string): WorkflowStepHistoryEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM workflow_step_history WHERE workflow_id = ? ORDER BY id ASC`,
+      )
+      .all(workflowId) as any[];
+
+    return rows.map((row) => ({
+      workflowId: row.workflow_id,
+      stepId: row.step_id,
+      event: row.event,
+      detail: row.detail ? JSON.parse(row.detail) : undefined,
+      recordedAt: new Date(row.recorded_at),
+    }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapRowToInstance(row: any): WorkflowInstance {
+    return {
+      workflowId: row.workflow_id,
+      workflowName: row.workflow_name,
+      status: row.status,
+      currentStep: row.current_step,
+      payload: JSON.parse(row.payload),
+      data: JSON.parse(row.data),
+      waitingFor: row.waiting_for ?? undefined,
+      wakeAt: row.wake_at ? new Date(row.wake_at) : undefined,
+      error: row.error ?? undefined,
+      startedAt: new Date(row.started_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
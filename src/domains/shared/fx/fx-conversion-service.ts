@@ -0,0 +1,129 @@
+/**
+ * FX Conversion Service
+ * Domain-Driven Design Implementation
+ *
+ * Converts Money between currencies. When a transaction id is given the rate
+ * is snapshotted on first use, and every later conversion for that transaction
+ * (in either direction) reuses it, so settlement, fees and ledger postings all
+ * agree to the minor unit.
+ */
+
+import { Money } from '../money';
+import { DomainErrorFactory } from '../../../core/errors/domain-errors';
+import type { FxRate, FxRateProvider, FxRateSnapshot, FxSnapshotStore } from './fx-rate-provider';
+
+export interface FxConversion {
+  original: Money;
+  converted: Money;
+  rate: FxRate;
+  snapshot?: FxRateSnapshot;
+}
+
+export class FxConversionService {
+  private readonly errorFactory = new DomainErrorFactory('fx');
+
+  constructor(
+    private readonly provider: FxRateProvider,
+    private readonly snapshots?: FxSnapshotStore,
+    private readonly pivotCurrency: string = 'USD'
+  ) {}
+
+  /**
+   * Resolve a rate directly, from the inverse pair, or crossed through the pivot currency
+   */
+  async resolveRate(base: string, quote: string, at: Date = new Date()): Promise<FxRate> {
+    base = base.toUpperCase();
+    quote = quote.toUpperCase();
+
+    if (base === quote) {
+      return { base, quote, rate: 1, source: 'identity', effectiveAt: at };
+    }
+
+    const rate = await this.findPairRate(base, quote, at);
+    if (rate) return rate;
+
+    if (base !== this.pivotCurrency && quote !== this.pivotCurrency) {
+      const toPivot = await this.findPairRate(base, this.pivotCurrency, at);
+      const fromPivot = await this.findPairRate(this.pivotCurrency, quote, at);
+      if (toPivot && fromPivot) {
+        return {
+          base,
+          quote,
+          rate: toPivot.rate * fromPivot.rate,
+          source: `cross:${toPivot.source}+${fromPivot.source}`,
+          effectiveAt: new Date(Math.min(toPivot.effectiveAt.getTime(), fromPivot.effectiveAt.getTime()))
+        };
+      }
+    }
+
+    throw this.errorFactory.entityNotFound('FxRate', `${base}/${quote}`);
+  }
+
+  async convert(
+    amount: Money,
+    toCurrency: string,
+    options: { transactionId?: string; at?: Date } = {}
+  ): Promise<FxConversion> {
+    const from = amount.getCurrency();
+    const to = toCurrency.toUpperCase();
+    const at = options.at ?? new Date();
+
+    if (from === to) {
+      return { original: amount, converted: amount, rate: await this.resolveRate(from, to, at) };
+    }
+
+    if (!options.transactionId || !this.snapshots) {
+      const rate = await this.resolveRate(from, to, at);
+      return { original: amount, converted: amount.convert(rate.rate, to), rate };
+    }
+
+    const snapshot = await this.getOrCaptureSnapshot(options.transactionId, from, to, at);
+    return {
+      original: amount,
+      converted: amount.convert(snapshot.rate, to),
+      rate: snapshot,
+      snapshot
+    };
+  }
+
+  async getSnapshots(transactionId: string): Promise<FxRateSnapshot[]> {
+    return this.snapshots ? this.snapshots.getSnapshots(transactionId) : [];
+  }
+
+  private async getOrCaptureSnapshot(
+    transactionId: string,
+    base: string,
+    quote: string,
+    at: Date
+  ): Promise<FxRateSnapshot> {
+    const store = this.snapshots!;
+
+    const existing = await store.findSnapshot(transactionId, base, quote);
+    if (existing) return existing;
+
+    // Converting back uses the inverse of the rate already captured
+    const inverse = await store.findSnapshot(transactionId, quote, base);
+    if (inverse) {
+      return { ...inverse, base, quote, rate: 1 / inverse.rate };
+    }
+
+    const rate = await this.resolveRate(base, quote, at);
+    const snapshot: FxRateSnapshot = { ...rate, transactionId, capturedAt: new Date() };
+    await store.saveSnapshot(snapshot);
+
+    // Another writer may have captured first; the stored snapshot wins
+    return (await store.findSnapshot(transactionId, base, quote)) ?? snapshot;
+  }
+
+  private async findPairRate(base: string, quote: string, at: Date): Promise<FxRate | null> {
+    const direct = await this.provider.getRate(base, quote, at);
+    if (direct) return direct;
+
+    const inverse = await this.provider.getRate(quote, base, at);
+    if (inverse) {
+      return { ...inverse, base, quote, rate: 1 / inverse.rate, source: `inverse:${inverse.source}` };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * FX Rate Provider
+ * Domain-Driven Design Implementation
+ *
+ * Rates are quoted as units of `quote` per one unit of `base`
+ * (EUR/USD 1.08 means 1 EUR = 1.08 USD).
+ */
+
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  source: string;
+  effectiveAt: Date;
+}
+
+/**
+ * The rate a single transaction was converted at, kept so it can be
+ * re-priced, audited and reconciled with exactly the same numbers
+ */
+export interface FxRateSnapshot extends FxRate {
+  transactionId: string;
+  capturedAt: Date;
+}
+
+export interface FxRateProvider {
+  /** Latest direct rate for the pair effective at or before `at` */
+  getRate(base: string, quote: string, at?: Date): Promise<FxRate | null>;
+}
+
+export interface FxSnapshotStore {
+  saveSnapshot(snapshot: FxRateSnapshot): Promise<void>;
+  findSnapshot(transactionId: string, base: string, quote: string): Promise<FxRateSnapshot | null>;
+  getSnapshots(transactionId: string): Promise<FxRateSnapshot[]>;
+}
+
+interface FxRateFileEntry {
+  base: string;
+  quote: string;
+  rate: number;
+  effectiveAt: string;
+  source?: string;
+}
+
+/**
+ * Rate table loaded from a JSON file of the form
+ * `{ "rates": [{ "base": "EUR", "quote": "USD", "rate": 1.08, "effectiveAt": "2025-01-01T00:00:00Z" }] }`
+ */
+export class FileFxRateProvider implements FxRateProvider {
+  private rates?: FxRate[];
+
+  constructor(private readonly filePath: string) {}
+
+  async getRate(base: string, quote: string, at: Date = new Date()): Promise<FxRate | null> {
+    const rates = await this.load();
+    return selectLatestRate(rates, base, quote, at);
+  }
+
+  /**
+   * Re-read the file on next lookup
+   */
+  reload(): void {
+    this.rates = undefined;
+  }
+
+  private async load(): Promise<FxRate[]> {
+    if (!this.rates) {
+      const content = (await Bun.file(this.filePath).json()) as { rates: FxRateFileEntry[] };
+      this.rates = (content.rates || []).map(entry => ({
+        base: entry.base.toUpperCase(),
+        quote: entry.quote.toUpperCase(),
+        rate: entry.rate,
+        source: entry.source || `file:${this.filePath}`,
+        effectiveAt: new Date(entry.effectiveAt)
+      }));
+    }
+    return this.rates;
+  }
+}
+
+export function selectLatestRate(
+  rates: FxRate[],
+  base: string,
+  quote: string,
+  at: Date
+): FxRate | null {
+  let latest: FxRate | null = null;
+
+  for (const rate of rates) {
+    if (rate.base !== base || rate.quote !== quote) continue;
+    if (rate.effectiveAt.getTime() > at.getTime()) continue;
+    if (!latest || rate.effectiveAt.getTime() > latest.effectiveAt.getTime()) {
+      latest = rate;
+    }
+  }
+
+  return latest;
+}
@@ -0,0 +1,170 @@
+/**
+ * SQLite FX Rate Store
+ * Rate table and per-transaction rate snapshots
+ */
+
+import { Database } from "bun:sqlite";
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+import type {
+  FxRate,
+  FxRateProvider,
+  FxRateSnapshot,
+  FxSnapshotStore,
+} from "./fx-rate-provider";
+
+export class SQLiteFxRateStore implements FxRateProvider, FxSnapshotStore {
+  private db: Database;
+  private logger = LoggerFactory.create("fx-rate-store");
+
+  constructor(dbPath: string = ":memory:") {
+    this.db = new Database(dbPath);
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS fx_rates (
+        base_currency TEXT NOT NULL,
+        quote_currency TEXT NOT NULL,
+        rate REAL NOT NULL CHECK (rate > 0),
+        source TEXT NOT NULL,
+        effective_at DATETIME NOT NULL,
+        PRIMARY KEY (base_currency, quote_currency, effective_at)
+      )
+    `);
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS fx_rate_snapshots (
+        transaction_id TEXT NOT NULL,
+        base_currency TEXT NOT NULL,
+        quote_currency TEXT NOT NULL,
+        rate REAL NOT NULL,
+        source TEXT NOT NULL,
+        effective_at DATETIME NOT NULL,
+        captured_at DATETIME NOT NULL,
+        PRIMARY KEY (transaction_id, base_currency, quote_currency)
+      )
+    `);
+
+    this.logger.system("FX rate tables initialized");
+  }
+
+  async upsertRate(rate: FxRate): Promise<void> {
+    this.insertRate(rate);
+  }
+
+  async importRates(rates: FxRate[]): Promise<number> {
+    this.db.transaction(() => {
+      for (const rate of rates) {
+        this.insertRate(rate);
+      }
+    })();
+    return rates.length;
+  }
+
+  private insertRate(rate: FxRate): void {
+    this.db
+      .prepare(
+        `
+        INSERT OR REPLACE INTO fx_rates (base_currency, quote_currency, rate, source, effective_at)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+      )
+      .run(
+        rate.base.toUpperCase(),
+        rate.quote.toUpperCase(),
+        rate.rate,
+        rate.source,
+        rate.effectiveAt.toISOString(),
+      );
+  }
+
+  async getRate(
+    base: string,
+    quote: string,
+    at: Date = new Date(),
+  ): Promise<FxRate | null> {
+    const row = this.db
+      .prepare(
+        `
+        SELECT * FROM fx_rates
+        WHERE base_currency = ? AND quote_currency = ? AND effective_at <= ?
+        ORDER BY effective_at DESC
+        LIMIT 1
+      `,
+      )
+      .get(base.toUpperCase(), quote.toUpperCase(), at.toISOString()) as any;
+
+    return row ? this.mapRowToRate(row) : null;
+  }
+
+  async saveSnapshot(snapshot: FxRateSnapshot): Promise<void> {
+    // First snapshot wins: a transaction is never re-priced at a newer rate
+    this.db
+      .prepare(
+        `
+        INSERT OR IGNORE INTO fx_rate_snapshots (
+          transaction_id, base_currency, quote_currency, rate, source, effective_at, captured_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `,
+      )
+      .run(
+        snapshot.transactionId,
+        snapshot.base,
+        snapshot.quote,
+        snapshot.rate,
+        snapshot.source,
+        snapshot.effectiveAt.toISOString(),
+        snapshot.capturedAt.toISOString(),
+      );
+  }
+
+  async findSnapshot(
+    transactionId: string,
+    base: string,
+    quote: string,
+  ): Promise<FxRateSnapshot | null> {
+    const row = this.db
+      .prepare(
+        `
+        SELECT * FROM fx_rate_snapshots
+        WHERE transaction_id = ? AND base_currency = ? AND quote_currency = ?
+      `,
+      )
+      .get(transactionId, base.toUpperCase(), quote.toUpperCase()) as any;
+
+    return row ? this.mapRowToSnapshot(row) : null;
+  }
+
+  async getSnapshots(transactionId: string): Promise<FxRateSnapshot[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM fx_rate_snapshots WHERE transaction_id = ? ORDER BY captured_at ASC`,
+      )
+      .all(transactionId) as any[];
+
+    return rows.map((row) => this.mapRowToSnapshot(row));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapRowToRate(row: any): FxRate {
+    return {
+      base: row.base_currency,
+      quote: row.quote_currency,
+      rate: row.rate,
+      source: row.source,
+      effectiveAt: new Date(row.effective_at),
+    };
+  }
+
+  private mapRowToSnapshot(row: any): FxRateSnapshot {
+    return {
+      ...this.mapRowToRate(row),
+      transactionId: row.transaction_id,
+      capturedAt: new Date(row.captured_at),
+    };
+  }
+}
@@ -8,13 +8,24 @@ export { DomainEntity } from './domain-entity';
 export { ValueObject } from './value-object';
 export { DomainError } from './domain-entity';
 
+// Money & FX
+export { Money, CURRENCIES, getCurrencyInfo, isSupportedCurrency, type CurrencyInfo } from './money';
+export { FileFxRateProvider, type FxRate, type FxRateSnapshot, type FxRateProvider, type FxSnapshotStore } from './fx/fx-rate-provider';
+export { SQLiteFxRateStore } from './fx/sqlite-fx-rate-store';
+export { FxConversionService, type FxConversion } from './fx/fx-conversion-service';
+
 // Events System
 export { DomainEvents, BaseDomainEvent, type DomainEvent } from './events/domain-events';
 export { DomainEventHandlers } from './events/domain-event-handlers';
-export { EventWorkflows, type WorkflowDefinition, type WorkflowStep, type WorkflowContext } from './events/event-workflows';
+export { SQLiteEventStore, type StoredEvent, type RetryPolicy, type DeadLetterEntry, type ReplayPosition } from './events/event-store';
+export { OutboxDispatcher, type DurableEventHandler, type DispatchResult } from './events/outbox-dispatcher';
+export { EventWorkflows, type WorkflowDefinition, type WorkflowStep, type WorkflowStepType, type WorkflowContext, type WorkflowInstanceDetails } from './events/event-workflows';
+export { SQLiteWorkflowStore, type WorkflowInstance, type WorkflowInstanceQuery, type WorkflowStatus, type WorkflowStepHistoryEntry } from './events/workflow-store';
 
 // Orchestration
 export { DomainOrchestrator, type BusinessProcessResult, type BusinessProcessStep } from './domain-orchestrator';
+export { SagaEngine, type SagaDefinition, type SagaStepDefinition, type SagaStepContext } from './saga/saga-engine';
+export { SQLiteSagaStore, type SagaStore, type SagaInstance, type SagaStatus } from './saga/saga-store';
 
 // Re-export commonly used types
 export type { FantasyGatewayConfig, SportEventQuery, AgentQuery, BetQuery } from '../external/fantasy402/gateway/fantasy402-gateway';
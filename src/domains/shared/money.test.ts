@@ -0,0 +1,69 @@
+/**
+ * Money & FX Tests
+ * Minor-unit arithmetic, allocation and snapshotted conversions
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { Money } from "./money";
+import { SQLiteFxRateStore } from "./fx/sqlite-fx-rate-store";
+import { FxConversionService } from "./fx/fx-conversion-service";
+
+describe("Money", () => {
+  it("should round to the currency's minor units", () => {
+    expect(Money.of(1.005, "USD").getMinorUnits()).toBe(101);
+    expect(Money.of(0.1, "USD").add(Money.of(0.2, "USD")).toMajor()).toBe(0.3);
+    expect(Money.of(1234.5, "JPY").getMinorUnits()).toBe(1235);
+    expect(Money.of(0.000000015, "BTC").getMinorUnits()).toBe(2);
+  });
+
+  it("should allocate without losing a minor unit", () => {
+    const parts = Money.of(100, "USD").allocate([1, 1, 1]);
+
+    expect(parts.map((p) => p.getMinorUnits())).toEqual([3334, 3333, 3333]);
+    expect(Money.sum(parts, "USD").equals(Money.of(100, "USD"))).toBe(true);
+  });
+
+  it("should refuse to mix currencies", () => {
+    expect(() => Money.of(1, "USD").add(Money.of(1, "EUR"))).toThrow(
+      "without conversion",
+    );
+    expect(() => Money.of(1, "XYZ")).toThrow("Unsupported currency");
+  });
+});
+
+describe("FxConversionService", () => {
+  let store: SQLiteFxRateStore;
+  let fx: FxConversionService;
+
+  beforeEach(async () => {
+    store = new SQLiteFxRateStore(":memory:");
+    fx = new FxConversionService(store, store);
+    await store.importRates([
+      { base: "EUR", quote: "USD", rate: 1.08, source: "test", effectiveAt: new Date("2025-01-01") },
+      { base: "USD", quote: "JPY", rate: 150, source: "test", effectiveAt: new Date("2025-01-01") },
+    ]);
+  });
+
+  it("should reuse the transaction's snapshot after the rate moves", async () => {
+    const first = await fx.convert(Money.of(100, "EUR"), "USD", { transactionId: "tx_1" });
+    expect(first.converted.toMajor()).toBe(108);
+
+    await store.upsertRate({ base: "EUR", quote: "USD", rate: 1.2, source: "test", effectiveAt: new Date() });
+
+    const again = await fx.convert(Money.of(100, "EUR"), "USD", { transactionId: "tx_1" });
+    const back = await fx.convert(Money.of(108, "USD"), "EUR", { transactionId: "tx_1" });
+    const fresh = await fx.convert(Money.of(100, "EUR"), "USD", { transactionId: "tx_2" });
+
+    expect(again.converted.toMajor()).toBe(108);
+    expect(back.converted.toMajor()).toBe(100);
+    expect(fresh.converted.toMajor()).toBe(120);
+    expect(await fx.getSnapshots("tx_1")).toHaveLength(1);
+  });
+
+  it("should cross through the pivot currency", async () => {
+    const result = await fx.convert(Money.of(10, "EUR"), "JPY", { at: new Date("2025-02-01") });
+
+    expect(result.converted.getMinorUnits()).toBe(1620);
+    expect(result.rate.source).toBe("cross:test+test");
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Money Value Object
+ * Domain-Driven Design Implementation
+ *
+ * Amounts are held as integer minor units (cents, satoshis) together with
+ * their ISO-4217 currency, so arithmetic never accumulates floating-point
+ * drift. Major-unit numbers only exist at the edges (API payloads, display).
+ */
+
+import { ValueObject } from './value-object';
+import { DomainErrorFactory } from '../../core/errors/domain-errors';
+
+export interface CurrencyInfo {
+  code: string;
+  /** ISO-4217 numeric code; crypto assets have none */
+  numericCode?: number;
+  name: string;
+  symbol: string;
+  minorUnits: number;
+  isCrypto: boolean;
+}
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  USD: { code: 'USD', numericCode: 840, name: 'US Dollar', symbol: '$', minorUnits: 2, isCrypto: false },
+  EUR: { code: 'EUR', numericCode: 978, name: 'Euro', symbol: '€', minorUnits: 2, isCrypto: false },
+  GBP: { code: 'GBP', numericCode: 826, name: 'Pound Sterling', symbol: '£', minorUnits: 2, isCrypto: false },
+  CAD: { code: 'CAD', numericCode: 124, name: 'Canadian Dollar', symbol: 'C$', minorUnits: 2, isCrypto: false },
+  MXN: { code: 'MXN', numericCode: 484, name: 'Mexican Peso', symbol: 'MX$', minorUnits: 2, isCrypto: false },
+  BRL: { code: 'BRL', numericCode: 986, name: 'Brazilian Real', symbol: 'R$', minorUnits: 2, isCrypto: false },
+  JPY: { code: 'JPY', numericCode: 392, name: 'Yen', symbol: '¥', minorUnits: 0, isCrypto: false },
+  BTC: { code: 'BTC', name: 'Bitcoin', symbol: '₿', minorUnits: 8, isCrypto: true },
+  USDT: { code: 'USDT', name: 'Tether', symbol: 'USDT', minorUnits: 6, isCrypto: true },
+  USDC: { code: 'USDC', name: 'USD Coin', symbol: 'USDC', minorUnits: 6, isCrypto: true }
+};
+
+const errorFactory = new DomainErrorFactory('money');
+
+export function isSupportedCurrency(code: string): boolean {
+  return typeof code === 'string' && code.toUpperCase() in CURRENCIES;
+}
+
+export function getCurrencyInfo(code: string): CurrencyInfo {
+  const info = typeof code === 'string' ? CURRENCIES[code.toUpperCase()] : undefined;
+  if (!info) {
+    throw errorFactory.validationError(`Unsupported currency: ${code}`, 'currency', code);
+  }
+  return info;
+}
+
+/**
+ * Round half away from zero after trimming binary noise
+ * (e.g. 1.005 * 100 = 100.49999999999999 rounds to 101, not 100)
+ */
+export function roundMinor(value: number): number {
+  const trimmed = Number(value.toPrecision(15));
+  return Math.sign(trimmed) * Math.round(Math.abs(trimmed));
+}
+
+export class Money extends ValueObject {
+  private constructor(
+    private readonly minorUnits: number,
+    private readonly currency: string
+  ) {
+    super();
+  }
+
+  /**
+   * Create from a major-unit amount (e.g. 12.34 USD), rounded to the currency's precision
+   */
+  static of(amount: number, currency: string): Money {
+    if (!Number.isFinite(amount)) {
+      throw errorFactory.validationError('Amount must be a finite number', 'amount', amount);
+    }
+    const info = getCurrencyInfo(currency);
+    return Money.fromMinor(roundMinor(amount * 10 ** info.minorUnits), info.code);
+  }
+
+  static fromMinor(minorUnits: number, currency: string): Money {
+    const info = getCurrencyInfo(currency);
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw errorFactory.validationError(
+        'Minor units must be a safe integer',
+        'minorUnits',
+        minorUnits
+      );
+    }
+    // Avoid -0 so equality and serialization stay predictable
+    return new Money(minorUnits || 0, info.code);
+  }
+
+  static zero(currency: string): Money {
+    return Money.fromMinor(0, currency);
+  }
+
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency));
+  }
+
+  getMinorUnits(): number { return this.minorUnits; }
+  getCurrency(): string { return this.currency; }
+  getCurrencyInfo(): CurrencyInfo { return CURRENCIES[this.currency]; }
+
+  /**
+   * Major-unit number for API payloads and display
+   */
+  toMajor(): number {
+    return this.minorUnits / 10 ** this.getCurrencyInfo().minorUnits;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other, 'add');
+    return Money.fromMinor(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other, 'subtract');
+    return Money.fromMinor(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  /**
+   * Multiply by a factor such as a fee rate, rounding to minor units
+   */
+  multiply(factor: number): Money {
+    return Money.fromMinor(roundMinor(this.minorUnits * factor), this.currency);
+  }
+
+  negate(): Money {
+    return Money.fromMinor(-this.minorUnits, this.currency);
+  }
+
+  abs(): Money {
+    return Money.fromMinor(Math.abs(this.minorUnits), this.currency);
+  }
+
+  /**
+   * Convert with an exchange rate quoted as units of `toCurrency` per unit of this currency
+   */
+  convert(rate: number, toCurrency: string): Money {
+    if (!(rate > 0) || !Number.isFinite(rate)) {
+      throw errorFactory.validationError('Exchange rate must be positive', 'rate', rate);
+    }
+    const target = getCurrencyInfo(toCurrency);
+    const scale = 10 ** (target.minorUnits - this.getCurrencyInfo().minorUnits);
+    return Money.fromMinor(roundMinor(this.minorUnits * rate * scale), target.code);
+  }
+
+  /**
+   * Split into parts proportional to the ratios without losing a minor unit;
+   * the remainder goes to the first parts
+   */
+  allocate(ratios: number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || total <= 0 || ratios.some(ratio => ratio < 0)) {
+      throw errorFactory.validationError('Ratios must be non-negative with a positive sum', 'ratios', ratios);
+    }
+
+    const parts = ratios.map(ratio => Math.trunc((this.minorUnits * ratio) / total));
+    let remainder = this.minorUnits - parts.reduce((sum, part) => sum + part, 0);
+    const step = Math.sign(remainder);
+
+    for (let i = 0; remainder !== 0; i = (i + 1) % parts.length) {
+      parts[i] += step;
+      remainder -= step;
+    }
+
+    return parts.map(part => Money.fromMinor(part, this.currency));
+  }
+
+  isZero(): boolean { return this.minorUnits === 0; }
+  isPositive(): boolean { return this.minorUnits > 0; }
+  isNegative(): boolean { return this.minorUnits < 0; }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other, 'compare');
+    return Math.sign(this.minorUnits - other.minorUnits);
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  equals(other: ValueObject): boolean {
+    return (
+      other instanceof Money &&
+      other.currency === this.currency &&
+      other.minorUnits === this.minorUnits
+    );
+  }
+
+  format(): string {
+    const info = this.getCurrencyInfo();
+    return `${info.symbol}${this.toMajor().toFixed(info.minorUnits)}`;
+  }
+
+  toString(): string {
+    return `${this.currency} ${this.toMajor().toFixed(this.getCurrencyInfo().minorUnits)}`;
+  }
+
+  toJSON(): { amount: number; currency: string; minorUnits: number } {
+    return { amount: this.toMajor(), currency: this.currency, minorUnits: this.minorUnits };
+  }
+
+  private assertSameCurrency(other: Money, operation: string): void {
+    if (other.currency !== this.currency) {
+      throw errorFactory.businessRuleViolation(
+        `Cannot ${operation} ${other.currency} and ${this.currency} without conversion`,
+        'currency_mismatch'
+      );
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Saga Engine Tests
+ * Reverse-order compensation, persistence and crash-resume
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { SagaEngine, type SagaDefinition } from "./saga-engine";
+import { SQLiteSagaStore } from "./saga-store";
+
+interface BetParams {
+  agentId: string;
+  amount: number;
+}
+
+describe("SagaEngine", () => {
+  let store: SQLiteSagaStore;
+  let engine: SagaEngine;
+  let balance: number;
+  let openBets: Set<string>;
+  let failLog: boolean;
+  let log: string[];
+
+  const definition = (): SagaDefinition<BetParams> => ({
+    sagaType: "bet_placement",
+    steps: [
+      {
+        stepId: "debit_stake",
+        name: "Debit Stake",
+        compensation: "Refund Stake",
+        execute: async ({ params }) => {
+          balance -= params.amount;
+          log.push("debit");
+          return { debited: params.amount };
+        },
+        compensate: async (_context, data) => {
+          balance += data.debited;
+          log.push("refund");
+        },
+      },
+      {
+        stepId: "place_bet",
+        name: "Place Bet",
+        compensation: "Cancel Bet",
+        execute: async ({ processId }) => {
+          openBets.add(processId);
+          log.push("place");
+          return { betId: processId };
+        },
+        compensate: async ({ processId, interrupted }, data) => {
+          // Bet IDs are the process ID, so an interrupted placement is still cancellable
+          openBets.delete(interrupted ? processId : data.betId);
+          log.push("cancel");
+        },
+      },
+      {
+        stepId: "log_transaction",
+        name: "Log Transaction",
+        execute: async () => {
+          if (failLog) throw new Error("audit sink unavailable");
+        },
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    store = new SQLiteSagaStore(":memory:");
+    engine = new SagaEngine(store);
+    engine.register(definition());
+    balance = 100;
+    openBets = new Set();
+    failLog = false;
+    log = [];
+  });
+
+  it("should complete and persist a successful saga", async () => {
+    const saga = await engine.start("bet_placement", "bet_1", { agentId: "a1", amount: 25 });
+
+    expect(saga.status).toBe("completed");
+    expect(balance).toBe(75);
+
+    const stored = await engine.getSaga("bet_1");
+    expect(stored?.steps.map((s) => s.status)).toEqual(["completed", "completed", "completed"]);
+    expect(stored?.steps[0].data).toEqual({ debited: 25 });
+  });
+
+  it("should compensate completed steps in reverse order on failure", async () => {
+    failLog = true;
+
+    const saga = await engine.start("bet_placement", "bet_1", { agentId: "a1", amount: 25 });
+
+    expect(saga.status).toBe("compensated");
+    expect(saga.error).toBe("audit sink unavailable");
+    expect(log).toEqual(["debit", "place", "cancel", "refund"]);
+    expect(balance).toBe(100);
+    expect(openBets.size).toBe(0);
+    expect(saga.steps.map((s) => s.status)).toEqual(["compensated", "compensated", "failed"]);
+  });
+
+  it("should stop and flag the saga when a compensation fails", async () => {
+    failLog = true;
+    const broken = definition();
+    broken.steps[1].compensate = async () => {
+      throw new Error("bookmaker offline");
+    };
+    engine.register(broken);
+
+    const saga = await engine.start("bet_placement", "bet_1", { agentId: "a1", amount: 25 });
+
+    expect(saga.status).toBe("failed");
+    expect(saga.steps[1].status).toBe("compensation_failed");
+    // The stake is not refunded while the bet may still be open
+    expect(saga.steps[0].status).toBe("completed");
+    expect(balance).toBe(75);
+
+    // Retrying once the cause is fixed finishes the rollback
+    engine.register(definition());
+    const retried = await engine.compensate("bet_1", "manual retry");
+    expect(retried.status).toBe("compensated");
+    expect(balance).toBe(100);
+    expect(openBets.size).toBe(0);
+  });
+
+  it("should compensate sagas interrupted by a restart", async () => {
+    // Simulate a crash after the bet was placed but before it was recorded
+    const now = new Date();
+    balance = 75;
+    openBets.add("bet_crashed");
+    await store.save({
+      processId: "bet_crashed",
+      sagaType: "bet_placement",
+      status: "running",
+      params: { agentId: "a1", amount: 25 },
+      steps: [
+        { stepId: "debit_stake", name: "Debit Stake", status: "completed", data: { debited: 25 } },
+        { stepId: "place_bet", name: "Place Bet", status: "running", startedAt: now },
+        { stepId: "log_transaction", name: "Log Transaction", status: "pending" },
+      ],
+      startedAt: now,
+      updatedAt: now,
+    });
+
+    const restarted = new SagaEngine(store);
+    restarted.register(definition());
+    const resumed = await restarted.resumeInterrupted();
+
+    expect(resumed).toHaveLength(1);
+    expect(resumed[0].status).toBe("compensated");
+    expect(resumed[0].steps[1]).toMatchObject({ status: "compensated", interrupted: true });
+    expect(resumed[0].steps[2].status).toBe("pending");
+    expect(log).toEqual(["cancel", "refund"]);
+    expect(balance).toBe(100);
+    expect(openBets.size).toBe(0);
+    expect(await store.findByStatus(["running", "compensating"])).toHaveLength(0);
+  });
+});
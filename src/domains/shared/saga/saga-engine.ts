@@ -0,0 +1,292 @@
+/**
+ * Saga Engine
+ * Runs business processes step by step and undoes completed steps on failure
+ *
+ * Progress is persisted after every transition. When a step fails, or when a
+ * process interrupted by a restart is resumed, compensating actions run in
+ * reverse order. Compensations may run more than once and must be idempotent.
+ * A step cut off mid-execution is compensated too, since its effect may have
+ * been applied; its compensation runs with `interrupted` set and no output.
+ */
+
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+import {
+  SQLiteSagaStore,
+  type SagaInstance,
+  type SagaStatus,
+  type SagaStore,
+} from "./saga-store";
+
+export interface SagaStepContext<TParams> {
+  processId: string;
+  params: TParams;
+  /** Outputs of earlier steps keyed by stepId */
+  results: Record<string, any>;
+  /**
+   * Set when compensating a step that was running when the process stopped:
+   * it may or may not have taken effect, and there is no step output
+   */
+  interrupted?: boolean;
+}
+
+export interface SagaStepDefinition<TParams = any> {
+  stepId: string;
+  name: string;
+  /** Human-readable name of the compensating action */
+  compensation?: string;
+  execute(context: SagaStepContext<TParams>): Promise<any>;
+  /** Receives the step output; after a restart this is its JSON form */
+  compensate?(context: SagaStepContext<TParams>, data: any): Promise<void>;
+}
+
+export interface SagaDefinition<TParams = any> {
+  sagaType: string;
+  steps: SagaStepDefinition<TParams>[];
+}
+
+export class SagaEngine {
+  private readonly logger = LoggerFactory.create("saga-engine");
+  private definitions: Map<string, SagaDefinition> = new Map();
+
+  constructor(private readonly store: SagaStore = new SQLiteSagaStore()) {}
+
+  /**
+   * Register a saga definition. Definitions must be registered before
+   * interrupted processes of that type can be resumed.
+   */
+  register<TParams>(definition: SagaDefinition<TParams>): void {
+    this.definitions.set(definition.sagaType, definition);
+  }
+
+  /**
+   * Run a new saga to completion, compensating on failure
+   */
+  async start<TParams>(
+    sagaType: string,
+    processId: string,
+    params: TParams,
+  ): Promise<SagaInstance<TParams>> {
+    const definition = this.getDefinition(sagaType);
+    const now = new Date();
+
+    const instance: SagaInstance<TParams> = {
+      processId,
+      sagaType,
+      status: "running",
+      params,
+      steps: definition.steps.map((step) => ({
+        stepId: step.stepId,
+        name: step.name,
+        status: "pending",
+        compensation: step.compensation,
+      })),
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    await this.persist(instance);
+    return this.runForward(definition, instance);
+  }
+
+  /**
+   * Undo the completed steps of a saga. Also used to retry a compensation
+   * that previously failed, or to roll back a saga that already completed.
+   */
+  async compensate(processId: string, reason: string): Promise<SagaInstance> {
+    const instance = await this.store.find(processId);
+    if (!instance) {
+      throw new Error(`Saga not found: ${processId}`);
+    }
+    if (instance.status === "compensated") {
+      return instance;
+    }
+
+    instance.error = instance.error ?? reason;
+    return this.runCompensation(this.getDefinition(instance.sagaType), instance);
+  }
+
+  /**
+   * Compensate every saga left running or compensating by a previous process.
+   * A step that was running when the process stopped is marked failed and
+   * interrupted, and compensated along with the completed steps.
+   */
+  async resumeInterrupted(): Promise<SagaInstance[]> {
+    const interrupted = await this.store.findByStatus(["running", "compensating"]);
+    const resumed: SagaInstance[] = [];
+
+    for (const instance of interrupted) {
+      const definition = this.definitions.get(instance.sagaType);
+      if (!definition) {
+        await this.logger.warn("No saga definition registered for interrupted process", {
+          operation: "resumeInterrupted",
+          metadata: { processId: instance.processId, sagaType: instance.sagaType },
+        });
+        continue;
+      }
+
+      for (const step of instance.steps) {
+        if (step.status === "running") {
+          step.status = "failed";
+          step.interrupted = true;
+          step.error = "Interrupted before completion";
+          step.completedAt = new Date();
+        }
+      }
+      instance.error = instance.error ?? "Process interrupted before completion";
+
+      await this.logger.audit("Resuming interrupted saga", {
+        operation: "resumeInterrupted",
+        metadata: { processId: instance.processId, sagaType: instance.sagaType },
+      });
+
+      resumed.push(await this.runCompensation(definition, instance));
+    }
+
+    return resumed;
+  }
+
+  async getSaga(processId: string): Promise<SagaInstance | null> {
+    return this.store.find(processId);
+  }
+
+  async getSagasByStatus(statuses: SagaStatus[]): Promise<SagaInstance[]> {
+    return this.store.findByStatus(statuses);
+  }
+
+  private async runForward<TParams>(
+    definition: SagaDefinition<TParams>,
+    instance: SagaInstance<TParams>,
+  ): Promise<SagaInstance<TParams>> {
+    const context = this.createContext(instance);
+
+    for (let i = 0; i < definition.steps.length; i++) {
+      const stepDefinition = definition.steps[i];
+      const step = instance.steps[i];
+
+      step.status = "running";
+      step.startedAt = new Date();
+      await this.persist(instance);
+
+      try {
+        step.data = await stepDefinition.execute(context);
+        context.results[step.stepId] = step.data;
+        step.status = "completed";
+        step.completedAt = new Date();
+        await this.persist(instance);
+      } catch (error) {
+        step.status = "failed";
+        step.error = errorMessage(error);
+        step.completedAt = new Date();
+        instance.error = step.error;
+
+        await this.logger.warn("Saga step failed, compensating", {
+          operation: "runForward",
+          metadata: {
+            processId: instance.processId,
+            sagaType: instance.sagaType,
+            stepId: step.stepId,
+            error: step.error,
+          },
+        });
+
+        return this.runCompensation(definition, instance);
+      }
+    }
+
+    instance.status = "completed";
+    await this.persist(instance);
+    return instance;
+  }
+
+  private async runCompensation<TParams>(
+    definition: SagaDefinition<TParams>,
+    instance: SagaInstance<TParams>,
+  ): Promise<SagaInstance<TParams>> {
+    instance.status = "compensating";
+    await this.persist(instance);
+
+    const context = this.createContext(instance);
+
+    for (let i = instance.steps.length - 1; i >= 0; i--) {
+      const step = instance.steps[i];
+      const compensate = definition.steps.find((s) => s.stepId === step.stepId)?.compensate;
+
+      const needsCompensation =
+        step.status === "completed" ||
+        step.status === "compensating" ||
+        step.status === "compensation_failed" ||
+        (step.status === "failed" && step.interrupted === true);
+      if (!needsCompensation || !compensate) {
+        continue;
+      }
+
+      step.status = "compensating";
+      await this.persist(instance);
+
+      try {
+        await compensate({ ...context, interrupted: step.interrupted === true }, step.data);
+        step.status = "compensated";
+        step.compensatedAt = new Date();
+        await this.persist(instance);
+      } catch (error) {
+        step.status = "compensation_failed";
+        step.error = errorMessage(error);
+        instance.status = "failed";
+        await this.persist(instance);
+
+        // Earlier steps are left untouched until this one is resolved
+        await this.logger.systemError("Saga compensation failed", error as Error, {
+          operation: "runCompensation",
+          metadata: {
+            processId: instance.processId,
+            sagaType: instance.sagaType,
+            stepId: step.stepId,
+          },
+        });
+        return instance;
+      }
+    }
+
+    instance.status = "compensated";
+    await this.persist(instance);
+
+    await this.logger.audit("Saga compensated", {
+      operation: "runCompensation",
+      metadata: { processId: instance.processId, sagaType: instance.sagaType },
+    });
+
+    return instance;
+  }
+
+  private createContext<TParams>(instance: SagaInstance<TParams>): SagaStepContext<TParams> {
+    const results: Record<string, any> = {};
+    for (const step of instance.steps) {
+      if (step.data !== undefined) {
+        results[step.stepId] = step.data;
+      }
+    }
+    return { processId: instance.processId, params: instance.params, results };
+  }
+
+  private async persist(instance: SagaInstance): Promise<void> {
+    instance.updatedAt = new Date();
+    await this.store.save(instance);
+  }
+
+  private getDefinition(sagaType: string): SagaDefinition {
+    const definition = this.definitions.get(sagaType);
+    if (!definition) {
+      throw new Error(`Saga definition not registered: ${sagaType}`);
+    }
+    return definition;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  // Nested business processes throw their BusinessProcessResult
+  if (error && typeof error === "object" && "error" in error) {
+    return String((error as { error: unknown }).error);
+  }
+  return String(error);
+}
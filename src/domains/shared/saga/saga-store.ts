@@ -0,0 +1,137 @@
+/**
+ * Saga Store
+ * Persists business process progress so compensation survives a restart
+ *
+ * Each saga is a single row: step progress and step outputs are stored as JSON
+ * and rewritten after every transition.
+ */
+
+import { Database } from "bun:sqlite";
+import { LoggerFactory } from "../../../core/logging/domain-logger";
+import type { BusinessProcessStep } from "../domain-orchestrator";
+
+export type SagaStatus =
+  | "running"
+  | "completed"
+  | "compensating"
+  | "compensated"
+  | "failed";
+
+export interface SagaInstance<TParams = any> {
+  processId: string;
+  sagaType: string;
+  status: SagaStatus;
+  params: TParams;
+  steps: BusinessProcessStep[];
+  error?: string;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+export interface SagaStore {
+  save(instance: SagaInstance): Promise<void>;
+  find(processId: string): Promise<SagaInstance | null>;
+  findByStatus(statuses: SagaStatus[]): Promise<SagaInstance[]>;
+}
+
+export class SQLiteSagaStore implements SagaStore {
+  private db: Database;
+  private logger = LoggerFactory.create("saga-store");
+
+  constructor(dbPath: string = ":memory:") {
+    this.db = new Database(dbPath);
+    this.initializeTables();
+  }
+
+  private initializeTables(): void {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS saga_instances (
+        process_id TEXT PRIMARY KEY,
+        saga_type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        params TEXT NOT NULL, -- JSON
+        steps TEXT NOT NULL, -- JSON
+        error TEXT,
+        started_at DATETIME NOT NULL,
+        updated_at DATETIME NOT NULL
+      )
+    `);
+
+    this.db.run(
+      `CREATE INDEX IF NOT EXISTS idx_saga_instances_status ON saga_instances(status)`,
+    );
+
+    this.logger.system("Saga tables initialized");
+  }
+
+  async save(instance: SagaInstance): Promise<void> {
+    this.db
+      .prepare(
+        `
+        INSERT INTO saga_instances (
+          process_id, saga_type, status, params, steps, error, started_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(process_id) DO UPDATE SET
+          status = excluded.status,
+          steps = excluded.steps,
+          error = excluded.error,
+          updated_at = excluded.updated_at
+      `,
+      )
+      .run(
+        instance.processId,
+        instance.sagaType,
+        instance.status,
+        JSON.stringify(instance.params ?? null),
+        JSON.stringify(instance.steps),
+        instance.error ?? null,
+        instance.startedAt.toISOString(),
+        instance.updatedAt.toISOString(),
+      );
+  }
+
+  async find(processId: string): Promise<SagaInstance | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM saga_instances WHERE process_id = ?`)
+      .get(processId) as any;
+
+    return row ? this.mapRowToInstance(row) : null;
+  }
+
+  async findByStatus(statuses: SagaStatus[]): Promise<SagaInstance[]> {
+    if (statuses.length === 0) return [];
+
+    const placeholders = statuses.map(() => "?").join(", ");
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM saga_instances WHERE status IN (${placeholders}) ORDER BY started_at ASC`,
+      )
+      .all(...statuses) as any[];
+
+    return rows.map((row) => this.mapRowToInstance(row));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private mapRowToInstance(row: any): SagaInstance {
+    const steps = (JSON.parse(row.steps) as any[]).map((step) => ({
+      ...step,
+      startedAt: step.startedAt ? new Date(step.startedAt) : undefined,
+      completedAt: step.completedAt ? new Date(step.completedAt) : undefined,
+      compensatedAt: step.compensatedAt ? new Date(step.compensatedAt) : undefined,
+    }));
+
+    return {
+      processId: row.process_id,
+      sagaType: row.saga_type,
+      status: row.status,
+      params: JSON.parse(row.params),
+      steps,
+      error: row.error ?? undefined,
+      startedAt: new Date(row.started_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -225,8 +225,9 @@ async function demonstrateVipManagementSystem() {
     if (maintenanceResponse.success && maintenanceResponse.data) {
       console.log('✅ Monthly VIP Maintenance Completed:');
       console.log(`   Reviews Completed: ${maintenanceResponse.data.reviewsCompleted}`);
-      console.log(`   Upgrades Processed: ${maintenanceResponse.data.upgradesProcessed}`);
-      console.log(`   Downgrades Processed: ${maintenanceResponse.data.downgradesProcessed}`);
+      console.log(`   Upgrades Proposed: ${maintenanceResponse.data.upgrades.length}`);
+      console.log(`   Downgrades Proposed: ${maintenanceResponse.data.downgrades.length}`);
+      console.log(`   Held (grace/protection): ${maintenanceResponse.data.held.length}`);
       console.log(`   Suspensions Processed: ${maintenanceResponse.data.suspensionsProcessed}`);
     }
 
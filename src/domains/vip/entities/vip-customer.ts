@@ -99,12 +99,16 @@ export class VipCustomer extends DomainEntity {
   }
 
   // Business methods
-  upgradeTier(newTier: VipTier, reason: string, approvedBy: string): void {
+  /**
+   * @param qualificationVerified set when tier rules already assessed the
+   * member, skipping the snapshot requirement check
+   */
+  upgradeTier(newTier: VipTier, reason: string, approvedBy: string, qualificationVerified: boolean = false): void {
     if (!this.currentTier.canUpgradeTo(newTier)) {
       throw new DomainError('Cannot upgrade to lower or same tier', 'INVALID_TIER_UPGRADE');
     }
 
-    if (!this.isEligibleForTier(newTier)) {
+    if (!qualificationVerified && !this.isEligibleForTier(newTier)) {
       throw new DomainError('Customer does not meet requirements for this tier', 'INSUFFICIENT_QUALIFICATION');
     }
 
@@ -120,7 +124,7 @@ export class VipCustomer extends DomainEntity {
 
     this.upgradeHistory.push(upgrade);
     this.currentTier = newTier;
-    this.nextReviewDate = this.calculateNextReviewDate(new Date());
+    this.nextReviewDate = VipCustomer.calculateNextReviewDate(new Date());
 
     // Award upgrade bonus
     this.awardUpgradeBonus(newTier.getUpgradeBonus());
@@ -145,7 +149,7 @@ export class VipCustomer extends DomainEntity {
 
     this.upgradeHistory.push(downgrade);
     this.currentTier = newTier;
-    this.nextReviewDate = this.calculateNextReviewDate(new Date());
+    this.nextReviewDate = VipCustomer.calculateNextReviewDate(new Date());
 
     this.markAsModified();
   }
@@ -271,6 +275,14 @@ export class VipCustomer extends DomainEntity {
   getReviewHistory(): VipReview[] { return [...this.reviewHistory]; }
   getNextReviewDate(): Date | undefined { return this.nextReviewDate; }
 
+  /**
+   * When the member entered the current tier
+   */
+  getTierSince(): Date {
+    const lastChange = this.upgradeHistory[this.upgradeHistory.length - 1];
+    return lastChange ? lastChange.upgradeDate : this.getCreatedAt();
+  }
+
   // Business rules
   isActive(): boolean {
     return this.status === 'active';
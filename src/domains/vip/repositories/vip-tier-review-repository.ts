@@ -0,0 +1,90 @@
+/**
+ * VIP Tier Review Repository
+ * Domain-Driven Design Implementation
+ *
+ * Stores tier change proposals from monthly maintenance and the grace
+ * period state carried between runs
+ */
+
+import { VipTierLevel } from '../value-objects/vip-tier';
+import { MetricCheck, TierDecision } from '../rules/tier-rule-engine';
+
+export type TierChangeDirection = 'upgrade' | 'downgrade';
+export type TierChangeProposalStatus = 'pending' | 'approved' | 'rejected' | 'superseded' | 'failed';
+
+export interface VipTierChangeProposal {
+  id: string;
+  runId: string;
+  customerId: string;
+  vipCustomerId: string;
+  direction: TierChangeDirection;
+  fromTier: VipTierLevel;
+  toTier: VipTierLevel;
+  reason: TierDecision['reason'];
+  /** Metric values the decision was based on */
+  metrics: Record<string, number>;
+  /** For downgrades, the retention checks the member failed */
+  failedChecks: MetricCheck[];
+  status: TierChangeProposalStatus;
+  createdAt: Date;
+  decidedBy?: string;
+  decidedAt?: Date;
+  decisionNote?: string;
+}
+
+export interface VipGraceState {
+  customerId: string;
+  tier: VipTierLevel;
+  graceStartedAt: Date;
+  graceEndsAt: Date;
+}
+
+export abstract class VipTierReviewRepository {
+  abstract saveProposal(proposal: VipTierChangeProposal): Promise<void>;
+  abstract findProposal(id: string): Promise<VipTierChangeProposal | null>;
+  abstract findProposals(query?: { status?: TierChangeProposalStatus; runId?: string; customerId?: string }): Promise<VipTierChangeProposal[]>;
+  abstract getGraceState(customerId: string): Promise<VipGraceState | null>;
+  abstract saveGraceState(state: VipGraceState): Promise<void>;
+  abstract clearGraceState(customerId: string): Promise<void>;
+}
+
+// In-memory implementation for testing/demonstration
+export class InMemoryVipTierReviewRepository extends VipTierReviewRepository {
+  private proposals: Map<string, VipTierChangeProposal> = new Map();
+  private graceStates: Map<string, VipGraceState> = new Map();
+
+  async saveProposal(proposal: VipTierChangeProposal): Promise<void> {
+    this.proposals.set(proposal.id, { ...proposal });
+  }
+
+  async findProposal(id: string): Promise<VipTierChangeProposal | null> {
+    const proposal = this.proposals.get(id);
+    return proposal ? { ...proposal } : null;
+  }
+
+  async findProposals(query: { status?: TierChangeProposalStatus; runId?: string; customerId?: string } = {}): Promise<VipTierChangeProposal[]> {
+    return Array.from(this.proposals.values())
+      .filter(p => !query.status || p.status === query.status)
+      .filter(p => !query.runId || p.runId === query.runId)
+      .filter(p => !query.customerId || p.customerId === query.customerId)
+      .map(p => ({ ...p }));
+  }
+
+  async getGraceState(customerId: string): Promise<VipGraceState | null> {
+    return this.graceStates.get(customerId) || null;
+  }
+
+  async saveGraceState(state: VipGraceState): Promise<void> {
+    this.graceStates.set(state.customerId, state);
+  }
+
+  async clearGraceState(customerId: string): Promise<void> {
+    this.graceStates.delete(customerId);
+  }
+
+  // Utility methods for testing
+  clear(): void {
+    this.proposals.clear();
+    this.graceStates.clear();
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * VIP Rolling Metrics
+ * Domain-Driven Design Implementation
+ *
+ * Computes windowed customer metrics (turnover, deposit frequency, net gaming
+ * revenue) from the activity time series used by tier rules
+ */
+
+import { VipCustomerStats } from '../entities/vip-customer';
+
+export type VipActivityType = 'deposit' | 'withdrawal' | 'wager' | 'payout' | 'bonus';
+
+export interface VipActivityEvent {
+  customerId: string;
+  type: VipActivityType;
+  amount: number;
+  occurredAt: Date;
+}
+
+/**
+ * Metrics computed over a trailing window of activity
+ */
+export type RollingMetric =
+  | 'turnover'
+  | 'deposits'
+  | 'depositCount'
+  | 'depositDays'
+  | 'withdrawals'
+  | 'ngr'
+  | 'activeDays';
+
+/**
+ * Point-in-time metrics read from the customer stats snapshot
+ */
+export type SnapshotMetric =
+  | 'accountAgeDays'
+  | 'loyaltyPoints'
+  | 'activityScore'
+  | 'lifetimeDeposits'
+  | 'lifetimeTurnover';
+
+export type VipMetric = RollingMetric | SnapshotMetric;
+
+export const ROLLING_METRICS: RollingMetric[] = [
+  'turnover', 'deposits', 'depositCount', 'depositDays', 'withdrawals', 'ngr', 'activeDays'
+];
+
+export const SNAPSHOT_METRICS: SnapshotMetric[] = [
+  'accountAgeDays', 'loyaltyPoints', 'activityScore', 'lifetimeDeposits', 'lifetimeTurnover'
+];
+
+/**
+ * Source of the activity time series, typically backed by the wager and
+ * transaction stores
+ */
+export interface VipActivitySource {
+  findActivity(customerId: string, since: Date, until: Date): Promise<VipActivityEvent[]>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isRollingMetric(metric: string): metric is RollingMetric {
+  return (ROLLING_METRICS as string[]).includes(metric);
+}
+
+export function isSnapshotMetric(metric: string): metric is SnapshotMetric {
+  return (SNAPSHOT_METRICS as string[]).includes(metric);
+}
+
+/**
+ * Key under which a metric value is stored, e.g. `turnover:90d`
+ */
+export function metricKey(metric: VipMetric, windowDays?: number): string {
+  return windowDays !== undefined && isRollingMetric(metric) ? `${metric}:${windowDays}d` : metric;
+}
+
+/**
+ * Compute a rolling metric over the `windowDays` ending at `asOf`
+ */
+export function computeRollingMetric(
+  events: VipActivityEvent[],
+  metric: RollingMetric,
+  windowDays: number,
+  asOf: Date
+): number {
+  const until = asOf.getTime();
+  const since = until - windowDays * DAY_MS;
+  const inWindow = events.filter(e => {
+    const at = e.occurredAt.getTime();
+    return at > since && at <= until;
+  });
+
+  const sum = (type: VipActivityType) =>
+    inWindow.filter(e => e.type === type).reduce((total, e) => total + e.amount, 0);
+  const distinctDays = (list: VipActivityEvent[]) =>
+    new Set(list.map(e => Math.floor(e.occurredAt.getTime() / DAY_MS))).size;
+
+  switch (metric) {
+    case 'turnover':
+      return round(sum('wager'));
+    case 'deposits':
+      return round(sum('deposit'));
+    case 'depositCount':
+      return inWindow.filter(e => e.type === 'deposit').length;
+    case 'depositDays':
+      return distinctDays(inWindow.filter(e => e.type === 'deposit'));
+    case 'withdrawals':
+      return round(sum('withdrawal'));
+    case 'ngr':
+      // Net gaming revenue: stakes minus winnings paid and bonus cost
+      return round(sum('wager') - sum('payout') - sum('bonus'));
+    case 'activeDays':
+      return distinctDays(inWindow.filter(e => e.type === 'wager' || e.type === 'deposit'));
+  }
+}
+
+export function readSnapshotMetric(stats: VipCustomerStats, metric: SnapshotMetric): number {
+  switch (metric) {
+    case 'accountAgeDays':
+      return stats.accountAgeDays;
+    case 'loyaltyPoints':
+      return stats.loyaltyPoints;
+    case 'activityScore':
+      return stats.activityScore;
+    case 'lifetimeDeposits':
+      return stats.totalDeposits;
+    case 'lifetimeTurnover':
+      return stats.totalBettingVolume;
+  }
+}
+
+/**
+ * In-memory activity source for testing/demonstration
+ */
+export class InMemoryVipActivitySource implements VipActivitySource {
+  private events: VipActivityEvent[] = [];
+
+  record(...events: VipActivityEvent[]): void {
+    this.events.push(...events);
+  }
+
+  async findActivity(customerId: string, since: Date, until: Date): Promise<VipActivityEvent[]> {
+    return this.events.filter(e =>
+      e.customerId === customerId && e.occurredAt > since && e.occurredAt <= until
+    );
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
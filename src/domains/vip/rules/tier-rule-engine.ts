@@ -0,0 +1,278 @@
+/**
+ * VIP Tier Rule Engine
+ * Domain-Driven Design Implementation
+ *
+ * Evaluates tier rules against rolling metrics and decides tier movements,
+ * honouring grace periods and downgrade protection
+ */
+
+import { VipCustomerStats } from '../entities/vip-customer';
+import { VipTierLevel } from '../value-objects/vip-tier';
+import { DomainError } from '../../shared/domain-entity';
+import defaultTierRules from './default-tier-rules.json';
+import {
+  ComparisonOperator,
+  MetricCondition,
+  TierCondition,
+  TierRule,
+  TierRuleSet,
+  createTierRuleSet
+} from './tier-rules';
+import {
+  VipActivityEvent,
+  computeRollingMetric,
+  isRollingMetric,
+  metricKey,
+  readSnapshotMetric
+} from './rolling-metrics';
+
+export interface MetricCheck {
+  /** Metric key, e.g. `turnover:90d` */
+  metric: string;
+  operator: ComparisonOperator;
+  threshold: number;
+  actual: number;
+  passed: boolean;
+}
+
+export interface TierEvaluation {
+  level: VipTierLevel;
+  qualifies: boolean;
+  retains: boolean;
+  /** Qualification checks that failed, used to explain the gap to the next tier */
+  failedChecks: MetricCheck[];
+  /** Retention checks that failed, reported with downgrade proposals */
+  failedRetentionChecks: MetricCheck[];
+}
+
+export interface CustomerTierEvaluation {
+  asOf: Date;
+  metrics: Record<string, number>;
+  tiers: TierEvaluation[];
+  highestQualified: VipTierLevel;
+}
+
+/**
+ * Per-customer state carried between maintenance runs
+ */
+export interface TierReviewState {
+  /** When the member entered the current tier */
+  lastTierChangeAt?: Date;
+  /** When the member first failed the retention rules of the current tier */
+  graceStartedAt?: Date;
+}
+
+export type TierDecisionAction = 'upgrade' | 'downgrade' | 'hold' | 'none';
+
+export interface TierDecision {
+  action: TierDecisionAction;
+  fromTier: VipTierLevel;
+  toTier?: VipTierLevel;
+  reason: 'qualified_for_higher_tier' | 'retention_failed' | 'retained' |
+    'grace_period_started' | 'in_grace_period' | 'downgrade_protection';
+  graceStartedAt?: Date;
+  graceEndsAt?: Date;
+  protectedUntil?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPARATORS: Record<ComparisonOperator, (actual: number, threshold: number) => boolean> = {
+  gte: (a, t) => a >= t,
+  gt: (a, t) => a > t,
+  lte: (a, t) => a <= t,
+  lt: (a, t) => a < t,
+  eq: (a, t) => a === t
+};
+
+export class TierRuleEngine {
+  constructor(private readonly rules: TierRuleSet) {}
+
+  static withDefaults(): TierRuleEngine {
+    return new TierRuleEngine(createTierRuleSet(defaultTierRules));
+  }
+
+  getRules(): TierRuleSet {
+    return this.rules;
+  }
+
+  /**
+   * Longest window any rule looks back, i.e. how much activity to load
+   */
+  getLookbackDays(): number {
+    let longest = 0;
+    for (const tier of this.rules.tiers) {
+      for (const condition of [tier.qualify, tier.retain]) {
+        for (const leaf of leaves(condition)) {
+          longest = Math.max(longest, leaf.windowDays ?? 0);
+        }
+      }
+    }
+    return longest;
+  }
+
+  evaluate(
+    stats: VipCustomerStats,
+    events: VipActivityEvent[],
+    asOf: Date = new Date()
+  ): CustomerTierEvaluation {
+    const metrics = this.collectMetrics(stats, events, asOf);
+    let highestQualified = this.rules.tiers[0].level;
+
+    const tiers = this.rules.tiers.map(tier => {
+      const qualifyChecks: MetricCheck[] = [];
+      const retainChecks: MetricCheck[] = [];
+      const qualifies = tier.qualify ? check(tier.qualify, metrics, qualifyChecks) : true;
+      const retains = tier.retain ? check(tier.retain, metrics, retainChecks) : true;
+
+      if (qualifies) {
+        highestQualified = tier.level;
+      }
+
+      return {
+        level: tier.level,
+        qualifies,
+        retains,
+        failedChecks: qualifyChecks.filter(c => !c.passed),
+        failedRetentionChecks: retains ? [] : retainChecks.filter(c => !c.passed)
+      };
+    });
+
+    return { asOf, metrics, tiers, highestQualified };
+  }
+
+  /**
+   * Decide the tier movement for a member currently at `currentTier`
+   *
+   * Upgrades apply as soon as a higher tier qualifies. A member failing
+   * retention is held while downgrade protection or the grace period lasts,
+   * then dropped to the highest retained tier, at most `maxDowngradeSteps`.
+   */
+  decide(
+    currentTier: VipTierLevel,
+    evaluation: CustomerTierEvaluation,
+    state: TierReviewState = {}
+  ): TierDecision {
+    const currentIndex = this.indexOf(currentTier);
+    const highestIndex = this.indexOf(evaluation.highestQualified);
+    const rule = this.rules.tiers[currentIndex];
+    const asOf = evaluation.asOf;
+
+    if (highestIndex > currentIndex) {
+      return {
+        action: 'upgrade',
+        fromTier: currentTier,
+        toTier: evaluation.highestQualified,
+        reason: 'qualified_for_higher_tier'
+      };
+    }
+
+    if (evaluation.tiers[currentIndex].retains || currentIndex === 0) {
+      return { action: 'none', fromTier: currentTier, reason: 'retained' };
+    }
+
+    if (state.lastTierChangeAt) {
+      const protectedUntil = addDays(state.lastTierChangeAt, rule.downgradeProtectionDays);
+      if (asOf < protectedUntil) {
+        return { action: 'hold', fromTier: currentTier, reason: 'downgrade_protection', protectedUntil };
+      }
+    }
+
+    const graceStartedAt = state.graceStartedAt ?? asOf;
+    const graceEndsAt = addDays(graceStartedAt, rule.graceDays);
+    if (asOf < graceEndsAt) {
+      return {
+        action: 'hold',
+        fromTier: currentTier,
+        reason: state.graceStartedAt ? 'in_grace_period' : 'grace_period_started',
+        graceStartedAt,
+        graceEndsAt
+      };
+    }
+
+    const floor = Math.max(0, currentIndex - this.rules.maxDowngradeSteps);
+    let targetIndex = floor;
+    for (let i = currentIndex - 1; i >= floor; i--) {
+      if (evaluation.tiers[i].retains) {
+        targetIndex = i;
+        break;
+      }
+    }
+
+    return {
+      action: 'downgrade',
+      fromTier: currentTier,
+      toTier: this.rules.tiers[targetIndex].level,
+      reason: 'retention_failed',
+      graceStartedAt,
+      graceEndsAt
+    };
+  }
+
+  getTierRule(level: VipTierLevel): TierRule {
+    return this.rules.tiers[this.indexOf(level)];
+  }
+
+  compare(a: VipTierLevel, b: VipTierLevel): number {
+    return this.indexOf(a) - this.indexOf(b);
+  }
+
+  private collectMetrics(
+    stats: VipCustomerStats,
+    events: VipActivityEvent[],
+    asOf: Date
+  ): Record<string, number> {
+    const metrics: Record<string, number> = {};
+    for (const tier of this.rules.tiers) {
+      for (const condition of [tier.qualify, tier.retain]) {
+        for (const leaf of leaves(condition)) {
+          const key = metricKey(leaf.metric, leaf.windowDays);
+          if (key in metrics) continue;
+          metrics[key] = isRollingMetric(leaf.metric)
+            ? computeRollingMetric(events, leaf.metric, leaf.windowDays!, asOf)
+            : readSnapshotMetric(stats, leaf.metric);
+        }
+      }
+    }
+    return metrics;
+  }
+
+  private indexOf(level: VipTierLevel): number {
+    const index = this.rules.tiers.findIndex(t => t.level === level);
+    if (index === -1) {
+      throw new DomainError(`Tier ${level} is not defined in the active tier rules`, 'UNKNOWN_VIP_TIER');
+    }
+    return index;
+  }
+}
+
+function check(condition: TierCondition, metrics: Record<string, number>, checks: MetricCheck[]): boolean {
+  if ('all' in condition) {
+    // Evaluate every branch so all failing checks are reported
+    return condition.all.map(c => check(c, metrics, checks)).every(Boolean);
+  }
+  if ('any' in condition) {
+    return condition.any.map(c => check(c, metrics, checks)).some(Boolean);
+  }
+  if ('not' in condition) {
+    return !check(condition.not, metrics, []);
+  }
+
+  const key = metricKey(condition.metric, condition.windowDays);
+  const actual = metrics[key] ?? 0;
+  const passed = COMPARATORS[condition.operator](actual, condition.threshold);
+  checks.push({ metric: key, operator: condition.operator, threshold: condition.threshold, actual, passed });
+  return passed;
+}
+
+function leaves(condition?: TierCondition): MetricCondition[] {
+  if (!condition) return [];
+  if ('all' in condition) return condition.all.flatMap(leaves);
+  if ('any' in condition) return condition.any.flatMap(leaves);
+  if ('not' in condition) return leaves(condition.not);
+  return [condition];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
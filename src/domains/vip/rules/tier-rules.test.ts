@@ -0,0 +1,157 @@
+/**
+ * VIP Tier Rules Tests
+ * Rule parsing, rolling metrics and maintenance proposals
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { parseTierRules } from "./tier-rules";
+import { TierRuleEngine } from "./tier-rule-engine";
+import { InMemoryVipActivitySource, VipActivityEvent, computeRollingMetric } from "./rolling-metrics";
+import { VipService } from "../services/vip-service";
+import { InMemoryVipCustomerRepository } from "../repositories/vip-customer-repository";
+import { InMemoryVipTierReviewRepository } from "../repositories/vip-tier-review-repository";
+import { VipCustomer, VipCustomerStats } from "../entities/vip-customer";
+import { VipTier } from "../value-objects/vip-tier";
+import { DomainEvents } from "../../shared/events/domain-events";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number, from: Date = new Date()) => new Date(from.getTime() - days * DAY_MS);
+
+const stats: VipCustomerStats = {
+  totalDeposits: 20000,
+  totalBettingVolume: 80000,
+  totalWinnings: 5000,
+  accountAgeDays: 400,
+  loyaltyPoints: 3000,
+  monthlyDeposits: 2000,
+  monthlyBettingVolume: 9000,
+  activityScore: 90,
+  lastActivityDate: new Date(),
+};
+
+describe("Tier rules", () => {
+  it("should parse YAML rules and normalize rolling windows to days", () => {
+    const rules = parseTierRules(
+      [
+        "version: 2",
+        "tiers:",
+        "  - level: bronze",
+        "  - level: gold",
+        "    qualify:",
+        "      any:",
+        "        - { metric: turnover, window: 12w, gte: 1000 }",
+        "        - { metric: ngr, window: 90, gt: 500 }",
+        "    graceDays: 14",
+      ].join("\n"),
+      "yaml",
+    );
+
+    expect(rules.version).toBe(2);
+    expect(rules.tiers[1].qualify).toEqual({
+      any: [
+        { metric: "turnover", windowDays: 84, operator: "gte", threshold: 1000 },
+        { metric: "ngr", windowDays: 90, operator: "gt", threshold: 500 },
+      ],
+    });
+    // retain falls back to qualify
+    expect(rules.tiers[1].retain).toEqual(rules.tiers[1].qualify);
+
+    expect(() => parseTierRules('{"tiers":[{"level":"gold"},{"level":"silver"}]}', "json")).toThrow("lowest first");
+    expect(() =>
+      parseTierRules('{"tiers":[{"level":"gold","qualify":{"metric":"turnover","gte":1}}]}', "json"),
+    ).toThrow("window is required");
+  });
+
+  it("should compute rolling metrics only from activity inside the window", () => {
+    const asOf = new Date("2026-03-31T12:00:00Z");
+    const events: VipActivityEvent[] = [
+      { customerId: "c1", type: "deposit", amount: 500, occurredAt: daysAgo(1, asOf) },
+      { customerId: "c1", type: "deposit", amount: 250, occurredAt: daysAgo(1, asOf) },
+      { customerId: "c1", type: "deposit", amount: 100, occurredAt: daysAgo(20, asOf) },
+      { customerId: "c1", type: "deposit", amount: 900, occurredAt: daysAgo(45, asOf) },
+      { customerId: "c1", type: "wager", amount: 1000, occurredAt: daysAgo(10, asOf) },
+      { customerId: "c1", type: "payout", amount: 700, occurredAt: daysAgo(10, asOf) },
+      { customerId: "c1", type: "bonus", amount: 50, occurredAt: daysAgo(10, asOf) },
+    ];
+
+    expect(computeRollingMetric(events, "deposits", 30, asOf)).toBe(850);
+    expect(computeRollingMetric(events, "depositCount", 30, asOf)).toBe(3);
+    expect(computeRollingMetric(events, "depositDays", 30, asOf)).toBe(2);
+    expect(computeRollingMetric(events, "deposits", 90, asOf)).toBe(1750);
+    expect(computeRollingMetric(events, "ngr", 30, asOf)).toBe(250);
+  });
+});
+
+describe("VipService monthly maintenance", () => {
+  let customers: InMemoryVipCustomerRepository;
+  let activity: InMemoryVipActivitySource;
+  let reviews: InMemoryVipTierReviewRepository;
+  let service: VipService;
+
+  const activeMonth = (customerId: string, asOf: Date): VipActivityEvent[] =>
+    Array.from({ length: 6 }, (_, i) => [
+      { customerId, type: "deposit" as const, amount: 1500, occurredAt: daysAgo(i * 4 + 1, asOf) },
+      { customerId, type: "wager" as const, amount: 6000, occurredAt: daysAgo(i * 4 + 1, asOf) },
+      { customerId, type: "payout" as const, amount: 5000, occurredAt: daysAgo(i * 4 + 1, asOf) },
+    ]).flat();
+
+  beforeEach(() => {
+    customers = new InMemoryVipCustomerRepository();
+    activity = new InMemoryVipActivitySource();
+    reviews = new InMemoryVipTierReviewRepository();
+    service = new VipService(customers, DomainEvents.getInstance(), TierRuleEngine.withDefaults(), activity, reviews);
+  });
+
+  it("should propose upgrades from rolling metrics and apply them on bulk approval", async () => {
+    const asOf = new Date();
+    const member = VipCustomer.create({ customerId: "c_up", initialTier: VipTier.silver(), stats });
+    await customers.save(member);
+    activity.record(...activeMonth("c_up", asOf));
+
+    const diff = await service.processMonthlyVipMaintenance(asOf);
+    expect(diff.upgrades).toHaveLength(1);
+    expect(diff.upgrades[0]).toMatchObject({ fromTier: "silver", toTier: "gold", status: "pending" });
+    expect(diff.upgrades[0].metrics["turnover:90d"]).toBe(36000);
+
+    // Nothing changes until a manager approves
+    expect(member.getCurrentTier().getLevel()).toBe("silver");
+
+    const result = await service.approveTierChanges([diff.upgrades[0].id, "missing"], "manager_1");
+    expect(result.processed).toHaveLength(1);
+    expect(result.failed).toEqual([{ proposalId: "missing", error: "Tier change proposal missing not found" }]);
+    expect((await customers.findByCustomerId("c_up"))!.getCurrentTier().getLevel()).toBe("gold");
+    expect(await service.getTierChangeProposals()).toHaveLength(0);
+  });
+
+  it("should hold downgrades during protection and grace, then propose one tier down", async () => {
+    const member = VipCustomer.create({ customerId: "c_down", initialTier: VipTier.platinum(), stats });
+    await customers.save(member);
+
+    // Entered the tier today: protected for 120 days
+    const first = await service.processMonthlyVipMaintenance(new Date());
+    expect(first.held).toEqual([
+      expect.objectContaining({ customerId: "c_down", reason: "downgrade_protection" }),
+    ]);
+
+    const afterProtection = daysAgo(-130);
+    const second = await service.processMonthlyVipMaintenance(afterProtection);
+    expect(second.held[0]).toMatchObject({ reason: "grace_period_started" });
+    expect(second.downgrades).toHaveLength(0);
+
+    const third = await service.processMonthlyVipMaintenance(daysAgo(-30, afterProtection));
+    expect(third.held[0]).toMatchObject({ reason: "in_grace_period" });
+
+    const fourth = await service.processMonthlyVipMaintenance(daysAgo(-46, afterProtection));
+    expect(fourth.downgrades).toHaveLength(1);
+    expect(fourth.downgrades[0]).toMatchObject({ fromTier: "platinum", toTier: "gold" });
+    expect(fourth.downgrades[0].failedChecks.map((c) => c.metric)).toEqual(["turnover:90d", "depositDays:30d"]);
+
+    const rejected = await service.rejectTierChanges([fourth.downgrades[0].id], "manager_1", "Seasonal player");
+    expect(rejected.processed[0]).toMatchObject({ status: "rejected", decisionNote: "Seasonal player" });
+    expect(member.getCurrentTier().getLevel()).toBe("platinum");
+
+    // The grace period already ran out, so the next run proposes again
+    const fifth = await service.processMonthlyVipMaintenance(daysAgo(-76, afterProtection));
+    expect(fifth.downgrades).toHaveLength(1);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * VIP Tier Rules
+ * Domain-Driven Design Implementation
+ *
+ * Tier qualification and retention rules defined as data (JSON or YAML)
+ *
+ * Example:
+ *   version: 1
+ *   maxDowngradeSteps: 1
+ *   tiers:
+ *     - level: bronze
+ *     - level: silver
+ *       qualify:
+ *         all:
+ *           - { metric: turnover, window: 90d, gte: 5000 }
+ *           - { metric: depositDays, window: 30d, gte: 2 }
+ *       retain: { metric: turnover, window: 90d, gte: 4000 }
+ *       graceDays: 30
+ *       downgradeProtectionDays: 90
+ */
+
+import { YAML } from 'bun';
+import { DomainError } from '../../shared/domain-entity';
+import { VipTierLevel } from '../value-objects/vip-tier';
+import { VipMetric, isRollingMetric, isSnapshotMetric } from './rolling-metrics';
+
+export type ComparisonOperator = 'gte' | 'gt' | 'lte' | 'lt' | 'eq';
+
+export interface MetricCondition {
+  metric: VipMetric;
+  /** Trailing window in days; required for rolling metrics */
+  windowDays?: number;
+  operator: ComparisonOperator;
+  threshold: number;
+}
+
+export type TierCondition =
+  | { all: TierCondition[] }
+  | { any: TierCondition[] }
+  | { not: TierCondition }
+  | MetricCondition;
+
+export interface TierRule {
+  level: VipTierLevel;
+  /** Conditions to enter the tier; the base tier usually has none */
+  qualify?: TierCondition;
+  /** Conditions to stay in the tier; defaults to `qualify` */
+  retain?: TierCondition;
+  /** Days a member failing `retain` keeps the tier before a downgrade is proposed */
+  graceDays: number;
+  /** Days after entering the tier during which no downgrade is proposed */
+  downgradeProtectionDays: number;
+}
+
+export interface TierRuleSet {
+  version: number;
+  /** Lowest tier first */
+  tiers: TierRule[];
+  /** Maximum tiers a single maintenance run may drop a member */
+  maxDowngradeSteps: number;
+}
+
+export type TierRuleFormat = 'json' | 'yaml';
+
+const TIER_ORDER: VipTierLevel[] = ['bronze', 'silver', 'gold', 'platinum', 'diamond'];
+const OPERATORS: ComparisonOperator[] = ['gte', 'gt', 'lte', 'lt', 'eq'];
+
+/**
+ * Load a rule set from a `.json`, `.yaml` or `.yml` file
+ */
+export async function loadTierRules(path: string): Promise<TierRuleSet> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    throw new DomainError(`Tier rules file not found: ${path}`, 'TIER_RULES_NOT_FOUND');
+  }
+
+  const format: TierRuleFormat = /\.ya?ml$/i.test(path) ? 'yaml' : 'json';
+  return parseTierRules(await file.text(), format);
+}
+
+export function parseTierRules(source: string, format: TierRuleFormat): TierRuleSet {
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? YAML.parse(source) : JSON.parse(source);
+  } catch (error) {
+    throw invalid(`Tier rules are not valid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+  return createTierRuleSet(raw);
+}
+
+/**
+ * Validate raw rule data and normalize windows ("90d", "12w") to days
+ */
+export function createTierRuleSet(raw: unknown): TierRuleSet {
+  if (!isRecord(raw) || !Array.isArray(raw.tiers) || raw.tiers.length === 0) {
+    throw invalid('Tier rules must define a non-empty "tiers" list');
+  }
+
+  const tiers = raw.tiers.map((tier, index) => parseTier(tier, `tiers[${index}]`));
+
+  tiers.forEach((tier, index) => {
+    if (index > 0 && TIER_ORDER.indexOf(tier.level) <= TIER_ORDER.indexOf(tiers[index - 1].level)) {
+      throw invalid(`Tiers must be listed lowest first without duplicates (${tier.level})`);
+    }
+  });
+
+  const maxDowngradeSteps = raw.maxDowngradeSteps ?? 1;
+  if (!Number.isInteger(maxDowngradeSteps) || (maxDowngradeSteps as number) < 1) {
+    throw invalid('maxDowngradeSteps must be a positive integer');
+  }
+
+  return {
+    version: typeof raw.version === 'number' ? raw.version : 1,
+    tiers,
+    maxDowngradeSteps: maxDowngradeSteps as number
+  };
+}
+
+function parseTier(raw: unknown, path: string): TierRule {
+  if (!isRecord(raw) || !TIER_ORDER.includes(raw.level as VipTierLevel)) {
+    throw invalid(`${path}.level must be one of ${TIER_ORDER.join(', ')}`);
+  }
+
+  const days = (key: string): number => {
+    const value = raw[key] ?? 0;
+    if (typeof value !== 'number' || value < 0) {
+      throw invalid(`${path}.${key} must be a non-negative number of days`);
+    }
+    return value;
+  };
+
+  const qualify = raw.qualify === undefined ? undefined : parseCondition(raw.qualify, `${path}.qualify`);
+  const retain = raw.retain === undefined ? qualify : parseCondition(raw.retain, `${path}.retain`);
+
+  return {
+    level: raw.level as VipTierLevel,
+    qualify,
+    retain,
+    graceDays: days('graceDays'),
+    downgradeProtectionDays: days('downgradeProtectionDays')
+  };
+}
+
+function parseCondition(raw: unknown, path: string): TierCondition {
+  if (!isRecord(raw)) {
+    throw invalid(`${path} must be a condition object`);
+  }
+
+  if ('all' in raw || 'any' in raw) {
+    const key = 'all' in raw ? 'all' : 'any';
+    const list = raw[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      throw invalid(`${path}.${key} must be a non-empty list`);
+    }
+    const conditions = list.map((c, i) => parseCondition(c, `${path}.${key}[${i}]`));
+    return key === 'all' ? { all: conditions } : { any: conditions };
+  }
+
+  if ('not' in raw) {
+    return { not: parseCondition(raw.not, `${path}.not`) };
+  }
+
+  const metric = raw.metric;
+  if (typeof metric !== 'string' || !(isRollingMetric(metric) || isSnapshotMetric(metric))) {
+    throw invalid(`${path}.metric "${String(metric)}" is not a known VIP metric`);
+  }
+
+  const operators = OPERATORS.filter(op => op in raw);
+  if (operators.length !== 1 || typeof raw[operators[0]] !== 'number') {
+    throw invalid(`${path} needs exactly one numeric comparison (${OPERATORS.join(', ')})`);
+  }
+
+  const condition: MetricCondition = {
+    metric,
+    operator: operators[0],
+    threshold: raw[operators[0]] as number
+  };
+
+  if (isRollingMetric(metric)) {
+    if (raw.window === undefined) {
+      throw invalid(`${path}.window is required for rolling metric "${metric}"`);
+    }
+    condition.windowDays = parseWindow(raw.window, `${path}.window`);
+  }
+
+  return condition;
+}
+
+/**
+ * Accepts a number of days or a duration such as "30d", "12w", "3m"
+ */
+function parseWindow(raw: unknown, path: string): number {
+  if (typeof raw === 'number' && Number.isInteger(raw) && raw > 0) {
+    return raw;
+  }
+
+  const match = typeof raw === 'string' ? raw.trim().match(/^(\d+)\s*([dwm])$/i) : null;
+  if (!match || Number(match[1]) === 0) {
+    throw invalid(`${path} must be a positive duration like "90d", "12w" or "3m"`);
+  }
+
+  const unit = { d: 1, w: 7, m: 30 }[match[2].toLowerCase() as 'd' | 'w' | 'm'];
+  return Number(match[1]) * unit;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(message: string): DomainError {
+  return new DomainError(message, 'INVALID_TIER_RULES');
+}
@@ -10,6 +10,14 @@ import { VipTier, VipTierLevel } from '../value-objects/vip-tier';
 import { VipCustomerRepository } from '../repositories/vip-customer-repository';
 import { DomainEvents } from '../../shared/events/domain-events';
 import { DomainError } from '../../shared/domain-entity';
+import { TierRuleEngine, CustomerTierEvaluation, MetricCheck } from '../rules/tier-rule-engine';
+import { VipActivitySource, InMemoryVipActivitySource } from '../rules/rolling-metrics';
+import {
+  VipTierReviewRepository,
+  InMemoryVipTierReviewRepository,
+  VipTierChangeProposal,
+  TierChangeProposalStatus
+} from '../repositories/vip-tier-review-repository';
 
 export interface VipQualificationRequest {
   customerId: string;
@@ -31,10 +39,41 @@ export interface VipBenefitsCalculation {
   availableBenefits: string[];
 }
 
+export interface VipTierHold {
+  customerId: string;
+  tier: VipTierLevel;
+  reason: 'grace_period_started' | 'in_grace_period' | 'downgrade_protection';
+  graceEndsAt?: Date;
+  protectedUntil?: Date;
+}
+
+/**
+ * Proposed tier movements from a maintenance run; nothing is applied until
+ * a manager approves the proposals
+ */
+export interface VipMaintenanceDiff {
+  runId: string;
+  asOf: Date;
+  reviewsCompleted: number;
+  upgrades: VipTierChangeProposal[];
+  downgrades: VipTierChangeProposal[];
+  held: VipTierHold[];
+  unchanged: number;
+  suspensionsProcessed: number;
+}
+
+export interface VipTierDecisionResult {
+  processed: VipTierChangeProposal[];
+  failed: Array<{ proposalId: string; error: string }>;
+}
+
 export class VipService {
   constructor(
     private repository: VipCustomerRepository,
-    private eventPublisher: DomainEvents
+    private eventPublisher: DomainEvents,
+    private tierRules: TierRuleEngine = TierRuleEngine.withDefaults(),
+    private activitySource: VipActivitySource = new InMemoryVipActivitySource(),
+    private tierReviews: VipTierReviewRepository = new InMemoryVipTierReviewRepository()
   ) {}
 
   /**
@@ -88,31 +127,27 @@ export class VipService {
   }
 
   /**
-   * Evaluate VIP qualification for existing or potential customers
+   * Evaluate VIP qualification against the tier rules, using rolling
+   * activity metrics as of `asOf`
    */
-  async evaluateVipQualification(request: VipQualificationRequest): Promise<{
+  async evaluateVipQualification(request: VipQualificationRequest, asOf: Date = new Date()): Promise<{
     isEligible: boolean;
     recommendedTier: VipTierLevel;
     qualificationDetails: any;
+    metrics: Record<string, number>;
     nextSteps: string[];
   }> {
     try {
-      const tiers = this.getAllTiers();
-      let highestEligibleTier: VipTierLevel = 'bronze';
+      const evaluation = await this.evaluateTierRules(request.customerId, request.stats, asOf);
+      const highestEligibleTier = evaluation.highestQualified;
       const qualificationDetails: any = {};
 
-      // Evaluate against each tier
-      for (const tier of tiers) {
-        const isEligible = tier.isEligibleForUpgrade(request.stats);
-        qualificationDetails[tier.getLevel()] = {
-          eligible: isEligible,
-          requirements: tier.getRequirements(),
-          customerStats: request.stats
+      for (const tier of evaluation.tiers) {
+        qualificationDetails[tier.level] = {
+          eligible: tier.qualifies,
+          retains: tier.retains,
+          failedChecks: tier.failedChecks
         };
-
-        if (isEligible && this.getTierOrder(tier.getLevel()) > this.getTierOrder(highestEligibleTier)) {
-          highestEligibleTier = tier.getLevel();
-        }
       }
 
       // Determine recommended tier
@@ -122,12 +157,13 @@ export class VipService {
       }
 
       // Generate next steps
-      const nextSteps = this.generateQualificationNextSteps(qualificationDetails, highestEligibleTier);
+      const nextSteps = this.generateQualificationNextSteps(evaluation, highestEligibleTier);
 
       return {
-        isEligible: highestEligibleTier !== 'bronze',
+        isEligible: highestEligibleTier !== this.tierRules.getRules().tiers[0].level,
         recommendedTier,
         qualificationDetails,
+        metrics: evaluation.metrics,
         nextSteps
       };
 
@@ -223,60 +259,34 @@ export class VipService {
 
   /**
    * Process monthly VIP maintenance and reviews
+   *
+   * Tier movements are returned as pending proposals (see
+   * `approveTierChanges` / `rejectTierChanges`); a new run supersedes any
+   * proposal still pending for the same customer.
    */
-  async processMonthlyVipMaintenance(): Promise<{
-    reviewsCompleted: number;
-    upgradesProcessed: number;
-    downgradesProcessed: number;
-    suspensionsProcessed: number;
-  }> {
+  async processMonthlyVipMaintenance(asOf: Date = new Date()): Promise<VipMaintenanceDiff> {
     try {
       const vipCustomers = await this.repository.findAllActive();
-      let reviewsCompleted = 0;
-      let upgradesProcessed = 0;
-      let downgradesProcessed = 0;
-      let suspensionsProcessed = 0;
+      const diff: VipMaintenanceDiff = {
+        runId: crypto.randomUUID(),
+        asOf,
+        reviewsCompleted: 0,
+        upgrades: [],
+        downgrades: [],
+        held: [],
+        unchanged: 0,
+        suspensionsProcessed: 0
+      };
 
       for (const vipCustomer of vipCustomers) {
         try {
           // Check if review is needed
           if (vipCustomer.needsReview()) {
             await this.performVipReview(vipCustomer);
-            reviewsCompleted++;
+            diff.reviewsCompleted++;
           }
 
-          // Check maintenance criteria
-          const currentTier = vipCustomer.getCurrentTier();
-          const stats = vipCustomer.getStats();
-
-          if (!currentTier.meetsMaintenanceCriteria(stats)) {
-            // Determine appropriate action
-            const qualification = await this.evaluateVipQualification({
-              customerId: vipCustomer.getCustomerId(),
-              stats
-            });
-
-            if (qualification.recommendedTier !== currentTier.getLevel()) {
-              const tierOrder = this.getTierOrder(qualification.recommendedTier);
-              const currentOrder = this.getTierOrder(currentTier.getLevel());
-
-              if (tierOrder > currentOrder) {
-                // Upgrade
-                await this.processVipUpgrade({
-                  customerId: vipCustomer.getCustomerId(),
-                  targetTier: qualification.recommendedTier,
-                  reason: 'Maintenance review upgrade',
-                  approvedBy: 'system'
-                });
-                upgradesProcessed++;
-              } else if (tierOrder < currentOrder - 1) { // Downgrade only if significantly below
-                const downgradeTier = this.getTierByLevel(qualification.recommendedTier);
-                vipCustomer.downgradeTier(downgradeTier, 'Maintenance review downgrade', 'system');
-                await this.repository.save(vipCustomer);
-                downgradesProcessed++;
-              }
-            }
-          }
+          await this.reviewTierPlacement(vipCustomer, diff);
 
           // Process birthday bonuses
           if (this.isBirthdayMonth(vipCustomer.getStats().lastActivityDate)) {
@@ -289,12 +299,14 @@ export class VipService {
         }
       }
 
-      return {
-        reviewsCompleted,
-        upgradesProcessed,
-        downgradesProcessed,
-        suspensionsProcessed
-      };
+      await this.eventPublisher.publish('vip.maintenance.proposed', {
+        runId: diff.runId,
+        upgradesProposed: diff.upgrades.length,
+        downgradesProposed: diff.downgrades.length,
+        held: diff.held.length
+      });
+
+      return diff;
 
     } catch (error) {
       console.error('❌ VIP Service: Failed to process monthly VIP maintenance:', error);
@@ -302,6 +314,116 @@ export class VipService {
     }
   }
 
+  /**
+   * List tier change proposals, pending ones by default
+   */
+  async getTierChangeProposals(query: {
+    status?: TierChangeProposalStatus;
+    runId?: string;
+    customerId?: string;
+  } = { status: 'pending' }): Promise<VipTierChangeProposal[]> {
+    return this.tierReviews.findProposals(query);
+  }
+
+  /**
+   * Apply pending tier change proposals in bulk; each proposal succeeds or
+   * fails on its own
+   */
+  async approveTierChanges(proposalIds: string[], approvedBy: string, note?: string): Promise<VipTierDecisionResult> {
+    const result: VipTierDecisionResult = { processed: [], failed: [] };
+
+    for (const proposalId of proposalIds) {
+      try {
+        const proposal = await this.requirePendingProposal(proposalId);
+        const vipCustomer = await this.repository.findByCustomerId(proposal.customerId);
+        if (!vipCustomer) {
+          throw new DomainError('VIP customer not found', 'VIP_CUSTOMER_NOT_FOUND');
+        }
+
+        if (vipCustomer.getCurrentTier().getLevel() !== proposal.fromTier) {
+          throw new DomainError(
+            `Customer tier changed to ${vipCustomer.getCurrentTier().getLevel()} since the proposal was made`,
+            'STALE_TIER_PROPOSAL'
+          );
+        }
+
+        const targetTier = this.getTierByLevel(proposal.toTier);
+        const reason = `Monthly maintenance ${proposal.direction} (${proposal.reason})`;
+        if (proposal.direction === 'upgrade') {
+          vipCustomer.upgradeTier(targetTier, reason, approvedBy, true);
+        } else {
+          vipCustomer.downgradeTier(targetTier, reason, approvedBy);
+        }
+
+        await this.repository.save(vipCustomer);
+        await this.tierReviews.clearGraceState(proposal.customerId);
+
+        const approved: VipTierChangeProposal = {
+          ...proposal,
+          status: 'approved',
+          decidedBy: approvedBy,
+          decidedAt: new Date(),
+          decisionNote: note
+        };
+        await this.tierReviews.saveProposal(approved);
+
+        const eventType = proposal.direction === 'upgrade' ? 'vip.customer.upgraded' : 'vip.customer.downgraded';
+        await this.eventPublisher.publish(eventType, {
+          vipCustomerId: vipCustomer.getId(),
+          customerId: proposal.customerId,
+          fromTier: proposal.fromTier,
+          toTier: proposal.toTier,
+          upgradeBonus: proposal.direction === 'upgrade' ? targetTier.getUpgradeBonus() : 0,
+          approvedBy,
+          proposalId
+        });
+
+        result.processed.push(approved);
+
+      } catch (error) {
+        result.failed.push({
+          proposalId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Reject pending tier change proposals in bulk
+   *
+   * A rejected downgrade keeps its grace state, so the next run proposes it
+   * again if the member still fails retention.
+   */
+  async rejectTierChanges(proposalIds: string[], rejectedBy: string, reason: string): Promise<VipTierDecisionResult> {
+    const result: VipTierDecisionResult = { processed: [], failed: [] };
+
+    for (const proposalId of proposalIds) {
+      try {
+        const proposal = await this.requirePendingProposal(proposalId);
+        const rejected: VipTierChangeProposal = {
+          ...proposal,
+          status: 'rejected',
+          decidedBy: rejectedBy,
+          decidedAt: new Date(),
+          decisionNote: reason
+        };
+        await this.tierReviews.saveProposal(rejected);
+        result.processed.push(rejected);
+
+      } catch (error) {
+        result.failed.push({
+          proposalId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Get VIP analytics and reporting data
    */
@@ -366,16 +488,6 @@ export class VipService {
     return tierMap[level];
   }
 
-  private getAllTiers(): VipTier[] {
-    return [
-      VipTier.bronze(),
-      VipTier.silver(),
-      VipTier.gold(),
-      VipTier.platinum(),
-      VipTier.diamond()
-    ];
-  }
-
   private getTierOrder(level: VipTierLevel): number {
     const order = { bronze: 1, silver: 2, gold: 3, platinum: 4, diamond: 5 };
     return order[level];
@@ -386,23 +498,120 @@ export class VipService {
   }
 
   private generateQualificationNextSteps(
-    details: any,
+    evaluation: CustomerTierEvaluation,
     highestEligibleTier: VipTierLevel
   ): string[] {
     const nextSteps: string[] = [];
+    const highestIndex = evaluation.tiers.findIndex(t => t.level === highestEligibleTier);
+    const nextTier = evaluation.tiers[highestIndex + 1];
 
-    if (highestEligibleTier === 'bronze') {
-      nextSteps.push('Increase deposit amount to $500+');
-      nextSteps.push('Build betting volume to $1,000+');
-      nextSteps.push('Maintain active account for 30+ days');
-    } else {
+    if (highestIndex > 0) {
       nextSteps.push(`Apply for ${highestEligibleTier} VIP tier`);
       nextSteps.push('Schedule consultation with account manager');
     }
 
+    if (nextTier) {
+      for (const check of nextTier.failedChecks) {
+        nextSteps.push(`${this.describeMetricGap(check)} to reach ${nextTier.level}`);
+      }
+    }
+
     return nextSteps;
   }
 
+  private describeMetricGap(check: MetricCheck): string {
+    const [metric, window] = check.metric.split(':');
+    const label = window ? `${metric} (last ${window.replace('d', ' days')})` : metric;
+    return `Raise ${label} from ${check.actual} to ${check.threshold}`;
+  }
+
+  private async evaluateTierRules(
+    customerId: string,
+    stats: VipCustomerStats,
+    asOf: Date
+  ): Promise<CustomerTierEvaluation> {
+    const since = new Date(asOf.getTime() - this.tierRules.getLookbackDays() * 24 * 60 * 60 * 1000);
+    const events = await this.activitySource.findActivity(customerId, since, asOf);
+    return this.tierRules.evaluate(stats, events, asOf);
+  }
+
+  private async reviewTierPlacement(vipCustomer: VipCustomer, diff: VipMaintenanceDiff): Promise<void> {
+    const customerId = vipCustomer.getCustomerId();
+    const currentLevel = vipCustomer.getCurrentTier().getLevel();
+    const evaluation = await this.evaluateTierRules(customerId, vipCustomer.getStats(), diff.asOf);
+
+    // Grace only counts while the member stays in the tier it started in
+    const grace = await this.tierReviews.getGraceState(customerId);
+    const decision = this.tierRules.decide(currentLevel, evaluation, {
+      lastTierChangeAt: vipCustomer.getTierSince(),
+      graceStartedAt: grace?.tier === currentLevel ? grace.graceStartedAt : undefined
+    });
+
+    for (const stale of await this.tierReviews.findProposals({ status: 'pending', customerId })) {
+      await this.tierReviews.saveProposal({ ...stale, status: 'superseded' });
+    }
+
+    if (decision.action === 'upgrade' || decision.action === 'downgrade') {
+      const currentEvaluation = evaluation.tiers.find(t => t.level === currentLevel)!;
+      const proposal: VipTierChangeProposal = {
+        id: crypto.randomUUID(),
+        runId: diff.runId,
+        customerId,
+        vipCustomerId: vipCustomer.getId(),
+        direction: decision.action,
+        fromTier: currentLevel,
+        toTier: decision.toTier!,
+        reason: decision.reason,
+        metrics: evaluation.metrics,
+        failedChecks: decision.action === 'downgrade' ? currentEvaluation.failedRetentionChecks : [],
+        status: 'pending',
+        createdAt: new Date()
+      };
+      await this.tierReviews.saveProposal(proposal);
+      (decision.action === 'upgrade' ? diff.upgrades : diff.downgrades).push(proposal);
+
+      if (decision.action === 'upgrade') {
+        await this.tierReviews.clearGraceState(customerId);
+      }
+      return;
+    }
+
+    if (decision.action === 'hold') {
+      if (decision.reason === 'grace_period_started') {
+        await this.tierReviews.saveGraceState({
+          customerId,
+          tier: currentLevel,
+          graceStartedAt: decision.graceStartedAt!,
+          graceEndsAt: decision.graceEndsAt!
+        });
+      }
+      diff.held.push({
+        customerId,
+        tier: currentLevel,
+        reason: decision.reason as VipTierHold['reason'],
+        graceEndsAt: decision.graceEndsAt,
+        protectedUntil: decision.protectedUntil
+      });
+      return;
+    }
+
+    if (grace) {
+      await this.tierReviews.clearGraceState(customerId);
+    }
+    diff.unchanged++;
+  }
+
+  private async requirePendingProposal(proposalId: string): Promise<VipTierChangeProposal> {
+    const proposal = await this.tierReviews.findProposal(proposalId);
+    if (!proposal) {
+      throw new DomainError(`Tier change proposal ${proposalId} not found`, 'TIER_PROPOSAL_NOT_FOUND');
+    }
+    if (proposal.status !== 'pending') {
+      throw new DomainError(`Tier change proposal ${proposalId} is already ${proposal.status}`, 'TIER_PROPOSAL_NOT_PENDING');
+    }
+    return proposal;
+  }
+
   private async performVipReview(vipCustomer: VipCustomer): Promise<void> {
     // In a real implementation, this would involve more complex review logic
     // For now, we'll just update the next review date
@@ -5,7 +5,8 @@
  * API endpoints for VIP customer management
  */
 
-import { VipService } from './services/vip-service';
+import { VipService, VipMaintenanceDiff, VipTierDecisionResult } from './services/vip-service';
+import { VipTierChangeProposal } from './repositories/vip-tier-review-repository';
 import { VipCustomerRepository } from './repositories/vip-customer-repository';
 import { VipTier, VipTierLevel } from './value-objects/vip-tier';
 import { VipCustomer, VipStatus } from './entities/vip-customer';
@@ -298,7 +299,60 @@ export class VipController {
       return {
         success: true,
         data: result,
-        message: 'Monthly VIP maintenance completed successfully'
+        message: `Monthly VIP maintenance proposed ${result.upgrades.length} upgrades and ${result.downgrades.length} downgrades`
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof DomainError ? error.message : 'Internal server error',
+        code: error instanceof DomainError ? error.code : 'INTERNAL_ERROR'
+      };
+    }
+  }
+
+  /**
+   * List tier change proposals awaiting a decision
+   */
+  async listTierChangeProposals(runId?: string): Promise<VipResponse<VipTierChangeProposal[]>> {
+    try {
+      const proposals = await this.vipService.getTierChangeProposals({ status: 'pending', runId });
+
+      return {
+        success: true,
+        data: proposals
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof DomainError ? error.message : 'Internal server error',
+        code: error instanceof DomainError ? error.code : 'INTERNAL_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Approve or reject tier change proposals in bulk
+   */
+  async decideTierChanges(request: DecideTierChangesRequest): Promise<VipResponse<VipTierDecisionResult>> {
+    try {
+      if (!request.proposalIds?.length || !request.decidedBy) {
+        throw new DomainError('Proposal IDs and decision maker are required', 'INVALID_REQUEST');
+      }
+
+      if (request.decision === 'reject' && !request.note) {
+        throw new DomainError('A reason is required to reject tier changes', 'INVALID_REQUEST');
+      }
+
+      const result = request.decision === 'approve'
+        ? await this.vipService.approveTierChanges(request.proposalIds, request.decidedBy, request.note)
+        : await this.vipService.rejectTierChanges(request.proposalIds, request.decidedBy, request.note!);
+
+      return {
+        success: true,
+        data: result,
+        message: `${result.processed.length} tier changes ${request.decision === 'approve' ? 'approved' : 'rejected'}, ${result.failed.length} failed`
       };
 
     } catch (error) {
@@ -393,6 +447,13 @@ export interface AssignManagerRequest {
   assignedBy: string;
 }
 
+export interface DecideTierChangesRequest {
+  proposalIds: string[];
+  decision: 'approve' | 'reject';
+  decidedBy: string;
+  note?: string;
+}
+
 export interface VipResponse<T> {
   success: boolean;
   data?: T;
@@ -426,6 +487,7 @@ export interface VipQualificationResult {
   isEligible: boolean;
   recommendedTier: VipTierLevel;
   qualificationDetails: any;
+  metrics: Record<string, number>;
   nextSteps: string[];
 }
 
@@ -451,9 +513,4 @@ export interface VipCustomerListData {
   filters: ListVipCustomersRequest;
 }
 
-export interface MonthlyMaintenanceResult {
-  reviewsCompleted: number;
-  upgradesProcessed: number;
-  downgradesProcessed: number;
-  suspensionsProcessed: number;
-}
+export type MonthlyMaintenanceResult = VipMaintenanceDiff;